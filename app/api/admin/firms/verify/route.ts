@@ -8,6 +8,7 @@ import { auth } from '@/lib/auth';
 import { db } from '@/db/drizzle';
 import { lawFirms } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { recordAudit } from '@/lib/audit';
 import { z } from 'zod';
 
 // Input validation schema
@@ -102,12 +103,22 @@ export async function POST(request: NextRequest) {
       .where(eq(lawFirms.id, firmId))
       .returning();
 
+    await recordAudit({
+      userId: session.user.id,
+      action: 'update',
+      resource: 'firm',
+      resourceId: firmId,
+      firmId,
+      before: firm,
+      after: updatedFirm,
+      details: { verificationAction: action, reason },
+    });
+
     // TODO: In a production environment, you would:
     // 1. Send email notification to firm about status change
-    // 2. Create audit log entry
-    // 3. If approved, send trial activation email
-    // 4. If rejected, send rejection reason email
-    // 5. If info requested, send specific request email
+    // 2. If approved, send trial activation email
+    // 3. If rejected, send rejection reason email
+    // 4. If info requested, send specific request email
 
     let message = '';
     switch (action) {
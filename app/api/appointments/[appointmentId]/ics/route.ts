@@ -0,0 +1,58 @@
+/**
+ * Appointment Calendar File API
+ * Downloads an appointment as an iCalendar (.ics) invitation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { getAppointmentCalendarFile, getAppointmentForUser } from '@/lib/appointments';
+
+// GET: The appointment as a .ics file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { appointmentId: string } }
+) {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const appointment = await getAppointmentForUser(params.appointmentId, result.session.userId);
+    if (!appointment) {
+      return NextResponse.json(
+        { error: 'Appointment not found' },
+        { status: 404 }
+      );
+    }
+
+    const calendar = await getAppointmentCalendarFile(appointment);
+
+    const responseHeaders = new Headers();
+    responseHeaders.set('Content-Type', 'text/calendar; charset=utf-8');
+    responseHeaders.set('Content-Disposition', `attachment; filename="${appointment.confirmationNumber}.ics"`);
+    responseHeaders.set('Cache-Control', 'private, no-cache, no-store, must-revalidate');
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: responseHeaders,
+    });
+
+  } catch (error) {
+    console.error('Appointment calendar file error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to build calendar file',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Appointment API
+ * Shows one appointment and confirms, cancels, completes or reschedules it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { z } from 'zod';
+import { getAppointmentForUser, updateAppointment, updateAppointmentSchema } from '@/lib/appointments';
+import { recordAudit } from '@/lib/audit';
+
+// GET: Appointment details
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { appointmentId: string } }
+) {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const appointment = await getAppointmentForUser(params.appointmentId, result.session.userId);
+    if (!appointment) {
+      return NextResponse.json(
+        { error: 'Appointment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      appointment,
+    });
+
+  } catch (error) {
+    console.error('Appointment fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch appointment',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Change the appointment's status or time
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { appointmentId: string } }
+) {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = result.session.userId;
+    const input = updateAppointmentSchema.parse(await request.json());
+
+    const appointment = await getAppointmentForUser(params.appointmentId, userId);
+    if (!appointment) {
+      return NextResponse.json(
+        { error: 'Appointment not found' },
+        { status: 404 }
+      );
+    }
+
+    const updated = await updateAppointment(appointment, userId, input);
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'appointment',
+      resourceId: appointment.id,
+      firmId: appointment.lawFirmId,
+      before: appointment,
+      after: updated.data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      appointment: updated.data,
+    });
+
+  } catch (error) {
+    console.error('Appointment update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update appointment',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
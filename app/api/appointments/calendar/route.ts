@@ -0,0 +1,184 @@
+/**
+ * Lawyer Calendar Settings API
+ * Working hours used for availability, and the private ICS feed URL for subscribing from a calendar app
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { z } from 'zod';
+import {
+  getLawyerCalendar,
+  rotateCalendarFeedToken,
+  updateLawyerWorkingHours,
+  workingHoursSchema,
+} from '@/lib/appointments';
+import { recordAudit } from '@/lib/audit';
+
+const updateCalendarSchema = z.object({
+  workingHours: workingHoursSchema.nullable(), // null follows the firm's hours
+});
+
+// GET: The current lawyer's calendar settings
+export async function GET() {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const calendar = await getLawyerCalendar(result.session.userId);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'User is not associated with any law firm' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      calendar,
+    });
+
+  } catch (error) {
+    console.error('Calendar settings fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch calendar settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Set the current lawyer's working hours
+export async function PUT(request: NextRequest) {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = result.session.userId;
+    const { workingHours } = updateCalendarSchema.parse(await request.json());
+
+    const calendar = await getLawyerCalendar(userId);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'User is not associated with any law firm' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateLawyerWorkingHours(userId, calendar.lawFirmId, workingHours);
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'member',
+      resourceId: userId,
+      firmId: calendar.lawFirmId,
+      before: { workingHours: calendar.usesFirmHours ? null : calendar.workingHours },
+      after: { workingHours },
+    });
+
+    return NextResponse.json({
+      success: true,
+      workingHours: updated.data,
+      usesFirmHours: !workingHours,
+    });
+
+  } catch (error) {
+    console.error('Working hours update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update working hours',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Issue a new private feed URL; the previous URL stops working
+export async function POST() {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = result.session.userId;
+
+    const calendar = await getLawyerCalendar(userId);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'User is not associated with any law firm' },
+        { status: 400 }
+      );
+    }
+
+    const token = await rotateCalendarFeedToken(userId, calendar.lawFirmId);
+    if (!token.success) {
+      return NextResponse.json({ error: token.error }, { status: token.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'member',
+      resourceId: userId,
+      firmId: calendar.lawFirmId,
+      details: { calendarFeedRotated: true, previousFeedRevoked: calendar.feedEnabled },
+      sensitive: true,
+    });
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+    // The token is only ever shown here; only its hash is stored
+    return NextResponse.json({
+      success: true,
+      feedUrl: `${baseUrl}/api/appointments/feed/${token.data}.ics`,
+    });
+
+  } catch (error) {
+    console.error('Calendar feed rotation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create calendar feed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
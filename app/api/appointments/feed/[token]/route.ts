@@ -0,0 +1,40 @@
+/**
+ * Lawyer Calendar Feed API
+ * Subscribable iCalendar feed of a lawyer's appointments, authorised by the private token in the URL
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCalendarFeed } from '@/lib/appointments';
+
+// GET: The lawyer's appointments as an ICS feed; calendar apps may append .ics to the URL
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const calendar = await getCalendarFeed(params.token.replace(/\.ics$/, ''));
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      );
+    }
+
+    const responseHeaders = new Headers();
+    responseHeaders.set('Content-Type', 'text/calendar; charset=utf-8');
+    responseHeaders.set('Cache-Control', 'private, max-age=300');
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: responseHeaders,
+    });
+
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json(
+      { error: 'Failed to build calendar feed' },
+      { status: 500 }
+    );
+  }
+}
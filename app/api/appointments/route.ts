@@ -1,52 +1,24 @@
 /**
  * Appointments API
- * Handles appointment booking for legal services
+ * Handles appointment booking for legal services against each lawyer's calendar
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { headers } from 'next/headers';
-import { db } from '@/db/drizzle';
-import { user } from '@/db/schema';
-import { eq } from 'drizzle-orm';
-
-interface AppointmentRequest {
-  serviceId: string;
-  date: string;
-  time: string;
-  name: string;
-  email: string;
-  phone?: string;
-  notes?: string;
-}
-
-const services = {
-  notarization: {
-    name: 'Will Notarization',
-    duration: 60,
-    price: 500,
-    location: 'court',
-  },
-  legal_review: {
-    name: 'Legal Review',
-    duration: 90,
-    price: 800,
-    location: 'office',
-  },
-  difc_registration: {
-    name: 'DIFC Registration',
-    duration: 120,
-    price: 1200,
-    location: 'court',
-  },
-  consultation: {
-    name: 'Estate Planning Consultation',
-    duration: 60,
-    price: 600,
-    location: 'office',
-  },
-};
-
+import { z } from 'zod';
+import {
+  availabilityQuerySchema,
+  bookAppointmentSchema,
+  bookAppointment,
+  getAvailableSlots,
+  getSchedulingSettings,
+  getUserAppointments,
+  resolveBookingParties,
+} from '@/lib/appointments';
+import { recordAudit } from '@/lib/audit';
+
+// POST: Book an appointment in a free slot
 export async function POST(request: NextRequest) {
   try {
     // Authenticate user
@@ -61,106 +33,52 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let body: AppointmentRequest;
-    try {
-      body = await request.json();
-    } catch (parseError) {
-      return NextResponse.json(
-        { error: 'Invalid request body' },
-        { status: 400 }
-      );
-    }
-
-    const { serviceId, date, time, name, email, phone, notes } = body;
-
-    // Validate required fields
-    if (!serviceId || !date || !time || !name || !email) {
-      return NextResponse.json(
-        { error: 'Missing required fields: serviceId, date, time, name, and email are required' },
-        { status: 400 }
-      );
-    }
+    const userId = result.session.userId;
+    const input = bookAppointmentSchema.parse(await request.json());
 
-    // Validate service exists
-    const service = services[serviceId as keyof typeof services];
-    if (!service) {
-      return NextResponse.json(
-        { error: 'Invalid service ID' },
-        { status: 400 }
-      );
+    const parties = await resolveBookingParties(userId, input);
+    if (!parties.success) {
+      return NextResponse.json({ error: parties.error }, { status: parties.status });
     }
 
-    // Validate date format
-    const appointmentDate = new Date(date);
-    if (isNaN(appointmentDate.getTime())) {
-      return NextResponse.json(
-        { error: 'Invalid date format' },
-        { status: 400 }
-      );
+    const booked = await bookAppointment(userId, parties.data, input);
+    if (!booked.success) {
+      return NextResponse.json({ error: booked.error }, { status: booked.status });
     }
 
-    // Check if date is in the future
-    if (appointmentDate < new Date()) {
-      return NextResponse.json(
-        { error: 'Appointment date must be in the future' },
-        { status: 400 }
-      );
-    }
+    const appointment = booked.data;
 
-    // Get user information
-    const [userInfo] = await db
-      .select()
-      .from(user)
-      .where(eq(user.id, result.session.userId))
-      .limit(1);
-
-    // Create appointment record
-    const appointmentId = generateAppointmentId();
-    const appointment = {
-      id: appointmentId,
-      userId: result.session.userId,
-      serviceId,
-      serviceName: service.name,
-      appointmentDate: appointmentDate.toISOString(),
-      appointmentTime: time,
-      duration: service.duration,
-      price: service.price,
-      location: service.location,
-      status: 'pending',
-      clientName: name,
-      clientEmail: email,
-      clientPhone: phone || '',
-      notes: notes || '',
-      createdAt: new Date().toISOString(),
-    };
-
-    // In a real application, you would store this in a database
-    // For now, we'll simulate the booking process
-    console.log('Appointment booked:', appointment);
-
-    // Send confirmation email (simulated)
-    await sendConfirmationEmail(appointment);
+    await recordAudit({
+      userId,
+      action: 'create',
+      resource: 'appointment',
+      resourceId: appointment.id,
+      firmId: appointment.lawFirmId,
+      after: appointment,
+      details: { matterId: appointment.matterId, lawyerId: appointment.lawyerId },
+    });
 
     return NextResponse.json({
       success: true,
       appointment: {
-        id: appointmentId,
-        serviceId,
-        serviceName: service.name,
-        date: appointmentDate.toISOString(),
-        time,
-        duration: service.duration,
-        price: service.price,
-        status: 'pending',
-        confirmationNumber: appointmentId,
+        ...appointment,
+        calendarUrl: `/api/appointments/${appointment.id}/ics`,
       },
-      message: 'Appointment booked successfully. A confirmation email has been sent.',
-    });
+      message: 'Appointment booked successfully. You will receive a confirmation once the lawyer accepts it.',
+    }, { status: 201 });
 
   } catch (error) {
     console.error('Appointment booking error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
-      { 
+      {
         error: 'Failed to book appointment',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
@@ -169,6 +87,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// GET: Free slots for a service on a date, or the user's appointments and bookable services
 export async function GET(request: NextRequest) {
   try {
     // Authenticate user
@@ -183,73 +102,59 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const userId = result.session.userId;
     const { searchParams } = new URL(request.url);
-    const serviceId = searchParams.get('serviceId');
-    const date = searchParams.get('date');
 
     // Return available time slots for a given date and service
-    if (date) {
-      const availableSlots = getAvailableTimeSlots(date, serviceId);
+    if (searchParams.get('date')) {
+      const query = availabilityQuerySchema.parse(Object.fromEntries(searchParams));
+
+      const parties = await resolveBookingParties(userId, query);
+      if (!parties.success) {
+        return NextResponse.json({ error: parties.error }, { status: parties.status });
+      }
+
+      const availability = await getAvailableSlots(parties.data, query.serviceId, query.date);
+      if (!availability.success) {
+        return NextResponse.json({ error: availability.error }, { status: availability.status });
+      }
+
       return NextResponse.json({
-        date,
-        serviceId,
-        availableSlots,
+        date: query.date,
+        serviceId: query.serviceId,
+        lawyerId: parties.data.lawyerId,
+        duration: availability.data.service.duration,
+        availableSlots: availability.data.slots,
       });
     }
 
-    // Return user's appointments
-    // In a real application, this would query the database
-    const appointments = []; // Would be fetched from database
+    const appointments = await getUserAppointments(userId);
+
+    // Services come from the firm the user would book with, when there is one
+    const parties = await resolveBookingParties(userId, {
+      matterId: searchParams.get('matterId') || undefined,
+      lawyerId: searchParams.get('lawyerId') || undefined,
+    });
+    const services = parties.success ? (await getSchedulingSettings(parties.data.lawFirmId)).services : [];
 
     return NextResponse.json({
       appointments,
-      services: Object.entries(services).map(([id, service]) => ({
-        id,
-        ...service,
-      })),
+      services,
     });
 
   } catch (error) {
     console.error('Error fetching appointments:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
 }
-
-// Helper functions
-function generateAppointmentId(): string {
-  return 'APT-' + Date.now().toString(36).toUpperCase() + '-' + Math.random().toString(36).substr(2, 5).toUpperCase();
-}
-
-function getAvailableTimeSlots(date: string, serviceId?: string | null): string[] {
-  // In a real application, this would check the database for existing appointments
-  const allSlots = [
-    '09:00', '10:00', '11:00', '12:00', 
-    '14:00', '15:00', '16:00', '17:00'
-  ];
-  
-  // Mock some unavailable slots
-  const unavailableSlots = ['11:00', '16:00'];
-  
-  return allSlots.filter(slot => !unavailableSlots.includes(slot));
-}
-
-async function sendConfirmationEmail(appointment: any): Promise<void> {
-  // In a real application, this would send an actual email
-  console.log('Sending confirmation email for appointment:', appointment.id);
-  console.log('Email details:', {
-    to: appointment.clientEmail,
-    subject: `Appointment Confirmation - ${appointment.serviceName}`,
-    appointmentDetails: {
-      service: appointment.serviceName,
-      date: new Date(appointment.appointmentDate).toLocaleDateString(),
-      time: appointment.appointmentTime,
-      confirmationNumber: appointment.id,
-    },
-  });
-  
-  // Simulate email sending delay
-  await new Promise(resolve => setTimeout(resolve, 100));
-}
\ No newline at end of file
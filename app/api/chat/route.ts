@@ -1,16 +1,30 @@
-import { openai } from "@ai-sdk/openai";
 import { streamText } from "ai";
+import { auth } from "@/lib/auth";
+import { createFirmOpenAI, getLanguageModel } from "@/lib/llm-providers";
+import { getUserPrimaryFirm } from "@/lib/permissions";
 
 export async function POST(req: Request) {
   const { messages } = await req.json();
 
-  const result = streamText({
-    model: openai.responses("gpt-4o"),
-    messages,
-    tools: {
-      web_search_preview: openai.tools.webSearchPreview(),
-    },
-  });
+  // Signed-in members chat with their firm's model; everyone else gets the platform default
+  const session = await auth.api.getSession({ headers: req.headers });
+  const membership = session?.session?.userId
+    ? await getUserPrimaryFirm(session.session.userId)
+    : null;
+
+  const { model, provider, modelId, settings } = await getLanguageModel("chat", membership?.law_firms.id);
+
+  // Web search is an OpenAI Responses API tool, so only the OpenAI provider gets it
+  const openai = createFirmOpenAI(settings, membership?.law_firms.id);
+  const result = provider === "openai"
+    ? streamText({
+        model: openai.responses(modelId),
+        messages,
+        tools: {
+          web_search_preview: openai.tools.webSearchPreview(),
+        },
+      })
+    : streamText({ model, messages });
 
   return result.toDataStreamResponse();
 }
@@ -0,0 +1,46 @@
+/**
+ * AI Job Worker Cron Job
+ * Releases stale job locks, then works through the ai_jobs queue until the time budget runs out
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reapStaleAiJobs, runAiJobWorker } from '@/lib/ai-jobs';
+
+// Leave headroom under the function limit so the last job can checkpoint
+export const maxDuration = 60;
+
+// GET: Invoked by the scheduler with the cron secret as a bearer token
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const authorization = request.headers.get('authorization');
+
+    if (!cronSecret || authorization !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const reaped = await reapStaleAiJobs();
+    const processed = await runAiJobWorker({ timeBudgetMs: 45_000 });
+
+    console.log(`🤖 Processed ${processed.length} AI job(s), requeued ${reaped.requeued.length} stale job(s)`);
+
+    return NextResponse.json({
+      success: true,
+      reaped,
+      processed,
+    });
+
+  } catch (error) {
+    console.error('AI job worker error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to run AI job worker',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Overdue Tasks Cron Job
+ * Nightly job that flags open matter tasks past their due date as overdue
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { flagOverdueTasks } from '@/lib/matter-tasks';
+
+// GET: Invoked by the scheduler with the cron secret as a bearer token
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const authorization = request.headers.get('authorization');
+
+    if (!cronSecret || authorization !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const flagged = await flagOverdueTasks();
+
+    console.log(`⏰ Flagged ${flagged.length} overdue task(s)`);
+
+    return NextResponse.json({
+      success: true,
+      flagged: flagged.length,
+      tasks: flagged,
+    });
+
+  } catch (error) {
+    console.error('Overdue tasks job error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to flag overdue tasks',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { headers } from 'next/headers';
 import { documentStorage } from '@/lib/document-storage';
+import { getWillFirmId, isSensitiveDocumentType, recordAudit } from '@/lib/audit';
 import { db } from '@/db/drizzle';
 import { willDocuments } from '@/db/schema';
 import { eq } from 'drizzle-orm';
@@ -67,6 +68,16 @@ export async function GET(
       );
     }
 
+    await recordAudit({
+      userId: result.session.userId,
+      action: 'view',
+      resource: 'document',
+      resourceId: documentId,
+      firmId: await getWillFirmId(document.willId),
+      details: { willId: document.willId, documentType: document.documentType, download },
+      sensitive: isSensitiveDocumentType(document.documentType),
+    });
+
     // Set response headers
     const responseHeaders = new Headers();
     responseHeaders.set('Content-Type', document.metadata?.contentType || 'application/octet-stream');
@@ -159,6 +170,16 @@ export async function DELETE(
     // Delete from database
     await db.delete(willDocuments).where(eq(willDocuments.id, documentId));
 
+    await recordAudit({
+      userId: result.session.userId,
+      action: 'delete',
+      resource: 'document',
+      resourceId: documentId,
+      firmId: await getWillFirmId(document.willId),
+      before: document,
+      after: null,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Document deleted successfully',
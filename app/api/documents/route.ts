@@ -9,6 +9,7 @@ import { headers } from 'next/headers';
 import { db } from '@/db/drizzle';
 import { willDocuments, wills, matters } from '@/db/schema';
 import { eq, desc, and, or, ilike } from 'drizzle-orm';
+import { getWillFirmId, recordAudit } from '@/lib/audit';
 
 export async function GET(request: NextRequest) {
   try {
@@ -292,6 +293,15 @@ export async function POST(request: NextRequest) {
       status: 'uploaded',
     }).returning();
 
+    await recordAudit({
+      userId: result.session.userId,
+      action: 'create',
+      resource: 'document',
+      resourceId: document.id,
+      firmId: await getWillFirmId(willId),
+      details: { willId, documentType, filename: file.name, size: file.size },
+    });
+
     return NextResponse.json({
       success: true,
       document: {
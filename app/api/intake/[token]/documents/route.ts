@@ -0,0 +1,86 @@
+/**
+ * Intake Document Upload API
+ * Accepts a copy of the client's passport or Emirates ID through their intake link
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIntakeLinkByToken, INTAKE_DOCUMENT_TYPES, uploadIntakeDocument } from '@/lib/intake-links';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+const uploadSchema = z.object({
+  documentType: z.enum(INTAKE_DOCUMENT_TYPES),
+});
+
+// POST: Upload an ID document
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const intake = await getIntakeLinkByToken(params.token);
+
+    if (!intake) {
+      return NextResponse.json(
+        { error: 'Intake link not found' },
+        { status: 404 }
+      );
+    }
+
+    const { link, matter } = intake;
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const { documentType } = uploadSchema.parse({ documentType: formData.get('documentType') });
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    const uploaded = await uploadIntakeDocument(link, matter, documentType, {
+      buffer: Buffer.from(await file.arrayBuffer()),
+      filename: file.name,
+      contentType: file.type,
+    });
+
+    if (!uploaded.success) {
+      return NextResponse.json({ error: uploaded.error }, { status: uploaded.status });
+    }
+
+    await recordAudit({
+      userId: matter.clientId,
+      action: 'create',
+      resource: 'document',
+      resourceId: uploaded.data.documentId,
+      firmId: matter.lawFirmId,
+      details: { matterId: matter.id, intakeLinkId: link.id, documentType },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      document: {
+        id: uploaded.data.documentId,
+        documentType,
+        fileName: file.name,
+      },
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Intake document upload error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to upload document' },
+      { status: 500 }
+    );
+  }
+}
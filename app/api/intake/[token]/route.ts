@@ -0,0 +1,82 @@
+/**
+ * Intake Questionnaire API
+ * Loads and saves a client's intake questionnaire, authorised by the private token in the link rather than a session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIntakeLinkByToken, saveIntakeProgress, saveIntakeProgressSchema, toQuestionnaireView } from '@/lib/intake-links';
+import { z } from 'zod';
+
+// GET: The questionnaire with any answers saved so far
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const intake = await getIntakeLinkByToken(params.token);
+
+    if (!intake) {
+      return NextResponse.json(
+        { error: 'Intake link not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      questionnaire: await toQuestionnaireView(intake.link, intake.matter, intake.firmName, intake.clientName),
+    });
+
+  } catch (error) {
+    console.error('Intake questionnaire fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load questionnaire' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Save progress so the client can resume later
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const intake = await getIntakeLinkByToken(params.token);
+
+    if (!intake) {
+      return NextResponse.json(
+        { error: 'Intake link not found' },
+        { status: 404 }
+      );
+    }
+
+    const input = saveIntakeProgressSchema.parse(await request.json());
+
+    const saved = await saveIntakeProgress(intake.link, input);
+    if (!saved.success) {
+      return NextResponse.json({ error: saved.error }, { status: saved.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      lastSavedAt: saved.data.lastSavedAt,
+      currentStep: saved.data.currentStep,
+    });
+
+  } catch (error) {
+    console.error('Intake questionnaire save error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save your answers' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Intake Submission API
+ * Submits the completed questionnaire, filling the matter's intake data for the firm
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIntakeLinkByToken, submitIntake, submitIntakeSchema, toIntakeLinkSummary } from '@/lib/intake-links';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// POST: Submit the questionnaire
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const intake = await getIntakeLinkByToken(params.token);
+
+    if (!intake) {
+      return NextResponse.json(
+        { error: 'Intake link not found' },
+        { status: 404 }
+      );
+    }
+
+    const { link, matter } = intake;
+    const input = submitIntakeSchema.parse(await request.json().catch(() => ({})));
+
+    const submitted = await submitIntake(link, matter, input);
+    if (!submitted.success) {
+      return NextResponse.json({ error: submitted.error }, { status: submitted.status });
+    }
+
+    await recordAudit({
+      userId: matter.clientId,
+      action: 'submit',
+      resource: 'intake_link',
+      resourceId: link.id,
+      firmId: matter.lawFirmId,
+      after: toIntakeLinkSummary(submitted.data),
+      details: { matterId: matter.id },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      submittedAt: submitted.data.submittedAt,
+      message: 'Thank you. Your answers have been sent to your lawyer.',
+    });
+
+  } catch (error) {
+    console.error('Intake submission error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to submit your answers' },
+      { status: 500 }
+    );
+  }
+}
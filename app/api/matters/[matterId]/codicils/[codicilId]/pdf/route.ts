@@ -0,0 +1,85 @@
+/**
+ * Codicil PDF API
+ * Renders a finalised codicil, with its execution and witness block, as a PDF document
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { db } from '@/db/drizzle';
+import { user, wills } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getCodicil } from '@/lib/codicils';
+import { generateWillPDF } from '@/lib/pdf-generator';
+
+// GET: Download or view the codicil PDF
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string; codicilId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const codicil = await getCodicil(params.matterId, params.codicilId);
+    if (!codicil) {
+      return NextResponse.json(
+        { error: 'Codicil not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!codicil.content) {
+      return NextResponse.json(
+        { error: 'The codicil must be finalised before its document can be generated' },
+        { status: 409 }
+      );
+    }
+
+    const [will] = await db.select({ willType: wills.willType, testatorId: wills.testatorId })
+      .from(wills)
+      .where(eq(wills.id, codicil.willId))
+      .limit(1);
+
+    const [testator] = will
+      ? await db.select({ name: user.name }).from(user).where(eq(user.id, will.testatorId)).limit(1)
+      : [];
+
+    const pdfBuffer = await generateWillPDF({
+      title: `Codicil ${codicil.codicilNumber} to Will ${codicil.difcRegistrationNumber}`,
+      content: codicil.content,
+      metadata: {
+        testatorName: testator?.name,
+        willType: will?.willType,
+        generatedAt: new Date().toISOString(),
+        language: 'en',
+        difcCompliant: true,
+        documentId: codicil.id,
+      },
+    });
+
+    const filename = `codicil_${codicil.codicilNumber}_${codicil.difcRegistrationNumber}.pdf`;
+    const download = request.nextUrl.searchParams.get('download') === 'true';
+
+    // Set response headers
+    const responseHeaders = new Headers();
+    responseHeaders.set('Content-Type', 'application/pdf');
+    responseHeaders.set('Content-Length', pdfBuffer.length.toString());
+    responseHeaders.set('Content-Disposition', `${download ? 'attachment' : 'inline'}; filename="${filename}"`);
+    responseHeaders.set('Cache-Control', 'private, no-cache, no-store, must-revalidate');
+
+    return new NextResponse(pdfBuffer, {
+      status: 200,
+      headers: responseHeaders,
+    });
+
+  } catch (error) {
+    console.error('Codicil PDF error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to generate codicil PDF',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
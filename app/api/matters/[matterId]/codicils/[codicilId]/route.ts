@@ -0,0 +1,162 @@
+/**
+ * Individual Codicil API
+ * Retrieves a codicil, edits its changes while it is a draft, or deletes the draft
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  deleteCodicil,
+  getCodicil,
+  getCodicilTransitions,
+  updateCodicil,
+  updateCodicilSchema,
+} from '@/lib/codicils';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// GET: Get a codicil and the transitions available to the user
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string; codicilId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const codicil = await getCodicil(params.matterId, params.codicilId);
+    if (!codicil) {
+      return NextResponse.json(
+        { error: 'Codicil not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      codicil,
+      transitions: await getCodicilTransitions(codicil, result.lawFirmId, result.userId),
+    });
+
+  } catch (error) {
+    console.error('Codicil fetch error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch codicil',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Replace a draft codicil's changes or notes
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { matterId: string; codicilId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const codicil = await getCodicil(params.matterId, params.codicilId);
+    if (!codicil) {
+      return NextResponse.json(
+        { error: 'Codicil not found' },
+        { status: 404 }
+      );
+    }
+
+    const input = updateCodicilSchema.parse(await request.json());
+
+    const updated = await updateCodicil(codicil, result.lawFirmId, input);
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status });
+    }
+
+    await recordAudit({
+      userId: result.userId,
+      action: 'update',
+      resource: 'codicil',
+      resourceId: codicil.id,
+      firmId: result.lawFirmId,
+      before: codicil,
+      after: updated.data,
+      details: { matterId: params.matterId },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      codicil: updated.data,
+    });
+
+  } catch (error) {
+    console.error('Codicil update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to update codicil',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Delete a draft codicil
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { matterId: string; codicilId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const codicil = await getCodicil(params.matterId, params.codicilId);
+    if (!codicil) {
+      return NextResponse.json(
+        { error: 'Codicil not found' },
+        { status: 404 }
+      );
+    }
+
+    const deleted = await deleteCodicil(codicil);
+    if (!deleted.success) {
+      return NextResponse.json({ error: deleted.error }, { status: deleted.status });
+    }
+
+    await recordAudit({
+      userId: result.userId,
+      action: 'delete',
+      resource: 'codicil',
+      resourceId: codicil.id,
+      firmId: result.lawFirmId,
+      before: codicil,
+      details: { matterId: params.matterId },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Codicil deleted',
+    });
+
+  } catch (error) {
+    console.error('Codicil deletion error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to delete codicil',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
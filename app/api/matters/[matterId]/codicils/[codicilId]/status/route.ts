@@ -0,0 +1,73 @@
+/**
+ * Codicil Status API
+ * Finalises, executes, registers or revokes a codicil
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { codicilTransitionSchema, getCodicil, transitionCodicil } from '@/lib/codicils';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// POST: Move the codicil to a new status
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string; codicilId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const codicil = await getCodicil(params.matterId, params.codicilId);
+    if (!codicil) {
+      return NextResponse.json(
+        { error: 'Codicil not found' },
+        { status: 404 }
+      );
+    }
+
+    const input = codicilTransitionSchema.parse(await request.json());
+
+    const updated = await transitionCodicil(codicil, matter, userId, input);
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: input.status === 'final' ? 'generate' : 'update',
+      resource: 'codicil',
+      resourceId: codicil.id,
+      firmId: matter.lawFirmId,
+      before: codicil,
+      after: updated.data,
+      details: { matterId: matter.id },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      codicil: updated.data,
+      previousStatus: codicil.status,
+    });
+
+  } catch (error) {
+    console.error('Codicil status error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to change codicil status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
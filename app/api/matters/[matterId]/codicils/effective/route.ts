@@ -0,0 +1,50 @@
+/**
+ * Effective Will API
+ * Shows a registered will as amended by its codicils, applied in order
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { getEffectiveWill } from '@/lib/codicils';
+
+// GET: The effective will for ?registrationNumber=, optionally including codicils still in preparation
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const searchParams = request.nextUrl.searchParams;
+    const registrationNumber = searchParams.get('registrationNumber');
+    if (!registrationNumber) {
+      return NextResponse.json(
+        { error: 'registrationNumber is required' },
+        { status: 400 }
+      );
+    }
+
+    const effective = await getEffectiveWill(result.lawFirmId, registrationNumber, {
+      includeOpen: searchParams.get('includeDrafts') === 'true',
+    });
+    if (!effective.success) {
+      return NextResponse.json({ error: effective.error }, { status: effective.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      effectiveWill: effective.data,
+    });
+
+  } catch (error) {
+    console.error('Effective will error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to calculate effective will',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Matter Codicils API
+ * Lists a will amendment matter's codicils and drafts new ones against a registered will
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { createCodicil, createCodicilSchema, getMatterCodicils } from '@/lib/codicils';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// GET: List the matter's codicils
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const codicils = await getMatterCodicils(params.matterId);
+
+    return NextResponse.json({
+      success: true,
+      codicils,
+    });
+
+  } catch (error) {
+    console.error('Codicils fetch error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch codicils',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Draft a codicil amending a registered will
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const input = createCodicilSchema.parse(await request.json());
+
+    const codicil = await createCodicil(matter, userId, input);
+    if (!codicil.success) {
+      return NextResponse.json({ error: codicil.error }, { status: codicil.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'create',
+      resource: 'codicil',
+      resourceId: codicil.data.id,
+      firmId: matter.lawFirmId,
+      after: codicil.data,
+      details: { matterId: matter.id, difcRegistrationNumber: input.difcRegistrationNumber },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      codicil: codicil.data,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Codicil creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to create codicil',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * DIFC Registration Certificate API
+ * Uploads the certificate issued by DIFC and attaches it to the registration
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { attachCertificate, getMatterRegistration } from '@/lib/difc-registration';
+
+// POST: Upload the registration certificate
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const registration = await getMatterRegistration(params.matterId);
+    if (!registration) {
+      return NextResponse.json(
+        { error: 'No DIFC registration found for this matter' },
+        { status: 404 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    const attached = await attachCertificate(registration, result.userId, {
+      buffer: Buffer.from(await file.arrayBuffer()),
+      filename: file.name,
+      contentType: file.type || 'application/pdf',
+    });
+
+    if (!attached.success) {
+      return NextResponse.json({ error: attached.error }, { status: attached.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      registration: attached.data,
+    });
+
+  } catch (error) {
+    console.error('DIFC certificate upload error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to attach DIFC certificate',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * DIFC Submission Package Documents API
+ * Uploads the testator's passport and Emirates ID copies and the company trade licence for the package
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { PACKAGE_UPLOAD_DOCUMENT_TYPES, uploadPackageDocument } from '@/lib/difc-package';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+const uploadSchema = z.object({
+  documentType: z.enum(PACKAGE_UPLOAD_DOCUMENT_TYPES),
+});
+
+// POST: Upload a package document
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const { documentType } = uploadSchema.parse({ documentType: formData.get('documentType') });
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    const uploaded = await uploadPackageDocument(matter, userId, documentType, {
+      buffer: Buffer.from(await file.arrayBuffer()),
+      filename: file.name,
+      contentType: file.type,
+    });
+
+    if (!uploaded.success) {
+      return NextResponse.json({ error: uploaded.error }, { status: uploaded.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'create',
+      resource: 'document',
+      resourceId: uploaded.data.id,
+      firmId: matter.lawFirmId,
+      details: { matterId: matter.id, documentType },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      document: {
+        id: uploaded.data.id,
+        documentType,
+        fileName: uploaded.data.fileName,
+        version: uploaded.data.version,
+      },
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('DIFC package document upload error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to upload package document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * DIFC Submission Package API
+ * Checks the package against the will's template and builds the ZIP and merged PDF for submission
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db/drizzle';
+import { wills } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getMatterForUser } from '@/lib/matter-access';
+import { getMatterRegistration } from '@/lib/difc-registration';
+import { buildPackageSchema, buildSubmissionPackage, checkPackageCompleteness } from '@/lib/difc-package';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// GET: Package checklist for the registration's will
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const registration = await getMatterRegistration(params.matterId);
+    if (!registration?.willId) {
+      return NextResponse.json(
+        { error: 'No DIFC registration found for this matter' },
+        { status: 404 }
+      );
+    }
+
+    const [will] = await db.select({ willType: wills.willType })
+      .from(wills)
+      .where(eq(wills.id, registration.willId))
+      .limit(1);
+
+    const checklist = await checkPackageCompleteness(params.matterId, {
+      id: registration.willId,
+      willType: will?.willType || 'simple',
+    });
+
+    return NextResponse.json({
+      success: true,
+      checklist,
+      submissionPackageUrl: registration.submissionPackageUrl,
+    });
+
+  } catch (error) {
+    console.error('DIFC package checklist error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to check submission package',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Build and store the submission package
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const registration = await getMatterRegistration(params.matterId);
+    if (!registration) {
+      return NextResponse.json(
+        { error: 'No DIFC registration found for this matter' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const data = buildPackageSchema.parse(body);
+
+    const built = await buildSubmissionPackage(matter, registration, userId, data);
+    if (!built.success) {
+      return NextResponse.json({ error: built.error }, { status: built.status });
+    }
+
+    const { checklist, ...updatedRegistration } = built.data;
+
+    await recordAudit({
+      userId,
+      action: 'generate',
+      resource: 'registration',
+      resourceId: registration.id,
+      firmId: matter.lawFirmId,
+      details: { matterId: matter.id, submissionPackageUrl: updatedRegistration.submissionPackageUrl },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      registration: updatedRegistration,
+      checklist,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('DIFC package build error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to build submission package',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Matter DIFC Registration API
+ * Opens a DIFC registration for the matter's will and records fees, payment and appointment details
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  createRegistration,
+  getMatterRegistration,
+  getRegistrationTransitions,
+  registrationDetailsSchema,
+  updateRegistrationDetails,
+} from '@/lib/difc-registration';
+import { z } from 'zod';
+
+// GET: Current registration and the transitions available to the user
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, lawFirmId } = result;
+    const registration = await getMatterRegistration(params.matterId);
+
+    return NextResponse.json({
+      success: true,
+      registration: registration || null,
+      transitions: registration ? await getRegistrationTransitions(registration, lawFirmId, userId) : [],
+    });
+
+  } catch (error) {
+    console.error('DIFC registration error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch DIFC registration',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Open a registration for the matter's latest will
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const registration = await createRegistration(matter, userId);
+    if (!registration.success) {
+      return NextResponse.json({ error: registration.error }, { status: registration.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      registration: registration.data,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('DIFC registration creation error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to open DIFC registration',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Record fees, payment reference and appointment details
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const registration = await getMatterRegistration(params.matterId);
+    if (!registration) {
+      return NextResponse.json(
+        { error: 'No DIFC registration found for this matter' },
+        { status: 404 }
+      );
+    }
+
+    const changes = registrationDetailsSchema.parse(await request.json());
+
+    const updated = await updateRegistrationDetails(registration, changes);
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      registration: updated.data,
+    });
+
+  } catch (error) {
+    console.error('DIFC registration update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to update DIFC registration',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * DIFC Registration Status API
+ * Moves a registration through submission, review, registration or rejection
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  getMatterRegistration,
+  registrationTransitionSchema,
+  transitionRegistration,
+} from '@/lib/difc-registration';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// POST: Move the registration to a new status
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const registration = await getMatterRegistration(params.matterId);
+    if (!registration) {
+      return NextResponse.json(
+        { error: 'No DIFC registration found for this matter' },
+        { status: 404 }
+      );
+    }
+
+    const { status, ...input } = registrationTransitionSchema.parse(await request.json());
+
+    const updated = await transitionRegistration(registration, matter, userId, status, input);
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: status === 'submitted' ? 'submit' : 'update',
+      resource: 'registration',
+      resourceId: registration.id,
+      firmId: matter.lawFirmId,
+      before: registration,
+      after: updated.data,
+      details: { matterId: matter.id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      registration: updated.data,
+      previousStatus: registration.status,
+    });
+
+  } catch (error) {
+    console.error('DIFC registration status error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to change DIFC registration status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * DIFC Registration Sync API
+ * Pulls the latest decision from the DIFC registry for a submitted registration
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { getMatterRegistration, syncRegistration } from '@/lib/difc-registration';
+
+// POST: Sync the registration with the DIFC registry
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const registration = await getMatterRegistration(params.matterId);
+    if (!registration) {
+      return NextResponse.json(
+        { error: 'No DIFC registration found for this matter' },
+        { status: 404 }
+      );
+    }
+
+    const synced = await syncRegistration(registration, matter, userId);
+    if (!synced.success) {
+      return NextResponse.json({ error: synced.error }, { status: synced.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      registration: synced.data,
+      previousStatus: registration.status,
+    });
+
+  } catch (error) {
+    console.error('DIFC registration sync error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to sync DIFC registration',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Matter Intake Link API
+ * Revokes an intake questionnaire link so the client can no longer open it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  getMatterIntakeLink,
+  revokeIntakeLink,
+  toIntakeLinkSummary,
+  updateIntakeLinkSchema,
+} from '@/lib/intake-links';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// PATCH: Revoke the link
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { matterId: string; linkId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    updateIntakeLinkSchema.parse(await request.json());
+
+    const link = await getMatterIntakeLink(params.matterId, params.linkId);
+    if (!link) {
+      return NextResponse.json(
+        { error: 'Intake link not found' },
+        { status: 404 }
+      );
+    }
+
+    const revoked = await revokeIntakeLink(link, matter, userId);
+    if (!revoked.success) {
+      return NextResponse.json({ error: revoked.error }, { status: revoked.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'intake_link',
+      resourceId: link.id,
+      firmId: matter.lawFirmId,
+      before: { status: link.status },
+      after: { status: revoked.data.status },
+    });
+
+    return NextResponse.json({
+      success: true,
+      intakeLink: toIntakeLinkSummary(revoked.data),
+    });
+
+  } catch (error) {
+    console.error('Intake link update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update intake link',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
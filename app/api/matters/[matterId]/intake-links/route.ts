@@ -0,0 +1,101 @@
+/**
+ * Matter Intake Links API
+ * Lists the intake questionnaires sent for a matter and sends a new link to the client
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  createIntakeLink,
+  createIntakeLinkSchema,
+  getMatterIntakeLinks,
+  toIntakeLinkSummary,
+} from '@/lib/intake-links';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// GET: Intake links for the matter
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const links = await getMatterIntakeLinks(params.matterId);
+
+    return NextResponse.json({
+      success: true,
+      intakeLinks: links.map(toIntakeLinkSummary),
+    });
+
+  } catch (error) {
+    console.error('Intake links fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch intake links',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Send the client a new intake questionnaire link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const input = createIntakeLinkSchema.parse(await request.json().catch(() => ({})));
+
+    const created = await createIntakeLink(matter, userId, input);
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status });
+    }
+
+    const intakeLink = toIntakeLinkSummary(created.data.link);
+
+    await recordAudit({
+      userId,
+      action: 'create',
+      resource: 'intake_link',
+      resourceId: intakeLink.id,
+      firmId: matter.lawFirmId,
+      after: intakeLink,
+      details: { matterId: matter.id },
+    });
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+    // The token is only ever shown here; only its hash is stored
+    return NextResponse.json({
+      success: true,
+      intakeLink,
+      url: `${baseUrl}/intake/${created.data.token}`,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Intake link creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create intake link',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
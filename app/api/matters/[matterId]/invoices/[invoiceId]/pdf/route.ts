@@ -0,0 +1,53 @@
+/**
+ * Invoice PDF API
+ * Renders a tax invoice as a PDF document
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { getInvoice, renderInvoicePDF } from '@/lib/billing';
+
+// GET: Download or view the invoice PDF
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string; invoiceId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const invoice = await getInvoice(params.matterId, params.invoiceId);
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const pdfBuffer = await renderInvoicePDF(invoice);
+    const filename = `${invoice.invoiceNumber}.pdf`;
+    const download = request.nextUrl.searchParams.get('download') === 'true';
+
+    // Set response headers
+    const responseHeaders = new Headers();
+    responseHeaders.set('Content-Type', 'application/pdf');
+    responseHeaders.set('Content-Length', pdfBuffer.length.toString());
+    responseHeaders.set('Content-Disposition', `${download ? 'attachment' : 'inline'}; filename="${filename}"`);
+    responseHeaders.set('Cache-Control', 'private, no-cache, no-store, must-revalidate');
+
+    return new NextResponse(pdfBuffer, {
+      status: 200,
+      headers: responseHeaders,
+    });
+
+  } catch (error) {
+    console.error('Invoice PDF error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to generate invoice PDF',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Individual Invoice API
+ * Retrieves an invoice and records payment or voids it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { getInvoice, updateInvoiceStatus } from '@/lib/billing';
+import { z } from 'zod';
+
+const invoiceStatusSchema = z.object({
+  status: z.enum(['paid', 'void']),
+});
+
+// GET: Get an invoice
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string; invoiceId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const invoice = await getInvoice(params.matterId, params.invoiceId);
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      invoice,
+    });
+
+  } catch (error) {
+    console.error('Invoice fetch error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch invoice',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Mark an invoice paid or void it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { matterId: string; invoiceId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+
+    const canBill = await hasPermission(userId, PERMISSIONS.BILLING_MANAGE, { userId, firmId: matter.lawFirmId });
+    if (!canBill) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to update invoices' },
+        { status: 403 }
+      );
+    }
+
+    const invoice = await getInvoice(params.matterId, params.invoiceId);
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const { status } = invoiceStatusSchema.parse(await request.json());
+
+    const updated = await updateInvoiceStatus(invoice, status);
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      invoice: updated.data,
+    });
+
+  } catch (error) {
+    console.error('Invoice update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to update invoice',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
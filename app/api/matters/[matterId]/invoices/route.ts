@@ -0,0 +1,89 @@
+/**
+ * Matter Invoices API
+ * Lists a matter's invoices and raises new invoices from unbilled time
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { createInvoice, createInvoiceSchema, getMatterInvoices } from '@/lib/billing';
+import { z } from 'zod';
+
+// GET: List invoices for a matter
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const invoices = await getMatterInvoices(params.matterId);
+
+    return NextResponse.json({
+      success: true,
+      invoices,
+    });
+
+  } catch (error) {
+    console.error('Matter invoices error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch invoices',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Create an invoice from unbilled billable time entries
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+
+    const canBill = await hasPermission(userId, PERMISSIONS.BILLING_MANAGE, { userId, firmId: matter.lawFirmId });
+    if (!canBill) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to raise invoices' },
+        { status: 403 }
+      );
+    }
+
+    const data = createInvoiceSchema.parse(await request.json().catch(() => ({})));
+
+    const invoice = await createInvoice(matter, userId, data);
+    if (!invoice.success) {
+      return NextResponse.json({ error: invoice.error }, { status: invoice.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      invoice: invoice.data,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Invoice creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to create invoice',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,9 @@ import { headers } from 'next/headers';
 import { getDevAuth, isDevMode } from '@/lib/dev-auth';
 import { db } from '@/db/drizzle';
 import { matters, lawFirms, lawFirmMembers, user } from '@/db/schema';
+import { getProgressForStatus } from '@/lib/matter-status';
+import { transitionMatterStatus, TRANSITION_FAILURE_HTTP_STATUS } from '@/lib/matter-workflow';
+import { recordAudit } from '@/lib/audit';
 import { eq, and } from 'drizzle-orm';
 
 // GET: Get individual matter details
@@ -126,6 +129,14 @@ export async function GET(
       progress: getProgressForStatus(matter.status),
     };
 
+    await recordAudit({
+      userId,
+      action: 'view',
+      resource: 'matter',
+      resourceId: matter.id,
+      firmId: lawFirmId,
+    });
+
     return NextResponse.json({
       success: true,
       matter: transformedMatter
@@ -214,6 +225,23 @@ export async function PUT(
       );
     }
 
+    // Status changes go through the workflow so transitions are validated and logged
+    if (status !== undefined && status !== existingMatter[0].status) {
+      const transition = await transitionMatterStatus(matterId, status, userId, {
+        reason: body.statusReason,
+      });
+
+      if (!transition.allowed) {
+        return NextResponse.json(
+          {
+            error: 'Status change not allowed',
+            details: transition.reasons,
+          },
+          { status: TRANSITION_FAILURE_HTTP_STATUS[transition.failure!] }
+        );
+      }
+    }
+
     // Build update object
     const updateData: any = {
       updatedAt: new Date(),
@@ -221,7 +249,6 @@ export async function PUT(
 
     if (title !== undefined) updateData.title = title;
     if (description !== undefined) updateData.description = description;
-    if (status !== undefined) updateData.status = status;
     if (priority !== undefined) updateData.priority = priority;
     if (assignedLawyerId !== undefined) updateData.assignedLawyerId = assignedLawyerId;
     if (dueDate !== undefined) updateData.dueDate = dueDate ? new Date(dueDate) : null;
@@ -232,6 +259,16 @@ export async function PUT(
       .where(eq(matters.id, matterId))
       .returning();
 
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'matter',
+      resourceId: matterId,
+      firmId: lawFirmId,
+      before: existingMatter[0],
+      after: updatedMatter,
+    });
+
     return NextResponse.json({
       success: true,
       matter: {
@@ -324,6 +361,16 @@ export async function DELETE(
     await db.delete(matters)
       .where(eq(matters.id, matterId));
 
+    await recordAudit({
+      userId,
+      action: 'delete',
+      resource: 'matter',
+      resourceId: matterId,
+      firmId: lawFirmId,
+      before: existingMatter[0],
+      after: null,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Matter deleted successfully'
@@ -340,23 +387,3 @@ export async function DELETE(
     );
   }
 }
-
-// Helper function to calculate progress based on status
-function getProgressForStatus(status: string): number {
-  switch (status) {
-    case 'intake':
-      return 10;
-    case 'draft':
-      return 40;
-    case 'review':
-      return 70;
-    case 'client_review':
-      return 85;
-    case 'complete':
-      return 100;
-    case 'registered':
-      return 100;
-    default:
-      return 0;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,109 @@
+/**
+ * Signature Request API
+ * Shows a signature request with each signer's progress and audit details, and cancels it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  cancelSignatureRequest,
+  getMatterSignatureRequest,
+  toRequestSummary,
+  updateSignatureRequestSchema,
+} from '@/lib/e-signatures';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// GET: Signature request details
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string; requestId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const signatureRequest = await getMatterSignatureRequest(params.matterId, params.requestId);
+    if (!signatureRequest) {
+      return NextResponse.json(
+        { error: 'Signature request not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      signatureRequest: toRequestSummary(signatureRequest),
+    });
+
+  } catch (error) {
+    console.error('Signature request fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch signature request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Cancel the request
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { matterId: string; requestId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    updateSignatureRequestSchema.parse(await request.json());
+
+    const signatureRequest = await getMatterSignatureRequest(params.matterId, params.requestId);
+    if (!signatureRequest) {
+      return NextResponse.json(
+        { error: 'Signature request not found' },
+        { status: 404 }
+      );
+    }
+
+    const cancelled = await cancelSignatureRequest(signatureRequest, matter, userId);
+    if (!cancelled.success) {
+      return NextResponse.json({ error: cancelled.error }, { status: cancelled.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'signature_request',
+      resourceId: signatureRequest.id,
+      firmId: matter.lawFirmId,
+      before: { status: signatureRequest.status },
+      after: { status: cancelled.data.status },
+    });
+
+    return NextResponse.json({
+      success: true,
+      signatureRequest: toRequestSummary(cancelled.data),
+    });
+
+  } catch (error) {
+    console.error('Signature request update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update signature request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Signature Requests API
+ * Lists a matter's e-signature requests and sends a document to its signers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  getMatterSignatureRequests,
+  sendForSignature,
+  sendForSignatureSchema,
+  toRequestSummary,
+} from '@/lib/e-signatures';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// GET: List the matter's signature requests, optionally for one document
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { searchParams } = new URL(request.url);
+    const requests = await getMatterSignatureRequests(params.matterId, searchParams.get('documentId') || undefined);
+
+    return NextResponse.json({
+      success: true,
+      signatureRequests: requests.map(toRequestSummary),
+    });
+
+  } catch (error) {
+    console.error('Signature requests fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch signature requests',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Send a document for signature
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const input = sendForSignatureSchema.parse(await request.json());
+
+    const sent = await sendForSignature(matter, userId, input);
+    if (!sent.success) {
+      return NextResponse.json({ error: sent.error }, { status: sent.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'create',
+      resource: 'signature_request',
+      resourceId: sent.data.id,
+      firmId: matter.lawFirmId,
+      after: toRequestSummary(sent.data),
+      details: { documentId: input.documentId, purpose: input.purpose },
+    });
+
+    return NextResponse.json({
+      success: true,
+      signatureRequest: toRequestSummary(sent.data),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Signature request error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to send document for signature',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Matter Status API
+ * Lists available workflow transitions and applies status changes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { getProgressForStatus, getStatusLabel } from '@/lib/matter-status';
+import {
+  getAvailableTransitions,
+  transitionMatterStatus,
+  TRANSITION_FAILURE_HTTP_STATUS,
+} from '@/lib/matter-workflow';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+const transitionSchema = z.object({
+  status: z.string().min(1),
+  reason: z.string().max(1000).optional(),
+  clientVisible: z.boolean().optional(),
+});
+
+// GET: Current status and the transitions available to the user
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const transitions = await getAvailableTransitions(matter, userId);
+
+    return NextResponse.json({
+      success: true,
+      status: matter.status,
+      label: getStatusLabel(matter.status),
+      progress: getProgressForStatus(matter.status),
+      transitions,
+    });
+
+  } catch (error) {
+    console.error('Matter status error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch matter status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Move the matter to a new status
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const { status, reason, clientVisible } = transitionSchema.parse(await request.json());
+
+    const transition = await transitionMatterStatus(matter.id, status, userId, {
+      reason,
+      clientVisible,
+    });
+
+    if (!transition.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Status change not allowed',
+          details: transition.reasons,
+        },
+        { status: TRANSITION_FAILURE_HTTP_STATUS[transition.failure!] }
+      );
+    }
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'matter',
+      resourceId: matter.id,
+      firmId: matter.lawFirmId,
+      before: matter,
+      after: transition.matter!,
+      details: { reason },
+    });
+
+    return NextResponse.json({
+      success: true,
+      matter: {
+        id: transition.matter!.id,
+        status: transition.matter!.status,
+        progress: getProgressForStatus(transition.matter!.status),
+        updatedAt: transition.matter!.updatedAt.toISOString(),
+      },
+      previousStatus: matter.status,
+    });
+
+  } catch (error) {
+    console.error('Matter status change error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to change matter status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Individual Matter Task API
+ * Handles GET, PUT, DELETE operations for a single task
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db/drizzle';
+import { matterTasks } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  deleteMatterTask,
+  getMatterTask,
+  getStatusBlockers,
+  recordTaskEvent,
+  taskUpdateSchema,
+  validateDependencies,
+  withDependencyState,
+} from '@/lib/matter-tasks';
+import { z } from 'zod';
+
+// GET: Get a task with its dependency state
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string; taskId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const task = await getMatterTask(params.matterId, params.taskId);
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    const allTasks = await db.select()
+      .from(matterTasks)
+      .where(eq(matterTasks.matterId, params.matterId));
+
+    return NextResponse.json({
+      success: true,
+      task: withDependencyState(task, allTasks),
+    });
+
+  } catch (error) {
+    console.error('Task detail error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch task',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Update a task
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { matterId: string; taskId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId } = result;
+    const data = taskUpdateSchema.parse(await request.json());
+
+    const task = await getMatterTask(params.matterId, params.taskId);
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    const allTasks = await db.select()
+      .from(matterTasks)
+      .where(eq(matterTasks.matterId, params.matterId));
+
+    // Check dependency changes against the rest of the matter's tasks
+    if (data.dependencies !== undefined) {
+      const dependencyErrors = validateDependencies(task.id, data.dependencies, allTasks);
+      if (dependencyErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid dependencies', details: dependencyErrors },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Blocked tasks cannot be started or completed
+    if (data.status !== undefined && data.status !== task.status) {
+      const proposed = { ...task, dependencies: data.dependencies ?? task.dependencies };
+      const blockers = getStatusBlockers(proposed, data.status, allTasks);
+
+      if (blockers.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Task is blocked by incomplete dependencies',
+            details: blockers.map(blocker => `${blocker.title} (${blocker.status})`),
+            blockedBy: blockers,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Build update object
+    const updateData: Partial<typeof matterTasks.$inferInsert> = {
+      updatedAt: new Date(),
+    };
+
+    if (data.title !== undefined) updateData.title = data.title;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.assignedTo !== undefined) updateData.assignedTo = data.assignedTo;
+    if (data.priority !== undefined) updateData.priority = data.priority;
+    if (data.dueDate !== undefined) updateData.dueDate = data.dueDate;
+    if (data.dependencies !== undefined) updateData.dependencies = data.dependencies;
+    if (data.aiAssisted !== undefined) updateData.aiAssisted = data.aiAssisted;
+    if (data.billable !== undefined) updateData.billable = data.billable;
+    if (data.estimatedHours !== undefined) updateData.estimatedHours = data.estimatedHours.toFixed(2);
+    if (data.actualHours !== undefined) updateData.actualHours = data.actualHours.toFixed(2);
+
+    if (data.status !== undefined && data.status !== task.status) {
+      updateData.status = data.status;
+      if (data.status === 'in_progress' && !task.startedAt) updateData.startedAt = new Date();
+      updateData.completedAt = data.status === 'completed' ? new Date() : null;
+    }
+
+    const [updatedTask] = await db.update(matterTasks)
+      .set(updateData)
+      .where(eq(matterTasks.id, task.id))
+      .returning();
+
+    if (updateData.status === 'completed') {
+      await recordTaskEvent(params.matterId, userId, 'task_completed', updatedTask);
+    }
+
+    const refreshedTasks = allTasks.map(other => other.id === updatedTask.id ? updatedTask : other);
+
+    return NextResponse.json({
+      success: true,
+      task: withDependencyState(updatedTask, refreshedTasks),
+    });
+
+  } catch (error) {
+    console.error('Task update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to update task',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Delete a task and remove it from other tasks' dependencies
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { matterId: string; taskId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const deleted = await deleteMatterTask(params.matterId, params.taskId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Task deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Task deletion error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to delete task',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
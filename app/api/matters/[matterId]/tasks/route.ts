@@ -0,0 +1,117 @@
+/**
+ * Matter Tasks API
+ * Lists and creates tasks for a matter
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db/drizzle';
+import { matterTasks } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  getMatterTasks,
+  recordTaskEvent,
+  taskInputSchema,
+  validateDependencies,
+  withDependencyState,
+} from '@/lib/matter-tasks';
+import { z } from 'zod';
+
+// GET: List tasks for a matter in dependency order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const tasks = await getMatterTasks(params.matterId);
+
+    return NextResponse.json({
+      success: true,
+      tasks,
+      summary: {
+        total: tasks.length,
+        completed: tasks.filter(task => task.status === 'completed').length,
+        overdue: tasks.filter(task => task.status === 'overdue').length,
+        blocked: tasks.filter(task => task.blocked).length,
+      },
+    });
+
+  } catch (error) {
+    console.error('Matter tasks error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch tasks',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Create a task
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId } = result;
+    const data = taskInputSchema.parse(await request.json());
+
+    const existingTasks = await db.select()
+      .from(matterTasks)
+      .where(eq(matterTasks.matterId, params.matterId));
+
+    const dependencyErrors = validateDependencies(null, data.dependencies, existingTasks);
+    if (dependencyErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid dependencies', details: dependencyErrors },
+        { status: 400 }
+      );
+    }
+
+    const [task] = await db.insert(matterTasks).values({
+      matterId: params.matterId,
+      title: data.title,
+      description: data.description,
+      assignedTo: data.assignedTo,
+      priority: data.priority,
+      dueDate: data.dueDate,
+      dependencies: data.dependencies,
+      estimatedHours: data.estimatedHours !== undefined ? data.estimatedHours.toFixed(2) : null,
+      aiAssisted: data.aiAssisted,
+      billable: data.billable,
+      status: 'pending',
+    }).returning();
+
+    await recordTaskEvent(params.matterId, userId, 'task_created', task);
+
+    return NextResponse.json({
+      success: true,
+      task: withDependencyState(task, [...existingTasks, task]),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Task creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to create task',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
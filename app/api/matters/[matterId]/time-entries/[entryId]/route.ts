@@ -0,0 +1,102 @@
+/**
+ * Individual Time Entry API
+ * Updates and deletes unbilled time entries
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { getMatterTask } from '@/lib/matter-tasks';
+import { deleteTimeEntry, getTimeEntry, updateTimeEntry, updateTimeEntrySchema } from '@/lib/billing';
+import { z } from 'zod';
+
+// PUT: Update an unbilled time entry
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { matterId: string; entryId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const entry = await getTimeEntry(params.matterId, params.entryId);
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Time entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const changes = updateTimeEntrySchema.parse(await request.json());
+
+    if (changes.taskId && !(await getMatterTask(params.matterId, changes.taskId))) {
+      return NextResponse.json(
+        { error: 'Task not found on this matter' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateTimeEntry(entry, changes);
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      entry: updated.data,
+    });
+
+  } catch (error) {
+    console.error('Time entry update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to update time entry',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Delete an unbilled time entry
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { matterId: string; entryId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const entry = await getTimeEntry(params.matterId, params.entryId);
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Time entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const deleted = await deleteTimeEntry(entry);
+    if (!deleted.success) {
+      return NextResponse.json({ error: deleted.error }, { status: deleted.status });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Time entry deletion error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to delete time entry',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
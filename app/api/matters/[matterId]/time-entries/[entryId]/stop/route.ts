@@ -0,0 +1,47 @@
+/**
+ * Stop Timer API
+ * Stops a running timer and computes its billable hours and amount
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { getTimeEntry, stopTimer } from '@/lib/billing';
+
+// POST: Stop a running timer
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string; entryId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const entry = await getTimeEntry(params.matterId, params.entryId);
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Time entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const stopped = await stopTimer(entry, result.userId);
+    if (!stopped.success) {
+      return NextResponse.json({ error: stopped.error }, { status: stopped.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      entry: stopped.data,
+    });
+
+  } catch (error) {
+    console.error('Timer stop error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to stop timer',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Matter Time Entries API
+ * Lists time recorded against a matter and records manual entries
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { getMatterTask } from '@/lib/matter-tasks';
+import { createManualTimeEntry, getTimeEntries, manualTimeEntrySchema } from '@/lib/billing';
+import { z } from 'zod';
+
+// GET: List time entries for a matter with totals
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const unbilledOnly = request.nextUrl.searchParams.get('unbilled') === 'true';
+    const entries = await getTimeEntries(params.matterId, { unbilledOnly });
+    const billable = entries.filter(entry => entry.isBillable);
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      summary: {
+        totalHours: entries.reduce((sum, entry) => sum + Number(entry.billableHours), 0),
+        billableAmount: billable.reduce((sum, entry) => sum + Number(entry.totalAmount), 0),
+        unbilledAmount: billable
+          .filter(entry => !entry.invoiceId)
+          .reduce((sum, entry) => sum + Number(entry.totalAmount), 0),
+        runningTimers: entries.filter(entry => entry.startedAt && !entry.endedAt).length,
+      },
+    });
+
+  } catch (error) {
+    console.error('Time entries error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch time entries',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Record a manual time entry
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const data = manualTimeEntrySchema.parse(await request.json());
+
+    if (data.taskId && !(await getMatterTask(matter.id, data.taskId))) {
+      return NextResponse.json(
+        { error: 'Task not found on this matter' },
+        { status: 400 }
+      );
+    }
+
+    const entry = await createManualTimeEntry(matter, userId, data);
+
+    return NextResponse.json({
+      success: true,
+      entry,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Time entry creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to create time entry',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Matter Timer API
+ * Starts a running timer against a matter or one of its tasks
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { getMatterTask } from '@/lib/matter-tasks';
+import { startTimer, startTimerSchema } from '@/lib/billing';
+import { z } from 'zod';
+
+// POST: Start a timer for the current user
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const data = startTimerSchema.parse(await request.json());
+
+    if (data.taskId && !(await getMatterTask(matter.id, data.taskId))) {
+      return NextResponse.json(
+        { error: 'Task not found on this matter' },
+        { status: 400 }
+      );
+    }
+
+    const timer = await startTimer(matter, userId, data);
+    if (!timer.success) {
+      return NextResponse.json({ error: timer.error }, { status: timer.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      entry: timer.data,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Timer start error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to start timer',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Bilingual Will API
+ * Renders a matter's will as parallel Arabic and English text, as a PDF or as clause JSON
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { db } from '@/db/drizzle';
+import { user, wills } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { getWillTemplate, toWillContentData } from '@/lib/will-engine';
+import { assembleBilingualWill, bilingualWillRequestSchema } from '@/lib/will-translation';
+import { generateWillPDF } from '@/lib/pdf-generator';
+import { recordAudit } from '@/lib/audit';
+
+// POST: Build the bilingual will with the requested layout and numerals
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const body = await request.json().catch(() => ({}));
+    const options = bilingualWillRequestSchema.parse(body);
+
+    const [will] = await db.select()
+      .from(wills)
+      .where(and(
+        eq(wills.id, params.willId),
+        eq(wills.matterId, params.matterId)
+      ))
+      .limit(1);
+
+    if (!will) {
+      return NextResponse.json(
+        { error: 'Will not found' },
+        { status: 404 }
+      );
+    }
+
+    const [testator] = await db.select({ name: user.name })
+      .from(user)
+      .where(eq(user.id, will.testatorId))
+      .limit(1);
+
+    const willData = toWillContentData(will);
+    const bilingualWill = await assembleBilingualWill(willData, getWillTemplate(will.willType), {
+      firmId: result.lawFirmId,
+      primaryLanguage: options.primaryLanguage,
+      clauseKeys: options.clauseKeys,
+      testatorName: testator?.name,
+      nameOverrides: options.nameOverrides,
+      numerals: options.numerals,
+    });
+
+    await recordAudit({
+      userId: result.userId,
+      action: 'generate',
+      resource: 'will',
+      resourceId: will.id,
+      firmId: result.lawFirmId,
+      details: {
+        format: options.format,
+        bilingual: options.layout,
+        numerals: options.numerals,
+        translatedClauses: bilingualWill.clauses.filter(clause => clause.secondarySource === 'translation').length,
+      },
+      sensitive: true,
+    });
+
+    if (options.format === 'json') {
+      return NextResponse.json({
+        success: true,
+        data: bilingualWill,
+      });
+    }
+
+    const pdfBuffer = await generateWillPDF({
+      title: 'Last Will and Testament / الوصية الأخيرة',
+      content: '',
+      metadata: {
+        testatorName: testator?.name,
+        willType: will.willType,
+        generatedAt: new Date().toISOString(),
+        language: bilingualWill.primaryLanguage,
+        difcCompliant: will.difcCompliant || false,
+        documentId: will.id,
+      },
+      bilingual: {
+        layout: options.layout,
+        will: bilingualWill,
+      },
+    });
+
+    const filename = `will_${will.id}_bilingual.pdf`;
+
+    // Set response headers
+    const responseHeaders = new Headers();
+    responseHeaders.set('Content-Type', 'application/pdf');
+    responseHeaders.set('Content-Length', pdfBuffer.length.toString());
+    responseHeaders.set('Content-Disposition', `attachment; filename="${filename}"`);
+    responseHeaders.set('Cache-Control', 'private, no-cache, no-store, must-revalidate');
+
+    return new NextResponse(pdfBuffer, {
+      status: 200,
+      headers: responseHeaders,
+    });
+
+  } catch (error) {
+    console.error('Bilingual will error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to generate bilingual will' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Digital Access Death Certificate API
+ * Uploads the testator's death certificate, which unlocks release of the sealed digital access letter
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  deathCertificateSchema,
+  getDigitalAccessLetter,
+  recordDeathCertificate,
+  toLetterSummary,
+} from '@/lib/digital-access';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// POST: Upload the death certificate and record the date of death
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+
+    const letter = await getDigitalAccessLetter(params.willId);
+    if (!letter || letter.matterId !== matter.id) {
+      return NextResponse.json(
+        { error: 'No digital access letter found for this will' },
+        { status: 404 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const { dateOfDeath } = deathCertificateSchema.parse({ dateOfDeath: formData.get('dateOfDeath') });
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    const recorded = await recordDeathCertificate(letter, matter, userId, dateOfDeath, {
+      buffer: Buffer.from(await file.arrayBuffer()),
+      filename: file.name,
+      contentType: file.type || 'application/pdf',
+    });
+
+    if (!recorded.success) {
+      return NextResponse.json({ error: recorded.error }, { status: recorded.status });
+    }
+
+    const updated = toLetterSummary(recorded.data);
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'digital_access_letter',
+      resourceId: letter.id,
+      firmId: matter.lawFirmId,
+      before: toLetterSummary(letter),
+      after: updated,
+      details: { willId: letter.willId, documentId: updated.deathCertificateDocumentId },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      letter: updated,
+    });
+
+  } catch (error) {
+    console.error('Death certificate upload error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to record death certificate',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
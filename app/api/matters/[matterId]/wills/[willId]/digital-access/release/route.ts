@@ -0,0 +1,83 @@
+/**
+ * Digital Access Release API
+ * Releases the sealed digital access letter to an executor named in the will
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  getDigitalAccessLetter,
+  releaseDigitalAccessLetter,
+  releaseLetterSchema,
+  toLetterSummary,
+} from '@/lib/digital-access';
+import { getMatterWill } from '@/lib/will-engine';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// POST: Unseal the letter for an executor
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const { executorId } = releaseLetterSchema.parse(await request.json());
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    const letter = will ? await getDigitalAccessLetter(will.id) : null;
+
+    if (!will || !letter) {
+      return NextResponse.json(
+        { error: 'No digital access letter found for this will' },
+        { status: 404 }
+      );
+    }
+
+    const released = await releaseDigitalAccessLetter(letter, will, matter, userId, executorId);
+    if (!released.success) {
+      return NextResponse.json({ error: released.error }, { status: released.status });
+    }
+
+    const updated = toLetterSummary(released.data.letter);
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'digital_access_letter',
+      resourceId: letter.id,
+      firmId: matter.lawFirmId,
+      before: toLetterSummary(letter),
+      after: updated,
+      details: { willId: will.id, releasedTo: updated.releasedTo },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      letter: updated,
+      instructions: released.data.instructions,
+    });
+
+  } catch (error) {
+    console.error('Digital access release error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to release digital access letter',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
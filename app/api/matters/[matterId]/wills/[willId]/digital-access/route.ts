@@ -0,0 +1,145 @@
+/**
+ * Digital Access Letter API
+ * Seals per-asset access instructions for a will's digital assets and shows the letter's release status
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  getDigitalAccessLetter,
+  openDigitalAccessLetter,
+  sealDigitalAccessLetter,
+  sealInstructionsSchema,
+  toLetterSummary,
+} from '@/lib/digital-access';
+import { getMatterWill } from '@/lib/will-engine';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// GET: Letter status; the instructions themselves are only included once released
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    if (!will) {
+      return NextResponse.json(
+        { error: 'Will not found' },
+        { status: 404 }
+      );
+    }
+
+    const letter = await getDigitalAccessLetter(will.id);
+    if (!letter) {
+      return NextResponse.json({
+        success: true,
+        letter: null,
+      });
+    }
+
+    if (letter.status !== 'released') {
+      return NextResponse.json({
+        success: true,
+        letter: toLetterSummary(letter),
+      });
+    }
+
+    const opened = openDigitalAccessLetter(letter);
+    if (!opened.success) {
+      return NextResponse.json({ error: opened.error }, { status: opened.status });
+    }
+
+    await recordAudit({
+      userId: result.userId,
+      action: 'view',
+      resource: 'digital_access_letter',
+      resourceId: letter.id,
+      firmId: result.lawFirmId,
+      details: { willId: will.id, releasedTo: letter.releasedTo },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      letter: toLetterSummary(letter),
+      instructions: opened.data,
+    });
+
+  } catch (error) {
+    console.error('Digital access letter fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch digital access letter',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Seal the access instructions, replacing any earlier sealed version
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const input = sealInstructionsSchema.parse(await request.json());
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    if (!will) {
+      return NextResponse.json(
+        { error: 'Will not found' },
+        { status: 404 }
+      );
+    }
+
+    const sealed = await sealDigitalAccessLetter(will, matter, userId, input);
+    if (!sealed.success) {
+      return NextResponse.json({ error: sealed.error }, { status: sealed.status });
+    }
+
+    const letter = toLetterSummary(sealed.data);
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'digital_access_letter',
+      resourceId: letter.id,
+      firmId: matter.lawFirmId,
+      after: letter,
+      details: { willId: will.id, assetIds: letter.assetIds },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      letter,
+    });
+
+  } catch (error) {
+    console.error('Digital access letter seal error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to seal digital access letter',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Letter of Wishes Document API
+ * Renders a letter of wishes to PDF as a supporting document and controls whether the client can see it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  getWillLetter,
+  letterVisibilitySchema,
+  renderLetterOfWishes,
+  renderLetterSchema,
+  setLetterVisibility,
+} from '@/lib/letters-of-wishes';
+import { getMatterWill } from '@/lib/will-engine';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// POST: Render the letter to PDF and store it as a new document version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string; letterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const body = await request.json().catch(() => ({}));
+    const visibility = renderLetterSchema.parse(body);
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    const letter = will ? await getWillLetter(will.id, params.letterId) : null;
+
+    if (!will || !letter) {
+      return NextResponse.json(
+        { error: 'Letter of wishes not found' },
+        { status: 404 }
+      );
+    }
+
+    const rendered = await renderLetterOfWishes(letter, will, matter, userId, visibility);
+    if (!rendered.success) {
+      return NextResponse.json({ error: rendered.error }, { status: rendered.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'generate',
+      resource: 'letter_of_wishes',
+      resourceId: letter.id,
+      firmId: matter.lawFirmId,
+      details: {
+        willId: will.id,
+        documentId: rendered.data.document.id,
+        version: rendered.data.document.version,
+        clientVisible: rendered.data.document.clientVisible,
+      },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      letter: rendered.data.letter,
+      document: rendered.data.document,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Letter of wishes render error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to generate letter of wishes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Share the latest letter with the client, or withdraw it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string; letterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const input = letterVisibilitySchema.parse(await request.json());
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    const letter = will ? await getWillLetter(will.id, params.letterId) : null;
+
+    if (!letter) {
+      return NextResponse.json(
+        { error: 'Letter of wishes not found' },
+        { status: 404 }
+      );
+    }
+
+    const document = await setLetterVisibility(letter, matter, userId, input);
+    if (!document.success) {
+      return NextResponse.json({ error: document.error }, { status: document.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'document',
+      resourceId: document.data.id,
+      firmId: matter.lawFirmId,
+      after: {
+        clientVisible: document.data.clientVisible,
+        clientDownloadable: document.data.clientDownloadable,
+      },
+      details: { letterId: letter.id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      document: document.data,
+    });
+
+  } catch (error) {
+    console.error('Letter of wishes visibility error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update letter visibility',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Letter of Wishes API
+ * Shows one letter of wishes with its latest PDF, and edits its sections or status
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import {
+  getLetterDocument,
+  getWillLetter,
+  updateLetterOfWishes,
+  updateLetterSchema,
+} from '@/lib/letters-of-wishes';
+import { getMatterWill } from '@/lib/will-engine';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// GET: The letter and its latest rendered document
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string; letterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    const letter = will ? await getWillLetter(will.id, params.letterId) : null;
+
+    if (!letter) {
+      return NextResponse.json(
+        { error: 'Letter of wishes not found' },
+        { status: 404 }
+      );
+    }
+
+    const document = await getLetterDocument(letter);
+
+    return NextResponse.json({
+      success: true,
+      letter,
+      document,
+    });
+
+  } catch (error) {
+    console.error('Letter of wishes fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch letter of wishes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Edit the letter's title or sections, or finalise it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string; letterId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const input = updateLetterSchema.parse(await request.json());
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    const letter = will ? await getWillLetter(will.id, params.letterId) : null;
+
+    if (!will || !letter) {
+      return NextResponse.json(
+        { error: 'Letter of wishes not found' },
+        { status: 404 }
+      );
+    }
+
+    const updated = await updateLetterOfWishes(letter, will, matter, userId, input);
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'letter_of_wishes',
+      resourceId: letter.id,
+      firmId: matter.lawFirmId,
+      before: letter,
+      after: updated.data,
+      details: { willId: will.id },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      letter: updated.data,
+    });
+
+  } catch (error) {
+    console.error('Letter of wishes update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update letter of wishes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
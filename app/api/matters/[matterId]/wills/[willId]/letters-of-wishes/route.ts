@@ -0,0 +1,115 @@
+/**
+ * Letters of Wishes API
+ * Lists a will's letters of wishes and creates new ones, optionally drafted by AI from the will
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { createLetterOfWishes, createLetterSchema, getWillLetters } from '@/lib/letters-of-wishes';
+import { getMatterWill } from '@/lib/will-engine';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// GET: List the will's letters of wishes
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    if (!will) {
+      return NextResponse.json(
+        { error: 'Will not found' },
+        { status: 404 }
+      );
+    }
+
+    const letters = await getWillLetters(will.id);
+
+    return NextResponse.json({
+      success: true,
+      letters,
+    });
+
+  } catch (error) {
+    console.error('Letters of wishes fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch letters of wishes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Create a letter of wishes
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const input = createLetterSchema.parse(await request.json());
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    if (!will) {
+      return NextResponse.json(
+        { error: 'Will not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!input.draftWithAi && input.sections.length === 0) {
+      return NextResponse.json(
+        { error: 'Provide at least one section or ask for an AI draft' },
+        { status: 400 }
+      );
+    }
+
+    const letter = await createLetterOfWishes(will, matter, userId, input);
+    if (!letter.success) {
+      return NextResponse.json({ error: letter.error }, { status: letter.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: input.draftWithAi ? 'generate' : 'create',
+      resource: 'letter_of_wishes',
+      resourceId: letter.data.id,
+      firmId: matter.lawFirmId,
+      after: letter.data,
+      details: { willId: will.id, draftWithAi: input.draftWithAi },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      letter: letter.data,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Letter of wishes creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create letter of wishes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
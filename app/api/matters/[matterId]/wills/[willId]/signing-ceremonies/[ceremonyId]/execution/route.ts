@@ -0,0 +1,76 @@
+/**
+ * Will Execution API
+ * Records that the will was signed before its witnesses and files the final will with the attestation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { getWillCeremony, recordExecution, recordExecutionSchema } from '@/lib/signing-ceremonies';
+import { getMatterWill } from '@/lib/will-engine';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// POST: Record the signing and render the final will with the witness details filled in
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string; ceremonyId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const input = recordExecutionSchema.parse(await request.json());
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    const ceremony = will ? await getWillCeremony(will.id, params.ceremonyId) : null;
+
+    if (!will || !ceremony) {
+      return NextResponse.json(
+        { error: 'Signing ceremony not found' },
+        { status: 404 }
+      );
+    }
+
+    const executed = await recordExecution(ceremony, will, matter, userId, input);
+    if (!executed.success) {
+      return NextResponse.json({ error: executed.error }, { status: executed.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'submit',
+      resource: 'signing_ceremony',
+      resourceId: ceremony.id,
+      firmId: matter.lawFirmId,
+      before: ceremony,
+      after: executed.data.ceremony,
+      details: { willId: will.id, documentId: executed.data.document.id },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      ceremony: executed.data.ceremony,
+      document: executed.data.document,
+    });
+
+  } catch (error) {
+    console.error('Will execution error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to record will execution',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Signing Ceremony API
+ * Shows a signing ceremony and changes its witnesses, place or appointment until the will is signed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { getWillCeremony, updateCeremonySchema, updateSigningCeremony } from '@/lib/signing-ceremonies';
+import { getMatterWill } from '@/lib/will-engine';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// GET: Signing ceremony details, including each witness's eligibility check
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string; ceremonyId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    const ceremony = will ? await getWillCeremony(will.id, params.ceremonyId) : null;
+
+    if (!will || !ceremony) {
+      return NextResponse.json(
+        { error: 'Signing ceremony not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ceremony,
+    });
+
+  } catch (error) {
+    console.error('Signing ceremony fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch signing ceremony',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Update or cancel a ceremony that has not been held
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string; ceremonyId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const input = updateCeremonySchema.parse(await request.json());
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    const ceremony = will ? await getWillCeremony(will.id, params.ceremonyId) : null;
+
+    if (!will || !ceremony) {
+      return NextResponse.json(
+        { error: 'Signing ceremony not found' },
+        { status: 404 }
+      );
+    }
+
+    const updated = await updateSigningCeremony(ceremony, will, matter, userId, input);
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'signing_ceremony',
+      resourceId: ceremony.id,
+      firmId: matter.lawFirmId,
+      before: ceremony,
+      after: updated.data,
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      ceremony: updated.data,
+    });
+
+  } catch (error) {
+    console.error('Signing ceremony update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update signing ceremony',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
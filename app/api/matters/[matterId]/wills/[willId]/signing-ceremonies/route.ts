@@ -0,0 +1,108 @@
+/**
+ * Signing Ceremonies API
+ * Lists a will's signing ceremonies and arranges a new one with its witnesses and appointment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatterForUser } from '@/lib/matter-access';
+import { createCeremonySchema, createSigningCeremony, getWillCeremonies } from '@/lib/signing-ceremonies';
+import { getMatterWill } from '@/lib/will-engine';
+import { recordAudit } from '@/lib/audit';
+import { z } from 'zod';
+
+// GET: List the will's signing ceremonies
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    if (!will) {
+      return NextResponse.json(
+        { error: 'Will not found' },
+        { status: 404 }
+      );
+    }
+
+    const ceremonies = await getWillCeremonies(will.id);
+
+    return NextResponse.json({
+      success: true,
+      ceremonies,
+    });
+
+  } catch (error) {
+    console.error('Signing ceremonies fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch signing ceremonies',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Arrange a signing ceremony
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { matterId: string; willId: string } }
+) {
+  try {
+    const result = await getMatterForUser(params.matterId);
+    if ('error' in result) return result.error;
+
+    const { userId, matter } = result;
+    const input = createCeremonySchema.parse(await request.json());
+
+    const will = await getMatterWill(params.matterId, params.willId);
+    if (!will) {
+      return NextResponse.json(
+        { error: 'Will not found' },
+        { status: 404 }
+      );
+    }
+
+    const ceremony = await createSigningCeremony(will, matter, userId, input);
+    if (!ceremony.success) {
+      return NextResponse.json({ error: ceremony.error }, { status: ceremony.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'create',
+      resource: 'signing_ceremony',
+      resourceId: ceremony.data.id,
+      firmId: matter.lawFirmId,
+      after: ceremony.data,
+      details: { willId: will.id, appointmentId: input.appointmentId },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      ceremony: ceremony.data,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Signing ceremony creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to arrange signing ceremony',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
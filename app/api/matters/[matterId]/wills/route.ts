@@ -19,6 +19,7 @@ import {
   type Guardian,
   type Executor
 } from '@/lib/will-engine';
+import { recordAudit, toWillAuditRecord } from '@/lib/audit';
 
 // GET: Retrieve all wills for a specific matter
 export async function GET(
@@ -87,6 +88,17 @@ export async function GET(
       return acc;
     }, {} as Record<string, any>);
 
+    // Will contents are sensitive, so every read is audited
+    await Promise.all(Object.keys(willsWithDocuments).map(willId => recordAudit({
+      userId: result.session.userId,
+      action: 'view',
+      resource: 'will',
+      resourceId: willId,
+      firmId: matter.lawFirmId,
+      details: { matterId },
+      sensitive: true,
+    })));
+
     return NextResponse.json({
       matterId,
       wills: Object.values(willsWithDocuments),
@@ -253,6 +265,17 @@ export async function POST(
     // Create the will
     const will = await createWill(createWillData);
 
+    await recordAudit({
+      userId: result.session.userId,
+      action: 'create',
+      resource: 'will',
+      resourceId: will.id,
+      firmId: matter.lawFirmId,
+      before: null,
+      after: toWillAuditRecord(will),
+      sensitive: true,
+    });
+
     return NextResponse.json({
       success: true,
       will: {
@@ -9,6 +9,9 @@ import { headers } from 'next/headers';
 import { getDevAuth, isDevMode } from '@/lib/dev-auth';
 import { db } from '@/db/drizzle';
 import { matters, lawFirms, lawFirmMembers, user } from '@/db/schema';
+import { getProgressForStatus } from '@/lib/matter-status';
+import { seedDefaultTasks } from '@/lib/matter-tasks';
+import { recordAudit } from '@/lib/audit';
 import { eq, and, desc, asc, ilike, or } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 
@@ -184,7 +187,7 @@ export async function GET(request: NextRequest) {
       updatedAt: matter.updatedAt ? matter.updatedAt.toISOString() : new Date().toISOString(),  
       dueDate: matter.dueDate ? (matter.dueDate instanceof Date ? matter.dueDate.toISOString() : new Date(matter.dueDate).toISOString()) : undefined,
       lawFirmName: matter.lawFirmName,
-      // Calculate mock progress based on status
+      // Progress comes from the shared matter workflow definition
       progress: getProgressForStatus(matter.status),
     }));
 
@@ -304,6 +307,25 @@ export async function POST(request: NextRequest) {
       dueDate: dueDate ? new Date(dueDate) : null,
     }).returning();
 
+    await recordAudit({
+      userId,
+      action: 'create',
+      resource: 'matter',
+      resourceId: newMatter.id,
+      firmId: lawFirmId,
+      before: null,
+      after: newMatter,
+    });
+
+    // Seed the default task checklist for this matter type
+    let tasksCreated = 0;
+    try {
+      const tasks = await seedDefaultTasks(newMatter.id, matterType, newMatter.assignedLawyerId);
+      tasksCreated = tasks.length;
+    } catch (taskError) {
+      console.error('Failed to seed default tasks:', taskError);
+    }
+
     return NextResponse.json({
       success: true,
       matter: {
@@ -316,7 +338,8 @@ export async function POST(request: NextRequest) {
         priority: newMatter.priority,
         createdAt: newMatter.createdAt.toISOString(),
         dueDate: newMatter.dueDate ? (newMatter.dueDate instanceof Date ? newMatter.dueDate.toISOString() : new Date(newMatter.dueDate).toISOString()) : undefined,
-      }
+      },
+      tasksCreated,
     }, { status: 201 });
 
   } catch (error) {
@@ -330,23 +353,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Helper function to calculate progress based on status
-function getProgressForStatus(status: string): number {
-  switch (status) {
-    case 'intake':
-      return 10;
-    case 'draft':
-      return 40;
-    case 'review':
-      return 70;
-    case 'client_review':
-      return 85;
-    case 'complete':
-      return 100;
-    case 'registered':
-      return 100;
-    default:
-      return 0;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,81 @@
+/**
+ * Client Portal Document API
+ * Downloads a document the firm has shared with the client and marked downloadable
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { getClientDocument } from '@/lib/client-portal';
+import { readDocumentBytes } from '@/lib/document-storage';
+import { getMatterFirmId, isSensitiveDocumentType, recordAudit } from '@/lib/audit';
+
+// GET: The document file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { documentId: string } }
+) {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = result.session.userId;
+    const document = await getClientDocument(userId, params.documentId);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    // Shared but not downloadable documents are listed in the portal without their contents
+    if (!document.clientDownloadable) {
+      return NextResponse.json(
+        { error: 'This document is not available for download' },
+        { status: 403 }
+      );
+    }
+
+    const bytes = await readDocumentBytes(document);
+
+    await recordAudit({
+      userId,
+      action: 'view',
+      resource: 'document',
+      resourceId: document.id,
+      firmId: await getMatterFirmId(document.matterId),
+      details: { matterId: document.matterId, documentType: document.documentType, download: true, clientPortal: true },
+      sensitive: isSensitiveDocumentType(document.documentType),
+    });
+
+    const responseHeaders = new Headers();
+    responseHeaders.set('Content-Type', document.mimeType || 'application/octet-stream');
+    responseHeaders.set('Content-Length', bytes.length.toString());
+    responseHeaders.set('Content-Disposition', `attachment; filename="${document.fileName.replace(/"/g, '')}"`);
+    responseHeaders.set('Cache-Control', 'private, no-cache, no-store, must-revalidate');
+
+    return new NextResponse(bytes, {
+      status: 200,
+      headers: responseHeaders,
+    });
+
+  } catch (error) {
+    console.error('Client portal document error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to download document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Client Portal Matter API
+ * One of the client's own matters with the timeline events and documents the firm has shared
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { getClientMatterDetail } from '@/lib/client-portal';
+
+// GET: Matter detail for the current client
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matterId: string } }
+) {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const detail = await getClientMatterDetail(result.session.userId, params.matterId);
+
+    if (!detail) {
+      return NextResponse.json(
+        { error: 'Matter not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...detail,
+    });
+
+  } catch (error) {
+    console.error('Client portal matter fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load matter',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Client Portal API
+ * The signed-in client's matters, outstanding tasks and upcoming appointments
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { getClientPortalOverview } from '@/lib/client-portal';
+
+// GET: Portal home page data for the current client
+export async function GET() {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const overview = await getClientPortalOverview(result.session.userId);
+
+    return NextResponse.json({
+      success: true,
+      ...overview,
+    });
+
+  } catch (error) {
+    console.error('Client portal fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load your matters',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Decline Signature API
+ * Lets a signer refuse to sign, with a reason for the lawyer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { z } from 'zod';
+import { declineSignature, declineSignatureSchema, toSignerView } from '@/lib/e-signatures';
+import { getMatterFirmId, recordAudit } from '@/lib/audit';
+
+// POST: Decline to sign
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { requestId: string } }
+) {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = result.session.userId;
+    const { reason } = declineSignatureSchema.parse(await request.json());
+
+    const declined = await declineSignature(params.requestId, userId, reason);
+    if (!declined.success) {
+      return NextResponse.json({ error: declined.error }, { status: declined.status });
+    }
+
+    await recordAudit({
+      userId,
+      action: 'update',
+      resource: 'signature_request',
+      resourceId: declined.data.id,
+      firmId: await getMatterFirmId(declined.data.matterId),
+      after: { status: declined.data.status },
+      details: { reason },
+    });
+
+    return NextResponse.json({
+      success: true,
+      signatureRequest: toSignerView(declined.data, userId),
+    });
+
+  } catch (error) {
+    console.error('Signature decline error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to decline signature',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Signature Document API
+ * Streams the PDF to be signed, or the stamped copy once everyone has signed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { getSignatureRequestForSigner, getSignerDocument } from '@/lib/e-signatures';
+import { readDocumentBytes } from '@/lib/document-storage';
+import { getMatterFirmId, recordAudit } from '@/lib/audit';
+
+// GET: The document PDF
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { requestId: string } }
+) {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = result.session.userId;
+    const signatureRequest = await getSignatureRequestForSigner(params.requestId, userId);
+    const document = signatureRequest ? await getSignerDocument(signatureRequest) : null;
+
+    if (!signatureRequest || !document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const bytes = await readDocumentBytes(document);
+
+    await recordAudit({
+      userId,
+      action: 'view',
+      resource: 'document',
+      resourceId: document.id,
+      firmId: await getMatterFirmId(document.matterId),
+      details: { signatureRequestId: signatureRequest.id },
+    });
+
+    const responseHeaders = new Headers();
+    responseHeaders.set('Content-Type', 'application/pdf');
+    responseHeaders.set('Content-Length', bytes.length.toString());
+    responseHeaders.set('Content-Disposition', `inline; filename="${document.fileName.replace(/"/g, '')}"`);
+    responseHeaders.set('Cache-Control', 'private, no-cache, no-store, must-revalidate');
+
+    return new NextResponse(bytes, {
+      status: 200,
+      headers: responseHeaders,
+    });
+
+  } catch (error) {
+    console.error('Signature document error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Signature Request API (signer)
+ * Shows a signer the request and the fields they need to complete
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { getSignatureRequestForSigner, toSignerView } from '@/lib/e-signatures';
+
+// GET: The request as the signer sees it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { requestId: string } }
+) {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = result.session.userId;
+    const signatureRequest = await getSignatureRequestForSigner(params.requestId, userId);
+    if (!signatureRequest) {
+      return NextResponse.json(
+        { error: 'Signature request not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      signatureRequest: {
+        ...toSignerView(signatureRequest, userId),
+        documentUrl: `/api/signatures/${signatureRequest.id}/document`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Signature request fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch signature request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
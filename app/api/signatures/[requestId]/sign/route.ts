@@ -0,0 +1,79 @@
+/**
+ * Sign Document API
+ * Records the signer's consent and drawn or typed signature; the last signer's signature completes the request
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { z } from 'zod';
+import { signDocument, signDocumentSchema, toSignerView } from '@/lib/e-signatures';
+import { getMatterFirmId, recordAudit } from '@/lib/audit';
+
+// POST: Sign the document
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { requestId: string } }
+) {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = result.session.userId;
+    const input = signDocumentSchema.parse(await request.json());
+
+    const signed = await signDocument(params.requestId, userId, input);
+    if (!signed.success) {
+      return NextResponse.json({ error: signed.error }, { status: signed.status });
+    }
+
+    const { request: signatureRequest, signedDocument } = signed.data;
+
+    await recordAudit({
+      userId,
+      action: 'submit',
+      resource: 'signature_request',
+      resourceId: signatureRequest.id,
+      firmId: await getMatterFirmId(signatureRequest.matterId),
+      details: {
+        signatureType: input.signature.type,
+        completed: signatureRequest.status === 'completed',
+        signedDocumentId: signedDocument?.id,
+        signedDocumentHash: signatureRequest.signedDocumentHash,
+      },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      signatureRequest: toSignerView(signatureRequest, userId),
+      signedDocumentUrl: signedDocument ? `/api/signatures/${signatureRequest.id}/document` : undefined,
+    });
+
+  } catch (error) {
+    console.error('Document signing error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to sign document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * My Signatures API
+ * Documents the signed-in user has been asked to sign electronically
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { getUserSignatureRequests, toSignerView } from '@/lib/e-signatures';
+
+// GET: The user's signature requests, newest first
+export async function GET() {
+  try {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = result.session.userId;
+    const requests = await getUserSignatureRequests(userId);
+
+    return NextResponse.json({
+      success: true,
+      signatureRequests: requests.map(request => toSignerView(request, userId)),
+    });
+
+  } catch (error) {
+    console.error('Signature requests fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch signature requests',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Individual DIFC Compliance Rule API Route
+ * Handles updating and retiring a single rule
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/db/drizzle";
+import { difcComplianceRules } from "@/db/schema";
+import { validationLogicSchema } from "@/lib/compliance-engine";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const updateRuleSchema = z.object({
+  ruleType: z.enum(['mandatory', 'recommended', 'warning']).optional(),
+  title: z.string().min(1).optional(),
+  description: z.string().min(1).optional(),
+  validationLogic: validationLogicSchema.optional(),
+  effectiveDate: dateSchema.optional(),
+  expiryDate: dateSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+// PUT /api/v1/compliance-rules/[ruleId] - Update a rule
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const canManage = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.SYSTEM_ADMIN,
+      { userId: session.session.userId }
+    );
+
+    if (!canManage) {
+      return NextResponse.json(
+        { error: "Insufficient permissions to manage compliance rules" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateRuleSchema.parse(body);
+
+    const [rule] = await db
+      .update(difcComplianceRules)
+      .set(validatedData)
+      .where(eq(difcComplianceRules.id, params.ruleId))
+      .returning();
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Compliance rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { rule },
+      message: "Compliance rule updated successfully",
+    });
+
+  } catch (error) {
+    console.error("Update compliance rule error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update compliance rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/v1/compliance-rules/[ruleId] - Retire a rule (kept for historical checks)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const canManage = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.SYSTEM_ADMIN,
+      { userId: session.session.userId }
+    );
+
+    if (!canManage) {
+      return NextResponse.json(
+        { error: "Insufficient permissions to manage compliance rules" },
+        { status: 403 }
+      );
+    }
+
+    const [rule] = await db
+      .update(difcComplianceRules)
+      .set({ isActive: false })
+      .where(eq(difcComplianceRules.id, params.ruleId))
+      .returning();
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Compliance rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Compliance rule deactivated",
+    });
+
+  } catch (error) {
+    console.error("Deactivate compliance rule error:", error);
+    return NextResponse.json(
+      { error: "Failed to deactivate compliance rule" },
+      { status: 500 }
+    );
+  }
+}
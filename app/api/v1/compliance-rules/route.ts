@@ -0,0 +1,150 @@
+/**
+ * DIFC Compliance Rules API Routes
+ * Lets compliance officers maintain rules without a code deploy
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/db/drizzle";
+import { difcComplianceRules } from "@/db/schema";
+import { getActiveComplianceRules, validationLogicSchema } from "@/lib/compliance-engine";
+import { getUserPrimaryFirm, hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { z } from "zod";
+
+// Validation schemas
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const createRuleSchema = z.object({
+  ruleType: z.enum(['mandatory', 'recommended', 'warning']),
+  ruleCode: z.string().min(1, "Rule code is required"),
+  title: z.string().min(1, "Title is required"),
+  description: z.string().min(1, "Description is required"),
+  validationLogic: validationLogicSchema,
+  effectiveDate: dateSchema,
+  expiryDate: dateSchema.nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+
+const listRulesQuerySchema = z.object({
+  activeOn: dateSchema.pipe(z.coerce.date()).optional(),
+});
+
+// GET /api/v1/compliance-rules - List rules (all, or only those active on a date)
+export async function GET(request: NextRequest) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // DIFC_VALIDATE is granted through a firm role, so check it against the caller's firm
+    const membership = await getUserPrimaryFirm(session.session.userId);
+    const canView = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.DIFC_VALIDATE,
+      { userId: session.session.userId, firmId: membership?.law_firms.id }
+    );
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "Insufficient permissions to view compliance rules" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { activeOn } = listRulesQuerySchema.parse({
+      activeOn: searchParams.get('activeOn') || undefined,
+    });
+
+    const rules = activeOn
+      ? await getActiveComplianceRules(activeOn)
+      : await db.select().from(difcComplianceRules).orderBy(difcComplianceRules.ruleCode);
+
+    return NextResponse.json({
+      success: true,
+      data: { rules },
+    });
+
+  } catch (error) {
+    console.error("List compliance rules error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to retrieve compliance rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/v1/compliance-rules - Create a rule
+export async function POST(request: NextRequest) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const canManage = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.SYSTEM_ADMIN,
+      { userId: session.session.userId }
+    );
+
+    if (!canManage) {
+      return NextResponse.json(
+        { error: "Insufficient permissions to manage compliance rules" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createRuleSchema.parse(body);
+
+    const [rule] = await db.insert(difcComplianceRules).values({
+      ...validatedData,
+      expiryDate: validatedData.expiryDate || null,
+    }).returning();
+
+    return NextResponse.json({
+      success: true,
+      data: { rule },
+      message: "Compliance rule created successfully",
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error("Create compliance rule error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create compliance rule" },
+      { status: 500 }
+    );
+  }
+}
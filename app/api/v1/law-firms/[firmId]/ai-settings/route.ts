@@ -0,0 +1,177 @@
+/**
+ * Law Firm AI Settings API Routes
+ * Reads and updates the firm's LLM provider and per-task model choices
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getFirmSettings, updateFirmSettings } from "@/lib/law-firm";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import {
+  getFirmAiSettings,
+  getFirmAiSettingsSchema,
+  LLM_TASKS,
+  resolveLanguageModel,
+  type FirmAiSettings,
+} from "@/lib/llm-providers";
+import { z } from "zod";
+
+// Provider and model each task resolves to with the given settings
+function describeResolvedModels(
+  settings: FirmAiSettings,
+  firmId: string
+): Record<string, { provider: string; modelId: string } | { error: string }> {
+  return Object.fromEntries(
+    LLM_TASKS.map(task => {
+      try {
+        const { provider, modelId } = resolveLanguageModel(task, settings, firmId);
+        return [task, { provider, modelId }];
+      } catch (error) {
+        return [task, { error: error instanceof Error ? error.message : "Unknown error" }];
+      }
+    })
+  );
+}
+
+// GET /api/v1/law-firms/[firmId]/ai-settings - Get the firm's AI settings
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { firmId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { firmId } = params;
+
+    // Check permissions
+    const canView = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.LAW_FIRM_VIEW,
+      { userId: session.session.userId, firmId }
+    );
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 }
+      );
+    }
+
+    const settings = await getFirmAiSettings(firmId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        settings,
+        resolved: describeResolvedModels(settings, firmId),
+      },
+    });
+
+  } catch (error) {
+    console.error("Get AI settings error:", error);
+    return NextResponse.json(
+      { error: "Failed to retrieve AI settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/v1/law-firms/[firmId]/ai-settings - Replace the firm's AI settings
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { firmId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { firmId } = params;
+
+    // Check permissions
+    const canUpdate = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.LAW_FIRM_UPDATE,
+      { userId: session.session.userId, firmId }
+    );
+
+    if (!canUpdate) {
+      return NextResponse.json(
+        { error: "Insufficient permissions to update AI settings" },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const aiSettings = getFirmAiSettingsSchema(firmId).parse(body);
+
+    // The provider must be usable before it is saved
+    const resolved = describeResolvedModels(aiSettings, firmId);
+    const problem = Object.values(resolved).find((result): result is { error: string } => "error" in result);
+    if (problem) {
+      return NextResponse.json(
+        { error: `AI settings are incomplete: ${problem.error}` },
+        { status: 400 }
+      );
+    }
+
+    const settings = await getFirmSettings(firmId);
+    const previous = await getFirmAiSettings(firmId);
+
+    await updateFirmSettings(firmId, { ...settings, ai: aiSettings });
+
+    await recordAudit({
+      userId: session.session.userId,
+      action: "update",
+      resource: "firm",
+      resourceId: firmId,
+      firmId,
+      before: { ai: previous },
+      after: { ai: aiSettings },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        settings: aiSettings,
+        resolved,
+      },
+      message: "AI settings updated successfully",
+    });
+
+  } catch (error) {
+    console.error("Update AI settings error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update AI settings" },
+      { status: 500 }
+    );
+  }
+}
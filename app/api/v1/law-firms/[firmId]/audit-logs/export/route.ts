@@ -0,0 +1,90 @@
+/**
+ * Audit Export API Route
+ * Downloads a signed, timestamped bundle of the firm's audit entries for a date range
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { auditExportSchema, buildAuditExportBundle } from "@/lib/audit-chain";
+import { z } from "zod";
+
+// GET /api/v1/law-firms/[firmId]/audit-logs/export?from=&to= - Export a signed audit bundle
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { firmId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { firmId } = params;
+
+    // Check permissions
+    const canView = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.AUDIT_VIEW,
+      { userId: session.session.userId, firmId }
+    );
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "Insufficient permissions to export audit logs" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const range = auditExportSchema.parse(Object.fromEntries(searchParams));
+
+    const result = await buildAuditExportBundle(firmId, new Date(range.from), new Date(range.to));
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    // The export itself becomes part of the trail, after the bundle was built
+    await recordAudit({
+      userId: session.session.userId,
+      action: "generate",
+      resource: "firm",
+      resourceId: firmId,
+      firmId,
+      sensitive: true,
+      details: { auditExport: range, entryCount: result.data.entryCount },
+    });
+
+    const filename = `audit-${firmId}-${range.from.split('T')[0]}-${range.to.split('T')[0]}.json`;
+
+    return new NextResponse(JSON.stringify(result.data, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error("Export audit logs error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to export audit logs" },
+      { status: 500 }
+    );
+  }
+}
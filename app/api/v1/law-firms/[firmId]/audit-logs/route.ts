@@ -0,0 +1,77 @@
+/**
+ * Law Firm Audit Log API Routes
+ * Lists the firm's audit trail with filters for user, action, resource and date range
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { auditLogFilterSchema, getAuditLogs } from "@/lib/audit";
+import { z } from "zod";
+
+// GET /api/v1/law-firms/[firmId]/audit-logs - List firm audit entries
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { firmId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { firmId } = params;
+
+    // Check permissions - only roles with audit access may read the trail
+    const canView = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.AUDIT_VIEW,
+      { userId: session.session.userId, firmId }
+    );
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "Insufficient permissions to view audit logs" },
+        { status: 403 }
+      );
+    }
+
+    // Parse query filters
+    const { searchParams } = new URL(request.url);
+    const filters = auditLogFilterSchema.parse(Object.fromEntries(searchParams));
+
+    const { entries, total } = await getAuditLogs(firmId, filters);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        entries,
+        total,
+        limit: filters.limit,
+        offset: filters.offset,
+      },
+    });
+
+  } catch (error) {
+    console.error("Get audit logs error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to retrieve audit logs" },
+      { status: 500 }
+    );
+  }
+}
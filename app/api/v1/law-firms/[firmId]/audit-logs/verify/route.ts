@@ -0,0 +1,59 @@
+/**
+ * Audit Chain Verification API Route
+ * Walks the firm's audit hash chain and reports the first broken link
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { verifyAuditChain } from "@/lib/audit-chain";
+
+// GET /api/v1/law-firms/[firmId]/audit-logs/verify - Verify the firm's audit chain
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { firmId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { firmId } = params;
+
+    // Check permissions
+    const canView = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.AUDIT_VIEW,
+      { userId: session.session.userId, firmId }
+    );
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "Insufficient permissions to verify audit logs" },
+        { status: 403 }
+      );
+    }
+
+    const verification = await verifyAuditChain(firmId);
+
+    return NextResponse.json({
+      success: true,
+      data: verification,
+    });
+
+  } catch (error) {
+    console.error("Verify audit chain error:", error);
+    return NextResponse.json(
+      { error: "Failed to verify audit chain" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Law Firm Clause Review API Route
+ * Senior lawyers approve or reject a pending clause version before it is used in generation
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasMinimumRole, ROLES } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { reviewClauseVersion, reviewClauseVersionSchema } from "@/lib/clause-library";
+import { z } from "zod";
+
+// POST /api/v1/law-firms/[firmId]/clauses/[clauseKey]/versions/[versionId]/review - Approve or reject a version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { firmId: string; clauseKey: string; versionId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { firmId, clauseKey, versionId } = params;
+
+    // Only senior lawyers and above may sign off clause wording
+    const isSeniorLawyer = await hasMinimumRole(session.session.userId, ROLES.SENIOR_LAWYER, firmId);
+
+    if (!isSeniorLawyer) {
+      return NextResponse.json(
+        { error: "Only senior lawyers can review clause versions" },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const input = reviewClauseVersionSchema.parse(body);
+
+    const result = await reviewClauseVersion(firmId, clauseKey, versionId, input, session.session.userId);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    await recordAudit({
+      userId: session.session.userId,
+      action: "update",
+      resource: "clause",
+      resourceId: versionId,
+      firmId,
+      before: { status: result.data.before.status },
+      after: { status: result.data.after.status, rejectionReason: result.data.after.rejectionReason },
+      details: { clauseKey, language: result.data.after.language, version: result.data.after.version },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data.after,
+      message: input.decision === "approve" ? "Clause version approved" : "Clause version rejected",
+    });
+
+  } catch (error) {
+    console.error("Review clause version error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to review clause version" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Law Firm Clause Version API Routes
+ * Version history of a firm clause and drafting of new versions for approval
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import {
+  createClauseVersion,
+  createClauseVersionSchema,
+  getClauseVersions,
+} from "@/lib/clause-library";
+import { CLAUSE_LANGUAGES, type ClauseLanguage } from "@/lib/will-clauses";
+import { z } from "zod";
+
+// GET /api/v1/law-firms/[firmId]/clauses/[clauseKey]/versions - Get version history, optionally for one language
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { firmId: string; clauseKey: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { firmId, clauseKey } = params;
+
+    // Check permissions
+    const canView = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.LAW_FIRM_VIEW,
+      { userId: session.session.userId, firmId }
+    );
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 }
+      );
+    }
+
+    const language = new URL(request.url).searchParams.get("language");
+    if (language && !CLAUSE_LANGUAGES.includes(language as ClauseLanguage)) {
+      return NextResponse.json(
+        { error: "Language must be 'en' or 'ar'" },
+        { status: 400 }
+      );
+    }
+
+    const result = await getClauseVersions(firmId, clauseKey, (language as ClauseLanguage) || undefined);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+
+  } catch (error) {
+    console.error("Get clause versions error:", error);
+    return NextResponse.json(
+      { error: "Failed to retrieve clause versions" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/v1/law-firms/[firmId]/clauses/[clauseKey]/versions - Draft a new clause version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { firmId: string; clauseKey: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { firmId, clauseKey } = params;
+
+    // Check permissions
+    const canEdit = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.WILL_EDIT,
+      { userId: session.session.userId, firmId }
+    );
+
+    if (!canEdit) {
+      return NextResponse.json(
+        { error: "Insufficient permissions to edit clauses" },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const input = createClauseVersionSchema.parse(body);
+
+    const result = await createClauseVersion(firmId, clauseKey, input, session.session.userId);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    await recordAudit({
+      userId: session.session.userId,
+      action: "create",
+      resource: "clause",
+      resourceId: result.data.id,
+      firmId,
+      details: { clauseKey, language: result.data.language, version: result.data.version },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: "Clause version submitted for approval",
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error("Create clause version error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create clause version" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Law Firm Clause Library API Routes
+ * Lists the will clauses available to the firm and the wording each one currently uses
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { listFirmClauses } from "@/lib/clause-library";
+import { CLAUSE_VARIABLES } from "@/lib/will-clauses";
+
+// GET /api/v1/law-firms/[firmId]/clauses - List library clauses with approved and pending versions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { firmId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { firmId } = params;
+
+    // Check permissions
+    const canView = await hasPermission(
+      session.session.userId,
+      PERMISSIONS.LAW_FIRM_VIEW,
+      { userId: session.session.userId, firmId }
+    );
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 }
+      );
+    }
+
+    const clauses = await listFirmClauses(firmId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        clauses,
+        variables: CLAUSE_VARIABLES,
+      },
+    });
+
+  } catch (error) {
+    console.error("Get clause library error:", error);
+    return NextResponse.json(
+      { error: "Failed to retrieve clause library" },
+      { status: 500 }
+    );
+  }
+}
@@ -16,6 +16,7 @@ import {
   PERMISSIONS, 
   type Role 
 } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
 import { z } from "zod";
 
 // Validation schemas
@@ -127,6 +128,18 @@ export async function POST(
       validatedData.customPermissions
     );
 
+    await recordAudit({
+      userId: session.session.userId,
+      action: "create",
+      resource: "member",
+      resourceId: validatedData.userId,
+      firmId,
+      details: {
+        role: validatedData.role,
+        customPermissions: validatedData.customPermissions || [],
+      },
+    });
+
     return NextResponse.json({
       success: true,
       message: "Member added successfully",
@@ -207,6 +220,18 @@ export async function PUT(
         validatedData.role as Role,
         validatedData.customPermissions
       );
+
+      await recordAudit({
+        userId: session.session.userId,
+        action: "update",
+        resource: "member",
+        resourceId: userId,
+        firmId,
+        details: {
+          role: validatedData.role,
+          customPermissions: validatedData.customPermissions || [],
+        },
+      });
     }
 
     return NextResponse.json({
@@ -289,6 +314,14 @@ export async function DELETE(
     // Remove member from firm
     await removeFirmMember(firmId, userId);
 
+    await recordAudit({
+      userId: session.session.userId,
+      action: "delete",
+      resource: "member",
+      resourceId: userId,
+      firmId,
+    });
+
     return NextResponse.json({
       success: true,
       message: "Member removed successfully",
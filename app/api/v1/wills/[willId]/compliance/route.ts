@@ -0,0 +1,139 @@
+/**
+ * Will Compliance API Route
+ * Runs the configured DIFC compliance rules against a will
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getWillById } from "@/lib/will-engine";
+import { runComplianceCheck } from "@/lib/compliance-engine";
+import { hasWillPermission, PERMISSIONS } from "@/lib/permissions";
+
+// POST /api/v1/wills/[willId]/compliance - Evaluate active rules and store the results
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { willId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { willId } = params;
+
+    const will = await getWillById(willId);
+    if (!will) {
+      return NextResponse.json(
+        { error: "Will not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check permissions in the will's firm
+    const canValidate = await hasWillPermission(session.session.userId, PERMISSIONS.DIFC_VALIDATE, willId);
+
+    if (!canValidate) {
+      return NextResponse.json(
+        { error: "Insufficient permissions to run compliance checks" },
+        { status: 403 }
+      );
+    }
+
+    // Optional evaluation date, e.g. to preview rules that take effect later
+    const asOfParam = new URL(request.url).searchParams.get('asOf');
+    const asOf = asOfParam ? new Date(asOfParam) : new Date();
+
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid asOf date" },
+        { status: 400 }
+      );
+    }
+
+    const { evaluation, rulesEvaluated } = await runComplianceCheck(willId, asOf);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        difcCompliant: evaluation.difcCompliant,
+        score: evaluation.score,
+        issues: evaluation.issues,
+        results: evaluation.results,
+        rulesEvaluated,
+        lastChecked: evaluation.evaluatedAt,
+      },
+      message: "Compliance check completed",
+    });
+
+  } catch (error) {
+    console.error("Compliance check error:", error);
+    return NextResponse.json(
+      { error: "Failed to run compliance check" },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/v1/wills/[willId]/compliance - Get the last stored compliance results
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { willId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { willId } = params;
+
+    const will = await getWillById(willId);
+    if (!will) {
+      return NextResponse.json(
+        { error: "Will not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check permissions in the will's firm
+    const canView = await hasWillPermission(session.session.userId, PERMISSIONS.WILL_VIEW, willId);
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        difcCompliant: will.difcCompliant,
+        issues: will.complianceChecks?.issues || [],
+        lastChecked: will.complianceChecks?.lastChecked || null,
+      },
+    });
+
+  } catch (error) {
+    console.error("Get compliance results error:", error);
+    return NextResponse.json(
+      { error: "Failed to get compliance results" },
+      { status: 500 }
+    );
+  }
+}
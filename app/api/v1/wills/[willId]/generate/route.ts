@@ -13,7 +13,9 @@ import {
   generateWillSummary,
   type AIGenerationOptions 
 } from "@/lib/ai-will-generator";
+import { runComplianceCheck } from "@/lib/compliance-engine";
 import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { getMatterFirmId, recordAudit } from "@/lib/audit";
 import { z } from "zod";
 
 // Validation schema for generation request
@@ -96,9 +98,12 @@ export async function POST(
       willType: will.willType,
     };
 
+    // The firm's AI settings choose the model for each step
+    const firmId = await getMatterFirmId(will.matterId);
+
     try {
       // Generate the will document
-      const generatedWill = await generateDIFCWill(context, options as AIGenerationOptions);
+      const generatedWill = await generateDIFCWill(context, options as AIGenerationOptions, firmId);
 
       // Convert to full document text for analysis
       const documentText = formatWillDocument(generatedWill);
@@ -112,16 +117,17 @@ export async function POST(
       if (generateAnalysis) {
         results.analysis = await generateLegalAnalysis(
           documentText, 
-          will.assets || []
+          will.assets || [],
+          firmId
         );
       }
 
       if (generateCompliance) {
-        results.compliance = await generateComplianceChecklist(documentText);
+        results.compliance = await generateComplianceChecklist(documentText, firmId);
       }
 
       if (generateSummary) {
-        results.summary = await generateWillSummary(documentText);
+        results.summary = await generateWillSummary(documentText, firmId);
       }
 
       // Update will with AI analysis
@@ -134,16 +140,22 @@ export async function POST(
         lastAnalyzed: new Date().toISOString(),
       };
 
-      const complianceChecks = {
-        difcCompliant: (results.compliance as Record<string, unknown>)?.difcCompliant as boolean || false,
-        issues: ((results.compliance as Record<string, unknown>)?.checklist as Array<Record<string, unknown>>)?.filter((item: Record<string, unknown>) => item.status !== 'met') || [],
-        lastChecked: new Date().toISOString(),
-      };
-
       await updateWill(willId, {
         aiAnalysis,
-        complianceChecks,
-        difcCompliant: (results.compliance as Record<string, unknown>)?.difcCompliant as boolean || false,
+      });
+
+      // Compliance status comes from the configured DIFC rules, not the AI checklist
+      const { evaluation } = await runComplianceCheck(willId);
+      results.ruleCompliance = evaluation;
+
+      await recordAudit({
+        userId: session.session.userId,
+        action: "generate",
+        resource: "will",
+        resourceId: willId,
+        firmId,
+        details: { language: options.language, generateAnalysis, generateCompliance, generateSummary },
+        sensitive: true,
       });
 
       return NextResponse.json({
@@ -0,0 +1,98 @@
+/**
+ * Will Version Restore API Route
+ * Creates a new version from the content of an earlier one
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getWillLineage, restoreWillVersion } from "@/lib/will-engine";
+import { diffWills, type DiffableWill } from "@/lib/will-diff";
+import { hasWillPermission, PERMISSIONS } from "@/lib/permissions";
+import { getMatterFirmId, recordAudit, toWillAuditRecord } from "@/lib/audit";
+
+// POST /api/v1/wills/[willId]/versions/[versionId]/restore - Restore an earlier version as the newest draft
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { willId: string; versionId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { willId, versionId } = params;
+
+    const lineage = await getWillLineage(willId);
+    if (lineage.length === 0) {
+      return NextResponse.json(
+        { error: "Will not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check permissions in the will's firm
+    const canEdit = await hasWillPermission(session.session.userId, PERMISSIONS.WILL_EDIT, willId);
+
+    if (!canEdit) {
+      return NextResponse.json(
+        { error: "Insufficient permissions to restore will versions" },
+        { status: 403 }
+      );
+    }
+
+    const source = lineage.find(version => version.id === versionId);
+    if (!source) {
+      return NextResponse.json(
+        { error: "Version not found in this will's history" },
+        { status: 404 }
+      );
+    }
+
+    const previousLatest = lineage[lineage.length - 1];
+    if (previousLatest.status === 'registered') {
+      return NextResponse.json(
+        { error: "The latest version is registered with DIFC; create a codicil or new will instead" },
+        { status: 409 }
+      );
+    }
+
+    const restored = await restoreWillVersion(versionId);
+
+    await recordAudit({
+      userId: session.session.userId,
+      action: "create",
+      resource: "will",
+      resourceId: restored.id,
+      firmId: await getMatterFirmId(restored.matterId),
+      before: toWillAuditRecord(previousLatest),
+      after: toWillAuditRecord(restored),
+      details: { restoredFromVersionId: source.id, restoredFromVersion: source.version },
+      sensitive: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        will: restored,
+        restoredFrom: { id: source.id, version: source.version },
+        changes: diffWills(previousLatest as DiffableWill, restored as DiffableWill),
+      },
+      message: `Version ${source.version} restored as version ${restored.version}`,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error("Restore will version error:", error);
+    return NextResponse.json(
+      { error: "Failed to restore will version" },
+      { status: 500 }
+    );
+  }
+}
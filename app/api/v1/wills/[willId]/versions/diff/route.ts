@@ -0,0 +1,88 @@
+/**
+ * Will Version Diff API Route
+ * Compares two versions of a will section by section
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getWillById, getWillLineage } from "@/lib/will-engine";
+import { diffWills, type DiffableWill } from "@/lib/will-diff";
+import { hasWillPermission, PERMISSIONS } from "@/lib/permissions";
+
+// GET /api/v1/wills/[willId]/versions/diff?from=&to= - Diff two versions in the lineage
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { willId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { willId } = params;
+
+    const will = await getWillById(willId);
+    if (!will) {
+      return NextResponse.json(
+        { error: "Will not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check permissions in the will's firm
+    const canView = await hasWillPermission(session.session.userId, PERMISSIONS.WILL_VIEW, willId);
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 }
+      );
+    }
+
+    // Defaults to comparing this will with the version it was created from
+    const searchParams = new URL(request.url).searchParams;
+    const toId = searchParams.get('to') || willId;
+    const fromId = searchParams.get('from') || (toId === willId ? will.parentWillId : null);
+
+    if (!fromId) {
+      return NextResponse.json(
+        { error: "No earlier version to compare with; specify a from version" },
+        { status: 400 }
+      );
+    }
+
+    // Both versions must belong to this will's lineage
+    const lineage = await getWillLineage(willId);
+    const from = lineage.find(version => version.id === fromId);
+    const to = lineage.find(version => version.id === toId);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: "Version not found in this will's history" },
+        { status: 404 }
+      );
+    }
+
+    const diff = diffWills(from as DiffableWill, to as DiffableWill);
+
+    return NextResponse.json({
+      success: true,
+      data: diff,
+    });
+
+  } catch (error) {
+    console.error("Diff will versions error:", error);
+    return NextResponse.json(
+      { error: "Failed to compare will versions" },
+      { status: 500 }
+    );
+  }
+}
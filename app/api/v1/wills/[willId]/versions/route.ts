@@ -0,0 +1,81 @@
+/**
+ * Will Versions API Route
+ * Lists every version in a will's lineage
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getWillById, getWillLineage } from "@/lib/will-engine";
+import { hasWillPermission, PERMISSIONS } from "@/lib/permissions";
+
+// GET /api/v1/wills/[willId]/versions - Get the full version lineage of a will
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { willId: string } }
+) {
+  try {
+    // Get current user session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.session?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { willId } = params;
+
+    const will = await getWillById(willId);
+    if (!will) {
+      return NextResponse.json(
+        { error: "Will not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check permissions in the will's firm
+    const canView = await hasWillPermission(session.session.userId, PERMISSIONS.WILL_VIEW, willId);
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 }
+      );
+    }
+
+    const lineage = await getWillLineage(willId);
+    const latest = lineage[lineage.length - 1];
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        willId,
+        latestVersionId: latest.id,
+        versions: lineage.map(version => ({
+          id: version.id,
+          version: version.version,
+          parentWillId: version.parentWillId,
+          status: version.status,
+          willType: version.willType,
+          language: version.language,
+          difcCompliant: version.difcCompliant,
+          difcRegistrationNumber: version.difcRegistrationNumber,
+          createdAt: version.createdAt,
+          updatedAt: version.updatedAt,
+          isLatest: version.id === latest.id,
+          isRequested: version.id === willId,
+        })),
+      },
+    });
+
+  } catch (error) {
+    console.error("Get will versions error:", error);
+    return NextResponse.json(
+      { error: "Failed to get will versions" },
+      { status: 500 }
+    );
+  }
+}
@@ -14,6 +14,7 @@ import {
   type CreateWillData 
 } from "@/lib/will-engine";
 import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { getMatterFirmId, recordAudit, toWillAuditRecord } from "@/lib/audit";
 import { z } from "zod";
 
 // Validation schemas
@@ -51,6 +52,41 @@ const createWillSchema = z.object({
     currency: z.string().default("AED"),
     jurisdiction: z.string(),
     details: z.any().optional(),
+    business: z.object({
+      entityName: z.string().min(1),
+      entityType: z.string(),
+      jurisdiction: z.enum(['mainland', 'free_zone', 'difc']),
+      licensingAuthority: z.string().optional(),
+      tradeLicenceNumber: z.string().min(1),
+      shareholdingPercentage: z.number().gt(0).max(100),
+      shareClass: z.string().default("Ordinary"),
+      coShareholders: z.array(z.object({
+        id: z.string(),
+        fullName: z.string(),
+        shareholdingPercentage: z.number().min(0).max(100),
+      })).default([]),
+      successors: z.array(z.object({
+        id: z.string(),
+        beneficiaryId: z.string().optional(),
+        fullName: z.string(),
+        relationship: z.string(),
+        sharePercentage: z.number().min(0).max(100),
+      })).default([]),
+      interimManager: z.string().optional(),
+      buySellAgreement: z.object({
+        counterparties: z.string(),
+        valuationMethod: z.string(),
+        insuranceFunded: z.boolean().default(false),
+      }).optional(),
+      keyPersonProvisions: z.string().optional(),
+    }).optional(),
+    digital: z.object({
+      category: z.enum(['exchange_account', 'self_custody_wallet', 'domain_name', 'social_account', 'email_account', 'cloud_storage', 'other']),
+      platform: z.string().min(1),
+      identifier: z.string().optional(), // Account handle or public address; never a password or key
+      network: z.string().optional(),
+      disposition: z.enum(['transfer', 'sell', 'memorialise', 'close']),
+    }).optional(),
   })).default([]),
   beneficiaries: z.array(z.object({
     id: z.string().optional(),
@@ -81,6 +117,31 @@ const createWillSchema = z.object({
     isPrimary: z.boolean().default(false),
     powers: z.array(z.string()).optional(),
   })).default([]),
+  trusts: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1),
+    purpose: z.string().optional(),
+    trustees: z.array(z.object({
+      id: z.string(),
+      fullName: z.string(),
+      relationship: z.string(),
+      contactInfo: z.any(),
+      isPrimary: z.boolean().default(true),
+      isProfessional: z.boolean().optional(),
+    })).min(1, "Each trust needs at least one trustee"),
+    beneficiaries: z.array(z.object({
+      id: z.string(),
+      beneficiaryId: z.string().optional(),
+      fullName: z.string(),
+      relationship: z.string(),
+      sharePercentage: z.number().min(0).max(100),
+      vestingAge: z.number().int().min(18).max(40).optional(),
+    })).min(1, "Each trust needs at least one beneficiary"),
+    assetIds: z.array(z.string()).default([]),
+    vestingAge: z.number().int().min(18).max(40).default(25),
+    distributionStandard: z.enum(['hems', 'discretionary', 'fixed_income', 'custom']),
+    distributionTerms: z.string().optional(),
+  })).default([]),
   specialInstructions: z.string().optional(),
 });
 
@@ -122,6 +183,17 @@ export async function POST(request: NextRequest) {
     // Create the will
     const will = await createWill(validatedData as CreateWillData);
 
+    await recordAudit({
+      userId: session.session.userId,
+      action: "create",
+      resource: "will",
+      resourceId: will.id,
+      firmId: await getMatterFirmId(will.matterId),
+      before: null,
+      after: toWillAuditRecord(will),
+      sensitive: true,
+    });
+
     // Validate completeness
     const template = getWillTemplate(will.willType);
     const validation = validateWillCompleteness(will, template);
@@ -207,6 +279,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Will contents are sensitive, so every read is audited
+    await recordAudit({
+      userId: session.session.userId,
+      action: "view",
+      resource: "will",
+      resourceId: will.id,
+      firmId: await getMatterFirmId(will.matterId),
+      sensitive: true,
+    });
+
     // Validate completeness
     const template = getWillTemplate(will.willType);
     const validation = validateWillCompleteness(will, template);
@@ -278,15 +360,27 @@ export async function PUT(request: NextRequest) {
     const validatedData = updateWillSchema.parse(body);
 
     // Update the will
-    const updatedWill = await updateWill(willId, validatedData);
+    const existingWill = await getWillById(willId);
+    const updatedWill = existingWill && await updateWill(willId, validatedData);
 
-    if (!updatedWill) {
+    if (!existingWill || !updatedWill) {
       return NextResponse.json(
         { error: "Will not found" },
         { status: 404 }
       );
     }
 
+    await recordAudit({
+      userId: session.session.userId,
+      action: "update",
+      resource: "will",
+      resourceId: willId,
+      firmId: await getMatterFirmId(existingWill.matterId),
+      before: toWillAuditRecord(existingWill),
+      after: toWillAuditRecord(updatedWill),
+      sensitive: true,
+    });
+
     // Validate completeness
     const template = getWillTemplate(updatedWill.willType);
     const validation = validateWillCompleteness(updatedWill, template);
@@ -9,6 +9,7 @@ import { headers } from 'next/headers';
 import { generateWillPDF, type WillPDFData, type PDFOptions } from '@/lib/pdf-generator';
 import { getWillById } from '@/lib/will-engine';
 import { documentStorage } from '@/lib/document-storage';
+import { getMatterFirmId, recordAudit } from '@/lib/audit';
 import { db } from '@/db/drizzle';
 import { willDocuments } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
@@ -188,6 +189,16 @@ export async function GET(
       }
     }
 
+    await recordAudit({
+      userId: result.session.userId,
+      action: 'generate',
+      resource: 'will',
+      resourceId: willId,
+      firmId: await getMatterFirmId(will.matterId),
+      details: { format: 'pdf', download },
+      sensitive: true,
+    });
+
     // Set response headers
     const headers_obj = new Headers();
     headers_obj.set('Content-Type', 'application/pdf');
@@ -325,6 +336,16 @@ export async function POST(
     // Generate PDF with custom options
     const pdfBuffer = await generateWillPDF(pdfData, options);
 
+    await recordAudit({
+      userId: result.session.userId,
+      action: 'generate',
+      resource: 'will',
+      resourceId: willId,
+      firmId: await getMatterFirmId(will.matterId),
+      details: { format: 'pdf', customContent: !!customContent },
+      sensitive: true,
+    });
+
     // Return PDF as base64 for API consumption
     return NextResponse.json({
       success: true,
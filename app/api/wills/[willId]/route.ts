@@ -7,7 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { headers } from 'next/headers';
 import { db } from '@/db/drizzle';
-import { wills, willDocuments, auditLogs } from '@/db/schema';
+import { wills, willDocuments } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { 
   getWillById, 
@@ -18,7 +18,7 @@ import {
   getWillTemplate,
   type UpdateWillData
 } from '@/lib/will-engine';
-import { nanoid } from 'nanoid';
+import { getMatterFirmId, recordAudit, toWillAuditRecord } from '@/lib/audit';
 
 // GET: Retrieve a specific will with all related documents
 export async function GET(
@@ -67,6 +67,17 @@ export async function GET(
       );
     }
 
+    // Will contents are sensitive, so every read is audited
+    await recordAudit({
+      userId: result.session.userId,
+      action: 'view',
+      resource: 'will',
+      resourceId: willId,
+      firmId: await getMatterFirmId(will.matterId),
+      details: { includeVersions, includeDocuments },
+      sensitive: true,
+    });
+
     let response: any = { will };
 
     // Include documents if requested
@@ -156,6 +167,7 @@ export async function PUT(
       beneficiaries,
       guardians,
       executors,
+      trusts,
       specialInstructions,
       status,
       createNewVersion = false,
@@ -170,6 +182,7 @@ export async function PUT(
       ...(beneficiaries && { beneficiaries }),
       ...(guardians && { guardians }),
       ...(executors && { executors }),
+      ...(trusts && { trusts }),
       ...(specialInstructions !== undefined && { specialInstructions }),
       ...(status && { status }),
     };
@@ -185,14 +198,16 @@ export async function PUT(
     }
 
     // Create audit log entry
-    await db.insert(auditLogs).values({
-      id: nanoid(),
-      entityType: 'will',
-      entityId: willId,
-      action: createNewVersion ? 'version_created' : 'updated',
+    await recordAudit({
       userId: result.session.userId,
-      changes: updateData,
-      timestamp: new Date(),
+      action: createNewVersion ? 'create' : 'update',
+      resource: 'will',
+      resourceId: updatedWill.id,
+      firmId: await getMatterFirmId(existingWill.matterId),
+      before: createNewVersion ? null : toWillAuditRecord(existingWill),
+      after: toWillAuditRecord(updatedWill),
+      ...(createNewVersion && { details: { parentWillId: willId } }),
+      sensitive: true,
     });
 
     // Get validation for the updated will
@@ -283,14 +298,16 @@ export async function DELETE(
       });
 
       // Create audit log entry
-      await db.insert(auditLogs).values({
-        id: nanoid(),
-        entityType: 'will',
-        entityId: willId,
-        action: 'hard_deleted',
+      await recordAudit({
         userId: result.session.userId,
-        changes: { reason: 'hard_delete_requested' },
-        timestamp: new Date(),
+        action: 'delete',
+        resource: 'will',
+        resourceId: willId,
+        firmId: await getMatterFirmId(existingWill.matterId),
+        before: toWillAuditRecord(existingWill),
+        after: null,
+        details: { hardDelete: true },
+        sensitive: true,
       });
 
       return NextResponse.json({
@@ -305,14 +322,16 @@ export async function DELETE(
       });
 
       // Create audit log entry
-      await db.insert(auditLogs).values({
-        id: nanoid(),
-        entityType: 'will',
-        entityId: willId,
-        action: 'archived',
+      await recordAudit({
         userId: result.session.userId,
-        changes: { status: 'archived' },
-        timestamp: new Date(),
+        action: 'delete',
+        resource: 'will',
+        resourceId: willId,
+        firmId: await getMatterFirmId(existingWill.matterId),
+        before: toWillAuditRecord(existingWill),
+        after: toWillAuditRecord(archivedWill),
+        details: { hardDelete: false },
+        sensitive: true,
       });
 
       return NextResponse.json({
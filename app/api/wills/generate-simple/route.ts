@@ -15,7 +15,6 @@ import {
 } from '@/lib/ai-will-generator';
 import { 
   getWillTemplate,
-  generateDIFCContent,
   validateDIFCCompliance,
   validateWillCompleteness,
   type PersonalInfo,
@@ -24,6 +23,10 @@ import {
   type Guardian,
   type Executor
 } from '@/lib/will-engine';
+import { assembleWillClauses } from '@/lib/will-clauses';
+import { getActiveComplianceRules } from '@/lib/compliance-engine';
+import { mapWizardBusiness, mapWizardTrusts, type WillGenerationRequest } from '@/lib/will-generation-job';
+import { traceAssembledClauses, traceGeneratedWill, verifyWillTraceability } from '@/lib/will-verifier';
 import { nanoid } from 'nanoid';
 
 // Request schema for will generation
@@ -43,6 +46,8 @@ interface GenerateWillRequest {
       value: number;
       location: string;
       specificInstructions?: string;
+      business?: WillGenerationRequest['willData']['assets'][number]['business'];
+      digital?: WillGenerationRequest['willData']['assets'][number]['digital'];
     }>;
     beneficiaries: Array<{
       id: string;
@@ -69,6 +74,7 @@ interface GenerateWillRequest {
       phone: string;
       alternateExecutor?: boolean;
     }>;
+    trusts?: WillGenerationRequest['willData']['trusts'];
     specialInstructions?: string;
     funeralArrangements?: string;
     willType: 'simple' | 'complex' | 'business_succession' | 'digital_assets';
@@ -167,6 +173,8 @@ export async function POST(request: NextRequest) {
         details: {
           specificInstructions: asset.specificInstructions,
         },
+        business: mapWizardBusiness(asset.business),
+        digital: asset.digital,
       }));
 
       const beneficiaries: Beneficiary[] = willData.beneficiaries.map(ben => ({
@@ -203,9 +211,11 @@ export async function POST(request: NextRequest) {
         isPrimary: !guard.alternateGuardian,
       }));
 
+      const trusts = mapWizardTrusts(willData.trusts);
+
       // Generate DIFC template content first
       const template = getWillTemplate(willData.willType);
-      const difcContent = generateDIFCContent({
+      const assembledWill = assembleWillClauses({
         matterId: '', // Not needed for simple generation
         testatorId: userId,
         willType: willData.willType,
@@ -215,18 +225,21 @@ export async function POST(request: NextRequest) {
         beneficiaries,
         guardians,
         executors,
+        trusts,
         specialInstructions: willData.specialInstructions,
-      }, template);
+      }, template, { testatorName: willData.testatorName });
+      const difcContent = assembledWill.content;
       
-      // Validate DIFC compliance
+      // Validate DIFC compliance against the rules currently in force
       const difcValidation = validateDIFCCompliance({
         personalInfo,
         assets,
         beneficiaries,
         executors,
         guardians,
+        willType: willData.willType,
         specialInstructions: willData.specialInstructions,
-      });
+      }, await getActiveComplianceRules());
 
       // Prepare context for AI generation
       const generationContext: WillGenerationContext = {
@@ -235,6 +248,7 @@ export async function POST(request: NextRequest) {
         beneficiaries,
         executors,
         guardians,
+        trusts,
         specialInstructions: willData.specialInstructions,
         willType: willData.willType,
       };
@@ -249,25 +263,30 @@ export async function POST(request: NextRequest) {
       // Generate AI-enhanced will
       console.log('Starting AI will generation...');
       let generatedWill;
+      let usedTemplateFallback = false;
       try {
         generatedWill = await generateDIFCWill(generationContext, aiOptions);
         console.log('AI will generation completed successfully');
       } catch (aiError) {
         console.error('AI generation failed, using template fallback:', aiError);
         // Fall back to template-only generation if AI fails
+        usedTemplateFallback = true;
         generatedWill = {
           title: `Last Will and Testament of ${willData.testatorName}`,
           preamble: difcContent,
           revocation: 'I hereby revoke all former wills and testamentary dispositions made by me.',
           beneficiaryProvisions: willData.beneficiaries.map(ben => ({
+            beneficiaryId: ben.id,
             beneficiaryName: ben.name,
             provision: `I give to ${ben.name} (${ben.relationship}) ${ben.percentage}% of my estate.`,
             percentage: ben.percentage,
           })),
           executorProvisions: willData.executors.length > 0 ? 
             `I appoint ${willData.executors[0].name} as the executor of this will.` : '',
+          executorIds: willData.executors.slice(0, 1).map(exec => exec.id),
           guardianProvisions: willData.guardians.length > 0 ? 
             `I appoint ${willData.guardians[0].name} as guardian for any minor children.` : '',
+          guardianIds: willData.guardians.slice(0, 1).map(guard => guard.id),
           residuaryClause: 'I give the rest of my estate to my beneficiaries in the proportions specified above.',
           witnessClause: 'This will is witnessed by two independent witnesses as required by DIFC law.',
           signature: `Signed by ${willData.testatorName} on [DATE]`,
@@ -279,6 +298,15 @@ export async function POST(request: NextRequest) {
         };
       }
 
+      // Which record each clause was drafted from, checked against the wizard data
+      const traceability = verifyWillTraceability(
+        { testatorName: willData.testatorName, assets, beneficiaries, executors, guardians, trusts },
+        [
+          ...traceAssembledClauses(assembledWill.clauses),
+          ...(usedTemplateFallback ? [] : traceGeneratedWill(generatedWill)),
+        ]
+      );
+
       // Combine template content with AI enhancements
       const finalWillContent = {
         ...generatedWill,
@@ -348,6 +376,7 @@ export async function POST(request: NextRequest) {
           beneficiaries,
           executors,
           guardians,
+          trusts,
           specialInstructions: willData.specialInstructions,
         },
         template
@@ -363,6 +392,7 @@ export async function POST(request: NextRequest) {
         complianceCheck,
         willSummary,
         difcValidation,
+        traceability,
         metadata: {
           generatedAt: new Date().toISOString(),
           language: willData.language,
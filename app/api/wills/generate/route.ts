@@ -1,96 +1,24 @@
 /**
  * Will Generation API Endpoint
- * Handles AI-powered DIFC-compliant will generation
+ * Queues AI-powered DIFC-compliant will generation and reports per-step job progress
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { auth } from '@/lib/auth';
 import { headers } from 'next/headers';
 import { getDevAuth, isDevMode } from '@/lib/dev-auth';
-import { 
-  generateDIFCWill, 
-  generateLegalAnalysis, 
-  generateComplianceChecklist,
-  generateWillSummary,
-  type WillGenerationContext,
-  type AIGenerationOptions 
-} from '@/lib/ai-will-generator';
-import { 
-  createWill, 
-  updateWill, 
-  getWillById,
-  validateWillCompleteness,
-  getWillTemplate,
-  generateDIFCContent,
-  validateDIFCCompliance,
-  type CreateWillData,
-  type PersonalInfo,
-  type Asset,
-  type Beneficiary,
-  type Guardian,
-  type Executor
-} from '@/lib/will-engine';
-import { db } from '@/db/drizzle';
-import { willDocuments, aiJobs } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
-import { nanoid } from 'nanoid';
-
-// Request schema for will generation
-interface GenerateWillRequest {
-  willData: {
-    testatorName: string;
-    emiratesId: string;
-    nationality: string;
-    residenceAddress: string;
-    dateOfBirth: string;
-    maritalStatus: 'single' | 'married' | 'divorced' | 'widowed';
-    spouseName?: string;
-    assets: Array<{
-      id: string;
-      type: 'real_estate' | 'bank_account' | 'investment' | 'personal_property' | 'business' | 'digital';
-      description: string;
-      value: number;
-      location: string;
-      specificInstructions?: string;
-    }>;
-    beneficiaries: Array<{
-      id: string;
-      name: string;
-      relationship: string;
-      percentage: number;
-      contingent: boolean;
-      specificAssets?: string[];
-      conditions?: string;
-    }>;
-    guardians: Array<{
-      id: string;
-      name: string;
-      relationship: string;
-      address: string;
-      phone: string;
-      alternateGuardian?: boolean;
-    }>;
-    executors: Array<{
-      id: string;
-      name: string;
-      relationship: string;
-      address: string;
-      phone: string;
-      alternateExecutor?: boolean;
-    }>;
-    specialInstructions?: string;
-    funeralArrangements?: string;
-    willType: 'simple' | 'complex' | 'business_succession' | 'digital_assets';
-    language: 'en' | 'ar';
-  };
-  matterId?: string;
-  generateOptions?: {
-    includeLegalAnalysis?: boolean;
-    includeComplianceCheck?: boolean;
-    includeSummary?: boolean;
-    formalityLevel?: 'standard' | 'formal' | 'very_formal';
-  };
-}
+import { createWill } from '@/lib/will-engine';
+import {
+  cancelAiJob,
+  enqueueAiJob,
+  getAiJob,
+  getAiJobProgress,
+  runAiJobWorker,
+} from '@/lib/ai-jobs';
+import {
+  buildCreateWillData,
+  type WillGenerationRequest,
+} from '@/lib/will-generation-job';
 
 export async function POST(request: NextRequest) {
   try {
@@ -122,7 +50,7 @@ export async function POST(request: NextRequest) {
       console.log('User authenticated:', userId);
     }
 
-    let body: GenerateWillRequest;
+    let body: WillGenerationRequest;
     try {
       body = await request.json();
       console.log('Request body parsed successfully');
@@ -149,347 +77,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // For now, skip database operations if no matterId is provided
-    // This allows the API to work for will generation without requiring a matter
-    if (!matterId) {
-      console.log('No matterId provided, skipping database operations');
-    }
-
-    // Create AI job record for tracking (let database generate UUID)
-    console.log('Creating AI job record...');
-    
-    let aiJob;
-    try {
-      [aiJob] = await db.insert(aiJobs).values({
-        // Remove manual ID - let database generate UUID
-        userId,
-        jobType: 'will_generation',
-        status: 'in_progress',
-        inputData: willData,
-        parameters: generateOptions,
-      }).returning();
-      
-      const jobId = aiJob.id;
-      console.log('AI job created successfully with ID:', jobId);
-    } catch (dbError) {
-      console.error('Failed to create AI job:', dbError);
-      return NextResponse.json(
-        { error: 'Database error: Failed to create job record' },
-        { status: 500 }
-      );
+    // Create the will up front so a retried job never creates it twice
+    let willId: string | undefined;
+    if (matterId) {
+      console.log('Creating will in database with matterId:', matterId);
+      const createdWill = await createWill(buildCreateWillData(willData, userId, matterId));
+      willId = createdWill.id;
+      console.log('Will created successfully with ID:', willId);
+    } else {
+      console.log('No matterId provided, generating template-only will');
     }
 
-    try {
-      console.log('Starting will generation for user:', userId);
-      console.log('Will data received:', { 
-        testatorName: willData.testatorName, 
-        emiratesId: willData.emiratesId,
-        willType: willData.willType 
-      });
-
-      // Transform UI data to will engine format
-      const personalInfo: PersonalInfo = {
-        emiratesId: willData.emiratesId,
-        passportNumber: '', // Not captured in UI yet
-        nationality: willData.nationality,
-        visaStatus: 'residence', // Default, should be captured in UI
-        maritalStatus: willData.maritalStatus,
-        address: {
-          street: willData.residenceAddress,
-          city: '', // Should be parsed from address
-          emirate: '', // Should be captured separately
-          poBox: '',
-          country: 'UAE',
-        },
-        emergencyContact: {
-          name: willData.spouseName || '',
-          relationship: 'spouse',
-          phone: '',
-          email: '',
-        },
-      };
-
-      const assets: Asset[] = willData.assets.map(asset => ({
-        id: asset.id,
-        type: asset.type === 'real_estate' ? 'property' : 
-              asset.type === 'personal_property' ? 'property' : asset.type,
-        name: asset.description,
-        description: asset.description,
-        estimatedValue: asset.value,
-        currency: 'AED',
-        jurisdiction: asset.location,
-        details: {
-          specificInstructions: asset.specificInstructions,
-        },
-      }));
-
-      const beneficiaries: Beneficiary[] = willData.beneficiaries.map(ben => ({
-        id: ben.id,
-        type: 'individual',
-        fullName: ben.name,
-        relationship: ben.relationship,
-        inheritancePercentage: ben.percentage,
-        specificAssets: ben.specificAssets,
-        conditions: ben.conditions ? [ben.conditions] : [],
-        isContingent: ben.contingent,
-      }));
-
-      const executors: Executor[] = willData.executors.map(exec => ({
-        id: exec.id,
-        fullName: exec.name,
-        relationship: exec.relationship,
-        contactInfo: {
-          address: exec.address,
-          phone: exec.phone,
-        },
-        isPrimary: !exec.alternateExecutor,
-        powers: ['full_authority'],
-      }));
-
-      const guardians: Guardian[] = willData.guardians.map(guard => ({
-        id: guard.id,
-        fullName: guard.name,
-        relationship: guard.relationship,
-        contactInfo: {
-          address: guard.address,
-          phone: guard.phone,
-        },
-        isPrimary: !guard.alternateGuardian,
-      }));
-
-      // Prepare will data structure
-      const createWillData: CreateWillData = {
-        matterId: matterId || '', // Use empty string if no matterId
-        testatorId: userId,
-        willType: willData.willType,
-        language: willData.language,
-        personalInfo,
-        assets,
-        beneficiaries,
-        guardians,
-        executors,
-        specialInstructions: willData.specialInstructions,
-      };
-
-      // Create will in database if matterId provided
-      let willId: string | undefined;
-      if (matterId) {
-        console.log('Creating will in database with matterId:', matterId);
-        const createdWill = await createWill(createWillData);
-        willId = createdWill.id;
-        console.log('Will created successfully with ID:', willId);
-      } else {
-        console.log('Skipping will creation - no matterId provided');
-      }
-
-      // Prepare context for AI generation
-      const generationContext: WillGenerationContext = {
-        personalInfo,
-        assets,
-        beneficiaries,
-        executors,
-        guardians,
-        specialInstructions: willData.specialInstructions,
-        willType: willData.willType,
-      };
-
-      const aiOptions: AIGenerationOptions = {
-        language: willData.language,
-        includeTechnicalTerms: true,
-        formalityLevel: generateOptions.formalityLevel || 'formal',
-        includeExplanations: false,
-      };
+    const job = await enqueueAiJob({
+      userId,
+      willId,
+      jobType: 'will_generation',
+      inputData: { willData, matterId },
+      parameters: generateOptions,
+    });
 
-      // Generate DIFC template content first
-      const template = getWillTemplate(willData.willType);
-      const difcContent = generateDIFCContent(createWillData, template);
-      
-      // Validate DIFC compliance
-      const difcValidation = validateDIFCCompliance({
-        personalInfo,
-        assets,
-        beneficiaries,
-        executors,
-        guardians,
-        specialInstructions: willData.specialInstructions,
-      });
+    console.log('AI job queued with ID:', job.id);
 
-      // Generate AI-enhanced will using both template and AI
-      console.log('Starting AI will generation...');
-      let generatedWill;
+    // Start on the job once the response is sent; the cron worker picks it up if this run does not
+    after(async () => {
       try {
-        generatedWill = await generateDIFCWill(generationContext, aiOptions);
-        console.log('AI will generation completed successfully');
-      } catch (aiError) {
-        console.error('AI generation failed:', aiError);
-        // Fall back to template-only generation if AI fails
-        generatedWill = {
-          title: `Last Will and Testament of ${willData.testatorName}`,
-          preamble: difcContent,
-          beneficiaryProvisions: [],
-          executorProvisions: '',
-          residuaryClause: '',
-          witnessClause: '',
-          signature: '',
-          difcCompliance: {
-            registrationRequirement: 'DIFC registration required',
-            governingLaw: 'DIFC Law',
-            jurisdiction: 'DIFC Courts',
-          },
-        };
+        await runAiJobWorker({ maxJobs: 1 });
+      } catch (error) {
+        console.error('Inline AI worker error:', error);
       }
+    });
 
-      // Combine template content with AI enhancements
-      const finalWillContent = {
-        ...generatedWill,
-        templateContent: difcContent,
-        difcCompliance: difcValidation,
-      };
-
-      // Generate additional content if requested
-      let legalAnalysis;
-      let complianceCheck;
-      let willSummary;
-
-      if (generateOptions.includeLegalAnalysis) {
-        try {
-          legalAnalysis = await generateLegalAnalysis(
-            difcContent,
-            assets
-          );
-        } catch (error) {
-          console.error('Legal analysis generation failed:', error);
-          legalAnalysis = null;
-        }
-      }
-
-      if (generateOptions.includeComplianceCheck) {
-        try {
-          complianceCheck = await generateComplianceChecklist(
-            difcContent
-          );
-        } catch (error) {
-          console.error('Compliance check generation failed:', error);
-          complianceCheck = null;
-        }
-      }
-
-      if (generateOptions.includeSummary) {
-        try {
-          willSummary = await generateWillSummary(
-            difcContent
-          );
-        } catch (error) {
-          console.error('Will summary generation failed:', error);
-          willSummary = null;
-        }
-      }
-
-      // Validate will completeness
-      const validation = validateWillCompleteness(
-        {
-          personalInfo,
-          assets,
-          beneficiaries,
-          executors,
-          guardians,
-          specialInstructions: willData.specialInstructions,
-        },
-        template
-      );
-
-      // Store generated document
-      let documentId: string | undefined;
-      if (willId && matterId) {
-        const [document] = await db.insert(willDocuments).values({
-          willId,
-          documentType: 'generated_will',
-          title: `${willData.willType.charAt(0).toUpperCase() + willData.willType.slice(1)} Will - ${willData.testatorName}`,
-          content: JSON.stringify(finalWillContent),
-          metadata: {
-            legalAnalysis,
-            complianceCheck,
-            willSummary,
-            validation,
-            difcValidation,
-            generatedBy: 'ai',
-            jobId: aiJob.id,
-          },
-          version: 1,
-          status: 'generated',
-        }).returning();
-
-        documentId = document.id;
-
-        // Update will status
-        if (willId) {
-          await updateWill(willId, {
-            status: 'under_review',
-            difcCompliant: difcValidation.isCompliant,
-          });
-        }
-      }
-
-      // Update AI job status
-      await db.update(aiJobs)
-        .set({
-          status: 'completed',
-          outputData: {
-            finalWillContent,
-            legalAnalysis,
-            complianceCheck,
-            willSummary,
-            validation,
-            difcValidation,
-          },
-          completedAt: new Date(),
-        })
-        .where(eq(aiJobs.id, aiJob.id));
-
-      // Return comprehensive response
-      return NextResponse.json({
-        success: true,
-        jobId: aiJob.id,
-        willId: willId || null,
-        documentId: documentId || null,
-        generatedWill: finalWillContent,
-        validation,
-        legalAnalysis,
-        complianceCheck,
-        willSummary,
-        difcValidation,
-        metadata: {
-          generatedAt: new Date().toISOString(),
-          language: willData.language,
-          willType: willData.willType,
-          difcCompliant: difcValidation.isCompliant,
-          completeness: validation?.completeness || 0,
-          complianceScore: difcValidation.score,
-          templateOnly: !matterId, // Indicate if this was template-only generation
-        },
-      });
-
-    } catch (generationError) {
-      console.error('Will generation error:', generationError);
-
-      // Update AI job status to failed
-      await db.update(aiJobs)
-        .set({
-          status: 'failed',
-          errorMessage: generationError instanceof Error ? generationError.message : 'Unknown error',
-          completedAt: new Date(),
-        })
-        .where(eq(aiJobs.id, aiJob.id));
-
-      return NextResponse.json(
-        { 
-          error: 'Failed to generate will',
-          details: generationError instanceof Error ? generationError.message : 'Unknown error',
-          jobId: aiJob.id 
-        },
-        { status: 500 }
-      );
-    }
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      willId: willId || null,
+      status: job.status,
+      statusUrl: `/api/wills/generate?jobId=${job.id}`,
+    }, { status: 202 });
 
   } catch (error) {
     console.error('API error:', error);
@@ -537,10 +161,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get job status
-    const [job] = await db.select()
-      .from(aiJobs)
-      .where(and(eq(aiJobs.id, jobId), eq(aiJobs.userId, userId)))
-      .limit(1);
+    const job = await getAiJob(jobId, userId);
 
     if (!job) {
       return NextResponse.json(
@@ -549,14 +170,21 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const { percent, steps } = getAiJobProgress(job);
+
     return NextResponse.json({
       jobId: job.id,
       status: job.status,
-      progress: job.status === 'completed' ? 100 : 
-                job.status === 'failed' ? 0 : 50,
-      outputData: job.outputData,
+      progress: percent,
+      steps,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      nextAttemptAt: job.status === 'pending' && job.attempts > 0 ? job.runAfter : null,
+      cancelRequested: !!job.cancelRequestedAt,
+      outputData: job.status === 'completed' ? job.outputData : null,
       errorMessage: job.errorMessage,
       createdAt: job.createdAt,
+      startedAt: job.startedAt,
       completedAt: job.completedAt,
     });
 
@@ -567,4 +195,61 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// DELETE endpoint to cancel a queued or running generation
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get('jobId');
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Job ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Authenticate user (with development mode support)
+    let userId: string;
+    
+    if (isDevMode()) {
+      const devAuth = await getDevAuth();
+      userId = devAuth?.user.id || 'dev-user-001';
+    } else {
+      const result = await auth.api.getSession({
+        headers: await headers(),
+      });
+
+      if (!result?.session?.userId) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      
+      userId = result.session.userId;
+    }
+
+    const result = await cancelAiJob(jobId, userId);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId: result.data.id,
+      status: result.data.status,
+      message: result.data.status === 'cancelled'
+        ? 'Job cancelled'
+        : 'Cancellation requested; the job stops after its current step',
+    });
+
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
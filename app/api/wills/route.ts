@@ -11,6 +11,7 @@ import { db } from '@/db/drizzle';
 import { wills, matters, willDocuments } from '@/db/schema';
 import { eq, and, desc, asc, ilike, or } from 'drizzle-orm';
 import { validateWillCompleteness, getWillTemplate } from '@/lib/will-engine';
+import { recordAudit, toWillAuditRecord } from '@/lib/audit';
 
 // GET: List all wills for the authenticated user
 export async function GET(request: NextRequest) {
@@ -241,6 +242,17 @@ export async function POST(request: NextRequest) {
       version: 1,
     }).returning();
 
+    await recordAudit({
+      userId,
+      action: 'create',
+      resource: 'will',
+      resourceId: will.id,
+      firmId: matter.lawFirmId,
+      before: null,
+      after: toWillAuditRecord(will),
+      sensitive: true,
+    });
+
     const response: any = {
       success: true,
       will: {
@@ -22,6 +22,7 @@ import {
 } from "lucide-react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useState, useEffect } from "react";
+import { getStatusLabel, MATTER_STATUSES, MATTER_STATUS_DEFINITIONS, type MatterStatus } from "@/lib/matter-status";
 
 interface Matter {
   id: string;
@@ -29,7 +30,7 @@ interface Matter {
   title: string;
   clientName: string;
   matterType: 'simple_will' | 'complex_will' | 'business_succession' | 'trust_setup';
-  status: 'intake' | 'draft' | 'review' | 'client_review' | 'complete' | 'registered';
+  status: MatterStatus;
   priority: 'low' | 'normal' | 'high' | 'urgent';
   assignedLawyer: string;
   createdAt: string;
@@ -41,15 +42,6 @@ interface MattersViewProps {
   userId: string;
 }
 
-const statusColors = {
-  intake: 'bg-blue-100 text-blue-800',
-  draft: 'bg-yellow-100 text-yellow-800',
-  review: 'bg-purple-100 text-purple-800',
-  client_review: 'bg-orange-100 text-orange-800',
-  complete: 'bg-green-100 text-green-800',
-  registered: 'bg-green-100 text-green-800',
-};
-
 const priorityColors = {
   low: 'bg-gray-100 text-gray-800',
   normal: 'bg-blue-100 text-blue-800',
@@ -124,11 +116,12 @@ export function MattersView({ userId }: MattersViewProps) {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'complete':
+      case 'completed':
       case 'registered':
         return <CheckCircle className="h-4 w-4 text-green-600" />;
-      case 'review':
+      case 'lawyer_review':
       case 'client_review':
+      case 'difc_submitted':
         return <Clock className="h-4 w-4 text-orange-600" />;
       default:
         return <FolderOpen className="h-4 w-4 text-blue-600" />;
@@ -179,12 +172,11 @@ export function MattersView({ userId }: MattersViewProps) {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="intake">Intake</SelectItem>
-                <SelectItem value="draft">Draft</SelectItem>
-                <SelectItem value="review">Review</SelectItem>
-                <SelectItem value="client_review">Client Review</SelectItem>
-                <SelectItem value="complete">Complete</SelectItem>
-                <SelectItem value="registered">Registered</SelectItem>
+                {MATTER_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>
+                    {MATTER_STATUS_DEFINITIONS[status].label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             
@@ -272,8 +264,8 @@ export function MattersView({ userId }: MattersViewProps) {
                     </div>
                     
                     <div className="flex items-center gap-4">
-                      <Badge className={statusColors[matter.status]}>
-                        {matter.status.replace('_', ' ')}
+                      <Badge className={MATTER_STATUS_DEFINITIONS[matter.status]?.color}>
+                        {getStatusLabel(matter.status)}
                       </Badge>
                       <Badge variant="outline">
                         {matterTypeLabels[matter.matterType]}
@@ -39,9 +39,11 @@ interface AppointmentService {
   icon: React.ComponentType<any>;
 }
 
-interface TimeSlot {
-  time: string;
-  available: boolean;
+interface BookedAppointment {
+  id: string;
+  confirmationNumber: string;
+  status: string;
+  calendarUrl: string;
 }
 
 interface AppointmentBookingProps {
@@ -87,17 +89,6 @@ const services: AppointmentService[] = [
   },
 ];
 
-const timeSlots: TimeSlot[] = [
-  { time: '09:00', available: true },
-  { time: '10:00', available: true },
-  { time: '11:00', available: false },
-  { time: '12:00', available: true },
-  { time: '14:00', available: true },
-  { time: '15:00', available: true },
-  { time: '16:00', available: false },
-  { time: '17:00', available: true },
-];
-
 export function AppointmentBooking({ userId }: AppointmentBookingProps) {
   const [selectedService, setSelectedService] = useState<AppointmentService | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
@@ -105,6 +96,10 @@ export function AppointmentBooking({ userId }: AppointmentBookingProps) {
   const [currentWeek, setCurrentWeek] = useState<Date>(startOfWeek(new Date()));
   const [step, setStep] = useState<'service' | 'datetime' | 'details' | 'confirmation'>('service');
   const [loading, setLoading] = useState(false);
+  const [availableSlots, setAvailableSlots] = useState<string[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [bookedAppointment, setBookedAppointment] = useState<BookedAppointment | null>(null);
   const [bookingDetails, setBookingDetails] = useState({
     name: '',
     email: '',
@@ -125,6 +120,45 @@ export function AppointmentBooking({ userId }: AppointmentBookingProps) {
     }
   }, []);
 
+  // Load the lawyer's free slots whenever the service or date changes
+  useEffect(() => {
+    if (!selectedService || !selectedDate) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({
+      date: format(selectedDate, 'yyyy-MM-dd'),
+      serviceId: selectedService.id,
+    });
+
+    setSlotsLoading(true);
+    setError(null);
+    fetch(`/api/appointments?${params}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (cancelled) return;
+        if (response.ok) {
+          setAvailableSlots(data.availableSlots || []);
+        } else {
+          setAvailableSlots([]);
+          setError(data.error || 'Failed to load available times');
+        }
+      })
+      .catch((error) => {
+        console.error('Availability error:', error);
+        if (!cancelled) {
+          setAvailableSlots([]);
+          setError('Failed to load available times');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setSlotsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedService, selectedDate]);
+
   const getWeekDays = () => {
     const days = [];
     for (let i = 0; i < 7; i++) {
@@ -158,6 +192,7 @@ export function AppointmentBooking({ userId }: AppointmentBookingProps) {
     }
 
     setLoading(true);
+    setError(null);
     try {
       const response = await fetch('/api/appointments', {
         method: 'POST',
@@ -166,19 +201,27 @@ export function AppointmentBooking({ userId }: AppointmentBookingProps) {
         },
         body: JSON.stringify({
           serviceId: selectedService.id,
-          date: selectedDate.toISOString(),
+          date: format(selectedDate, 'yyyy-MM-dd'),
           time: selectedTime,
           ...bookingDetails,
         }),
       });
 
+      const data = await response.json();
       if (response.ok) {
+        setBookedAppointment(data.appointment);
         setStep('confirmation');
+      } else if (response.status === 409) {
+        // The slot was taken in the meantime; pick another
+        setSelectedTime('');
+        setError(data.error || 'That time is no longer available');
+        setStep('datetime');
       } else {
-        console.error('Booking failed');
+        setError(data.error || 'Booking failed');
       }
     } catch (error) {
       console.error('Booking error:', error);
+      setError('Booking failed');
     } finally {
       setLoading(false);
     }
@@ -314,7 +357,11 @@ export function AppointmentBooking({ userId }: AppointmentBookingProps) {
                   className={`p-3 h-auto flex flex-col ${
                     isBefore(day, new Date()) ? 'opacity-50 cursor-not-allowed' : ''
                   }`}
-                  onClick={() => !isBefore(day, new Date()) && setSelectedDate(day)}
+                  onClick={() => {
+                    if (isBefore(day, new Date())) return;
+                    setSelectedDate(day);
+                    setSelectedTime('');
+                  }}
                   disabled={isBefore(day, new Date())}
                 >
                   <span className="text-xs">{format(day, 'EEE')}</span>
@@ -327,19 +374,29 @@ export function AppointmentBooking({ userId }: AppointmentBookingProps) {
             {selectedDate && (
               <div>
                 <h4 className="font-medium mb-3">Available Times</h4>
-                <div className="grid grid-cols-4 gap-2">
-                  {timeSlots.map((slot) => (
-                    <Button
-                      key={slot.time}
-                      variant={selectedTime === slot.time ? "default" : "outline"}
-                      className={`${!slot.available ? 'opacity-50 cursor-not-allowed' : ''}`}
-                      onClick={() => slot.available && setSelectedTime(slot.time)}
-                      disabled={!slot.available}
-                    >
-                      {slot.time}
-                    </Button>
-                  ))}
-                </div>
+                {error && (
+                  <div className="flex items-center gap-2 text-sm text-red-600 mb-3">
+                    <AlertCircle className="h-4 w-4" />
+                    {error}
+                  </div>
+                )}
+                {slotsLoading ? (
+                  <p className="text-sm text-muted-foreground">Checking availability...</p>
+                ) : availableSlots.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No free times on this day. Please choose another date.</p>
+                ) : (
+                  <div className="grid grid-cols-4 gap-2">
+                    {availableSlots.map((time) => (
+                      <Button
+                        key={time}
+                        variant={selectedTime === time ? "default" : "outline"}
+                        onClick={() => setSelectedTime(time)}
+                      >
+                        {time}
+                      </Button>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
 
@@ -441,6 +498,13 @@ export function AppointmentBooking({ userId }: AppointmentBookingProps) {
               />
             </div>
 
+            {error && (
+              <div className="flex items-center gap-2 text-sm text-red-600">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+
             <div className="flex gap-3 pt-4">
               <Button variant="outline" onClick={() => setStep('datetime')}>
                 <ChevronLeft className="h-4 w-4 mr-2" />
@@ -467,15 +531,21 @@ export function AppointmentBooking({ userId }: AppointmentBookingProps) {
           <CardContent className="p-6 text-center">
             <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
             <h2 className="text-2xl font-semibold text-green-800 mb-2">
-              Appointment Confirmed!
+              {bookedAppointment?.status === 'confirmed' ? 'Appointment Confirmed!' : 'Appointment Requested!'}
             </h2>
             <p className="text-green-700 mb-6">
-              Your appointment has been successfully scheduled. You will receive a confirmation email shortly.
+              Your appointment has been booked. You will receive a confirmation once your lawyer accepts it.
             </p>
             
             <div className="bg-white rounded-lg p-4 text-left max-w-md mx-auto">
               <h3 className="font-semibold mb-3">Appointment Details</h3>
               <div className="space-y-2 text-sm">
+                {bookedAppointment && (
+                  <div className="flex justify-between">
+                    <span>Reference:</span>
+                    <span className="font-medium">{bookedAppointment.confirmationNumber}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span>Service:</span>
                   <span className="font-medium">{selectedService?.name}</span>
@@ -503,6 +573,14 @@ export function AppointmentBooking({ userId }: AppointmentBookingProps) {
               <Button variant="outline" onClick={() => window.close()}>
                 Close
               </Button>
+              {bookedAppointment && (
+                <Button variant="outline" asChild>
+                  <a href={bookedAppointment.calendarUrl}>
+                    <Calendar className="h-4 w-4 mr-2" />
+                    Add to Calendar
+                  </a>
+                </Button>
+              )}
               <Button onClick={() => window.location.href = '/dashboard'}>
                 Back to Dashboard
               </Button>
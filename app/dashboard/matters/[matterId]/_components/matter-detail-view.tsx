@@ -36,6 +36,9 @@ import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
+import { getStatusLabel, MATTER_STATUS_DEFINITIONS, type MatterStatus } from "@/lib/matter-status";
+import { MatterTasks } from "./matter-tasks";
+import { MatterIntakeLinks } from "./matter-intake-links";
 
 interface Matter {
   id: string;
@@ -46,7 +49,7 @@ interface Matter {
   clientEmail: string;
   clientId: string;
   matterType: 'simple_will' | 'complex_will' | 'business_succession' | 'trust_setup';
-  status: 'intake' | 'draft' | 'review' | 'client_review' | 'complete' | 'registered';
+  status: MatterStatus;
   priority: 'low' | 'normal' | 'high' | 'urgent';
   assignedLawyer: string;
   assignedLawyerId: string;
@@ -59,20 +62,18 @@ interface Matter {
   progress: number;
 }
 
+interface StatusTransition {
+  to: MatterStatus;
+  label: string;
+  allowed: boolean;
+  reasons: string[];
+}
+
 interface MatterDetailViewProps {
   matterId: string;
   userId: string;
 }
 
-const statusColors = {
-  intake: 'bg-blue-100 text-blue-800',
-  draft: 'bg-yellow-100 text-yellow-800',
-  review: 'bg-purple-100 text-purple-800',
-  client_review: 'bg-orange-100 text-orange-800',
-  complete: 'bg-green-100 text-green-800',
-  registered: 'bg-green-100 text-green-800',
-};
-
 const priorityColors = {
   low: 'bg-gray-100 text-gray-800',
   normal: 'bg-blue-100 text-blue-800',
@@ -87,15 +88,6 @@ const matterTypeLabels = {
   trust_setup: 'Trust Setup',
 };
 
-const statusFlow = [
-  'intake',
-  'draft', 
-  'review',
-  'client_review',
-  'complete',
-  'registered'
-];
-
 export function MatterDetailView({ matterId, userId }: MatterDetailViewProps) {
   const router = useRouter();
   const [matter, setMatter] = useState<Matter | null>(null);
@@ -104,11 +96,16 @@ export function MatterDetailView({ matterId, userId }: MatterDetailViewProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setSaving] = useState(false);
   const [editedMatter, setEditedMatter] = useState<Partial<Matter>>({});
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
 
   useEffect(() => {
     fetchMatter();
   }, [matterId]);
 
+  useEffect(() => {
+    if (matter?.status) fetchTransitions();
+  }, [matter?.status]);
+
   const fetchMatter = async () => {
     try {
       setLoading(true);
@@ -129,6 +126,19 @@ export function MatterDetailView({ matterId, userId }: MatterDetailViewProps) {
     }
   };
 
+  const fetchTransitions = async () => {
+    try {
+      const response = await fetch(`/api/matters/${matterId}/status`);
+      const data = await response.json();
+
+      if (data.success) {
+        setTransitions(data.transitions);
+      }
+    } catch (error) {
+      console.error('Error fetching status transitions:', error);
+    }
+  };
+
   const handleSave = async () => {
     if (!matter) return;
 
@@ -165,8 +175,8 @@ export function MatterDetailView({ matterId, userId }: MatterDetailViewProps) {
     setError(null);
 
     try {
-      const response = await fetch(`/api/matters/${matterId}`, {
-        method: 'PUT',
+      const response = await fetch(`/api/matters/${matterId}/status`, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
@@ -178,7 +188,11 @@ export function MatterDetailView({ matterId, userId }: MatterDetailViewProps) {
       if (result.success) {
         await fetchMatter(); // Refresh data
       } else {
-        setError(result.error || 'Failed to update status');
+        setError(
+          Array.isArray(result.details) && result.details.length > 0
+            ? `${result.error}: ${result.details.join('; ')}`
+            : result.error || 'Failed to update status'
+        );
       }
     } catch (error) {
       console.error('Error updating status:', error);
@@ -216,24 +230,18 @@ export function MatterDetailView({ matterId, userId }: MatterDetailViewProps) {
     }
   };
 
-  const getNextStatus = (currentStatus: string) => {
-    const currentIndex = statusFlow.indexOf(currentStatus);
-    return currentIndex < statusFlow.length - 1 ? statusFlow[currentIndex + 1] : null;
-  };
-
-  const getPreviousStatus = (currentStatus: string) => {
-    const currentIndex = statusFlow.indexOf(currentStatus);
-    return currentIndex > 0 ? statusFlow[currentIndex - 1] : null;
-  };
-
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'complete':
+      case 'completed':
       case 'registered':
         return <CheckCircle className="h-4 w-4 text-green-600" />;
-      case 'review':
+      case 'lawyer_review':
       case 'client_review':
+      case 'difc_submitted':
         return <Clock className="h-4 w-4 text-orange-600" />;
+      case 'on_hold':
+      case 'cancelled':
+        return <AlertTriangle className="h-4 w-4 text-gray-500" />;
       default:
         return <FileText className="h-4 w-4 text-blue-600" />;
     }
@@ -359,8 +367,8 @@ export function MatterDetailView({ matterId, userId }: MatterDetailViewProps) {
 
             {/* Status Badge */}
             <div className="flex items-center gap-4">
-              <Badge className={statusColors[matter.status]} variant="secondary">
-                {matter.status.replace('_', ' ')}
+              <Badge className={MATTER_STATUS_DEFINITIONS[matter.status]?.color} variant="secondary">
+                {getStatusLabel(matter.status)}
               </Badge>
               <Badge variant="outline">
                 {matterTypeLabels[matter.matterType]}
@@ -368,32 +376,34 @@ export function MatterDetailView({ matterId, userId }: MatterDetailViewProps) {
             </div>
 
             {/* Status Action Buttons */}
-            <div className="flex gap-2">
-              {getPreviousStatus(matter.status) && (
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => handleStatusChange(getPreviousStatus(matter.status)!)}
-                  disabled={isSaving}
-                >
-                  ← {getPreviousStatus(matter.status)?.replace('_', ' ')}
-                </Button>
-              )}
-              {getNextStatus(matter.status) && (
-                <Button 
-                  size="sm"
-                  onClick={() => handleStatusChange(getNextStatus(matter.status)!)}
-                  disabled={isSaving}
-                >
-                  {isSaving ? (
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  ) : (
-                    <ChevronRight className="h-4 w-4 mr-2" />
-                  )}
-                  {getNextStatus(matter.status)?.replace('_', ' ')}
-                </Button>
-              )}
-            </div>
+            {transitions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {transitions.map((transition) => (
+                  <Button 
+                    key={transition.to}
+                    variant={transition.to === 'cancelled' || transition.to === 'on_hold' ? 'outline' : 'default'}
+                    size="sm"
+                    onClick={() => handleStatusChange(transition.to)}
+                    disabled={isSaving || !transition.allowed}
+                    title={transition.reasons.join('\n') || undefined}
+                  >
+                    {isSaving ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 mr-2" />
+                    )}
+                    {transition.label}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {transitions.some(transition => !transition.allowed) && (
+              <ul className="text-xs text-muted-foreground list-disc list-inside">
+                {Array.from(new Set(transitions.flatMap(transition => transition.reasons))).map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -576,6 +586,12 @@ export function MatterDetailView({ matterId, userId }: MatterDetailViewProps) {
         </Card>
       </div>
 
+      {/* Tasks */}
+      <MatterTasks matterId={matter.id} />
+
+      {/* Client Intake */}
+      <MatterIntakeLinks matterId={matter.id} />
+
       {/* Documents Section - Placeholder for future implementation */}
       <Card>
         <CardHeader>
@@ -0,0 +1,232 @@
+/**
+ * Matter Intake Links Component
+ * Sends the client a questionnaire link and tracks whether they have completed it
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ClipboardList, Copy, Loader2, Send, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+interface IntakeLink {
+  id: string;
+  status: 'open' | 'submitted' | 'revoked' | 'expired';
+  recipientEmail: string;
+  currentStep: string | null;
+  documentCount: number;
+  expiresAt: string;
+  lastSavedAt: string | null;
+  submittedAt: string | null;
+  createdAt: string;
+}
+
+interface MatterIntakeLinksProps {
+  matterId: string;
+}
+
+const linkStatusColors = {
+  open: 'bg-blue-100 text-blue-800',
+  submitted: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-500',
+  expired: 'bg-orange-100 text-orange-800',
+};
+
+export function MatterIntakeLinks({ matterId }: MatterIntakeLinksProps) {
+  const [links, setLinks] = useState<IntakeLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState('7');
+  const [linkUrl, setLinkUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [matterId]);
+
+  const fetchLinks = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/matters/${matterId}/intake-links`);
+      const data = await response.json();
+
+      if (data.success) {
+        setLinks(data.intakeLinks);
+      } else {
+        setError(data.error || 'Failed to load intake links');
+      }
+    } catch (error) {
+      console.error('Error fetching intake links:', error);
+      setError('Failed to load intake links');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSend = async () => {
+    setSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/matters/${matterId}/intake-links`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          message: message.trim() || undefined,
+          expiresInDays: Number(expiresInDays),
+        }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setLinkUrl(result.url);
+        setMessage('');
+        await fetchLinks();
+      } else {
+        setError(result.error || 'Failed to create intake link');
+      }
+    } catch (error) {
+      console.error('Error creating intake link:', error);
+      setError('Failed to create intake link');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    setUpdatingId(linkId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/matters/${matterId}/intake-links/${linkId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status: 'revoked' }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setLinkUrl(null);
+        await fetchLinks();
+      } else {
+        setError(result.error || 'Failed to revoke intake link');
+      }
+    } catch (error) {
+      console.error('Error revoking intake link:', error);
+      setError('Failed to revoke intake link');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!linkUrl) return;
+    await navigator.clipboard.writeText(linkUrl);
+    toast.success('Link copied');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5" />
+          Client Intake Questionnaire
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {linkUrl && (
+          <div className="space-y-2 rounded-lg border border-green-200 bg-green-50 p-3">
+            <p className="text-sm font-medium text-green-800">
+              Send this link to your client. It will not be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input value={linkUrl} readOnly className="bg-white" />
+              <Button variant="outline" size="icon" onClick={handleCopy}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Optional note shown to the client at the top of the questionnaire"
+            rows={2}
+          />
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Expires after</span>
+            <Input
+              type="number"
+              min={1}
+              max={30}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              className="w-20"
+            />
+            <span className="text-sm text-muted-foreground">days</span>
+            <Button onClick={handleSend} disabled={sending} className="ml-auto">
+              {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              {links.some((link) => link.status === 'open') ? 'Send New Link' : 'Create Link'}
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="h-12 bg-gray-100 rounded animate-pulse"></div>
+        ) : links.length > 0 && (
+          <div className="space-y-2">
+            {links.map((link) => (
+              <div key={link.id} className="flex items-center justify-between gap-4 rounded-lg border p-3 text-sm">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge className={linkStatusColors[link.status]}>{link.status}</Badge>
+                    <span>{link.recipientEmail}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Sent {format(new Date(link.createdAt), 'dd MMM yyyy')}
+                    {link.submittedAt
+                      ? ` · Submitted ${format(new Date(link.submittedAt), 'dd MMM yyyy')}`
+                      : ` · Expires ${format(new Date(link.expiresAt), 'dd MMM yyyy')}`}
+                    {link.lastSavedAt && !link.submittedAt && ` · Last saved ${format(new Date(link.lastSavedAt), 'dd MMM, HH:mm')}`}
+                    {link.documentCount > 0 && ` · ${link.documentCount} ID document(s)`}
+                  </p>
+                </div>
+                {link.status === 'open' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(link.id)}
+                    disabled={updatingId === link.id}
+                  >
+                    {updatingId === link.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <XCircle className="h-4 w-4 mr-2" />}
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,257 @@
+/**
+ * Matter Tasks Component
+ * Checklist of matter tasks with dependency blocking and quick task creation
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ListChecks, Lock, Loader2, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface Task {
+  id: string;
+  title: string;
+  description?: string | null;
+  status: 'pending' | 'in_progress' | 'completed' | 'cancelled' | 'overdue';
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  dueDate?: string | null;
+  aiAssisted: boolean;
+  blocked: boolean;
+  blockedBy: Array<{ id: string; title: string; status: string }>;
+}
+
+interface MatterTasksProps {
+  matterId: string;
+}
+
+const taskStatusColors = {
+  pending: 'bg-gray-100 text-gray-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-500',
+  overdue: 'bg-red-100 text-red-800',
+};
+
+export function MatterTasks({ matterId }: MatterTasksProps) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [newTaskTitle, setNewTaskTitle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [matterId]);
+
+  const fetchTasks = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/matters/${matterId}/tasks`);
+      const data = await response.json();
+
+      if (data.success) {
+        setTasks(data.tasks);
+      } else {
+        setError(data.error || 'Failed to load tasks');
+      }
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+      setError('Failed to load tasks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateTask = async (taskId: string, updates: Record<string, unknown>) => {
+    setUpdatingId(taskId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/matters/${matterId}/tasks/${taskId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        await fetchTasks(); // Refresh blocked state of dependent tasks
+      } else {
+        setError(result.error || 'Failed to update task');
+      }
+    } catch (error) {
+      console.error('Error updating task:', error);
+      setError('Failed to update task');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newTaskTitle.trim()) return;
+
+    setUpdatingId('new');
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/matters/${matterId}/tasks`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title: newTaskTitle.trim() }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setNewTaskTitle('');
+        await fetchTasks();
+      } else {
+        setError(result.error || 'Failed to create task');
+      }
+    } catch (error) {
+      console.error('Error creating task:', error);
+      setError('Failed to create task');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (taskId: string) => {
+    if (!confirm('Delete this task?')) return;
+
+    setUpdatingId(taskId);
+
+    try {
+      const response = await fetch(`/api/matters/${matterId}/tasks/${taskId}`, {
+        method: 'DELETE',
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        await fetchTasks();
+      } else {
+        setError(result.error || 'Failed to delete task');
+      }
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      setError('Failed to delete task');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const completedCount = tasks.filter(task => task.status === 'completed').length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Tasks
+          </div>
+          {tasks.length > 0 && (
+            <Badge variant="outline">
+              {completedCount} of {tasks.length} complete
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {error && (
+            <div className="text-sm text-red-800 bg-red-50 border border-red-200 rounded-lg p-3">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : tasks.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <ListChecks className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p>No tasks yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {tasks.map((task) => (
+                <div
+                  key={task.id}
+                  className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg"
+                >
+                  <div className="flex items-start gap-3">
+                    <Checkbox
+                      className="mt-0.5"
+                      checked={task.status === 'completed'}
+                      disabled={updatingId === task.id || task.status === 'cancelled' || (task.blocked && task.status !== 'completed')}
+                      onCheckedChange={(checked) => updateTask(task.id, { status: checked ? 'completed' : 'pending' })}
+                    />
+                    <div>
+                      <div className={`font-medium ${task.status === 'completed' ? 'line-through text-gray-500' : ''}`}>
+                        {task.title}
+                      </div>
+                      <div className="text-sm text-muted-foreground flex flex-wrap items-center gap-2">
+                        {task.dueDate && <span>Due {format(new Date(task.dueDate), "PP")}</span>}
+                        {task.aiAssisted && <span>• AI assisted</span>}
+                        {task.blocked && (
+                          <span className="flex items-center gap-1 text-orange-700">
+                            <Lock className="h-3 w-3" />
+                            Waiting on {task.blockedBy.map(blocker => blocker.title).join(', ')}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge className={taskStatusColors[task.status]} variant="secondary">
+                      {task.status.replace('_', ' ')}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(task.id)}
+                      disabled={updatingId === task.id}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Input
+              value={newTaskTitle}
+              onChange={(e) => setNewTaskTitle(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="Add a task"
+            />
+            <Button onClick={handleCreate} disabled={updatingId === 'new' || !newTaskTitle.trim()}>
+              {updatingId === 'new' ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4 mr-2" />
+              )}
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
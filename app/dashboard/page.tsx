@@ -5,6 +5,7 @@ import { Suspense } from "react";
 import { LawFirmDashboard } from "./_components/law-firm-dashboard";
 import { OnboardingSuccessBanner } from "./_components/onboarding-success-banner";
 import { getDevAuth, isDevMode } from "@/lib/dev-auth";
+import { isPortalUser } from "@/lib/client-portal";
 
 export default async function Dashboard() {
   let userId: string;
@@ -28,6 +29,10 @@ export default async function Dashboard() {
     userId = result.session.userId;
   }
 
+  if (await isPortalUser(userId)) {
+    redirect("/portal");
+  }
+
   return (
     <section className="flex flex-col items-start justify-start p-6 w-full">
       <div className="w-full">
@@ -22,7 +22,8 @@ import {
   Plus,
   Trash2,
   Edit3,
-  MapPin
+  MapPin,
+  Lock
 } from "lucide-react";
 import { WillData } from "../will-creation-wizard";
 
@@ -39,8 +40,34 @@ interface Asset {
   value: number;
   location: string;
   specificInstructions?: string;
+  digital?: DigitalDetails;
 }
 
+type DigitalDetails = NonNullable<WillData['assets'][number]['digital']>;
+
+const digitalCategories: Array<{ value: DigitalDetails['category']; label: string }> = [
+  { value: 'exchange_account', label: 'Exchange Account' },
+  { value: 'self_custody_wallet', label: 'Self-Custody Wallet' },
+  { value: 'domain_name', label: 'Domain Name' },
+  { value: 'social_account', label: 'Social Media Account' },
+  { value: 'email_account', label: 'Email Account' },
+  { value: 'cloud_storage', label: 'Cloud Storage' },
+  { value: 'other', label: 'Other' },
+];
+
+const digitalDispositions: Array<{ value: DigitalDetails['disposition']; label: string }> = [
+  { value: 'transfer', label: 'Transfer to beneficiaries' },
+  { value: 'sell', label: 'Sell or liquidate' },
+  { value: 'memorialise', label: 'Memorialise' },
+  { value: 'close', label: 'Close or delete' },
+];
+
+const emptyDigitalDetails: DigitalDetails = {
+  category: 'exchange_account',
+  platform: '',
+  disposition: 'transfer',
+};
+
 const assetTypes = [
   { 
     value: 'real_estate', 
@@ -86,6 +113,91 @@ const assetTypes = [
   },
 ];
 
+// Platform details for a digital asset; access credentials are sealed separately and never entered here
+function DigitalDetailsFields({ details, onChange }: {
+  details: DigitalDetails;
+  onChange: (details: DigitalDetails) => void;
+}) {
+  const isWallet = details.category === 'self_custody_wallet';
+
+  return (
+    <div className="space-y-4 rounded-lg border border-dashed p-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Category *</Label>
+          <Select
+            value={details.category}
+            onValueChange={(value: DigitalDetails['category']) => onChange({ ...details, category: value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {digitalCategories.map(category => (
+                <SelectItem key={category.value} value={category.value}>
+                  {category.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Platform *</Label>
+          <Input
+            value={details.platform}
+            onChange={(e) => onChange({ ...details, platform: e.target.value })}
+            placeholder={isWallet ? 'e.g., Ledger, MetaMask' : 'e.g., Binance, GoDaddy, Instagram'}
+          />
+        </div>
+      </div>
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>{isWallet ? 'Public Address (Optional)' : 'Username or Account (Optional)'}</Label>
+          <Input
+            value={details.identifier || ''}
+            onChange={(e) => onChange({ ...details, identifier: e.target.value })}
+            placeholder={isWallet ? 'bc1q...' : 'e.g., @handle, example.ae'}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>What should happen to it? *</Label>
+          <Select
+            value={details.disposition}
+            onValueChange={(value: DigitalDetails['disposition']) => onChange({ ...details, disposition: value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {digitalDispositions
+                .filter(disposition => !isWallet || disposition.value !== 'memorialise')
+                .map(disposition => (
+                  <SelectItem key={disposition.value} value={disposition.value}>
+                    {disposition.label}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {isWallet && (
+        <div className="space-y-2">
+          <Label>Network *</Label>
+          <Input
+            value={details.network || ''}
+            onChange={(e) => onChange({ ...details, network: e.target.value })}
+            placeholder="e.g., Bitcoin, Ethereum"
+          />
+        </div>
+      )}
+      <p className="flex items-start gap-2 text-xs text-amber-700">
+        <Lock className="h-3 w-3 mt-0.5" />
+        Never enter passwords, private keys or recovery phrases. Your lawyer seals access instructions in a separate letter that is only released to your executor.
+      </p>
+    </div>
+  );
+}
+
 export function AssetsStep({ data, updateData, errors }: AssetsStepProps) {
   const [isAddingAsset, setIsAddingAsset] = useState(false);
   const [editingAsset, setEditingAsset] = useState<string | null>(null);
@@ -105,7 +217,8 @@ export function AssetsStep({ data, updateData, errors }: AssetsStepProps) {
         description: newAsset.description,
         value: newAsset.value,
         location: newAsset.location,
-        specificInstructions: newAsset.specificInstructions
+        specificInstructions: newAsset.specificInstructions,
+        digital: newAsset.type === 'digital' ? newAsset.digital || emptyDigitalDetails : undefined
       };
       
       updateData({ assets: [...data.assets, asset] });
@@ -269,6 +382,12 @@ export function AssetsStep({ data, updateData, errors }: AssetsStepProps) {
                             placeholder="Where the asset is located or held"
                           />
                         </div>
+                        {asset.type === 'digital' && (
+                          <DigitalDetailsFields
+                            details={asset.digital || emptyDigitalDetails}
+                            onChange={(digital) => handleEditAsset(asset.id, { digital })}
+                          />
+                        )}
                         <div className="space-y-2">
                           <Label>Special Instructions (Optional)</Label>
                           <textarea
@@ -320,6 +439,16 @@ export function AssetsStep({ data, updateData, errors }: AssetsStepProps) {
                                 <MapPin className="h-3 w-3" />
                                 <span>{asset.location}</span>
                               </div>
+                              {asset.digital && (
+                                <div className="flex items-center gap-1">
+                                  <Laptop className="h-3 w-3" />
+                                  <span>
+                                    {asset.digital.platform || 'Platform not set'}
+                                    {' · '}
+                                    {digitalDispositions.find(d => d.value === asset.digital?.disposition)?.label}
+                                  </span>
+                                </div>
+                              )}
                               {asset.specificInstructions && (
                                 <p className="text-xs bg-gray-50 p-2 rounded">
                                   {asset.specificInstructions}
@@ -417,6 +546,13 @@ export function AssetsStep({ data, updateData, errors }: AssetsStepProps) {
                 placeholder="e.g., Emirates NBD - Dubai Mall Branch, Jumeirah Village Circle"
               />
             </div>
+
+            {newAsset.type === 'digital' && (
+              <DigitalDetailsFields
+                details={newAsset.digital || emptyDigitalDetails}
+                onChange={(digital) => setNewAsset({ ...newAsset, digital })}
+              />
+            )}
             
             <div className="space-y-2">
               <Label>Special Instructions (Optional)</Label>
@@ -481,7 +617,7 @@ export function AssetsStep({ data, updateData, errors }: AssetsStepProps) {
             <ul className="text-sm text-blue-700 mt-1 space-y-1">
               <li>• Use current market values for real estate</li>
               <li>• Include account numbers for bank accounts</li>
-              <li>• Specify cryptocurrency wallet addresses</li>
+              <li>• Specify the platform for each digital asset, but never its passwords or keys</li>
               <li>• Update values annually or after major changes</li>
             </ul>
           </div>
@@ -44,8 +44,14 @@ interface Beneficiary {
 
 const relationshipOptions = [
   'Spouse',
+  'Son',
+  'Daughter',
   'Child',
+  'Father',
+  'Mother',
   'Parent',
+  'Brother',
+  'Sister',
   'Sibling',
   'Grandchild',
   'Grandparent',
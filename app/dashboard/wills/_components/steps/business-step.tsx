@@ -0,0 +1,575 @@
+/**
+ * Business Step
+ * Collects structured details of company shareholdings and who succeeds to them
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Building,
+  Plus,
+  Trash2,
+  Edit3,
+  AlertCircle,
+  Users,
+  UserCheck,
+  Handshake
+} from "lucide-react";
+import { WillData } from "../will-creation-wizard";
+
+interface BusinessStepProps {
+  data: WillData;
+  updateData: (updates: Partial<WillData>) => void;
+  errors: Record<string, string>;
+}
+
+type BusinessInterest = NonNullable<WillData['assets'][number]['business']>;
+type Successor = BusinessInterest['successors'][number];
+
+const jurisdictions: Array<{ value: BusinessInterest['jurisdiction']; label: string; authority: string }> = [
+  { value: 'mainland', label: 'UAE Mainland', authority: 'e.g. Department of Economy and Tourism' },
+  { value: 'free_zone', label: 'Free Zone', authority: 'e.g. DMCC, JAFZA, Dubai South' },
+  { value: 'difc', label: 'DIFC', authority: 'DIFC Registrar of Companies' },
+];
+
+const entityTypes = [
+  'LLC',
+  'Sole Establishment',
+  'Civil Company',
+  'FZE',
+  'FZCO',
+  'FZ-LLC',
+  'Private Company',
+  'Branch',
+];
+
+const emptyBusiness = (): BusinessInterest => ({
+  entityName: '',
+  entityType: 'LLC',
+  jurisdiction: 'mainland',
+  licensingAuthority: '',
+  tradeLicenceNumber: '',
+  shareholding: 100,
+  shareClass: 'Ordinary',
+  coShareholders: [],
+  successors: [],
+  interimManager: '',
+  keyPersonProvisions: '',
+});
+
+export function BusinessStep({ data, updateData, errors }: BusinessStepProps) {
+  const [draft, setDraft] = useState<{ assetId: string; business: BusinessInterest } | null>(null);
+  const [newCoShareholder, setNewCoShareholder] = useState({ name: '', shareholding: 0 });
+  const [otherSuccessor, setOtherSuccessor] = useState({ name: '', relationship: '' });
+
+  const businessAssets = data.assets.filter(asset => asset.type === 'business');
+  const businessRequired = data.willType === 'business_succession';
+
+  const updateDraft = (updates: Partial<BusinessInterest>) => {
+    setDraft(prev => prev ? { ...prev, business: { ...prev.business, ...updates } } : prev);
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.business.entityName.trim() || !draft.business.tradeLicenceNumber.trim()) return;
+
+    updateData({
+      assets: data.assets.map(asset =>
+        asset.id === draft.assetId ? { ...asset, business: draft.business } : asset
+      ),
+    });
+    setDraft(null);
+  };
+
+  const handleClear = (assetId: string) => {
+    updateData({
+      assets: data.assets.map(asset =>
+        asset.id === assetId ? { ...asset, business: undefined } : asset
+      ),
+    });
+  };
+
+  const handleAddCoShareholder = () => {
+    if (!draft || !newCoShareholder.name) return;
+
+    updateDraft({
+      coShareholders: [...draft.business.coShareholders, {
+        id: Date.now().toString(),
+        name: newCoShareholder.name,
+        shareholding: newCoShareholder.shareholding,
+      }],
+    });
+    setNewCoShareholder({ name: '', shareholding: 0 });
+  };
+
+  const toggleWillBeneficiary = (beneficiaryId: string, checked: boolean) => {
+    if (!draft) return;
+    const beneficiary = data.beneficiaries.find(b => b.id === beneficiaryId);
+    if (!beneficiary) return;
+
+    updateDraft({
+      successors: checked
+        ? [...draft.business.successors, {
+            id: Date.now().toString(),
+            beneficiaryId,
+            name: beneficiary.name,
+            relationship: beneficiary.relationship,
+            share: 0,
+          }]
+        : draft.business.successors.filter(s => s.beneficiaryId !== beneficiaryId),
+    });
+  };
+
+  const handleAddOtherSuccessor = () => {
+    if (!draft || !otherSuccessor.name || !otherSuccessor.relationship) return;
+
+    updateDraft({
+      successors: [...draft.business.successors, {
+        id: Date.now().toString(),
+        name: otherSuccessor.name,
+        relationship: otherSuccessor.relationship,
+        share: 0,
+      }],
+    });
+    setOtherSuccessor({ name: '', relationship: '' });
+  };
+
+  const updateAgreement = (updates: Partial<NonNullable<BusinessInterest['buySellAgreement']>>) => {
+    if (!draft?.business.buySellAgreement) return;
+    updateDraft({ buySellAgreement: { ...draft.business.buySellAgreement, ...updates } });
+  };
+
+  const updateSuccessor = (id: string, updates: Partial<Successor>) => {
+    if (!draft) return;
+    updateDraft({
+      successors: draft.business.successors.map(s => s.id === id ? { ...s, ...updates } : s),
+    });
+  };
+
+  const renderBusinessForm = (business: BusinessInterest) => {
+    const companyTotal = business.shareholding +
+      business.coShareholders.reduce((sum, c) => sum + (c.shareholding || 0), 0);
+    const bequeathed = business.successors.reduce((sum, s) => sum + (s.share || 0), 0);
+
+    return (
+      <div className="space-y-6">
+        {/* Entity details */}
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Registered Entity Name *</Label>
+            <Input
+              value={business.entityName}
+              onChange={(e) => updateDraft({ entityName: e.target.value })}
+              placeholder="e.g. Falcon Trading LLC"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Entity Type *</Label>
+            <Select
+              value={business.entityType}
+              onValueChange={(value) => updateDraft({ entityType: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {entityTypes.map(type => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Jurisdiction *</Label>
+            <Select
+              value={business.jurisdiction}
+              onValueChange={(value) => updateDraft({ jurisdiction: value as BusinessInterest['jurisdiction'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {jurisdictions.map(jurisdiction => (
+                  <SelectItem key={jurisdiction.value} value={jurisdiction.value}>
+                    {jurisdiction.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Licensing Authority</Label>
+            <Input
+              value={business.licensingAuthority || ''}
+              onChange={(e) => updateDraft({ licensingAuthority: e.target.value })}
+              placeholder={jurisdictions.find(j => j.value === business.jurisdiction)?.authority}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Trade Licence Number *</Label>
+            <Input
+              value={business.tradeLicenceNumber}
+              onChange={(e) => updateDraft({ tradeLicenceNumber: e.target.value })}
+              placeholder="e.g. 123456"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Your Shareholding *</Label>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={business.shareholding}
+                  onChange={(e) => updateDraft({ shareholding: parseFloat(e.target.value) || 0 })}
+                />
+                <span>%</span>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Share Class</Label>
+              <Input
+                value={business.shareClass}
+                onChange={(e) => updateDraft({ shareClass: e.target.value })}
+                placeholder="Ordinary"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Co-shareholders */}
+        <div className="space-y-3">
+          <Label className="flex items-center gap-2">
+            <Users className="h-4 w-4" />
+            Co-shareholders
+          </Label>
+          {business.coShareholders.map(coShareholder => (
+            <div key={coShareholder.id} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+              <span>
+                <span className="font-medium">{coShareholder.name}</span>
+                <span className="text-muted-foreground"> · {coShareholder.shareholding}%</span>
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => updateDraft({ coShareholders: business.coShareholders.filter(c => c.id !== coShareholder.id) })}
+                className="text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="grid gap-2 md:grid-cols-4 p-3 bg-gray-50 rounded-lg">
+            <Input
+              className="md:col-span-2"
+              value={newCoShareholder.name}
+              onChange={(e) => setNewCoShareholder({ ...newCoShareholder, name: e.target.value })}
+              placeholder="Co-shareholder's name"
+            />
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={newCoShareholder.shareholding}
+                onChange={(e) => setNewCoShareholder({ ...newCoShareholder, shareholding: parseFloat(e.target.value) || 0 })}
+              />
+              <span>%</span>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleAddCoShareholder}
+              disabled={!newCoShareholder.name}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+          <p className={`text-xs ${companyTotal > 100 ? 'text-red-600' : 'text-muted-foreground'}`}>
+            Shareholdings total {companyTotal}% of the company (must not exceed 100%)
+          </p>
+        </div>
+
+        {/* Successors */}
+        <div className="space-y-3">
+          <Label className="flex items-center gap-2">
+            <UserCheck className="h-4 w-4" />
+            Successors to your shares
+          </Label>
+          {data.beneficiaries.map(beneficiary => (
+            <div key={beneficiary.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`successor-${beneficiary.id}`}
+                checked={business.successors.some(s => s.beneficiaryId === beneficiary.id)}
+                onCheckedChange={(checked) => toggleWillBeneficiary(beneficiary.id, !!checked)}
+              />
+              <Label htmlFor={`successor-${beneficiary.id}`} className="text-sm font-normal">
+                {beneficiary.name} ({beneficiary.relationship})
+              </Label>
+            </div>
+          ))}
+
+          {business.successors.length > 0 && (
+            <div className="space-y-2">
+              {business.successors.map(successor => (
+                <div key={successor.id} className="grid gap-2 md:grid-cols-4 items-center p-2 border rounded-lg text-sm">
+                  <span className="font-medium md:col-span-2">
+                    {successor.name}
+                    <span className="text-muted-foreground font-normal"> · {successor.relationship}</span>
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={successor.share}
+                      onChange={(e) => updateSuccessor(successor.id, { share: parseFloat(e.target.value) || 0 })}
+                    />
+                    <span>%</span>
+                  </div>
+                  {!successor.beneficiaryId && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => updateDraft({ successors: business.successors.filter(s => s.id !== successor.id) })}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <p className={`text-xs ${bequeathed > 100 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                {bequeathed}% of your shares bequeathed. Any remainder passes with the residuary estate.
+              </p>
+            </div>
+          )}
+
+          <div className="grid gap-2 md:grid-cols-4 p-3 bg-gray-50 rounded-lg">
+            <Input
+              className="md:col-span-2"
+              value={otherSuccessor.name}
+              onChange={(e) => setOtherSuccessor({ ...otherSuccessor, name: e.target.value })}
+              placeholder="Someone not named in the will, e.g. a business partner"
+            />
+            <Input
+              value={otherSuccessor.relationship}
+              onChange={(e) => setOtherSuccessor({ ...otherSuccessor, relationship: e.target.value })}
+              placeholder="Relationship"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleAddOtherSuccessor}
+              disabled={!otherSuccessor.name || !otherSuccessor.relationship}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        {/* Continuity */}
+        <div className="space-y-4">
+          <Label className="flex items-center gap-2">
+            <Handshake className="h-4 w-4" />
+            Business continuity
+          </Label>
+          <div className="space-y-2">
+            <Label className="text-sm font-normal">Interim manager</Label>
+            <Input
+              value={business.interimManager || ''}
+              onChange={(e) => updateDraft({ interimManager: e.target.value })}
+              placeholder="Who runs the business until the shares are transferred"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="buy-sell-agreement"
+              checked={!!business.buySellAgreement}
+              onCheckedChange={(checked) => updateDraft({
+                buySellAgreement: checked ? { counterparties: '', valuationMethod: '', insuranceFunded: false } : undefined,
+              })}
+            />
+            <Label htmlFor="buy-sell-agreement" className="text-sm">
+              There is a buy-sell agreement with the other shareholders
+            </Label>
+          </div>
+          {business.buySellAgreement && (
+            <div className="grid gap-2 md:grid-cols-2 p-3 bg-gray-50 rounded-lg">
+              <Input
+                value={business.buySellAgreement.counterparties}
+                onChange={(e) => updateAgreement({ counterparties: e.target.value })}
+                placeholder="Who is bound to buy the shares"
+              />
+              <Input
+                value={business.buySellAgreement.valuationMethod}
+                onChange={(e) => updateAgreement({ valuationMethod: e.target.value })}
+                placeholder="Valuation method, e.g. independent valuation at death"
+              />
+              <div className="flex items-center gap-2 md:col-span-2">
+                <Checkbox
+                  id="buy-sell-insurance"
+                  checked={business.buySellAgreement.insuranceFunded}
+                  onCheckedChange={(checked) => updateAgreement({ insuranceFunded: !!checked })}
+                />
+                <Label htmlFor="buy-sell-insurance" className="text-sm">Funded by life insurance</Label>
+              </div>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label className="text-sm font-normal">Key person provisions</Label>
+            <textarea
+              value={business.keyPersonProvisions || ''}
+              onChange={(e) => updateDraft({ keyPersonProvisions: e.target.value })}
+              placeholder="e.g. key person insurance proceeds are to be used to recruit a replacement managing director"
+              className="min-h-16 w-full rounded-md border px-3 py-2 text-sm border-input"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={handleSave}
+            disabled={!business.entityName.trim() || !business.tradeLicenceNumber.trim()}
+          >
+            Save Business Details
+          </Button>
+          <Button variant="outline" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Building className="h-5 w-5 text-primary" />
+        <div>
+          <h3 className="text-lg font-semibold">Business Succession</h3>
+          <p className="text-sm text-muted-foreground">
+            Company details, co-shareholders and who takes over your shares
+          </p>
+        </div>
+      </div>
+
+      {businessAssets.length === 0 ? (
+        <div className={`rounded-lg p-4 text-sm border ${
+          businessRequired ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-gray-50 border-gray-200 text-muted-foreground'
+        }`}>
+          {businessRequired
+            ? 'A business succession will needs at least one Business Asset. Add it in the Assets step.'
+            : 'No business assets in this will. Add a Business Asset in the Assets step to plan its succession.'}
+        </div>
+      ) : (
+        businessAssets.map(({ business, ...asset }) => (
+          draft?.assetId === asset.id ? (
+            <Card key={asset.id}>
+              <CardContent className="p-4">
+                <h5 className="font-medium mb-4">{asset.description}</h5>
+                {renderBusinessForm(draft.business)}
+              </CardContent>
+            </Card>
+          ) : (
+            <Card key={asset.id}>
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start gap-3">
+                    <div className="p-2 rounded-lg bg-primary/10">
+                      <Building className="h-5 w-5 text-primary" />
+                    </div>
+                    <div className="space-y-1">
+                      <h5 className="font-medium">{business?.entityName || asset.description}</h5>
+                      {business ? (
+                        <>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="secondary" className="text-xs">
+                              {jurisdictions.find(j => j.value === business.jurisdiction)?.label}
+                            </Badge>
+                            <Badge variant="outline" className="text-xs">
+                              {business.shareholding}% {business.shareClass}
+                            </Badge>
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            Licence {business.tradeLicenceNumber}
+                            {business.licensingAuthority && ` · ${business.licensingAuthority}`}
+                          </div>
+                          {business.successors.length > 0 && (
+                            <div className="text-sm text-muted-foreground">
+                              To: {business.successors.map(s => `${s.name} (${s.share}%)`).join(', ')}
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <p className="text-sm text-amber-700">Entity, licence and shareholding details needed</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDraft({ assetId: asset.id, business: business || emptyBusiness() })}
+                      disabled={!!draft}
+                    >
+                      <Edit3 className="h-4 w-4" />
+                    </Button>
+                    {business && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleClear(asset.id)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        ))
+      )}
+
+      {/* Validation Errors */}
+      {errors.business && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start gap-2">
+            <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+            <p className="text-sm text-red-600">{errors.business}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Information Notice */}
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <div className="flex items-start gap-2">
+          <Building className="h-5 w-5 text-blue-600 mt-0.5" />
+          <div>
+            <h4 className="text-sm font-medium text-blue-800">Business Succession Guidelines</h4>
+            <ul className="text-sm text-blue-700 mt-1 space-y-1">
+              <li>• Use the entity name and licence number exactly as on the trade licence</li>
+              <li>• Successor shares are percentages of your own shareholding and cannot exceed 100%</li>
+              <li>• Transfers remain subject to the company&apos;s articles and any pre-emption rights</li>
+              <li>• Appoint an interim manager so the business can keep trading during probate</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
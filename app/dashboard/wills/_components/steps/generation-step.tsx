@@ -24,6 +24,7 @@ import {
   Calendar
 } from "lucide-react";
 import { WillData } from "../will-creation-wizard";
+import { TraceabilityReport } from "../traceability-report";
 
 interface GenerationStepProps {
   data: WillData;
@@ -742,6 +743,11 @@ export function GenerationStep({ data, isGenerating, onGenerate, onGenerationCom
         </Card>
       </div>
 
+      {/* Clause traceability review */}
+      {generationResult?.traceability && (
+        <TraceabilityReport report={generationResult.traceability} />
+      )}
+
       {/* Additional Services */}
       <Card>
         <CardHeader>
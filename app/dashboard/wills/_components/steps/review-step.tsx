@@ -5,6 +5,7 @@
 
 "use client";
 
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -21,9 +22,13 @@ import {
   Globe,
   Edit,
   CheckCircle,
-  AlertTriangle
+  AlertTriangle,
+  Scale,
+  Landmark,
+  Building
 } from "lucide-react";
 import { WillData } from "../will-creation-wizard";
+import { calculateForcedHeirship } from "@/lib/forced-heirship";
 
 interface ReviewStepProps {
   data: WillData;
@@ -46,6 +51,7 @@ export function ReviewStep({ data }: ReviewStepProps) {
   const contingentBeneficiaries = data.beneficiaries.filter(b => b.contingent);
   const primaryExecutors = data.executors.filter(e => !e.alternateExecutor);
   const alternateExecutors = data.executors.filter(e => e.alternateExecutor);
+  const businessAssets = data.assets.flatMap(({ id, business }) => business ? [{ id, business }] : []);
 
   // Validation checks
   const validationIssues: string[] = [];
@@ -60,9 +66,43 @@ export function ReviewStep({ data }: ReviewStepProps) {
   if (data.beneficiaries.length === 0) validationIssues.push("No beneficiaries specified");
   if (Math.abs(totalBeneficiaryPercentage - 100) > 0.01) validationIssues.push("Beneficiary percentages don't total 100%");
   if (data.executors.length === 0) validationIssues.push("No executors specified");
+  if (data.willType === 'complex' && data.trusts.length === 0) validationIssues.push("No trust specified for complex will");
+  if (data.willType === 'business_succession' && businessAssets.length === 0) {
+    validationIssues.push("No business interest details for business succession will");
+  }
+  if (businessAssets.some(({ business }) => business.successors.reduce((sum, s) => sum + s.share, 0) > 100.01)) {
+    validationIssues.push("Shareholding bequeathed exceeds 100%");
+  }
 
   const isReadyForGeneration = validationIssues.length === 0;
 
+  // Compare the will's distribution with what onshore Sharia rules would produce
+  // Shares depend on the testator's gender, so nothing is shown until it has been chosen
+  const [testatorGender, setTestatorGender] = useState<'male' | 'female' | null>(null);
+  const heirship = useMemo(() => {
+    if (!testatorGender) return null;
+
+    const spouseListed = data.beneficiaries.some(b =>
+      ['spouse', 'wife', 'husband'].includes(b.relationship.toLowerCase())
+    );
+
+    return calculateForcedHeirship({
+      maritalStatus: data.maritalStatus,
+      nationality: data.nationality,
+      testatorGender,
+      beneficiaries: data.beneficiaries.map(b => ({
+        id: b.id,
+        fullName: b.name,
+        relationship: b.relationship,
+        type: b.relationship === 'Charity' ? 'charity' : 'individual',
+        inheritancePercentage: b.percentage,
+      })),
+      additionalHeirs: data.maritalStatus === 'married' && data.spouseName && !spouseListed
+        ? [{ fullName: data.spouseName, relationship: 'Spouse' }]
+        : [],
+    });
+  }, [data.beneficiaries, data.maritalStatus, data.nationality, data.spouseName, testatorGender]);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-2">
@@ -265,6 +305,103 @@ export function ReviewStep({ data }: ReviewStepProps) {
         </CardContent>
       </Card>
 
+      {/* Forced Heirship Comparison */}
+      {data.beneficiaries.length > 0 && (!heirship || heirship.shares.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Scale className="h-5 w-5" />
+                Sharia Distribution Comparison
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={testatorGender === 'male' ? 'default' : 'outline'}
+                  onClick={() => setTestatorGender('male')}
+                >
+                  Male testator
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={testatorGender === 'female' ? 'default' : 'outline'}
+                  onClick={() => setTestatorGender('female')}
+                >
+                  Female testator
+                </Button>
+              </div>
+            </CardTitle>
+            <CardDescription>
+              {heirship
+                ? `How the estate would pass without a registered DIFC will under ${heirship.applicableLaw}`
+                : 'Select whether the testator is male or female to compare the will with Sharia shares'}
+            </CardDescription>
+          </CardHeader>
+          {heirship && (
+            <CardContent>
+              <div className="space-y-2">
+                <div className="grid grid-cols-4 gap-2 px-3 text-xs font-medium text-muted-foreground">
+                  <div>Beneficiary</div>
+                  <div className="text-right">DIFC Will</div>
+                  <div className="text-right">Sharia</div>
+                  <div className="text-right">Difference</div>
+                </div>
+                {heirship.shares.map((share, index) => (
+                  <div
+                    key={share.beneficiaryId || `heir-${index}`}
+                    className="grid grid-cols-4 gap-2 items-center p-3 bg-gray-50 rounded-lg text-sm"
+                  >
+                    <div>
+                      <div className="font-medium">{share.fullName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {share.relationship}
+                        {share.basis !== 'none' && <span className="ml-1">• {share.basis.replace(/_/g, ' ')}</span>}
+                      </div>
+                    </div>
+                    <div className="text-right">{share.willPercentage}%</div>
+                    <div className="text-right">
+                      {share.shariaPercentage}%
+                      {share.fraction !== '0' && (
+                        <span className="ml-1 text-xs text-muted-foreground">({share.fraction})</span>
+                      )}
+                    </div>
+                    <div className={`text-right font-medium ${share.difference === 0 ? 'text-muted-foreground' : share.difference > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {share.difference > 0 ? '+' : ''}{share.difference}%
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {(heirship.notes.length > 0 || heirship.warnings.length > 0) && (
+                <div className="mt-4 space-y-2">
+                  {heirship.warnings.length > 0 && (
+                    <ul className="text-sm text-orange-700 list-disc list-inside">
+                      {heirship.warnings.map((warning, index) => (
+                        <li key={index}>{warning}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {heirship.notes.length > 0 && (
+                    <ul className="text-sm text-blue-700 list-disc list-inside">
+                      {heirship.notes.map((note, index) => (
+                        <li key={index}>{note}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              <p className="mt-4 text-xs text-muted-foreground">
+                This comparison is indicative only. Registering the will with the DIFC Wills Service Centre
+                allows the estate to pass as set out in the will rather than by these fixed shares.
+              </p>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
       {/* Executors & Guardians Summary */}
       <div className="grid gap-6 md:grid-cols-2">
         {/* Executors */}
@@ -341,6 +478,58 @@ export function ReviewStep({ data }: ReviewStepProps) {
             )}
           </CardContent>
         </Card>
+
+        {/* Trusts */}
+        {data.trusts.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Landmark className="h-5 w-5" />
+                Trusts ({data.trusts.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {data.trusts.map((trust) => (
+                  <div key={trust.id} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="font-medium">{trust.name}</div>
+                    <div className="text-sm text-muted-foreground">
+                      <div>Trustees: {trust.trustees.map(trustee => trustee.name).join(', ')}</div>
+                      <div>For: {trust.beneficiaries.map(b => `${b.name} (${b.share}%)`).join(', ')}</div>
+                      <div>Vests at age {trust.vestingAge}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Business interests */}
+        {businessAssets.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Building className="h-5 w-5" />
+                Business Interests ({businessAssets.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {businessAssets.map(({ id, business }) => (
+                  <div key={id} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="font-medium">{business.entityName}</div>
+                    <div className="text-sm text-muted-foreground">
+                      <div>{business.shareholding}% {business.shareClass} shares · licence {business.tradeLicenceNumber}</div>
+                      <div>To: {business.successors.map(s => `${s.name} (${s.share}%)`).join(', ') || 'Residuary estate'}</div>
+                      {business.interimManager && <div>Interim manager: {business.interimManager}</div>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Next Steps */}
@@ -0,0 +1,603 @@
+/**
+ * Trusts Step
+ * Collects testamentary trusts: trustees, trust beneficiaries, vesting ages, distribution terms and trust assets
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Landmark,
+  Plus,
+  Trash2,
+  Edit3,
+  AlertCircle,
+  UserCheck,
+  Users,
+  Home
+} from "lucide-react";
+import { WillData } from "../will-creation-wizard";
+
+interface TrustsStepProps {
+  data: WillData;
+  updateData: (updates: Partial<WillData>) => void;
+  errors: Record<string, string>;
+}
+
+type Trust = WillData['trusts'][number];
+type Trustee = Trust['trustees'][number];
+type TrustBeneficiary = Trust['beneficiaries'][number];
+
+const distributionStandards: Array<{ value: Trust['distributionStandard']; label: string; description: string }> = [
+  {
+    value: 'hems',
+    label: 'Health, education, maintenance & support',
+    description: 'Trustees pay for each beneficiary\'s needs until their share vests',
+  },
+  {
+    value: 'discretionary',
+    label: 'Fully discretionary',
+    description: 'Trustees decide who benefits, when and by how much',
+  },
+  {
+    value: 'fixed_income',
+    label: 'Income only until vesting',
+    description: 'Income is paid out yearly; capital is released when the share vests',
+  },
+  {
+    value: 'custom',
+    label: 'Custom terms',
+    description: 'Write your own distribution terms',
+  },
+];
+
+const relationshipOptions = [
+  'Spouse',
+  'Parent',
+  'Sibling',
+  'Adult Child',
+  'Close Friend',
+  'Legal Professional',
+  'Trust Company',
+  'Other Family Member'
+];
+
+const emptyTrust = (): Trust => ({
+  id: Date.now().toString(),
+  name: '',
+  purpose: '',
+  trustees: [],
+  beneficiaries: [],
+  assetIds: [],
+  vestingAge: 25,
+  distributionStandard: 'hems',
+  distributionTerms: '',
+});
+
+const emptyTrustee: Partial<Trustee> = {
+  name: '',
+  relationship: '',
+  address: '',
+  phone: '',
+  alternateTrustee: false,
+  professional: false,
+};
+
+export function TrustsStep({ data, updateData, errors }: TrustsStepProps) {
+  const [draft, setDraft] = useState<Trust | null>(null);
+  const [newTrustee, setNewTrustee] = useState<Partial<Trustee>>(emptyTrustee);
+  const [otherBeneficiary, setOtherBeneficiary] = useState({ name: '', relationship: '', share: 0 });
+
+  const isEditing = !!draft && data.trusts.some(trust => trust.id === draft.id);
+  const trustRequired = data.willType === 'complex';
+
+  // Assets already settled on a different trust
+  const assetsInOtherTrusts = new Set(
+    data.trusts.filter(trust => trust.id !== draft?.id).flatMap(trust => trust.assetIds)
+  );
+
+  const updateDraft = (updates: Partial<Trust>) => {
+    setDraft(prev => prev ? { ...prev, ...updates } : prev);
+  };
+
+  const handleSaveTrust = () => {
+    if (!draft || !draft.name.trim() || draft.trustees.length === 0 || draft.beneficiaries.length === 0) return;
+
+    updateData({
+      trusts: isEditing
+        ? data.trusts.map(trust => trust.id === draft.id ? draft : trust)
+        : [...data.trusts, draft],
+    });
+    setDraft(null);
+  };
+
+  const handleRemoveTrust = (trustId: string) => {
+    updateData({ trusts: data.trusts.filter(trust => trust.id !== trustId) });
+  };
+
+  const handleAddTrustee = () => {
+    if (!draft || !newTrustee.name || !newTrustee.relationship) return;
+
+    const trustee: Trustee = {
+      id: Date.now().toString(),
+      name: newTrustee.name,
+      relationship: newTrustee.relationship,
+      address: newTrustee.address || '',
+      phone: newTrustee.phone || '',
+      alternateTrustee: newTrustee.alternateTrustee || false,
+      professional: newTrustee.professional || false,
+    };
+
+    updateDraft({ trustees: [...draft.trustees, trustee] });
+    setNewTrustee(emptyTrustee);
+  };
+
+  const toggleAsset = (assetId: string, checked: boolean) => {
+    if (!draft) return;
+    updateDraft({
+      assetIds: checked
+        ? [...draft.assetIds, assetId]
+        : draft.assetIds.filter(id => id !== assetId),
+    });
+  };
+
+  const toggleWillBeneficiary = (beneficiaryId: string, checked: boolean) => {
+    if (!draft) return;
+    const beneficiary = data.beneficiaries.find(b => b.id === beneficiaryId);
+    if (!beneficiary) return;
+
+    updateDraft({
+      beneficiaries: checked
+        ? [...draft.beneficiaries, {
+            id: Date.now().toString(),
+            beneficiaryId,
+            name: beneficiary.name,
+            relationship: beneficiary.relationship,
+            share: 0,
+          }]
+        : draft.beneficiaries.filter(b => b.beneficiaryId !== beneficiaryId),
+    });
+  };
+
+  const handleAddOtherBeneficiary = () => {
+    if (!draft || !otherBeneficiary.name || !otherBeneficiary.relationship) return;
+
+    updateDraft({
+      beneficiaries: [...draft.beneficiaries, {
+        id: Date.now().toString(),
+        name: otherBeneficiary.name,
+        relationship: otherBeneficiary.relationship,
+        share: otherBeneficiary.share,
+      }],
+    });
+    setOtherBeneficiary({ name: '', relationship: '', share: 0 });
+  };
+
+  const updateTrustBeneficiary = (id: string, updates: Partial<TrustBeneficiary>) => {
+    if (!draft) return;
+    updateDraft({
+      beneficiaries: draft.beneficiaries.map(b => b.id === id ? { ...b, ...updates } : b),
+    });
+  };
+
+  const draftShareTotal = draft?.beneficiaries.reduce((sum, b) => sum + (b.share || 0), 0) || 0;
+
+  const renderTrustForm = (trust: Trust) => (
+    <div className="space-y-6">
+      {/* Trust details */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Trust Name *</Label>
+          <Input
+            value={trust.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="e.g. Children's Education Trust"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Vesting Age *</Label>
+          <Input
+            type="number"
+            min={18}
+            max={40}
+            value={trust.vestingAge}
+            onChange={(e) => updateDraft({ vestingAge: parseInt(e.target.value) || 0 })}
+          />
+          <p className="text-xs text-muted-foreground">
+            Age at which each beneficiary receives their share outright
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Purpose</Label>
+        <textarea
+          value={trust.purpose || ''}
+          onChange={(e) => updateDraft({ purpose: e.target.value })}
+          placeholder="e.g. to provide for my children's education and upbringing"
+          className="min-h-16 w-full rounded-md border px-3 py-2 text-sm border-input"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Distribution Standard *</Label>
+        <Select
+          value={trust.distributionStandard}
+          onValueChange={(value) => updateDraft({ distributionStandard: value as Trust['distributionStandard'] })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {distributionStandards.map(standard => (
+              <SelectItem key={standard.value} value={standard.value}>
+                {standard.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {distributionStandards.find(standard => standard.value === trust.distributionStandard)?.description}
+        </p>
+        {trust.distributionStandard === 'custom' && (
+          <textarea
+            value={trust.distributionTerms || ''}
+            onChange={(e) => updateDraft({ distributionTerms: e.target.value })}
+            placeholder="Describe how the trustees should use the income and capital"
+            className="min-h-20 w-full rounded-md border px-3 py-2 text-sm border-input"
+          />
+        )}
+      </div>
+
+      {/* Trust assets */}
+      <div className="space-y-2">
+        <Label className="flex items-center gap-2">
+          <Home className="h-4 w-4" />
+          Assets held in trust
+        </Label>
+        {data.assets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add assets in the Assets step to settle them on this trust.</p>
+        ) : (
+          <div className="space-y-2">
+            {data.assets.map(asset => (
+              <div key={asset.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`trust-asset-${asset.id}`}
+                  checked={trust.assetIds.includes(asset.id)}
+                  disabled={assetsInOtherTrusts.has(asset.id)}
+                  onCheckedChange={(checked) => toggleAsset(asset.id, !!checked)}
+                />
+                <Label htmlFor={`trust-asset-${asset.id}`} className="text-sm font-normal">
+                  {asset.description}
+                  {assetsInOtherTrusts.has(asset.id) && (
+                    <span className="text-muted-foreground"> (held by another trust)</span>
+                  )}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Trustees */}
+      <div className="space-y-3">
+        <Label className="flex items-center gap-2">
+          <UserCheck className="h-4 w-4" />
+          Trustees *
+        </Label>
+        {trust.trustees.map(trustee => (
+          <div key={trustee.id} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{trustee.name}</span>
+              <Badge variant="secondary" className="text-xs">{trustee.relationship}</Badge>
+              {trustee.alternateTrustee && <Badge variant="outline" className="text-xs">Alternate</Badge>}
+              {trustee.professional && <Badge variant="outline" className="text-xs">Professional</Badge>}
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => updateDraft({ trustees: trust.trustees.filter(t => t.id !== trustee.id) })}
+              className="text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="grid gap-2 md:grid-cols-2 p-3 bg-gray-50 rounded-lg">
+          <Input
+            value={newTrustee.name || ''}
+            onChange={(e) => setNewTrustee({ ...newTrustee, name: e.target.value })}
+            placeholder="Trustee's full legal name"
+          />
+          <Select
+            value={newTrustee.relationship || ''}
+            onValueChange={(value) => setNewTrustee({ ...newTrustee, relationship: value })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select relationship" />
+            </SelectTrigger>
+            <SelectContent>
+              {relationshipOptions.map(rel => (
+                <SelectItem key={rel} value={rel}>
+                  {rel}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={newTrustee.address || ''}
+            onChange={(e) => setNewTrustee({ ...newTrustee, address: e.target.value })}
+            placeholder="Address"
+          />
+          <Input
+            value={newTrustee.phone || ''}
+            onChange={(e) => setNewTrustee({ ...newTrustee, phone: e.target.value })}
+            placeholder="+971 50 123 4567"
+          />
+          <div className="flex items-center gap-4 md:col-span-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="new-trustee-alternate"
+                checked={newTrustee.alternateTrustee || false}
+                onCheckedChange={(checked) => setNewTrustee({ ...newTrustee, alternateTrustee: !!checked })}
+              />
+              <Label htmlFor="new-trustee-alternate" className="text-sm">Alternate trustee</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="new-trustee-professional"
+                checked={newTrustee.professional || false}
+                onCheckedChange={(checked) => setNewTrustee({ ...newTrustee, professional: !!checked })}
+              />
+              <Label htmlFor="new-trustee-professional" className="text-sm">Professional trustee</Label>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className="ml-auto"
+              onClick={handleAddTrustee}
+              disabled={!newTrustee.name || !newTrustee.relationship}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Trustee
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Trust beneficiaries */}
+      <div className="space-y-3">
+        <Label className="flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          Trust Beneficiaries *
+        </Label>
+        {data.beneficiaries.map(beneficiary => {
+          const selected = trust.beneficiaries.find(b => b.beneficiaryId === beneficiary.id);
+
+          return (
+            <div key={beneficiary.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`trust-beneficiary-${beneficiary.id}`}
+                checked={!!selected}
+                onCheckedChange={(checked) => toggleWillBeneficiary(beneficiary.id, !!checked)}
+              />
+              <Label htmlFor={`trust-beneficiary-${beneficiary.id}`} className="text-sm font-normal">
+                {beneficiary.name} ({beneficiary.relationship})
+              </Label>
+            </div>
+          );
+        })}
+
+        {trust.beneficiaries.length > 0 && (
+          <div className="space-y-2">
+            {trust.beneficiaries.map(beneficiary => (
+              <div key={beneficiary.id} className="grid gap-2 md:grid-cols-4 items-center p-2 border rounded-lg text-sm">
+                <span className="font-medium md:col-span-2">
+                  {beneficiary.name}
+                  <span className="text-muted-foreground font-normal"> · {beneficiary.relationship}</span>
+                </span>
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={beneficiary.share}
+                    onChange={(e) => updateTrustBeneficiary(beneficiary.id, { share: parseFloat(e.target.value) || 0 })}
+                  />
+                  <span>%</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min={18}
+                    max={40}
+                    value={beneficiary.vestingAge ?? ''}
+                    placeholder={`Age ${trust.vestingAge}`}
+                    onChange={(e) => updateTrustBeneficiary(beneficiary.id, {
+                      vestingAge: e.target.value ? parseInt(e.target.value) : undefined,
+                    })}
+                  />
+                  {!beneficiary.beneficiaryId && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => updateDraft({ beneficiaries: trust.beneficiaries.filter(b => b.id !== beneficiary.id) })}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+            <p className={`text-xs ${Math.abs(draftShareTotal - 100) > 0.01 ? 'text-red-600' : 'text-muted-foreground'}`}>
+              Shares total {draftShareTotal}% (must be 100%). Leave the age blank to use the trust&apos;s vesting age.
+            </p>
+          </div>
+        )}
+
+        <div className="grid gap-2 md:grid-cols-4 p-3 bg-gray-50 rounded-lg">
+          <Input
+            className="md:col-span-2"
+            value={otherBeneficiary.name}
+            onChange={(e) => setOtherBeneficiary({ ...otherBeneficiary, name: e.target.value })}
+            placeholder="Someone not named in the will, e.g. a grandchild"
+          />
+          <Input
+            value={otherBeneficiary.relationship}
+            onChange={(e) => setOtherBeneficiary({ ...otherBeneficiary, relationship: e.target.value })}
+            placeholder="Relationship"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleAddOtherBeneficiary}
+            disabled={!otherBeneficiary.name || !otherBeneficiary.relationship}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          onClick={handleSaveTrust}
+          disabled={!trust.name.trim() || trust.trustees.length === 0 || trust.beneficiaries.length === 0}
+        >
+          {isEditing ? 'Save Changes' : 'Add Trust'}
+        </Button>
+        <Button variant="outline" onClick={() => setDraft(null)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Landmark className="h-5 w-5 text-primary" />
+        <div>
+          <h3 className="text-lg font-semibold">Testamentary Trusts</h3>
+          <p className="text-sm text-muted-foreground">
+            Hold assets on trust for beneficiaries until they reach the age you choose
+          </p>
+        </div>
+      </div>
+
+      {trustRequired && data.trusts.length === 0 && !draft && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+          A complex DIFC will needs at least one trust with a trustee.
+        </div>
+      )}
+
+      {/* Existing trusts */}
+      {data.trusts.map(trust => (
+        draft?.id === trust.id ? null : (
+          <Card key={trust.id}>
+            <CardContent className="p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex items-start gap-3">
+                  <div className="p-2 rounded-lg bg-primary/10">
+                    <Landmark className="h-5 w-5 text-primary" />
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h5 className="font-medium">{trust.name}</h5>
+                      <Badge variant="secondary" className="text-xs">
+                        Vests at {trust.vestingAge}
+                      </Badge>
+                      <Badge variant="outline" className="text-xs">
+                        {distributionStandards.find(standard => standard.value === trust.distributionStandard)?.label}
+                      </Badge>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      Trustees: {trust.trustees.map(trustee => trustee.name).join(', ')}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      For: {trust.beneficiaries.map(b => `${b.name} (${b.share}%)`).join(', ')}
+                    </div>
+                    {trust.assetIds.length > 0 && (
+                      <div className="text-sm text-muted-foreground">
+                        Assets: {trust.assetIds
+                          .map(id => data.assets.find(asset => asset.id === id)?.description)
+                          .filter(Boolean)
+                          .join(', ')}
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setDraft(trust)}
+                    disabled={!!draft}
+                  >
+                    <Edit3 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRemoveTrust(trust.id)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )
+      ))}
+
+      {/* Add or edit a trust */}
+      {draft ? (
+        <Card>
+          <CardContent className="p-4">
+            {renderTrustForm(draft)}
+          </CardContent>
+        </Card>
+      ) : (
+        <Button variant="outline" onClick={() => setDraft(emptyTrust())}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Trust
+        </Button>
+      )}
+
+      {/* Validation Errors */}
+      {errors.trusts && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start gap-2">
+            <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+            <p className="text-sm text-red-600">{errors.trusts}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Information Notice */}
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <div className="flex items-start gap-2">
+          <Landmark className="h-5 w-5 text-blue-600 mt-0.5" />
+          <div>
+            <h4 className="text-sm font-medium text-blue-800">Trust Guidelines</h4>
+            <ul className="text-sm text-blue-700 mt-1 space-y-1">
+              <li>• Trusts are optional for simple wills and required for complex wills</li>
+              <li>• Each asset can be held by only one trust</li>
+              <li>• Name an alternate or professional trustee in case your first choice cannot act</li>
+              <li>• Vesting ages must be between 18 and 40</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * Traceability Report
+ * Shows which asset, beneficiary or person each generated clause came from, and what the verifier flagged
+ */
+
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, AlertTriangle, CheckCircle, Link2 } from "lucide-react";
+import type { TraceabilityReport as Report } from "@/lib/will-verifier";
+
+interface TraceabilityReportProps {
+  report: Report;
+}
+
+const STATUS_STYLES: Record<Report['status'], { label: string; className: string }> = {
+  pass: { label: 'All clauses traced', className: 'bg-green-100 text-green-800' },
+  warnings: { label: 'Review warnings', className: 'bg-amber-100 text-amber-800' },
+  fail: { label: 'Needs correction', className: 'bg-red-100 text-red-800' },
+};
+
+export function TraceabilityReport({ report }: TraceabilityReportProps) {
+  const status = STATUS_STYLES[report.status];
+  const tracedClauses = report.clauses.filter(clause => clause.sources.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Link2 className="h-5 w-5" />
+            Clause Traceability
+          </CardTitle>
+          <Badge className={status.className}>{status.label}</Badge>
+        </div>
+        <CardDescription>
+          Where each clause came from in the will data, checked for missing, invented or mismatched details
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Coverage per document */}
+        <div className="grid gap-3 md:grid-cols-2">
+          {(['template', 'ai'] as const).map(origin => {
+            const coverage = report.coverage[origin];
+            if (!coverage) return null;
+
+            return (
+              <div key={origin} className="p-3 bg-gray-50 rounded-lg text-sm">
+                <div className="font-medium mb-1">{origin === 'ai' ? 'AI-drafted will' : 'Template will'}</div>
+                <div className="text-muted-foreground">
+                  Assets covered: {coverage.assets.covered}/{coverage.assets.total}
+                </div>
+                <div className="text-muted-foreground">
+                  Beneficiaries covered: {coverage.beneficiaries.covered}/{coverage.beneficiaries.total}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Issues */}
+        {report.issues.length > 0 ? (
+          <ul className="space-y-2">
+            {report.issues.map((issue, index) => (
+              <li key={index} className="flex items-start gap-2 text-sm">
+                {issue.severity === 'error' ? (
+                  <AlertCircle className="h-4 w-4 mt-0.5 text-red-600 shrink-0" />
+                ) : (
+                  <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-600 shrink-0" />
+                )}
+                <span>
+                  {issue.message}
+                  <span className="text-muted-foreground"> ({issue.origin === 'ai' ? 'AI draft' : 'template'})</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" />
+            Every asset and beneficiary is covered and no unknown names or shares were found.
+          </div>
+        )}
+
+        {/* Clause sources */}
+        {tracedClauses.length > 0 && (
+          <div>
+            <h5 className="font-medium mb-2 text-sm">Clause sources</h5>
+            <div className="space-y-2">
+              {tracedClauses.map(clause => (
+                <div key={`${clause.origin}-${clause.clauseKey}`} className="text-sm border rounded-lg p-2">
+                  <div className="font-medium">
+                    {clause.title}
+                    <span className="text-muted-foreground font-normal"> · {clause.origin === 'ai' ? 'AI draft' : 'template'}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {clause.sources.map(source => (
+                      <Badge
+                        key={`${source.type}-${source.id}`}
+                        variant={source.label ? 'secondary' : 'destructive'}
+                      >
+                        {source.type}: {source.label || source.id}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
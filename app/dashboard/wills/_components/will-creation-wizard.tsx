@@ -17,6 +17,8 @@ import {
   Home, 
   Heart, 
   Shield, 
+  Landmark,
+  Building,
   FileText, 
   Bot,
   CheckCircle,
@@ -30,6 +32,8 @@ import { PersonalInfoStep } from "./steps/personal-info-step";
 import { AssetsStep } from "./steps/assets-step";
 import { BeneficiariesStep } from "./steps/beneficiaries-step";
 import { GuardiansStep } from "./steps/guardians-step";
+import { TrustsStep } from "./steps/trusts-step";
+import { BusinessStep } from "./steps/business-step";
 import { ReviewStep } from "./steps/review-step";
 import { GenerationStep } from "./steps/generation-step";
 
@@ -51,6 +55,41 @@ export interface WillData {
     value: number;
     location: string;
     specificInstructions?: string;
+    business?: {
+      entityName: string;
+      entityType: string;
+      jurisdiction: 'mainland' | 'free_zone' | 'difc';
+      licensingAuthority?: string;
+      tradeLicenceNumber: string;
+      shareholding: number;
+      shareClass: string;
+      coShareholders: Array<{
+        id: string;
+        name: string;
+        shareholding: number;
+      }>;
+      successors: Array<{
+        id: string;
+        beneficiaryId?: string; // Set when chosen from the will's beneficiaries
+        name: string;
+        relationship: string;
+        share: number; // Percentage of the testator's shares
+      }>;
+      interimManager?: string;
+      buySellAgreement?: {
+        counterparties: string;
+        valuationMethod: string;
+        insuranceFunded: boolean;
+      };
+      keyPersonProvisions?: string;
+    };
+    digital?: {
+      category: 'exchange_account' | 'self_custody_wallet' | 'domain_name' | 'social_account' | 'email_account' | 'cloud_storage' | 'other';
+      platform: string;
+      identifier?: string; // Account handle or public address only
+      network?: string;
+      disposition: 'transfer' | 'sell' | 'memorialise' | 'close';
+    };
   }>;
   
   // Beneficiaries
@@ -84,6 +123,34 @@ export interface WillData {
     alternateExecutor?: boolean;
   }>;
   
+  // Testamentary trusts
+  trusts: Array<{
+    id: string;
+    name: string;
+    purpose?: string;
+    trustees: Array<{
+      id: string;
+      name: string;
+      relationship: string;
+      address: string;
+      phone: string;
+      alternateTrustee?: boolean;
+      professional?: boolean;
+    }>;
+    beneficiaries: Array<{
+      id: string;
+      beneficiaryId?: string; // Set when chosen from the will's beneficiaries
+      name: string;
+      relationship: string;
+      share: number;
+      vestingAge?: number;
+    }>;
+    assetIds: string[];
+    vestingAge: number;
+    distributionStandard: 'hems' | 'discretionary' | 'fixed_income' | 'custom';
+    distributionTerms?: string;
+  }>;
+  
   // Special Instructions
   specialInstructions?: string;
   funeralArrangements?: string;
@@ -124,6 +191,18 @@ const steps = [
     description: 'Guardians for minors and will executors',
     icon: Shield,
   },
+  {
+    id: 'trusts',
+    title: 'Trusts',
+    description: 'Assets held on trust for beneficiaries',
+    icon: Landmark,
+  },
+  {
+    id: 'business',
+    title: 'Business Succession',
+    description: 'Company shareholdings and successors',
+    icon: Building,
+  },
   {
     id: 'review',
     title: 'Review & Finalize',
@@ -158,6 +237,7 @@ export function WillCreationWizard({ userId, willId, matterId, autoSave = true }
     beneficiaries: [],
     guardians: [],
     executors: [],
+    trusts: [],
     difcCompliant: true,
     willType: 'simple',
     language: 'en',
@@ -220,6 +300,8 @@ export function WillCreationWizard({ userId, willId, matterId, autoSave = true }
             value: asset.value,
             location: asset.location,
             specificInstructions: asset.specificInstructions,
+            business: asset.business,
+            digital: asset.digital,
           })),
           beneficiaries: dataToSave.beneficiaries.map(ben => ({
             id: ben.id,
@@ -232,6 +314,7 @@ export function WillCreationWizard({ userId, willId, matterId, autoSave = true }
           })),
           guardians: dataToSave.guardians,
           executors: dataToSave.executors,
+          trusts: dataToSave.trusts,
           specialInstructions: dataToSave.specialInstructions,
           willType: dataToSave.willType,
           language: dataToSave.language,
@@ -275,6 +358,7 @@ export function WillCreationWizard({ userId, willId, matterId, autoSave = true }
               beneficiaries: will.beneficiaries || [],
               guardians: will.guardians || [],
               executors: will.executors || [],
+              trusts: will.trusts || [],
               specialInstructions: will.specialInstructions || '',
               willType: will.willType || 'simple',
               language: will.language || 'en',
@@ -318,6 +402,14 @@ export function WillCreationWizard({ userId, willId, matterId, autoSave = true }
         if (willData.assets.length === 0) {
           errors.assets = 'At least one asset must be specified';
         }
+        for (const asset of willData.assets) {
+          if (asset.type !== 'digital') continue;
+          if (!asset.digital?.platform.trim()) {
+            errors.assets = `Add the platform for ${asset.description}`;
+          } else if (asset.digital.category === 'self_custody_wallet' && asset.digital.disposition === 'memorialise') {
+            errors.assets = `${asset.description} is a wallet and cannot be memorialised`;
+          }
+        }
         break;
         
       case 2: // Beneficiaries
@@ -335,6 +427,44 @@ export function WillCreationWizard({ userId, willId, matterId, autoSave = true }
           errors.executors = 'At least one executor must be specified';
         }
         break;
+        
+      case 4: // Trusts
+        if (willData.willType === 'complex' && willData.trusts.length === 0) {
+          errors.trusts = 'A complex will needs at least one trust with a trustee';
+        }
+        for (const trust of willData.trusts) {
+          const totalShare = trust.beneficiaries.reduce((sum, b) => sum + b.share, 0);
+          const ages = [trust.vestingAge, ...trust.beneficiaries.map(b => b.vestingAge ?? trust.vestingAge)];
+          if (trust.trustees.length === 0) {
+            errors.trusts = `${trust.name} needs at least one trustee`;
+          } else if (Math.abs(totalShare - 100) > 0.01) {
+            errors.trusts = `${trust.name} beneficiary shares must total 100%`;
+          } else if (ages.some(age => age < 18 || age > 40)) {
+            errors.trusts = `${trust.name} vesting ages must be between 18 and 40`;
+          } else if (trust.distributionStandard === 'custom' && !trust.distributionTerms?.trim()) {
+            errors.trusts = `${trust.name} needs custom distribution terms`;
+          }
+        }
+        break;
+        
+      case 5: // Business Succession
+        if (willData.willType === 'business_succession' && !willData.assets.some(asset => asset.business)) {
+          errors.business = 'A business succession will needs details of at least one business interest';
+        }
+        for (const asset of willData.assets) {
+          if (asset.type !== 'business' || !asset.business) continue;
+          const { entityName, shareholding, coShareholders, successors } = asset.business;
+          const companyTotal = shareholding + coShareholders.reduce((sum, c) => sum + c.shareholding, 0);
+          const bequeathed = successors.reduce((sum, s) => sum + s.share, 0);
+          if (shareholding <= 0 || shareholding > 100) {
+            errors.business = `${entityName} shareholding must be between 0% and 100%`;
+          } else if (companyTotal > 100.01) {
+            errors.business = `${entityName} shareholdings total ${companyTotal}%, more than 100% of the company`;
+          } else if (bequeathed > 100.01) {
+            errors.business = `${entityName} shareholding bequeathed exceeds 100%`;
+          }
+        }
+        break;
     }
     
     setValidationErrors(errors);
@@ -442,12 +572,28 @@ export function WillCreationWizard({ userId, willId, matterId, autoSave = true }
         );
       case 4:
         return (
-          <ReviewStep 
+          <TrustsStep 
             data={willData} 
             updateData={updateWillData}
+            errors={validationErrors}
           />
         );
       case 5:
+        return (
+          <BusinessStep 
+            data={willData} 
+            updateData={updateWillData}
+            errors={validationErrors}
+          />
+        );
+      case 6:
+        return (
+          <ReviewStep 
+            data={willData} 
+            updateData={updateWillData}
+          />
+        );
+      case 7:
         return (
           <GenerationStep 
             data={willData}
@@ -517,7 +663,7 @@ export function WillCreationWizard({ userId, willId, matterId, autoSave = true }
       </Card>
 
       {/* Step Navigation */}
-      <div className="grid grid-cols-6 gap-2">
+      <div className="grid grid-cols-8 gap-2">
         {steps.map((step, index) => {
           const StepIcon = step.icon;
           const isCompleted = index < currentStep;
@@ -0,0 +1,726 @@
+/**
+ * Intake Questionnaire Component
+ * Multi-step client questionnaire that saves as the client goes, so they can close the page and resume from the link
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, Loader2, Plus, Save, Trash2, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+type Step = 'personal_info' | 'assets' | 'beneficiaries' | 'existing_wills' | 'special_circumstances' | 'documents' | 'review';
+
+interface DraftAnswers {
+  personalInfo?: {
+    fullName?: string;
+    emiratesId?: string;
+    visaStatus?: string;
+    nationality?: string;
+    maritalStatus?: string;
+    contactInfo?: { email?: string; phone?: string; address?: string };
+  };
+  assets?: Array<{ type?: string; name?: string; description?: string; estimatedValue?: number; currency?: string; jurisdiction?: string }>;
+  beneficiaries?: Array<{ type?: string; fullName?: string; relationship?: string; dateOfBirth?: string; nationality?: string; inheritancePercentage?: number }>;
+  existingWills?: Array<{ jurisdiction?: string; dateExecuted?: string; registeredWith?: string; notes?: string }>;
+  specialCircumstances?: string[];
+}
+
+interface UploadedDocument {
+  id: string;
+  documentType: string;
+  fileName: string;
+}
+
+interface Questionnaire {
+  status: 'open' | 'submitted' | 'revoked' | 'expired';
+  firmName: string;
+  clientName: string;
+  matterTitle: string;
+  message: string | null;
+  expiresAt: string;
+  submittedAt: string | null;
+  answers?: DraftAnswers;
+  currentStep?: Step | null;
+  lastSavedAt?: string | null;
+  documents?: UploadedDocument[];
+}
+
+interface IntakeQuestionnaireProps {
+  token: string;
+}
+
+const steps: Array<{ id: Step; title: string; description: string }> = [
+  { id: 'personal_info', title: 'About You', description: 'Your details as they appear on your Emirates ID' },
+  { id: 'assets', title: 'Your Assets', description: 'Property, accounts, investments and businesses you own' },
+  { id: 'beneficiaries', title: 'Beneficiaries', description: 'The people and organisations you would like to inherit' },
+  { id: 'existing_wills', title: 'Existing Wills', description: 'Any wills you have already made, in the UAE or elsewhere' },
+  { id: 'special_circumstances', title: 'Anything Else', description: 'Circumstances your lawyer should know about' },
+  { id: 'documents', title: 'ID Documents', description: 'A copy of your passport or Emirates ID' },
+  { id: 'review', title: 'Review & Submit', description: 'Check your answers before sending them to your lawyer' },
+];
+
+const documentTypeLabels: Record<string, string> = {
+  passport_copy: 'Passport',
+  emirates_id_copy: 'Emirates ID',
+};
+
+const closedMessages: Record<string, { title: string; description: string }> = {
+  submitted: { title: 'Questionnaire submitted', description: 'Thank you. Your answers have been sent to your lawyer, who will be in touch.' },
+  revoked: { title: 'Link no longer active', description: 'This link has been replaced or withdrawn. Please contact your lawyer for a new one.' },
+  expired: { title: 'Link expired', description: 'This link has expired. Please contact your lawyer for a new one.' },
+};
+
+export function IntakeQuestionnaire({ token }: IntakeQuestionnaireProps) {
+  const [questionnaire, setQuestionnaire] = useState<Questionnaire | null>(null);
+  const [answers, setAnswers] = useState<DraftAnswers>({});
+  const [documents, setDocuments] = useState<UploadedDocument[]>([]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchQuestionnaire();
+  }, [token]);
+
+  const fetchQuestionnaire = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/intake/${token}`);
+      const data = await response.json();
+
+      if (data.success) {
+        const loaded: Questionnaire = data.questionnaire;
+        setQuestionnaire(loaded);
+        setAnswers(loaded.answers || {});
+        setDocuments(loaded.documents || []);
+        setLastSavedAt(loaded.lastSavedAt || null);
+        const resumeAt = steps.findIndex((step) => step.id === loaded.currentStep);
+        setStepIndex(resumeAt >= 0 ? resumeAt : 0);
+      } else {
+        setError(data.error || 'This link could not be opened');
+      }
+    } catch (error) {
+      console.error('Error fetching questionnaire:', error);
+      setError('This link could not be opened');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveProgress = async (currentStep: Step) => {
+    setSaving(true);
+
+    try {
+      const response = await fetch(`/api/intake/${token}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ answers, currentStep }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setLastSavedAt(result.lastSavedAt);
+        return true;
+      }
+
+      toast.error(result.error || 'Failed to save your answers');
+      if (response.status === 409 || response.status === 410) await fetchQuestionnaire();
+      return false;
+    } catch (error) {
+      console.error('Error saving questionnaire:', error);
+      toast.error('Failed to save your answers');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const goToStep = async (index: number) => {
+    if (await saveProgress(steps[index].id)) {
+      setValidationErrors([]);
+      setStepIndex(index);
+      window.scrollTo({ top: 0 });
+    }
+  };
+
+  const handleSaveForLater = async () => {
+    if (await saveProgress(steps[stepIndex].id)) {
+      toast.success('Your answers are saved. Open the same link to continue later.');
+    }
+  };
+
+  const handleUpload = async (documentType: string, file: File | undefined) => {
+    if (!file) return;
+
+    setUploading(documentType);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('documentType', documentType);
+
+      const response = await fetch(`/api/intake/${token}/documents`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setDocuments((current) => [...current, result.document]);
+        toast.success(`${documentTypeLabels[documentType]} uploaded`);
+      } else {
+        toast.error(result.error || 'Failed to upload document');
+      }
+    } catch (error) {
+      console.error('Error uploading document:', error);
+      toast.error('Failed to upload document');
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    setValidationErrors([]);
+
+    try {
+      const response = await fetch(`/api/intake/${token}/submit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ answers }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setQuestionnaire((current) => current && { ...current, status: 'submitted', submittedAt: result.submittedAt });
+      } else if (Array.isArray(result.details)) {
+        setValidationErrors(result.details.map((issue: { path: Array<string | number>; message: string }) =>
+          `${issue.path.join(' › ')}: ${issue.message}`
+        ));
+      } else {
+        setValidationErrors([result.error || 'Failed to submit your answers']);
+      }
+    } catch (error) {
+      console.error('Error submitting questionnaire:', error);
+      setValidationErrors(['Failed to submit your answers']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatePersonalInfo = (updates: NonNullable<DraftAnswers['personalInfo']>) => {
+    setAnswers((current) => ({ ...current, personalInfo: { ...current.personalInfo, ...updates } }));
+  };
+
+  const updateContactInfo = (updates: NonNullable<NonNullable<DraftAnswers['personalInfo']>['contactInfo']>) => {
+    setAnswers((current) => ({
+      ...current,
+      personalInfo: { ...current.personalInfo, contactInfo: { ...current.personalInfo?.contactInfo, ...updates } },
+    }));
+  };
+
+  const updateListItem = <K extends 'assets' | 'beneficiaries' | 'existingWills'>(
+    key: K,
+    index: number,
+    updates: NonNullable<DraftAnswers[K]>[number]
+  ) => {
+    setAnswers((current) => ({
+      ...current,
+      [key]: (current[key] || []).map((item, i) => (i === index ? { ...item, ...updates } : item)),
+    }));
+  };
+
+  const addListItem = <K extends 'assets' | 'beneficiaries' | 'existingWills'>(key: K, item: NonNullable<DraftAnswers[K]>[number]) => {
+    setAnswers((current) => ({ ...current, [key]: [...(current[key] || []), item] }));
+  };
+
+  const removeListItem = (key: 'assets' | 'beneficiaries' | 'existingWills', index: number) => {
+    setAnswers((current) => ({ ...current, [key]: (current[key] || []).filter((_, i) => i !== index) }));
+  };
+
+  const parseNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+  if (loading) {
+    return (
+      <Card className="animate-pulse">
+        <CardContent className="p-6">
+          <div className="space-y-3">
+            <div className="h-6 bg-gray-200 rounded w-1/3"></div>
+            <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+            <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!questionnaire) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Link not found</h3>
+          <p className="text-gray-500">{error || 'Please check the link, or ask your lawyer for a new one.'}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (questionnaire.status !== 'open') {
+    const closed = closedMessages[questionnaire.status];
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          {questionnaire.status === 'submitted' ? (
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+          ) : (
+            <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          )}
+          <h3 className="text-lg font-medium text-gray-900 mb-2">{closed.title}</h3>
+          <p className="text-gray-500">{closed.description}</p>
+          <p className="text-sm text-gray-500 mt-4">{questionnaire.firmName}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const step = steps[stepIndex];
+  const personalInfo = answers.personalInfo || {};
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Hello {questionnaire.clientName}</CardTitle>
+          <CardDescription>
+            {questionnaire.firmName} has asked you to complete this questionnaire for {questionnaire.matterTitle}.
+            This link expires on {format(new Date(questionnaire.expiresAt), 'dd MMM yyyy')}.
+          </CardDescription>
+        </CardHeader>
+        {questionnaire.message && (
+          <CardContent>
+            <p className="text-sm whitespace-pre-line rounded-lg bg-gray-50 p-3">{questionnaire.message}</p>
+          </CardContent>
+        )}
+      </Card>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">Step {stepIndex + 1} of {steps.length}: {step.title}</span>
+          {lastSavedAt && (
+            <span className="text-muted-foreground">Saved {format(new Date(lastSavedAt), 'dd MMM, HH:mm')}</span>
+          )}
+        </div>
+        <Progress value={((stepIndex + 1) / steps.length) * 100} className="h-2" />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{step.title}</CardTitle>
+          <CardDescription>{step.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {step.id === 'personal_info' && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="fullName">Full Legal Name *</Label>
+                <Input
+                  id="fullName"
+                  value={personalInfo.fullName || ''}
+                  onChange={(e) => updatePersonalInfo({ fullName: e.target.value })}
+                  placeholder="As it appears on Emirates ID"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="emiratesId">Emirates ID Number *</Label>
+                <Input
+                  id="emiratesId"
+                  value={personalInfo.emiratesId || ''}
+                  onChange={(e) => updatePersonalInfo({ emiratesId: e.target.value })}
+                  placeholder="784-XXXX-XXXXXXX-X"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="nationality">Nationality *</Label>
+                <Input
+                  id="nationality"
+                  value={personalInfo.nationality || ''}
+                  onChange={(e) => updatePersonalInfo({ nationality: e.target.value })}
+                  placeholder="e.g., Emirati, British, Indian"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Visa Status *</Label>
+                <Select value={personalInfo.visaStatus} onValueChange={(value) => updatePersonalInfo({ visaStatus: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select visa status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="residence">Residence</SelectItem>
+                    <SelectItem value="employment">Employment</SelectItem>
+                    <SelectItem value="investor">Investor</SelectItem>
+                    <SelectItem value="golden">Golden Visa</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Marital Status *</Label>
+                <Select value={personalInfo.maritalStatus} onValueChange={(value) => updatePersonalInfo({ maritalStatus: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select marital status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="single">Single</SelectItem>
+                    <SelectItem value="married">Married</SelectItem>
+                    <SelectItem value="divorced">Divorced</SelectItem>
+                    <SelectItem value="widowed">Widowed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email">Email *</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={personalInfo.contactInfo?.email || ''}
+                  onChange={(e) => updateContactInfo({ email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone *</Label>
+                <Input
+                  id="phone"
+                  value={personalInfo.contactInfo?.phone || ''}
+                  onChange={(e) => updateContactInfo({ phone: e.target.value })}
+                  placeholder="+971 50 123 4567"
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="address">Home Address</Label>
+                <Textarea
+                  id="address"
+                  value={personalInfo.contactInfo?.address || ''}
+                  onChange={(e) => updateContactInfo({ address: e.target.value })}
+                  rows={2}
+                />
+              </div>
+            </div>
+          )}
+
+          {step.id === 'assets' && (
+            <div className="space-y-4">
+              {(answers.assets || []).map((asset, index) => (
+                <div key={index} className="grid gap-3 rounded-lg border p-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select value={asset.type} onValueChange={(value) => updateListItem('assets', index, { type: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="property">Property</SelectItem>
+                        <SelectItem value="bank_account">Bank Account</SelectItem>
+                        <SelectItem value="investment">Investment</SelectItem>
+                        <SelectItem value="business">Business</SelectItem>
+                        <SelectItem value="digital">Digital Asset</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Name</Label>
+                    <Input
+                      value={asset.name || ''}
+                      onChange={(e) => updateListItem('assets', index, { name: e.target.value })}
+                      placeholder="e.g., Apartment in Dubai Marina"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Estimated Value</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        value={asset.estimatedValue ?? ''}
+                        onChange={(e) => updateListItem('assets', index, { estimatedValue: parseNumber(e.target.value) })}
+                      />
+                      <Input
+                        className="w-20"
+                        maxLength={3}
+                        value={asset.currency || 'AED'}
+                        onChange={(e) => updateListItem('assets', index, { currency: e.target.value.toUpperCase() })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Location</Label>
+                    <Input
+                      value={asset.jurisdiction || ''}
+                      onChange={(e) => updateListItem('assets', index, { jurisdiction: e.target.value })}
+                      placeholder="e.g., Dubai, United Kingdom"
+                    />
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Description</Label>
+                    <Textarea
+                      value={asset.description || ''}
+                      onChange={(e) => updateListItem('assets', index, { description: e.target.value })}
+                      rows={2}
+                    />
+                  </div>
+                  <div className="md:col-span-2 flex justify-end">
+                    <Button variant="ghost" size="sm" onClick={() => removeListItem('assets', index)}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button variant="outline" onClick={() => addListItem('assets', { currency: 'AED' })}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Asset
+              </Button>
+            </div>
+          )}
+
+          {step.id === 'beneficiaries' && (
+            <div className="space-y-4">
+              {(answers.beneficiaries || []).map((beneficiary, index) => (
+                <div key={index} className="grid gap-3 rounded-lg border p-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Full Name</Label>
+                    <Input
+                      value={beneficiary.fullName || ''}
+                      onChange={(e) => updateListItem('beneficiaries', index, { fullName: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Relationship</Label>
+                    <Input
+                      value={beneficiary.relationship || ''}
+                      onChange={(e) => updateListItem('beneficiaries', index, { relationship: e.target.value })}
+                      placeholder="e.g., Spouse, Son, Charity"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Date of Birth</Label>
+                    <Input
+                      type="date"
+                      value={beneficiary.dateOfBirth || ''}
+                      onChange={(e) => updateListItem('beneficiaries', index, { dateOfBirth: e.target.value || undefined })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Share of Estate (%)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={beneficiary.inheritancePercentage ?? ''}
+                      onChange={(e) => updateListItem('beneficiaries', index, { inheritancePercentage: parseNumber(e.target.value) })}
+                    />
+                  </div>
+                  <div className="md:col-span-2 flex justify-end">
+                    <Button variant="ghost" size="sm" onClick={() => removeListItem('beneficiaries', index)}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button variant="outline" onClick={() => addListItem('beneficiaries', { type: 'individual' })}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Beneficiary
+              </Button>
+            </div>
+          )}
+
+          {step.id === 'existing_wills' && (
+            <div className="space-y-4">
+              {(answers.existingWills || []).length === 0 && (
+                <p className="text-sm text-muted-foreground">If you have never made a will, continue to the next step.</p>
+              )}
+              {(answers.existingWills || []).map((existingWill, index) => (
+                <div key={index} className="grid gap-3 rounded-lg border p-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Country or Registry</Label>
+                    <Input
+                      value={existingWill.jurisdiction || ''}
+                      onChange={(e) => updateListItem('existingWills', index, { jurisdiction: e.target.value })}
+                      placeholder="e.g., DIFC, England and Wales"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Date Signed</Label>
+                    <Input
+                      type="date"
+                      value={existingWill.dateExecuted || ''}
+                      onChange={(e) => updateListItem('existingWills', index, { dateExecuted: e.target.value || undefined })}
+                    />
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Notes</Label>
+                    <Textarea
+                      value={existingWill.notes || ''}
+                      onChange={(e) => updateListItem('existingWills', index, { notes: e.target.value })}
+                      placeholder="Where it is kept, and whether it should be revoked"
+                      rows={2}
+                    />
+                  </div>
+                  <div className="md:col-span-2 flex justify-end">
+                    <Button variant="ghost" size="sm" onClick={() => removeListItem('existingWills', index)}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button variant="outline" onClick={() => addListItem('existingWills', {})}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Existing Will
+              </Button>
+            </div>
+          )}
+
+          {step.id === 'special_circumstances' && (
+            <div className="space-y-2">
+              <Label htmlFor="specialCircumstances">One item per line</Label>
+              <Textarea
+                id="specialCircumstances"
+                value={(answers.specialCircumstances || []).join('\n')}
+                onChange={(e) => setAnswers((current) => ({ ...current, specialCircumstances: e.target.value.split('\n') }))}
+                placeholder="e.g., Children from a previous marriage, property held jointly, a dependant with special needs"
+                rows={6}
+              />
+            </div>
+          )}
+
+          {step.id === 'documents' && (
+            <div className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                {Object.entries(documentTypeLabels).map(([documentType, label]) => (
+                  <div key={documentType} className="space-y-2 rounded-lg border p-4">
+                    <Label htmlFor={documentType}>{label}</Label>
+                    <Input
+                      id={documentType}
+                      type="file"
+                      accept="application/pdf,image/jpeg,image/png"
+                      disabled={uploading !== null}
+                      onChange={(e) => {
+                        handleUpload(documentType, e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                    {uploading === documentType && (
+                      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Uploading...
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">PDF, JPEG or PNG, up to 10 MB each.</p>
+              {documents.length > 0 && (
+                <div className="space-y-2">
+                  {documents.map((document) => (
+                    <div key={document.id} className="flex items-center gap-2 text-sm">
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                      {documentTypeLabels[document.documentType] || document.documentType}: {document.fileName}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {step.id === 'review' && (
+            <div className="space-y-4 text-sm">
+              <div>
+                <p className="font-medium">About you</p>
+                <p className="text-muted-foreground">
+                  {personalInfo.fullName || 'Name missing'} · {personalInfo.nationality || 'Nationality missing'} · {personalInfo.emiratesId || 'Emirates ID missing'}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium">Assets</p>
+                <p className="text-muted-foreground">
+                  {(answers.assets || []).map((asset) => asset.name).filter(Boolean).join(', ') || 'None listed'}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium">Beneficiaries</p>
+                <p className="text-muted-foreground">
+                  {(answers.beneficiaries || []).map((beneficiary) => beneficiary.fullName).filter(Boolean).join(', ') || 'None listed'}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium">Existing wills</p>
+                <p className="text-muted-foreground">{(answers.existingWills || []).length || 'None'}</p>
+              </div>
+              <div>
+                <p className="font-medium">ID documents</p>
+                <p className="text-muted-foreground">{documents.length > 0 ? `${documents.length} uploaded` : 'None uploaded'}</p>
+              </div>
+              {validationErrors.length > 0 && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-red-700">
+                  <p className="font-medium mb-1">Please fix the following before submitting:</p>
+                  <ul className="list-disc pl-5 space-y-1">
+                    {validationErrors.map((message) => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="outline" onClick={() => goToStep(stepIndex - 1)} disabled={stepIndex === 0 || saving}>
+          <ChevronLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" onClick={handleSaveForLater} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            Save and finish later
+          </Button>
+          {step.id === 'review' ? (
+            <Button onClick={handleSubmit} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Submit to {questionnaire.firmName}
+            </Button>
+          ) : (
+            <Button onClick={() => goToStep(stepIndex + 1)} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Continue
+              <ChevronRight className="h-4 w-4 ml-2" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
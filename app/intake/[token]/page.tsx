@@ -0,0 +1,30 @@
+/**
+ * Client Intake Page
+ * Questionnaire opened from a lawyer's intake link; the token in the URL stands in for a sign-in
+ */
+
+import { Scale } from "lucide-react";
+import { IntakeQuestionnaire } from "./_components/intake-questionnaire";
+
+export default function IntakePage({
+  params,
+}: {
+  params: { token: string };
+}) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-gray-100 p-6">
+      <div className="mx-auto w-full max-w-3xl">
+        <div className="flex items-center gap-3 mb-8">
+          <div className="flex items-center justify-center w-12 h-12 rounded-xl bg-gradient-to-br from-green-600 to-green-700 text-white">
+            <Scale className="h-6 w-6" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Mirath Legal</h1>
+            <p className="text-sm text-gray-600">Estate Planning Questionnaire</p>
+          </div>
+        </div>
+        <IntakeQuestionnaire token={params.token} />
+      </div>
+    </div>
+  );
+}
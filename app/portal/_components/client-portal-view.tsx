@@ -0,0 +1,149 @@
+/**
+ * Client Portal View Component
+ * Lists the client's matters alongside what is waiting on them and their upcoming appointments
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, ChevronRight, FolderOpen } from "lucide-react";
+import { format } from "date-fns";
+import { getProgressForStatus, getStatusLabel, MATTER_STATUS_DEFINITIONS, isMatterStatus } from "@/lib/matter-status";
+import { PortalAppointmentList, PortalTaskList, type PortalAppointment, type PortalTask } from "./portal-sections";
+
+export interface PortalMatter {
+  id: string;
+  matterNumber: string;
+  title: string;
+  matterType: string;
+  status: string | null;
+  dueDate: string | null;
+  targetCompletionDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lawFirmName: string;
+  lawyerName: string | null;
+  lawyerEmail: string | null;
+}
+
+export function ClientPortalView() {
+  const router = useRouter();
+  const [matters, setMatters] = useState<PortalMatter[]>([]);
+  const [tasks, setTasks] = useState<PortalTask[]>([]);
+  const [appointments, setAppointments] = useState<PortalAppointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchOverview();
+  }, []);
+
+  const fetchOverview = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/portal');
+      const data = await response.json();
+
+      if (data.success) {
+        setMatters(data.matters);
+        setTasks(data.tasks);
+        setAppointments(data.appointments);
+      } else {
+        setError(data.error || 'Failed to load your matters');
+      }
+    } catch (error) {
+      console.error('Error fetching portal overview:', error);
+      setError('Failed to load your matters');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        {[...Array(3)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="space-y-3">
+                <div className="h-6 bg-gray-200 rounded w-1/3"></div>
+                <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-500">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FolderOpen className="h-5 w-5" />
+            Your Matters
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {matters.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You have no matters yet. Once a law firm opens a matter for you, it will appear here.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {matters.map((matter) => (
+                <button
+                  key={matter.id}
+                  type="button"
+                  onClick={() => router.push(`/portal/matters/${matter.id}`)}
+                  className="w-full rounded-lg border p-4 text-left transition hover:bg-gray-50"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <p className="font-medium">{matter.title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {matter.matterNumber} · {matter.lawFirmName}
+                        {matter.lawyerName && ` · ${matter.lawyerName}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge className={isMatterStatus(matter.status) ? MATTER_STATUS_DEFINITIONS[matter.status].color : ''}>
+                        {getStatusLabel(matter.status)}
+                      </Badge>
+                      <ChevronRight className="h-4 w-4 text-gray-400" />
+                    </div>
+                  </div>
+                  <div className="mt-3 flex items-center gap-3">
+                    <Progress value={getProgressForStatus(matter.status)} className="h-2" />
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      Updated {format(new Date(matter.updatedAt), 'dd MMM yyyy')}
+                    </span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <PortalTaskList tasks={tasks} />
+        <PortalAppointmentList appointments={appointments} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * Client Portal Sections
+ * Task and appointment lists shared by the portal home page and matter pages
+ */
+
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar, CheckCircle, Clock, PenLine, ListTodo } from "lucide-react";
+import { format } from "date-fns";
+
+export interface PortalTask {
+  id: string;
+  kind: 'task' | 'signature';
+  matterId: string;
+  title: string;
+  description: string | null;
+  dueDate: string | null;
+  status: string;
+}
+
+export interface PortalAppointment {
+  id: string;
+  confirmationNumber: string;
+  matterId: string | null;
+  serviceName: string;
+  location: string;
+  startsAt: string;
+  endsAt: string;
+  status: string;
+  lawyerName: string;
+}
+
+const locationLabels: Record<string, string> = {
+  office: 'At the firm',
+  client: 'At your location',
+  court: 'At court',
+  online: 'Online',
+};
+
+export function PortalTaskList({ tasks }: { tasks: PortalTask[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListTodo className="h-5 w-5" />
+          Waiting on You
+        </CardTitle>
+        <CardDescription>Tasks and signatures your lawyer has asked you to complete</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {tasks.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            Nothing needs your attention right now.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {tasks.map((task) => (
+              <div key={`${task.kind}-${task.id}`} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                <div className="flex items-start gap-3">
+                  {task.kind === 'signature' ? (
+                    <PenLine className="h-4 w-4 mt-0.5 text-blue-600" />
+                  ) : (
+                    <Clock className="h-4 w-4 mt-0.5 text-orange-600" />
+                  )}
+                  <div>
+                    <p className="font-medium">{task.title}</p>
+                    {task.description && (
+                      <p className="text-sm text-muted-foreground">{task.description}</p>
+                    )}
+                  </div>
+                </div>
+                {task.dueDate && (
+                  <Badge variant={task.status === 'overdue' ? 'destructive' : 'outline'}>
+                    Due {format(new Date(task.dueDate), 'dd MMM yyyy')}
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function PortalAppointmentList({ appointments }: { appointments: PortalAppointment[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calendar className="h-5 w-5" />
+          Upcoming Appointments
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {appointments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You have no upcoming appointments.</p>
+        ) : (
+          <div className="space-y-3">
+            {appointments.map((appointment) => (
+              <div key={appointment.id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                <div>
+                  <p className="font-medium">{appointment.serviceName}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {format(new Date(appointment.startsAt), 'EEEE dd MMM yyyy, HH:mm')} with {appointment.lawyerName}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {locationLabels[appointment.location] || appointment.location} · Ref {appointment.confirmationNumber}
+                  </p>
+                </div>
+                <div className="flex flex-col items-end gap-2">
+                  <Badge variant={appointment.status === 'confirmed' ? 'default' : 'secondary'}>
+                    {appointment.status === 'confirmed' ? 'Confirmed' : 'Awaiting confirmation'}
+                  </Badge>
+                  <a
+                    href={`/api/appointments/${appointment.id}/ics`}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    Add to Calendar
+                  </a>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
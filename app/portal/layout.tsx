@@ -0,0 +1,46 @@
+/**
+ * Client Portal Layout
+ * Signed-in area where clients follow their own matters
+ */
+
+import { ReactNode } from "react";
+import Link from "next/link";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import UserProfile from "@/components/user-profile";
+import { Scale } from "lucide-react";
+
+export default async function PortalLayout({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  const result = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!result?.session?.userId) {
+    redirect("/sign-in?returnTo=/portal");
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="flex h-14 items-center gap-4 border-b bg-white px-6">
+        <Link href="/portal" className="flex items-center gap-2">
+          <div className="flex items-center justify-center w-8 h-8 rounded-lg bg-gradient-to-br from-green-600 to-green-700 text-white">
+            <Scale className="h-4 w-4" />
+          </div>
+          <span className="font-semibold text-gray-900">Mirath Legal</span>
+          <span className="text-sm text-muted-foreground">Client Portal</span>
+        </Link>
+        <div className="flex justify-center items-center gap-2 ml-auto">
+          <UserProfile mini={true} />
+        </div>
+      </header>
+      <main className="mx-auto w-full max-w-5xl p-6">
+        {children}
+      </main>
+    </div>
+  );
+}
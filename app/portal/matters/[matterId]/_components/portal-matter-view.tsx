@@ -0,0 +1,283 @@
+/**
+ * Portal Matter View Component
+ * Shows a client their matter's progress, shared documents and updates from the firm
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, ArrowLeft, Download, FileText, History, Lock, PenLine } from "lucide-react";
+import { format } from "date-fns";
+import { getProgressForStatus, getStatusLabel, MATTER_STATUS_DEFINITIONS, isMatterStatus } from "@/lib/matter-status";
+import type { PortalMatter } from "../../../_components/client-portal-view";
+import {
+  PortalAppointmentList,
+  PortalTaskList,
+  type PortalAppointment,
+  type PortalTask,
+} from "../../../_components/portal-sections";
+
+interface PortalTimelineEvent {
+  id: string;
+  eventType: string;
+  title: string;
+  description: string | null;
+  timestamp: string;
+}
+
+interface PortalDocument {
+  id: string;
+  documentType: string;
+  fileName: string;
+  fileSize: number | null;
+  mimeType: string | null;
+  version: number | null;
+  status: string | null;
+  clientDownloadable: boolean | null;
+  requiresClientSignature: boolean | null;
+  clientSignedAt: string | null;
+  createdAt: string;
+}
+
+interface PortalMatterViewProps {
+  matterId: string;
+}
+
+const documentTypeLabels: Record<string, string> = {
+  intake_form: 'Intake Form',
+  assessment_report: 'Assessment Report',
+  ai_generated_will: 'Draft Will',
+  revised_will: 'Revised Draft Will',
+  client_review: 'Will for Your Review',
+  final_will: 'Final Will',
+  difc_submission: 'DIFC Submission',
+  certificate: 'Registration Certificate',
+  supporting_document: 'Supporting Document',
+  passport_copy: 'Passport Copy',
+  emirates_id_copy: 'Emirates ID Copy',
+  trade_licence: 'Trade Licence',
+  death_certificate: 'Death Certificate',
+};
+
+const formatFileSize = (bytes: number | null) => {
+  if (!bytes) return null;
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export function PortalMatterView({ matterId }: PortalMatterViewProps) {
+  const router = useRouter();
+  const [matter, setMatter] = useState<PortalMatter | null>(null);
+  const [timeline, setTimeline] = useState<PortalTimelineEvent[]>([]);
+  const [documents, setDocuments] = useState<PortalDocument[]>([]);
+  const [tasks, setTasks] = useState<PortalTask[]>([]);
+  const [appointments, setAppointments] = useState<PortalAppointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchMatter();
+  }, [matterId]);
+
+  const fetchMatter = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/portal/matters/${matterId}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setMatter(data.matter);
+        setTimeline(data.timeline);
+        setDocuments(data.documents);
+        setTasks(data.tasks);
+        setAppointments(data.appointments);
+      } else {
+        setError(data.error || 'Failed to load matter');
+      }
+    } catch (error) {
+      console.error('Error fetching portal matter:', error);
+      setError('Failed to load matter');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-gray-200 rounded w-64 animate-pulse"></div>
+        {[...Array(3)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="space-y-3">
+                <div className="h-6 bg-gray-200 rounded w-1/3"></div>
+                <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (!matter) {
+    return (
+      <div className="text-center py-12">
+        <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Matter not found</h3>
+        <p className="text-gray-500 mb-4">
+          {error || 'The requested matter could not be found or you do not have access to it.'}
+        </p>
+        <Button onClick={() => router.push('/portal')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Your Matters
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-4">
+        <Button variant="ghost" onClick={() => router.push('/portal')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Your Matters
+        </Button>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-semibold tracking-tight">{matter.title}</h1>
+            <p className="text-muted-foreground">
+              {matter.matterNumber} · {matter.lawFirmName}
+            </p>
+          </div>
+          <Badge className={isMatterStatus(matter.status) ? MATTER_STATUS_DEFINITIONS[matter.status].color : ''}>
+            {getStatusLabel(matter.status)}
+          </Badge>
+        </div>
+        <Card>
+          <CardContent className="p-6 space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">Progress</span>
+              <span className="text-muted-foreground">{getProgressForStatus(matter.status)}%</span>
+            </div>
+            <Progress value={getProgressForStatus(matter.status)} className="h-2" />
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+              {matter.lawyerName && (
+                <span>
+                  Your lawyer: {matter.lawyerName}
+                  {matter.lawyerEmail && (
+                    <a href={`mailto:${matter.lawyerEmail}`} className="ml-1 text-blue-600 hover:underline">
+                      {matter.lawyerEmail}
+                    </a>
+                  )}
+                </span>
+              )}
+              {matter.targetCompletionDate && (
+                <span>Target completion: {format(new Date(matter.targetCompletionDate), 'dd MMM yyyy')}</span>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <PortalTaskList tasks={tasks} />
+        <PortalAppointmentList appointments={appointments} />
+      </div>
+
+      {/* Documents */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Documents
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {documents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Your lawyer has not shared any documents yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {documents.map((document) => (
+                <div key={document.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="flex items-start gap-3">
+                    <FileText className="h-4 w-4 mt-0.5 text-blue-600" />
+                    <div>
+                      <p className="font-medium">{documentTypeLabels[document.documentType] || document.fileName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {document.fileName}
+                        {document.version && document.version > 1 && ` · Version ${document.version}`}
+                        {formatFileSize(document.fileSize) && ` · ${formatFileSize(document.fileSize)}`}
+                        {` · ${format(new Date(document.createdAt), 'dd MMM yyyy')}`}
+                      </p>
+                      {document.clientSignedAt ? (
+                        <p className="text-xs text-green-700 flex items-center gap-1 mt-1">
+                          <PenLine className="h-3 w-3" />
+                          Signed {format(new Date(document.clientSignedAt), 'dd MMM yyyy')}
+                        </p>
+                      ) : document.requiresClientSignature && (
+                        <p className="text-xs text-orange-700 flex items-center gap-1 mt-1">
+                          <PenLine className="h-3 w-3" />
+                          Awaiting your signature
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {document.clientDownloadable ? (
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/portal/documents/${document.id}`}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download
+                      </a>
+                    </Button>
+                  ) : (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Lock className="h-3 w-3" />
+                      Held by your lawyer
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Timeline */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Updates
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {timeline.length === 0 ? (
+            <p className="text-sm text-muted-foreground">There are no updates on this matter yet.</p>
+          ) : (
+            <ol className="relative space-y-4 border-l pl-6">
+              {timeline.map((event) => (
+                <li key={event.id} className="relative">
+                  <span className="absolute -left-[1.85rem] top-1.5 h-2.5 w-2.5 rounded-full bg-blue-600" />
+                  <p className="font-medium">{event.title}</p>
+                  {event.description && (
+                    <p className="text-sm text-muted-foreground">{event.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {format(new Date(event.timestamp), 'dd MMM yyyy, HH:mm')}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Client Portal Matter Page
+ * Progress, shared documents and updates for one of the client's matters
+ */
+
+import { PortalMatterView } from "./_components/portal-matter-view";
+
+export default function PortalMatterPage({
+  params,
+}: {
+  params: { matterId: string };
+}) {
+  return <PortalMatterView matterId={params.matterId} />;
+}
@@ -0,0 +1,22 @@
+/**
+ * Client Portal Page
+ * A client's matters, the tasks waiting on them and their upcoming appointments
+ */
+
+import { ClientPortalView } from "./_components/client-portal-view";
+
+export default function ClientPortalPage() {
+  return (
+    <section className="flex flex-col gap-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold tracking-tight">
+          Your Estate Planning
+        </h1>
+        <p className="text-muted-foreground">
+          Follow the progress of your matters and see what your lawyer needs from you.
+        </p>
+      </div>
+      <ClientPortalView />
+    </section>
+  );
+}
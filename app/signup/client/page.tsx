@@ -101,7 +101,7 @@ function ClientSignupContent() {
                     await authClient.signIn.social(
                       {
                         provider: "google",
-                        callbackURL: returnTo || "/dashboard",
+                        callbackURL: returnTo || "/portal",
                       },
                       {
                         onRequest: () => {
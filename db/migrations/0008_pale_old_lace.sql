@@ -0,0 +1,39 @@
+CREATE TABLE "invoices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"law_firm_id" uuid NOT NULL,
+	"matter_id" uuid NOT NULL,
+	"client_id" text NOT NULL,
+	"sequence_number" integer NOT NULL,
+	"invoice_number" text NOT NULL,
+	"status" text DEFAULT 'issued',
+	"currency" text DEFAULT 'AED' NOT NULL,
+	"subtotal" numeric(12, 2) NOT NULL,
+	"vat_rate" numeric(5, 4) NOT NULL,
+	"vat_amount" numeric(12, 2) NOT NULL,
+	"total" numeric(12, 2) NOT NULL,
+	"line_items" json DEFAULT '[]'::json NOT NULL,
+	"issue_date" date NOT NULL,
+	"due_date" date NOT NULL,
+	"paid_at" timestamp,
+	"notes" text,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "task_id" uuid;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "ended_at" timestamp;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "invoice_id" uuid;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "billed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_law_firm_id_law_firms_id_fk" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_matter_id_matters_id_fk" FOREIGN KEY ("matter_id") REFERENCES "public"."matters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_client_id_user_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "invoices_firm_sequence_idx" ON "invoices" USING btree ("law_firm_id","sequence_number");--> statement-breakpoint
+CREATE INDEX "invoices_matter_idx" ON "invoices" USING btree ("matter_id");--> statement-breakpoint
+CREATE INDEX "invoices_status_idx" ON "invoices" USING btree ("law_firm_id","status");--> statement-breakpoint
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_task_id_matter_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."matter_tasks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "time_entries_invoice_idx" ON "time_entries" USING btree ("invoice_id");
\ No newline at end of file
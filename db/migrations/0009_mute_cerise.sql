@@ -0,0 +1 @@
+ALTER TABLE "difc_registrations" ADD COLUMN "rejection_reason" text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "audit_logs" ADD COLUMN "sequence" integer;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "previous_hash" text;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "entry_hash" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "audit_logs_firm_sequence_idx" ON "audit_logs" USING btree ("firm_id","sequence");--> statement-breakpoint
+CREATE UNIQUE INDEX "audit_logs_platform_sequence_idx" ON "audit_logs" USING btree ("sequence") WHERE "audit_logs"."firm_id" is null;
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "ai_jobs" ADD COLUMN "progress" json;--> statement-breakpoint
+ALTER TABLE "ai_jobs" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "ai_jobs" ADD COLUMN "max_attempts" integer DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE "ai_jobs" ADD COLUMN "run_after" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "ai_jobs" ADD COLUMN "locked_by" text;--> statement-breakpoint
+ALTER TABLE "ai_jobs" ADD COLUMN "locked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "ai_jobs" ADD COLUMN "cancel_requested_at" timestamp;--> statement-breakpoint
+ALTER TABLE "ai_jobs" ADD COLUMN "started_at" timestamp;--> statement-breakpoint
+CREATE INDEX "ai_jobs_queue_idx" ON "ai_jobs" USING btree ("status","run_after");
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE "will_clause_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clause_id" uuid NOT NULL,
+	"language" text NOT NULL,
+	"version" integer NOT NULL,
+	"body" text NOT NULL,
+	"variables" json DEFAULT '[]'::json,
+	"status" text DEFAULT 'pending_approval' NOT NULL,
+	"change_notes" text,
+	"created_by" text,
+	"reviewed_by" text,
+	"reviewed_at" timestamp,
+	"rejection_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "will_clauses" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"law_firm_id" uuid NOT NULL,
+	"clause_key" text NOT NULL,
+	"title" text NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "will_clause_versions" ADD CONSTRAINT "will_clause_versions_clause_id_will_clauses_id_fk" FOREIGN KEY ("clause_id") REFERENCES "public"."will_clauses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "will_clause_versions" ADD CONSTRAINT "will_clause_versions_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "will_clause_versions" ADD CONSTRAINT "will_clause_versions_reviewed_by_user_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "will_clauses" ADD CONSTRAINT "will_clauses_law_firm_id_law_firms_id_fk" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "will_clauses" ADD CONSTRAINT "will_clauses_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "will_clause_versions_clause_version_idx" ON "will_clause_versions" USING btree ("clause_id","language","version");--> statement-breakpoint
+CREATE INDEX "will_clause_versions_status_idx" ON "will_clause_versions" USING btree ("clause_id","language","status");--> statement-breakpoint
+CREATE UNIQUE INDEX "will_clauses_firm_clause_idx" ON "will_clauses" USING btree ("law_firm_id","clause_key");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "clause_translations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"law_firm_id" uuid,
+	"clause_key" text NOT NULL,
+	"source_language" text NOT NULL,
+	"target_language" text NOT NULL,
+	"source_hash" text NOT NULL,
+	"source_text" text NOT NULL,
+	"translated_text" text NOT NULL,
+	"provider" text,
+	"model_id" text,
+	"hit_count" integer DEFAULT 0 NOT NULL,
+	"last_used_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "clause_translations" ADD CONSTRAINT "clause_translations_law_firm_id_law_firms_id_fk" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "clause_translations_source_idx" ON "clause_translations" USING btree ("clause_key","source_hash","target_language");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "codicils" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"will_id" uuid NOT NULL,
+	"matter_id" uuid NOT NULL,
+	"difc_registration_number" text NOT NULL,
+	"codicil_number" integer NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"changes" json DEFAULT '[]'::json NOT NULL,
+	"content" text,
+	"notes" text,
+	"executed_at" timestamp,
+	"registration_number" text,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "codicils" ADD CONSTRAINT "codicils_will_id_wills_id_fk" FOREIGN KEY ("will_id") REFERENCES "public"."wills"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "codicils" ADD CONSTRAINT "codicils_matter_id_matters_id_fk" FOREIGN KEY ("matter_id") REFERENCES "public"."matters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "codicils" ADD CONSTRAINT "codicils_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "codicils_will_codicil_idx" ON "codicils" USING btree ("will_id","codicil_number");--> statement-breakpoint
+CREATE INDEX "codicils_difc_registration_idx" ON "codicils" USING btree ("difc_registration_number");--> statement-breakpoint
+CREATE INDEX "codicils_matter_idx" ON "codicils" USING btree ("matter_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "wills" ADD COLUMN "trusts" json DEFAULT '[]'::json;
\ No newline at end of file
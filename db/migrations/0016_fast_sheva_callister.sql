@@ -0,0 +1,28 @@
+CREATE TABLE "digital_access_letters" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"will_id" uuid NOT NULL,
+	"matter_id" uuid NOT NULL,
+	"status" text DEFAULT 'sealed' NOT NULL,
+	"encrypted_instructions" text NOT NULL,
+	"asset_ids" json DEFAULT '[]'::json NOT NULL,
+	"sealed_by" text,
+	"sealed_at" timestamp DEFAULT now() NOT NULL,
+	"death_certificate_document_id" uuid,
+	"date_of_death" date,
+	"death_recorded_by" text,
+	"death_recorded_at" timestamp,
+	"released_to" json,
+	"released_by" text,
+	"released_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "digital_access_letters" ADD CONSTRAINT "digital_access_letters_will_id_wills_id_fk" FOREIGN KEY ("will_id") REFERENCES "public"."wills"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "digital_access_letters" ADD CONSTRAINT "digital_access_letters_matter_id_matters_id_fk" FOREIGN KEY ("matter_id") REFERENCES "public"."matters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "digital_access_letters" ADD CONSTRAINT "digital_access_letters_sealed_by_user_id_fk" FOREIGN KEY ("sealed_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "digital_access_letters" ADD CONSTRAINT "digital_access_letters_death_certificate_document_id_matter_documents_id_fk" FOREIGN KEY ("death_certificate_document_id") REFERENCES "public"."matter_documents"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "digital_access_letters" ADD CONSTRAINT "digital_access_letters_death_recorded_by_user_id_fk" FOREIGN KEY ("death_recorded_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "digital_access_letters" ADD CONSTRAINT "digital_access_letters_released_by_user_id_fk" FOREIGN KEY ("released_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "digital_access_letters_will_idx" ON "digital_access_letters" USING btree ("will_id");--> statement-breakpoint
+CREATE INDEX "digital_access_letters_matter_idx" ON "digital_access_letters" USING btree ("matter_id");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "letters_of_wishes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"will_id" uuid NOT NULL,
+	"matter_id" uuid NOT NULL,
+	"title" text NOT NULL,
+	"language" text DEFAULT 'en' NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"sections" json DEFAULT '[]'::json NOT NULL,
+	"drafted_by" text DEFAULT 'lawyer' NOT NULL,
+	"document_id" uuid,
+	"created_by" text,
+	"updated_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "letters_of_wishes" ADD CONSTRAINT "letters_of_wishes_will_id_wills_id_fk" FOREIGN KEY ("will_id") REFERENCES "public"."wills"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "letters_of_wishes" ADD CONSTRAINT "letters_of_wishes_matter_id_matters_id_fk" FOREIGN KEY ("matter_id") REFERENCES "public"."matters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "letters_of_wishes" ADD CONSTRAINT "letters_of_wishes_document_id_matter_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."matter_documents"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "letters_of_wishes" ADD CONSTRAINT "letters_of_wishes_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "letters_of_wishes" ADD CONSTRAINT "letters_of_wishes_updated_by_user_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "letters_of_wishes_will_idx" ON "letters_of_wishes" USING btree ("will_id");--> statement-breakpoint
+CREATE INDEX "letters_of_wishes_matter_idx" ON "letters_of_wishes" USING btree ("matter_id");
\ No newline at end of file
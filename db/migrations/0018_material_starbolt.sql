@@ -0,0 +1,38 @@
+CREATE TABLE "appointments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"confirmation_number" text NOT NULL,
+	"law_firm_id" uuid NOT NULL,
+	"matter_id" uuid,
+	"client_id" text NOT NULL,
+	"lawyer_id" text NOT NULL,
+	"service_id" text NOT NULL,
+	"service_name" text NOT NULL,
+	"location" text NOT NULL,
+	"price" numeric(10, 2),
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp NOT NULL,
+	"buffer_minutes" integer DEFAULT 0 NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"client_name" text NOT NULL,
+	"client_email" text NOT NULL,
+	"client_phone" text,
+	"notes" text,
+	"cancellation_reason" text,
+	"ics_sequence" integer DEFAULT 0 NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "appointments_confirmation_number_unique" UNIQUE("confirmation_number")
+);
+--> statement-breakpoint
+ALTER TABLE "law_firm_members" ADD COLUMN "working_hours" json;--> statement-breakpoint
+ALTER TABLE "law_firm_members" ADD COLUMN "calendar_feed_token_hash" text;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_law_firm_id_law_firms_id_fk" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_matter_id_matters_id_fk" FOREIGN KEY ("matter_id") REFERENCES "public"."matters"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_client_id_user_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_lawyer_id_user_id_fk" FOREIGN KEY ("lawyer_id") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "appointments_lawyer_time_idx" ON "appointments" USING btree ("lawyer_id","starts_at");--> statement-breakpoint
+CREATE INDEX "appointments_client_idx" ON "appointments" USING btree ("client_id");--> statement-breakpoint
+CREATE INDEX "appointments_matter_idx" ON "appointments" USING btree ("matter_id");--> statement-breakpoint
+ALTER TABLE "law_firm_members" ADD CONSTRAINT "law_firm_members_calendar_feed_token_hash_unique" UNIQUE("calendar_feed_token_hash");
\ No newline at end of file
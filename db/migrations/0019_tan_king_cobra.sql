@@ -0,0 +1,24 @@
+CREATE TABLE "signing_ceremonies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"will_id" uuid NOT NULL,
+	"matter_id" uuid NOT NULL,
+	"appointment_id" uuid,
+	"status" text DEFAULT 'scheduled' NOT NULL,
+	"execution_place" text,
+	"witnesses" json DEFAULT '[]'::json NOT NULL,
+	"executed_at" timestamp,
+	"attestation" json,
+	"document_id" uuid,
+	"notes" text,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "signing_ceremonies" ADD CONSTRAINT "signing_ceremonies_will_id_wills_id_fk" FOREIGN KEY ("will_id") REFERENCES "public"."wills"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "signing_ceremonies" ADD CONSTRAINT "signing_ceremonies_matter_id_matters_id_fk" FOREIGN KEY ("matter_id") REFERENCES "public"."matters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "signing_ceremonies" ADD CONSTRAINT "signing_ceremonies_appointment_id_appointments_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "public"."appointments"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "signing_ceremonies" ADD CONSTRAINT "signing_ceremonies_document_id_matter_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."matter_documents"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "signing_ceremonies" ADD CONSTRAINT "signing_ceremonies_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "signing_ceremonies_will_idx" ON "signing_ceremonies" USING btree ("will_id");--> statement-breakpoint
+CREATE INDEX "signing_ceremonies_matter_idx" ON "signing_ceremonies" USING btree ("matter_id");
\ No newline at end of file
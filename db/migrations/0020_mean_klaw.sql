@@ -0,0 +1,27 @@
+CREATE TABLE "signature_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"matter_id" uuid NOT NULL,
+	"document_id" uuid NOT NULL,
+	"signed_document_id" uuid,
+	"purpose" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"message" text,
+	"document_hash" text NOT NULL,
+	"signed_document_hash" text,
+	"signers" json DEFAULT '[]'::json NOT NULL,
+	"fields" json DEFAULT '[]'::json NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"sent_by" text,
+	"sent_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	"cancelled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "signature_requests" ADD CONSTRAINT "signature_requests_matter_id_matters_id_fk" FOREIGN KEY ("matter_id") REFERENCES "public"."matters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "signature_requests" ADD CONSTRAINT "signature_requests_document_id_matter_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."matter_documents"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "signature_requests" ADD CONSTRAINT "signature_requests_signed_document_id_matter_documents_id_fk" FOREIGN KEY ("signed_document_id") REFERENCES "public"."matter_documents"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "signature_requests" ADD CONSTRAINT "signature_requests_sent_by_user_id_fk" FOREIGN KEY ("sent_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "signature_requests_matter_idx" ON "signature_requests" USING btree ("matter_id");--> statement-breakpoint
+CREATE INDEX "signature_requests_document_idx" ON "signature_requests" USING btree ("document_id");
\ No newline at end of file
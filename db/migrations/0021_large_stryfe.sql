@@ -0,0 +1,23 @@
+CREATE TABLE "intake_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"matter_id" uuid NOT NULL,
+	"token_hash" text NOT NULL,
+	"status" text DEFAULT 'open' NOT NULL,
+	"recipient_email" text NOT NULL,
+	"message" text,
+	"answers" json DEFAULT '{}'::json NOT NULL,
+	"current_step" text,
+	"document_ids" json DEFAULT '[]'::json NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"last_saved_at" timestamp,
+	"submitted_at" timestamp,
+	"revoked_at" timestamp,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "intake_links_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "intake_links" ADD CONSTRAINT "intake_links_matter_id_matters_id_fk" FOREIGN KEY ("matter_id") REFERENCES "public"."matters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "intake_links" ADD CONSTRAINT "intake_links_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "intake_links_matter_idx" ON "intake_links" USING btree ("matter_id");
\ No newline at end of file
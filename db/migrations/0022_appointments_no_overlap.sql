@@ -0,0 +1,3 @@
+-- A lawyer cannot hold two pending or confirmed appointments over the same time; buffers are checked when booking
+CREATE EXTENSION IF NOT EXISTS btree_gist;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_lawyer_no_overlap" EXCLUDE USING gist ("lawyer_id" WITH =, tsrange("starts_at", "ends_at") WITH &&) WHERE ("status" IN ('pending', 'confirmed'));
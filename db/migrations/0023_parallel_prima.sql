@@ -0,0 +1,24 @@
+ALTER TABLE "wills" ADD COLUMN "root_will_id" uuid;--> statement-breakpoint
+ALTER TABLE "wills" ADD CONSTRAINT "wills_root_will_id_wills_id_fk" FOREIGN KEY ("root_will_id") REFERENCES "public"."wills"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Point every existing version at the original will of its lineage
+WITH RECURSIVE "lineage" AS (
+	SELECT "id", "id" AS "root_id" FROM "wills" WHERE "parent_will_id" IS NULL
+	UNION ALL
+	SELECT "wills"."id", "lineage"."root_id" FROM "wills" INNER JOIN "lineage" ON "wills"."parent_will_id" = "lineage"."id"
+)
+UPDATE "wills" SET "root_will_id" = "lineage"."root_id" FROM "lineage" WHERE "wills"."id" = "lineage"."id" AND "lineage"."root_id" <> "wills"."id";--> statement-breakpoint
+-- Versions that branched from the same parent may share a number; move the later ones to the top of their lineage
+WITH "ranked" AS (
+	SELECT "id", coalesce("root_will_id", "id") AS "root_id",
+		row_number() OVER (PARTITION BY coalesce("root_will_id", "id"), "version" ORDER BY "created_at", "id") AS "duplicate"
+	FROM "wills"
+), "moved" AS (
+	SELECT "id", "root_id", row_number() OVER (PARTITION BY "root_id" ORDER BY "id") AS "offset"
+	FROM "ranked" WHERE "duplicate" > 1
+), "tops" AS (
+	SELECT coalesce("root_will_id", "id") AS "root_id", max("version") AS "top" FROM "wills" GROUP BY 1
+)
+UPDATE "wills" SET "version" = "tops"."top" + "moved"."offset"
+FROM "moved" INNER JOIN "tops" ON "tops"."root_id" = "moved"."root_id"
+WHERE "wills"."id" = "moved"."id";--> statement-breakpoint
+CREATE UNIQUE INDEX "wills_lineage_version_idx" ON "wills" USING btree (coalesce("root_will_id", "id"),"version");
\ No newline at end of file
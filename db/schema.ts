@@ -9,7 +9,9 @@ import {
   uuid,
   json,
   index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 // Better Auth Tables
 export const user = pgTable("user", {
@@ -132,11 +134,40 @@ export const lawFirms = pgTable("law_firms", {
     billing?: {
       defaultHourlyRate?: number;
       currency?: string;
+      vatNumber?: string; // UAE Tax Registration Number shown on invoices
+      paymentTermsDays?: number;
     };
     notifications?: {
       emailNotifications?: boolean;
       smsNotifications?: boolean;
     };
+    ai?: {
+      provider?: 'openai' | 'azure' | 'openai_compatible' | 'stub';
+      baseUrl?: string; // Self-hosted OpenAI-compatible endpoint
+      azureResourceName?: string;
+      azureApiVersion?: string;
+      apiKeyEnv?: string; // Name of an AI_KEY_* environment variable; keys are never stored in settings
+      models?: {
+        willGeneration?: string;
+        legalAnalysis?: string;
+        complianceCheck?: string;
+        willSummary?: string;
+        chat?: string;
+        translation?: string;
+      };
+    };
+    scheduling?: {
+      workingHours?: Record<string, Array<{ start: string; end: string }>>; // Firm default by weekday ('0' = Sunday), HH:mm in Dubai time
+      bufferMinutes?: number; // Gap kept free before and after every appointment
+      slotIntervalMinutes?: number;
+      services?: Record<string, {
+        name?: string;
+        duration?: number;
+        price?: number;
+        bufferMinutes?: number;
+        enabled?: boolean;
+      }>;
+    };
   }>().default({}),
   subscriptionTier: text("subscription_tier").default("starter"), // 'starter', 'professional', 'enterprise'
   subscriptionStatus: text("subscription_status").default("pending_verification"), // 'pending_verification', 'info_requested', 'rejected', 'trial', 'active', 'suspended', 'cancelled'
@@ -156,6 +187,8 @@ export const lawFirmMembers = pgTable("law_firm_members", {
   userId: text("user_id").notNull().references(() => user.id, { onDelete: "cascade" }),
   role: text("role").notNull(), // 'admin', 'senior_lawyer', 'lawyer', 'support'
   permissions: json("permissions").$type<string[]>().default([]),
+  workingHours: json("working_hours").$type<Record<string, Array<{ start: string; end: string }>>>(), // Overrides the firm's default hours
+  calendarFeedTokenHash: text("calendar_feed_token_hash").unique(), // SHA-256 of the private ICS feed token
   joinedAt: timestamp("joined_at").notNull().defaultNow(),
 }, (table) => ({
   firmUserIdx: index("law_firm_members_firm_user_idx").on(table.lawFirmId, table.userId),
@@ -312,6 +345,33 @@ export const wills = pgTable("wills", {
     powers?: string[];
   }>>().default([]),
   
+  // Testamentary trusts, with their trustees, beneficiaries and the assets settled on them
+  trusts: json("trusts").$type<Array<{
+    id: string;
+    name: string;
+    purpose?: string;
+    trustees: Array<{
+      id: string;
+      fullName: string;
+      relationship: string;
+      contactInfo: Record<string, unknown>;
+      isPrimary: boolean;
+      isProfessional?: boolean;
+    }>;
+    beneficiaries: Array<{
+      id: string;
+      beneficiaryId?: string;
+      fullName: string;
+      relationship: string;
+      sharePercentage: number;
+      vestingAge?: number;
+    }>;
+    assetIds: string[];
+    vestingAge: number;
+    distributionStandard: 'hems' | 'discretionary' | 'fixed_income' | 'custom';
+    distributionTerms?: string;
+  }>>().default([]),
+  
   // Special Instructions
   specialInstructions: text("special_instructions"),
   
@@ -344,6 +404,7 @@ export const wills = pgTable("wills", {
   // Versions
   version: integer("version").default(1),
   parentWillId: uuid("parent_will_id").references(() => wills.id),
+  rootWillId: uuid("root_will_id").references(() => wills.id), // Original will of the lineage; null on the original itself
   
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -351,6 +412,8 @@ export const wills = pgTable("wills", {
   testatorStatusIdx: index("wills_testator_status_idx").on(table.testatorId, table.status),
   matterIdx: index("wills_matter_idx").on(table.matterId),
   difcRegistrationIdx: index("wills_difc_registration_idx").on(table.difcRegistrationNumber),
+  // Two versions saved at once cannot take the same number in a lineage
+  lineageVersionIdx: uniqueIndex("wills_lineage_version_idx").on(sql`coalesce(${table.rootWillId}, ${table.id})`, table.version),
 }));
 
 // Will Documents
@@ -368,6 +431,176 @@ export const willDocuments = pgTable("will_documents", {
   willTypeIdx: index("will_documents_will_type_idx").on(table.willId, table.documentType),
 }));
 
+// Codicils amending a registered will; applied in order they give the effective will
+export const codicils = pgTable("codicils", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  willId: uuid("will_id").notNull().references(() => wills.id, { onDelete: "cascade" }), // The registered will being amended
+  matterId: uuid("matter_id").notNull().references(() => matters.id, { onDelete: "cascade" }), // The will_amendment matter
+  difcRegistrationNumber: text("difc_registration_number").notNull(),
+  codicilNumber: integer("codicil_number").notNull(), // 1 for the first codicil to the will, 2 for the second, ...
+  status: text("status").notNull().default("draft"), // 'draft', 'final', 'executed', 'registered', 'revoked'
+  changes: json("changes").$type<Array<{
+    type: 'add_beneficiary' | 'remove_beneficiary' | 'replace_executor' | 'alter_bequest';
+    [key: string]: unknown;
+  }>>().notNull().default([]),
+  content: text("content"), // Codicil document text, generated when the codicil is finalised
+  notes: text("notes"),
+  executedAt: timestamp("executed_at"),
+  registrationNumber: text("registration_number"), // DIFC number of the codicil itself once registered
+  createdBy: text("created_by").references(() => user.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  willCodicilIdx: uniqueIndex("codicils_will_codicil_idx").on(table.willId, table.codicilNumber),
+  registrationIdx: index("codicils_difc_registration_idx").on(table.difcRegistrationNumber),
+  matterIdx: index("codicils_matter_idx").on(table.matterId),
+}));
+
+// Sealed letters of wishes holding access instructions for a will's digital assets
+export const digitalAccessLetters = pgTable("digital_access_letters", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  willId: uuid("will_id").notNull().references(() => wills.id, { onDelete: "cascade" }),
+  matterId: uuid("matter_id").notNull().references(() => matters.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("sealed"), // 'sealed', 'death_recorded', 'released'
+  encryptedInstructions: text("encrypted_instructions").notNull(), // AES-256-GCM; never returned until released
+  assetIds: json("asset_ids").$type<string[]>().notNull().default([]), // Digital assets the sealed instructions cover
+  sealedBy: text("sealed_by").references(() => user.id),
+  sealedAt: timestamp("sealed_at").notNull().defaultNow(),
+  
+  // Release workflow
+  deathCertificateDocumentId: uuid("death_certificate_document_id").references(() => matterDocuments.id),
+  dateOfDeath: date("date_of_death"),
+  deathRecordedBy: text("death_recorded_by").references(() => user.id),
+  deathRecordedAt: timestamp("death_recorded_at"),
+  releasedTo: json("released_to").$type<{ executorId: string; fullName: string }>(),
+  releasedBy: text("released_by").references(() => user.id),
+  releasedAt: timestamp("released_at"),
+  
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  willIdx: uniqueIndex("digital_access_letters_will_idx").on(table.willId),
+  matterIdx: index("digital_access_letters_matter_idx").on(table.matterId),
+}));
+
+// Non-binding letters of wishes and memoranda that accompany a will
+export const lettersOfWishes = pgTable("letters_of_wishes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  willId: uuid("will_id").notNull().references(() => wills.id, { onDelete: "cascade" }),
+  matterId: uuid("matter_id").notNull().references(() => matters.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  language: text("language").notNull().default("en"), // 'en', 'ar'
+  status: text("status").notNull().default("draft"), // 'draft', 'final'
+  sections: json("sections").$type<Array<{
+    id: string;
+    type: string; // 'personal_items', 'funeral', 'guardian_guidance', 'digital_assets', 'business', 'general'
+    heading: string;
+    body: string;
+    beneficiaryIds?: string[]; // Beneficiaries the wishes concern
+    assetIds?: string[];
+  }>>().notNull().default([]),
+  draftedBy: text("drafted_by").notNull().default("lawyer"), // 'lawyer', 'ai', 'wizard'
+  documentId: uuid("document_id").references(() => matterDocuments.id), // Latest rendered PDF
+  createdBy: text("created_by").references(() => user.id),
+  updatedBy: text("updated_by").references(() => user.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  willIdx: index("letters_of_wishes_will_idx").on(table.willId),
+  matterIdx: index("letters_of_wishes_matter_idx").on(table.matterId),
+}));
+
+// Appointments between clients and lawyers, optionally linked to a matter
+export const appointments = pgTable("appointments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  confirmationNumber: text("confirmation_number").notNull().unique(),
+  lawFirmId: uuid("law_firm_id").notNull().references(() => lawFirms.id, { onDelete: "cascade" }),
+  matterId: uuid("matter_id").references(() => matters.id, { onDelete: "set null" }),
+  clientId: text("client_id").notNull().references(() => user.id),
+  lawyerId: text("lawyer_id").notNull().references(() => user.id),
+  
+  // Service
+  serviceId: text("service_id").notNull(), // 'notarization', 'legal_review', 'difc_registration', 'consultation'
+  serviceName: text("service_name").notNull(),
+  location: text("location").notNull(), // 'office', 'client', 'court', 'online'
+  price: decimal("price", { precision: 10, scale: 2 }),
+  
+  // Timing; the buffers are kept free around the appointment on the lawyer's calendar
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  bufferMinutes: integer("buffer_minutes").notNull().default(0),
+  
+  status: text("status").notNull().default("pending"), // 'pending', 'confirmed', 'cancelled', 'completed', 'no_show'
+  clientName: text("client_name").notNull(),
+  clientEmail: text("client_email").notNull(),
+  clientPhone: text("client_phone"),
+  notes: text("notes"),
+  cancellationReason: text("cancellation_reason"),
+  icsSequence: integer("ics_sequence").notNull().default(0), // Bumped on every change so calendars replace the event
+  
+  createdBy: text("created_by").references(() => user.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  // Overlapping active bookings are also rejected by the appointments_lawyer_no_overlap exclusion constraint (0022)
+  lawyerTimeIdx: index("appointments_lawyer_time_idx").on(table.lawyerId, table.startsAt),
+  clientIdx: index("appointments_client_idx").on(table.clientId),
+  matterIdx: index("appointments_matter_idx").on(table.matterId),
+}));
+
+// Signing ceremonies: who witnessed a will, when and where it was executed, and the attestation record
+export const signingCeremonies = pgTable("signing_ceremonies", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  willId: uuid("will_id").notNull().references(() => wills.id, { onDelete: "cascade" }),
+  matterId: uuid("matter_id").notNull().references(() => matters.id, { onDelete: "cascade" }),
+  appointmentId: uuid("appointment_id").references(() => appointments.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("scheduled"), // 'scheduled', 'executed', 'cancelled'
+  executionPlace: text("execution_place"),
+  
+  // Witnesses, each checked against the will's beneficiaries and their spouses when saved
+  witnesses: json("witnesses").$type<Array<{
+    id: string;
+    fullName: string;
+    idType: 'emirates_id' | 'passport';
+    idNumber: string;
+    nationality: string;
+    dateOfBirth: string;
+    address: string;
+    maritalStatus: 'single' | 'married' | 'divorced' | 'widowed';
+    spouseName?: string;
+    email?: string;
+    phone?: string;
+    eligibility: {
+      eligible: boolean;
+      reasons: string[];
+      checkedAt: string;
+    };
+  }>>().notNull().default([]),
+  
+  // Execution
+  executedAt: timestamp("executed_at"),
+  attestation: json("attestation").$type<{
+    statement: string; // Attestation wording with names, date and place filled in
+    testatorName: string;
+    willVersion: number;
+    witnessIds: string[];
+    testatorIdentityVerified: boolean;
+    testatorCapacityConfirmed: boolean;
+    allPresentThroughout: boolean;
+    conductedBy: string;
+    recordedAt: string;
+  }>(),
+  documentId: uuid("document_id").references(() => matterDocuments.id), // Final will rendered with the witness details
+  notes: text("notes"),
+  
+  createdBy: text("created_by").references(() => user.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  willIdx: index("signing_ceremonies_will_idx").on(table.willId),
+  matterIdx: index("signing_ceremonies_matter_idx").on(table.matterId),
+}));
+
 // DIFC Compliance Rules
 export const difcComplianceRules = pgTable("difc_compliance_rules", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -389,22 +622,85 @@ export const difcComplianceRules = pgTable("difc_compliance_rules", {
   activeIdx: index("difc_rules_active_idx").on(table.isActive),
 }));
 
+// Firm clause overrides; clauses without a firm row use the built-in wording
+export const willClauses = pgTable("will_clauses", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  lawFirmId: uuid("law_firm_id").notNull().references(() => lawFirms.id, { onDelete: "cascade" }),
+  clauseKey: text("clause_key").notNull(), // 'revocation', 'executor_powers', 'guardianship', 'residuary', 'survivorship', 'digital_access', ...
+  title: text("title").notNull(),
+  isActive: boolean("is_active").default(true),
+  createdBy: text("created_by").references(() => user.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  firmClauseIdx: uniqueIndex("will_clauses_firm_clause_idx").on(table.lawFirmId, table.clauseKey),
+}));
+
+// Version history of a firm clause, one sequence per language
+export const willClauseVersions = pgTable("will_clause_versions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  clauseId: uuid("clause_id").notNull().references(() => willClauses.id, { onDelete: "cascade" }),
+  language: text("language").notNull(), // 'en', 'ar'
+  version: integer("version").notNull(),
+  body: text("body").notNull(), // Wording with {{variable}} placeholders
+  variables: json("variables").$type<string[]>().default([]),
+  status: text("status").notNull().default("pending_approval"), // 'pending_approval', 'approved', 'rejected', 'superseded'
+  changeNotes: text("change_notes"),
+  createdBy: text("created_by").references(() => user.id),
+  reviewedBy: text("reviewed_by").references(() => user.id), // Senior lawyer who approved or rejected the version
+  reviewedAt: timestamp("reviewed_at"),
+  rejectionReason: text("rejection_reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  clauseVersionIdx: uniqueIndex("will_clause_versions_clause_version_idx").on(table.clauseId, table.language, table.version),
+  statusIdx: index("will_clause_versions_status_idx").on(table.clauseId, table.language, table.status),
+}));
+
+// Cached translations of rendered clauses, reused while the source text is unchanged
+export const clauseTranslations = pgTable("clause_translations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  lawFirmId: uuid("law_firm_id").references(() => lawFirms.id, { onDelete: "cascade" }), // Null for wills outside a firm
+  clauseKey: text("clause_key").notNull(),
+  sourceLanguage: text("source_language").notNull(), // 'en', 'ar'
+  targetLanguage: text("target_language").notNull(), // 'en', 'ar'
+  sourceHash: text("source_hash").notNull(), // SHA-256 of the rendered source text
+  sourceText: text("source_text").notNull(),
+  translatedText: text("translated_text").notNull(),
+  provider: text("provider"), // LLM provider and model that produced the translation
+  modelId: text("model_id"),
+  hitCount: integer("hit_count").notNull().default(0),
+  lastUsedAt: timestamp("last_used_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  sourceIdx: index("clause_translations_source_idx").on(table.clauseKey, table.sourceHash, table.targetLanguage),
+}));
+
 // AI Processing Jobs
 export const aiJobs = pgTable("ai_jobs", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: text("user_id").references(() => user.id, { onDelete: "cascade" }),
   willId: uuid("will_id").references(() => wills.id, { onDelete: "cascade" }),
   jobType: text("job_type").notNull(), // 'will_generation', 'compliance_check', 'risk_analysis'
-  status: text("status").default("pending"), // 'pending', 'in_progress', 'completed', 'failed'
+  status: text("status").default("pending"), // 'pending', 'in_progress', 'completed', 'failed', 'cancelled'
   inputData: json("input_data"),
-  outputData: json("output_data"),
+  outputData: json("output_data"), // Partial step outputs are kept here so a retry resumes where it stopped
   parameters: json("parameters"), // Additional generation parameters
+  progress: json("progress"), // Per sub-step status: { generation: { status, startedAt, completedAt, error } }
   errorMessage: text("error_message"),
   processingTimeMs: integer("processing_time_ms"),
+  // Queue bookkeeping
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAfter: timestamp("run_after").notNull().defaultNow(),
+  lockedBy: text("locked_by"),
+  lockedAt: timestamp("locked_at"), // Refreshed after every sub-step; a stale lock means the worker died
+  cancelRequestedAt: timestamp("cancel_requested_at"),
+  startedAt: timestamp("started_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   completedAt: timestamp("completed_at"),
 }, (table) => ({
   statusIdx: index("ai_jobs_status_idx").on(table.status, table.createdAt),
+  queueIdx: index("ai_jobs_queue_idx").on(table.status, table.runAfter),
   willIdx: index("ai_jobs_will_idx").on(table.willId),
   userIdx: index("ai_jobs_user_idx").on(table.userId),
 }));
@@ -421,10 +717,67 @@ export const timeEntries = pgTable("time_entries", {
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   entryDate: date("entry_date").notNull(),
   isBillable: boolean("is_billable").default(true),
+  
+  // Timer (null for manual entries; endedAt null while the timer is running)
+  taskId: uuid("task_id").references(() => matterTasks.id, { onDelete: "set null" }),
+  startedAt: timestamp("started_at"),
+  endedAt: timestamp("ended_at"),
+  
+  // Billing
+  invoiceId: uuid("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+  billedAt: timestamp("billed_at"),
+  
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
   matterDateIdx: index("time_entries_matter_date_idx").on(table.matterId, table.entryDate),
   lawyerIdx: index("time_entries_lawyer_idx").on(table.lawyerId),
+  invoiceIdx: index("time_entries_invoice_idx").on(table.invoiceId),
+}));
+
+// Invoices - Billed time entries per matter
+export const invoices = pgTable("invoices", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  lawFirmId: uuid("law_firm_id").notNull().references(() => lawFirms.id, { onDelete: "cascade" }),
+  matterId: uuid("matter_id").notNull().references(() => matters.id, { onDelete: "cascade" }),
+  clientId: text("client_id").notNull().references(() => user.id),
+  
+  // Numbering - sequential per firm
+  sequenceNumber: integer("sequence_number").notNull(),
+  invoiceNumber: text("invoice_number").notNull(),
+  status: text("status").default("issued"), // 'issued', 'paid', 'void'
+  
+  // Amounts
+  currency: text("currency").notNull().default("AED"),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull(),
+  vatRate: decimal("vat_rate", { precision: 5, scale: 4 }).notNull(),
+  vatAmount: decimal("vat_amount", { precision: 12, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 12, scale: 2 }).notNull(),
+  
+  // Snapshot of billed entries at issue time
+  lineItems: json("line_items").$type<Array<{
+    timeEntryId: string;
+    entryDate: string;
+    lawyerId: string;
+    activityType: string;
+    description: string;
+    hours: number;
+    rate: number;
+    amount: number;
+  }>>().notNull().default([]),
+  
+  issueDate: date("issue_date").notNull(),
+  dueDate: date("due_date").notNull(),
+  paidAt: timestamp("paid_at"),
+  notes: text("notes"),
+  
+  createdBy: text("created_by").notNull().references(() => user.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  firmSequenceIdx: uniqueIndex("invoices_firm_sequence_idx").on(table.lawFirmId, table.sequenceNumber),
+  matterIdx: index("invoices_matter_idx").on(table.matterId),
+  statusIdx: index("invoices_status_idx").on(table.lawFirmId, table.status),
 }));
 
 // Matter Tasks - Task management and workflow automation
@@ -472,7 +825,7 @@ export const matterTimeline = pgTable("matter_timeline", {
   userId: text("user_id").references(() => user.id), // Null for system events
   
   // Event Details
-  eventType: text("event_type").notNull(), // 'status_change', 'task_created', 'task_completed', 'document_generated', 'client_communication', 'difc_submission'
+  eventType: text("event_type").notNull(), // 'status_change', 'task_created', 'task_completed', 'document_generated', 'client_communication', 'difc_submission', 'codicil', 'digital_access', 'appointment', 'signing_ceremony', 'signature', 'intake'
   title: text("title").notNull(),
   description: text("description"),
   
@@ -510,6 +863,7 @@ export const difcRegistrations = pgTable("difc_registrations", {
   submissionId: text("submission_id"), // DIFC internal reference
   registrationNumber: text("registration_number"), // Final DIFC registration number
   status: text("status").default("preparing"), // 'preparing', 'ready_to_submit', 'submitted', 'under_review', 'approved', 'registered', 'rejected'
+  rejectionReason: text("rejection_reason"), // Reason given by DIFC when a submission is rejected
   
   // Timeline
   submissionDate: date("submission_date"),
@@ -556,7 +910,7 @@ export const matterDocuments = pgTable("matter_documents", {
   willId: uuid("will_id").references(() => wills.id), // Link to will if applicable
   
   // Document Details
-  documentType: text("document_type").notNull(), // 'intake_form', 'assessment_report', 'ai_generated_will', 'revised_will', 'client_review', 'final_will', 'difc_submission', 'certificate', 'supporting_document'
+  documentType: text("document_type").notNull(), // 'intake_form', 'assessment_report', 'ai_generated_will', 'revised_will', 'client_review', 'final_will', 'difc_submission', 'certificate', 'supporting_document', 'passport_copy', 'emirates_id_copy', 'trade_licence', 'death_certificate'
   fileName: text("file_name").notNull(),
   fileUrl: text("file_url").notNull(),
   fileSize: integer("file_size"),
@@ -596,6 +950,91 @@ export const matterDocuments = pgTable("matter_documents", {
   statusIdx: index("matter_documents_status_idx").on(table.status),
 }));
 
+// E-signature requests: a matter PDF sent to its signers, with the positions each must sign at
+export const signatureRequests = pgTable("signature_requests", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  matterId: uuid("matter_id").notNull().references(() => matters.id, { onDelete: "cascade" }),
+  documentId: uuid("document_id").notNull().references(() => matterDocuments.id), // The document as sent
+  signedDocumentId: uuid("signed_document_id").references(() => matterDocuments.id), // Stamped copy with the certificate page
+  purpose: text("purpose").notNull(), // 'engagement_letter', 'draft_approval', 'other'
+  status: text("status").notNull().default("pending"), // 'pending', 'completed', 'declined', 'cancelled', 'expired'
+  message: text("message"),
+  documentHash: text("document_hash").notNull(), // SHA-256 of the PDF when it was sent
+  signedDocumentHash: text("signed_document_hash"), // SHA-256 of the stamped PDF
+  
+  signers: json("signers").$type<Array<{
+    id: string;
+    userId: string;
+    name: string;
+    email: string;
+    role: 'client' | 'firm';
+    status: 'pending' | 'signed' | 'declined';
+    signature?: { type: 'drawn' | 'typed'; value: string }; // PNG data URL or typed name
+    initials?: { type: 'drawn' | 'typed'; value: string };
+    signatureHash?: string;
+    consentedAt?: string;
+    signedAt?: string;
+    declinedAt?: string;
+    declineReason?: string;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+  }>>().notNull().default([]),
+  
+  // Positions as fractions of the page, measured from its top-left corner
+  fields: json("fields").$type<Array<{
+    id: string;
+    signerId: string;
+    type: 'signature' | 'initials' | 'date' | 'name';
+    page: number; // 1-based
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }>>().notNull().default([]),
+  
+  expiresAt: timestamp("expires_at").notNull(),
+  sentBy: text("sent_by").references(() => user.id),
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  matterIdx: index("signature_requests_matter_idx").on(table.matterId),
+  documentIdx: index("signature_requests_document_idx").on(table.documentId),
+}));
+
+// Intake links: a tokenised questionnaire the client fills in without an account; answers are kept for resuming
+export const intakeLinks = pgTable("intake_links", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  matterId: uuid("matter_id").notNull().references(() => matters.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token in the link; the token itself is never stored
+  status: text("status").notNull().default("open"), // 'open', 'submitted', 'revoked', 'expired'
+  recipientEmail: text("recipient_email").notNull(),
+  message: text("message"),
+  
+  // Draft answers in the shape of matters.intakeData, copied onto the matter on submission
+  answers: json("answers").$type<{
+    personalInfo?: Record<string, unknown>;
+    assets?: Record<string, unknown>[];
+    beneficiaries?: Record<string, unknown>[];
+    existingWills?: Record<string, unknown>[];
+    specialCircumstances?: string[];
+  }>().notNull().default({}),
+  currentStep: text("current_step"), // Step the client was on when they last saved
+  documentIds: json("document_ids").$type<string[]>().notNull().default([]), // ID documents uploaded through the link
+  
+  expiresAt: timestamp("expires_at").notNull(),
+  lastSavedAt: timestamp("last_saved_at"),
+  submittedAt: timestamp("submitted_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: text("created_by").references(() => user.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  matterIdx: index("intake_links_matter_idx").on(table.matterId),
+}));
+
 // Audit Logs
 export const auditLogs = pgTable("audit_logs", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -609,9 +1048,15 @@ export const auditLogs = pgTable("audit_logs", {
   firmId: uuid("firm_id").references(() => lawFirms.id),
   sensitive: boolean("sensitive").default(false),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+  // Tamper-evident hash chain, one per firm (entries without a firm form the platform chain)
+  sequence: integer("sequence"),
+  previousHash: text("previous_hash"),
+  entryHash: text("entry_hash"),
 }, (table) => ({
   timestampIdx: index("audit_logs_timestamp_idx").on(table.timestamp),
   userIdx: index("audit_logs_user_idx").on(table.userId),
   resourceIdx: index("audit_logs_resource_idx").on(table.resource, table.resourceId),
   firmIdx: index("audit_logs_firm_idx").on(table.firmId),
+  firmSequenceIdx: uniqueIndex("audit_logs_firm_sequence_idx").on(table.firmId, table.sequence),
+  platformSequenceIdx: uniqueIndex("audit_logs_platform_sequence_idx").on(table.sequence).where(sql`${table.firmId} is null`),
 }));
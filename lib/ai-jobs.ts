@@ -0,0 +1,379 @@
+/**
+ * AI Job Queue for Mirath Legal
+ * Durable queue on ai_jobs: workers claim pending jobs with row locks, retry with backoff, honour cancellation and reap stale locks
+ */
+
+import { db } from "@/db/drizzle";
+import { aiJobs } from "@/db/schema";
+import { and, asc, eq, gte, inArray, isNotNull, isNull, lt, lte, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { runWillGenerationJob, WILL_GENERATION_STEPS } from "./will-generation-job";
+
+export type AiJob = typeof aiJobs.$inferSelect;
+
+export type AiJobStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+export type AiJobStepStatus = 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+
+export interface AiJobStepProgress {
+  status: AiJobStepStatus;
+  attempt?: number;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export type AiJobProgress = Record<string, AiJobStepProgress>;
+
+export interface AiJobContext {
+  isFinalAttempt: boolean;
+  // Run a named sub-step once; a step completed by an earlier attempt returns its stored output
+  step<T>(name: string, run: () => Promise<T>, options?: { fallback?: () => T }): Promise<T>;
+  skipStep(name: string): Promise<null>;
+}
+
+export type AiJobHandler = (job: AiJob, context: AiJobContext) => Promise<Record<string, unknown>>;
+
+type AiJobResult =
+  | { success: true; data: AiJob }
+  | { success: false; error: string; status: number };
+
+// Job types the worker knows how to run, with the sub-steps reported in progress
+const JOB_HANDLERS: Record<string, { steps: readonly string[]; run: AiJobHandler }> = {
+  will_generation: { steps: WILL_GENERATION_STEPS, run: runWillGenerationJob },
+};
+
+const FINISHED_STATUSES: AiJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// Retry delay doubles from the base on every attempt, up to the cap
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 15 * 60_000;
+
+// A lock not refreshed for this long belongs to a worker that died or timed out
+const STALE_JOB_TIMEOUT_MS = 10 * 60_000;
+
+const DEFAULT_WORKER_BUDGET_MS = 50_000;
+
+const JOB_CANCELLED_ERROR = 'Job was cancelled';
+const JOB_LOCK_LOST_ERROR = 'Job lock was taken over by another worker';
+
+// Queue a job; it runs when a worker next claims it
+export async function enqueueAiJob(data: {
+  userId: string;
+  jobType: string;
+  willId?: string | null;
+  inputData: Record<string, unknown>;
+  parameters?: Record<string, unknown>;
+  maxAttempts?: number;
+}) {
+  const handler = JOB_HANDLERS[data.jobType];
+  if (!handler) {
+    throw new Error(`Unknown AI job type: ${data.jobType}`);
+  }
+
+  const [job] = await db.insert(aiJobs).values({
+    userId: data.userId,
+    willId: data.willId || null,
+    jobType: data.jobType,
+    status: 'pending',
+    inputData: data.inputData,
+    parameters: data.parameters || {},
+    progress: Object.fromEntries(handler.steps.map(step => [step, { status: 'pending' }])),
+    maxAttempts: data.maxAttempts ?? 3,
+  }).returning();
+
+  return job;
+}
+
+// Get a job owned by the user
+export async function getAiJob(jobId: string, userId: string) {
+  const [job] = await db
+    .select()
+    .from(aiJobs)
+    .where(and(eq(aiJobs.id, jobId), eq(aiJobs.userId, userId)))
+    .limit(1);
+
+  return job || null;
+}
+
+// Summarise per-step progress into a percentage for status polling
+export function getAiJobProgress(job: AiJob) {
+  const steps = (job.progress as AiJobProgress | null) || {};
+  const names = JOB_HANDLERS[job.jobType]?.steps || Object.keys(steps);
+
+  if (job.status === 'completed') {
+    return { percent: 100, steps };
+  }
+
+  // A running step counts as half done
+  const done = names.reduce((total, name) => {
+    const status = steps[name]?.status;
+    if (status === 'completed' || status === 'skipped') return total + 1;
+    if (status === 'running') return total + 0.5;
+    return total;
+  }, 0);
+
+  return {
+    percent: names.length > 0 ? Math.round((done / names.length) * 100) : 0,
+    steps,
+  };
+}
+
+// Cancel a job: pending jobs stop immediately, running jobs stop at their next sub-step
+export async function cancelAiJob(jobId: string, userId: string): Promise<AiJobResult> {
+  const job = await getAiJob(jobId, userId);
+  if (!job) {
+    return { success: false, error: 'Job not found', status: 404 };
+  }
+
+  if (FINISHED_STATUSES.includes(job.status as AiJobStatus)) {
+    return { success: false, error: `Job has already finished with status ${job.status}`, status: 409 };
+  }
+
+  const [cancelled] = await db
+    .update(aiJobs)
+    .set({ status: 'cancelled', cancelRequestedAt: new Date(), completedAt: new Date() })
+    .where(and(eq(aiJobs.id, jobId), eq(aiJobs.status, 'pending')))
+    .returning();
+
+  if (cancelled) {
+    return { success: true, data: cancelled };
+  }
+
+  // A worker holds the job; it checks for the request between sub-steps
+  const [requested] = await db
+    .update(aiJobs)
+    .set({ cancelRequestedAt: new Date() })
+    .where(and(eq(aiJobs.id, jobId), eq(aiJobs.status, 'in_progress')))
+    .returning();
+
+  if (!requested) {
+    return { success: false, error: 'Job finished before it could be cancelled', status: 409 };
+  }
+
+  return { success: true, data: requested };
+}
+
+// Claim the oldest runnable job; SKIP LOCKED lets concurrent workers pass over rows another worker is claiming
+export async function claimNextAiJob(workerId: string) {
+  const candidate = db
+    .select({ id: aiJobs.id })
+    .from(aiJobs)
+    .where(and(
+      eq(aiJobs.status, 'pending'),
+      lte(aiJobs.runAfter, sql`now()`),
+      isNull(aiJobs.cancelRequestedAt)
+    ))
+    .orderBy(asc(aiJobs.runAfter))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [job] = await db
+    .update(aiJobs)
+    .set({
+      status: 'in_progress',
+      attempts: sql`${aiJobs.attempts} + 1`,
+      lockedBy: workerId,
+      lockedAt: sql`now()`,
+      startedAt: sql`coalesce(${aiJobs.startedAt}, now())`,
+    })
+    .where(and(inArray(aiJobs.id, candidate), eq(aiJobs.status, 'pending')))
+    .returning();
+
+  return job || null;
+}
+
+// Process runnable jobs until the queue is empty, the job limit is hit or the time budget runs out
+export async function runAiJobWorker(options: { maxJobs?: number; timeBudgetMs?: number } = {}) {
+  const workerId = `worker-${nanoid(10)}`;
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_WORKER_BUDGET_MS);
+  const processed: Array<{ jobId: string; outcome: string }> = [];
+
+  while (processed.length < (options.maxJobs ?? Infinity) && Date.now() < deadline) {
+    const job = await claimNextAiJob(workerId);
+    if (!job) break;
+
+    processed.push({ jobId: job.id, outcome: await processAiJob(job, workerId) });
+  }
+
+  return processed;
+}
+
+// Release jobs whose worker stopped refreshing its lock: requeue them, or fail them once attempts are used up
+export async function reapStaleAiJobs(staleAfterMs: number = STALE_JOB_TIMEOUT_MS) {
+  // Jobs stuck in progress from before the queue existed have no lock at all
+  const stale = and(
+    eq(aiJobs.status, 'in_progress'),
+    lt(sql`coalesce(${aiJobs.lockedAt}, ${aiJobs.createdAt})`, sql`now() - ${staleAfterMs} * interval '1 millisecond'`)
+  );
+  const released = { lockedBy: null, lockedAt: null };
+
+  const cancelled = await db
+    .update(aiJobs)
+    .set({ ...released, status: 'cancelled', completedAt: sql`now()` })
+    .where(and(stale, isNotNull(aiJobs.cancelRequestedAt)))
+    .returning({ id: aiJobs.id });
+
+  const failed = await db
+    .update(aiJobs)
+    .set({
+      ...released,
+      status: 'failed',
+      errorMessage: 'Worker stopped responding and no attempts remain',
+      completedAt: sql`now()`,
+    })
+    .where(and(stale, gte(aiJobs.attempts, aiJobs.maxAttempts)))
+    .returning({ id: aiJobs.id });
+
+  const requeued = await db
+    .update(aiJobs)
+    .set({
+      ...released,
+      status: 'pending',
+      runAfter: sql`now()`,
+      errorMessage: 'Worker stopped responding; job requeued',
+    })
+    .where(and(stale, lt(aiJobs.attempts, aiJobs.maxAttempts)))
+    .returning({ id: aiJobs.id });
+
+  return {
+    requeued: requeued.map(job => job.id),
+    failed: failed.map(job => job.id),
+    cancelled: cancelled.map(job => job.id),
+  };
+}
+
+// Run a claimed job and record how it ended
+async function processAiJob(job: AiJob, workerId: string): Promise<string> {
+  const handler = JOB_HANDLERS[job.jobType];
+  const startTime = Date.now();
+
+  if (!handler) {
+    await finishJob(job.id, workerId, {
+      status: 'failed',
+      errorMessage: `Unknown AI job type: ${job.jobType}`,
+    });
+    return 'failed';
+  }
+
+  const progress: AiJobProgress = { ...(job.progress as AiJobProgress | null) };
+  const stepOutputs: Record<string, unknown> = {
+    ...((job.outputData as { steps?: Record<string, unknown> } | null)?.steps),
+  };
+  const isFinalAttempt = job.attempts >= job.maxAttempts;
+
+  // Persist progress and refresh the lock; stops the job if it was cancelled or reclaimed meanwhile
+  const checkpoint = async () => {
+    const [current] = await db
+      .update(aiJobs)
+      .set({ progress, outputData: { steps: stepOutputs }, lockedAt: sql`now()` })
+      .where(and(eq(aiJobs.id, job.id), eq(aiJobs.lockedBy, workerId)))
+      .returning({ cancelRequestedAt: aiJobs.cancelRequestedAt });
+
+    if (!current) throw new Error(JOB_LOCK_LOST_ERROR);
+    if (current.cancelRequestedAt) throw new Error(JOB_CANCELLED_ERROR);
+  };
+
+  const context: AiJobContext = {
+    isFinalAttempt,
+    step: async (name, run, options) => {
+      if (progress[name]?.status === 'completed') {
+        return stepOutputs[name] as Awaited<ReturnType<typeof run>>;
+      }
+
+      progress[name] = { status: 'running', attempt: job.attempts, startedAt: new Date().toISOString() };
+      await checkpoint();
+
+      try {
+        const output = await run();
+        stepOutputs[name] = output;
+        progress[name] = { ...progress[name], status: 'completed', completedAt: new Date().toISOString() };
+        await checkpoint();
+        return output;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        progress[name] = { ...progress[name], status: 'failed', error: message };
+
+        // Out of retries: settle for the fallback rather than failing the whole job
+        if (isFinalAttempt && options?.fallback) {
+          console.error(`AI job ${job.id} step ${name} failed, using fallback:`, error);
+          const output = options.fallback();
+          stepOutputs[name] = output;
+          await checkpoint();
+          return output;
+        }
+
+        throw error;
+      }
+    },
+    skipStep: async (name) => {
+      progress[name] = { status: 'skipped' };
+      await checkpoint();
+      return null;
+    },
+  };
+
+  try {
+    const output = await handler.run(job, context);
+
+    await finishJob(job.id, workerId, {
+      status: 'completed',
+      progress,
+      outputData: output,
+      errorMessage: null,
+      processingTimeMs: Date.now() - startTime,
+    });
+    return 'completed';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (message === JOB_LOCK_LOST_ERROR) {
+      // The reaper requeued the job and another worker owns it now
+      return 'abandoned';
+    }
+
+    if (message === JOB_CANCELLED_ERROR) {
+      await finishJob(job.id, workerId, { status: 'cancelled', progress });
+      return 'cancelled';
+    }
+
+    console.error(`AI job ${job.id} attempt ${job.attempts} failed:`, error);
+
+    if (!isFinalAttempt) {
+      const delayMs = Math.min(RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1), RETRY_MAX_DELAY_MS);
+
+      await db
+        .update(aiJobs)
+        .set({
+          status: 'pending',
+          progress,
+          errorMessage: message,
+          runAfter: sql`now() + ${delayMs} * interval '1 millisecond'`,
+          lockedBy: null,
+          lockedAt: null,
+        })
+        .where(and(eq(aiJobs.id, job.id), eq(aiJobs.lockedBy, workerId)));
+      return 'retrying';
+    }
+
+    await finishJob(job.id, workerId, {
+      status: 'failed',
+      progress,
+      errorMessage: message,
+      processingTimeMs: Date.now() - startTime,
+    });
+    return 'failed';
+  }
+}
+
+// Move a job to a final status and release its lock
+async function finishJob(jobId: string, workerId: string, values: Partial<typeof aiJobs.$inferInsert>) {
+  await db
+    .update(aiJobs)
+    .set({
+      ...values,
+      lockedBy: null,
+      lockedAt: null,
+      completedAt: new Date(),
+    })
+    .where(and(eq(aiJobs.id, jobId), eq(aiJobs.lockedBy, workerId)));
+}
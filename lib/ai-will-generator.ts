@@ -1,26 +1,34 @@
 /**
  * AI-Powered Will Generation for Mirath Legal
- * Integrates with OpenAI to generate DIFC-compliant legal documents
+ * Generates DIFC-compliant legal documents with the firm's configured language model
  */
 
-import { openai } from "@ai-sdk/openai";
 import { generateObject } from "ai";
 import { z } from "zod";
-import { getWillTemplate, type PersonalInfo, type Asset, type Beneficiary } from "./will-engine";
+import { getWillTemplate, type PersonalInfo, type Asset, type Beneficiary, type Trust } from "./will-engine";
+import { getLanguageModel } from "./llm-providers";
 
 // Schema for AI-generated will content
-const GeneratedWillSchema = z.object({
+export const GeneratedWillSchema = z.object({
   title: z.string(),
   preamble: z.string(),
   revocation: z.string(),
   beneficiaryProvisions: z.array(z.object({
+    beneficiaryId: z.string(), // Id of the beneficiary this provision is for, as given in the prompt
     beneficiaryName: z.string(),
     provision: z.string(),
     assets: z.array(z.string()).optional(),
+    assetIds: z.array(z.string()).optional(),
     percentage: z.number().optional(),
   })),
   executorProvisions: z.string(),
+  executorIds: z.array(z.string()),
   guardianProvisions: z.string().optional(),
+  guardianIds: z.array(z.string()).optional(),
+  trustProvisions: z.string().optional(),
+  trusteeIds: z.array(z.string()).optional(),
+  businessProvisions: z.string().optional(),
+  businessAssetIds: z.array(z.string()).optional(),
   residuaryClause: z.string(),
   witnessClause: z.string(),
   signature: z.string(),
@@ -31,7 +39,7 @@ const GeneratedWillSchema = z.object({
   }),
 });
 
-type GeneratedWill = z.infer<typeof GeneratedWillSchema>;
+export type GeneratedWill = z.infer<typeof GeneratedWillSchema>;
 
 export interface AIGenerationOptions {
   language: 'en' | 'ar';
@@ -46,6 +54,7 @@ export interface WillGenerationContext {
   beneficiaries: Beneficiary[];
   executors: Record<string, unknown>[];
   guardians?: Record<string, unknown>[];
+  trusts?: Trust[];
   specialInstructions?: string;
   willType: string;
 }
@@ -58,7 +67,8 @@ export async function generateDIFCWill(
     includeTechnicalTerms: true,
     formalityLevel: 'formal',
     includeExplanations: false,
-  }
+  },
+  firmId?: string | null
 ): Promise<GeneratedWill> {
   
   const template = getWillTemplate(context.willType);
@@ -67,8 +77,9 @@ export async function generateDIFCWill(
   const userPrompt = createUserPrompt(context, options);
 
   try {
+    const { model } = await getLanguageModel('willGeneration', firmId);
     const result = await generateObject({
-      model: openai('gpt-4'),
+      model,
       schema: GeneratedWillSchema,
       system: systemPrompt,
       prompt: userPrompt,
@@ -134,19 +145,36 @@ TESTATOR INFORMATION:
 - Address: ${formatAddress(context.personalInfo.address)}
 
 ASSETS TO BE DISTRIBUTED:
-${context.assets.map(asset => `- ${asset.name}: ${asset.description} (${asset.currency} ${asset.estimatedValue.toLocaleString()}) in ${asset.jurisdiction}`).join('\n')}
+${context.assets.map(asset => `- [id: ${asset.id}] ${asset.name}: ${asset.description} (${asset.currency} ${asset.estimatedValue.toLocaleString()}) in ${asset.jurisdiction}${asset.digital ? ` [${asset.digital.category} on ${asset.digital.platform}${asset.digital.identifier ? `, ${asset.digital.identifier}` : ''}; ${asset.digital.disposition}]` : ''}`).join('\n')}
 
 BENEFICIARIES:
 ${context.beneficiaries.map(beneficiary => 
-  `- ${beneficiary.fullName} (${beneficiary.relationship}): ${beneficiary.inheritancePercentage || 'Specific assets'}%`
+  `- [id: ${beneficiary.id}] ${beneficiary.fullName} (${beneficiary.relationship}): ${beneficiary.inheritancePercentage || 'Specific assets'}%`
 ).join('\n')}
 
 EXECUTORS:
-${context.executors.map(executor => `- ${executor.fullName} (${executor.relationship})`).join('\n')}
+${context.executors.map(executor => `- [id: ${executor.id}] ${executor.fullName} (${executor.relationship})`).join('\n')}
 
 ${context.guardians && context.guardians.length > 0 ? `
 GUARDIANS FOR MINOR CHILDREN:
-${context.guardians.map(guardian => `- ${guardian.fullName} (${guardian.relationship})`).join('\n')}
+${context.guardians.map(guardian => `- [id: ${guardian.id}] ${guardian.fullName} (${guardian.relationship})`).join('\n')}
+` : ''}
+
+${context.trusts && context.trusts.length > 0 ? `
+TESTAMENTARY TRUSTS:
+${context.trusts.map(trust => `- ${trust.name}: assets [${trust.assetIds.join(', ')}], vesting age ${trust.vestingAge}, distribution standard ${trust.distributionStandard}${trust.distributionTerms ? ` (${trust.distributionTerms})` : ''}
+  Trustees: ${trust.trustees.map(trustee => `[id: ${trustee.id}] ${trustee.fullName}${trustee.isPrimary ? '' : ' (alternate)'}`).join('; ')}
+  Trust beneficiaries: ${trust.beneficiaries.map(beneficiary => `${beneficiary.fullName} ${beneficiary.sharePercentage}%${beneficiary.vestingAge ? ` vesting at ${beneficiary.vestingAge}` : ''}`).join('; ')}`).join('\n')}
+` : ''}
+
+${context.assets.some(asset => asset.business) ? `
+BUSINESS INTERESTS:
+${context.assets.flatMap(({ id, business }) => business ? [`- [id: ${id}] ${business.shareholdingPercentage}% of ${business.shareClass || 'ordinary'} shares in ${business.entityName} (${business.jurisdiction} ${business.entityType}, trade licence ${business.tradeLicenceNumber}${business.licensingAuthority ? `, ${business.licensingAuthority}` : ''})
+  Successors: ${business.successors.map(successor => `${successor.fullName} ${successor.sharePercentage}% of the holding`).join('; ') || 'none named'}
+  Co-shareholders: ${business.coShareholders.map(coShareholder => `${coShareholder.fullName} ${coShareholder.shareholdingPercentage}%`).join('; ') || 'none'}${business.interimManager ? `
+  Interim manager: ${business.interimManager}` : ''}${business.buySellAgreement ? `
+  Buy-sell agreement: with ${business.buySellAgreement.counterparties}, valued by ${business.buySellAgreement.valuationMethod}${business.buySellAgreement.insuranceFunded ? ', insurance funded' : ''}` : ''}${business.keyPersonProvisions ? `
+  Key person provisions: ${business.keyPersonProvisions}` : ''}`] : []).join('\n')}
 ` : ''}
 
 ${context.specialInstructions ? `
@@ -161,6 +189,13 @@ ADDITIONAL REQUIREMENTS:
 - Include all mandatory clauses for UAE expatriate wills
 - Address potential cross-border legal issues
 - Include proper witness and signature requirements
+- Never include passwords, private keys or recovery phrases; state that access details for digital assets are held in a sealed letter of wishes released to the executors on proof of death
+
+TRACEABILITY:
+- Set beneficiaryId on every beneficiary provision to the id of the beneficiary it provides for, and assetIds to the ids of the assets it disposes of
+- Set executorIds, guardianIds and trusteeIds to the ids of the people appointed, and put the trust terms in trustProvisions
+- Put the succession of business interests in businessProvisions and set businessAssetIds to the ids of those assets
+- Only use the ids listed above, state each beneficiary's percentage exactly as given, and do not name anyone who is not listed
 
 Please ensure the generated will is comprehensive, legally sound, and ready for legal review and DIFC registration.`;
 }
@@ -172,7 +207,7 @@ function formatAddress(address: Record<string, unknown>): string {
 }
 
 // Generate AI-powered legal analysis
-export async function generateLegalAnalysis(willContent: string, assets: Asset[]): Promise<{
+export async function generateLegalAnalysis(willContent: string, assets: Asset[], firmId?: string | null): Promise<{
   riskLevel: 'low' | 'medium' | 'high';
   keyRisks: string[];
   recommendations: string[];
@@ -202,8 +237,9 @@ Focus on:
 - Registration requirements`;
 
   try {
+    const { model } = await getLanguageModel('legalAnalysis', firmId);
     const result = await generateObject({
-      model: openai('gpt-4'),
+      model,
       schema: z.object({
         riskLevel: z.enum(['low', 'medium', 'high']),
         keyRisks: z.array(z.string()),
@@ -223,7 +259,7 @@ Focus on:
 }
 
 // Generate compliance checklist
-export async function generateComplianceChecklist(willContent: string): Promise<{
+export async function generateComplianceChecklist(willContent: string, firmId?: string | null): Promise<{
   difcCompliant: boolean;
   checklist: Array<{
     requirement: string;
@@ -253,8 +289,9 @@ Check against DIFC Wills and Probate Registry requirements:
 For each requirement, indicate if it's met, not met, or unclear, with explanatory notes.`;
 
   try {
+    const { model } = await getLanguageModel('complianceCheck', firmId);
     const result = await generateObject({
-      model: openai('gpt-4'),
+      model,
       schema: z.object({
         difcCompliant: z.boolean(),
         checklist: z.array(z.object({
@@ -276,7 +313,7 @@ For each requirement, indicate if it's met, not met, or unclear, with explanator
 }
 
 // Generate will summary for client review
-export async function generateWillSummary(willContent: string): Promise<{
+export async function generateWillSummary(willContent: string, firmId?: string | null): Promise<{
   summary: string;
   keyPoints: string[];
   assetDistribution: string[];
@@ -297,8 +334,9 @@ Provide:
 Use simple language that a non-lawyer can understand while maintaining accuracy.`;
 
   try {
+    const { model } = await getLanguageModel('willSummary', firmId);
     const result = await generateObject({
-      model: openai('gpt-4'),
+      model,
       schema: z.object({
         summary: z.string(),
         keyPoints: z.array(z.string()),
@@ -314,4 +352,109 @@ Use simple language that a non-lawyer can understand while maintaining accuracy.
     console.error('AI summary generation error:', error);
     throw new Error('Failed to generate will summary');
   }
-}
\ No newline at end of file
+}
+
+export interface LetterOfWishesContext extends WillGenerationContext {
+  testatorName: string;
+  funeralArrangements?: string;
+  language: 'en' | 'ar';
+}
+
+// Draft the sections of a non-binding letter of wishes from the will's contents
+export async function generateLetterOfWishesDraft(context: LetterOfWishesContext, firmId?: string | null): Promise<{
+  title: string;
+  sections: Array<{
+    type: string;
+    heading: string;
+    body: string;
+    beneficiaryIds?: string[];
+    assetIds?: string[];
+  }>;
+}> {
+  const guardians = context.guardians || [];
+  const personalItems = context.assets.filter(asset => !['property', 'bank_account', 'investment', 'business'].includes(asset.type));
+
+  const letterPrompt = `Draft a letter of wishes for ${context.testatorName} to accompany their DIFC will. Write it in ${context.language === 'ar' ? 'Modern Standard Arabic' : 'English'}, in the first person, in a warm but clear tone.
+
+BENEFICIARIES:
+${context.beneficiaries.map(beneficiary => `- [id: ${beneficiary.id}] ${beneficiary.fullName} (${beneficiary.relationship})`).join('\n')}
+
+ASSETS:
+${context.assets.map(asset => `- [id: ${asset.id}] ${asset.name}: ${asset.description}`).join('\n')}
+${guardians.length > 0 ? `\nGUARDIANS:\n${guardians.map(guardian => `- ${String(guardian.fullName)} (${String(guardian.relationship)})`).join('\n')}` : ''}
+${context.funeralArrangements ? `\nFUNERAL ARRANGEMENTS REQUESTED:\n${context.funeralArrangements}` : ''}
+${context.specialInstructions ? `\nSPECIAL INSTRUCTIONS:\n${context.specialInstructions}` : ''}
+
+Requirements:
+1. Use these section types: personal_items, funeral, guardian_guidance, digital_assets, business, general
+2. Only include a section when the information above supports it${personalItems.length > 0 ? '; include personal_items for the personal and digital assets listed' : ''}
+3. Include guardian_guidance only if guardians are named, covering upbringing, education and values
+4. Express wishes, not instructions; never change who inherits what under the will
+5. Never include passwords, private keys or recovery phrases
+6. For each section, list the ids of the beneficiaries and assets it concerns`;
+
+  try {
+    const { model } = await getLanguageModel('willGeneration', firmId);
+    const result = await generateObject({
+      model,
+      schema: z.object({
+        title: z.string(),
+        sections: z.array(z.object({
+          type: z.string(),
+          heading: z.string(),
+          body: z.string(),
+          beneficiaryIds: z.array(z.string()).optional(),
+          assetIds: z.array(z.string()).optional(),
+        })),
+      }),
+      prompt: letterPrompt,
+      temperature: 0.4,
+    });
+
+    return result.object;
+  } catch (error) {
+    console.error('AI letter of wishes error:', error);
+    throw new Error('Failed to draft letter of wishes');
+  }
+}
+
+// Translate one rendered will clause between English and Arabic
+export async function translateWillClause(
+  text: string,
+  sourceLanguage: 'en' | 'ar',
+  targetLanguage: 'en' | 'ar',
+  glossary: Record<string, string> = {},
+  firmId?: string | null
+): Promise<{ translatedText: string; provider: string; modelId: string }> {
+  const languageNames = { en: 'English', ar: 'Modern Standard Arabic' };
+  const glossaryLines = Object.entries(glossary).map(([source, target]) => `- ${source} => ${target}`);
+
+  const translationPrompt = `Translate this clause of a DIFC will from ${languageNames[sourceLanguage]} into ${languageNames[targetLanguage]}.
+
+CLAUSE:
+${text}
+
+Requirements:
+1. Use the formal legal register used in UAE court documents
+2. Keep the meaning exact; do not add, summarise or omit provisions
+3. Keep list markers, line breaks, percentages, amounts and ID numbers in the same positions
+4. Leave signature lines and blanks (____) unchanged
+${glossaryLines.length > 0 ? `5. Write these names exactly as given:\n${glossaryLines.join('\n')}` : ''}`;
+
+  try {
+    const { model, provider, modelId } = await getLanguageModel('translation', firmId);
+    const result = await generateObject({
+      model,
+      schema: z.object({
+        translatedText: z.string(),
+      }),
+      prompt: translationPrompt,
+      temperature: 0,
+    });
+
+    return { translatedText: result.object.translatedText, provider, modelId };
+  } catch (error) {
+    console.error('AI clause translation error:', error);
+    throw new Error('Failed to translate will clause');
+  }
+}
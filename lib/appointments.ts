@@ -0,0 +1,740 @@
+/**
+ * Appointment Scheduling for Mirath Legal
+ * Lawyer availability from working hours, existing bookings, service durations and buffers; conflict-free
+ * booking; and iCalendar output for single appointments and each lawyer's subscribable feed
+ */
+
+import { db } from "@/db/drizzle";
+import { appointments, lawFirmMembers, matters, matterTimeline, user } from "@/db/schema";
+import { and, desc, eq, gt, gte, inArray, lt, ne, or } from "drizzle-orm";
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { getFirmSettings } from "./law-firm";
+import { getTransitionRole } from "./matter-workflow";
+import type { TransitionRole } from "./matter-status";
+
+export const APPOINTMENT_STATUSES = ['pending', 'confirmed', 'cancelled', 'completed', 'no_show'] as const;
+export const APPOINTMENT_LOCATIONS = ['office', 'client', 'court', 'online'] as const;
+
+export type AppointmentStatus = typeof APPOINTMENT_STATUSES[number];
+export type AppointmentLocation = typeof APPOINTMENT_LOCATIONS[number];
+export type Appointment = typeof appointments.$inferSelect;
+export type WorkingHours = Record<string, Array<{ start: string; end: string }>>;
+
+type AppointmentResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+export interface AppointmentService {
+  id: string;
+  name: string;
+  description: string;
+  duration: number; // Minutes
+  price: number;
+  location: AppointmentLocation;
+  bufferMinutes: number;
+}
+
+const LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer', 'lawyer'];
+
+// Dubai does not observe daylight saving, so firm calendars run at a fixed UTC+4
+const FIRM_UTC_OFFSET_MINUTES = 240;
+const FIRM_TIMEZONE = 'Asia/Dubai';
+
+// Appointments that still hold time on a lawyer's calendar
+const ACTIVE_STATUSES: AppointmentStatus[] = ['pending', 'confirmed'];
+
+// Platform services; firms can rename, reprice, retime or disable them under settings.scheduling.services
+export const APPOINTMENT_SERVICES: Record<string, Omit<AppointmentService, 'id'>> = {
+  notarization: {
+    name: 'Will Notarization',
+    description: 'Notarize your will document at UAE courts or DIFC registry',
+    duration: 60,
+    price: 500,
+    location: 'court',
+    bufferMinutes: 30, // Travel to and from the court
+  },
+  legal_review: {
+    name: 'Legal Review',
+    description: 'Professional lawyer review of your will document',
+    duration: 90,
+    price: 800,
+    location: 'office',
+    bufferMinutes: 15,
+  },
+  difc_registration: {
+    name: 'DIFC Registration',
+    description: 'Complete DIFC will registration process',
+    duration: 120,
+    price: 1200,
+    location: 'court',
+    bufferMinutes: 30,
+  },
+  consultation: {
+    name: 'Estate Planning Consultation',
+    description: 'Initial consultation for complex estate planning',
+    duration: 60,
+    price: 600,
+    location: 'office',
+    bufferMinutes: 15,
+  },
+};
+
+// Monday to Friday with a lunch break; the UAE weekend is Saturday and Sunday
+const DEFAULT_WORKING_HOURS: WorkingHours = Object.fromEntries(
+  ['1', '2', '3', '4', '5'].map(day => [day, [{ start: '09:00', end: '13:00' }, { start: '14:00', end: '18:00' }]])
+);
+const DEFAULT_SLOT_INTERVAL_MINUTES = 30;
+
+const LOCATION_LABELS: Record<AppointmentLocation, string> = {
+  office: 'Law Office',
+  client: 'Client Location',
+  court: 'Court/Registry',
+  online: 'Online',
+};
+
+// Status changes an appointment can go through
+const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'no_show', 'cancelled'],
+  cancelled: [],
+  completed: [],
+  no_show: [],
+};
+
+// Validation schemas for appointment requests
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm');
+const calendarDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+export const bookAppointmentSchema = z.object({
+  serviceId: z.string().min(1),
+  date: calendarDate,
+  time: timeOfDay,
+  matterId: z.string().uuid().optional(),
+  lawyerId: z.string().optional(),
+  name: z.string().trim().min(1),
+  email: z.string().email(),
+  phone: z.string().optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export const updateAppointmentSchema = z.object({
+  status: z.enum(APPOINTMENT_STATUSES).optional(),
+  date: calendarDate.optional(),
+  time: timeOfDay.optional(),
+  cancellationReason: z.string().max(1000).optional(),
+}).refine(input => !!input.date === !!input.time, {
+  message: 'Provide both date and time to reschedule',
+  path: ['time'],
+});
+
+export const availabilityQuerySchema = z.object({
+  date: calendarDate,
+  serviceId: z.string().min(1),
+  matterId: z.string().uuid().optional(),
+  lawyerId: z.string().optional(),
+});
+
+export const workingHoursSchema = z.record(
+  z.enum(['0', '1', '2', '3', '4', '5', '6']),
+  z.array(z.object({ start: timeOfDay, end: timeOfDay }).refine(window => window.start < window.end, {
+    message: 'Working hours must end after they start',
+  }))
+);
+
+export type BookAppointmentInput = z.infer<typeof bookAppointmentSchema>;
+export type UpdateAppointmentInput = z.infer<typeof updateAppointmentSchema>;
+
+interface SchedulingSettings {
+  services: AppointmentService[];
+  workingHours: WorkingHours;
+  slotIntervalMinutes: number;
+}
+
+interface BookingParties {
+  lawFirmId: string;
+  lawyerId: string;
+  clientId: string;
+  matterId: string | null;
+}
+
+// The firm's services and calendar defaults, with its overrides applied
+export async function getSchedulingSettings(lawFirmId: string): Promise<SchedulingSettings> {
+  const settings = await getFirmSettings(lawFirmId);
+  const scheduling = settings.scheduling || {};
+
+  const services = Object.entries(APPOINTMENT_SERVICES)
+    .filter(([id]) => scheduling.services?.[id]?.enabled !== false)
+    .map(([id, service]) => {
+      const override = scheduling.services?.[id] || {};
+      return {
+        id,
+        ...service,
+        name: override.name ?? service.name,
+        duration: override.duration ?? service.duration,
+        price: override.price ?? service.price,
+        bufferMinutes: override.bufferMinutes ?? scheduling.bufferMinutes ?? service.bufferMinutes,
+      };
+    });
+
+  return {
+    services,
+    workingHours: scheduling.workingHours || DEFAULT_WORKING_HOURS,
+    slotIntervalMinutes: scheduling.slotIntervalMinutes || DEFAULT_SLOT_INTERVAL_MINUTES,
+  };
+}
+
+// A lawyer's own working hours, falling back to the firm's
+export async function getLawyerWorkingHours(lawyerId: string, lawFirmId: string, firmHours: WorkingHours) {
+  const [membership] = await db
+    .select({ workingHours: lawFirmMembers.workingHours })
+    .from(lawFirmMembers)
+    .where(and(eq(lawFirmMembers.userId, lawyerId), eq(lawFirmMembers.lawFirmId, lawFirmId)))
+    .limit(1);
+
+  return membership?.workingHours || firmHours;
+}
+
+// Work out the firm, lawyer, client and matter for a booking made by the current user
+export async function resolveBookingParties(
+  userId: string,
+  input: { matterId?: string; lawyerId?: string }
+): Promise<AppointmentResult<BookingParties>> {
+  let matter: typeof matters.$inferSelect | undefined;
+
+  if (input.matterId) {
+    [matter] = await db.select().from(matters).where(eq(matters.id, input.matterId)).limit(1);
+    if (!matter) {
+      return { success: false, error: 'Matter not found', status: 404 };
+    }
+
+    if (matter.clientId !== userId && !(await getTransitionRole(userId, matter.lawFirmId))) {
+      return { success: false, error: 'Matter not found', status: 404 };
+    }
+  } else if (!input.lawyerId) {
+    // Clients book with the lawyer on their most recent matter
+    [matter] = await db
+      .select()
+      .from(matters)
+      .where(eq(matters.clientId, userId))
+      .orderBy(desc(matters.createdAt))
+      .limit(1);
+
+    if (!matter) {
+      return { success: false, error: 'Choose a lawyer or matter for the appointment', status: 400 };
+    }
+  }
+
+  const lawyerId = input.lawyerId || matter?.primaryLawyerId || matter?.assignedLawyerId;
+  if (!lawyerId) {
+    return { success: false, error: 'No lawyer is assigned to this matter yet', status: 409 };
+  }
+
+  // Without a matter, the lawyer's own firm takes the booking
+  const lawFirmId = matter?.lawFirmId || (await db
+    .select({ lawFirmId: lawFirmMembers.lawFirmId })
+    .from(lawFirmMembers)
+    .where(eq(lawFirmMembers.userId, lawyerId))
+    .limit(1))[0]?.lawFirmId;
+
+  const lawyerRole = lawFirmId ? await getTransitionRole(lawyerId, lawFirmId) : null;
+  if (!lawFirmId || !lawyerRole || (lawyerRole !== 'super_admin' && !LAWYERS.includes(lawyerRole))) {
+    return { success: false, error: 'Appointments can only be booked with a lawyer of the firm', status: 400 };
+  }
+
+  return {
+    success: true,
+    data: { lawFirmId, lawyerId, clientId: matter?.clientId || userId, matterId: matter?.id || null },
+  };
+}
+
+// Free start times for a service on one day of a lawyer's calendar
+export async function getAvailableSlots(
+  parties: Pick<BookingParties, 'lawFirmId' | 'lawyerId'>,
+  serviceId: string,
+  date: string
+): Promise<AppointmentResult<{ service: AppointmentService; slots: string[] }>> {
+  const settings = await getSchedulingSettings(parties.lawFirmId);
+  const service = settings.services.find(candidate => candidate.id === serviceId);
+  if (!service) {
+    return { success: false, error: 'Invalid service ID', status: 400 };
+  }
+
+  const workingHours = await getLawyerWorkingHours(parties.lawyerId, parties.lawFirmId, settings.workingHours);
+  const busy = await getLawyerBusyTimes(parties.lawyerId, date);
+
+  return {
+    success: true,
+    data: {
+      service,
+      slots: computeAvailableSlots(date, service, workingHours, busy, settings.slotIntervalMinutes),
+    },
+  };
+}
+
+// Book an appointment; the database's no-overlap constraint settles two bookings racing for the same time
+export async function bookAppointment(
+  userId: string,
+  parties: BookingParties,
+  input: BookAppointmentInput
+): Promise<AppointmentResult<Appointment>> {
+  const settings = await getSchedulingSettings(parties.lawFirmId);
+  const service = settings.services.find(candidate => candidate.id === input.serviceId);
+  if (!service) {
+    return { success: false, error: 'Invalid service ID', status: 400 };
+  }
+
+  const workingHours = await getLawyerWorkingHours(parties.lawyerId, parties.lawFirmId, settings.workingHours);
+  const startsAt = toFirmInstant(input.date, input.time);
+  const endsAt = new Date(startsAt.getTime() + service.duration * 60_000);
+
+  const busy = await getLawyerBusyTimes(parties.lawyerId, input.date);
+  const slots = computeAvailableSlots(input.date, service, workingHours, busy, settings.slotIntervalMinutes);
+
+  if (!slots.includes(input.time)) {
+    return { success: false, error: 'That time is no longer available; choose another slot', status: 409 };
+  }
+
+  let appointment: Appointment;
+  try {
+    [appointment] = await db.insert(appointments).values({
+      confirmationNumber: generateConfirmationNumber(),
+      lawFirmId: parties.lawFirmId,
+      matterId: parties.matterId,
+      clientId: parties.clientId,
+      lawyerId: parties.lawyerId,
+      serviceId: service.id,
+      serviceName: service.name,
+      location: service.location,
+      price: String(service.price),
+      startsAt,
+      endsAt,
+      bufferMinutes: service.bufferMinutes,
+      clientName: input.name,
+      clientEmail: input.email,
+      clientPhone: input.phone,
+      notes: input.notes,
+      createdBy: userId,
+    }).returning();
+  } catch (error) {
+    if (isOverlapError(error)) {
+      return { success: false, error: 'That time is no longer available; choose another slot', status: 409 };
+    }
+    throw error;
+  }
+
+  if (parties.matterId) {
+    await db.insert(matterTimeline).values({
+      matterId: parties.matterId,
+      userId,
+      eventType: 'appointment',
+      title: `${service.name} booked`,
+      description: `${input.date} at ${input.time} (${LOCATION_LABELS[service.location]})`,
+      metadata: { appointmentId: appointment.id },
+      clientVisible: true,
+    });
+  }
+
+  return { success: true, data: appointment };
+}
+
+// Load an appointment the user is a party to, or that belongs to their firm
+export async function getAppointmentForUser(appointmentId: string, userId: string) {
+  const [appointment] = await db
+    .select()
+    .from(appointments)
+    .where(eq(appointments.id, appointmentId))
+    .limit(1);
+
+  if (!appointment) return null;
+  if (appointment.clientId === userId || appointment.lawyerId === userId) return appointment;
+
+  return (await getTransitionRole(userId, appointment.lawFirmId)) ? appointment : null;
+}
+
+// Appointments the user attends as client or lawyer, newest first
+export async function getUserAppointments(userId: string) {
+  return await db
+    .select()
+    .from(appointments)
+    .where(or(eq(appointments.clientId, userId), eq(appointments.lawyerId, userId)))
+    .orderBy(desc(appointments.startsAt))
+    .limit(100);
+}
+
+// Change an appointment's status or move it to another slot
+export async function updateAppointment(
+  appointment: Appointment,
+  userId: string,
+  input: UpdateAppointmentInput
+): Promise<AppointmentResult<Appointment>> {
+  const isClient = appointment.clientId === userId;
+  const role = isClient ? null : await getTransitionRole(userId, appointment.lawFirmId);
+
+  if (input.status && input.status !== appointment.status) {
+    const from = appointment.status as AppointmentStatus;
+    if (!STATUS_TRANSITIONS[from].includes(input.status)) {
+      return { success: false, error: `Cannot change a ${from} appointment to ${input.status}`, status: 409 };
+    }
+
+    // Clients may only cancel; the firm confirms and records the outcome
+    if (isClient ? input.status !== 'cancelled' : !role) {
+      return { success: false, error: 'You cannot make this change to the appointment', status: 403 };
+    }
+  }
+
+  let startsAt = appointment.startsAt;
+  let endsAt = appointment.endsAt;
+  const rescheduling = input.date && input.time;
+
+  if (rescheduling) {
+    if (!ACTIVE_STATUSES.includes(appointment.status as AppointmentStatus)) {
+      return { success: false, error: 'Only pending or confirmed appointments can be rescheduled', status: 409 };
+    }
+
+    startsAt = toFirmInstant(input.date!, input.time!);
+    endsAt = new Date(startsAt.getTime() + (appointment.endsAt.getTime() - appointment.startsAt.getTime()));
+  }
+
+  const settings = await getSchedulingSettings(appointment.lawFirmId);
+  const workingHours = await getLawyerWorkingHours(appointment.lawyerId, appointment.lawFirmId, settings.workingHours);
+  const now = new Date();
+
+  if (rescheduling) {
+    const busy = await getLawyerBusyTimes(appointment.lawyerId, input.date!, appointment.id);
+    const duration = (endsAt.getTime() - startsAt.getTime()) / 60_000;
+    const slots = computeAvailableSlots(
+      input.date!,
+      { duration, bufferMinutes: appointment.bufferMinutes },
+      workingHours,
+      busy,
+      settings.slotIntervalMinutes
+    );
+
+    if (!slots.includes(input.time!)) {
+      return { success: false, error: 'That time is not available; choose another slot', status: 409 };
+    }
+  }
+
+  // A client moving the appointment needs the firm to confirm the new time
+  const status = input.status || (rescheduling && isClient ? 'pending' : appointment.status);
+
+  let updated: Appointment | undefined;
+  try {
+    [updated] = await db
+      .update(appointments)
+      .set({
+        status,
+        ...(input.status === 'cancelled' && { cancellationReason: input.cancellationReason }),
+        startsAt,
+        endsAt,
+        icsSequence: appointment.icsSequence + 1,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(appointments.id, appointment.id),
+        eq(appointments.status, appointment.status),
+        eq(appointments.icsSequence, appointment.icsSequence)
+      ))
+      .returning();
+  } catch (error) {
+    if (isOverlapError(error)) {
+      return { success: false, error: 'That time is not available; choose another slot', status: 409 };
+    }
+    throw error;
+  }
+
+  if (!updated) {
+    return { success: false, error: 'The appointment was changed by someone else', status: 409 };
+  }
+
+  if (appointment.matterId) {
+    await db.insert(matterTimeline).values({
+      matterId: appointment.matterId,
+      userId,
+      eventType: 'appointment',
+      title: rescheduling
+        ? `${appointment.serviceName} rescheduled`
+        : `${appointment.serviceName} ${updated.status.replace('_', ' ')}`,
+      description: `${formatFirmDate(updated.startsAt)} at ${formatFirmTime(updated.startsAt)}`,
+      metadata: { appointmentId: appointment.id, previousStatus: appointment.status, newStatus: updated.status },
+      clientVisible: true,
+    });
+  }
+
+  return { success: true, data: updated };
+}
+
+// A firm member's calendar settings: their hours, the firm's defaults and whether a feed is set up
+export async function getLawyerCalendar(userId: string) {
+  const [membership] = await db
+    .select({
+      lawFirmId: lawFirmMembers.lawFirmId,
+      workingHours: lawFirmMembers.workingHours,
+      calendarFeedTokenHash: lawFirmMembers.calendarFeedTokenHash,
+    })
+    .from(lawFirmMembers)
+    .where(eq(lawFirmMembers.userId, userId))
+    .limit(1);
+
+  if (!membership) return null;
+
+  const settings = await getSchedulingSettings(membership.lawFirmId);
+
+  return {
+    lawFirmId: membership.lawFirmId,
+    workingHours: membership.workingHours || settings.workingHours,
+    usesFirmHours: !membership.workingHours,
+    firmWorkingHours: settings.workingHours,
+    services: settings.services,
+    feedEnabled: !!membership.calendarFeedTokenHash,
+  };
+}
+
+// Set a lawyer's own working hours, or clear them to follow the firm's
+export async function updateLawyerWorkingHours(
+  userId: string,
+  lawFirmId: string,
+  workingHours: WorkingHours | null
+): Promise<AppointmentResult<WorkingHours>> {
+  const [membership] = await db
+    .update(lawFirmMembers)
+    .set({ workingHours })
+    .where(and(eq(lawFirmMembers.userId, userId), eq(lawFirmMembers.lawFirmId, lawFirmId)))
+    .returning({ id: lawFirmMembers.id });
+
+  if (!membership) {
+    return { success: false, error: 'User is not associated with any law firm', status: 400 };
+  }
+
+  const settings = await getSchedulingSettings(lawFirmId);
+  return { success: true, data: workingHours || settings.workingHours };
+}
+
+// Issue a new private feed token for a lawyer; earlier feed URLs stop working
+export async function rotateCalendarFeedToken(userId: string, lawFirmId: string): Promise<AppointmentResult<string>> {
+  const token = randomBytes(32).toString('base64url');
+
+  const [membership] = await db
+    .update(lawFirmMembers)
+    .set({ calendarFeedTokenHash: hashFeedToken(token) })
+    .where(and(eq(lawFirmMembers.userId, userId), eq(lawFirmMembers.lawFirmId, lawFirmId)))
+    .returning({ id: lawFirmMembers.id });
+
+  if (!membership) {
+    return { success: false, error: 'User is not associated with any law firm', status: 400 };
+  }
+
+  return { success: true, data: token };
+}
+
+// The lawyer's appointments for their subscribed feed, from a month back onwards
+export async function getCalendarFeed(token: string) {
+  const [membership] = await db
+    .select({ userId: lawFirmMembers.userId, name: user.name, email: user.email })
+    .from(lawFirmMembers)
+    .innerJoin(user, eq(user.id, lawFirmMembers.userId))
+    .where(eq(lawFirmMembers.calendarFeedTokenHash, hashFeedToken(token)))
+    .limit(1);
+
+  if (!membership) return null;
+
+  const since = new Date(Date.now() - 30 * 24 * 60 * 60_000);
+  const feedAppointments = await db
+    .select()
+    .from(appointments)
+    .where(and(eq(appointments.lawyerId, membership.userId), gte(appointments.startsAt, since)))
+    .orderBy(appointments.startsAt);
+
+  return buildCalendar(
+    feedAppointments.map(appointment => ({ appointment, lawyer: membership })),
+    { name: `${membership.name} – Mirath Legal`, method: 'PUBLISH' }
+  );
+}
+
+// A one-event calendar file for an appointment
+export async function getAppointmentCalendarFile(appointment: Appointment) {
+  const [lawyer] = await db
+    .select({ name: user.name, email: user.email })
+    .from(user)
+    .where(eq(user.id, appointment.lawyerId))
+    .limit(1);
+
+  return buildCalendar(
+    [{ appointment, lawyer: lawyer || { name: 'Mirath Legal', email: 'appointments@mirath.legal' } }],
+    { method: appointment.status === 'cancelled' ? 'CANCEL' : 'PUBLISH' }
+  );
+}
+
+// Start times on a day where the service fits in working hours without crowding another booking
+export function computeAvailableSlots(
+  date: string,
+  service: Pick<AppointmentService, 'duration' | 'bufferMinutes'>,
+  workingHours: WorkingHours,
+  busy: Array<Pick<Appointment, 'startsAt' | 'endsAt' | 'bufferMinutes'>>,
+  slotIntervalMinutes: number,
+  now: Date = new Date()
+): string[] {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  const slots: string[] = [];
+
+  for (const window of workingHours[String(weekday)] || []) {
+    const windowEnd = toMinutes(window.end);
+
+    for (let start = toMinutes(window.start); start + service.duration <= windowEnd; start += slotIntervalMinutes) {
+      const time = fromMinutes(start);
+      const startsAt = toFirmInstant(date, time);
+      const endsAt = new Date(startsAt.getTime() + service.duration * 60_000);
+
+      if (startsAt <= now) continue;
+
+      // The larger of the two buffers has to separate neighbouring appointments
+      const clashes = busy.some(booking => {
+        const gap = Math.max(service.bufferMinutes, booking.bufferMinutes) * 60_000;
+        return startsAt.getTime() < booking.endsAt.getTime() + gap && booking.startsAt.getTime() < endsAt.getTime() + gap;
+      });
+
+      if (!clashes) slots.push(time);
+    }
+  }
+
+  return slots;
+}
+
+// Render appointments as an iCalendar (RFC 5545) file
+export function buildCalendar(
+  entries: Array<{ appointment: Appointment; lawyer: { name: string; email: string } }>,
+  options: { name?: string; method: 'PUBLISH' | 'CANCEL' }
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Mirath Legal//Appointments//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method}`,
+    ...(options.name ? [`X-WR-CALNAME:${escapeICSText(options.name)}`] : []),
+    `X-WR-TIMEZONE:${FIRM_TIMEZONE}`,
+  ];
+
+  for (const { appointment, lawyer } of entries) {
+    const status = appointment.status === 'cancelled'
+      ? 'CANCELLED'
+      : appointment.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED';
+    const description = [
+      `Confirmation number: ${appointment.confirmationNumber}`,
+      `Lawyer: ${lawyer.name}`,
+      ...(appointment.notes ? [`Notes: ${appointment.notes}`] : []),
+    ].join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${appointment.id}@mirath.legal`,
+      `DTSTAMP:${toICSDateTime(appointment.updatedAt)}`,
+      `DTSTART:${toICSDateTime(appointment.startsAt)}`,
+      `DTEND:${toICSDateTime(appointment.endsAt)}`,
+      `SEQUENCE:${appointment.icsSequence}`,
+      `STATUS:${status}`,
+      `SUMMARY:${escapeICSText(`${appointment.serviceName} – ${appointment.clientName}`)}`,
+      `LOCATION:${escapeICSText(LOCATION_LABELS[appointment.location as AppointmentLocation] || appointment.location)}`,
+      `DESCRIPTION:${escapeICSText(description)}`,
+      `ORGANIZER;CN=${escapeICSParam(lawyer.name)}:mailto:${lawyer.email}`,
+      `ATTENDEE;CN=${escapeICSParam(appointment.clientName)};ROLE=REQ-PARTICIPANT:mailto:${appointment.clientEmail}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICSLine).join('\r\n') + '\r\n';
+}
+
+// Format an appointment time on the firm's calendar
+export function formatFirmDate(instant: Date): string {
+  return new Date(instant.getTime() + FIRM_UTC_OFFSET_MINUTES * 60_000).toISOString().split('T')[0];
+}
+
+export function formatFirmTime(instant: Date): string {
+  return new Date(instant.getTime() + FIRM_UTC_OFFSET_MINUTES * 60_000).toISOString().slice(11, 16);
+}
+
+// Active bookings that could crowd a day, including those running in from either side
+async function getLawyerBusyTimes(
+  lawyerId: string,
+  date: string,
+  excludeAppointmentId?: string
+) {
+  const dayStart = toFirmInstant(date, '00:00');
+  const from = new Date(dayStart.getTime() - 24 * 60 * 60_000);
+  const to = new Date(dayStart.getTime() + 48 * 60 * 60_000);
+
+  return await db
+    .select({ startsAt: appointments.startsAt, endsAt: appointments.endsAt, bufferMinutes: appointments.bufferMinutes })
+    .from(appointments)
+    .where(and(
+      eq(appointments.lawyerId, lawyerId),
+      inArray(appointments.status, ACTIVE_STATUSES),
+      lt(appointments.startsAt, to),
+      gt(appointments.endsAt, from),
+      ...(excludeAppointmentId ? [ne(appointments.id, excludeAppointmentId)] : [])
+    ));
+}
+
+// Postgres exclusion_violation, raised by appointments_lawyer_no_overlap
+function isOverlapError(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23P01';
+}
+
+function toFirmInstant(date: string, time: string): Date {
+  return new Date(Date.parse(`${date}T${time}:00Z`) - FIRM_UTC_OFFSET_MINUTES * 60_000);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function generateConfirmationNumber(): string {
+  return `APT-${Date.now().toString(36).toUpperCase()}-${randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toICSDateTime(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeICSText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function escapeICSParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+function foldICSLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+
+  for (const character of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + character) > limit) {
+      parts.push(current);
+      current = character;
+    } else {
+      current += character;
+    }
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
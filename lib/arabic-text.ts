@@ -0,0 +1,94 @@
+/**
+ * Arabic Text Helpers for Mirath Legal
+ * Numeral conversion and name transliteration between Latin and Arabic script
+ */
+
+export type NumeralStyle = 'western' | 'arabic_indic';
+
+const ARABIC_INDIC_DIGITS = ['٠', '١', '٢', '٣', '٤', '٥', '٦', '٧', '٨', '٩'];
+
+// Latin letter groups to Arabic, longest first so digraphs win over single letters
+const LATIN_TO_ARABIC: Array<[string, string]> = [
+  ['sh', 'ش'], ['kh', 'خ'], ['gh', 'غ'], ['th', 'ث'], ['dh', 'ذ'], ['ch', 'تش'], ['ph', 'ف'],
+  ['ck', 'ك'], ['qu', 'كو'], ['ee', 'ي'], ['ea', 'ي'], ['ie', 'ي'], ['oo', 'و'], ['ou', 'و'],
+  ['ai', 'اي'], ['ay', 'اي'], ['ei', 'اي'], ['ey', 'اي'], ['aa', 'ا'],
+  ['a', 'ا'], ['b', 'ب'], ['c', 'ك'], ['d', 'د'], ['e', 'ي'], ['f', 'ف'], ['g', 'ج'], ['h', 'ه'],
+  ['i', 'ي'], ['j', 'ج'], ['k', 'ك'], ['l', 'ل'], ['m', 'م'], ['n', 'ن'], ['o', 'و'], ['p', 'ب'],
+  ['q', 'ق'], ['r', 'ر'], ['s', 'س'], ['t', 'ت'], ['u', 'و'], ['v', 'ف'], ['w', 'و'], ['x', 'كس'],
+  ['y', 'ي'], ['z', 'ز'],
+];
+
+// Word-initial vowels are carried on an alif
+const INITIAL_VOWELS: Record<string, string> = {
+  a: 'ا', e: 'إ', i: 'إ', o: 'أو', u: 'أو',
+};
+
+const ARABIC_TO_LATIN: Record<string, string> = {
+  'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'aa', 'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j', 'ح': 'h', 'خ': 'kh',
+  'د': 'd', 'ذ': 'dh', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z',
+  'ع': "'", 'غ': 'gh', 'ف': 'f', 'ق': 'q', 'ك': 'k', 'ل': 'l', 'م': 'm', 'ن': 'n', 'ه': 'h', 'و': 'w',
+  'ي': 'y', 'ى': 'a', 'ة': 'ah', 'ء': "'", 'ؤ': "'", 'ئ': "'",
+};
+
+// Write Western digits as Arabic-Indic digits
+export function toArabicIndicDigits(text: string): string {
+  return text.replace(/[0-9]/g, digit => ARABIC_INDIC_DIGITS[Number(digit)]);
+}
+
+// Apply the numeral style to text in the given language; only Arabic text changes
+export function localizeDigits(text: string, language: 'en' | 'ar', numerals: NumeralStyle = 'western'): string {
+  return language === 'ar' && numerals === 'arabic_indic' ? toArabicIndicDigits(text) : text;
+}
+
+// Transliterate a personal name into the target script; names already in that script are returned as is
+export function transliterateName(name: string, target: 'en' | 'ar'): string {
+  const hasArabic = /[؀-ۿ]/.test(name);
+
+  if (target === 'ar') {
+    return hasArabic ? name : name.split(/(\s+|-)/).map(latinWordToArabic).join('');
+  }
+
+  return hasArabic ? name.split(/(\s+)/).map(arabicWordToLatin).join('') : name;
+}
+
+function latinWordToArabic(word: string): string {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return word;
+
+  let result = '';
+  let index = 0;
+
+  // Leading vowel
+  if (INITIAL_VOWELS[letters[0]]) {
+    result += INITIAL_VOWELS[letters[0]];
+    index = 1;
+  }
+
+  while (index < letters.length) {
+    const rest = letters.slice(index);
+
+    // A final silent e, or a final a/ah, which is written as taa marbuta
+    if (rest === 'e' && index > 1) break;
+    if ((rest === 'ah' || rest === 'a') && index > 1) {
+      result += 'ة';
+      break;
+    }
+
+    const [latin, arabic] = LATIN_TO_ARABIC.find(([pattern]) => rest.startsWith(pattern)) || [rest[0], ''];
+
+    // Doubled consonants are written once
+    if (!(latin.length === 1 && result.endsWith(arabic) && letters[index - 1] === latin)) {
+      result += arabic;
+    }
+    index += latin.length;
+  }
+
+  return result;
+}
+
+function arabicWordToLatin(word: string): string {
+  if (!word.trim()) return word;
+
+  const latin = [...word].map(char => ARABIC_TO_LATIN[char] ?? '').join('');
+  return latin.charAt(0).toUpperCase() + latin.slice(1);
+}
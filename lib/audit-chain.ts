@@ -0,0 +1,353 @@
+/**
+ * Audit Hash Chain for Mirath Legal
+ * Links each firm's audit entries by hash so edits, deletions and insertions in the trail can be detected
+ */
+
+import { db } from "@/db/drizzle";
+import { auditLogs } from "@/db/schema";
+import { and, asc, count, desc, eq, gt, gte, isNotNull, isNull, lte, type SQL } from "drizzle-orm";
+import { createHash, createPrivateKey, createPublicKey, sign, verify } from "crypto";
+import { z } from "zod";
+
+// Retries when another request appended to the same chain between our read and insert
+const MAX_APPEND_ATTEMPTS = 5;
+
+// Entries are read in pages while walking a chain
+const VERIFY_BATCH_SIZE = 500;
+
+const BUNDLE_FORMAT = 'mirath-audit-bundle/v1';
+
+export type ChainBreakReason = 'sequence_gap' | 'previous_hash_mismatch' | 'entry_hash_mismatch';
+
+export interface ChainedAuditValues {
+  userId: string | null;
+  action: string;
+  resource: string;
+  resourceId: string;
+  firmId: string | null;
+  details: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  sensitive: boolean;
+  timestamp: Date;
+}
+
+export interface ChainBreak {
+  entryId: string;
+  sequence: number;
+  timestamp: Date;
+  reason: ChainBreakReason;
+  expected: string | number | null;
+  actual: string | number | null;
+}
+
+export interface ChainVerification {
+  firmId: string | null;
+  valid: boolean;
+  checkedEntries: number;
+  unchainedEntries: number;
+  headSequence: number | null;
+  headHash: string | null;
+  firstBrokenLink: ChainBreak | null;
+  verifiedAt: string;
+}
+
+export interface AuditBundleSignature {
+  algorithm: 'Ed25519';
+  keyFingerprint: string;
+  publicKey: string;
+  value: string;
+}
+
+export interface AuditBundleVerification {
+  valid: boolean;
+  reason?: 'unsigned' | 'different_key' | 'bad_signature';
+  expectedFingerprint?: string;
+}
+
+type AuditBundleResult =
+  | { success: true; data: Record<string, unknown> & { signature: AuditBundleSignature } }
+  | { success: false; error: string; status: number };
+
+// Date range accepted by the bundle export
+export const auditExportSchema = z.object({
+  from: z.string().datetime({ offset: true }),
+  to: z.string().datetime({ offset: true }),
+}).refine(range => new Date(range.from) <= new Date(range.to), {
+  message: 'from must not be after to',
+  path: ['to'],
+});
+
+// Deterministic JSON: object keys sorted, undefined properties dropped, dates as ISO strings
+export function canonicalJson(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (value === null || value === undefined || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  const fields = Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+
+  return `{${fields.join(',')}}`;
+}
+
+// Hash of an entry's content together with its position in the chain
+export function computeEntryHash(
+  entry: ChainedAuditValues & { sequence: number; previousHash: string | null }
+): string {
+  const content = canonicalJson({
+    firmId: entry.firmId,
+    sequence: entry.sequence,
+    previousHash: entry.previousHash,
+    userId: entry.userId,
+    action: entry.action,
+    resource: entry.resource,
+    resourceId: entry.resourceId,
+    details: entry.details,
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+    sensitive: entry.sensitive,
+    timestamp: entry.timestamp,
+  });
+
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Append an entry to the end of its firm's chain
+export async function appendAuditEntry(values: ChainedAuditValues): Promise<void> {
+  // Details round-trip through a json column, so hash them in the form they will be read back
+  const entry: ChainedAuditValues = {
+    ...values,
+    details: values.details ? JSON.parse(JSON.stringify(values.details)) : null,
+  };
+
+  for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+    const [head] = await db
+      .select({ sequence: auditLogs.sequence, entryHash: auditLogs.entryHash })
+      .from(auditLogs)
+      .where(and(chainCondition(entry.firmId), isNotNull(auditLogs.sequence)))
+      .orderBy(desc(auditLogs.sequence))
+      .limit(1);
+
+    const sequence = (head?.sequence ?? 0) + 1;
+    const previousHash = head?.entryHash ?? null;
+
+    try {
+      await db.insert(auditLogs).values({
+        ...entry,
+        sequence,
+        previousHash,
+        entryHash: computeEntryHash({ ...entry, sequence, previousHash }),
+      });
+      return;
+    } catch (error) {
+      // The unique (firm, sequence) index rejected a concurrent append; re-read the head and retry
+      const code = (error as { code?: string })?.code;
+      if (code !== '23505' || attempt === MAX_APPEND_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+// Walk a firm's chain from the first entry and report the first broken link
+export async function verifyAuditChain(firmId: string | null): Promise<ChainVerification> {
+  let checkedEntries = 0;
+  let expectedSequence = 1;
+  let previousHash: string | null = null;
+  let firstBrokenLink: ChainBreak | null = null;
+
+  while (!firstBrokenLink) {
+    const batch = await db
+      .select()
+      .from(auditLogs)
+      .where(and(
+        chainCondition(firmId),
+        isNotNull(auditLogs.sequence),
+        gt(auditLogs.sequence, expectedSequence - 1)
+      ))
+      .orderBy(asc(auditLogs.sequence))
+      .limit(VERIFY_BATCH_SIZE);
+
+    if (batch.length === 0) break;
+
+    for (const row of batch) {
+      const sequence = row.sequence as number;
+      const breakAt = (reason: ChainBreakReason, expected: string | number | null, actual: string | number | null) => ({
+        entryId: row.id,
+        sequence,
+        timestamp: row.timestamp,
+        reason,
+        expected,
+        actual,
+      });
+
+      if (sequence !== expectedSequence) {
+        // A missing sequence number means an entry was deleted
+        firstBrokenLink = breakAt('sequence_gap', expectedSequence, sequence);
+        break;
+      }
+
+      if ((row.previousHash ?? null) !== previousHash) {
+        firstBrokenLink = breakAt('previous_hash_mismatch', previousHash, row.previousHash);
+        break;
+      }
+
+      const recomputed = computeEntryHash({
+        userId: row.userId,
+        action: row.action,
+        resource: row.resource,
+        resourceId: row.resourceId,
+        firmId: row.firmId,
+        details: (row.details as Record<string, unknown> | null) ?? null,
+        ipAddress: row.ipAddress,
+        userAgent: row.userAgent,
+        sensitive: row.sensitive ?? false,
+        timestamp: row.timestamp,
+        sequence,
+        previousHash,
+      });
+
+      if (recomputed !== row.entryHash) {
+        // The row content was edited after it was written
+        firstBrokenLink = breakAt('entry_hash_mismatch', recomputed, row.entryHash);
+        break;
+      }
+
+      checkedEntries++;
+      expectedSequence++;
+      previousHash = row.entryHash;
+    }
+
+    if (batch.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  // Entries written before the chain existed carry no hashes and cannot be verified
+  const [{ unchained }] = await db
+    .select({ unchained: count() })
+    .from(auditLogs)
+    .where(and(chainCondition(firmId), isNull(auditLogs.sequence)));
+
+  return {
+    firmId,
+    valid: !firstBrokenLink,
+    checkedEntries,
+    unchainedEntries: Number(unchained),
+    headSequence: checkedEntries > 0 ? expectedSequence - 1 : null,
+    headHash: previousHash,
+    firstBrokenLink,
+    verifiedAt: new Date().toISOString(),
+  };
+}
+
+// List the chains present in the audit trail: every firm with entries, plus the platform chain
+export async function getAuditChainFirmIds(): Promise<(string | null)[]> {
+  const rows = await db
+    .selectDistinct({ firmId: auditLogs.firmId })
+    .from(auditLogs)
+    .where(isNotNull(auditLogs.sequence));
+
+  return rows.map(row => row.firmId);
+}
+
+// Build a signed, timestamped export of a firm's audit entries for a date range
+export async function buildAuditExportBundle(firmId: string, from: Date, to: Date): Promise<AuditBundleResult> {
+  const signingKey = process.env.AUDIT_SIGNING_PRIVATE_KEY;
+  if (!signingKey) {
+    return { success: false, error: 'Audit export signing key is not configured', status: 503 };
+  }
+
+  const entries = await db
+    .select()
+    .from(auditLogs)
+    .where(and(
+      eq(auditLogs.firmId, firmId),
+      gte(auditLogs.timestamp, from),
+      lte(auditLogs.timestamp, to)
+    ))
+    .orderBy(asc(auditLogs.timestamp), asc(auditLogs.sequence));
+
+  const chain = await verifyAuditChain(firmId);
+
+  const payload = {
+    format: BUNDLE_FORMAT,
+    firmId,
+    range: { from: from.toISOString(), to: to.toISOString() },
+    generatedAt: new Date().toISOString(),
+    entryCount: entries.length,
+    chain,
+    entries,
+  };
+
+  const privateKey = createPrivateKey(signingKey.replace(/\\n/g, '\n'));
+  const publicKey = createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+
+  return {
+    success: true,
+    data: {
+      ...payload,
+      signature: {
+        algorithm: 'Ed25519',
+        keyFingerprint: keyFingerprint(publicKey),
+        publicKey,
+        value: sign(null, Buffer.from(canonicalJson(payload)), privateKey).toString('base64'),
+      },
+    },
+  };
+}
+
+// Check an exported bundle's signature against a trusted public key; the key inside the bundle is never trusted
+export function verifyAuditBundleSignature(
+  bundle: Record<string, unknown>,
+  trustedPublicKey: string
+): AuditBundleVerification {
+  const { signature, ...payload } = bundle as Record<string, unknown> & { signature?: AuditBundleSignature };
+  if (!signature?.value || signature.algorithm !== 'Ed25519') {
+    return { valid: false, reason: 'unsigned' };
+  }
+
+  const publicKey = createPublicKey(trustedPublicKey.replace(/\\n/g, '\n'));
+  const expectedFingerprint = keyFingerprint(publicKey.export({ type: 'spki', format: 'pem' }).toString());
+
+  if (signature.keyFingerprint !== expectedFingerprint) {
+    return { valid: false, reason: 'different_key', expectedFingerprint };
+  }
+
+  const valid = verify(
+    null,
+    Buffer.from(canonicalJson(payload)),
+    publicKey,
+    Buffer.from(signature.value, 'base64')
+  );
+
+  return valid
+    ? { valid: true, expectedFingerprint }
+    : { valid: false, reason: 'bad_signature', expectedFingerprint };
+}
+
+// Public key bundles are verified against: the configured one, or the one derived from the signing key
+export function getAuditSigningPublicKey(): string | null {
+  if (process.env.AUDIT_SIGNING_PUBLIC_KEY) {
+    return process.env.AUDIT_SIGNING_PUBLIC_KEY;
+  }
+
+  const signingKey = process.env.AUDIT_SIGNING_PRIVATE_KEY;
+  return signingKey
+    ? createPublicKey(createPrivateKey(signingKey.replace(/\\n/g, '\n'))).export({ type: 'spki', format: 'pem' }).toString()
+    : null;
+}
+
+function keyFingerprint(publicKeyPem: string): string {
+  return createHash('sha256').update(publicKeyPem).digest('hex');
+}
+
+// Entries without a firm form their own platform chain
+function chainCondition(firmId: string | null): SQL {
+  return firmId ? eq(auditLogs.firmId, firmId) : isNull(auditLogs.firmId);
+}
@@ -0,0 +1,216 @@
+/**
+ * Audit Service for Mirath Legal
+ * Records who created, changed, viewed, generated or submitted legal records, with before/after diffs
+ */
+
+import { db } from "@/db/drizzle";
+import { auditLogs, matters, user, wills } from "@/db/schema";
+import { and, count, desc, eq, gte, lte, type SQL } from "drizzle-orm";
+import { headers } from "next/headers";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { appendAuditEntry } from "./audit-chain";
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'view', 'generate', 'submit'] as const;
+export const AUDIT_RESOURCES = ['will', 'matter', 'document', 'client', 'member', 'firm', 'registration', 'invoice', 'clause', 'codicil', 'digital_access_letter', 'letter_of_wishes', 'appointment', 'signing_ceremony', 'signature_request', 'intake_link'] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditResource = typeof AUDIT_RESOURCES[number];
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEntry {
+  userId: string | null;
+  action: AuditAction;
+  resource: AuditResource;
+  resourceId: string;
+  firmId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  details?: Record<string, unknown>;
+  sensitive?: boolean;
+}
+
+// Document types that hold identity data; viewing them is always sensitive
+const SENSITIVE_DOCUMENT_TYPES = ['passport_copy', 'emirates_id_copy', 'will_pdf', 'generated_will', 'final_will', 'death_certificate'];
+
+// Fields that never change meaningfully on their own or must not be copied into the log
+const IGNORED_FIELDS = ['updatedAt', 'createdAt', 'password', 'token', 'accessToken', 'refreshToken'];
+
+// Will sections holding personal data; the log records that they changed, not what they say
+const WILL_PERSONAL_FIELDS = ['personalInfo', 'assets', 'beneficiaries', 'guardians', 'executors', 'trusts', 'specialInstructions'];
+
+// Query filters accepted by the audit viewer
+export const auditLogFilterSchema = z.object({
+  userId: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  resource: z.enum(AUDIT_RESOURCES).optional(),
+  resourceId: z.string().optional(),
+  sensitive: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type AuditLogFilters = z.infer<typeof auditLogFilterSchema>;
+
+// Check whether viewing a document type exposes identity or will contents
+export function isSensitiveDocumentType(documentType: string | null | undefined): boolean {
+  return !!documentType && SENSITIVE_DOCUMENT_TYPES.includes(documentType);
+}
+
+// A will as recorded in the log: personal sections are replaced by a hash of their contents
+export function toWillAuditRecord(will: Record<string, unknown> | null | undefined): Record<string, unknown> | null {
+  if (!will) return null;
+
+  return Object.fromEntries(Object.entries(will).map(([key, value]) => [
+    key,
+    WILL_PERSONAL_FIELDS.includes(key) && value != null
+      ? `sha256:${createHash('sha256').update(JSON.stringify(value)).digest('hex')}`
+      : value,
+  ]));
+}
+
+// Field-level diff between two versions of a record
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.includes(key)) continue;
+
+    const from = before?.[key];
+    const to = after?.[key];
+    if (JSON.stringify(from ?? null) !== JSON.stringify(to ?? null)) {
+      changes[key] = { from: from ?? null, to: to ?? null };
+    }
+  }
+
+  return changes;
+}
+
+// Record an audit entry; failures are logged so they never break the request being audited
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  try {
+    const { ipAddress, userAgent } = await getRequestContext();
+    const changes = entry.before !== undefined || entry.after !== undefined
+      ? diffRecords(entry.before, entry.after)
+      : undefined;
+
+    // Updates that changed nothing are not worth a row
+    if (entry.action === 'update' && changes && Object.keys(changes).length === 0 && !entry.details) {
+      return;
+    }
+
+    await appendAuditEntry({
+      userId: entry.userId,
+      action: entry.action,
+      resource: entry.resource,
+      resourceId: entry.resourceId,
+      firmId: entry.firmId || null,
+      details: {
+        ...entry.details,
+        ...(changes && { changes }),
+      },
+      ipAddress,
+      userAgent,
+      sensitive: entry.sensitive ?? false,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+// Resolve the firm that owns a matter, for auditing records that hang off matters
+export async function getMatterFirmId(matterId: string | null | undefined): Promise<string | null> {
+  if (!matterId) return null;
+
+  const [matter] = await db
+    .select({ lawFirmId: matters.lawFirmId })
+    .from(matters)
+    .where(eq(matters.id, matterId))
+    .limit(1);
+
+  return matter?.lawFirmId || null;
+}
+
+// Resolve the firm that owns a will through its matter
+export async function getWillFirmId(willId: string | null | undefined): Promise<string | null> {
+  if (!willId) return null;
+
+  const [will] = await db
+    .select({ lawFirmId: matters.lawFirmId })
+    .from(wills)
+    .innerJoin(matters, eq(wills.matterId, matters.id))
+    .where(eq(wills.id, willId))
+    .limit(1);
+
+  return will?.lawFirmId || null;
+}
+
+// List a firm's audit entries, newest first
+export async function getAuditLogs(firmId: string, filters: AuditLogFilters) {
+  const conditions: SQL[] = [eq(auditLogs.firmId, firmId)];
+
+  if (filters.userId) conditions.push(eq(auditLogs.userId, filters.userId));
+  if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+  if (filters.resource) conditions.push(eq(auditLogs.resource, filters.resource));
+  if (filters.resourceId) conditions.push(eq(auditLogs.resourceId, filters.resourceId));
+  if (filters.sensitive !== undefined) conditions.push(eq(auditLogs.sensitive, filters.sensitive));
+  if (filters.from) conditions.push(gte(auditLogs.timestamp, new Date(filters.from)));
+  if (filters.to) conditions.push(lte(auditLogs.timestamp, new Date(filters.to)));
+
+  const where = and(...conditions);
+
+  const [entries, [{ total }]] = await Promise.all([
+    db
+      .select({
+        id: auditLogs.id,
+        action: auditLogs.action,
+        resource: auditLogs.resource,
+        resourceId: auditLogs.resourceId,
+        details: auditLogs.details,
+        ipAddress: auditLogs.ipAddress,
+        userAgent: auditLogs.userAgent,
+        sensitive: auditLogs.sensitive,
+        timestamp: auditLogs.timestamp,
+        sequence: auditLogs.sequence,
+        entryHash: auditLogs.entryHash,
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+        },
+      })
+      .from(auditLogs)
+      .leftJoin(user, eq(auditLogs.userId, user.id))
+      .where(where)
+      .orderBy(desc(auditLogs.timestamp))
+      .limit(filters.limit)
+      .offset(filters.offset),
+    db.select({ total: count() }).from(auditLogs).where(where),
+  ]);
+
+  return { entries, total };
+}
+
+// Client IP and user agent of the current request, when called inside one
+export async function getRequestContext(): Promise<{ ipAddress: string | null; userAgent: string | null }> {
+  try {
+    const requestHeaders = await headers();
+    const forwardedFor = requestHeaders.get('x-forwarded-for');
+
+    return {
+      ipAddress: forwardedFor?.split(',')[0].trim() || requestHeaders.get('x-real-ip'),
+      userAgent: requestHeaders.get('user-agent'),
+    };
+  } catch {
+    // Outside a request (cron jobs, scripts) there are no headers to read
+    return { ipAddress: null, userAgent: null };
+  }
+}
@@ -0,0 +1,555 @@
+/**
+ * Billing Engine for Mirath Legal
+ * Handles time tracking against matters and tasks, and invoicing of billable time with UAE VAT
+ */
+
+import { db } from "@/db/drizzle";
+import { invoices, lawFirms, matters, timeEntries, user } from "@/db/schema";
+import { and, asc, desc, eq, inArray, isNotNull, isNull, or, sql } from "drizzle-orm";
+import { z } from "zod";
+import { generateInvoicePDF } from "./pdf-generator";
+
+// UAE standard VAT rate
+export const UAE_VAT_RATE = 0.05;
+
+// Timers are billed in six-minute increments
+export const BILLING_INCREMENT_HOURS = 0.1;
+
+// Fallbacks when the firm has not configured billing settings
+const DEFAULT_HOURLY_RATE = 1000;
+const DEFAULT_CURRENCY = 'AED';
+const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+const CONCURRENT_BILLING_ERROR = 'Time entries were billed by another invoice while this one was being created';
+const MAX_SEQUENCE_ATTEMPTS = 5;
+
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type MatterRecord = typeof matters.$inferSelect;
+
+export type BillingResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+const activityTypeSchema = z.enum(['consultation', 'drafting', 'review', 'research', 'admin']);
+
+// Validation schemas for time entry and invoice requests
+export const manualTimeEntrySchema = z.object({
+  taskId: z.string().uuid().optional(),
+  activityType: activityTypeSchema,
+  description: z.string().min(1).max(1000),
+  hours: z.number().positive().max(24),
+  entryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  hourlyRate: z.number().positive().optional(),
+  isBillable: z.boolean().default(true),
+});
+
+export const startTimerSchema = z.object({
+  taskId: z.string().uuid().optional(),
+  activityType: activityTypeSchema,
+  description: z.string().min(1).max(1000),
+  hourlyRate: z.number().positive().optional(),
+  isBillable: z.boolean().default(true),
+});
+
+export const updateTimeEntrySchema = manualTimeEntrySchema.partial();
+
+export const createInvoiceSchema = z.object({
+  entryIds: z.array(z.string().uuid()).optional(),
+  dueInDays: z.number().int().min(0).max(365).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+// Get the billing settings for a firm with defaults applied
+export async function getBillingSettings(lawFirmId: string) {
+  const [firm] = await db
+    .select({ settings: lawFirms.settings })
+    .from(lawFirms)
+    .where(eq(lawFirms.id, lawFirmId))
+    .limit(1);
+
+  const billing = firm?.settings?.billing || {};
+
+  return {
+    hourlyRate: billing.defaultHourlyRate || DEFAULT_HOURLY_RATE,
+    currency: billing.currency || DEFAULT_CURRENCY,
+    vatNumber: billing.vatNumber,
+    paymentTermsDays: billing.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS,
+  };
+}
+
+// Calculate the billed amount for hours at a rate, rounded to fils
+export function calculateAmount(hours: number, rate: number): number {
+  return Math.round(hours * rate * 100) / 100;
+}
+
+// Round elapsed time up to the next billing increment
+export function roundToBillingIncrement(hours: number): number {
+  const increments = Math.ceil(Number((hours / BILLING_INCREMENT_HOURS).toFixed(6)));
+  return Math.max(1, increments) * BILLING_INCREMENT_HOURS;
+}
+
+// Calculate subtotal, VAT and total for a set of amounts
+export function calculateInvoiceTotals(amounts: number[], vatRate: number = UAE_VAT_RATE) {
+  const subtotal = Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 100) / 100;
+  const vatAmount = Math.round(subtotal * vatRate * 100) / 100;
+
+  return {
+    subtotal,
+    vatRate,
+    vatAmount,
+    total: Math.round((subtotal + vatAmount) * 100) / 100,
+  };
+}
+
+// Format a firm's invoice number from its sequence
+export function formatInvoiceNumber(sequenceNumber: number): string {
+  return `INV-${String(sequenceNumber).padStart(5, '0')}`;
+}
+
+// Get time entries for a matter, newest first
+export async function getTimeEntries(matterId: string, options: { unbilledOnly?: boolean } = {}) {
+  return await db
+    .select()
+    .from(timeEntries)
+    .where(and(
+      eq(timeEntries.matterId, matterId),
+      options.unbilledOnly ? isNull(timeEntries.invoiceId) : undefined
+    ))
+    .orderBy(desc(timeEntries.entryDate), desc(timeEntries.createdAt));
+}
+
+// Get a single time entry within a matter
+export async function getTimeEntry(matterId: string, entryId: string) {
+  const [entry] = await db
+    .select()
+    .from(timeEntries)
+    .where(and(
+      eq(timeEntries.id, entryId),
+      eq(timeEntries.matterId, matterId)
+    ))
+    .limit(1);
+
+  return entry;
+}
+
+// Get the running timer for a lawyer, if any
+export async function getRunningTimer(lawyerId: string) {
+  const [entry] = await db
+    .select()
+    .from(timeEntries)
+    .where(and(
+      eq(timeEntries.lawyerId, lawyerId),
+      isNotNull(timeEntries.startedAt),
+      isNull(timeEntries.endedAt)
+    ))
+    .limit(1);
+
+  return entry;
+}
+
+// Record a manual time entry
+export async function createManualTimeEntry(
+  matter: MatterRecord,
+  lawyerId: string,
+  input: z.infer<typeof manualTimeEntrySchema>
+) {
+  const rate = input.hourlyRate ?? (await getBillingSettings(matter.lawFirmId)).hourlyRate;
+
+  const [entry] = await db.insert(timeEntries).values({
+    matterId: matter.id,
+    lawyerId,
+    taskId: input.taskId,
+    activityType: input.activityType,
+    description: input.description,
+    billableHours: input.hours.toFixed(2),
+    hourlyRate: rate.toFixed(2),
+    totalAmount: calculateAmount(input.hours, rate).toFixed(2),
+    entryDate: input.entryDate,
+    isBillable: input.isBillable,
+  }).returning();
+
+  return entry;
+}
+
+// Start a timer; a lawyer can only have one running timer at a time
+export async function startTimer(
+  matter: MatterRecord,
+  lawyerId: string,
+  input: z.infer<typeof startTimerSchema>
+): Promise<BillingResult<TimeEntry>> {
+  const running = await getRunningTimer(lawyerId);
+  if (running) {
+    return { success: false, error: 'A timer is already running; stop it before starting another', status: 409 };
+  }
+
+  const rate = input.hourlyRate ?? (await getBillingSettings(matter.lawFirmId)).hourlyRate;
+  const now = new Date();
+
+  const [entry] = await db.insert(timeEntries).values({
+    matterId: matter.id,
+    lawyerId,
+    taskId: input.taskId,
+    activityType: input.activityType,
+    description: input.description,
+    billableHours: '0.00',
+    hourlyRate: rate.toFixed(2),
+    totalAmount: '0.00',
+    entryDate: now.toISOString().split('T')[0],
+    isBillable: input.isBillable,
+    startedAt: now,
+  }).returning();
+
+  return { success: true, data: entry };
+}
+
+// Stop a running timer and compute its billable hours and amount
+export async function stopTimer(entry: TimeEntry, lawyerId: string): Promise<BillingResult<TimeEntry>> {
+  if (!entry.startedAt || entry.endedAt) {
+    return { success: false, error: 'This time entry does not have a running timer', status: 409 };
+  }
+
+  if (entry.lawyerId !== lawyerId) {
+    return { success: false, error: 'Only the lawyer who started the timer can stop it', status: 403 };
+  }
+
+  const endedAt = new Date();
+  const elapsedHours = (endedAt.getTime() - entry.startedAt.getTime()) / 3_600_000;
+  const hours = roundToBillingIncrement(elapsedHours);
+  const rate = Number(entry.hourlyRate);
+
+  const [stopped] = await db
+    .update(timeEntries)
+    .set({
+      endedAt,
+      billableHours: hours.toFixed(2),
+      totalAmount: calculateAmount(hours, rate).toFixed(2),
+      updatedAt: endedAt,
+    })
+    .where(and(
+      eq(timeEntries.id, entry.id),
+      isNull(timeEntries.endedAt)
+    ))
+    .returning();
+
+  if (!stopped) {
+    return { success: false, error: 'This timer has already been stopped', status: 409 };
+  }
+
+  return { success: true, data: stopped };
+}
+
+// Update an unbilled time entry, recomputing its amount
+export async function updateTimeEntry(
+  entry: TimeEntry,
+  changes: z.infer<typeof updateTimeEntrySchema>
+): Promise<BillingResult<TimeEntry>> {
+  if (entry.invoiceId) {
+    return { success: false, error: 'Billed time entries cannot be changed', status: 409 };
+  }
+
+  if (changes.hours !== undefined && entry.startedAt && !entry.endedAt) {
+    return { success: false, error: 'Stop the timer before changing its hours', status: 409 };
+  }
+
+  const hours = changes.hours ?? Number(entry.billableHours);
+  const rate = changes.hourlyRate ?? Number(entry.hourlyRate);
+
+  const [updated] = await db
+    .update(timeEntries)
+    .set({
+      ...(changes.taskId !== undefined && { taskId: changes.taskId }),
+      ...(changes.activityType !== undefined && { activityType: changes.activityType }),
+      ...(changes.description !== undefined && { description: changes.description }),
+      ...(changes.entryDate !== undefined && { entryDate: changes.entryDate }),
+      ...(changes.isBillable !== undefined && { isBillable: changes.isBillable }),
+      billableHours: hours.toFixed(2),
+      hourlyRate: rate.toFixed(2),
+      totalAmount: calculateAmount(hours, rate).toFixed(2),
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(timeEntries.id, entry.id),
+      isNull(timeEntries.invoiceId)
+    ))
+    .returning();
+
+  if (!updated) {
+    return { success: false, error: 'Billed time entries cannot be changed', status: 409 };
+  }
+
+  return { success: true, data: updated };
+}
+
+// Delete an unbilled time entry
+export async function deleteTimeEntry(entry: TimeEntry): Promise<BillingResult<TimeEntry>> {
+  const [deleted] = await db
+    .delete(timeEntries)
+    .where(and(
+      eq(timeEntries.id, entry.id),
+      isNull(timeEntries.invoiceId)
+    ))
+    .returning();
+
+  if (!deleted) {
+    return { success: false, error: 'Billed time entries cannot be deleted', status: 409 };
+  }
+
+  return { success: true, data: deleted };
+}
+
+// Get billable entries that are ready to invoice: unbilled and not still running
+export async function getUnbilledEntries(matterId: string, entryIds?: string[]) {
+  return await db
+    .select()
+    .from(timeEntries)
+    .where(and(
+      eq(timeEntries.matterId, matterId),
+      eq(timeEntries.isBillable, true),
+      isNull(timeEntries.invoiceId),
+      or(isNull(timeEntries.startedAt), isNotNull(timeEntries.endedAt)),
+      entryIds ? inArray(timeEntries.id, entryIds) : undefined
+    ))
+    .orderBy(asc(timeEntries.entryDate), asc(timeEntries.createdAt));
+}
+
+// Create an invoice from a matter's unbilled entries and mark them as billed
+export async function createInvoice(
+  matter: MatterRecord,
+  userId: string,
+  input: z.infer<typeof createInvoiceSchema>
+): Promise<BillingResult<Invoice>> {
+  const entries = await getUnbilledEntries(matter.id, input.entryIds);
+
+  if (entries.length === 0) {
+    return { success: false, error: 'There are no unbilled billable time entries for this matter', status: 400 };
+  }
+
+  if (input.entryIds && entries.length !== input.entryIds.length) {
+    return { success: false, error: 'Some selected time entries are already billed, not billable or still running', status: 409 };
+  }
+
+  const settings = await getBillingSettings(matter.lawFirmId);
+  const lineItems = entries.map(entry => ({
+    timeEntryId: entry.id,
+    entryDate: entry.entryDate,
+    lawyerId: entry.lawyerId,
+    activityType: entry.activityType,
+    description: entry.description,
+    hours: Number(entry.billableHours),
+    rate: Number(entry.hourlyRate),
+    amount: Number(entry.totalAmount),
+  }));
+  const totals = calculateInvoiceTotals(lineItems.map(item => item.amount));
+
+  const issueDate = new Date();
+  const dueDate = new Date(issueDate);
+  dueDate.setDate(dueDate.getDate() + (input.dueInDays ?? settings.paymentTermsDays));
+
+  const invoice = await insertNextInvoice(matter.lawFirmId, {
+    lawFirmId: matter.lawFirmId,
+    matterId: matter.id,
+    clientId: matter.clientId,
+    status: 'issued',
+    currency: settings.currency,
+    subtotal: totals.subtotal.toFixed(2),
+    vatRate: totals.vatRate.toFixed(4),
+    vatAmount: totals.vatAmount.toFixed(2),
+    total: totals.total.toFixed(2),
+    lineItems,
+    issueDate: issueDate.toISOString().split('T')[0],
+    dueDate: dueDate.toISOString().split('T')[0],
+    notes: input.notes,
+    createdBy: userId,
+  });
+
+  if (!invoice) {
+    return { success: false, error: 'Another invoice was created at the same time; please try again', status: 409 };
+  }
+
+  // Only entries still unbilled are claimed, so an entry can never land on two invoices
+  const billed = await db
+    .update(timeEntries)
+    .set({
+      invoiceId: invoice.id,
+      billedAt: issueDate,
+      updatedAt: issueDate,
+    })
+    .where(and(
+      inArray(timeEntries.id, entries.map(entry => entry.id)),
+      isNull(timeEntries.invoiceId)
+    ))
+    .returning({ id: timeEntries.id });
+
+  if (billed.length !== entries.length) {
+    // Another invoice claimed some entries first; the number is already issued, so void it rather than leave a gap
+    await db
+      .update(timeEntries)
+      .set({ invoiceId: null, billedAt: null, updatedAt: new Date() })
+      .where(eq(timeEntries.invoiceId, invoice.id));
+
+    await db
+      .update(invoices)
+      .set({ status: 'void', notes: CONCURRENT_BILLING_ERROR, updatedAt: new Date() })
+      .where(eq(invoices.id, invoice.id));
+
+    return { success: false, error: 'Another invoice was created at the same time; please try again', status: 409 };
+  }
+
+  return { success: true, data: invoice };
+}
+
+// Insert an invoice with the next number in the firm's sequence; the unique index rejects a concurrent duplicate
+async function insertNextInvoice(
+  lawFirmId: string,
+  values: Omit<typeof invoices.$inferInsert, 'sequenceNumber' | 'invoiceNumber'>
+): Promise<Invoice | null> {
+  for (let attempt = 1; attempt <= MAX_SEQUENCE_ATTEMPTS; attempt++) {
+    const [{ lastSequence }] = await db
+      .select({ lastSequence: sql<number>`coalesce(max(${invoices.sequenceNumber}), 0)` })
+      .from(invoices)
+      .where(eq(invoices.lawFirmId, lawFirmId));
+
+    const sequenceNumber = Number(lastSequence) + 1;
+
+    try {
+      const [invoice] = await db.insert(invoices).values({
+        ...values,
+        sequenceNumber,
+        invoiceNumber: formatInvoiceNumber(sequenceNumber),
+      }).returning();
+      return invoice;
+    } catch (error) {
+      // Another invoice took the number; re-read the sequence and try the next one
+      if ((error as { code?: string })?.code !== '23505') {
+        throw error;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Get invoices for a matter, newest first
+export async function getMatterInvoices(matterId: string) {
+  return await db
+    .select()
+    .from(invoices)
+    .where(eq(invoices.matterId, matterId))
+    .orderBy(desc(invoices.sequenceNumber));
+}
+
+// Get a single invoice within a matter
+export async function getInvoice(matterId: string, invoiceId: string) {
+  const [invoice] = await db
+    .select()
+    .from(invoices)
+    .where(and(
+      eq(invoices.id, invoiceId),
+      eq(invoices.matterId, matterId)
+    ))
+    .limit(1);
+
+  return invoice;
+}
+
+// Mark an invoice paid, or void it and release its entries for rebilling
+export async function updateInvoiceStatus(
+  invoice: Invoice,
+  status: 'paid' | 'void'
+): Promise<BillingResult<Invoice>> {
+  if (invoice.status === 'void') {
+    return { success: false, error: 'Void invoices cannot be changed', status: 409 };
+  }
+
+  if (status === 'void' && invoice.status === 'paid') {
+    return { success: false, error: 'Paid invoices cannot be voided; issue a credit note instead', status: 409 };
+  }
+
+  // Applies only if nobody else paid or voided the invoice meanwhile
+  const [updated] = await db
+    .update(invoices)
+    .set({
+      status,
+      ...(status === 'paid' && { paidAt: new Date() }),
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(invoices.id, invoice.id),
+      eq(invoices.status, invoice.status || 'issued')
+    ))
+    .returning();
+
+  if (!updated) {
+    return { success: false, error: 'The invoice was changed by someone else; reload and try again', status: 409 };
+  }
+
+  if (status === 'void') {
+    await db
+      .update(timeEntries)
+      .set({
+        invoiceId: null,
+        billedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(timeEntries.invoiceId, invoice.id));
+  }
+
+  return { success: true, data: updated };
+}
+
+// Render an invoice as a PDF
+export async function renderInvoicePDF(invoice: Invoice): Promise<Buffer> {
+  const [firm] = await db
+    .select()
+    .from(lawFirms)
+    .where(eq(lawFirms.id, invoice.lawFirmId))
+    .limit(1);
+
+  const [matter] = await db
+    .select({ matterNumber: matters.matterNumber, title: matters.title })
+    .from(matters)
+    .where(eq(matters.id, invoice.matterId))
+    .limit(1);
+
+  const [client] = await db
+    .select({ name: user.name, email: user.email })
+    .from(user)
+    .where(eq(user.id, invoice.clientId))
+    .limit(1);
+
+  const address = firm?.address
+    ? [firm.address.street, firm.address.city, firm.address.emirate, firm.address.poBox && `P.O. Box ${firm.address.poBox}`, firm.address.country]
+      .filter(Boolean)
+      .join(', ')
+    : undefined;
+
+  return await generateInvoicePDF({
+    invoiceNumber: invoice.invoiceNumber,
+    issueDate: invoice.issueDate,
+    dueDate: invoice.dueDate,
+    currency: invoice.currency,
+    firm: {
+      name: firm?.name || 'Mirath Legal',
+      email: firm?.email || '',
+      phone: firm?.phone,
+      address,
+      licenseNumber: firm?.licenseNumber,
+      vatNumber: firm?.settings?.billing?.vatNumber,
+    },
+    client: {
+      name: client?.name || 'Client',
+      email: client?.email,
+    },
+    matter: {
+      matterNumber: matter?.matterNumber || '',
+      title: matter?.title || '',
+    },
+    lineItems: invoice.lineItems,
+    subtotal: Number(invoice.subtotal),
+    vatRate: Number(invoice.vatRate),
+    vatAmount: Number(invoice.vatAmount),
+    total: Number(invoice.total),
+    notes: invoice.notes,
+  });
+}
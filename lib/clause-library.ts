@@ -0,0 +1,309 @@
+/**
+ * Clause Library for Mirath Legal
+ * Firm overrides of the built-in will clauses, with per-language version history and senior lawyer approval
+ */
+
+import { db } from "@/db/drizzle";
+import { willClauses, willClauseVersions } from "@/db/schema";
+import { and, desc, eq, inArray, max, sql } from "drizzle-orm";
+import { z } from "zod";
+import {
+  CLAUSE_DEFINITIONS,
+  CLAUSE_LANGUAGES,
+  assembleWillClauses,
+  extractClauseVariables,
+  findUnknownVariables,
+  getClauseDefinition,
+  type AssembleOptions,
+  type AssembledWill,
+  type ClauseLanguage,
+  type ClauseText,
+} from "./will-clauses";
+import type { CreateWillData, UpdateWillData } from "./will-engine";
+
+export type WillClause = typeof willClauses.$inferSelect;
+export type WillClauseVersion = typeof willClauseVersions.$inferSelect;
+
+export type ClauseVersionStatus = 'pending_approval' | 'approved' | 'rejected' | 'superseded';
+
+type ClauseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+// Validation schemas for clause version requests
+export const createClauseVersionSchema = z.object({
+  language: z.enum(['en', 'ar']),
+  body: z.string().trim().min(1).max(20000),
+  title: z.string().min(1).max(200).optional(),
+  changeNotes: z.string().max(2000).optional(),
+});
+
+export const reviewClauseVersionSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  reason: z.string().max(2000).optional(),
+}).refine(data => data.decision === 'approve' || !!data.reason?.trim(), {
+  message: 'A reason is required when rejecting a clause version',
+  path: ['reason'],
+});
+
+export type CreateClauseVersionInput = z.infer<typeof createClauseVersionSchema>;
+export type ReviewClauseVersionInput = z.infer<typeof reviewClauseVersionSchema>;
+
+// Every library clause with the firm's approved and pending versions per language
+export async function listFirmClauses(firmId: string) {
+  const firmClauses = await db
+    .select()
+    .from(willClauses)
+    .where(eq(willClauses.lawFirmId, firmId));
+
+  const versions = firmClauses.length > 0
+    ? await db
+        .select()
+        .from(willClauseVersions)
+        .where(and(
+          inArray(willClauseVersions.clauseId, firmClauses.map(clause => clause.id)),
+          inArray(willClauseVersions.status, ['approved', 'pending_approval'])
+        ))
+        .orderBy(desc(willClauseVersions.version))
+    : [];
+
+  return CLAUSE_DEFINITIONS.map(definition => {
+    const firmClause = firmClauses.find(clause => clause.clauseKey === definition.key);
+    const clauseVersions = versions.filter(version => version.clauseId === firmClause?.id);
+
+    return {
+      clauseKey: definition.key,
+      title: firmClause?.title || definition.title,
+      required: definition.required,
+      isActive: firmClause?.isActive ?? true,
+      clauseId: firmClause?.id || null,
+      languages: Object.fromEntries(CLAUSE_LANGUAGES.map(language => {
+        const approved = clauseVersions.find(version => version.language === language && version.status === 'approved');
+        const pending = clauseVersions.filter(version => version.language === language && version.status === 'pending_approval');
+
+        return [language, {
+          source: approved && firmClause?.isActive !== false ? 'firm' : 'default',
+          approvedVersion: approved || null,
+          pendingVersions: pending,
+          defaultBody: definition.body[language],
+        }];
+      })),
+    };
+  });
+}
+
+// Full version history of a firm clause, newest first
+export async function getClauseVersions(
+  firmId: string,
+  clauseKey: string,
+  language?: ClauseLanguage
+): Promise<ClauseResult<{ clause: WillClause | null; versions: WillClauseVersion[] }>> {
+  if (!getClauseDefinition(clauseKey)) {
+    return { success: false, error: 'Unknown clause', status: 404 };
+  }
+
+  const [clause] = await db
+    .select()
+    .from(willClauses)
+    .where(and(eq(willClauses.lawFirmId, firmId), eq(willClauses.clauseKey, clauseKey)))
+    .limit(1);
+
+  if (!clause) {
+    return { success: true, data: { clause: null, versions: [] } };
+  }
+
+  const versions = await db
+    .select()
+    .from(willClauseVersions)
+    .where(and(
+      eq(willClauseVersions.clauseId, clause.id),
+      language ? eq(willClauseVersions.language, language) : undefined
+    ))
+    .orderBy(willClauseVersions.language, desc(willClauseVersions.version));
+
+  return { success: true, data: { clause, versions } };
+}
+
+// Draft a new version of a firm clause; it is not used until a senior lawyer approves it
+export async function createClauseVersion(
+  firmId: string,
+  clauseKey: string,
+  input: CreateClauseVersionInput,
+  createdBy: string
+): Promise<ClauseResult<WillClauseVersion>> {
+  const definition = getClauseDefinition(clauseKey);
+  if (!definition) {
+    return { success: false, error: 'Unknown clause', status: 404 };
+  }
+
+  const unknownVariables = findUnknownVariables(input.body);
+  if (unknownVariables.length > 0) {
+    return { success: false, error: `Unknown clause variables: ${unknownVariables.join(', ')}`, status: 400 };
+  }
+
+  const [clause] = await db
+    .insert(willClauses)
+    .values({
+      lawFirmId: firmId,
+      clauseKey,
+      title: input.title || definition.title,
+      createdBy,
+    })
+    .onConflictDoUpdate({
+      target: [willClauses.lawFirmId, willClauses.clauseKey],
+      set: { ...(input.title ? { title: input.title } : {}), updatedAt: new Date() },
+    })
+    .returning();
+
+  const [{ latest }] = await db
+    .select({ latest: max(willClauseVersions.version) })
+    .from(willClauseVersions)
+    .where(and(eq(willClauseVersions.clauseId, clause.id), eq(willClauseVersions.language, input.language)));
+
+  try {
+    const [version] = await db
+      .insert(willClauseVersions)
+      .values({
+        clauseId: clause.id,
+        language: input.language,
+        version: (latest || 0) + 1,
+        body: input.body,
+        variables: extractClauseVariables(input.body),
+        changeNotes: input.changeNotes,
+        createdBy,
+      })
+      .returning();
+
+    return { success: true, data: version };
+  } catch (error) {
+    // Two drafts saved at once race for the same version number; the unique version index turns one away
+    if ((error as { code?: string }).code === '23505') {
+      return { success: false, error: 'Another version was saved at the same time, please retry', status: 409 };
+    }
+    throw error;
+  }
+}
+
+// Approve or reject a pending version; approval supersedes the previously approved version for that language
+export async function reviewClauseVersion(
+  firmId: string,
+  clauseKey: string,
+  versionId: string,
+  input: ReviewClauseVersionInput,
+  reviewedBy: string
+): Promise<ClauseResult<{ before: WillClauseVersion; after: WillClauseVersion }>> {
+  const [row] = await db
+    .select()
+    .from(willClauseVersions)
+    .innerJoin(willClauses, eq(willClauseVersions.clauseId, willClauses.id))
+    .where(and(
+      eq(willClauseVersions.id, versionId),
+      eq(willClauses.lawFirmId, firmId),
+      eq(willClauses.clauseKey, clauseKey)
+    ))
+    .limit(1);
+
+  if (!row) {
+    return { success: false, error: 'Clause version not found', status: 404 };
+  }
+
+  const version = row.will_clause_versions;
+
+  if (version.status !== 'pending_approval') {
+    return { success: false, error: `Clause version is already ${version.status}`, status: 409 };
+  }
+
+  if (version.createdBy === reviewedBy) {
+    return { success: false, error: 'A clause version must be reviewed by someone other than its author', status: 403 };
+  }
+
+  const reviewedAt = new Date();
+
+  if (input.decision === 'reject') {
+    const [rejected] = await db
+      .update(willClauseVersions)
+      .set({ status: 'rejected', reviewedBy, reviewedAt, rejectionReason: input.reason })
+      .where(and(eq(willClauseVersions.id, versionId), eq(willClauseVersions.status, 'pending_approval')))
+      .returning();
+
+    return rejected
+      ? { success: true, data: { before: version, after: rejected } }
+      : { success: false, error: 'Clause version was reviewed by someone else', status: 409 };
+  }
+
+  const [approved] = await db
+    .update(willClauseVersions)
+    .set({ status: 'approved', reviewedBy, reviewedAt })
+    .where(and(eq(willClauseVersions.id, versionId), eq(willClauseVersions.status, 'pending_approval')))
+    .returning();
+
+  if (approved) {
+    // Keep only the most recently approved version; whichever of two concurrent approvals runs this last sees both
+    const latestApproved = db
+      .select({ id: willClauseVersions.id })
+      .from(willClauseVersions)
+      .where(and(
+        eq(willClauseVersions.clauseId, version.clauseId),
+        eq(willClauseVersions.language, version.language),
+        eq(willClauseVersions.status, 'approved')
+      ))
+      .orderBy(desc(willClauseVersions.reviewedAt), desc(willClauseVersions.version))
+      .limit(1);
+
+    await db
+      .update(willClauseVersions)
+      .set({ status: 'superseded' })
+      .where(and(
+        eq(willClauseVersions.clauseId, version.clauseId),
+        eq(willClauseVersions.language, version.language),
+        eq(willClauseVersions.status, 'approved'),
+        sql`${willClauseVersions.id} <> (${latestApproved})`
+      ));
+  }
+
+  return approved
+    ? { success: true, data: { before: version, after: approved } }
+    : { success: false, error: 'Clause version was reviewed by someone else', status: 409 };
+}
+
+// Approved firm wording for each active clause in a language
+export async function getApprovedClauseOverrides(
+  firmId: string,
+  language: ClauseLanguage
+): Promise<Record<string, ClauseText>> {
+  const rows = await db
+    .select({
+      clauseKey: willClauses.clauseKey,
+      versionId: willClauseVersions.id,
+      version: willClauseVersions.version,
+      body: willClauseVersions.body,
+    })
+    .from(willClauseVersions)
+    .innerJoin(willClauses, eq(willClauseVersions.clauseId, willClauses.id))
+    .where(and(
+      eq(willClauses.lawFirmId, firmId),
+      eq(willClauses.isActive, true),
+      eq(willClauseVersions.language, language),
+      eq(willClauseVersions.status, 'approved')
+    ));
+
+  return Object.fromEntries(rows.map(row => [row.clauseKey, {
+    body: row.body,
+    source: 'firm' as const,
+    versionId: row.versionId,
+    version: row.version,
+  }]));
+}
+
+// Assemble a will from the selected clauses, using the firm's approved wording where it has any
+export async function assembleFirmWill(
+  willData: CreateWillData | UpdateWillData,
+  template: { name: string },
+  options: Omit<AssembleOptions, 'overrides'> & { firmId?: string | null } = {}
+): Promise<AssembledWill> {
+  const { firmId, ...assembleOptions } = options;
+  const language = assembleOptions.language || willData.language || 'en';
+  const overrides = firmId ? await getApprovedClauseOverrides(firmId, language) : {};
+
+  return assembleWillClauses(willData, template, { ...assembleOptions, language, overrides });
+}
@@ -0,0 +1,247 @@
+/**
+ * Client Portal for Mirath Legal
+ * Read-only views of a client's own matters, limited to the timeline events and documents the firm has shared
+ */
+
+import { db } from "@/db/drizzle";
+import { appointments, lawFirmMembers, lawFirms, matterDocuments, matters, matterTasks, matterTimeline, user } from "@/db/schema";
+import { and, asc, desc, eq, gte, inArray } from "drizzle-orm";
+import { getUserSignatureRequests, toSignerView } from "./e-signatures";
+
+type MatterDocument = typeof matterDocuments.$inferSelect;
+
+const OUTSTANDING_TASK_STATUSES = ['pending', 'in_progress', 'overdue'];
+const UPCOMING_APPOINTMENT_STATUSES = ['pending', 'confirmed'];
+
+const SIGNATURE_TASK_TITLES: Record<string, string> = {
+  engagement_letter: 'Sign your engagement letter',
+  draft_approval: 'Review and approve your draft will',
+  other: 'Sign a document',
+};
+
+// Matter fields a client may see; assessment data, fees and internal assignments stay with the firm
+const clientMatterFields = {
+  id: matters.id,
+  matterNumber: matters.matterNumber,
+  title: matters.title,
+  matterType: matters.matterType,
+  status: matters.status,
+  dueDate: matters.dueDate,
+  targetCompletionDate: matters.targetCompletionDate,
+  createdAt: matters.createdAt,
+  updatedAt: matters.updatedAt,
+  lawFirmName: lawFirms.name,
+  lawyerName: user.name,
+  lawyerEmail: user.email,
+};
+
+export type ClientMatter = Awaited<ReturnType<typeof getClientMatters>>[number];
+
+export interface ClientTask {
+  id: string;
+  kind: 'task' | 'signature';
+  matterId: string;
+  title: string;
+  description: string | null;
+  dueDate: string | null;
+  status: string;
+}
+
+// Clients who are not also firm members belong in the portal rather than the firm dashboard
+export async function isPortalUser(userId: string): Promise<boolean> {
+  const [membership] = await db.select({ id: lawFirmMembers.id })
+    .from(lawFirmMembers)
+    .where(eq(lawFirmMembers.userId, userId))
+    .limit(1);
+
+  if (membership) return false;
+
+  const [matter] = await db.select({ id: matters.id })
+    .from(matters)
+    .where(eq(matters.clientId, userId))
+    .limit(1);
+
+  return !!matter;
+}
+
+// Matters where the user is the client, most recently updated first
+export async function getClientMatters(userId: string) {
+  return db.select(clientMatterFields)
+    .from(matters)
+    .innerJoin(lawFirms, eq(matters.lawFirmId, lawFirms.id))
+    .leftJoin(user, eq(matters.primaryLawyerId, user.id))
+    .where(eq(matters.clientId, userId))
+    .orderBy(desc(matters.updatedAt));
+}
+
+// One of the user's own matters; other clients' matters are reported as not found
+export async function getClientMatter(userId: string, matterId: string): Promise<ClientMatter | null> {
+  const [matter] = await db.select(clientMatterFields)
+    .from(matters)
+    .innerJoin(lawFirms, eq(matters.lawFirmId, lawFirms.id))
+    .leftJoin(user, eq(matters.primaryLawyerId, user.id))
+    .where(and(eq(matters.id, matterId), eq(matters.clientId, userId)))
+    .limit(1);
+
+  return matter ?? null;
+}
+
+// Timeline events the firm has marked visible to the client, newest first
+export async function getClientTimeline(matterId: string) {
+  return db.select({
+    id: matterTimeline.id,
+    eventType: matterTimeline.eventType,
+    title: matterTimeline.title,
+    description: matterTimeline.description,
+    timestamp: matterTimeline.timestamp,
+  })
+    .from(matterTimeline)
+    .where(and(
+      eq(matterTimeline.matterId, matterId),
+      eq(matterTimeline.clientVisible, true),
+      eq(matterTimeline.internalOnly, false)
+    ))
+    .orderBy(desc(matterTimeline.timestamp));
+}
+
+// Latest versions of the documents shared with the client; storage locations are never included
+export async function getClientDocuments(matterId: string) {
+  return db.select({
+    id: matterDocuments.id,
+    documentType: matterDocuments.documentType,
+    fileName: matterDocuments.fileName,
+    fileSize: matterDocuments.fileSize,
+    mimeType: matterDocuments.mimeType,
+    version: matterDocuments.version,
+    status: matterDocuments.status,
+    clientDownloadable: matterDocuments.clientDownloadable,
+    requiresClientSignature: matterDocuments.requiresClientSignature,
+    clientSignedAt: matterDocuments.clientSignedAt,
+    createdAt: matterDocuments.createdAt,
+  })
+    .from(matterDocuments)
+    .where(and(
+      eq(matterDocuments.matterId, matterId),
+      eq(matterDocuments.clientVisible, true),
+      eq(matterDocuments.isLatestVersion, true)
+    ))
+    .orderBy(desc(matterDocuments.createdAt));
+}
+
+// A shared document on one of the user's own matters, for download
+export async function getClientDocument(userId: string, documentId: string): Promise<MatterDocument | null> {
+  const [row] = await db.select({ document: matterDocuments })
+    .from(matterDocuments)
+    .innerJoin(matters, eq(matterDocuments.matterId, matters.id))
+    .where(and(
+      eq(matterDocuments.id, documentId),
+      eq(matters.clientId, userId),
+      eq(matterDocuments.clientVisible, true)
+    ))
+    .limit(1);
+
+  return row?.document ?? null;
+}
+
+// Work waiting on the client: tasks assigned to them and documents awaiting their signature
+export async function getClientTasks(userId: string, matterId?: string): Promise<ClientTask[]> {
+  const tasks = await db.select({
+    id: matterTasks.id,
+    matterId: matterTasks.matterId,
+    title: matterTasks.title,
+    description: matterTasks.description,
+    dueDate: matterTasks.dueDate,
+    status: matterTasks.status,
+  })
+    .from(matterTasks)
+    .innerJoin(matters, eq(matterTasks.matterId, matters.id))
+    .where(and(
+      eq(matterTasks.assignedTo, userId),
+      eq(matters.clientId, userId),
+      inArray(matterTasks.status, OUTSTANDING_TASK_STATUSES),
+      matterId ? eq(matterTasks.matterId, matterId) : undefined
+    ))
+    .orderBy(asc(matterTasks.dueDate));
+
+  const signatureRequests = (await getUserSignatureRequests(userId))
+    .filter((request) => !matterId || request.matterId === matterId)
+    .map((request) => toSignerView(request, userId))
+    .filter((request) => request.status === 'pending' && request.signerStatus === 'pending');
+
+  return [
+    ...tasks.map((task) => ({
+      ...task,
+      kind: 'task' as const,
+      status: task.status ?? 'pending',
+    })),
+    ...signatureRequests.map((request) => ({
+      id: request.id,
+      kind: 'signature' as const,
+      matterId: request.matterId,
+      title: SIGNATURE_TASK_TITLES[request.purpose] ?? SIGNATURE_TASK_TITLES.other,
+      description: request.message,
+      dueDate: request.expiresAt.toISOString().slice(0, 10),
+      status: 'pending',
+    })),
+  ];
+}
+
+// The client's pending and confirmed appointments that have not yet ended
+export async function getClientAppointments(userId: string, matterId?: string) {
+  return db.select({
+    id: appointments.id,
+    confirmationNumber: appointments.confirmationNumber,
+    matterId: appointments.matterId,
+    serviceName: appointments.serviceName,
+    location: appointments.location,
+    startsAt: appointments.startsAt,
+    endsAt: appointments.endsAt,
+    status: appointments.status,
+    lawyerName: user.name,
+  })
+    .from(appointments)
+    .innerJoin(user, eq(appointments.lawyerId, user.id))
+    .where(and(
+      eq(appointments.clientId, userId),
+      inArray(appointments.status, UPCOMING_APPOINTMENT_STATUSES),
+      gte(appointments.endsAt, new Date()),
+      matterId ? eq(appointments.matterId, matterId) : undefined
+    ))
+    .orderBy(asc(appointments.startsAt));
+}
+
+// Everything on the portal home page
+export async function getClientPortalOverview(userId: string) {
+  const [clientMatters, tasks, upcomingAppointments] = await Promise.all([
+    getClientMatters(userId),
+    getClientTasks(userId),
+    getClientAppointments(userId),
+  ]);
+
+  return {
+    matters: clientMatters,
+    tasks,
+    appointments: upcomingAppointments,
+  };
+}
+
+// A single matter with its shared timeline, documents, tasks and appointments
+export async function getClientMatterDetail(userId: string, matterId: string) {
+  const matter = await getClientMatter(userId, matterId);
+  if (!matter) return null;
+
+  const [timeline, documents, tasks, upcomingAppointments] = await Promise.all([
+    getClientTimeline(matterId),
+    getClientDocuments(matterId),
+    getClientTasks(userId, matterId),
+    getClientAppointments(userId, matterId),
+  ]);
+
+  return {
+    matter,
+    timeline,
+    documents,
+    tasks,
+    appointments: upcomingAppointments,
+  };
+}
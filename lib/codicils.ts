@@ -0,0 +1,681 @@
+/**
+ * Codicil Workflow for Mirath Legal
+ * Targeted amendments to a DIFC-registered will, their codicil documents, and the effective will
+ * that results from applying every executed codicil in order
+ */
+
+import { db } from "@/db/drizzle";
+import { codicils, matters, matterTimeline, user, wills } from "@/db/schema";
+import { and, asc, eq, inArray, max } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { getTransitionRole } from "./matter-workflow";
+import { assembleWillClauses } from "./will-clauses";
+import { getWillTemplate, toWillContentData, type Beneficiary, type UpdateWillData } from "./will-engine";
+import type { TransitionRole } from "./matter-status";
+
+export const CODICIL_STATUSES = ['draft', 'final', 'executed', 'registered', 'revoked'] as const;
+
+export type CodicilStatus = typeof CODICIL_STATUSES[number];
+export type Codicil = typeof codicils.$inferSelect;
+type MatterRecord = typeof matters.$inferSelect;
+type WillRecord = typeof wills.$inferSelect;
+
+type CodicilResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+interface CodicilTransition {
+  from: CodicilStatus;
+  to: CodicilStatus;
+  label: string;
+  roles: TransitionRole[];
+}
+
+const LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer', 'lawyer'];
+const SENIOR_LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer'];
+
+// Codicils still being prepared; a will can only have one at a time
+const OPEN_STATUSES: CodicilStatus[] = ['draft', 'final'];
+
+// Codicils that have been signed and witnessed, and so amend the will
+const EFFECTIVE_STATUSES: CodicilStatus[] = ['executed', 'registered'];
+
+export const CODICIL_TRANSITIONS: CodicilTransition[] = [
+  { from: 'draft', to: 'final', label: 'Finalise codicil', roles: LAWYERS },
+  { from: 'final', to: 'draft', label: 'Return to draft', roles: LAWYERS },
+  { from: 'final', to: 'executed', label: 'Record execution', roles: LAWYERS },
+  { from: 'executed', to: 'registered', label: 'Record DIFC registration', roles: SENIOR_LAWYERS },
+  { from: 'executed', to: 'revoked', label: 'Revoke codicil', roles: SENIOR_LAWYERS },
+  { from: 'registered', to: 'revoked', label: 'Revoke codicil', roles: SENIOR_LAWYERS },
+];
+
+// Validation schemas for codicil requests
+const codicilBeneficiarySchema = z.object({
+  id: z.string().min(1).optional(), // Assigned when the change is first recorded
+  type: z.enum(['individual', 'charity', 'organization']).default('individual'),
+  fullName: z.string().trim().min(1).max(200),
+  relationship: z.string().trim().min(1).max(100),
+  dateOfBirth: z.string().optional(),
+  nationality: z.string().optional(),
+  inheritancePercentage: z.number().min(0).max(100).optional(),
+  specificAssets: z.array(z.string()).optional(),
+  conditions: z.array(z.string()).optional(),
+  isContingent: z.boolean().default(false),
+});
+
+const codicilExecutorSchema = z.object({
+  id: z.string().min(1).optional(), // Assigned when the change is first recorded
+  fullName: z.string().trim().min(1).max(200),
+  relationship: z.string().trim().min(1).max(100),
+  contactInfo: z.record(z.unknown()).default({}),
+  isPrimary: z.boolean().optional(),
+  powers: z.array(z.string()).optional(),
+});
+
+export const codicilChangeSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('add_beneficiary'),
+    beneficiary: codicilBeneficiarySchema,
+  }),
+  z.object({
+    type: z.literal('remove_beneficiary'),
+    beneficiaryId: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('replace_executor'),
+    executorId: z.string().min(1),
+    executor: codicilExecutorSchema,
+  }),
+  z.object({
+    type: z.literal('alter_bequest'),
+    assetId: z.string().min(1),
+    description: z.string().trim().min(1).max(2000).optional(),
+    estimatedValue: z.number().min(0).optional(),
+    jurisdiction: z.string().min(1).optional(),
+    beneficiaryIds: z.array(z.string()).optional(), // Who now receives the asset as a specific bequest
+  }),
+]);
+
+export const createCodicilSchema = z.object({
+  difcRegistrationNumber: z.string().trim().min(1).max(100),
+  changes: z.array(codicilChangeSchema).min(1, 'A codicil must make at least one change'),
+  notes: z.string().max(2000).optional(),
+});
+
+export const updateCodicilSchema = z.object({
+  changes: z.array(codicilChangeSchema).min(1, 'A codicil must make at least one change').optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export const codicilTransitionSchema = z.object({
+  status: z.enum(CODICIL_STATUSES),
+  executedAt: z.string().datetime().optional(),
+  registrationNumber: z.string().min(1).max(100).optional(),
+});
+
+export type CodicilChange = z.infer<typeof codicilChangeSchema>;
+
+export interface EffectiveWill {
+  will: {
+    id: string;
+    matterId: string;
+    version: number | null;
+    difcRegistrationNumber: string;
+  };
+  codicils: Array<{ id: string; codicilNumber: number; status: string; executedAt: Date | null }>;
+  content: UpdateWillData;
+  text: string;
+  errors: string[]; // Changes that no longer applied when the codicils were replayed
+}
+
+// Apply codicil changes to will content, reporting any change that does not fit the will
+export function applyCodicilChanges(
+  content: UpdateWillData,
+  changes: CodicilChange[]
+): { content: UpdateWillData; errors: string[] } {
+  const errors: string[] = [];
+  const assets = [...(content.assets || [])];
+  let beneficiaries = [...(content.beneficiaries || [])];
+  const executors = [...(content.executors || [])];
+
+  changes.forEach((change, index) => {
+    const label = `Change ${index + 1}`;
+
+    switch (change.type) {
+      case 'add_beneficiary': {
+        const beneficiary = { ...change.beneficiary, id: change.beneficiary.id || randomUUID() } as Beneficiary;
+        const unknownAssets = (beneficiary.specificAssets || []).filter(id => !assets.some(asset => asset.id === id));
+        if (unknownAssets.length > 0) {
+          errors.push(`${label}: ${beneficiary.fullName} is given assets that are not in the will`);
+        }
+        beneficiaries.push(beneficiary);
+        break;
+      }
+
+      case 'remove_beneficiary':
+        if (!beneficiaries.some(beneficiary => beneficiary.id === change.beneficiaryId)) {
+          errors.push(`${label}: beneficiary ${change.beneficiaryId} is not in the will`);
+          break;
+        }
+        beneficiaries = beneficiaries.filter(beneficiary => beneficiary.id !== change.beneficiaryId);
+        break;
+
+      case 'replace_executor': {
+        const index = executors.findIndex(executor => executor.id === change.executorId);
+        if (index === -1) {
+          errors.push(`${label}: executor ${change.executorId} is not in the will`);
+          break;
+        }
+        const replaced = executors[index];
+        executors[index] = {
+          id: change.executor.id || randomUUID(),
+          fullName: change.executor.fullName,
+          relationship: change.executor.relationship,
+          contactInfo: change.executor.contactInfo,
+          isPrimary: change.executor.isPrimary ?? replaced.isPrimary,
+          powers: change.executor.powers ?? replaced.powers,
+        };
+        break;
+      }
+
+      case 'alter_bequest': {
+        const index = assets.findIndex(asset => asset.id === change.assetId);
+        if (index === -1) {
+          errors.push(`${label}: asset ${change.assetId} is not in the will`);
+          break;
+        }
+        assets[index] = {
+          ...assets[index],
+          ...(change.description !== undefined && { description: change.description }),
+          ...(change.estimatedValue !== undefined && { estimatedValue: change.estimatedValue }),
+          ...(change.jurisdiction !== undefined && { jurisdiction: change.jurisdiction }),
+        };
+
+        if (change.beneficiaryIds) {
+          const unknown = change.beneficiaryIds.filter(id => !beneficiaries.some(beneficiary => beneficiary.id === id));
+          if (unknown.length > 0) {
+            errors.push(`${label}: the bequest is given to beneficiaries who are not in the will`);
+            break;
+          }
+          beneficiaries = beneficiaries.map(beneficiary => {
+            const others = (beneficiary.specificAssets || []).filter(id => id !== change.assetId);
+            return {
+              ...beneficiary,
+              specificAssets: change.beneficiaryIds!.includes(beneficiary.id) ? [...others, change.assetId] : others,
+            };
+          });
+        }
+        break;
+      }
+    }
+  });
+
+  if (executors.length === 0) {
+    errors.push('The will must keep at least one executor');
+  }
+
+  const totalPercentage = beneficiaries.reduce((total, beneficiary) => total + (beneficiary.inheritancePercentage || 0), 0);
+  if (totalPercentage > 100) {
+    errors.push(`Beneficiary percentages total ${totalPercentage}%, which is more than 100%`);
+  }
+
+  return { content: { ...content, assets, beneficiaries, executors }, errors };
+}
+
+// Find the registered will in the firm by its DIFC registration number
+export async function getRegisteredWill(lawFirmId: string, difcRegistrationNumber: string) {
+  const [row] = await db
+    .select({ will: wills, clientId: matters.clientId })
+    .from(wills)
+    .innerJoin(matters, eq(wills.matterId, matters.id))
+    .where(and(
+      eq(wills.difcRegistrationNumber, difcRegistrationNumber),
+      eq(matters.lawFirmId, lawFirmId)
+    ))
+    .limit(1);
+
+  return row;
+}
+
+// The registered will with every executed or registered codicil applied in codicil order
+export async function getEffectiveWill(
+  lawFirmId: string,
+  difcRegistrationNumber: string,
+  options: { includeOpen?: boolean; excludeCodicilId?: string } = {}
+): Promise<CodicilResult<EffectiveWill>> {
+  const registered = await getRegisteredWill(lawFirmId, difcRegistrationNumber);
+  if (!registered) {
+    return { success: false, error: 'No registered will found with that DIFC registration number', status: 404 };
+  }
+
+  const statuses = options.includeOpen ? [...EFFECTIVE_STATUSES, ...OPEN_STATUSES] : EFFECTIVE_STATUSES;
+  const applied = (await db
+    .select()
+    .from(codicils)
+    .where(and(
+      eq(codicils.willId, registered.will.id),
+      inArray(codicils.status, statuses)
+    ))
+    .orderBy(asc(codicils.codicilNumber)))
+    .filter(codicil => codicil.id !== options.excludeCodicilId);
+
+  let content = toWillContentData(registered.will);
+  const errors: string[] = [];
+
+  for (const codicil of applied) {
+    const result = applyCodicilChanges(content, codicil.changes as CodicilChange[]);
+    content = result.content;
+    errors.push(...result.errors.map(error => `Codicil ${codicil.codicilNumber}: ${error}`));
+  }
+
+  const testatorName = await getTestatorName(registered.will.testatorId);
+  const assembled = assembleWillClauses(content, getWillTemplate(registered.will.willType), { testatorName });
+
+  return {
+    success: true,
+    data: {
+      will: {
+        id: registered.will.id,
+        matterId: registered.will.matterId,
+        version: registered.will.version,
+        difcRegistrationNumber,
+      },
+      codicils: applied.map(codicil => ({
+        id: codicil.id,
+        codicilNumber: codicil.codicilNumber,
+        status: codicil.status,
+        executedAt: codicil.executedAt,
+      })),
+      content,
+      text: assembled.content,
+      errors,
+    },
+  };
+}
+
+// List a matter's codicils in order
+export async function getMatterCodicils(matterId: string) {
+  return await db
+    .select()
+    .from(codicils)
+    .where(eq(codicils.matterId, matterId))
+    .orderBy(asc(codicils.codicilNumber));
+}
+
+// Get a single codicil on a matter
+export async function getCodicil(matterId: string, codicilId: string) {
+  const [codicil] = await db
+    .select()
+    .from(codicils)
+    .where(and(
+      eq(codicils.id, codicilId),
+      eq(codicils.matterId, matterId)
+    ))
+    .limit(1);
+
+  return codicil;
+}
+
+// Open a draft codicil against a registered will of the matter's client
+export async function createCodicil(
+  matter: MatterRecord,
+  userId: string,
+  input: z.infer<typeof createCodicilSchema>
+): Promise<CodicilResult<Codicil>> {
+  if (matter.matterType !== 'will_amendment') {
+    return { success: false, error: 'Codicils can only be prepared on a will amendment matter', status: 422 };
+  }
+
+  const registered = await getRegisteredWill(matter.lawFirmId, input.difcRegistrationNumber);
+  if (!registered) {
+    return { success: false, error: 'No registered will found with that DIFC registration number', status: 404 };
+  }
+
+  if (registered.clientId !== matter.clientId) {
+    return { success: false, error: 'The registered will belongs to a different client', status: 422 };
+  }
+
+  const [open] = await db
+    .select({ id: codicils.id })
+    .from(codicils)
+    .where(and(
+      eq(codicils.willId, registered.will.id),
+      inArray(codicils.status, OPEN_STATUSES)
+    ))
+    .limit(1);
+
+  if (open) {
+    return { success: false, error: 'This will already has a codicil in preparation', status: 409 };
+  }
+
+  const changes = input.changes.map(withChangeId);
+  const validation = await validateChanges(matter.lawFirmId, input.difcRegistrationNumber, changes);
+  if (!validation.success) return validation;
+
+  const [{ latest }] = await db
+    .select({ latest: max(codicils.codicilNumber) })
+    .from(codicils)
+    .where(eq(codicils.willId, registered.will.id));
+
+  let codicil: Codicil;
+  try {
+    [codicil] = await db.insert(codicils).values({
+      willId: registered.will.id,
+      matterId: matter.id,
+      difcRegistrationNumber: input.difcRegistrationNumber,
+      codicilNumber: (latest || 0) + 1,
+      changes,
+      notes: input.notes,
+      createdBy: userId,
+    }).returning();
+  } catch (error) {
+    // Two codicils drafted at once race for the same number; the unique number index turns one away
+    if ((error as { code?: string }).code === '23505') {
+      return { success: false, error: 'This will already has a codicil in preparation', status: 409 };
+    }
+    throw error;
+  }
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'codicil',
+    title: `${ordinal(codicil.codicilNumber)} codicil drafted`,
+    description: `Amends will ${input.difcRegistrationNumber} with ${changes.length} change${changes.length === 1 ? '' : 's'}`,
+    metadata: { codicilId: codicil.id, willId: registered.will.id, newStatus: 'draft' },
+  });
+
+  return { success: true, data: codicil };
+}
+
+// Replace a draft codicil's changes or notes
+export async function updateCodicil(
+  codicil: Codicil,
+  lawFirmId: string,
+  input: z.infer<typeof updateCodicilSchema>
+): Promise<CodicilResult<Codicil>> {
+  if (codicil.status !== 'draft') {
+    return { success: false, error: 'Only draft codicils can be changed', status: 409 };
+  }
+
+  const changes = input.changes?.map(withChangeId);
+  if (changes) {
+    const validation = await validateChanges(lawFirmId, codicil.difcRegistrationNumber, changes, codicil.id);
+    if (!validation.success) return validation;
+  }
+
+  const [updated] = await db
+    .update(codicils)
+    .set({
+      ...(changes && { changes }),
+      ...(input.notes !== undefined && { notes: input.notes }),
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(codicils.id, codicil.id),
+      eq(codicils.status, 'draft')
+    ))
+    .returning();
+
+  if (!updated) {
+    return { success: false, error: 'The codicil was changed by someone else; reload and try again', status: 409 };
+  }
+
+  return { success: true, data: updated };
+}
+
+// Delete a codicil that was never finalised
+export async function deleteCodicil(codicil: Codicil): Promise<CodicilResult<Codicil>> {
+  if (codicil.status !== 'draft') {
+    return { success: false, error: 'Only draft codicils can be deleted', status: 409 };
+  }
+
+  const [deleted] = await db
+    .delete(codicils)
+    .where(and(
+      eq(codicils.id, codicil.id),
+      eq(codicils.status, 'draft')
+    ))
+    .returning();
+
+  if (!deleted) {
+    return { success: false, error: 'The codicil was changed by someone else; reload and try again', status: 409 };
+  }
+
+  return { success: true, data: deleted };
+}
+
+// List the transitions the user could make from the codicil's current status
+export async function getCodicilTransitions(codicil: Codicil, lawFirmId: string, userId: string) {
+  const role = await getTransitionRole(userId, lawFirmId);
+  if (!role) return [];
+
+  return CODICIL_TRANSITIONS
+    .filter(transition => transition.from === codicil.status)
+    .filter(transition => role === 'super_admin' || transition.roles.includes(role))
+    .map(({ to, label }) => ({ to, label }));
+}
+
+// Move a codicil to a new status, generating its document when it is finalised
+export async function transitionCodicil(
+  codicil: Codicil,
+  matter: MatterRecord,
+  userId: string,
+  input: z.infer<typeof codicilTransitionSchema>
+): Promise<CodicilResult<Codicil>> {
+  const transition = CODICIL_TRANSITIONS.find(
+    candidate => candidate.from === codicil.status && candidate.to === input.status
+  );
+
+  if (!transition) {
+    return { success: false, error: `A codicil cannot move from ${codicil.status} to ${input.status}`, status: 409 };
+  }
+
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !transition.roles.includes(role))) {
+    return { success: false, error: `Your role cannot perform "${transition.label}"`, status: 403 };
+  }
+
+  let changes: Partial<typeof codicils.$inferInsert> = {};
+
+  switch (transition.to) {
+    case 'final': {
+      // Check again against the will as it now stands, since other codicils may have been executed since drafting
+      const validation = await validateChanges(
+        matter.lawFirmId,
+        codicil.difcRegistrationNumber,
+        codicil.changes as CodicilChange[],
+        codicil.id
+      );
+      if (!validation.success) return validation;
+
+      const [will] = await db.select().from(wills).where(eq(wills.id, codicil.willId)).limit(1);
+      changes = { content: generateCodicilContent(codicil, will, await getTestatorName(will.testatorId)) };
+      break;
+    }
+
+    case 'draft':
+      changes = { content: null };
+      break;
+
+    case 'executed':
+      changes = { executedAt: input.executedAt ? new Date(input.executedAt) : new Date() };
+      break;
+
+    case 'registered':
+      if (!input.registrationNumber) {
+        return { success: false, error: 'A DIFC registration number is required', status: 422 };
+      }
+      changes = { registrationNumber: input.registrationNumber };
+      break;
+  }
+
+  const [updated] = await db
+    .update(codicils)
+    .set({ ...changes, status: transition.to, updatedAt: new Date() })
+    .where(and(
+      eq(codicils.id, codicil.id),
+      // Only apply if nobody else moved the codicil in the meantime
+      eq(codicils.status, transition.from)
+    ))
+    .returning();
+
+  if (!updated) {
+    return {
+      success: false,
+      error: 'The codicil was changed by someone else; reload and try again',
+      status: 409,
+    };
+  }
+
+  await db.insert(matterTimeline).values({
+    matterId: codicil.matterId,
+    userId,
+    eventType: 'codicil',
+    title: `${ordinal(codicil.codicilNumber)} codicil: ${transition.label.toLowerCase()}`,
+    metadata: {
+      codicilId: codicil.id,
+      willId: codicil.willId,
+      previousStatus: transition.from,
+      newStatus: transition.to,
+    },
+    clientVisible: ['executed', 'registered'].includes(transition.to),
+  });
+
+  return { success: true, data: updated };
+}
+
+// Codicil document: the amendments, confirmation of the will, and its own execution and witness block
+export function generateCodicilContent(codicil: Codicil, will: WillRecord, testatorName: string): string {
+  const name = testatorName.toUpperCase();
+  const heading = `${ordinal(codicil.codicilNumber).toUpperCase()} CODICIL`;
+  const willDate = will.createdAt.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+  const content = toWillContentData(will);
+
+  const amendments = (codicil.changes as CodicilChange[])
+    .map((change, index) => `${index + 1}. ${describeChange(change, content)}`)
+    .join('\n\n');
+
+  return `${heading}
+TO THE LAST WILL AND TESTAMENT OF ${name}
+
+I, ${name}, declare this to be the ${ordinal(codicil.codicilNumber).toLowerCase()} codicil to my Last Will and Testament dated ${willDate} and registered with the Dubai International Financial Centre Courts Wills Service under registration number ${codicil.difcRegistrationNumber} ("my Will").
+
+AMENDMENTS
+
+I amend my Will as follows:
+
+${amendments}
+
+CONFIRMATION
+
+In all other respects I confirm my Will${codicil.codicilNumber > 1 ? ' and every earlier codicil to it' : ''}. My Will and this codicil are to be read together as one instrument, and this codicil is governed by the laws of the Dubai International Financial Centre.
+
+EXECUTION
+
+SIGNED by the above-named ${name} as the testator's ${ordinal(codicil.codicilNumber).toLowerCase()} codicil, in our presence, both present at the same time, who at the testator's request and in the testator's presence and in the presence of each other have signed our names below as witnesses.
+
+_________________________          Date: _______________
+${name}
+Testator
+
+WITNESSES
+
+Witness 1:
+Signature: _________________________
+Full Name: _________________________
+Address: ___________________________
+Occupation: ________________________
+
+Witness 2:
+Signature: _________________________
+Full Name: _________________________
+Address: ___________________________
+Occupation: ________________________
+
+Neither witness is a beneficiary under the Will or this codicil, or the spouse of a beneficiary.`;
+}
+
+// Plain-English description of a single change, naming people and assets from the will
+function describeChange(change: CodicilChange, content: UpdateWillData): string {
+  const beneficiaryName = (id: string) =>
+    content.beneficiaries?.find(beneficiary => beneficiary.id === id)?.fullName || id;
+  const asset = (id: string) => content.assets?.find(candidate => candidate.id === id);
+
+  switch (change.type) {
+    case 'add_beneficiary': {
+      const { beneficiary } = change;
+      const share = beneficiary.inheritancePercentage !== undefined
+        ? ` and give to ${beneficiary.fullName} ${beneficiary.inheritancePercentage}% of my estate`
+        : '';
+      return `I add ${beneficiary.fullName} (${beneficiary.relationship}) as a beneficiary under my Will${share}.`;
+    }
+
+    case 'remove_beneficiary':
+      return `I revoke every gift in my Will to ${beneficiaryName(change.beneficiaryId)}, who shall no longer be a beneficiary.`;
+
+    case 'replace_executor': {
+      const replaced = content.executors?.find(executor => executor.id === change.executorId);
+      return `I revoke the appointment of ${replaced?.fullName || change.executorId} as an executor of my Will and appoint ${change.executor.fullName} (${change.executor.relationship}) in that place.`;
+    }
+
+    case 'alter_bequest': {
+      const target = asset(change.assetId);
+      const assetName = target?.name || target?.description || change.assetId;
+      const parts = [
+        change.description && `described as "${change.description}"`,
+        change.estimatedValue !== undefined && `with an estimated value of ${target?.currency || 'AED'} ${change.estimatedValue.toLocaleString('en-US')}`,
+        change.jurisdiction && `located in ${change.jurisdiction}`,
+      ].filter(Boolean);
+      const recipients = change.beneficiaryIds
+        ? change.beneficiaryIds.length > 0
+          ? ` I give it to ${change.beneficiaryIds.map(beneficiaryName).join(' and ')}.`
+          : ' It shall fall into my residuary estate.'
+        : '';
+      return `The specific bequest of ${assetName} is amended${parts.length > 0 ? ` so that the asset is ${parts.join(', ')}` : ''}.${recipients}`;
+    }
+  }
+}
+
+// Check that changes apply cleanly to the will as amended by every other codicil
+async function validateChanges(
+  lawFirmId: string,
+  difcRegistrationNumber: string,
+  changes: CodicilChange[],
+  codicilId?: string
+): Promise<CodicilResult<UpdateWillData>> {
+  const effective = await getEffectiveWill(lawFirmId, difcRegistrationNumber, { excludeCodicilId: codicilId });
+  if (!effective.success) return effective;
+
+  const result = applyCodicilChanges(effective.data.content, changes);
+  if (result.errors.length > 0) {
+    return { success: false, error: result.errors.join('; '), status: 422 };
+  }
+
+  return { success: true, data: result.content };
+}
+
+// Give new beneficiaries and executors an id when the change is first recorded, so later codicils can refer to them
+function withChangeId(change: CodicilChange): CodicilChange {
+  if (change.type === 'add_beneficiary' && !change.beneficiary.id) {
+    return { ...change, beneficiary: { ...change.beneficiary, id: randomUUID() } };
+  }
+  if (change.type === 'replace_executor' && !change.executor.id) {
+    return { ...change, executor: { ...change.executor, id: randomUUID() } };
+  }
+  return change;
+}
+
+async function getTestatorName(testatorId: string): Promise<string> {
+  const [testator] = await db.select({ name: user.name }).from(user).where(eq(user.id, testatorId)).limit(1);
+  return testator?.name || '';
+}
+
+function ordinal(value: number): string {
+  const words = ['First', 'Second', 'Third', 'Fourth', 'Fifth', 'Sixth', 'Seventh', 'Eighth', 'Ninth', 'Tenth'];
+  if (value >= 1 && value <= words.length) return words[value - 1];
+
+  const suffix = value % 100 >= 11 && value % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][value % 10] || 'th';
+  return `${value}${suffix}`;
+}
@@ -0,0 +1,568 @@
+/**
+ * DIFC Compliance Rules Engine for Mirath Legal
+ * Evaluates the rules stored in difc_compliance_rules against will data
+ */
+
+import { db } from "@/db/drizzle";
+import { difcComplianceRules, wills } from "@/db/schema";
+import { and, eq, gt, isNull, lte, or } from "drizzle-orm";
+import { z } from "zod";
+import type { Asset, Beneficiary, Executor, Guardian, PersonalInfo } from "./will-engine";
+
+// Types for rule definitions
+export type ComplianceSeverity = 'info' | 'warning' | 'error';
+
+export type ConditionOperator =
+  | 'exists'
+  | 'not_exists'
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'matches'
+  | 'count_gte'
+  | 'count_lte'
+  | 'sum_equals'
+  | 'sum_lte'
+  | 'unique';
+
+// A leaf condition reads a value from the will by path and compares it.
+// Paths use dot notation; `[*]` expands arrays, e.g. `beneficiaries[*].inheritancePercentage`.
+export interface FieldCondition {
+  field: string;
+  operator: ConditionOperator;
+  value?: unknown;
+  // How to apply scalar operators when the path expands to several values
+  quantifier?: 'all' | 'any';
+}
+
+export type RuleCondition =
+  | FieldCondition
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export interface RuleAction {
+  type: 'report_issue' | 'block_compliance';
+  description?: string;
+  suggestion?: string;
+}
+
+export interface RuleValidationLogic {
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  severity: ComplianceSeverity;
+  // Optional guard; when present the rule is skipped unless every guard holds
+  appliesWhen?: RuleCondition[];
+}
+
+export interface ComplianceRule {
+  id?: string;
+  ruleType: string;
+  ruleCode: string;
+  title: string;
+  description: string;
+  validationLogic: RuleValidationLogic;
+}
+
+export interface ComplianceSubject {
+  personalInfo: Partial<PersonalInfo>;
+  assets: Asset[];
+  beneficiaries: Beneficiary[];
+  executors: Executor[];
+  guardians: Guardian[];
+  willType?: string;
+  specialInstructions?: string | null;
+}
+
+export interface ComplianceIssue {
+  ruleCode: string;
+  severity: ComplianceSeverity;
+  description: string;
+  suggestion: string;
+}
+
+export interface RuleResult {
+  ruleCode: string;
+  title: string;
+  ruleType: string;
+  severity: ComplianceSeverity;
+  applicable: boolean;
+  passed: boolean;
+}
+
+export interface ComplianceEvaluation {
+  difcCompliant: boolean;
+  score: number;
+  issues: ComplianceIssue[];
+  results: RuleResult[];
+  evaluatedAt: string;
+}
+
+// Longest pattern a `matches` condition may use
+const MAX_PATTERN_LENGTH = 200;
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+// Schemas used to validate rule definitions submitted through the API
+const conditionSchema: z.ZodType<RuleCondition> = z.lazy(() => z.union([
+  z.object({
+    field: z.string().min(1),
+    operator: z.enum([
+      'exists', 'not_exists', 'equals', 'not_equals', 'in', 'not_in',
+      'gt', 'gte', 'lt', 'lte', 'matches',
+      'count_gte', 'count_lte', 'sum_equals', 'sum_lte', 'unique',
+    ]),
+    value: z.unknown().optional(),
+    quantifier: z.enum(['all', 'any']).optional(),
+  }).superRefine((condition, ctx) => {
+    // Patterns are compiled and checked when the rule is saved, not first at evaluation time
+    const problem = condition.operator === 'matches' ? checkPattern(condition.value) : null;
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: problem });
+    }
+  }),
+  z.object({ all: z.array(conditionSchema) }),
+  z.object({ any: z.array(conditionSchema) }),
+  z.object({ not: conditionSchema }),
+]));
+
+export const validationLogicSchema = z.object({
+  conditions: z.array(conditionSchema).min(1, "At least one condition is required"),
+  actions: z.array(z.object({
+    type: z.enum(['report_issue', 'block_compliance']),
+    description: z.string().optional(),
+    suggestion: z.string().optional(),
+  })).default([]),
+  severity: z.enum(['info', 'warning', 'error']),
+  appliesWhen: z.array(conditionSchema).optional(),
+});
+
+// Default rule set, used to seed difc_compliance_rules in a fresh environment
+export const DEFAULT_DIFC_COMPLIANCE_RULES: ComplianceRule[] = [
+  {
+    ruleType: 'mandatory',
+    ruleCode: 'DIFC-ID-001',
+    title: 'Testator Identification',
+    description: 'Emirates ID and nationality must be specified',
+    validationLogic: {
+      conditions: [
+        { field: 'personalInfo.emiratesId', operator: 'exists' },
+        { field: 'personalInfo.nationality', operator: 'exists' },
+      ],
+      actions: [{ type: 'block_compliance', suggestion: 'Capture the testator\'s Emirates ID and nationality' }],
+      severity: 'error',
+    },
+  },
+  {
+    ruleType: 'mandatory',
+    ruleCode: 'DIFC-RES-001',
+    title: 'UAE Residency Status',
+    description: 'UAE visa/residency status must be specified',
+    validationLogic: {
+      conditions: [{ field: 'personalInfo.visaStatus', operator: 'exists' }],
+      actions: [{ type: 'block_compliance', suggestion: 'Record the testator\'s visa or residency status' }],
+      severity: 'error',
+    },
+  },
+  {
+    ruleType: 'mandatory',
+    ruleCode: 'DIFC-BEN-001',
+    title: 'Beneficiary Designation',
+    description: 'At least one beneficiary must be named',
+    validationLogic: {
+      conditions: [{ field: 'beneficiaries', operator: 'count_gte', value: 1 }],
+      actions: [{ type: 'block_compliance', suggestion: 'Add at least one beneficiary' }],
+      severity: 'error',
+    },
+  },
+  {
+    ruleType: 'mandatory',
+    ruleCode: 'DIFC-BEN-002',
+    title: 'Residuary Distribution',
+    description: 'Percentage shares of non-contingent beneficiaries must total 100%',
+    validationLogic: {
+      appliesWhen: [{ field: 'beneficiaries[*].inheritancePercentage', operator: 'exists', quantifier: 'any' }],
+      conditions: [{ field: 'beneficiaries[?isContingent=false].inheritancePercentage', operator: 'sum_equals', value: 100 }],
+      actions: [{ type: 'report_issue', suggestion: 'Adjust beneficiary percentages so they total exactly 100%' }],
+      severity: 'error',
+    },
+  },
+  {
+    ruleType: 'mandatory',
+    ruleCode: 'DIFC-EXE-001',
+    title: 'Executor Appointment',
+    description: 'At least one executor must be appointed',
+    validationLogic: {
+      conditions: [{ field: 'executors', operator: 'count_gte', value: 1 }],
+      actions: [{ type: 'block_compliance', suggestion: 'Appoint at least one executor' }],
+      severity: 'error',
+    },
+  },
+  {
+    ruleType: 'recommended',
+    ruleCode: 'DIFC-EXE-002',
+    title: 'Primary Executor',
+    description: 'One executor should be designated as primary',
+    validationLogic: {
+      appliesWhen: [{ field: 'executors', operator: 'count_gte', value: 1 }],
+      conditions: [{ field: 'executors[*].isPrimary', operator: 'equals', value: true, quantifier: 'any' }],
+      actions: [{ type: 'report_issue', suggestion: 'Mark one executor as the primary executor' }],
+      severity: 'warning',
+    },
+  },
+  {
+    ruleType: 'recommended',
+    ruleCode: 'DIFC-AST-001',
+    title: 'Asset Identification',
+    description: 'At least one asset should be identified',
+    validationLogic: {
+      conditions: [{ field: 'assets', operator: 'count_gte', value: 1 }],
+      actions: [{ type: 'report_issue', suggestion: 'List the assets covered by this will' }],
+      severity: 'warning',
+    },
+  },
+  {
+    ruleType: 'warning',
+    ruleCode: 'DIFC-GRD-001',
+    title: 'Guardian for Minor Children',
+    description: 'Testators who are or have been married should consider appointing a guardian',
+    validationLogic: {
+      appliesWhen: [{ field: 'personalInfo.maritalStatus', operator: 'in', value: ['married', 'widowed', 'divorced'] }],
+      conditions: [{ field: 'guardians', operator: 'count_gte', value: 1 }],
+      actions: [{ type: 'report_issue', suggestion: 'Confirm whether the testator has minor children and appoint a guardian if so' }],
+      severity: 'info',
+    },
+  },
+];
+
+// Load the rules that are active on the given date
+export async function getActiveComplianceRules(asOf: Date = new Date()): Promise<ComplianceRule[]> {
+  const day = asOf.toISOString().split('T')[0];
+
+  const rows = await db
+    .select()
+    .from(difcComplianceRules)
+    .where(
+      and(
+        eq(difcComplianceRules.isActive, true),
+        lte(difcComplianceRules.effectiveDate, day),
+        or(isNull(difcComplianceRules.expiryDate), gt(difcComplianceRules.expiryDate, day))
+      )
+    )
+    .orderBy(difcComplianceRules.ruleCode);
+
+  return rows.map(row => ({
+    id: row.id,
+    ruleType: row.ruleType,
+    ruleCode: row.ruleCode,
+    title: row.title,
+    description: row.description,
+    validationLogic: row.validationLogic as RuleValidationLogic,
+  }));
+}
+
+// Evaluate a set of rules against will data (pure, no database access)
+export function evaluateComplianceRules(
+  subject: ComplianceSubject,
+  rules: ComplianceRule[]
+): ComplianceEvaluation {
+  const issues: ComplianceIssue[] = [];
+  const results: RuleResult[] = [];
+  let blocked = false;
+
+  for (const rule of rules) {
+    const logic = rule.validationLogic;
+    const severity = logic.severity || 'warning';
+
+    const applicable = (logic.appliesWhen || []).every(condition => evaluateCondition(subject, condition));
+    const passed = !applicable || (logic.conditions || []).every(condition => evaluateCondition(subject, condition));
+
+    results.push({
+      ruleCode: rule.ruleCode,
+      title: rule.title,
+      ruleType: rule.ruleType,
+      severity,
+      applicable,
+      passed,
+    });
+
+    if (passed) continue;
+
+    const actions = logic.actions && logic.actions.length > 0
+      ? logic.actions
+      : [{ type: 'report_issue' as const }];
+
+    for (const action of actions) {
+      if (action.type === 'block_compliance') {
+        blocked = true;
+      }
+
+      issues.push({
+        ruleCode: rule.ruleCode,
+        severity,
+        description: action.description || rule.description,
+        suggestion: action.suggestion || `Review requirement: ${rule.title}`,
+      });
+    }
+  }
+
+  const applicableResults = results.filter(result => result.applicable);
+  const passedCount = applicableResults.filter(result => result.passed).length;
+  const score = applicableResults.length > 0
+    ? Math.round((passedCount / applicableResults.length) * 100)
+    : 100;
+
+  return {
+    difcCompliant: !blocked && !issues.some(issue => issue.severity === 'error'),
+    score,
+    issues: dedupeIssues(issues),
+    results,
+    evaluatedAt: new Date().toISOString(),
+  };
+}
+
+// Run the active rules against a stored will and persist the results
+export async function runComplianceCheck(willId: string, asOf: Date = new Date()) {
+  const [will] = await db
+    .select()
+    .from(wills)
+    .where(eq(wills.id, willId))
+    .limit(1);
+
+  if (!will) throw new Error('Will not found');
+
+  const rules = await getActiveComplianceRules(asOf);
+  const evaluation = evaluateComplianceRules(
+    {
+      personalInfo: will.personalInfo || {},
+      assets: (will.assets || []) as Asset[],
+      beneficiaries: (will.beneficiaries || []) as Beneficiary[],
+      executors: (will.executors || []) as Executor[],
+      guardians: (will.guardians || []) as Guardian[],
+      willType: will.willType,
+      specialInstructions: will.specialInstructions,
+    },
+    rules
+  );
+
+  const [updatedWill] = await db
+    .update(wills)
+    .set({
+      difcCompliant: evaluation.difcCompliant,
+      complianceChecks: {
+        difcCompliant: evaluation.difcCompliant,
+        issues: evaluation.issues,
+        lastChecked: evaluation.evaluatedAt,
+      },
+      updatedAt: new Date(),
+    })
+    .where(eq(wills.id, willId))
+    .returning();
+
+  return { will: updatedWill, evaluation, rulesEvaluated: rules.length };
+}
+
+// Evaluate a single (possibly nested) condition
+export function evaluateCondition(subject: ComplianceSubject, condition: RuleCondition): boolean {
+  if ('all' in condition) {
+    return condition.all.every(child => evaluateCondition(subject, child));
+  }
+  if ('any' in condition) {
+    return condition.any.some(child => evaluateCondition(subject, child));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(subject, condition.not);
+  }
+
+  const { values, isCollection } = resolvePath(subject, condition.field);
+
+  switch (condition.operator) {
+    case 'count_gte':
+      return collectionSize(values, isCollection) >= Number(condition.value);
+    case 'count_lte':
+      return collectionSize(values, isCollection) <= Number(condition.value);
+    case 'sum_equals':
+      return Math.abs(sumValues(values) - Number(condition.value)) < 0.01;
+    case 'sum_lte':
+      return sumValues(values) <= Number(condition.value) + 0.01;
+    case 'unique': {
+      const present = values.filter(isPresent).map(value => String(value).trim().toLowerCase());
+      return new Set(present).size === present.length;
+    }
+  }
+
+  const test = (value: unknown) => compareValue(value, condition.operator, condition.value);
+
+  if (!isCollection) {
+    return test(values[0]);
+  }
+
+  // An expanded path with no elements cannot satisfy "any", and trivially satisfies "all"
+  return condition.quantifier === 'any' ? values.some(test) : values.every(test);
+}
+
+function compareValue(actual: unknown, operator: ConditionOperator, expected: unknown): boolean {
+  switch (operator) {
+    case 'exists':
+      return isPresent(actual);
+    case 'not_exists':
+      return !isPresent(actual);
+    case 'equals':
+      return actual === expected;
+    case 'not_equals':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'not_in':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'gt':
+      return Number(actual) > Number(expected);
+    case 'gte':
+      return Number(actual) >= Number(expected);
+    case 'lt':
+      return Number(actual) < Number(expected);
+    case 'lte':
+      return Number(actual) <= Number(expected);
+    case 'matches': {
+      const pattern = compilePattern(expected);
+      return typeof actual === 'string' && !!pattern && pattern.test(actual);
+    }
+    default:
+      return false;
+  }
+}
+
+// Compiled `matches` patterns; rules saved before patterns were validated never match rather than throw
+function compilePattern(pattern: unknown): RegExp | null {
+  const key = String(pattern);
+  if (!compiledPatterns.has(key)) {
+    compiledPatterns.set(key, checkPattern(pattern) ? null : new RegExp(key));
+  }
+  return compiledPatterns.get(key) ?? null;
+}
+
+// Why a `matches` pattern cannot be used, or null when it is safe to run against will data
+function checkPattern(pattern: unknown): string | null {
+  if (typeof pattern !== 'string' || pattern.length === 0) {
+    return 'A matches condition needs a pattern string';
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`;
+  }
+
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    return `Invalid pattern: ${error instanceof Error ? error.message : 'does not compile'}`;
+  }
+
+  if (/\\(?:[1-9]|k<)/.test(pattern)) {
+    return 'Patterns may not use backreferences';
+  }
+  if (hasNestedRepeat(pattern)) {
+    return 'Patterns may not repeat a group that already contains a repeat, e.g. (a+)+';
+  }
+  return null;
+}
+
+// A repeated group containing an unbounded repeat is what makes backtracking catastrophic
+function hasNestedRepeat(pattern: string): boolean {
+  const groups: boolean[] = []; // Per open group: whether it contains an unbounded repeat
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; quantifier characters inside it are literals
+      i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        if (pattern[i] === '\\') i++;
+        i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeats = groups.pop() ?? false;
+      if (repeats && /^[*+{]/.test(pattern.slice(i + 1))) return true;
+      if (repeats && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (groups.length > 0 && (char === '*' || char === '+' || /^\{\d+,\}/.test(pattern.slice(i)))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+// Resolve a dotted path. `[*]` expands every element, `[?key=value]` filters elements.
+function resolvePath(subject: ComplianceSubject, path: string): { values: unknown[]; isCollection: boolean } {
+  const segments = path.match(/[^.[\]]+|\[[^\]]*\]/g) || [];
+  let current: unknown[] = [subject];
+  let isCollection = false;
+
+  for (const segment of segments) {
+    if (segment === '[*]') {
+      isCollection = true;
+      current = current.flatMap(value => (Array.isArray(value) ? value : []));
+      continue;
+    }
+
+    const filter = segment.match(/^\[\?(\w+)=(.*)\]$/);
+    if (filter) {
+      isCollection = true;
+      const [, key, raw] = filter;
+      const expected = parseLiteral(raw);
+      current = current
+        .flatMap(value => (Array.isArray(value) ? value : []))
+        .filter(item => (item as Record<string, unknown>)?.[key] === expected);
+      continue;
+    }
+
+    current = current.map(value =>
+      value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined
+    );
+  }
+
+  return { values: current, isCollection };
+}
+
+function parseLiteral(raw: string): unknown {
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  if (raw === 'null') return null;
+  if (raw !== '' && !isNaN(Number(raw))) return Number(raw);
+  return raw;
+}
+
+function collectionSize(values: unknown[], isCollection: boolean): number {
+  if (isCollection) return values.filter(isPresent).length;
+  const [value] = values;
+  return Array.isArray(value) ? value.length : isPresent(value) ? 1 : 0;
+}
+
+function sumValues(values: unknown[]): number {
+  return values.reduce<number>((sum, value) => sum + (Number(value) || 0), 0);
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function dedupeIssues(issues: ComplianceIssue[]): ComplianceIssue[] {
+  const seen = new Set<string>();
+  return issues.filter(issue => {
+    const key = `${issue.ruleCode}:${issue.description}:${issue.suggestion}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,514 @@
+/**
+ * DIFC Submission Package Builder for Mirath Legal
+ * Collects the final will and identity documents, checks them against the will's template and
+ * produces the ZIP and merged PDF filed with the DIFC Wills Service Centre
+ */
+
+import { db } from "@/db/drizzle";
+import { difcRegistrations, lawFirms, matterDocuments, matters, matterTimeline, user, wills } from "@/db/schema";
+import { and, desc, eq, inArray, ne, notInArray } from "drizzle-orm";
+import JSZip from "jszip";
+import { PDFDocument } from "pdf-lib";
+import { z } from "zod";
+import { documentStorage, readDocumentBytes } from "./document-storage";
+import type { Registration, RegistrationResult } from "./difc-registration";
+import { generateSubmissionCoverPDF, type SubmissionCoverPDFData } from "./pdf-generator";
+import { getExecutedCeremony } from "./signing-ceremonies";
+
+type MatterRecord = typeof matters.$inferSelect;
+type MatterDocument = typeof matterDocuments.$inferSelect;
+
+interface PackageRequirement {
+  key: string;
+  section: string;
+  documentType: string;
+  // Only a document generated for the registration's own will satisfies the requirement
+  willScoped?: boolean;
+}
+
+export interface PackageChecklistItem extends PackageRequirement {
+  present: boolean;
+  documentId?: string;
+  fileName?: string;
+}
+
+export interface PackageChecklist {
+  complete: boolean;
+  items: PackageChecklistItem[];
+  missing: string[];
+}
+
+// Documents every DIFC will submission needs
+const BASE_REQUIREMENTS: PackageRequirement[] = [
+  { key: 'final_will', section: 'Final will', documentType: 'final_will', willScoped: true },
+  { key: 'passport_copy', section: 'Testator passport copy', documentType: 'passport_copy' },
+  { key: 'emirates_id_copy', section: 'Testator Emirates ID copy', documentType: 'emirates_id_copy' },
+];
+
+// Additional documents required by each will template
+const TEMPLATE_REQUIREMENTS: Record<string, PackageRequirement[]> = {
+  simple: [],
+  complex: [],
+  business_succession: [
+    { key: 'trade_licence', section: 'Company trade licence', documentType: 'trade_licence' },
+  ],
+  digital_assets: [],
+};
+
+// Registrations whose package can still be (re)built
+const BUILDABLE_STATUSES = ['preparing', 'ready_to_submit', 'rejected'];
+
+// Package documents the firm uploads itself; the final will comes from the signing ceremony
+export const PACKAGE_UPLOAD_DOCUMENT_TYPES = ['passport_copy', 'emirates_id_copy', 'trade_licence'] as const;
+export const PACKAGE_UPLOAD_CONTENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+export const PACKAGE_UPLOAD_MAX_BYTES = 10 * 1024 * 1024;
+
+export type PackageUploadDocumentType = typeof PACKAGE_UPLOAD_DOCUMENT_TYPES[number];
+
+const witnessSchema = z.object({
+  fullName: z.string().min(1).max(200),
+  idNumber: z.string().min(1).max(100),
+  nationality: z.string().max(100).optional(),
+  address: z.string().max(500).optional(),
+});
+
+// DIFC wills must be signed in front of two witnesses; taken from the recorded signing ceremony when omitted
+export const buildPackageSchema = z.object({
+  witnesses: z.array(witnessSchema).length(2, 'Exactly two witnesses are required').optional(),
+});
+
+type PackageWitness = NonNullable<z.infer<typeof buildPackageSchema>['witnesses']>[number];
+
+// Get the documents a will template requires in its submission package
+export function getPackageRequirements(willType: string): PackageRequirement[] {
+  return [...BASE_REQUIREMENTS, ...(TEMPLATE_REQUIREMENTS[willType] || [])];
+}
+
+// Check the matter's documents against the will template's requirements
+export async function checkPackageCompleteness(
+  matterId: string,
+  will: { id: string; willType: string }
+): Promise<PackageChecklist> {
+  const requirements = getPackageRequirements(will.willType);
+  const documents = await getLatestDocuments(matterId, requirements.map(requirement => requirement.documentType));
+
+  const items = requirements.map(requirement => {
+    const document = documents.find(candidate =>
+      candidate.documentType === requirement.documentType &&
+      (!requirement.willScoped || candidate.willId === will.id)
+    );
+    return {
+      ...requirement,
+      present: !!document,
+      documentId: document?.id,
+      fileName: document?.fileName,
+    };
+  });
+
+  const missing = items.filter(item => !item.present).map(item => item.section);
+
+  return { complete: missing.length === 0, items, missing };
+}
+
+// Build the submission package, store it and link it to the registration
+export async function buildSubmissionPackage(
+  matter: MatterRecord,
+  registration: Registration,
+  userId: string,
+  input: z.infer<typeof buildPackageSchema>
+): Promise<RegistrationResult<Registration & { checklist: PackageChecklist }>> {
+  if (matter.status !== 'difc_preparation') {
+    return { success: false, error: 'Submission packages are built while the matter is in DIFC Preparation', status: 409 };
+  }
+
+  if (!BUILDABLE_STATUSES.includes(registration.status || '')) {
+    return { success: false, error: 'The package cannot be rebuilt once the registration has been submitted', status: 409 };
+  }
+
+  const [will] = registration.willId
+    ? await db.select().from(wills).where(eq(wills.id, registration.willId)).limit(1)
+    : [];
+
+  if (!will) {
+    return { success: false, error: 'The registration is not linked to a will', status: 422 };
+  }
+
+  const witnesses: PackageWitness[] | undefined = input.witnesses ||
+    (await getExecutedCeremony(will.id))?.witnesses.map(witness => ({
+      fullName: witness.fullName,
+      idNumber: witness.idNumber,
+      nationality: witness.nationality,
+      address: witness.address,
+    }));
+
+  if (!witnesses) {
+    return { success: false, error: 'Record the signing ceremony, or give the two witnesses', status: 422 };
+  }
+
+  const checklist = await checkPackageCompleteness(matter.id, { id: will.id, willType: will.willType });
+  if (!checklist.complete) {
+    return {
+      success: false,
+      error: `The submission package is incomplete: ${checklist.missing.join(', ')}`,
+      status: 422,
+    };
+  }
+
+  const documents = await db
+    .select()
+    .from(matterDocuments)
+    .where(inArray(matterDocuments.id, checklist.items.map(item => item.documentId!)));
+
+  // Load each document in checklist order
+  const parts = await Promise.all(checklist.items.map(async (item, position) => {
+    const document = documents.find(candidate => candidate.id === item.documentId)!;
+    const bytes = await readDocumentBytes(document);
+    return {
+      item,
+      document,
+      bytes,
+      zipName: `${String(position + 1).padStart(2, '0')}_${item.key}${getExtension(document)}`,
+      pageCount: await countMergeablePages(document, bytes),
+    };
+  }));
+
+  const coverData = await getCoverData(matter, registration, will, witnesses);
+
+  // The cover lists page numbers for what follows it, so render until its own length is stable
+  let coverPdf: Buffer = Buffer.alloc(0);
+  let coverPages = 1;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    let nextPage = coverPages + 1;
+    coverData.index = parts.map(part => {
+      const entry = {
+        section: part.item.section,
+        fileName: part.zipName,
+        startPage: part.pageCount > 0 ? nextPage : undefined,
+        pageCount: part.pageCount || undefined,
+      };
+      nextPage += part.pageCount;
+      return entry;
+    });
+
+    coverPdf = await generateSubmissionCoverPDF(coverData);
+    const renderedPages = (await PDFDocument.load(coverPdf)).getPageCount();
+    if (renderedPages === coverPages) break;
+    coverPages = renderedPages;
+  }
+
+  const mergedPdf = await mergeIntoPDF(coverPdf, parts);
+
+  const zip = new JSZip();
+  zip.file('00_cover_sheet.pdf', coverPdf);
+  for (const part of parts) {
+    zip.file(part.zipName, part.bytes);
+  }
+  zip.file('manifest.json', JSON.stringify({
+    matterNumber: matter.matterNumber,
+    registrationId: registration.id,
+    willId: will.id,
+    willVersion: will.version,
+    preparedAt: coverData.preparedAt,
+    files: ['00_cover_sheet.pdf', ...parts.map(part => part.zipName)],
+    witnesses,
+  }, null, 2));
+  const zipBuffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+  const baseName = `DIFC_Submission_${matter.matterNumber.replace(/[^a-zA-Z0-9-]/g, '_')}`;
+  const stored = await Promise.all([
+    storePackageFile(zipBuffer, `${baseName}.zip`, 'application/zip', userId, registration),
+    storePackageFile(mergedPdf, `${baseName}.pdf`, 'application/pdf', userId, registration),
+  ]);
+
+  const failed = stored.find(result => !result.success || !result.url);
+  if (failed) {
+    return { success: false, error: failed.error || 'Failed to store submission package', status: 500 };
+  }
+
+  const [zipFile, pdfFile] = stored;
+  const now = new Date();
+
+  // Only record the package if the registration has not been submitted while it was being built
+  const [updated] = await db
+    .update(difcRegistrations)
+    .set({ submissionPackageUrl: zipFile.url, updatedAt: now })
+    .where(and(
+      eq(difcRegistrations.id, registration.id),
+      inArray(difcRegistrations.status, BUILDABLE_STATUSES)
+    ))
+    .returning();
+
+  if (!updated) {
+    return { success: false, error: 'The registration was changed by someone else; reload and try again', status: 409 };
+  }
+
+  const packageDocuments = await db.insert(matterDocuments).values([
+    { file: zipFile, fileName: `${baseName}.zip`, mimeType: 'application/zip', size: zipBuffer.length },
+    { file: pdfFile, fileName: `${baseName}.pdf`, mimeType: 'application/pdf', size: mergedPdf.length },
+  ].map(entry => ({
+    matterId: matter.id,
+    willId: will.id,
+    documentType: 'difc_submission',
+    fileName: entry.fileName,
+    fileUrl: entry.file.url!,
+    fileSize: entry.size,
+    mimeType: entry.mimeType,
+    generatedBy: 'system',
+    status: 'final',
+  }))).returning({ id: matterDocuments.id });
+
+  // Earlier packages are superseded by this build
+  await db
+    .update(matterDocuments)
+    .set({ isLatestVersion: false, updatedAt: now })
+    .where(and(
+      eq(matterDocuments.matterId, matter.id),
+      eq(matterDocuments.documentType, 'difc_submission'),
+      eq(matterDocuments.isLatestVersion, true),
+      notInArray(matterDocuments.id, packageDocuments.map(document => document.id))
+    ));
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'document_generated',
+    title: 'DIFC submission package built',
+    description: `${parts.length + 1} documents packaged for registration`,
+    metadata: {
+      registrationId: registration.id,
+      documentId: packageDocuments[0].id,
+      mergedDocumentId: packageDocuments[1].id,
+    },
+  });
+
+  return { success: true, data: { ...updated, checklist } };
+}
+
+// Upload a passport, Emirates ID or trade licence copy for the package, superseding any earlier copy
+export async function uploadPackageDocument(
+  matter: MatterRecord,
+  userId: string,
+  documentType: PackageUploadDocumentType,
+  file: { buffer: Buffer; filename: string; contentType: string }
+): Promise<RegistrationResult<MatterDocument>> {
+  if (!PACKAGE_UPLOAD_CONTENT_TYPES.includes(file.contentType)) {
+    return { success: false, error: 'Package documents must be a PDF, JPEG or PNG file', status: 415 };
+  }
+
+  if (file.buffer.length === 0 || file.buffer.length > PACKAGE_UPLOAD_MAX_BYTES) {
+    return { success: false, error: 'Package documents must be smaller than 10 MB', status: 413 };
+  }
+
+  const storageResult = await documentStorage.uploadDocument(file.buffer, {
+    filename: file.filename,
+    contentType: file.contentType,
+    documentType: 'supporting_document',
+    uploadedBy: userId,
+    tags: { matterId: matter.id, category: documentType },
+  });
+
+  if (!storageResult.success || !storageResult.url) {
+    return { success: false, error: storageResult.error || 'Failed to store document', status: 500 };
+  }
+
+  const [previous] = await db
+    .select({ id: matterDocuments.id, version: matterDocuments.version })
+    .from(matterDocuments)
+    .where(and(
+      eq(matterDocuments.matterId, matter.id),
+      eq(matterDocuments.documentType, documentType),
+      eq(matterDocuments.isLatestVersion, true)
+    ))
+    .orderBy(desc(matterDocuments.createdAt))
+    .limit(1);
+
+  const [document] = await db.insert(matterDocuments).values({
+    matterId: matter.id,
+    documentType,
+    fileName: file.filename,
+    fileUrl: storageResult.url,
+    fileSize: file.buffer.length,
+    mimeType: file.contentType,
+    version: (previous?.version || 0) + 1,
+    parentDocumentId: previous?.id,
+    generatedBy: 'lawyer',
+    status: 'final',
+    accessLevel: 'internal',
+  }).returning();
+
+  // Earlier copies stay on file but no longer count towards the package
+  await db
+    .update(matterDocuments)
+    .set({ isLatestVersion: false, updatedAt: new Date() })
+    .where(and(
+      eq(matterDocuments.matterId, matter.id),
+      eq(matterDocuments.documentType, documentType),
+      eq(matterDocuments.isLatestVersion, true),
+      ne(matterDocuments.id, document.id)
+    ));
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'difc_submission',
+    title: 'Submission document uploaded',
+    description: file.filename,
+    metadata: { documentId: document.id, documentType },
+  });
+
+  return { success: true, data: document };
+}
+
+// Latest versions of the requested document types on a matter, newest first
+async function getLatestDocuments(matterId: string, documentTypes: string[]) {
+  return await db
+    .select()
+    .from(matterDocuments)
+    .where(and(
+      eq(matterDocuments.matterId, matterId),
+      inArray(matterDocuments.documentType, documentTypes),
+      eq(matterDocuments.isLatestVersion, true)
+    ))
+    .orderBy(desc(matterDocuments.createdAt));
+}
+
+// Pages a document contributes to the merged PDF; zero means it is only included in the ZIP
+async function countMergeablePages(document: MatterDocument, bytes: Buffer): Promise<number> {
+  switch (getMimeType(document)) {
+    case 'application/pdf':
+      return (await PDFDocument.load(bytes, { ignoreEncryption: true })).getPageCount();
+    case 'image/jpeg':
+    case 'image/png':
+      return 1;
+    default:
+      return 0;
+  }
+}
+
+// Append the cover and every mergeable document into one PDF; images are placed on A4 pages
+async function mergeIntoPDF(
+  coverPdf: Buffer,
+  parts: Array<{ document: MatterDocument; bytes: Buffer; pageCount: number }>
+): Promise<Buffer> {
+  const merged = await PDFDocument.create();
+
+  const cover = await PDFDocument.load(coverPdf);
+  for (const page of await merged.copyPages(cover, cover.getPageIndices())) {
+    merged.addPage(page);
+  }
+
+  for (const part of parts) {
+    if (part.pageCount === 0) continue;
+
+    const mimeType = getMimeType(part.document);
+    if (mimeType === 'application/pdf') {
+      const source = await PDFDocument.load(part.bytes, { ignoreEncryption: true });
+      for (const page of await merged.copyPages(source, source.getPageIndices())) {
+        merged.addPage(page);
+      }
+      continue;
+    }
+
+    const image = mimeType === 'image/png'
+      ? await merged.embedPng(part.bytes)
+      : await merged.embedJpg(part.bytes);
+    const page = merged.addPage([595.28, 841.89]);
+    const margin = 36;
+    const scaled = image.scaleToFit(page.getWidth() - margin * 2, page.getHeight() - margin * 2);
+    page.drawImage(image, {
+      x: (page.getWidth() - scaled.width) / 2,
+      y: (page.getHeight() - scaled.height) / 2,
+      width: scaled.width,
+      height: scaled.height,
+    });
+  }
+
+  return Buffer.from(await merged.save());
+}
+
+// Gather the details printed on the cover sheet, witness page and fee form
+async function getCoverData(
+  matter: MatterRecord,
+  registration: Registration,
+  will: typeof wills.$inferSelect,
+  witnesses: PackageWitness[]
+): Promise<SubmissionCoverPDFData> {
+  const [firm] = await db
+    .select({ name: lawFirms.name, licenseNumber: lawFirms.licenseNumber })
+    .from(lawFirms)
+    .where(eq(lawFirms.id, matter.lawFirmId))
+    .limit(1);
+
+  const [testator] = await db
+    .select({ name: user.name })
+    .from(user)
+    .where(eq(user.id, will.testatorId))
+    .limit(1);
+
+  return {
+    preparedAt: new Date().toISOString().split('T')[0],
+    firm: {
+      name: firm?.name || 'Mirath Legal',
+      licenseNumber: firm?.licenseNumber,
+    },
+    matter: {
+      matterNumber: matter.matterNumber,
+      title: matter.title,
+    },
+    testator: {
+      name: testator?.name || '',
+      nationality: will.personalInfo.nationality,
+      passportNumber: will.personalInfo.passportNumber,
+      emiratesId: will.personalInfo.emiratesId,
+    },
+    will: {
+      willType: will.willType,
+      version: will.version || 1,
+      language: will.language || 'en',
+    },
+    index: [],
+    witnesses,
+    fees: {
+      currency: 'AED',
+      registrationFee: Number(registration.registrationFee || 0),
+      processingFee: Number(registration.processingFee || 0),
+      additionalFees: Number(registration.additionalFees || 0),
+      totalFees: Number(registration.totalFees || 0),
+      paymentReference: registration.paymentReference,
+      feesPaid: !!registration.feesPaid,
+    },
+  };
+}
+
+// Store one package file against the registration's will
+async function storePackageFile(
+  buffer: Buffer,
+  filename: string,
+  contentType: string,
+  userId: string,
+  registration: Registration
+) {
+  return await documentStorage.uploadDocument(buffer, {
+    filename,
+    contentType,
+    documentType: 'supporting_document',
+    uploadedBy: userId,
+    willId: registration.willId || undefined,
+    tags: { registrationId: registration.id, category: 'difc_submission_package' },
+  });
+}
+
+function getMimeType(document: MatterDocument): string {
+  if (document.mimeType) return document.mimeType;
+
+  const name = document.fileName.toLowerCase();
+  if (name.endsWith('.pdf')) return 'application/pdf';
+  if (name.endsWith('.png')) return 'image/png';
+  if (name.endsWith('.jpg') || name.endsWith('.jpeg')) return 'image/jpeg';
+  return 'application/octet-stream';
+}
+
+function getExtension(document: MatterDocument): string {
+  const match = document.fileName.match(/\.[a-zA-Z0-9]+$/);
+  return match ? match[0].toLowerCase() : '';
+}
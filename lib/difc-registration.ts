@@ -0,0 +1,515 @@
+/**
+ * DIFC Registration Workflow for Mirath Legal
+ * Moves a will's DIFC registration from preparation through submission, review and registration
+ */
+
+import { db } from "@/db/drizzle";
+import { difcRegistrations, matterDocuments, matters, matterTimeline, user, wills } from "@/db/schema";
+import { and, desc, eq, inArray, lte, ne } from "drizzle-orm";
+import { z } from "zod";
+import { documentStorage } from "./document-storage";
+import { getDifcRegistryAdapter, type RegistryStatus } from "./difc-registry";
+import { getTransitionRole } from "./matter-workflow";
+import type { TransitionRole } from "./matter-status";
+
+export const REGISTRATION_STATUSES = [
+  'preparing',
+  'ready_to_submit',
+  'submitted',
+  'under_review',
+  'approved',
+  'registered',
+  'rejected',
+] as const;
+
+export type RegistrationStatus = typeof REGISTRATION_STATUSES[number];
+export type Registration = typeof difcRegistrations.$inferSelect;
+type MatterRecord = typeof matters.$inferSelect;
+
+export type RegistrationResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+interface RegistrationTransition {
+  from: RegistrationStatus;
+  to: RegistrationStatus;
+  label: string;
+  roles: TransitionRole[];
+}
+
+const LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer', 'lawyer'];
+const SENIOR_LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer'];
+
+// Registrations that are still in flight; a matter can only have one at a time
+const OPEN_STATUSES: RegistrationStatus[] = ['preparing', 'ready_to_submit', 'submitted', 'under_review', 'approved'];
+
+// The order the registry moves a submission through review
+const REVIEW_PATH: RegistrationStatus[] = ['submitted', 'under_review', 'approved', 'registered'];
+
+export const REGISTRATION_TRANSITIONS: RegistrationTransition[] = [
+  { from: 'preparing', to: 'ready_to_submit', label: 'Mark ready to submit', roles: LAWYERS },
+  { from: 'ready_to_submit', to: 'preparing', label: 'Return to preparation', roles: LAWYERS },
+  { from: 'ready_to_submit', to: 'submitted', label: 'Submit to DIFC', roles: SENIOR_LAWYERS },
+  { from: 'submitted', to: 'under_review', label: 'DIFC review started', roles: LAWYERS },
+  { from: 'under_review', to: 'approved', label: 'DIFC approved', roles: LAWYERS },
+  { from: 'approved', to: 'registered', label: 'Record registration', roles: SENIOR_LAWYERS },
+  { from: 'submitted', to: 'rejected', label: 'DIFC rejected', roles: LAWYERS },
+  { from: 'under_review', to: 'rejected', label: 'DIFC rejected', roles: LAWYERS },
+  { from: 'approved', to: 'rejected', label: 'DIFC rejected', roles: LAWYERS },
+  { from: 'rejected', to: 'preparing', label: 'Prepare resubmission', roles: LAWYERS },
+];
+
+// Validation schemas for registration requests
+export const registrationDetailsSchema = z.object({
+  registrationFee: z.number().min(0).optional(),
+  processingFee: z.number().min(0).optional(),
+  additionalFees: z.number().min(0).optional(),
+  feesPaid: z.boolean().optional(),
+  paymentReference: z.string().min(1).max(200).optional(),
+  difcContactPerson: z.string().max(200).optional(),
+  appointmentDate: z.string().datetime().optional(),
+  appointmentNotes: z.string().max(2000).optional(),
+  complianceNotes: z.string().max(2000).optional(),
+});
+
+export const registrationTransitionSchema = z.object({
+  status: z.enum(REGISTRATION_STATUSES),
+  reason: z.string().max(2000).optional(),
+  registrationNumber: z.string().min(1).max(100).optional(),
+  registrationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(),
+});
+
+type TransitionInput = Omit<z.infer<typeof registrationTransitionSchema>, 'status'>;
+
+// Get the most recent registration for a matter
+export async function getMatterRegistration(matterId: string) {
+  const [registration] = await db
+    .select()
+    .from(difcRegistrations)
+    .where(eq(difcRegistrations.matterId, matterId))
+    .orderBy(desc(difcRegistrations.createdAt))
+    .limit(1);
+
+  return registration;
+}
+
+// Open a registration for the matter's latest will, pre-filled with the DIFC fee quote
+export async function createRegistration(
+  matter: MatterRecord,
+  userId: string
+): Promise<RegistrationResult<Registration>> {
+  const [open] = await db
+    .select({ id: difcRegistrations.id })
+    .from(difcRegistrations)
+    .where(and(
+      eq(difcRegistrations.matterId, matter.id),
+      inArray(difcRegistrations.status, OPEN_STATUSES)
+    ))
+    .limit(1);
+
+  if (open) {
+    return { success: false, error: 'This matter already has a DIFC registration in progress', status: 409 };
+  }
+
+  const [will] = await db
+    .select()
+    .from(wills)
+    .where(eq(wills.matterId, matter.id))
+    .orderBy(desc(wills.version))
+    .limit(1);
+
+  if (!will) {
+    return { success: false, error: 'A will must be created for this matter before registration', status: 422 };
+  }
+
+  if (will.difcRegistrationNumber) {
+    return { success: false, error: 'The latest will is already registered with DIFC', status: 409 };
+  }
+
+  const quote = await getDifcRegistryAdapter().getFeeQuote(will.willType);
+
+  const [registration] = await db.insert(difcRegistrations).values({
+    matterId: matter.id,
+    willId: will.id,
+    status: 'preparing',
+    registrationFee: quote.registrationFee.toFixed(2),
+    processingFee: quote.processingFee.toFixed(2),
+    additionalFees: quote.additionalFees.toFixed(2),
+    totalFees: (quote.registrationFee + quote.processingFee + quote.additionalFees).toFixed(2),
+  }).returning();
+
+  // Two registrations opened at once: the later one gives way to the earlier one
+  const [earlier] = await db
+    .select({ id: difcRegistrations.id })
+    .from(difcRegistrations)
+    .where(and(
+      eq(difcRegistrations.matterId, matter.id),
+      inArray(difcRegistrations.status, OPEN_STATUSES),
+      ne(difcRegistrations.id, registration.id),
+      lte(difcRegistrations.createdAt, registration.createdAt)
+    ))
+    .limit(1);
+
+  if (earlier) {
+    await db.delete(difcRegistrations).where(eq(difcRegistrations.id, registration.id));
+    return { success: false, error: 'This matter already has a DIFC registration in progress', status: 409 };
+  }
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'difc_submission',
+    title: 'DIFC registration opened',
+    description: `Registration prepared for will version ${will.version}`,
+    metadata: { registrationId: registration.id, newStatus: 'preparing' },
+  });
+
+  return { success: true, data: registration };
+}
+
+// Record fees, payment and appointment details on a registration
+export async function updateRegistrationDetails(
+  registration: Registration,
+  changes: z.infer<typeof registrationDetailsSchema>
+): Promise<RegistrationResult<Registration>> {
+  if (registration.status === 'registered') {
+    return { success: false, error: 'Registered submissions cannot be changed', status: 409 };
+  }
+
+  const feesChanged = changes.registrationFee !== undefined
+    || changes.processingFee !== undefined
+    || changes.additionalFees !== undefined;
+
+  if (feesChanged && !['preparing', 'ready_to_submit', 'rejected'].includes(registration.status || '')) {
+    return { success: false, error: 'Fees cannot be changed after submission', status: 409 };
+  }
+
+  const registrationFee = changes.registrationFee ?? Number(registration.registrationFee || 0);
+  const processingFee = changes.processingFee ?? Number(registration.processingFee || 0);
+  const additionalFees = changes.additionalFees ?? Number(registration.additionalFees || 0);
+  const paymentReference = changes.paymentReference ?? registration.paymentReference;
+
+  if (changes.feesPaid && !paymentReference) {
+    return { success: false, error: 'A payment reference is required to mark fees as paid', status: 422 };
+  }
+
+  const [updated] = await db
+    .update(difcRegistrations)
+    .set({
+      ...(feesChanged && {
+        registrationFee: registrationFee.toFixed(2),
+        processingFee: processingFee.toFixed(2),
+        additionalFees: additionalFees.toFixed(2),
+        totalFees: (registrationFee + processingFee + additionalFees).toFixed(2),
+      }),
+      ...(changes.feesPaid !== undefined && { feesPaid: changes.feesPaid }),
+      ...(changes.paymentReference !== undefined && { paymentReference: changes.paymentReference }),
+      ...(changes.difcContactPerson !== undefined && { difcContactPerson: changes.difcContactPerson }),
+      ...(changes.appointmentDate !== undefined && { appointmentDate: new Date(changes.appointmentDate) }),
+      ...(changes.appointmentNotes !== undefined && { appointmentNotes: changes.appointmentNotes }),
+      ...(changes.complianceNotes !== undefined && { complianceNotes: changes.complianceNotes }),
+      updatedAt: new Date(),
+    })
+    .where(eq(difcRegistrations.id, registration.id))
+    .returning();
+
+  return { success: true, data: updated };
+}
+
+// List the transitions the user could make from the registration's current status
+export async function getRegistrationTransitions(registration: Registration, lawFirmId: string, userId: string) {
+  const role = await getTransitionRole(userId, lawFirmId);
+  if (!role) return [];
+
+  return REGISTRATION_TRANSITIONS
+    .filter(transition => transition.from === registration.status)
+    .filter(transition => role === 'super_admin' || transition.roles.includes(role))
+    .map(({ to, label }) => ({ to, label }));
+}
+
+// Move a registration to a new status, submitting to DIFC or registering the will where required
+export async function transitionRegistration(
+  registration: Registration,
+  matter: MatterRecord,
+  userId: string,
+  toStatus: RegistrationStatus,
+  input: TransitionInput = {}
+): Promise<RegistrationResult<Registration>> {
+  const transition = REGISTRATION_TRANSITIONS.find(
+    candidate => candidate.from === registration.status && candidate.to === toStatus
+  );
+
+  if (!transition) {
+    return {
+      success: false,
+      error: `A registration cannot move from ${registration.status} to ${toStatus}`,
+      status: 409,
+    };
+  }
+
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !transition.roles.includes(role))) {
+    return { success: false, error: `Your role cannot perform "${transition.label}"`, status: 403 };
+  }
+
+  return await applyTransition(registration, matter, userId, transition, input);
+}
+
+// Poll the DIFC registry and apply any progress it reports
+export async function syncRegistration(
+  registration: Registration,
+  matter: MatterRecord,
+  userId: string
+): Promise<RegistrationResult<Registration>> {
+  const status = registration.status as RegistrationStatus;
+
+  if (!registration.submissionId || !REVIEW_PATH.slice(0, -1).includes(status)) {
+    return { success: false, error: 'Only submissions awaiting a DIFC decision can be synced', status: 409 };
+  }
+
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role) {
+    return { success: false, error: 'You cannot update this registration', status: 403 };
+  }
+
+  const submittedAt = registration.submissionDate ? new Date(registration.submissionDate) : registration.updatedAt;
+  const registry = await getDifcRegistryAdapter().getStatus(registration.submissionId, submittedAt);
+
+  // Registry decisions are recorded as the system rather than checked against the user's role
+  const steps: RegistryStatus[] = registry.status === 'rejected'
+    ? ['rejected']
+    : REVIEW_PATH.slice(REVIEW_PATH.indexOf(status) + 1, REVIEW_PATH.indexOf(registry.status) + 1) as RegistryStatus[];
+
+  let current = registration;
+  for (const step of steps) {
+    const transition = REGISTRATION_TRANSITIONS.find(
+      candidate => candidate.from === current.status && candidate.to === step
+    )!;
+
+    const result = await applyTransition(current, matter, userId, transition, {
+      reason: registry.rejectionReason,
+      registrationNumber: registry.registrationNumber,
+      registrationDate: registry.registrationDate,
+    });
+
+    if (!result.success) return result;
+    current = result.data;
+  }
+
+  return { success: true, data: current };
+}
+
+// Store the DIFC certificate and attach it to the registration and the matter's documents
+export async function attachCertificate(
+  registration: Registration,
+  userId: string,
+  file: { buffer: Buffer; filename: string; contentType: string }
+): Promise<RegistrationResult<Registration>> {
+  if (!['approved', 'registered'].includes(registration.status || '')) {
+    return { success: false, error: 'A certificate can only be attached once DIFC has approved the will', status: 409 };
+  }
+
+  const storageResult = await documentStorage.uploadDocument(file.buffer, {
+    filename: file.filename,
+    contentType: file.contentType,
+    documentType: 'supporting_document',
+    uploadedBy: userId,
+    willId: registration.willId || undefined,
+    tags: { registrationId: registration.id, category: 'difc_certificate' },
+  });
+
+  if (!storageResult.success || !storageResult.url) {
+    return { success: false, error: storageResult.error || 'Failed to store certificate', status: 500 };
+  }
+
+  const now = new Date();
+
+  const [updated] = await db
+    .update(difcRegistrations)
+    .set({
+      certificateUrl: storageResult.url,
+      certificateDate: now.toISOString().split('T')[0],
+      updatedAt: now,
+    })
+    .where(and(
+      eq(difcRegistrations.id, registration.id),
+      inArray(difcRegistrations.status, ['approved', 'registered'])
+    ))
+    .returning();
+
+  if (!updated) {
+    return { success: false, error: 'The registration was changed by someone else; reload and try again', status: 409 };
+  }
+
+  const [document] = await db.insert(matterDocuments).values({
+    matterId: registration.matterId,
+    willId: registration.willId,
+    documentType: 'certificate',
+    fileName: file.filename,
+    fileUrl: storageResult.url,
+    fileSize: file.buffer.length,
+    mimeType: file.contentType,
+    generatedBy: 'lawyer',
+    status: 'final',
+    clientVisible: true,
+    clientDownloadable: true,
+  }).returning({ id: matterDocuments.id });
+
+  await db.insert(matterTimeline).values({
+    matterId: registration.matterId,
+    userId,
+    eventType: 'document_generated',
+    title: 'DIFC registration certificate attached',
+    metadata: { documentId: document.id, registrationId: registration.id },
+    clientVisible: true,
+  });
+
+  return { success: true, data: updated };
+}
+
+// Apply a transition's side effects and record it on the matter timeline
+async function applyTransition(
+  registration: Registration,
+  matter: MatterRecord,
+  userId: string,
+  transition: RegistrationTransition,
+  input: TransitionInput
+): Promise<RegistrationResult<Registration>> {
+  const now = new Date();
+  const today = now.toISOString().split('T')[0];
+  let changes: Partial<typeof difcRegistrations.$inferInsert> = {};
+
+  const [will] = registration.willId
+    ? await db.select().from(wills).where(eq(wills.id, registration.willId)).limit(1)
+    : [];
+
+  switch (transition.to) {
+    case 'ready_to_submit':
+      if (!will) {
+        return { success: false, error: 'The registration is not linked to a will', status: 422 };
+      }
+      if (!will.difcCompliant) {
+        return { success: false, error: 'The will must pass the DIFC compliance check', status: 422 };
+      }
+      changes = { complianceChecked: true, complianceDate: now };
+      break;
+
+    case 'submitted': {
+      if (!will) {
+        return { success: false, error: 'The registration is not linked to a will', status: 422 };
+      }
+      if (!registration.feesPaid || !registration.paymentReference) {
+        return { success: false, error: 'DIFC fees must be paid with a payment reference before submission', status: 422 };
+      }
+
+      const [testator] = await db
+        .select({ name: user.name })
+        .from(user)
+        .where(eq(user.id, will.testatorId))
+        .limit(1);
+
+      const submission = await getDifcRegistryAdapter().submit({
+        registrationId: registration.id,
+        matterNumber: matter.matterNumber,
+        willId: will.id,
+        willType: will.willType,
+        testatorName: testator?.name || '',
+        paymentReference: registration.paymentReference,
+        submissionPackageUrl: registration.submissionPackageUrl,
+      });
+
+      changes = {
+        submissionId: submission.submissionId,
+        submissionDate: submission.submittedAt.toISOString().split('T')[0],
+      };
+      break;
+    }
+
+    case 'under_review':
+      changes = { reviewStartDate: today };
+      break;
+
+    case 'registered':
+      if (!will) {
+        return { success: false, error: 'The registration is not linked to a will', status: 422 };
+      }
+      if (!input.registrationNumber) {
+        return { success: false, error: 'A DIFC registration number is required', status: 422 };
+      }
+      changes = {
+        registrationNumber: input.registrationNumber,
+        registrationDate: input.registrationDate || today,
+      };
+      break;
+
+    case 'rejected':
+      if (!input.reason) {
+        return { success: false, error: 'A rejection reason is required', status: 422 };
+      }
+      changes = { rejectionReason: input.reason };
+      break;
+
+    case 'preparing':
+      // A resubmission starts again from a clean submission
+      if (transition.from === 'rejected') {
+        changes = {
+          submissionId: null,
+          submissionDate: null,
+          reviewStartDate: null,
+          complianceChecked: false,
+          complianceDate: null,
+        };
+      }
+      break;
+  }
+
+  const [updated] = await db
+    .update(difcRegistrations)
+    .set({ ...changes, status: transition.to, updatedAt: now })
+    .where(and(
+      eq(difcRegistrations.id, registration.id),
+      // Only apply if nobody else moved the registration in the meantime
+      eq(difcRegistrations.status, transition.from)
+    ))
+    .returning();
+
+  if (!updated) {
+    return {
+      success: false,
+      error: 'The registration was changed by someone else; reload and try again',
+      status: 409,
+    };
+  }
+
+  // Registration details live on the will so the rest of the workflow can see them
+  if (transition.to === 'registered') {
+    await db
+      .update(wills)
+      .set({
+        difcRegistrationNumber: updated.registrationNumber,
+        difcRegistrationDate: updated.registrationDate,
+        status: 'registered',
+        updatedAt: now,
+      })
+      .where(eq(wills.id, registration.willId!));
+  }
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'difc_submission',
+    title: `DIFC registration: ${transition.label}`,
+    description: input.reason || (updated.registrationNumber && transition.to === 'registered'
+      ? `Registration number ${updated.registrationNumber}`
+      : undefined),
+    metadata: {
+      registrationId: registration.id,
+      previousStatus: transition.from,
+      newStatus: transition.to,
+      difcSubmissionId: updated.submissionId || undefined,
+    },
+    clientVisible: ['submitted', 'registered', 'rejected'].includes(transition.to),
+  });
+
+  return { success: true, data: updated };
+}
@@ -0,0 +1,134 @@
+/**
+ * DIFC Wills Registry Adapter for Mirath Legal
+ * Talks to the DIFC Wills Service Centre; a local stub adapter is used until the live integration is configured
+ */
+
+import { createHash } from 'crypto';
+import { nanoid } from 'nanoid';
+
+export type RegistryStatus = 'submitted' | 'under_review' | 'approved' | 'registered' | 'rejected';
+
+export interface RegistryFeeQuote {
+  registrationFee: number;
+  processingFee: number;
+  additionalFees: number;
+  currency: string;
+}
+
+export interface RegistrySubmission {
+  registrationId: string;
+  matterNumber: string;
+  willId: string;
+  willType: string;
+  testatorName: string;
+  paymentReference: string;
+  submissionPackageUrl?: string | null;
+}
+
+export interface RegistrySubmissionResult {
+  submissionId: string;
+  submittedAt: Date;
+}
+
+export interface RegistryStatusResult {
+  status: RegistryStatus;
+  registrationNumber?: string;
+  registrationDate?: string;
+  rejectionReason?: string;
+}
+
+export interface DifcRegistryAdapter {
+  readonly name: string;
+  getFeeQuote(willType: string): Promise<RegistryFeeQuote>;
+  submit(submission: RegistrySubmission): Promise<RegistrySubmissionResult>;
+  getStatus(submissionId: string, submittedAt: Date): Promise<RegistryStatusResult>;
+}
+
+// DIFC Wills Service Centre registration fees by will type (AED)
+const DIFC_FEE_SCHEDULE: Record<string, number> = {
+  simple: 10000,
+  complex: 10000,
+  business_succession: 10000,
+  digital_assets: 10000,
+  mirror: 15000,
+  guardianship: 5000,
+};
+
+const DIFC_PROCESSING_FEE = 500;
+
+export interface LocalRegistryConfig {
+  outcome: 'registered' | 'rejected';
+  reviewMinutes: number;
+}
+
+// Offline stand-in for the DIFC registry; the outcome is derived from the submission so syncing is repeatable
+export class LocalDifcRegistryAdapter implements DifcRegistryAdapter {
+  readonly name = 'local';
+  private config: LocalRegistryConfig;
+
+  constructor(config?: Partial<LocalRegistryConfig>) {
+    this.config = {
+      outcome: config?.outcome || (process.env.DIFC_STUB_OUTCOME === 'rejected' ? 'rejected' : 'registered'),
+      reviewMinutes: config?.reviewMinutes ?? Number(process.env.DIFC_STUB_REVIEW_MINUTES || 0),
+    };
+  }
+
+  async getFeeQuote(willType: string): Promise<RegistryFeeQuote> {
+    return {
+      registrationFee: DIFC_FEE_SCHEDULE[willType] ?? DIFC_FEE_SCHEDULE.simple,
+      processingFee: DIFC_PROCESSING_FEE,
+      additionalFees: 0,
+      currency: 'AED',
+    };
+  }
+
+  async submit(submission: RegistrySubmission): Promise<RegistrySubmissionResult> {
+    if (!submission.paymentReference) {
+      throw new Error('DIFC submissions require a payment reference');
+    }
+
+    return {
+      submissionId: `DIFC-SUB-${nanoid(10).toUpperCase()}`,
+      submittedAt: new Date(),
+    };
+  }
+
+  async getStatus(submissionId: string, submittedAt: Date): Promise<RegistryStatusResult> {
+    // Review takes reviewMinutes, then the decision takes the same again
+    const elapsedMinutes = (Date.now() - submittedAt.getTime()) / 60_000;
+    const stage = this.config.reviewMinutes > 0 ? Math.floor(elapsedMinutes / this.config.reviewMinutes) : 3;
+
+    if (stage < 1) return { status: 'submitted' };
+    if (stage < 2) return { status: 'under_review' };
+
+    if (this.config.outcome === 'rejected') {
+      return {
+        status: 'rejected',
+        rejectionReason: 'Stub registry rejection: witness attestation could not be verified',
+      };
+    }
+
+    if (stage < 3) return { status: 'approved' };
+
+    const digest = createHash('sha256').update(submissionId).digest('hex');
+    const serial = (parseInt(digest.slice(0, 8), 16) % 100000).toString().padStart(5, '0');
+
+    return {
+      status: 'registered',
+      registrationNumber: `DIFC-WR-${submittedAt.getFullYear()}-${serial}`,
+      registrationDate: new Date().toISOString().split('T')[0],
+    };
+  }
+}
+
+// Select the registry adapter from the environment
+export function getDifcRegistryAdapter(): DifcRegistryAdapter {
+  const provider = process.env.DIFC_REGISTRY_PROVIDER || 'local';
+
+  switch (provider) {
+    case 'local':
+      return new LocalDifcRegistryAdapter();
+    default:
+      throw new Error(`DIFC registry provider "${provider}" is not supported`);
+  }
+}
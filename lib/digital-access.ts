@@ -0,0 +1,364 @@
+/**
+ * Digital Access Letters for Mirath Legal
+ * Per-asset access instructions for a will's digital assets, sealed in an encrypted letter of wishes that is
+ * kept out of the will and only released to an executor after the testator's death certificate is recorded
+ */
+
+import { db } from "@/db/drizzle";
+import { digitalAccessLetters, matterDocuments, matters, matterTimeline, wills } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { z } from "zod";
+import { getTransitionRole } from "./matter-workflow";
+import { documentStorage } from "./document-storage";
+import type { Asset, Executor } from "./will-engine";
+import type { TransitionRole } from "./matter-status";
+
+export const DIGITAL_ACCESS_STATUSES = ['sealed', 'death_recorded', 'released'] as const;
+
+export type DigitalAccessStatus = typeof DIGITAL_ACCESS_STATUSES[number];
+export type DigitalAccessLetter = typeof digitalAccessLetters.$inferSelect;
+type MatterRecord = typeof matters.$inferSelect;
+type WillRecord = typeof wills.$inferSelect;
+
+type DigitalAccessResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+const LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer', 'lawyer'];
+const SENIOR_LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer'];
+
+const CIPHER = 'aes-256-gcm';
+const CIPHER_VERSION = 'v1';
+
+// Validation schemas for digital access requests
+export const sealInstructionsSchema = z.object({
+  instructions: z.array(z.object({
+    assetId: z.string().min(1),
+    instructions: z.string().trim().min(1).max(5000),
+  })).min(1, 'Provide access instructions for at least one digital asset'),
+  wishes: z.string().trim().max(10000).optional(), // General wishes about the testator's digital life
+});
+
+export const deathCertificateSchema = z.object({
+  dateOfDeath: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date of death must be YYYY-MM-DD'),
+});
+
+export const releaseLetterSchema = z.object({
+  executorId: z.string().min(1),
+});
+
+export type SealInstructionsInput = z.infer<typeof sealInstructionsSchema>;
+
+export interface SealedInstructions extends SealInstructionsInput {
+  sealedAt: string;
+}
+
+// The letter without its ciphertext, safe to return before release
+export type DigitalAccessLetterSummary = Omit<DigitalAccessLetter, 'encryptedInstructions'>;
+
+export function toLetterSummary(letter: DigitalAccessLetter): DigitalAccessLetterSummary {
+  return {
+    id: letter.id,
+    willId: letter.willId,
+    matterId: letter.matterId,
+    status: letter.status,
+    assetIds: letter.assetIds,
+    sealedBy: letter.sealedBy,
+    sealedAt: letter.sealedAt,
+    deathCertificateDocumentId: letter.deathCertificateDocumentId,
+    dateOfDeath: letter.dateOfDeath,
+    deathRecordedBy: letter.deathRecordedBy,
+    deathRecordedAt: letter.deathRecordedAt,
+    releasedTo: letter.releasedTo,
+    releasedBy: letter.releasedBy,
+    releasedAt: letter.releasedAt,
+    createdAt: letter.createdAt,
+    updatedAt: letter.updatedAt,
+  };
+}
+
+// Get the sealed letter for a will, if one has been lodged
+export async function getDigitalAccessLetter(willId: string) {
+  const [letter] = await db
+    .select()
+    .from(digitalAccessLetters)
+    .where(eq(digitalAccessLetters.willId, willId))
+    .limit(1);
+
+  return letter || null;
+}
+
+// Seal (or reseal) the access instructions for a will's digital assets
+export async function sealDigitalAccessLetter(
+  will: WillRecord,
+  matter: MatterRecord,
+  userId: string,
+  input: SealInstructionsInput
+): Promise<DigitalAccessResult<DigitalAccessLetter>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can seal digital access instructions', status: 403 };
+  }
+
+  const existing = await getDigitalAccessLetter(will.id);
+  if (existing && existing.status !== 'sealed') {
+    return { success: false, error: 'Access instructions cannot be changed once a death has been recorded', status: 409 };
+  }
+
+  const digitalAssetIds = new Set(((will.assets || []) as Asset[]).filter(asset => asset.type === 'digital').map(asset => asset.id));
+  const unknown = input.instructions.filter(item => !digitalAssetIds.has(item.assetId));
+  if (unknown.length > 0) {
+    return { success: false, error: 'Access instructions can only be sealed for digital assets in this will', status: 400 };
+  }
+
+  const assetIds = [...new Set(input.instructions.map(item => item.assetId))];
+  if (assetIds.length !== input.instructions.length) {
+    return { success: false, error: 'Each digital asset can only have one set of access instructions', status: 400 };
+  }
+
+  const key = getEncryptionKey();
+  if (!key) {
+    return { success: false, error: 'Digital access encryption key is not configured', status: 503 };
+  }
+
+  const now = new Date();
+  const sealed: SealedInstructions = { ...input, sealedAt: now.toISOString() };
+  const encryptedInstructions = encryptInstructions(sealed, key, will.id);
+
+  let letter: DigitalAccessLetter | undefined;
+  try {
+    [letter] = existing
+      ? await db
+          .update(digitalAccessLetters)
+          .set({ encryptedInstructions, assetIds, sealedBy: userId, sealedAt: now, updatedAt: now })
+          .where(and(
+            eq(digitalAccessLetters.id, existing.id),
+            eq(digitalAccessLetters.status, 'sealed')
+          ))
+          .returning()
+      : await db
+          .insert(digitalAccessLetters)
+          .values({ willId: will.id, matterId: matter.id, encryptedInstructions, assetIds, sealedBy: userId, sealedAt: now })
+          .returning();
+  } catch (error) {
+    // A will has one letter; a second first seal at the same moment hits its unique index
+    if ((error as { code?: string }).code !== '23505') throw error;
+  }
+
+  if (!letter) {
+    return { success: false, error: 'The letter was changed by someone else', status: 409 };
+  }
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'digital_access',
+    title: existing ? 'Digital access letter resealed' : 'Digital access letter sealed',
+    description: `Access instructions sealed for ${assetIds.length} digital asset${assetIds.length === 1 ? '' : 's'}`,
+    metadata: { letterId: letter.id, willId: will.id, assetIds },
+  });
+
+  return { success: true, data: letter };
+}
+
+// Store the death certificate and record the date of death, which allows the letter to be released
+export async function recordDeathCertificate(
+  letter: DigitalAccessLetter,
+  matter: MatterRecord,
+  userId: string,
+  dateOfDeath: string,
+  file: { buffer: Buffer; filename: string; contentType: string }
+): Promise<DigitalAccessResult<DigitalAccessLetter>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can record a death certificate', status: 403 };
+  }
+
+  if (letter.status !== 'sealed') {
+    return { success: false, error: 'A death certificate has already been recorded for this letter', status: 409 };
+  }
+
+  if (new Date(`${dateOfDeath}T00:00:00Z`) > new Date()) {
+    return { success: false, error: 'Date of death cannot be in the future', status: 400 };
+  }
+
+  const storageResult = await documentStorage.uploadDocument(file.buffer, {
+    filename: file.filename,
+    contentType: file.contentType,
+    documentType: 'supporting_document',
+    uploadedBy: userId,
+    willId: letter.willId,
+    tags: { letterId: letter.id, category: 'death_certificate' },
+  });
+
+  if (!storageResult.success || !storageResult.url) {
+    return { success: false, error: storageResult.error || 'Failed to store death certificate', status: 500 };
+  }
+
+  const now = new Date();
+
+  const [recorded] = await db
+    .update(digitalAccessLetters)
+    .set({
+      status: 'death_recorded',
+      dateOfDeath,
+      deathRecordedBy: userId,
+      deathRecordedAt: now,
+      updatedAt: now,
+    })
+    .where(and(
+      eq(digitalAccessLetters.id, letter.id),
+      eq(digitalAccessLetters.status, 'sealed')
+    ))
+    .returning();
+
+  if (!recorded) {
+    return { success: false, error: 'A death certificate has already been recorded for this letter', status: 409 };
+  }
+
+  const [document] = await db.insert(matterDocuments).values({
+    matterId: matter.id,
+    willId: letter.willId,
+    documentType: 'death_certificate',
+    fileName: file.filename,
+    fileUrl: storageResult.url,
+    fileSize: file.buffer.length,
+    mimeType: file.contentType,
+    generatedBy: 'lawyer',
+    status: 'final',
+    accessLevel: 'internal',
+  }).returning({ id: matterDocuments.id });
+
+  const [updated] = await db
+    .update(digitalAccessLetters)
+    .set({ deathCertificateDocumentId: document.id })
+    .where(eq(digitalAccessLetters.id, letter.id))
+    .returning();
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'digital_access',
+    title: 'Death certificate recorded',
+    description: `Date of death ${dateOfDeath}; the digital access letter can now be released to an executor`,
+    metadata: { letterId: letter.id, documentId: document.id },
+  });
+
+  return { success: true, data: updated };
+}
+
+// Unseal the letter for one of the will's executors once the death certificate is on file
+export async function releaseDigitalAccessLetter(
+  letter: DigitalAccessLetter,
+  will: WillRecord,
+  matter: MatterRecord,
+  userId: string,
+  executorId: string
+): Promise<DigitalAccessResult<{ letter: DigitalAccessLetter; instructions: SealedInstructions }>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !SENIOR_LAWYERS.includes(role))) {
+    return { success: false, error: 'Only senior lawyers can release a digital access letter', status: 403 };
+  }
+
+  if (letter.status !== 'death_recorded' || !letter.deathCertificateDocumentId) {
+    return {
+      success: false,
+      error: letter.status === 'released'
+        ? 'This letter has already been released'
+        : 'The death certificate must be recorded before the letter can be released',
+      status: 409,
+    };
+  }
+
+  const executor = ((will.executors || []) as Executor[]).find(candidate => candidate.id === executorId);
+  if (!executor) {
+    return { success: false, error: 'The letter can only be released to an executor named in the will', status: 400 };
+  }
+
+  const opened = openDigitalAccessLetter({ ...letter, status: 'released' });
+  if (!opened.success) return opened;
+
+  const now = new Date();
+
+  const [updated] = await db
+    .update(digitalAccessLetters)
+    .set({
+      status: 'released',
+      releasedTo: { executorId: executor.id, fullName: executor.fullName },
+      releasedBy: userId,
+      releasedAt: now,
+      updatedAt: now,
+    })
+    .where(and(
+      eq(digitalAccessLetters.id, letter.id),
+      eq(digitalAccessLetters.status, 'death_recorded')
+    ))
+    .returning();
+
+  if (!updated) {
+    return { success: false, error: 'The letter was changed by someone else', status: 409 };
+  }
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'digital_access',
+    title: 'Digital access letter released',
+    description: `Released to executor ${executor.fullName}`,
+    metadata: { letterId: letter.id, executorId: executor.id },
+  });
+
+  return { success: true, data: { letter: updated, instructions: opened.data } };
+}
+
+// Decrypt a released letter's instructions
+export function openDigitalAccessLetter(letter: DigitalAccessLetter): DigitalAccessResult<SealedInstructions> {
+  if (letter.status !== 'released') {
+    return { success: false, error: 'The letter is sealed until it is released to an executor', status: 403 };
+  }
+
+  const key = getEncryptionKey();
+  if (!key) {
+    return { success: false, error: 'Digital access encryption key is not configured', status: 503 };
+  }
+
+  try {
+    return { success: true, data: decryptInstructions(letter.encryptedInstructions, key, letter.willId) };
+  } catch (error) {
+    console.error('Digital access letter decryption error:', error);
+    return { success: false, error: 'The sealed instructions could not be decrypted', status: 500 };
+  }
+}
+
+// 32-byte key, base64 encoded
+function getEncryptionKey(): Buffer | null {
+  const encoded = process.env.DIGITAL_ACCESS_ENCRYPTION_KEY;
+  if (!encoded) return null;
+
+  const key = Buffer.from(encoded, 'base64');
+  return key.length === 32 ? key : null;
+}
+
+// The will id is bound in as associated data so a letter cannot be moved to another will
+function encryptInstructions(instructions: SealedInstructions, key: Buffer, willId: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(willId));
+
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(instructions), 'utf8'), cipher.final()]);
+
+  return [CIPHER_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+function decryptInstructions(sealed: string, key: Buffer, willId: string): SealedInstructions {
+  const [version, iv, authTag, ciphertext] = sealed.split(':');
+  if (version !== CIPHER_VERSION) throw new Error(`Unsupported letter format ${version}`);
+
+  const decipher = createDecipheriv(CIPHER, key, Buffer.from(iv, 'base64'));
+  decipher.setAAD(Buffer.from(willId));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+  const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+  return JSON.parse(plaintext.toString('utf8')) as SealedInstructions;
+}
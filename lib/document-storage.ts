@@ -9,6 +9,7 @@ import { promises as fs } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { nanoid } from 'nanoid';
+import type { matterDocuments } from '@/db/schema';
 
 export interface DocumentMetadata {
   id: string;
@@ -403,4 +404,22 @@ export class DocumentStorageService {
 }
 
 // Singleton instance
-export const documentStorage = new DocumentStorageService();
\ No newline at end of file
+export const documentStorage = new DocumentStorageService();
+// Read a stored document, whether kept locally or behind a signed URL
+export async function readDocumentBytes(document: typeof matterDocuments.$inferSelect): Promise<Buffer> {
+  const localMatch = document.fileUrl.match(/^\/api\/documents\/([^/?]+)/);
+
+  if (localMatch) {
+    const result = await documentStorage.getDocument(localMatch[1]);
+    if (!result.success || !result.buffer) {
+      throw new Error(`Could not read ${document.fileName}: ${result.error || 'not found'}`);
+    }
+    return result.buffer;
+  }
+
+  const response = await fetch(document.fileUrl);
+  if (!response.ok) {
+    throw new Error(`Could not download ${document.fileName}: ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
@@ -0,0 +1,797 @@
+/**
+ * Electronic Signatures for Mirath Legal
+ * Sends matter PDFs such as engagement letters and draft approvals for signature, collects drawn or typed
+ * signatures at set positions, and stamps the signed copy with a certificate page of hashes, IPs and times.
+ * Wills themselves are still signed in wet ink at a signing ceremony.
+ */
+
+import { db } from "@/db/drizzle";
+import { lawFirmMembers, matterDocuments, matters, matterTimeline, signatureRequests, user } from "@/db/schema";
+import { and, desc, eq, inArray, lte, ne, sql } from "drizzle-orm";
+import { createHash, randomUUID } from "crypto";
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import { z } from "zod";
+import { getTransitionRole } from "./matter-workflow";
+import { documentStorage, readDocumentBytes } from "./document-storage";
+import { getRequestContext } from "./audit";
+import type { TransitionRole } from "./matter-status";
+
+export const SIGNATURE_PURPOSES = ['engagement_letter', 'draft_approval', 'other'] as const;
+export const SIGNATURE_REQUEST_STATUSES = ['pending', 'completed', 'declined', 'cancelled', 'expired'] as const;
+export const SIGNATURE_FIELD_TYPES = ['signature', 'initials', 'date', 'name'] as const;
+
+export type SignaturePurpose = typeof SIGNATURE_PURPOSES[number];
+export type SignatureRequestStatus = typeof SIGNATURE_REQUEST_STATUSES[number];
+export type SignatureRequest = typeof signatureRequests.$inferSelect;
+export type Signer = SignatureRequest['signers'][number];
+export type SignatureField = SignatureRequest['fields'][number];
+type MatterRecord = typeof matters.$inferSelect;
+type MatterDocument = typeof matterDocuments.$inferSelect;
+
+type SignatureResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+const LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer', 'lawyer'];
+
+const PURPOSE_LABELS: Record<SignaturePurpose, string> = {
+  engagement_letter: 'Engagement letter',
+  draft_approval: 'Approval of draft',
+  other: 'Document signature',
+};
+
+// Drawn signatures arrive as PNG data URLs from the signing pad
+const PNG_DATA_URL = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/;
+const MAX_DRAWN_SIGNATURE_LENGTH = 500_000;
+
+const MAX_SIGN_ATTEMPTS = 3;
+
+// The standard PDF fonts only cover Latin text
+const LATIN_TEXT = /^[\x20-\x7E\xA0-\xFF]+$/;
+
+// A4 in PDF points
+const CERTIFICATE_PAGE_SIZE: [number, number] = [595.28, 841.89];
+
+// Validation schemas for signature requests
+const fieldSchema = z.object({
+  type: z.enum(SIGNATURE_FIELD_TYPES),
+  page: z.number().int().min(1),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().positive().max(1),
+  height: z.number().positive().max(1),
+}).refine(field => field.x + field.width <= 1 && field.y + field.height <= 1, {
+  message: 'The field must fit on the page',
+});
+
+export const sendForSignatureSchema = z.object({
+  documentId: z.string().uuid(),
+  purpose: z.enum(SIGNATURE_PURPOSES),
+  message: z.string().trim().max(2000).optional(),
+  expiresInDays: z.number().int().min(1).max(60).default(14),
+  signers: z.array(z.object({
+    userId: z.string().min(1),
+    fields: z.array(fieldSchema).min(1),
+  })).min(1).max(5),
+});
+
+const signatureMarkSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('drawn'),
+    value: z.string().max(MAX_DRAWN_SIGNATURE_LENGTH).regex(PNG_DATA_URL, 'Drawn signatures must be PNG images'),
+  }),
+  z.object({
+    type: z.literal('typed'),
+    value: z.string().trim().min(1).max(100).regex(LATIN_TEXT, 'Typed signatures must use Latin letters; draw your signature instead'),
+  }),
+]);
+
+export const signDocumentSchema = z.object({
+  consent: z.literal(true, {
+    errorMap: () => ({ message: 'Agree to sign electronically before signing' }),
+  }),
+  signature: signatureMarkSchema,
+  initials: signatureMarkSchema.optional(),
+});
+
+export const updateSignatureRequestSchema = z.object({
+  status: z.literal('cancelled'),
+});
+
+export const declineSignatureSchema = z.object({
+  reason: z.string().trim().min(1).max(1000),
+});
+
+export type SendForSignatureInput = z.infer<typeof sendForSignatureSchema>;
+export type SignDocumentInput = z.infer<typeof signDocumentSchema>;
+
+// Signature requests on a matter, newest first
+export async function getMatterSignatureRequests(matterId: string, documentId?: string): Promise<SignatureRequest[]> {
+  return await db
+    .select()
+    .from(signatureRequests)
+    .where(documentId
+      ? and(eq(signatureRequests.matterId, matterId), eq(signatureRequests.documentId, documentId))
+      : eq(signatureRequests.matterId, matterId))
+    .orderBy(desc(signatureRequests.sentAt));
+}
+
+// Get a signature request, scoped to its matter
+export async function getMatterSignatureRequest(matterId: string, requestId: string): Promise<SignatureRequest | null> {
+  const [request] = await db
+    .select()
+    .from(signatureRequests)
+    .where(and(eq(signatureRequests.id, requestId), eq(signatureRequests.matterId, matterId)))
+    .limit(1);
+
+  return request || null;
+}
+
+// Requests the user has been asked to sign, newest first
+export async function getUserSignatureRequests(userId: string): Promise<SignatureRequest[]> {
+  const requests = await db
+    .select()
+    .from(signatureRequests)
+    .where(sql`${signatureRequests.signers}::jsonb @> ${JSON.stringify([{ userId }])}::jsonb`)
+    .orderBy(desc(signatureRequests.sentAt));
+
+  return requests.map(withExpiry);
+}
+
+// Get a request the user is one of the signers of
+export async function getSignatureRequestForSigner(requestId: string, userId: string): Promise<SignatureRequest | null> {
+  const [request] = await db
+    .select()
+    .from(signatureRequests)
+    .where(eq(signatureRequests.id, requestId))
+    .limit(1);
+
+  if (!request || !request.signers.some(signer => signer.userId === userId)) return null;
+  return withExpiry(request);
+}
+
+// The document a signer should see: the signed copy once complete, otherwise the one sent
+export async function getSignerDocument(request: SignatureRequest): Promise<MatterDocument | null> {
+  const [document] = await db
+    .select()
+    .from(matterDocuments)
+    .where(eq(matterDocuments.id, request.signedDocumentId || request.documentId))
+    .limit(1);
+
+  return document || null;
+}
+
+// Send a matter PDF to its signers
+export async function sendForSignature(
+  matter: MatterRecord,
+  userId: string,
+  input: SendForSignatureInput
+): Promise<SignatureResult<SignatureRequest>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can send documents for signature', status: 403 };
+  }
+
+  const [document] = await db
+    .select()
+    .from(matterDocuments)
+    .where(and(eq(matterDocuments.id, input.documentId), eq(matterDocuments.matterId, matter.id)))
+    .limit(1);
+
+  if (!document) {
+    return { success: false, error: 'Document not found', status: 404 };
+  }
+
+  if (!document.isLatestVersion) {
+    return { success: false, error: 'Only the latest version of a document can be sent for signature', status: 409 };
+  }
+
+  if (!isPdf(document)) {
+    return { success: false, error: 'Only PDF documents can be signed', status: 422 };
+  }
+
+  // Drafts can be approved electronically, but the will itself is executed in wet ink before two witnesses
+  if (document.documentType === 'final_will') {
+    return { success: false, error: 'The final will is signed in person at a signing ceremony, not electronically', status: 422 };
+  }
+
+  const [open] = await db
+    .select({ id: signatureRequests.id })
+    .from(signatureRequests)
+    .where(and(eq(signatureRequests.documentId, document.id), eq(signatureRequests.status, 'pending')))
+    .limit(1);
+
+  if (open) {
+    return { success: false, error: 'This document is already out for signature', status: 409 };
+  }
+
+  const signerIds = input.signers.map(signer => signer.userId);
+  if (new Set(signerIds).size !== signerIds.length) {
+    return { success: false, error: 'Each signer can only be listed once', status: 400 };
+  }
+
+  const signerUsers = await db
+    .select({ id: user.id, name: user.name, email: user.email, memberFirmId: lawFirmMembers.lawFirmId })
+    .from(user)
+    .leftJoin(lawFirmMembers, and(eq(lawFirmMembers.userId, user.id), eq(lawFirmMembers.lawFirmId, matter.lawFirmId)))
+    .where(inArray(user.id, signerIds));
+
+  const bytes = await readDocumentBytes(document);
+  const pageCount = (await PDFDocument.load(bytes, { ignoreEncryption: true })).getPageCount();
+
+  const signers: Signer[] = [];
+  const fields: SignatureField[] = [];
+
+  for (const requested of input.signers) {
+    const signerUser = signerUsers.find(candidate => candidate.id === requested.userId);
+    const signerRole = signerUser?.id === matter.clientId ? 'client' : signerUser?.memberFirmId ? 'firm' : null;
+
+    if (!signerUser || !signerRole) {
+      return { success: false, error: 'Signers must be the matter\'s client or members of the firm', status: 422 };
+    }
+
+    if (!requested.fields.some(field => field.type === 'signature')) {
+      return { success: false, error: `${signerUser.name} needs at least one signature field`, status: 400 };
+    }
+
+    const outOfRange = requested.fields.find(field => field.page > pageCount);
+    if (outOfRange) {
+      return { success: false, error: `The document only has ${pageCount} page${pageCount === 1 ? '' : 's'}`, status: 400 };
+    }
+
+    const signerId = randomUUID();
+    signers.push({
+      id: signerId,
+      userId: signerUser.id,
+      name: signerUser.name,
+      email: signerUser.email,
+      role: signerRole,
+      status: 'pending',
+    });
+    fields.push(...requested.fields.map(field => ({ ...field, id: randomUUID(), signerId })));
+  }
+
+  const now = new Date();
+  const hasClientSigner = signers.some(signer => signer.role === 'client');
+
+  const [request] = await db.insert(signatureRequests).values({
+    matterId: matter.id,
+    documentId: document.id,
+    purpose: input.purpose,
+    message: input.message,
+    documentHash: sha256(bytes),
+    signers,
+    fields,
+    expiresAt: new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60_000),
+    sentBy: userId,
+    sentAt: now,
+  }).returning();
+
+  // Two lawyers sending the same document at once: the later request gives way to the earlier one
+  const [earlier] = await db
+    .select({ id: signatureRequests.id })
+    .from(signatureRequests)
+    .where(and(
+      eq(signatureRequests.documentId, document.id),
+      eq(signatureRequests.status, 'pending'),
+      ne(signatureRequests.id, request.id),
+      lte(signatureRequests.createdAt, request.createdAt)
+    ))
+    .limit(1);
+
+  if (earlier) {
+    await db.delete(signatureRequests).where(eq(signatureRequests.id, request.id));
+    return { success: false, error: 'This document is already out for signature', status: 409 };
+  }
+
+  // The client has to be able to open what they are asked to sign
+  await db
+    .update(matterDocuments)
+    .set({
+      requiresClientSignature: hasClientSigner,
+      clientSignedAt: null,
+      ...(hasClientSigner ? { clientVisible: true, accessLevel: 'client' } : {}),
+      updatedAt: now,
+    })
+    .where(eq(matterDocuments.id, document.id));
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'signature',
+    title: `${document.fileName} sent for signature`,
+    description: `${PURPOSE_LABELS[input.purpose]}: ${signers.map(signer => signer.name).join(', ')}`,
+    metadata: { signatureRequestId: request.id, documentId: document.id },
+    clientVisible: hasClientSigner,
+  });
+
+  return { success: true, data: request };
+}
+
+// Cancel a request nobody has finished signing
+export async function cancelSignatureRequest(
+  request: SignatureRequest,
+  matter: MatterRecord,
+  userId: string
+): Promise<SignatureResult<SignatureRequest>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can cancel a signature request', status: 403 };
+  }
+
+  if (request.status !== 'pending') {
+    return { success: false, error: `A ${request.status} signature request cannot be cancelled`, status: 409 };
+  }
+
+  const now = new Date();
+
+  const [cancelled] = await db
+    .update(signatureRequests)
+    .set({ status: 'cancelled', cancelledAt: now, updatedAt: now })
+    .where(and(eq(signatureRequests.id, request.id), eq(signatureRequests.status, 'pending')))
+    .returning();
+
+  if (!cancelled) {
+    return { success: false, error: 'The request was completed or changed in the meantime', status: 409 };
+  }
+
+  await db
+    .update(matterDocuments)
+    .set({ requiresClientSignature: false, updatedAt: now })
+    .where(eq(matterDocuments.id, request.documentId));
+
+  await db.insert(matterTimeline).values({
+    matterId: request.matterId,
+    userId,
+    eventType: 'signature',
+    title: 'Signature request cancelled',
+    metadata: { signatureRequestId: request.id, documentId: request.documentId },
+    clientVisible: request.signers.some(signer => signer.role === 'client'),
+  });
+
+  return { success: true, data: cancelled };
+}
+
+// Sign as one of the request's signers; the last signature stamps the PDF and files the signed copy
+export async function signDocument(
+  requestId: string,
+  userId: string,
+  input: SignDocumentInput
+): Promise<SignatureResult<{ request: SignatureRequest; signedDocument: MatterDocument | null }>> {
+  const { ipAddress, userAgent } = await getRequestContext();
+
+  // Signers finishing at the same moment must not overwrite each other's signatures, so a lost race re-reads and tries again
+  for (let attempt = 1; attempt <= MAX_SIGN_ATTEMPTS; attempt++) {
+    const result = await attemptSignature(requestId, userId, input, { ipAddress, userAgent });
+    if (result) return result;
+  }
+
+  return { success: false, error: 'The request was changed by another signer; please try again', status: 409 };
+}
+
+// One signing attempt against the request as read; null when another signer saved first
+async function attemptSignature(
+  requestId: string,
+  userId: string,
+  input: SignDocumentInput,
+  context: { ipAddress: string | null; userAgent: string | null }
+): Promise<SignatureResult<{ request: SignatureRequest; signedDocument: MatterDocument | null }> | null> {
+  const [request] = await db
+    .select()
+    .from(signatureRequests)
+    .where(eq(signatureRequests.id, requestId))
+    .limit(1);
+
+  const signer = request?.signers.find(candidate => candidate.userId === userId);
+  if (!request || !signer) {
+    return { success: false, error: 'Signature request not found', status: 404 };
+  }
+
+  const checked = await checkSignable(request, signer);
+  if (!checked.success) return checked;
+
+  const needsInitials = request.fields.some(field => field.signerId === signer.id && field.type === 'initials');
+  if (needsInitials && !input.initials) {
+    return { success: false, error: 'This document also needs your initials', status: 400 };
+  }
+
+  const now = new Date();
+  const signed: Signer = {
+    ...signer,
+    status: 'signed',
+    signature: input.signature,
+    initials: input.initials,
+    signatureHash: sha256(Buffer.from(input.signature.value)),
+    consentedAt: now.toISOString(),
+    signedAt: now.toISOString(),
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+  };
+  const signers = request.signers.map(candidate => (candidate.id === signer.id ? signed : candidate));
+  const complete = signers.every(candidate => candidate.status === 'signed');
+
+  let original: MatterDocument | null = null;
+  let signedDocument: MatterDocument | null = null;
+  let completion: Partial<typeof signatureRequests.$inferInsert> = {};
+  const hasClientSigner = signers.some(candidate => candidate.role === 'client');
+
+  if (complete) {
+    [original] = await db
+      .select()
+      .from(matterDocuments)
+      .where(eq(matterDocuments.id, request.documentId))
+      .limit(1);
+
+    const bytes = await readDocumentBytes(original);
+    if (sha256(bytes) !== request.documentHash) {
+      return {
+        success: false,
+        error: 'The document has changed since it was sent for signature; ask your lawyer to send it again',
+        status: 409,
+      };
+    }
+
+    const [sender] = request.sentBy
+      ? await db.select({ name: user.name }).from(user).where(eq(user.id, request.sentBy)).limit(1)
+      : [];
+
+    const stamped = await stampSignedPDF(bytes, { ...request, signers }, {
+      fileName: original.fileName,
+      senderName: sender?.name,
+      completedAt: now,
+    });
+
+    const fileName = original.fileName.replace(/(\.pdf)?$/i, '_signed.pdf');
+    const storageResult = await documentStorage.uploadDocument(stamped, {
+      filename: fileName,
+      contentType: 'application/pdf',
+      documentType: 'supporting_document',
+      uploadedBy: userId,
+      willId: original.willId || undefined,
+      tags: { signatureRequestId: request.id, category: 'signed_document' },
+    });
+
+    if (!storageResult.success || !storageResult.url) {
+      throw new Error(storageResult.error || 'Failed to store the signed document');
+    }
+
+    [signedDocument] = await db.insert(matterDocuments).values({
+      matterId: original.matterId,
+      willId: original.willId,
+      documentType: original.documentType,
+      fileName,
+      fileUrl: storageResult.url,
+      fileSize: stamped.length,
+      mimeType: 'application/pdf',
+      version: (original.version || 1) + 1,
+      parentDocumentId: original.id,
+      generatedBy: 'system',
+      status: request.purpose === 'draft_approval' ? 'approved' : original.status,
+      clientVisible: original.clientVisible,
+      clientDownloadable: original.clientDownloadable || hasClientSigner,
+      requiresClientSignature: original.requiresClientSignature,
+      clientSignedAt: hasClientSigner ? now : null,
+      accessLevel: original.accessLevel,
+    }).returning();
+
+    completion = {
+      status: 'completed',
+      completedAt: now,
+      signedDocumentId: signedDocument.id,
+      signedDocumentHash: sha256(stamped),
+    };
+  }
+
+  // Only saves over the signers this attempt read
+  const [updated] = await db
+    .update(signatureRequests)
+    .set({ signers, ...completion, updatedAt: now })
+    .where(and(
+      eq(signatureRequests.id, request.id),
+      eq(signatureRequests.status, 'pending'),
+      sql`${signatureRequests.signers}::jsonb = ${JSON.stringify(request.signers)}::jsonb`
+    ))
+    .returning();
+
+  if (!updated) {
+    if (signedDocument) {
+      await db.delete(matterDocuments).where(eq(matterDocuments.id, signedDocument.id));
+    }
+    return null;
+  }
+
+  if (original && signedDocument) {
+    await db
+      .update(matterDocuments)
+      .set({ isLatestVersion: false, clientSignedAt: hasClientSigner ? now : original.clientSignedAt, updatedAt: now })
+      .where(eq(matterDocuments.id, original.id));
+  }
+
+  await db.insert(matterTimeline).values({
+    matterId: request.matterId,
+    userId,
+    eventType: 'signature',
+    title: complete ? 'Document signed by all parties' : `${signer.name} signed`,
+    description: complete ? signedDocument?.fileName : undefined,
+    metadata: { signatureRequestId: request.id, documentId: signedDocument?.id || request.documentId },
+    clientVisible: hasClientSigner,
+  });
+
+  return { success: true, data: { request: updated, signedDocument } };
+}
+
+// Refuse to sign; the request closes and the lawyer can send a revised document
+export async function declineSignature(
+  requestId: string,
+  userId: string,
+  reason: string
+): Promise<SignatureResult<SignatureRequest>> {
+  const [request] = await db
+    .select()
+    .from(signatureRequests)
+    .where(eq(signatureRequests.id, requestId))
+    .limit(1);
+
+  const signer = request?.signers.find(candidate => candidate.userId === userId);
+  if (!request || !signer) {
+    return { success: false, error: 'Signature request not found', status: 404 };
+  }
+
+  const checked = await checkSignable(request, signer);
+  if (!checked.success) return checked;
+
+  const now = new Date();
+  const signers = request.signers.map(candidate => (candidate.id === signer.id
+    ? { ...candidate, status: 'declined' as const, declinedAt: now.toISOString(), declineReason: reason }
+    : candidate));
+
+  const [updated] = await db
+    .update(signatureRequests)
+    .set({ signers, status: 'declined', updatedAt: now })
+    .where(and(eq(signatureRequests.id, request.id), eq(signatureRequests.status, 'pending')))
+    .returning();
+
+  if (!updated) {
+    return { success: false, error: 'The request was completed or changed in the meantime', status: 409 };
+  }
+
+  await db
+    .update(matterDocuments)
+    .set({ requiresClientSignature: false, updatedAt: now })
+    .where(eq(matterDocuments.id, request.documentId));
+
+  await db.insert(matterTimeline).values({
+    matterId: request.matterId,
+    userId,
+    eventType: 'signature',
+    title: `${signer.name} declined to sign`,
+    description: reason,
+    metadata: { signatureRequestId: request.id, documentId: request.documentId },
+    clientVisible: request.signers.some(candidate => candidate.role === 'client'),
+  });
+
+  return { success: true, data: updated };
+}
+
+// Signature images, IPs and devices stay with the firm; signers see who has signed and when
+export function toSignerView(request: SignatureRequest, userId: string) {
+  const signer = request.signers.find(candidate => candidate.userId === userId);
+
+  return {
+    id: request.id,
+    matterId: request.matterId,
+    purpose: request.purpose,
+    status: request.status,
+    message: request.message,
+    expiresAt: request.expiresAt,
+    sentAt: request.sentAt,
+    completedAt: request.completedAt,
+    signerId: signer?.id,
+    signerStatus: signer?.status,
+    signers: request.signers.map(candidate => ({
+      id: candidate.id,
+      name: candidate.name,
+      role: candidate.role,
+      status: candidate.status,
+      signedAt: candidate.signedAt,
+    })),
+    fields: request.fields.filter(field => field.signerId === signer?.id),
+  };
+}
+
+// Drop the signature images from lists; they are only needed on the stamped PDF
+export function toRequestSummary(request: SignatureRequest) {
+  return {
+    ...request,
+    signers: request.signers.map(signer => ({
+      ...signer,
+      signature: signer.signature ? { type: signer.signature.type } : undefined,
+      initials: signer.initials ? { type: signer.initials.type } : undefined,
+    })),
+  };
+}
+
+// A request can be signed while it is open and this signer has not acted yet
+async function checkSignable(
+  request: SignatureRequest,
+  signer: Signer
+): Promise<SignatureResult<null>> {
+  if (request.status === 'pending' && request.expiresAt.getTime() <= Date.now()) {
+    await db
+      .update(signatureRequests)
+      .set({ status: 'expired', updatedAt: new Date() })
+      .where(and(eq(signatureRequests.id, request.id), eq(signatureRequests.status, 'pending')));
+    return { success: false, error: 'This signature request has expired', status: 410 };
+  }
+
+  if (request.status !== 'pending') {
+    return { success: false, error: `This signature request is ${request.status}`, status: 409 };
+  }
+
+  if (signer.status !== 'pending') {
+    return { success: false, error: `You have already ${signer.status} this document`, status: 409 };
+  }
+
+  return { success: true, data: null };
+}
+
+// Report overdue requests as expired before the next signing attempt records it
+function withExpiry(request: SignatureRequest): SignatureRequest {
+  return request.status === 'pending' && request.expiresAt.getTime() <= Date.now()
+    ? { ...request, status: 'expired' }
+    : request;
+}
+
+// Draw every signer's marks at their fields and append the signature certificate
+async function stampSignedPDF(
+  original: Buffer,
+  request: SignatureRequest,
+  details: { fileName: string; senderName?: string; completedAt: Date }
+): Promise<Buffer> {
+  const pdf = await PDFDocument.load(original);
+  const pages = pdf.getPages();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const script = await pdf.embedFont(StandardFonts.TimesRomanItalic);
+  const mono = await pdf.embedFont(StandardFonts.Courier);
+
+  for (const field of request.fields) {
+    const signer = request.signers.find(candidate => candidate.id === field.signerId);
+    const page = pages[field.page - 1];
+    if (!signer || !page) continue;
+
+    const { width: pageWidth, height: pageHeight } = page.getSize();
+    const box = {
+      x: field.x * pageWidth,
+      y: pageHeight - (field.y + field.height) * pageHeight,
+      width: field.width * pageWidth,
+      height: field.height * pageHeight,
+    };
+
+    switch (field.type) {
+      case 'signature':
+      case 'initials': {
+        const mark = field.type === 'signature' ? signer.signature : signer.initials;
+        if (!mark) break;
+
+        if (mark.type === 'drawn') {
+          const image = await pdf.embedPng(Buffer.from(mark.value.split(',')[1], 'base64'));
+          const size = image.scaleToFit(box.width, box.height);
+          page.drawImage(image, {
+            x: box.x + (box.width - size.width) / 2,
+            y: box.y + (box.height - size.height) / 2,
+            width: size.width,
+            height: size.height,
+          });
+        } else {
+          drawFittedText(page, mark.value, box, script);
+        }
+        break;
+      }
+      case 'date':
+        drawFittedText(page, formatSignedDate(signer.signedAt), box, font);
+        break;
+      case 'name':
+        drawFittedText(page, toLatin(signer.name), box, font);
+        break;
+    }
+  }
+
+  addCertificatePage(pdf, request, details, font, mono);
+
+  pdf.setModificationDate(details.completedAt);
+  return Buffer.from(await pdf.save());
+}
+
+// Closing page recording who signed, from where and when, and the hash of the document they were sent
+function addCertificatePage(
+  pdf: PDFDocument,
+  request: SignatureRequest,
+  details: { fileName: string; senderName?: string; completedAt: Date },
+  font: PDFFont,
+  mono: PDFFont
+) {
+  const page = pdf.addPage(CERTIFICATE_PAGE_SIZE);
+  const margin = 50;
+  let y = CERTIFICATE_PAGE_SIZE[1] - margin;
+
+  const line = (text: string, options: { size?: number; indent?: number; monospace?: boolean } = {}) => {
+    const size = options.size || 10;
+    page.drawText(toLatin(text), {
+      x: margin + (options.indent || 0),
+      y,
+      size,
+      font: options.monospace ? mono : font,
+      color: rgb(0, 0, 0),
+    });
+    y -= size + 6;
+  };
+
+  line('SIGNATURE CERTIFICATE', { size: 16 });
+  y -= 6;
+  line(`Document: ${details.fileName}`);
+  line(`Purpose: ${PURPOSE_LABELS[request.purpose as SignaturePurpose] || request.purpose}`);
+  line(`Request reference: ${request.id}`);
+  line(`Sent: ${formatTimestamp(request.sentAt)}${details.senderName ? ` by ${details.senderName}` : ''}`);
+  line(`Completed: ${formatTimestamp(details.completedAt)}`);
+  line('SHA-256 of the document as sent:');
+  line(request.documentHash, { size: 8, indent: 12, monospace: true });
+  y -= 10;
+
+  request.signers.forEach((signer, index) => {
+    line(`${index + 1}. ${signer.name} <${signer.email}> (${signer.role === 'client' ? 'Client' : 'Law firm'})`, { size: 11 });
+    line(`Signed: ${signer.signedAt ? formatTimestamp(new Date(signer.signedAt)) : 'not signed'}`, { indent: 12 });
+    line(`Consent to sign electronically: ${signer.consentedAt ? formatTimestamp(new Date(signer.consentedAt)) : 'not given'}`, { indent: 12 });
+    line(`Method: ${signer.signature?.type === 'drawn' ? 'Drawn signature' : 'Typed signature'}`, { indent: 12 });
+    line(`IP address: ${signer.ipAddress || 'unknown'}`, { indent: 12 });
+    line(`Device: ${truncate(signer.userAgent || 'unknown', 90)}`, { indent: 12 });
+    line('SHA-256 of signature:', { indent: 12 });
+    line(signer.signatureHash || '', { size: 8, indent: 24, monospace: true });
+    y -= 8;
+  });
+
+  y -= 10;
+  line('The SHA-256 of this signed file is kept with the signature request; a copy that does not match it', { size: 8 });
+  line('has been altered since signing. Times are in UTC.', { size: 8 });
+}
+
+// Write text on one line, shrinking it until it fits the field
+function drawFittedText(page: PDFPage, text: string, box: { x: number; y: number; width: number; height: number }, font: PDFFont) {
+  let size = Math.min(box.height * 0.7, 24);
+  while (size > 6 && font.widthOfTextAtSize(text, size) > box.width) {
+    size -= 0.5;
+  }
+
+  page.drawText(text, {
+    x: box.x,
+    y: box.y + (box.height - size) / 2,
+    size,
+    font,
+    color: rgb(0, 0, 0.4),
+  });
+}
+
+// Replace characters the standard PDF fonts cannot draw
+function toLatin(text: string): string {
+  return [...text].map(character => (LATIN_TEXT.test(character) ? character : '?')).join('');
+}
+
+function formatSignedDate(signedAt: string | undefined): string {
+  return (signedAt ? new Date(signedAt) : new Date())
+    .toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Asia/Dubai' });
+}
+
+function formatTimestamp(value: Date): string {
+  return `${value.toISOString().replace('T', ' ').slice(0, 19)} UTC`;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+function isPdf(document: MatterDocument): boolean {
+  return document.mimeType === 'application/pdf' || /\.pdf$/i.test(document.fileName);
+}
+
+function sha256(data: Buffer | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
@@ -0,0 +1,444 @@
+/**
+ * Forced Heirship Calculator for Mirath Legal
+ * Computes fixed Sharia shares under UAE Federal personal status law and
+ * compares them with the distribution set out in a DIFC will
+ */
+
+import type { Beneficiary, PersonalInfo } from "./will-engine";
+
+// Types for heirship calculation
+export type HeirClass =
+  | 'husband'
+  | 'wife'
+  | 'son'
+  | 'daughter'
+  | 'father'
+  | 'mother'
+  | 'brother'
+  | 'sister';
+
+export type ShareBasis =
+  | 'fixed'
+  | 'residuary'
+  | 'fixed_and_residuary'
+  | 'radd'
+  | 'bequest'
+  | 'excluded'
+  | 'none';
+
+export interface HeirshipInput {
+  maritalStatus: PersonalInfo['maritalStatus'];
+  nationality?: string;
+  // Needed to read a neutral "spouse" relationship; inferred from "wife"/"husband" when omitted
+  testatorGender?: 'male' | 'female';
+  beneficiaries: Array<Pick<Beneficiary, 'id' | 'fullName' | 'relationship' | 'type'> & {
+    inheritancePercentage?: number;
+  }>;
+  // Relatives who inherit by law but are not named as beneficiaries (e.g. a spouse left out of the will)
+  additionalHeirs?: Array<{ fullName: string; relationship: string }>;
+}
+
+export interface HeirShare {
+  beneficiaryId?: string;
+  fullName: string;
+  relationship: string;
+  heirClass: HeirClass | 'non_heir' | 'unresolved';
+  basis: ShareBasis;
+  fraction: string;
+  shariaPercentage: number;
+  willPercentage: number;
+  difference: number;
+}
+
+export interface HeirshipComparison {
+  applicableLaw: string;
+  shares: HeirShare[];
+  totals: {
+    willPercentage: number;
+    shariaPercentage: number;
+  };
+  adjustments: {
+    awl: boolean;
+    radd: boolean;
+    bequestPercentage: number;
+  };
+  notes: string[];
+  warnings: string[];
+}
+
+// Simple exact fraction arithmetic so shares like 1/6 + 1/8 stay exact
+interface Fraction {
+  n: number;
+  d: number;
+}
+
+const ZERO: Fraction = { n: 0, d: 1 };
+const ONE: Fraction = { n: 1, d: 1 };
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? Math.abs(a) : gcd(b, a % b);
+}
+
+function frac(n: number, d: number = 1): Fraction {
+  if (n === 0) return ZERO;
+  const divisor = gcd(n, d);
+  return { n: n / divisor, d: d / divisor };
+}
+
+function add(a: Fraction, b: Fraction): Fraction {
+  return frac(a.n * b.d + b.n * a.d, a.d * b.d);
+}
+
+function sub(a: Fraction, b: Fraction): Fraction {
+  return frac(a.n * b.d - b.n * a.d, a.d * b.d);
+}
+
+function mul(a: Fraction, b: Fraction): Fraction {
+  return frac(a.n * b.n, a.d * b.d);
+}
+
+function div(a: Fraction, b: Fraction): Fraction {
+  return frac(a.n * b.d, a.d * b.n);
+}
+
+function toNumber(value: Fraction): number {
+  return value.n / value.d;
+}
+
+function formatFraction(value: Fraction): string {
+  if (value.n === 0) return '0';
+  if (value.d === 1) return String(value.n);
+  return `${value.n}/${value.d}`;
+}
+
+// The one-third cap on bequests to non-heirs (wasiyyah)
+const MAX_BEQUEST = frac(1, 3);
+
+// Map free-text relationships to heir classes
+const RELATIONSHIP_ALIASES: Record<string, HeirClass | 'spouse' | 'child' | 'parent' | 'sibling'> = {
+  husband: 'husband',
+  wife: 'wife',
+  spouse: 'spouse',
+  son: 'son',
+  daughter: 'daughter',
+  child: 'child',
+  father: 'father',
+  mother: 'mother',
+  parent: 'parent',
+  brother: 'brother',
+  sister: 'sister',
+  sibling: 'sibling',
+};
+
+interface ClassifiedPerson {
+  beneficiaryId?: string;
+  fullName: string;
+  relationship: string;
+  willPercentage: number;
+  heirClass: HeirClass | 'non_heir' | 'unresolved';
+}
+
+// Calculate Sharia shares and compare them with the will's distribution
+export function calculateForcedHeirship(input: HeirshipInput): HeirshipComparison {
+  const notes: string[] = [];
+  const warnings: string[] = [];
+
+  const testatorGender = input.testatorGender || inferTestatorGender(input);
+
+  const people: ClassifiedPerson[] = [
+    ...input.beneficiaries.map(beneficiary => ({
+      beneficiaryId: beneficiary.id,
+      fullName: beneficiary.fullName,
+      relationship: beneficiary.relationship,
+      willPercentage: beneficiary.inheritancePercentage || 0,
+      heirClass: classifyRelationship(beneficiary.relationship, beneficiary.type, input.maritalStatus, testatorGender, warnings, beneficiary.fullName),
+    })),
+    ...(input.additionalHeirs || []).map(heir => ({
+      fullName: heir.fullName,
+      relationship: heir.relationship,
+      willPercentage: 0,
+      heirClass: classifyRelationship(heir.relationship, 'individual', input.maritalStatus, testatorGender, warnings, heir.fullName),
+    })),
+  ];
+
+  // Only one father, mother and husband can exist; later duplicates are treated as non-heirs
+  for (const single of ['father', 'mother', 'husband'] as const) {
+    const matches = people.filter(person => person.heirClass === single);
+    if (matches.length > 1) {
+      warnings.push(`More than one ${single} listed; only ${matches[0].fullName} is treated as an heir`);
+      matches.slice(1).forEach(person => { person.heirClass = 'non_heir'; });
+    }
+  }
+
+  const wives = people.filter(person => person.heirClass === 'wife');
+  if (wives.length > 4) {
+    warnings.push('More than four wives listed; shares are divided among all listed wives');
+  }
+
+  const { groups: groupShares, awl, radd } = calculateGroupShares(people, notes);
+
+  // Bequests to non-heirs are honoured up to one third of the estate
+  const nonHeirs = people.filter(person => person.heirClass === 'non_heir' || person.heirClass === 'unresolved');
+  const requestedBequest = frac(Math.round(nonHeirs.reduce((sum, person) => sum + person.willPercentage, 0) * 100), 10000);
+  const bequest = toNumber(requestedBequest) > toNumber(MAX_BEQUEST) ? MAX_BEQUEST : requestedBequest;
+
+  if (toNumber(requestedBequest) > toNumber(MAX_BEQUEST)) {
+    notes.push('Bequests to non-heirs exceed one third of the estate and are reduced proportionally to one third');
+  }
+
+  const heirPortion = sub(ONE, bequest);
+  const shares: HeirShare[] = people.map(person => {
+    let share = ZERO;
+    let basis: ShareBasis = 'none';
+
+    if (person.heirClass === 'non_heir' || person.heirClass === 'unresolved') {
+      if (person.willPercentage > 0 && requestedBequest.n > 0) {
+        share = mul(bequest, div(frac(Math.round(person.willPercentage * 100), 10000), requestedBequest));
+        basis = 'bequest';
+      }
+    } else {
+      const group = groupShares.get(person.heirClass);
+      if (group && group.share.n > 0) {
+        share = mul(heirPortion, mul(group.share, frac(weightFor(person.heirClass), group.totalWeight)));
+        basis = group.basis;
+      } else {
+        basis = 'excluded';
+      }
+    }
+
+    const shariaPercentage = roundPercentage(toNumber(share) * 100);
+    return {
+      beneficiaryId: person.beneficiaryId,
+      fullName: person.fullName,
+      relationship: person.relationship,
+      heirClass: person.heirClass,
+      basis,
+      fraction: formatFraction(share),
+      shariaPercentage,
+      willPercentage: person.willPercentage,
+      difference: roundPercentage(person.willPercentage - shariaPercentage),
+    };
+  });
+
+  const noHeirs = ![...groupShares.values()].some(group => group.share.n > 0);
+  if (noHeirs) {
+    notes.push('No Quranic heirs or residuaries were identified among the listed people; the remainder would pass to the public treasury');
+  }
+
+  return {
+    applicableLaw: describeApplicableLaw(input.nationality),
+    shares,
+    totals: {
+      willPercentage: roundPercentage(shares.reduce((sum, share) => sum + share.willPercentage, 0)),
+      shariaPercentage: roundPercentage(shares.reduce((sum, share) => sum + share.shariaPercentage, 0)),
+    },
+    adjustments: {
+      awl,
+      radd,
+      bequestPercentage: roundPercentage(toNumber(bequest) * 100),
+    },
+    notes,
+    warnings,
+  };
+}
+
+interface GroupShare {
+  share: Fraction;
+  basis: ShareBasis;
+  totalWeight: number;
+}
+
+// Work out the share of each heir class as a whole, then split within the class by weight
+function calculateGroupShares(
+  people: ClassifiedPerson[],
+  notes: string[]
+): { groups: Map<HeirClass, GroupShare>; awl: boolean; radd: boolean } {
+  const count = (heirClass: HeirClass) => people.filter(person => person.heirClass === heirClass).length;
+
+  const husband = count('husband');
+  const wives = count('wife');
+  const sons = count('son');
+  const daughters = count('daughter');
+  const father = count('father');
+  const mother = count('mother');
+  let brothers = count('brother');
+  let sisters = count('sister');
+
+  const hasChildren = sons + daughters > 0;
+  const siblingCount = brothers + sisters;
+
+  // Siblings are excluded by a son or the father
+  if ((sons > 0 || father > 0) && siblingCount > 0) {
+    notes.push('Siblings are excluded by the presence of a son or the father');
+    brothers = 0;
+    sisters = 0;
+  }
+
+  const fixed = new Map<HeirClass, Fraction>();
+  const residuary: HeirClass[] = [];
+
+  if (husband) fixed.set('husband', hasChildren ? frac(1, 4) : frac(1, 2));
+  if (wives) fixed.set('wife', hasChildren ? frac(1, 8) : frac(1, 4));
+
+  if (mother) {
+    fixed.set('mother', hasChildren || siblingCount >= 2 ? frac(1, 6) : frac(1, 3));
+  }
+
+  if (father) {
+    if (hasChildren) fixed.set('father', frac(1, 6));
+    if (sons === 0) residuary.push('father');
+  }
+
+  if (sons > 0) {
+    residuary.push('son');
+    if (daughters > 0) residuary.push('daughter');
+  } else if (daughters > 0) {
+    fixed.set('daughter', daughters === 1 ? frac(1, 2) : frac(2, 3));
+  }
+
+  if (!father && sons === 0) {
+    if (brothers > 0) {
+      residuary.push('brother');
+      if (sisters > 0) residuary.push('sister');
+    } else if (sisters > 0) {
+      if (daughters > 0) {
+        // Full sisters take the residue alongside daughters
+        residuary.push('sister');
+      } else {
+        fixed.set('sister', sisters === 1 ? frac(1, 2) : frac(2, 3));
+      }
+    }
+  }
+
+  // Umariyyatain: spouse with both parents and no children or siblings, mother takes a third of the remainder
+  const spouseShare = fixed.get('husband') || fixed.get('wife');
+  if (spouseShare && father && mother && !hasChildren && siblingCount < 2) {
+    fixed.set('mother', mul(frac(1, 3), sub(ONE, spouseShare)));
+    notes.push('Umariyyatain applied: the mother receives one third of the remainder after the spouse');
+  }
+
+  let fixedTotal = [...fixed.values()].reduce(add, ZERO);
+  let awl = false;
+  let radd = false;
+
+  // 'Awl: fixed shares exceed the estate, so every share is reduced proportionally
+  if (toNumber(fixedTotal) > 1) {
+    notes.push(`Awl applied: fixed shares total ${formatFraction(fixedTotal)} and are reduced proportionally`);
+    for (const [heirClass, share] of fixed) {
+      fixed.set(heirClass, div(share, fixedTotal));
+    }
+    fixedTotal = ONE;
+    awl = true;
+  }
+
+  const remainder = sub(ONE, fixedTotal);
+  const groups = new Map<HeirClass, GroupShare>();
+
+  for (const [heirClass, share] of fixed) {
+    groups.set(heirClass, {
+      share,
+      basis: 'fixed',
+      totalWeight: count(heirClass) * weightFor(heirClass),
+    });
+  }
+
+  if (residuary.length > 0) {
+    const residuaryWeight = residuary.reduce((sum, heirClass) => sum + count(heirClass) * weightFor(heirClass), 0);
+
+    for (const heirClass of residuary) {
+      const classWeight = count(heirClass) * weightFor(heirClass);
+      const residue = mul(remainder, frac(classWeight, residuaryWeight));
+      const existing = groups.get(heirClass);
+
+      groups.set(heirClass, {
+        share: existing ? add(existing.share, residue) : residue,
+        basis: existing ? 'fixed_and_residuary' : 'residuary',
+        totalWeight: classWeight,
+      });
+    }
+  } else if (remainder.n > 0 && groups.size > 0) {
+    // Radd: the surplus returns to the fixed heirs other than the spouse
+    const raddClasses = [...groups.keys()].filter(heirClass => heirClass !== 'husband' && heirClass !== 'wife');
+    const recipients = raddClasses.length > 0 ? raddClasses : [...groups.keys()];
+    const recipientTotal = recipients.reduce((sum, heirClass) => add(sum, groups.get(heirClass)!.share), ZERO);
+
+    for (const heirClass of recipients) {
+      const group = groups.get(heirClass)!;
+      group.share = add(group.share, mul(remainder, div(group.share, recipientTotal)));
+      group.basis = 'radd';
+    }
+    radd = true;
+
+    notes.push(raddClasses.length > 0
+      ? `Radd applied: the surplus of ${formatFraction(remainder)} returns to the heirs other than the spouse`
+      : `Radd applied: the spouse is the only heir and receives the surplus of ${formatFraction(remainder)}`);
+  }
+
+  return { groups, awl, radd };
+}
+
+// Male residuaries take twice the share of females of the same class
+function weightFor(heirClass: HeirClass): number {
+  return heirClass === 'son' || heirClass === 'brother' ? 2 : 1;
+}
+
+function classifyRelationship(
+  relationship: string,
+  type: Beneficiary['type'],
+  maritalStatus: PersonalInfo['maritalStatus'],
+  testatorGender: 'male' | 'female' | undefined,
+  warnings: string[],
+  fullName: string
+): ClassifiedPerson['heirClass'] {
+  if (type && type !== 'individual') return 'non_heir';
+
+  const alias = RELATIONSHIP_ALIASES[relationship.trim().toLowerCase()];
+  if (!alias) return 'non_heir';
+
+  switch (alias) {
+    case 'spouse':
+    case 'husband':
+    case 'wife': {
+      if (maritalStatus !== 'married') {
+        warnings.push(`${fullName} is listed as a spouse but the testator is ${maritalStatus}; treated as a non-heir`);
+        return 'non_heir';
+      }
+      if (alias !== 'spouse') return alias;
+      if (!testatorGender) {
+        warnings.push(`Testator gender is needed to calculate the spouse share for ${fullName}`);
+        return 'unresolved';
+      }
+      return testatorGender === 'male' ? 'wife' : 'husband';
+    }
+    case 'child':
+    case 'parent':
+    case 'sibling':
+      warnings.push(`Relationship "${relationship}" for ${fullName} does not state gender; select son/daughter, father/mother or brother/sister`);
+      return 'unresolved';
+    default:
+      return alias;
+  }
+}
+
+function inferTestatorGender(input: HeirshipInput): 'male' | 'female' | undefined {
+  const relationships = [
+    ...input.beneficiaries.map(beneficiary => beneficiary.relationship),
+    ...(input.additionalHeirs || []).map(heir => heir.relationship),
+  ].map(relationship => relationship.trim().toLowerCase());
+
+  if (relationships.includes('wife')) return 'male';
+  if (relationships.includes('husband')) return 'female';
+  return undefined;
+}
+
+function describeApplicableLaw(nationality?: string): string {
+  const normalized = (nationality || '').trim().toLowerCase();
+  if (['uae', 'emirati', 'united arab emirates'].includes(normalized)) {
+    return 'UAE Federal Law No. 28 of 2005 on Personal Status (Sharia distribution applies to UAE nationals)';
+  }
+  return 'UAE Federal Law No. 28 of 2005 on Personal Status (Sharia distribution, as applied by onshore courts where no registered will exists)';
+}
+
+function roundPercentage(value: number): number {
+  return Math.round(value * 100) / 100;
+}
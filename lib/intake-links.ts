@@ -0,0 +1,498 @@
+/**
+ * Client Intake Links for Mirath Legal
+ * Tokenised, expiring questionnaire links a client can complete without an account; submitted answers fill the
+ * matter's intake data so lawyers no longer retype them from emails
+ */
+
+import { db } from "@/db/drizzle";
+import { intakeLinks, lawFirms, matterDocuments, matters, matterTimeline, user } from "@/db/schema";
+import { and, desc, eq, inArray, lte, ne, sql } from "drizzle-orm";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { z } from "zod";
+import { getTransitionRole } from "./matter-workflow";
+import { documentStorage } from "./document-storage";
+import { MATTER_STATUS_DEFINITIONS, isMatterStatus, type TransitionRole } from "./matter-status";
+
+export const INTAKE_LINK_STATUSES = ['open', 'submitted', 'revoked', 'expired'] as const;
+export const INTAKE_STEPS = ['personal_info', 'assets', 'beneficiaries', 'existing_wills', 'special_circumstances', 'documents', 'review'] as const;
+export const INTAKE_DOCUMENT_TYPES = ['passport_copy', 'emirates_id_copy'] as const;
+export const INTAKE_UPLOAD_CONTENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+export const INTAKE_UPLOAD_MAX_BYTES = 10 * 1024 * 1024;
+
+export type IntakeLinkStatus = typeof INTAKE_LINK_STATUSES[number];
+export type IntakeStep = typeof INTAKE_STEPS[number];
+export type IntakeDocumentType = typeof INTAKE_DOCUMENT_TYPES[number];
+export type IntakeLink = typeof intakeLinks.$inferSelect;
+type MatterRecord = typeof matters.$inferSelect;
+
+type IntakeResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+const LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer', 'lawyer'];
+const MAX_INTAKE_DOCUMENTS = 6;
+
+// Validation schemas for the questionnaire; each section mirrors matters.intakeData
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const contactInfoSchema = z.object({
+  email: z.string().trim().email().max(200),
+  phone: z.string().trim().min(1).max(40),
+  address: z.string().trim().max(500).optional(),
+});
+
+const personalInfoSchema = z.object({
+  fullName: z.string().trim().min(1).max(200),
+  emiratesId: z.string().trim().regex(/^784-?\d{4}-?\d{7}-?\d$/, 'Emirates ID must be in the format 784-XXXX-XXXXXXX-X'),
+  visaStatus: z.enum(['residence', 'investor', 'golden', 'employment', 'other']),
+  nationality: z.string().trim().min(1).max(100),
+  maritalStatus: z.enum(['single', 'married', 'divorced', 'widowed']),
+  contactInfo: contactInfoSchema,
+});
+
+const assetSchema = z.object({
+  type: z.enum(['property', 'bank_account', 'investment', 'business', 'digital']),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(2000).optional(),
+  estimatedValue: z.number().nonnegative().optional(),
+  currency: z.string().trim().length(3).default('AED'),
+  jurisdiction: z.string().trim().max(100).optional(),
+});
+
+const beneficiarySchema = z.object({
+  type: z.enum(['individual', 'charity', 'organization']).default('individual'),
+  fullName: z.string().trim().min(1).max(200),
+  relationship: z.string().trim().min(1).max(100),
+  dateOfBirth: isoDate.optional(),
+  nationality: z.string().trim().max(100).optional(),
+  inheritancePercentage: z.number().min(0).max(100).optional(),
+});
+
+const existingWillSchema = z.object({
+  jurisdiction: z.string().trim().min(1).max(100),
+  dateExecuted: isoDate.optional(),
+  registeredWith: z.string().trim().max(200).optional(),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+const specialCircumstancesSchema = z.array(z.string().trim().min(1).max(1000)).max(20);
+
+// Everything required before the questionnaire can be submitted
+export const intakeAnswersSchema = z.object({
+  personalInfo: personalInfoSchema,
+  assets: z.array(assetSchema).max(100).default([]),
+  beneficiaries: z.array(beneficiarySchema).max(50).default([]),
+  existingWills: z.array(existingWillSchema).max(20).default([]),
+  specialCircumstances: specialCircumstancesSchema.default([]),
+});
+
+// Drafts may be incomplete, so only types and lengths are checked when saving
+const draftAnswersSchema = z.object({
+  personalInfo: z.object({
+    fullName: z.string().max(200),
+    emiratesId: z.string().max(30),
+    visaStatus: personalInfoSchema.shape.visaStatus,
+    nationality: z.string().max(100),
+    maritalStatus: personalInfoSchema.shape.maritalStatus,
+    contactInfo: z.object({
+      email: z.string().max(200),
+      phone: z.string().max(40),
+      address: z.string().max(500),
+    }).partial(),
+  }).partial(),
+  assets: z.array(assetSchema.partial()).max(100),
+  beneficiaries: z.array(beneficiarySchema.partial()).max(50),
+  existingWills: z.array(existingWillSchema.partial()).max(20),
+  specialCircumstances: z.array(z.string().max(1000)).max(20),
+}).partial();
+
+export const createIntakeLinkSchema = z.object({
+  recipientEmail: z.string().trim().email().optional(), // Defaults to the client's account email
+  message: z.string().trim().max(2000).optional(),
+  expiresInDays: z.number().int().min(1).max(30).default(7),
+});
+
+export const updateIntakeLinkSchema = z.object({
+  status: z.literal('revoked'),
+});
+
+export const saveIntakeProgressSchema = z.object({
+  answers: draftAnswersSchema,
+  currentStep: z.enum(INTAKE_STEPS).optional(),
+});
+
+export const submitIntakeSchema = z.object({
+  answers: draftAnswersSchema.optional(), // Last changes made on the review step
+});
+
+export type CreateIntakeLinkInput = z.infer<typeof createIntakeLinkSchema>;
+export type SaveIntakeProgressInput = z.infer<typeof saveIntakeProgressSchema>;
+export type SubmitIntakeInput = z.infer<typeof submitIntakeSchema>;
+
+// Get the intake links sent for a matter, newest first
+export async function getMatterIntakeLinks(matterId: string): Promise<IntakeLink[]> {
+  const links = await db
+    .select()
+    .from(intakeLinks)
+    .where(eq(intakeLinks.matterId, matterId))
+    .orderBy(desc(intakeLinks.createdAt));
+
+  return links.map(withExpiry);
+}
+
+// Get one of a matter's intake links
+export async function getMatterIntakeLink(matterId: string, linkId: string): Promise<IntakeLink | null> {
+  const [link] = await db
+    .select()
+    .from(intakeLinks)
+    .where(and(eq(intakeLinks.id, linkId), eq(intakeLinks.matterId, matterId)))
+    .limit(1);
+
+  return link ? withExpiry(link) : null;
+}
+
+// Resolve the token from a questionnaire URL to its link, matter, firm and client
+export async function getIntakeLinkByToken(token: string) {
+  const [row] = await db
+    .select({
+      link: intakeLinks,
+      matter: matters,
+      firmName: lawFirms.name,
+      clientName: user.name,
+    })
+    .from(intakeLinks)
+    .innerJoin(matters, eq(intakeLinks.matterId, matters.id))
+    .innerJoin(lawFirms, eq(matters.lawFirmId, lawFirms.id))
+    .innerJoin(user, eq(matters.clientId, user.id))
+    .where(eq(intakeLinks.tokenHash, hashIntakeToken(token)))
+    .limit(1);
+
+  return row ? { ...row, link: withExpiry(row.link) } : null;
+}
+
+// Issue a new questionnaire link for the matter's client; any link still open is revoked
+export async function createIntakeLink(
+  matter: MatterRecord,
+  userId: string,
+  input: CreateIntakeLinkInput
+): Promise<IntakeResult<{ link: IntakeLink; token: string }>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can send intake questionnaires', status: 403 };
+  }
+
+  if (isMatterStatus(matter.status) && MATTER_STATUS_DEFINITIONS[matter.status].terminal) {
+    return { success: false, error: `Cannot send an intake questionnaire for a ${matter.status} matter`, status: 409 };
+  }
+
+  const [client] = await db
+    .select({ email: user.email })
+    .from(user)
+    .where(eq(user.id, matter.clientId))
+    .limit(1);
+
+  const token = randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  const [link] = await db.insert(intakeLinks).values({
+    matterId: matter.id,
+    tokenHash: hashIntakeToken(token),
+    recipientEmail: input.recipientEmail || client?.email || '',
+    message: input.message,
+    answers: matter.intakeData || {}, // Start from anything the firm has already recorded
+    expiresAt: new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000),
+    createdBy: userId,
+  }).returning();
+
+  // Revoked after the insert so that, if two links are sent at once, the later one stays open
+  await db
+    .update(intakeLinks)
+    .set({ status: 'revoked', revokedAt: now, updatedAt: now })
+    .where(and(
+      eq(intakeLinks.matterId, matter.id),
+      eq(intakeLinks.status, 'open'),
+      ne(intakeLinks.id, link.id),
+      lte(intakeLinks.createdAt, link.createdAt)
+    ));
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'intake',
+    title: 'Intake questionnaire sent',
+    description: `Sent to ${link.recipientEmail}; the link expires on ${link.expiresAt.toISOString().slice(0, 10)}`,
+    metadata: { intakeLinkId: link.id },
+    clientVisible: true,
+  });
+
+  return { success: true, data: { link, token } };
+}
+
+// Withdraw an open link so the questionnaire can no longer be opened
+export async function revokeIntakeLink(
+  link: IntakeLink,
+  matter: MatterRecord,
+  userId: string
+): Promise<IntakeResult<IntakeLink>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can revoke intake questionnaires', status: 403 };
+  }
+
+  const now = new Date();
+  const [revoked] = await db
+    .update(intakeLinks)
+    .set({ status: 'revoked', revokedAt: now, updatedAt: now })
+    .where(and(eq(intakeLinks.id, link.id), eq(intakeLinks.status, 'open')))
+    .returning();
+
+  if (!revoked) {
+    return { success: false, error: `This intake link is already ${link.status}`, status: 409 };
+  }
+
+  return { success: true, data: revoked };
+}
+
+// Save the client's answers so far; sections sent replace the saved ones
+export async function saveIntakeProgress(
+  link: IntakeLink,
+  input: SaveIntakeProgressInput
+): Promise<IntakeResult<IntakeLink>> {
+  const open = await checkOpen(link);
+  if (!open.success) return open;
+
+  const now = new Date();
+  const [saved] = await db
+    .update(intakeLinks)
+    .set({
+      answers: { ...link.answers, ...input.answers },
+      currentStep: input.currentStep ?? link.currentStep,
+      lastSavedAt: now,
+      updatedAt: now,
+    })
+    .where(and(eq(intakeLinks.id, link.id), eq(intakeLinks.status, 'open')))
+    .returning();
+
+  if (!saved) {
+    return { success: false, error: 'This questionnaire can no longer be changed', status: 409 };
+  }
+
+  return { success: true, data: saved };
+}
+
+// Store a copy of the client's passport or Emirates ID against the matter
+export async function uploadIntakeDocument(
+  link: IntakeLink,
+  matter: MatterRecord,
+  documentType: IntakeDocumentType,
+  file: { buffer: Buffer; filename: string; contentType: string }
+): Promise<IntakeResult<{ link: IntakeLink; documentId: string }>> {
+  const open = await checkOpen(link);
+  if (!open.success) return open;
+
+  if (!INTAKE_UPLOAD_CONTENT_TYPES.includes(file.contentType)) {
+    return { success: false, error: 'ID documents must be a PDF, JPEG or PNG file', status: 415 };
+  }
+
+  if (file.buffer.length === 0 || file.buffer.length > INTAKE_UPLOAD_MAX_BYTES) {
+    return { success: false, error: 'ID documents must be smaller than 10 MB', status: 413 };
+  }
+
+  if (link.documentIds.length >= MAX_INTAKE_DOCUMENTS) {
+    return { success: false, error: `No more than ${MAX_INTAKE_DOCUMENTS} documents can be uploaded`, status: 409 };
+  }
+
+  const storageResult = await documentStorage.uploadDocument(file.buffer, {
+    filename: file.filename,
+    contentType: file.contentType,
+    documentType: 'client_upload',
+    uploadedBy: matter.clientId,
+    tags: { intakeLinkId: link.id, category: documentType },
+  });
+
+  if (!storageResult.success || !storageResult.url) {
+    return { success: false, error: storageResult.error || 'Failed to store document', status: 500 };
+  }
+
+  const [document] = await db.insert(matterDocuments).values({
+    matterId: matter.id,
+    documentType,
+    fileName: file.filename,
+    fileUrl: storageResult.url,
+    fileSize: file.buffer.length,
+    mimeType: file.contentType,
+    generatedBy: 'client',
+    status: 'pending_review',
+    accessLevel: 'internal',
+  }).returning({ id: matterDocuments.id });
+
+  // Appended in one statement that also re-checks the link is open and under the limit, so
+  // concurrent uploads cannot exceed it or land after submission
+  const [updated] = await db
+    .update(intakeLinks)
+    .set({
+      documentIds: sql`(${intakeLinks.documentIds}::jsonb || ${JSON.stringify([document.id])}::jsonb)::json`,
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(intakeLinks.id, link.id),
+      eq(intakeLinks.status, 'open'),
+      sql`json_array_length(${intakeLinks.documentIds}) < ${MAX_INTAKE_DOCUMENTS}`
+    ))
+    .returning();
+
+  if (!updated) {
+    await db.delete(matterDocuments).where(eq(matterDocuments.id, document.id));
+    return {
+      success: false,
+      error: `This questionnaire can no longer be changed, or already has ${MAX_INTAKE_DOCUMENTS} documents`,
+      status: 409,
+    };
+  }
+
+  return { success: true, data: { link: updated, documentId: document.id } };
+}
+
+// Validate the full questionnaire, copy it onto the matter's intake data and close the link
+export async function submitIntake(
+  link: IntakeLink,
+  matter: MatterRecord,
+  input: SubmitIntakeInput
+): Promise<IntakeResult<IntakeLink>> {
+  const open = await checkOpen(link);
+  if (!open.success) return open;
+
+  const merged = { ...link.answers, ...input.answers };
+
+  // Throws a ZodError listing what is still missing; blank lines in the free-text list are dropped first
+  const answers = intakeAnswersSchema.parse({
+    ...merged,
+    specialCircumstances: (merged.specialCircumstances || []).map(item => item.trim()).filter(Boolean),
+  });
+
+  if (link.documentIds.length === 0) {
+    return { success: false, error: 'Upload a copy of your passport or Emirates ID before submitting', status: 422 };
+  }
+
+  const intakeData = {
+    ...matter.intakeData,
+    personalInfo: answers.personalInfo,
+    assets: answers.assets.map(asset => ({ id: randomUUID(), ...asset })),
+    beneficiaries: answers.beneficiaries.map(beneficiary => ({ id: randomUUID(), isContingent: false, ...beneficiary })),
+    existingWills: answers.existingWills.map(existingWill => ({ id: randomUUID(), ...existingWill })),
+    specialCircumstances: answers.specialCircumstances,
+  };
+
+  const now = new Date();
+
+  // Closing the link decides the race; only the submission that closed it writes the matter
+  const [submitted] = await db
+    .update(intakeLinks)
+    .set({ status: 'submitted', answers, submittedAt: now, lastSavedAt: now, updatedAt: now })
+    .where(and(eq(intakeLinks.id, link.id), eq(intakeLinks.status, 'open')))
+    .returning();
+
+  if (!submitted) {
+    return { success: false, error: 'This questionnaire has already been submitted', status: 409 };
+  }
+
+  await db
+    .update(matters)
+    .set({ intakeData, updatedAt: now })
+    .where(eq(matters.id, matter.id));
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId: matter.clientId,
+    eventType: 'intake',
+    title: 'Intake questionnaire completed',
+    description: `${answers.personalInfo.fullName} submitted ${answers.assets.length} asset(s), ${answers.beneficiaries.length} beneficiary(ies) and ${submitted.documentIds.length} ID document(s)`,
+    metadata: { intakeLinkId: link.id, documentIds: submitted.documentIds },
+    clientVisible: true,
+  });
+
+  return { success: true, data: submitted };
+}
+
+// What the client sees when opening the link; answers are only shown while the link is open
+export async function toQuestionnaireView(
+  link: IntakeLink,
+  matter: MatterRecord,
+  firmName: string,
+  clientName: string
+) {
+  const documents = link.status === 'open' && link.documentIds.length > 0
+    ? await db
+      .select({
+        id: matterDocuments.id,
+        documentType: matterDocuments.documentType,
+        fileName: matterDocuments.fileName,
+        createdAt: matterDocuments.createdAt,
+      })
+      .from(matterDocuments)
+      .where(inArray(matterDocuments.id, link.documentIds))
+    : [];
+
+  return {
+    status: link.status,
+    firmName,
+    clientName,
+    matterTitle: matter.title,
+    message: link.message,
+    expiresAt: link.expiresAt,
+    submittedAt: link.submittedAt,
+    ...(link.status === 'open' && {
+      answers: link.answers,
+      currentStep: link.currentStep,
+      lastSavedAt: link.lastSavedAt,
+      documents,
+    }),
+  };
+}
+
+// The token hash stays on the server; lawyers see progress rather than the draft answers
+export function toIntakeLinkSummary(link: IntakeLink) {
+  return {
+    id: link.id,
+    matterId: link.matterId,
+    status: link.status,
+    recipientEmail: link.recipientEmail,
+    message: link.message,
+    currentStep: link.currentStep,
+    documentCount: link.documentIds.length,
+    expiresAt: link.expiresAt,
+    lastSavedAt: link.lastSavedAt,
+    submittedAt: link.submittedAt,
+    revokedAt: link.revokedAt,
+    createdBy: link.createdBy,
+    createdAt: link.createdAt,
+  };
+}
+
+// A link accepts changes while it is open and unexpired; an overdue link is recorded as expired
+async function checkOpen(link: IntakeLink): Promise<IntakeResult<null>> {
+  if (link.status === 'expired' || (link.status === 'open' && link.expiresAt.getTime() <= Date.now())) {
+    await db
+      .update(intakeLinks)
+      .set({ status: 'expired', updatedAt: new Date() })
+      .where(and(eq(intakeLinks.id, link.id), eq(intakeLinks.status, 'open')));
+    return { success: false, error: 'This intake link has expired; ask your lawyer for a new one', status: 410 };
+  }
+
+  if (link.status !== 'open') {
+    return { success: false, error: `This intake questionnaire has been ${link.status}`, status: 409 };
+  }
+
+  return { success: true, data: null };
+}
+
+// Report overdue links as expired before the next change records it
+function withExpiry(link: IntakeLink): IntakeLink {
+  return link.status === 'open' && link.expiresAt.getTime() <= Date.now()
+    ? { ...link, status: 'expired' }
+    : link;
+}
+
+function hashIntakeToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -45,6 +45,8 @@ export interface UpdateLawFirmData {
     billing?: {
       defaultHourlyRate?: number;
       currency?: string;
+      vatNumber?: string; // UAE Tax Registration Number shown on invoices
+      paymentTermsDays?: number;
     };
     notifications?: {
       emailNotifications?: boolean;
@@ -0,0 +1,456 @@
+/**
+ * Letters of Wishes for Mirath Legal
+ * Non-binding letters and memoranda that accompany a will, optionally drafted by AI from the will's contents,
+ * rendered to PDF and stored as matter documents the client can be given access to
+ */
+
+import { db } from "@/db/drizzle";
+import { lawFirms, lettersOfWishes, matterDocuments, matters, matterTimeline, user, wills } from "@/db/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { getTransitionRole } from "./matter-workflow";
+import { documentStorage } from "./document-storage";
+import { generateLetterOfWishesDraft } from "./ai-will-generator";
+import { generateLetterOfWishesPDF } from "./pdf-generator";
+import { toWillContentData, type Asset, type Beneficiary } from "./will-engine";
+import type { TransitionRole } from "./matter-status";
+
+export const LETTER_STATUSES = ['draft', 'final'] as const;
+export const LETTER_SECTION_TYPES = ['personal_items', 'funeral', 'guardian_guidance', 'digital_assets', 'business', 'general'] as const;
+
+export type LetterStatus = typeof LETTER_STATUSES[number];
+export type LetterSectionType = typeof LETTER_SECTION_TYPES[number];
+export type LetterOfWishes = typeof lettersOfWishes.$inferSelect;
+export type LetterSection = LetterOfWishes['sections'][number];
+type MatterRecord = typeof matters.$inferSelect;
+type WillRecord = typeof wills.$inferSelect;
+type MatterDocument = typeof matterDocuments.$inferSelect;
+
+type LetterResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+const LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer', 'lawyer'];
+
+// Headings used when a section is added without one
+const SECTION_HEADINGS: Record<LetterSectionType, { en: string; ar: string }> = {
+  personal_items: { en: 'Personal Items', ar: 'المقتنيات الشخصية' },
+  funeral: { en: 'Funeral Arrangements', ar: 'ترتيبات الجنازة' },
+  guardian_guidance: { en: 'Guidance for Guardians', ar: 'توجيهات للأوصياء' },
+  digital_assets: { en: 'Digital Life', ar: 'الحياة الرقمية' },
+  business: { en: 'My Business', ar: 'أعمالي التجارية' },
+  general: { en: 'General Wishes', ar: 'رغبات عامة' },
+};
+
+const DEFAULT_TITLES = { en: 'Letter of Wishes', ar: 'خطاب الرغبات' };
+
+// Validation schemas for letter of wishes requests
+const letterSectionSchema = z.object({
+  id: z.string().optional(),
+  type: z.enum(LETTER_SECTION_TYPES),
+  heading: z.string().trim().max(200).optional(),
+  body: z.string().trim().min(1).max(10000),
+  beneficiaryIds: z.array(z.string()).optional(),
+  assetIds: z.array(z.string()).optional(),
+});
+
+export const createLetterSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  language: z.enum(['en', 'ar']).optional(), // Defaults to the will's language
+  sections: z.array(letterSectionSchema).default([]),
+  draftWithAi: z.boolean().default(false),
+  funeralArrangements: z.string().trim().max(5000).optional(), // Extra context for the AI draft
+});
+
+export const updateLetterSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  sections: z.array(letterSectionSchema).optional(),
+  status: z.enum(LETTER_STATUSES).optional(),
+});
+
+export const letterVisibilitySchema = z.object({
+  clientVisible: z.boolean(),
+  clientDownloadable: z.boolean().default(false),
+});
+
+export const renderLetterSchema = letterVisibilitySchema.partial();
+
+export type CreateLetterInput = z.infer<typeof createLetterSchema>;
+export type UpdateLetterInput = z.infer<typeof updateLetterSchema>;
+export type LetterVisibilityInput = z.infer<typeof letterVisibilitySchema>;
+
+// List the letters of wishes for a will, newest first
+export async function getWillLetters(willId: string) {
+  return await db
+    .select()
+    .from(lettersOfWishes)
+    .where(eq(lettersOfWishes.willId, willId))
+    .orderBy(desc(lettersOfWishes.createdAt));
+}
+
+// Get one letter, scoped to its will
+export async function getWillLetter(willId: string, letterId: string) {
+  const [letter] = await db
+    .select()
+    .from(lettersOfWishes)
+    .where(and(eq(lettersOfWishes.id, letterId), eq(lettersOfWishes.willId, willId)))
+    .limit(1);
+
+  return letter || null;
+}
+
+// Get the latest rendered PDF of a letter
+export async function getLetterDocument(letter: LetterOfWishes): Promise<MatterDocument | null> {
+  if (!letter.documentId) return null;
+
+  const [document] = await db
+    .select()
+    .from(matterDocuments)
+    .where(eq(matterDocuments.id, letter.documentId))
+    .limit(1);
+
+  return document || null;
+}
+
+// Create a letter from the given sections, or have AI draft them from the will
+export async function createLetterOfWishes(
+  will: WillRecord,
+  matter: MatterRecord,
+  userId: string,
+  input: CreateLetterInput
+): Promise<LetterResult<LetterOfWishes>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can prepare a letter of wishes', status: 403 };
+  }
+
+  const language = input.language || (will.language === 'ar' ? 'ar' : 'en');
+  let title = input.title;
+  let sections = input.sections.map(section => toSection(section, language));
+
+  if (input.draftWithAi) {
+    const [testator] = await db.select({ name: user.name }).from(user).where(eq(user.id, will.testatorId)).limit(1);
+    const willData = toWillContentData(will);
+
+    const draft = await generateLetterOfWishesDraft({
+      personalInfo: will.personalInfo,
+      assets: willData.assets || [],
+      beneficiaries: willData.beneficiaries || [],
+      executors: (willData.executors || []).map(executor => ({ ...executor })),
+      guardians: (willData.guardians || []).map(guardian => ({ ...guardian })),
+      trusts: willData.trusts,
+      specialInstructions: willData.specialInstructions,
+      willType: will.willType,
+      testatorName: testator?.name || 'the testator',
+      funeralArrangements: input.funeralArrangements,
+      language,
+    }, matter.lawFirmId);
+
+    // The model only sees the will's ids, but anything it invents is dropped rather than rejected
+    const beneficiaryIds = new Set((willData.beneficiaries || []).map(beneficiary => beneficiary.id));
+    const assetIds = new Set((willData.assets || []).map(asset => asset.id));
+
+    title = title || draft.title;
+    sections = [
+      ...sections,
+      ...draft.sections.map(section => toSection({
+        ...section,
+        type: (LETTER_SECTION_TYPES as readonly string[]).includes(section.type) ? section.type as LetterSectionType : 'general',
+        beneficiaryIds: section.beneficiaryIds?.filter(id => beneficiaryIds.has(id)),
+        assetIds: section.assetIds?.filter(id => assetIds.has(id)),
+      }, language)),
+    ];
+  }
+
+  const referenceError = checkSectionReferences(sections, will);
+  if (referenceError) {
+    return { success: false, error: referenceError, status: 400 };
+  }
+
+  const [letter] = await db.insert(lettersOfWishes).values({
+    willId: will.id,
+    matterId: matter.id,
+    title: title || DEFAULT_TITLES[language],
+    language,
+    sections,
+    draftedBy: input.draftWithAi ? 'ai' : 'lawyer',
+    createdBy: userId,
+    updatedBy: userId,
+  }).returning();
+
+  return { success: true, data: letter };
+}
+
+// Edit a draft letter's title or sections, or move it between draft and final
+export async function updateLetterOfWishes(
+  letter: LetterOfWishes,
+  will: WillRecord,
+  matter: MatterRecord,
+  userId: string,
+  input: UpdateLetterInput
+): Promise<LetterResult<LetterOfWishes>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can edit a letter of wishes', status: 403 };
+  }
+
+  if (letter.status === 'final' && (input.title || input.sections) && input.status !== 'draft') {
+    return { success: false, error: 'Return the letter to draft before editing it', status: 409 };
+  }
+
+  const language = letter.language === 'ar' ? 'ar' : 'en';
+  const sections = input.sections?.map(section => toSection(section, language));
+
+  if (sections) {
+    const referenceError = checkSectionReferences(sections, will);
+    if (referenceError) {
+      return { success: false, error: referenceError, status: 400 };
+    }
+  }
+
+  if (input.status === 'final' && (sections || letter.sections).length === 0) {
+    return { success: false, error: 'A letter of wishes needs at least one section before it is finalised', status: 400 };
+  }
+
+  const [updated] = await db
+    .update(lettersOfWishes)
+    .set({
+      ...(input.title && { title: input.title }),
+      ...(sections && { sections }),
+      ...(input.status && { status: input.status }),
+      updatedBy: userId,
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(lettersOfWishes.id, letter.id),
+      eq(lettersOfWishes.updatedAt, letter.updatedAt)
+    ))
+    .returning();
+
+  if (!updated) {
+    return { success: false, error: 'The letter was changed by someone else', status: 409 };
+  }
+
+  return { success: true, data: updated };
+}
+
+// Render the letter to PDF and store it as a new version of the letter's supporting document
+export async function renderLetterOfWishes(
+  letter: LetterOfWishes,
+  will: WillRecord,
+  matter: MatterRecord,
+  userId: string,
+  visibility: Partial<LetterVisibilityInput> = {}
+): Promise<LetterResult<{ letter: LetterOfWishes; document: MatterDocument }>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can generate a letter of wishes', status: 403 };
+  }
+
+  if (letter.sections.length === 0) {
+    return { success: false, error: 'Add at least one section before generating the letter', status: 400 };
+  }
+
+  const previous = await getLetterDocument(letter);
+  const clientVisible = visibility.clientVisible ?? previous?.clientVisible ?? false;
+  const clientDownloadable = clientVisible && (visibility.clientDownloadable ?? previous?.clientDownloadable ?? false);
+
+  if (clientVisible && letter.status !== 'final') {
+    return { success: false, error: 'Only a final letter of wishes can be shared with the client', status: 409 };
+  }
+
+  const [[testator], [firm]] = await Promise.all([
+    db.select({ name: user.name }).from(user).where(eq(user.id, will.testatorId)).limit(1),
+    db.select({ name: lawFirms.name }).from(lawFirms).where(eq(lawFirms.id, matter.lawFirmId)).limit(1),
+  ]);
+
+  const pdfBuffer = await generateLetterOfWishesPDF({
+    title: letter.title,
+    language: letter.language === 'ar' ? 'ar' : 'en',
+    preparedAt: new Date().toISOString().split('T')[0],
+    testatorName: testator?.name || 'Testator',
+    firmName: firm?.name,
+    willReference: `${matter.matterNumber}, version ${will.version || 1}`,
+    sections: letter.sections.map(section => ({ heading: section.heading, body: section.body })),
+  });
+
+  const version = (previous?.version || 0) + 1;
+  const fileName = `Letter_of_Wishes_${matter.matterNumber.replace(/[^a-zA-Z0-9-]/g, '_')}_v${version}.pdf`;
+
+  const storageResult = await documentStorage.uploadDocument(pdfBuffer, {
+    filename: fileName,
+    contentType: 'application/pdf',
+    documentType: 'supporting_document',
+    uploadedBy: userId,
+    willId: will.id,
+    tags: { letterId: letter.id, category: 'letter_of_wishes' },
+  });
+
+  if (!storageResult.success || !storageResult.url) {
+    return { success: false, error: storageResult.error || 'Failed to store letter of wishes', status: 500 };
+  }
+
+  const now = new Date();
+
+  const [document] = await db.insert(matterDocuments).values({
+    matterId: matter.id,
+    willId: will.id,
+    documentType: 'supporting_document',
+    fileName,
+    fileUrl: storageResult.url,
+    fileSize: pdfBuffer.length,
+    mimeType: 'application/pdf',
+    version,
+    parentDocumentId: previous?.id,
+    generatedBy: letter.draftedBy === 'ai' ? 'ai' : 'lawyer',
+    status: letter.status === 'final' ? 'final' : 'draft',
+    clientVisible,
+    clientDownloadable,
+    accessLevel: clientVisible ? 'client' : 'internal',
+  }).returning();
+
+  // Only replace the document this generation was based on, so two generations at once cannot both win
+  const [updated] = await db
+    .update(lettersOfWishes)
+    .set({ documentId: document.id, updatedAt: now })
+    .where(and(
+      eq(lettersOfWishes.id, letter.id),
+      letter.documentId ? eq(lettersOfWishes.documentId, letter.documentId) : isNull(lettersOfWishes.documentId)
+    ))
+    .returning();
+
+  if (!updated) {
+    await db.delete(matterDocuments).where(eq(matterDocuments.id, document.id));
+    return { success: false, error: 'The letter was generated by someone else at the same time; reload and try again', status: 409 };
+  }
+
+  if (previous) {
+    await db
+      .update(matterDocuments)
+      .set({ isLatestVersion: false, updatedAt: now })
+      .where(eq(matterDocuments.id, previous.id));
+  }
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'document_generated',
+    title: `${letter.title} generated`,
+    description: `Version ${version} of the letter of wishes`,
+    metadata: { documentId: document.id, letterId: letter.id },
+    clientVisible,
+  });
+
+  return { success: true, data: { letter: updated, document } };
+}
+
+// Share the latest rendered letter with the client, or withdraw it
+export async function setLetterVisibility(
+  letter: LetterOfWishes,
+  matter: MatterRecord,
+  userId: string,
+  input: LetterVisibilityInput
+): Promise<LetterResult<MatterDocument>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can change who can see a letter of wishes', status: 403 };
+  }
+
+  if (!letter.documentId) {
+    return { success: false, error: 'Generate the letter before sharing it', status: 409 };
+  }
+
+  if (input.clientVisible && letter.status !== 'final') {
+    return { success: false, error: 'Only a final letter of wishes can be shared with the client', status: 409 };
+  }
+
+  const [document] = await db
+    .update(matterDocuments)
+    .set({
+      clientVisible: input.clientVisible,
+      clientDownloadable: input.clientVisible && input.clientDownloadable,
+      accessLevel: input.clientVisible ? 'client' : 'internal',
+      updatedAt: new Date(),
+    })
+    .where(eq(matterDocuments.id, letter.documentId))
+    .returning();
+
+  return { success: true, data: document };
+}
+
+// Keep the wizard's funeral arrangements as the funeral section of the will's letter of wishes
+export async function saveFuneralWishes(will: WillRecord, userId: string | null, funeralArrangements: string) {
+  const language = will.language === 'ar' ? 'ar' : 'en';
+  const body = funeralArrangements.trim();
+  if (!body) return null;
+
+  const [existing] = await db
+    .select()
+    .from(lettersOfWishes)
+    .where(and(
+      eq(lettersOfWishes.willId, will.id),
+      eq(lettersOfWishes.status, 'draft')
+    ))
+    .orderBy(desc(lettersOfWishes.createdAt))
+    .limit(1);
+
+  if (!existing) {
+    const [letter] = await db.insert(lettersOfWishes).values({
+      willId: will.id,
+      matterId: will.matterId,
+      title: DEFAULT_TITLES[language],
+      language,
+      sections: [toSection({ type: 'funeral', body }, language)],
+      draftedBy: 'wizard',
+      createdBy: userId,
+      updatedBy: userId,
+    }).returning();
+
+    return letter;
+  }
+
+  const hasFuneral = existing.sections.some(section => section.type === 'funeral');
+  const sections = hasFuneral
+    ? existing.sections.map(section => section.type === 'funeral' ? { ...section, body } : section)
+    : [...existing.sections, toSection({ type: 'funeral', body }, language)];
+
+  const [letter] = await db
+    .update(lettersOfWishes)
+    .set({ sections, updatedBy: userId, updatedAt: new Date() })
+    .where(eq(lettersOfWishes.id, existing.id))
+    .returning();
+
+  return letter;
+}
+
+function toSection(
+  section: { id?: string; type: LetterSectionType; heading?: string; body: string; beneficiaryIds?: string[]; assetIds?: string[] },
+  language: 'en' | 'ar'
+): LetterSection {
+  return {
+    id: section.id || randomUUID(),
+    type: section.type,
+    heading: section.heading || SECTION_HEADINGS[section.type][language],
+    body: section.body,
+    ...(section.beneficiaryIds?.length && { beneficiaryIds: section.beneficiaryIds }),
+    ...(section.assetIds?.length && { assetIds: section.assetIds }),
+  };
+}
+
+// Sections may only point at beneficiaries and assets that are in the will
+function checkSectionReferences(sections: LetterSection[], will: WillRecord): string | null {
+  const beneficiaryIds = new Set(((will.beneficiaries || []) as Beneficiary[]).map(beneficiary => beneficiary.id));
+  const assetIds = new Set(((will.assets || []) as Asset[]).map(asset => asset.id));
+
+  for (const section of sections) {
+    if (section.beneficiaryIds?.some(id => !beneficiaryIds.has(id))) {
+      return `"${section.heading}" refers to a beneficiary who is not in the will`;
+    }
+    if (section.assetIds?.some(id => !assetIds.has(id))) {
+      return `"${section.heading}" refers to an asset that is not in the will`;
+    }
+  }
+
+  return null;
+}
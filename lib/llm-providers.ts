@@ -0,0 +1,226 @@
+/**
+ * LLM Provider Registry for Mirath Legal
+ * Resolves the language model for each AI task from the firm's settings, falling back to the platform defaults
+ */
+
+import { createOpenAI } from "@ai-sdk/openai";
+import { createAzure } from "@ai-sdk/azure";
+import type { LanguageModelV1 } from "ai";
+import { z } from "zod";
+import { getFirmSettings } from "./law-firm";
+import { createStubLanguageModel } from "./llm-stub";
+
+export const LLM_PROVIDERS = ['openai', 'azure', 'openai_compatible', 'stub'] as const;
+export const LLM_TASKS = ['willGeneration', 'legalAnalysis', 'complianceCheck', 'willSummary', 'chat', 'translation'] as const;
+
+export type LlmProvider = typeof LLM_PROVIDERS[number];
+export type LlmTask = typeof LLM_TASKS[number];
+
+// Models used when neither the firm nor the environment names one
+const DEFAULT_TASK_MODELS: Record<LlmTask, string> = {
+  willGeneration: 'gpt-4',
+  legalAnalysis: 'gpt-4',
+  complianceCheck: 'gpt-4',
+  willSummary: 'gpt-4',
+  chat: 'gpt-4o',
+  translation: 'gpt-4o',
+};
+
+// AI settings a firm can configure under settings.ai; see getFirmAiSettingsSchema for the firm-specific checks
+export const firmAiSettingsSchema = z.object({
+  provider: z.enum(LLM_PROVIDERS).optional(),
+  baseUrl: z.string().url().optional(),
+  // Becomes the <name>.openai.azure.com host, so only a single DNS label is accepted
+  azureResourceName: z.string().regex(/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/i, 'Azure resource name must be a single host name label').optional(),
+  azureApiVersion: z.string().min(1).optional(),
+  apiKeyEnv: z.string().regex(/^AI_KEY_[A-Z0-9_]+$/, 'API key variable must start with AI_KEY_').optional(),
+  models: z.object({
+    willGeneration: z.string().min(1).optional(),
+    legalAnalysis: z.string().min(1).optional(),
+    complianceCheck: z.string().min(1).optional(),
+    willSummary: z.string().min(1).optional(),
+    chat: z.string().min(1).optional(),
+    translation: z.string().min(1).optional(),
+  }).optional(),
+});
+
+export type FirmAiSettings = z.infer<typeof firmAiSettingsSchema>;
+
+// Settings schema for one firm: its keys must be its own and custom endpoints must be allow-listed
+export function getFirmAiSettingsSchema(firmId: string) {
+  return firmAiSettingsSchema.superRefine((settings, ctx) => {
+    if (settings.apiKeyEnv && !isFirmApiKeyEnv(settings.apiKeyEnv, firmId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['apiKeyEnv'],
+        message: `API key variable must start with ${firmApiKeyEnvPrefix(firmId)}`,
+      });
+    }
+
+    if (usesFirmAzureResource(settings) && !settings.apiKeyEnv) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['apiKeyEnv'],
+        message: 'A firm Azure resource needs the firm\'s own API key variable',
+      });
+    }
+
+    if (settings.baseUrl && !isAllowedBaseUrl(settings.baseUrl)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['baseUrl'],
+        message: 'Base URL must be an https endpoint listed in AI_ALLOWED_BASE_URLS',
+      });
+    }
+  });
+}
+
+// Environment variables holding a firm's own keys are named AI_KEY_<FIRM_ID>_*
+export function firmApiKeyEnvPrefix(firmId: string): string {
+  return `AI_KEY_${firmId.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+}
+
+export interface ResolvedLanguageModel {
+  model: LanguageModelV1;
+  provider: LlmProvider;
+  modelId: string;
+  settings: FirmAiSettings;
+}
+
+type ProviderFactory = (settings: FirmAiSettings, modelId: string, firmId?: string | null) => LanguageModelV1;
+
+// How each provider turns settings into a model
+const PROVIDER_FACTORIES: Record<LlmProvider, ProviderFactory> = {
+  openai: (settings, modelId, firmId) => createFirmOpenAI(settings, firmId)(modelId),
+
+  azure: (settings, modelId, firmId) => {
+    const resourceName = settings.azureResourceName || process.env.AZURE_OPENAI_RESOURCE_NAME;
+    if (!resourceName) {
+      throw new Error('Azure OpenAI requires a resource name');
+    }
+
+    // The platform key is only ever sent to the platform's own resource
+    if (usesFirmAzureResource(settings) && !settings.apiKeyEnv) {
+      throw new Error('A firm Azure resource needs the firm\'s own API key variable');
+    }
+
+    // Azure routes by deployment name, which is what the model setting holds
+    return createAzure({
+      resourceName,
+      apiKey: usesFirmAzureResource(settings)
+        ? resolveApiKey(settings, firmId)
+        : resolveApiKey(settings, firmId, 'AZURE_OPENAI_API_KEY'),
+      apiVersion: settings.azureApiVersion || process.env.AZURE_OPENAI_API_VERSION,
+    })(modelId);
+  },
+
+  openai_compatible: (settings, modelId, firmId) => {
+    if (settings.baseUrl && !isAllowedBaseUrl(settings.baseUrl)) {
+      throw new Error('The firm base URL is not in AI_ALLOWED_BASE_URLS');
+    }
+
+    const baseURL = settings.baseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!baseURL) {
+      throw new Error('OpenAI-compatible provider requires a base URL');
+    }
+
+    return createOpenAI({
+      baseURL,
+      // The platform key is only ever sent to the platform's own endpoint
+      apiKey: settings.baseUrl
+        ? resolveApiKey(settings, firmId)
+        : resolveApiKey(settings, firmId, 'OPENAI_COMPATIBLE_API_KEY'),
+      compatibility: 'compatible',
+      name: 'openai-compatible',
+    })(modelId);
+  },
+
+  stub: (_settings, modelId) => createStubLanguageModel(modelId),
+};
+
+// Read a firm's AI settings; empty when the firm has not configured any
+export async function getFirmAiSettings(firmId: string | null | undefined): Promise<FirmAiSettings> {
+  if (!firmId) return {};
+
+  const settings = await getFirmSettings(firmId);
+  return (settings as { ai?: FirmAiSettings }).ai || {};
+}
+
+// Pick the provider and model for a task: firm settings first, then the environment, then defaults
+export function resolveLanguageModel(
+  task: LlmTask,
+  settings: FirmAiSettings = {},
+  firmId?: string | null
+): ResolvedLanguageModel {
+  const provider = settings.provider || platformProvider();
+  const modelId = settings.models?.[task] || process.env[`AI_MODEL_${toEnvName(task)}`] || DEFAULT_TASK_MODELS[task];
+
+  return {
+    model: PROVIDER_FACTORIES[provider](settings, modelId, firmId),
+    provider,
+    modelId,
+    settings,
+  };
+}
+
+// Resolve the model a firm uses for a task
+export async function getLanguageModel(task: LlmTask, firmId?: string | null): Promise<ResolvedLanguageModel> {
+  return resolveLanguageModel(task, await getFirmAiSettings(firmId), firmId);
+}
+
+// OpenAI client with the firm's key, for OpenAI-only features such as the Responses API tools
+export function createFirmOpenAI(settings: FirmAiSettings = {}, firmId?: string | null) {
+  return createOpenAI({ apiKey: resolveApiKey(settings, firmId, 'OPENAI_API_KEY'), compatibility: 'strict' });
+}
+
+// Platform-wide provider from AI_PROVIDER; unknown values fall back to OpenAI
+function platformProvider(): LlmProvider {
+  const provider = process.env.AI_PROVIDER as LlmProvider | undefined;
+  return provider && LLM_PROVIDERS.includes(provider) ? provider : 'openai';
+}
+
+// Firm key variable when configured, otherwise the platform key for the provider (if one may be used)
+function resolveApiKey(settings: FirmAiSettings, firmId: string | null | undefined, platformEnv?: string): string | undefined {
+  if (settings.apiKeyEnv) {
+    // Settings saved before keys were bound to firms may still name another firm's variable
+    if (!firmId || !isFirmApiKeyEnv(settings.apiKeyEnv, firmId)) {
+      throw new Error(`API key variable must start with ${firmId ? firmApiKeyEnvPrefix(firmId) : 'the firm prefix'}`);
+    }
+    return process.env[settings.apiKeyEnv];
+  }
+  return platformEnv ? process.env[platformEnv] : undefined;
+}
+
+function isFirmApiKeyEnv(name: string, firmId: string): boolean {
+  const prefix = firmApiKeyEnvPrefix(firmId);
+  return name.startsWith(prefix) && /^[A-Z0-9_]+$/.test(name.slice(prefix.length));
+}
+
+// A resource name other than the platform's means requests leave the platform's Azure account
+function usesFirmAzureResource(settings: FirmAiSettings): boolean {
+  return !!settings.azureResourceName && settings.azureResourceName !== process.env.AZURE_OPENAI_RESOURCE_NAME;
+}
+
+// Firm endpoints must be https and share an origin with an entry in the comma-separated AI_ALLOWED_BASE_URLS
+function isAllowedBaseUrl(baseUrl: string): boolean {
+  const origin = toOrigin(baseUrl);
+  if (!origin?.startsWith('https://')) return false;
+
+  return (process.env.AI_ALLOWED_BASE_URLS || '')
+    .split(',')
+    .map(entry => toOrigin(entry.trim()))
+    .some(allowed => allowed === origin);
+}
+
+function toOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+// willGeneration -> WILL_GENERATION
+function toEnvName(task: LlmTask): string {
+  return task.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+}
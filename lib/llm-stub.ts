@@ -0,0 +1,160 @@
+/**
+ * Offline Stub Language Model for Mirath Legal
+ * Deterministic model that answers structured requests with schema-valid objects, so AI pipelines run without network access
+ */
+
+import { createHash } from "crypto";
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from "ai";
+
+// The subset of JSON Schema that zod-to-json-schema emits for our schemas
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  $ref?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  format?: string;
+  default?: unknown;
+}
+
+const STUB_CHAT_REPLY = 'This is an offline stub response. Configure an AI provider for the firm to get real answers.';
+
+// Build a stub model; the same prompt always produces the same output
+export function createStubLanguageModel(modelId: string): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: 'stub',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+    supportsStructuredOutputs: true,
+
+    async doGenerate(options: LanguageModelV1CallOptions) {
+      const text = respond(options);
+
+      return {
+        text,
+        finishReason: 'stop' as const,
+        usage: { promptTokens: 0, completionTokens: 0 },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+
+    async doStream(options: LanguageModelV1CallOptions) {
+      const text = respond(options);
+
+      // Emit word by word so streaming clients behave as they would with a real model
+      const parts: LanguageModelV1StreamPart[] = [
+        ...text.split(/(?<= )/).map(word => ({ type: 'text-delta' as const, textDelta: word })),
+        { type: 'finish', finishReason: 'stop', usage: { promptTokens: 0, completionTokens: 0 } },
+      ];
+
+      return {
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            parts.forEach(part => controller.enqueue(part));
+            controller.close();
+          },
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+}
+
+// Structured requests get JSON matching the schema; everything else a fixed reply
+function respond(options: LanguageModelV1CallOptions): string {
+  const seed = digest(JSON.stringify(options.prompt));
+
+  if (options.mode.type === 'object-json' && options.mode.schema) {
+    const schema = options.mode.schema as JsonSchema;
+    return JSON.stringify(sampleSchema(schema, schema, [], seed));
+  }
+
+  if (options.mode.type === 'object-tool') {
+    const schema = options.mode.tool.parameters as JsonSchema;
+    return JSON.stringify(sampleSchema(schema, schema, [], seed));
+  }
+
+  return STUB_CHAT_REPLY;
+}
+
+// Produce the simplest value that satisfies the schema at this path
+function sampleSchema(schema: JsonSchema, root: JsonSchema, path: string[], seed: string): unknown {
+  if (schema.$ref) {
+    return sampleSchema(resolveRef(schema.$ref, root), root, path, seed);
+  }
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.anyOf?.length) return sampleSchema(schema.anyOf[0], root, path, seed);
+  if (schema.oneOf?.length) return sampleSchema(schema.oneOf[0], root, path, seed);
+  if (schema.allOf?.length) {
+    return schema.allOf.reduce<Record<string, unknown>>((merged, part) => ({
+      ...merged,
+      ...(sampleSchema(part, root, path, seed) as Record<string, unknown>),
+    }), {});
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+
+  switch (type) {
+    case 'object': {
+      const properties = schema.properties || {};
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, property]) => [key, sampleSchema(property, root, [...path, key], seed)])
+      );
+    }
+    case 'array': {
+      const count = Math.max(schema.minItems ?? 1, 1);
+      return Array.from({ length: count }, (_, index) =>
+        sampleSchema(schema.items || {}, root, [...path, String(index)], seed)
+      );
+    }
+    case 'number':
+    case 'integer': {
+      const low = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : 0);
+      const high = schema.maximum ?? low + 100;
+      return Math.round((low + high) / 2);
+    }
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return sampleString(schema, path, seed);
+  }
+}
+
+// Readable placeholder text naming the field it fills
+function sampleString(schema: JsonSchema, path: string[], seed: string): string {
+  if (schema.format === 'date-time') return '2025-01-01T00:00:00.000Z';
+  if (schema.format === 'date') return '2025-01-01';
+  if (schema.format === 'email') return 'stub@example.com';
+  if (schema.format === 'uri' || schema.format === 'url') return 'https://example.com/stub';
+
+  const field = path.filter(part => !/^\d+$/.test(part)).pop() || 'text';
+  const label = field.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ').toLowerCase();
+
+  return `[Stub ${label} ${digest(seed + path.join('.')).slice(0, 8)}]`;
+}
+
+// Follow a local JSON pointer such as #/properties/beneficiaryProvisions/items
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  return ref
+    .replace(/^#\/?/, '')
+    .split('/')
+    .filter(Boolean)
+    .reduce<unknown>((node, key) => (node as Record<string, unknown>)?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], root) as JsonSchema || {};
+}
+
+function digest(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
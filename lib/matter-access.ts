@@ -0,0 +1,73 @@
+/**
+ * Matter Access Helper for Mirath Legal
+ * Resolves the current user and loads a matter scoped to their law firm
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { getDevAuth, isDevMode } from '@/lib/dev-auth';
+import { db } from '@/db/drizzle';
+import { matters, lawFirmMembers } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+
+export type MatterAccess =
+  | { userId: string; lawFirmId: string; matter: typeof matters.$inferSelect }
+  | { error: NextResponse };
+
+// Authenticate the request (with development mode support) and load the matter from the user's firm
+export async function getMatterForUser(matterId: string): Promise<MatterAccess> {
+  let userId: string;
+
+  if (isDevMode()) {
+    const devAuth = await getDevAuth();
+    userId = devAuth?.user.id || 'dev-user-001';
+  } else {
+    const result = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!result?.session?.userId) {
+      return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+    }
+
+    userId = result.session.userId;
+  }
+
+  // Get user's law firm
+  const userFirmMembership = await db.select()
+    .from(lawFirmMembers)
+    .where(eq(lawFirmMembers.userId, userId))
+    .limit(1);
+
+  if (userFirmMembership.length === 0) {
+    return {
+      error: NextResponse.json(
+        { error: 'User is not associated with any law firm' },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const lawFirmId = userFirmMembership[0].lawFirmId;
+
+  // Ensure user can only access matters from their firm
+  const [matter] = await db.select()
+    .from(matters)
+    .where(and(
+      eq(matters.id, matterId),
+      eq(matters.lawFirmId, lawFirmId)
+    ))
+    .limit(1);
+
+  if (!matter) {
+    return {
+      error: NextResponse.json(
+        { error: 'Matter not found or access denied' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { userId, lawFirmId, matter };
+}
@@ -0,0 +1,145 @@
+/**
+ * Matter Status Workflow Definition for Mirath Legal
+ * Single source of truth for matter statuses, allowed transitions and progress
+ */
+
+// Types for the matter workflow
+export const MATTER_STATUSES = [
+  'intake',
+  'assessment',
+  'document_generation',
+  'lawyer_review',
+  'client_review',
+  'difc_preparation',
+  'difc_submitted',
+  'registered',
+  'completed',
+  'on_hold',
+  'cancelled',
+] as const;
+
+export type MatterStatus = typeof MATTER_STATUSES[number];
+
+// Firm roles that can move a matter; super admins may perform any transition
+export type TransitionRole = 'firm_admin' | 'senior_lawyer' | 'lawyer' | 'support';
+
+export type TransitionGuard =
+  | 'intake_data_present'
+  | 'will_exists'
+  | 'will_difc_compliant'
+  | 'will_registered'
+  | 'resumes_previous_status';
+
+export interface MatterTransition {
+  from: MatterStatus;
+  to: MatterStatus;
+  label: string;
+  roles: TransitionRole[];
+  guards: TransitionGuard[];
+}
+
+export interface MatterStatusDefinition {
+  label: string;
+  progress: number;
+  color: string;
+  terminal: boolean;
+}
+
+export const MATTER_STATUS_DEFINITIONS: Record<MatterStatus, MatterStatusDefinition> = {
+  intake: { label: 'Intake', progress: 5, color: 'bg-blue-100 text-blue-800', terminal: false },
+  assessment: { label: 'Assessment', progress: 15, color: 'bg-sky-100 text-sky-800', terminal: false },
+  document_generation: { label: 'Document Generation', progress: 30, color: 'bg-yellow-100 text-yellow-800', terminal: false },
+  lawyer_review: { label: 'Lawyer Review', progress: 45, color: 'bg-purple-100 text-purple-800', terminal: false },
+  client_review: { label: 'Client Review', progress: 60, color: 'bg-orange-100 text-orange-800', terminal: false },
+  difc_preparation: { label: 'DIFC Preparation', progress: 75, color: 'bg-indigo-100 text-indigo-800', terminal: false },
+  difc_submitted: { label: 'DIFC Submitted', progress: 85, color: 'bg-teal-100 text-teal-800', terminal: false },
+  registered: { label: 'Registered', progress: 95, color: 'bg-green-100 text-green-800', terminal: false },
+  completed: { label: 'Completed', progress: 100, color: 'bg-green-100 text-green-800', terminal: true },
+  on_hold: { label: 'On Hold', progress: 0, color: 'bg-gray-100 text-gray-800', terminal: false },
+  cancelled: { label: 'Cancelled', progress: 0, color: 'bg-red-100 text-red-800', terminal: true },
+};
+
+// The main path a matter follows from intake to completion
+export const MATTER_STATUS_FLOW: MatterStatus[] = [
+  'intake',
+  'assessment',
+  'document_generation',
+  'lawyer_review',
+  'client_review',
+  'difc_preparation',
+  'difc_submitted',
+  'registered',
+  'completed',
+];
+
+const ALL_STAFF: TransitionRole[] = ['firm_admin', 'senior_lawyer', 'lawyer', 'support'];
+const LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer', 'lawyer'];
+const SENIOR_LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer'];
+
+// Statuses from which a matter can be put on hold or cancelled
+const ACTIVE_STATUSES: MatterStatus[] = [
+  'intake',
+  'assessment',
+  'document_generation',
+  'lawyer_review',
+  'client_review',
+  'difc_preparation',
+  'difc_submitted',
+];
+
+export const MATTER_TRANSITIONS: MatterTransition[] = [
+  // Forward path
+  { from: 'intake', to: 'assessment', label: 'Start assessment', roles: ALL_STAFF, guards: ['intake_data_present'] },
+  { from: 'assessment', to: 'document_generation', label: 'Begin drafting', roles: LAWYERS, guards: [] },
+  { from: 'document_generation', to: 'lawyer_review', label: 'Send for lawyer review', roles: LAWYERS, guards: ['will_exists'] },
+  { from: 'lawyer_review', to: 'client_review', label: 'Send to client', roles: LAWYERS, guards: ['will_exists'] },
+  { from: 'client_review', to: 'difc_preparation', label: 'Prepare DIFC submission', roles: LAWYERS, guards: ['will_exists', 'will_difc_compliant'] },
+  { from: 'difc_preparation', to: 'difc_submitted', label: 'Submit to DIFC', roles: SENIOR_LAWYERS, guards: ['will_exists', 'will_difc_compliant'] },
+  { from: 'difc_submitted', to: 'registered', label: 'Record registration', roles: SENIOR_LAWYERS, guards: ['will_registered'] },
+  { from: 'registered', to: 'completed', label: 'Complete matter', roles: LAWYERS, guards: ['will_registered'] },
+
+  // Rework loops
+  { from: 'assessment', to: 'intake', label: 'Return to intake', roles: ALL_STAFF, guards: [] },
+  { from: 'lawyer_review', to: 'document_generation', label: 'Return for redrafting', roles: LAWYERS, guards: [] },
+  { from: 'client_review', to: 'lawyer_review', label: 'Client requested changes', roles: ALL_STAFF, guards: [] },
+  { from: 'difc_preparation', to: 'lawyer_review', label: 'Return to lawyer review', roles: LAWYERS, guards: [] },
+  { from: 'difc_submitted', to: 'difc_preparation', label: 'DIFC returned submission', roles: LAWYERS, guards: [] },
+
+  // Hold and cancellation
+  ...ACTIVE_STATUSES.map((from): MatterTransition => ({
+    from, to: 'on_hold', label: 'Put on hold', roles: LAWYERS, guards: [],
+  })),
+  ...ACTIVE_STATUSES.map((from): MatterTransition => ({
+    from: 'on_hold', to: from, label: `Resume at ${MATTER_STATUS_DEFINITIONS[from].label}`, roles: LAWYERS, guards: ['resumes_previous_status'],
+  })),
+  ...[...ACTIVE_STATUSES, 'on_hold' as const].map((from): MatterTransition => ({
+    from, to: 'cancelled', label: 'Cancel matter', roles: SENIOR_LAWYERS, guards: [],
+  })),
+];
+
+// Check if a value is a known matter status
+export function isMatterStatus(value: unknown): value is MatterStatus {
+  return typeof value === 'string' && (MATTER_STATUSES as readonly string[]).includes(value);
+}
+
+// Calculate progress based on status
+export function getProgressForStatus(status: string | null | undefined): number {
+  return isMatterStatus(status) ? MATTER_STATUS_DEFINITIONS[status].progress : 0;
+}
+
+// Get the display label for a status
+export function getStatusLabel(status: string | null | undefined): string {
+  return isMatterStatus(status) ? MATTER_STATUS_DEFINITIONS[status].label : (status || 'Unknown');
+}
+
+// Find the transition definition between two statuses
+export function findTransition(from: string | null | undefined, to: string): MatterTransition | undefined {
+  return MATTER_TRANSITIONS.find(transition => transition.from === from && transition.to === to);
+}
+
+// Get the transitions available from a status, optionally limited to a role
+export function getTransitionsFrom(from: string | null | undefined, role?: TransitionRole): MatterTransition[] {
+  return MATTER_TRANSITIONS.filter(transition =>
+    transition.from === from && (!role || transition.roles.includes(role))
+  );
+}
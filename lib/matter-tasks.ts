@@ -0,0 +1,357 @@
+/**
+ * Matter Task Engine for Mirath Legal
+ * Handles task checklists, dependency resolution and overdue tracking for matters
+ */
+
+import { db } from "@/db/drizzle";
+import { matterTasks, matterTimeline } from "@/db/schema";
+import { and, eq, inArray, lt, sql } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+
+// Types for matter tasks
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled' | 'overdue';
+export type TaskPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export type MatterTask = typeof matterTasks.$inferSelect;
+
+export interface TaskTemplate {
+  key: string;
+  title: string;
+  description?: string;
+  priority?: TaskPriority;
+  estimatedHours?: number;
+  dueInDays?: number;
+  aiAssisted?: boolean;
+  billable?: boolean;
+  dependsOn?: string[];
+}
+
+export interface TaskWithDependencyState extends MatterTask {
+  blocked: boolean;
+  blockedBy: Array<{ id: string; title: string; status: string | null }>;
+}
+
+// Validation schemas for task create and update requests
+export const taskInputSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  assignedTo: z.string().optional(),
+  priority: z.enum(['low', 'normal', 'high', 'urgent']).default('normal'),
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(),
+  dependencies: z.array(z.string().uuid()).default([]),
+  estimatedHours: z.number().min(0).max(99).optional(),
+  aiAssisted: z.boolean().default(false),
+  billable: z.boolean().default(true),
+});
+
+export const taskUpdateSchema = taskInputSchema
+  .omit({ priority: true, dependencies: true, aiAssisted: true, billable: true })
+  .partial()
+  .extend({
+    status: z.enum(['pending', 'in_progress', 'completed', 'cancelled', 'overdue']).optional(),
+    priority: z.enum(['low', 'normal', 'high', 'urgent']).optional(),
+    dependencies: z.array(z.string().uuid()).optional(),
+    aiAssisted: z.boolean().optional(),
+    billable: z.boolean().optional(),
+    actualHours: z.number().min(0).max(99).optional(),
+    dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').nullable().optional(),
+    assignedTo: z.string().nullable().optional(),
+  });
+
+// Statuses that no longer hold up dependent tasks
+const RESOLVED_STATUSES: TaskStatus[] = ['completed', 'cancelled'];
+
+// Statuses that require every dependency to be resolved first
+const GATED_STATUSES: TaskStatus[] = ['in_progress', 'completed'];
+
+// Tasks every will matter starts with
+const WILL_BASE_CHECKLIST: TaskTemplate[] = [
+  { key: 'kyc', title: 'Verify client identity (Emirates ID and passport)', priority: 'high', estimatedHours: 0.5, dueInDays: 3 },
+  { key: 'intake_review', title: 'Review client intake questionnaire', estimatedHours: 1, dueInDays: 5, dependsOn: ['kyc'] },
+  { key: 'asset_schedule', title: 'Prepare schedule of assets', estimatedHours: 1.5, dueInDays: 7, dependsOn: ['intake_review'] },
+  { key: 'draft_will', title: 'Draft will', estimatedHours: 3, dueInDays: 14, aiAssisted: true, dependsOn: ['asset_schedule'] },
+  { key: 'lawyer_review', title: 'Lawyer review of draft will', priority: 'high', estimatedHours: 1.5, dueInDays: 17, dependsOn: ['draft_will'] },
+  { key: 'client_approval', title: 'Client approval of final draft', estimatedHours: 1, dueInDays: 21, dependsOn: ['lawyer_review'] },
+  { key: 'difc_submission', title: 'Submit will for DIFC registration', priority: 'high', estimatedHours: 1, dueInDays: 28, dependsOn: ['client_approval'] },
+];
+
+// Default checklists seeded when a matter is created, keyed by matterType
+export const DEFAULT_TASK_CHECKLISTS: Record<string, TaskTemplate[]> = {
+  simple_will: WILL_BASE_CHECKLIST,
+  complex_will: [
+    ...WILL_BASE_CHECKLIST.slice(0, 3),
+    { key: 'cross_border', title: 'Review assets held outside the UAE', estimatedHours: 2, dueInDays: 10, dependsOn: ['asset_schedule'] },
+    { key: 'tax_review', title: 'Confirm cross-border tax and forced heirship exposure', estimatedHours: 1.5, dueInDays: 10, dependsOn: ['asset_schedule'] },
+    { ...WILL_BASE_CHECKLIST[3], dependsOn: ['cross_border', 'tax_review'] },
+    ...WILL_BASE_CHECKLIST.slice(4),
+  ],
+  business_succession: [
+    ...WILL_BASE_CHECKLIST.slice(0, 3),
+    { key: 'trade_licence', title: 'Collect trade licence', estimatedHours: 0.5, dueInDays: 7, dependsOn: ['intake_review'] },
+    { key: 'moa_review', title: 'Review memorandum of association', estimatedHours: 1.5, dueInDays: 10, dependsOn: ['trade_licence'] },
+    { key: 'shareholder_agreement', title: 'Shareholder agreement review', priority: 'high', estimatedHours: 2, dueInDays: 10, dependsOn: ['trade_licence'] },
+    { key: 'succession_plan', title: 'Agree business continuity and succession plan', estimatedHours: 2, dueInDays: 12, dependsOn: ['moa_review', 'shareholder_agreement'] },
+    { ...WILL_BASE_CHECKLIST[3], dependsOn: ['asset_schedule', 'succession_plan'] },
+    ...WILL_BASE_CHECKLIST.slice(4),
+  ],
+  trust_setup: [
+    ...WILL_BASE_CHECKLIST.slice(0, 3),
+    { key: 'trustee_selection', title: 'Confirm trustees and obtain consent to act', estimatedHours: 1, dueInDays: 10, dependsOn: ['intake_review'] },
+    { key: 'trust_terms', title: 'Agree trust terms and distribution conditions', estimatedHours: 2, dueInDays: 12, dependsOn: ['trustee_selection'] },
+    { ...WILL_BASE_CHECKLIST[3], dependsOn: ['asset_schedule', 'trust_terms'] },
+    ...WILL_BASE_CHECKLIST.slice(4),
+  ],
+  digital_assets: [
+    ...WILL_BASE_CHECKLIST.slice(0, 3),
+    { key: 'digital_inventory', title: 'Compile digital asset inventory', estimatedHours: 1.5, dueInDays: 10, dependsOn: ['intake_review'] },
+    { key: 'access_instructions', title: 'Agree sealed access instructions for digital assets', estimatedHours: 1, dueInDays: 12, dependsOn: ['digital_inventory'] },
+    { ...WILL_BASE_CHECKLIST[3], dependsOn: ['asset_schedule', 'access_instructions'] },
+    ...WILL_BASE_CHECKLIST.slice(4),
+  ],
+  guardianship_will: [
+    ...WILL_BASE_CHECKLIST.slice(0, 2),
+    { key: 'guardian_consent', title: 'Obtain guardian consent to act', estimatedHours: 0.5, dueInDays: 10, dependsOn: ['intake_review'] },
+    { key: 'birth_certificates', title: 'Collect children\'s birth certificates', estimatedHours: 0.5, dueInDays: 7, dependsOn: ['intake_review'] },
+    { key: 'draft_will', title: 'Draft guardianship will', estimatedHours: 2, dueInDays: 14, aiAssisted: true, dependsOn: ['guardian_consent', 'birth_certificates'] },
+    ...WILL_BASE_CHECKLIST.slice(4),
+  ],
+  will_amendment: [
+    WILL_BASE_CHECKLIST[0],
+    { key: 'existing_will', title: 'Obtain copy of registered will', estimatedHours: 0.5, dueInDays: 5, dependsOn: ['kyc'] },
+    { key: 'amendment_scope', title: 'Confirm scope of amendments with client', estimatedHours: 1, dueInDays: 7, dependsOn: ['existing_will'] },
+    { key: 'draft_will', title: 'Draft codicil or replacement will', estimatedHours: 2, dueInDays: 12, aiAssisted: true, dependsOn: ['amendment_scope'] },
+    ...WILL_BASE_CHECKLIST.slice(4),
+  ],
+  estate_administration: [
+    { key: 'death_certificate', title: 'Obtain death certificate', priority: 'high', estimatedHours: 0.5, dueInDays: 3 },
+    { key: 'registered_will', title: 'Retrieve registered will from DIFC', estimatedHours: 0.5, dueInDays: 5, dependsOn: ['death_certificate'] },
+    { key: 'probate_application', title: 'File probate application', priority: 'high', estimatedHours: 2, dueInDays: 14, dependsOn: ['registered_will'] },
+    { key: 'asset_collection', title: 'Collect and value estate assets', estimatedHours: 4, dueInDays: 45, dependsOn: ['probate_application'] },
+    { key: 'distribution', title: 'Distribute estate to beneficiaries', estimatedHours: 3, dueInDays: 90, dependsOn: ['asset_collection'] },
+  ],
+};
+
+// Get the default checklist for a matter type
+export function getDefaultChecklist(matterType: string): TaskTemplate[] {
+  return DEFAULT_TASK_CHECKLISTS[matterType] || WILL_BASE_CHECKLIST;
+}
+
+// Seed the default checklist for a newly created matter
+export async function seedDefaultTasks(matterId: string, matterType: string, assignedTo?: string | null) {
+  const templates = getDefaultChecklist(matterType);
+  if (templates.length === 0) return [];
+
+  // Assign ids up front so dependencies can reference tasks in the same insert
+  const idsByKey = new Map<string, string>(templates.map(template => [template.key, randomUUID()]));
+  const today = new Date();
+
+  return await db.insert(matterTasks).values(templates.map(template => ({
+    id: idsByKey.get(template.key)!,
+    matterId,
+    assignedTo: assignedTo || null,
+    title: template.title,
+    description: template.description,
+    priority: template.priority || 'normal',
+    status: 'pending',
+    dueDate: template.dueInDays !== undefined ? addDays(today, template.dueInDays) : null,
+    aiAssisted: template.aiAssisted || false,
+    estimatedHours: template.estimatedHours !== undefined ? template.estimatedHours.toFixed(2) : null,
+    billable: template.billable ?? true,
+    dependencies: (template.dependsOn || [])
+      .map(key => idsByKey.get(key))
+      .filter((id): id is string => !!id),
+  }))).returning();
+}
+
+// Get all tasks for a matter with their dependency state
+export async function getMatterTasks(matterId: string): Promise<TaskWithDependencyState[]> {
+  const tasks = await db
+    .select()
+    .from(matterTasks)
+    .where(eq(matterTasks.matterId, matterId))
+    .orderBy(matterTasks.createdAt);
+
+  return sortByDependencies(tasks).map(task => withDependencyState(task, tasks));
+}
+
+// Get a single task within a matter
+export async function getMatterTask(matterId: string, taskId: string) {
+  const [task] = await db
+    .select()
+    .from(matterTasks)
+    .where(and(
+      eq(matterTasks.id, taskId),
+      eq(matterTasks.matterId, matterId)
+    ))
+    .limit(1);
+
+  return task;
+}
+
+// Work out which unresolved dependencies are holding a task up
+export function withDependencyState(task: MatterTask, allTasks: MatterTask[]): TaskWithDependencyState {
+  const byId = new Map(allTasks.map(other => [other.id, other]));
+  const blockedBy = (task.dependencies || [])
+    .map(id => byId.get(id))
+    .filter((dependency): dependency is MatterTask => !!dependency)
+    .filter(dependency => !RESOLVED_STATUSES.includes(dependency.status as TaskStatus))
+    .map(dependency => ({ id: dependency.id, title: dependency.title, status: dependency.status }));
+
+  return { ...task, blocked: blockedBy.length > 0, blockedBy };
+}
+
+// Validate a proposed dependency list; returns a list of problems, empty when valid
+export function validateDependencies(taskId: string | null, dependencies: string[], allTasks: MatterTask[]): string[] {
+  const errors: string[] = [];
+  const byId = new Map(allTasks.map(task => [task.id, task]));
+
+  if (taskId && dependencies.includes(taskId)) {
+    errors.push('A task cannot depend on itself');
+  }
+
+  const unknown = dependencies.filter(id => id !== taskId && !byId.has(id));
+  if (unknown.length > 0) {
+    errors.push(`Dependencies not found on this matter: ${unknown.join(', ')}`);
+  }
+
+  // A new task has no dependents yet, so it cannot close a cycle
+  if (taskId && errors.length === 0) {
+    const cycle = findDependencyCycle(taskId, dependencies, allTasks);
+    if (cycle) {
+      const titles = cycle.map(id => byId.get(id)?.title || id);
+      errors.push(`Dependency cycle detected: ${titles.join(' → ')}`);
+    }
+  }
+
+  return errors;
+}
+
+// Find a cycle that would be created by giving a task these dependencies, returned as a path of task ids
+export function findDependencyCycle(taskId: string, dependencies: string[], allTasks: MatterTask[]): string[] | null {
+  const graph = new Map(allTasks.map(task => [task.id, task.dependencies || []]));
+  graph.set(taskId, dependencies);
+
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (visiting.has(id)) return [...path.slice(path.indexOf(id)), id];
+    if (visited.has(id)) return null;
+
+    visiting.add(id);
+    path.push(id);
+
+    for (const next of graph.get(id) || []) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+
+    path.pop();
+    visiting.delete(id);
+    visited.add(id);
+    return null;
+  };
+
+  return visit(taskId);
+}
+
+// Check whether a task may move to a status given its dependencies
+export function getStatusBlockers(task: MatterTask, status: string, allTasks: MatterTask[]) {
+  if (!GATED_STATUSES.includes(status as TaskStatus)) return [];
+  return withDependencyState(task, allTasks).blockedBy;
+}
+
+// Record task events on the matter timeline
+export async function recordTaskEvent(
+  matterId: string,
+  userId: string,
+  eventType: 'task_created' | 'task_completed',
+  task: MatterTask
+) {
+  await db.insert(matterTimeline).values({
+    matterId,
+    userId,
+    eventType,
+    title: eventType === 'task_created' ? `Task created: ${task.title}` : `Task completed: ${task.title}`,
+    metadata: { taskId: task.id },
+    clientVisible: false,
+  });
+}
+
+// Remove a task and drop it from the dependency lists of other tasks
+export async function deleteMatterTask(matterId: string, taskId: string) {
+  const [deleted] = await db
+    .delete(matterTasks)
+    .where(and(
+      eq(matterTasks.id, taskId),
+      eq(matterTasks.matterId, matterId)
+    ))
+    .returning();
+
+  // One statement, so a dependency list edited meanwhile is not overwritten with a stale copy
+  if (deleted) {
+    await db
+      .update(matterTasks)
+      .set({
+        dependencies: sql`(${matterTasks.dependencies}::jsonb - ${taskId}::text)::json`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(matterTasks.matterId, matterId),
+        sql`${matterTasks.dependencies}::jsonb @> jsonb_build_array(${taskId}::text)`
+      ));
+  }
+
+  return deleted;
+}
+
+// Flag open tasks whose due date has passed as overdue
+export async function flagOverdueTasks(asOf: Date = new Date()) {
+  const today = asOf.toISOString().split('T')[0];
+
+  return await db
+    .update(matterTasks)
+    .set({
+      status: 'overdue',
+      updatedAt: new Date(),
+    })
+    .where(and(
+      inArray(matterTasks.status, ['pending', 'in_progress']),
+      lt(matterTasks.dueDate, today)
+    ))
+    .returning({
+      id: matterTasks.id,
+      matterId: matterTasks.matterId,
+      title: matterTasks.title,
+      dueDate: matterTasks.dueDate,
+    });
+}
+
+// Order tasks so each one comes after the tasks it depends on
+function sortByDependencies(tasks: MatterTask[]): MatterTask[] {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const ordered: MatterTask[] = [];
+  const placed = new Set<string>();
+
+  const place = (task: MatterTask, trail: Set<string>) => {
+    if (placed.has(task.id) || trail.has(task.id)) return;
+    trail.add(task.id);
+    for (const dependencyId of task.dependencies || []) {
+      const dependency = byId.get(dependencyId);
+      if (dependency) place(dependency, trail);
+    }
+    placed.add(task.id);
+    ordered.push(task);
+  };
+
+  tasks.forEach(task => place(task, new Set()));
+  return ordered;
+}
+
+function addDays(date: Date, days: number): string {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result.toISOString().split('T')[0];
+}
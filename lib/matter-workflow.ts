@@ -0,0 +1,253 @@
+/**
+ * Matter Workflow Engine for Mirath Legal
+ * Validates and applies matter status transitions and records them on the matter timeline
+ */
+
+import { db } from "@/db/drizzle";
+import { lawFirmMembers, matters, matterTimeline, user, wills } from "@/db/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import {
+  findTransition,
+  getStatusLabel,
+  getTransitionsFrom,
+  isMatterStatus,
+  MATTER_STATUS_DEFINITIONS,
+  type MatterStatus,
+  type MatterTransition,
+  type TransitionGuard,
+  type TransitionRole,
+} from "./matter-status";
+
+// Types for transition checks
+export type TransitionFailure = 'invalid_status' | 'invalid_transition' | 'forbidden' | 'guard_failed';
+
+export interface TransitionCheck {
+  allowed: boolean;
+  failure?: TransitionFailure;
+  reasons: string[];
+  transition?: MatterTransition;
+}
+
+export interface TransitionResult extends TransitionCheck {
+  matter?: typeof matters.$inferSelect;
+}
+
+type MatterRecord = typeof matters.$inferSelect;
+
+// HTTP status returned by the API for each kind of failed transition
+export const TRANSITION_FAILURE_HTTP_STATUS: Record<TransitionFailure, number> = {
+  invalid_status: 400,
+  invalid_transition: 409,
+  forbidden: 403,
+  guard_failed: 422,
+};
+
+// Human-readable explanation for each guard when it fails
+const GUARD_MESSAGES: Record<TransitionGuard, string> = {
+  intake_data_present: 'Client intake data must be captured before assessment',
+  will_exists: 'A will must be created for this matter',
+  will_difc_compliant: 'The will must pass the DIFC compliance check',
+  will_registered: 'The will must have a DIFC registration number',
+  resumes_previous_status: 'A matter on hold can only resume at the status it was paused from',
+};
+
+// Resolve the workflow role of a user within a firm; null means the user cannot move matters
+export async function getTransitionRole(userId: string, lawFirmId: string): Promise<TransitionRole | 'super_admin' | null> {
+  const [userData] = await db
+    .select({ userType: user.userType })
+    .from(user)
+    .where(eq(user.id, userId))
+    .limit(1);
+
+  if (userData?.userType === 'super_admin') return 'super_admin';
+
+  const [membership] = await db
+    .select({ role: lawFirmMembers.role })
+    .from(lawFirmMembers)
+    .where(and(
+      eq(lawFirmMembers.userId, userId),
+      eq(lawFirmMembers.lawFirmId, lawFirmId)
+    ))
+    .limit(1);
+
+  if (!membership) return null;
+
+  // Older memberships store the firm admin role as 'admin'
+  const role = membership.role === 'admin' ? 'firm_admin' : membership.role;
+  return ['firm_admin', 'senior_lawyer', 'lawyer', 'support'].includes(role) ? role as TransitionRole : null;
+}
+
+// Check whether a matter may move to a new status without changing anything
+export async function checkMatterTransition(
+  matter: MatterRecord,
+  toStatus: string,
+  userId: string
+): Promise<TransitionCheck> {
+  if (!isMatterStatus(toStatus)) {
+    return { allowed: false, failure: 'invalid_status', reasons: [`Unknown matter status: ${toStatus}`] };
+  }
+
+  const transition = findTransition(matter.status, toStatus);
+  if (!transition) {
+    return {
+      allowed: false,
+      failure: 'invalid_transition',
+      reasons: [`A matter cannot move from ${getStatusLabel(matter.status)} to ${getStatusLabel(toStatus)}`],
+    };
+  }
+
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !transition.roles.includes(role))) {
+    return {
+      allowed: false,
+      failure: 'forbidden',
+      reasons: [`Your role cannot perform "${transition.label}"`],
+      transition,
+    };
+  }
+
+  const failedGuards = await evaluateGuards(matter, transition);
+  if (failedGuards.length > 0) {
+    return {
+      allowed: false,
+      failure: 'guard_failed',
+      reasons: failedGuards.map(guard => GUARD_MESSAGES[guard]),
+      transition,
+    };
+  }
+
+  return { allowed: true, reasons: [], transition };
+}
+
+// Move a matter to a new status and record the change on the timeline
+export async function transitionMatterStatus(
+  matterId: string,
+  toStatus: string,
+  userId: string,
+  options: { reason?: string; clientVisible?: boolean } = {}
+): Promise<TransitionResult> {
+  const [matter] = await db
+    .select()
+    .from(matters)
+    .where(eq(matters.id, matterId))
+    .limit(1);
+
+  if (!matter) throw new Error('Matter not found');
+
+  const check = await checkMatterTransition(matter, toStatus, userId);
+  if (!check.allowed) return check;
+
+  const previousStatus = matter.status;
+  const newStatus = toStatus as MatterStatus;
+
+  // A single conditional update decides the race: it only applies if nobody else moved the matter meanwhile
+  const [updatedMatter] = await db
+    .update(matters)
+    .set({
+      status: newStatus,
+      ...(newStatus === 'completed' && { actualCompletionDate: new Date().toISOString().split('T')[0] }),
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(matters.id, matterId),
+      previousStatus ? eq(matters.status, previousStatus) : isNull(matters.status)
+    ))
+    .returning();
+
+  if (!updatedMatter) {
+    return {
+      allowed: false,
+      failure: 'invalid_transition',
+      reasons: ['The matter status was changed by someone else; reload and try again'],
+    };
+  }
+
+  await db.insert(matterTimeline).values({
+    matterId,
+    userId,
+    eventType: 'status_change',
+    title: `Status changed to ${MATTER_STATUS_DEFINITIONS[newStatus].label}`,
+    description: options.reason || check.transition?.label,
+    metadata: {
+      previousStatus: previousStatus || undefined,
+      newStatus,
+    },
+    clientVisible: options.clientVisible ?? true,
+  });
+
+  return { ...check, matter: updatedMatter };
+}
+
+// List the transitions the user could make from the matter's current status, with guard results
+export async function getAvailableTransitions(matter: MatterRecord, userId: string) {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role) return [];
+
+  const transitions = getTransitionsFrom(matter.status, role === 'super_admin' ? undefined : role);
+
+  return await Promise.all(transitions.map(async transition => {
+    const failedGuards = await evaluateGuards(matter, transition);
+    return {
+      to: transition.to,
+      label: transition.label,
+      allowed: failedGuards.length === 0,
+      reasons: failedGuards.map(guard => GUARD_MESSAGES[guard]),
+    };
+  }));
+}
+
+// Return the guards that are not satisfied for a transition
+async function evaluateGuards(matter: MatterRecord, transition: MatterTransition): Promise<TransitionGuard[]> {
+  if (transition.guards.length === 0) return [];
+
+  const needsWill = transition.guards.some(guard => guard.startsWith('will_'));
+  const [will] = needsWill
+    ? await db
+      .select()
+      .from(wills)
+      .where(eq(wills.matterId, matter.id))
+      .orderBy(desc(wills.version))
+      .limit(1)
+    : [];
+
+  const failed: TransitionGuard[] = [];
+
+  for (const guard of transition.guards) {
+    switch (guard) {
+      case 'intake_data_present':
+        if (!matter.intakeData || Object.keys(matter.intakeData).length === 0) failed.push(guard);
+        break;
+      case 'will_exists':
+        if (!will) failed.push(guard);
+        break;
+      case 'will_difc_compliant':
+        if (!will?.difcCompliant) failed.push(guard);
+        break;
+      case 'will_registered':
+        if (!will?.difcRegistrationNumber) failed.push(guard);
+        break;
+      case 'resumes_previous_status': {
+        // Matters paused before hold events were recorded may resume anywhere
+        const statusBeforeHold = await getStatusBeforeHold(matter.id);
+        if (statusBeforeHold && statusBeforeHold !== transition.to) failed.push(guard);
+        break;
+      }
+    }
+  }
+
+  return failed;
+}
+
+// Find the status a matter was in when it was last put on hold
+async function getStatusBeforeHold(matterId: string): Promise<string | undefined> {
+  const events = await db
+    .select({ metadata: matterTimeline.metadata })
+    .from(matterTimeline)
+    .where(and(
+      eq(matterTimeline.matterId, matterId),
+      eq(matterTimeline.eventType, 'status_change')
+    ))
+    .orderBy(desc(matterTimeline.timestamp));
+
+  return events.find(event => event.metadata?.newStatus === 'on_hold')?.metadata?.previousStatus;
+}
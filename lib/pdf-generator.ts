@@ -7,6 +7,7 @@ import puppeteer from 'puppeteer';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
+import type { BilingualClauseSide, BilingualLayout, BilingualWill } from './will-translation';
 
 export interface PDFOptions {
   format?: 'A4' | 'Letter';
@@ -33,6 +34,109 @@ export interface WillPDFData {
     difcCompliant?: boolean;
     documentId?: string;
   };
+  // Parallel Arabic/English text; replaces content when present
+  bilingual?: {
+    layout: BilingualLayout;
+    will: BilingualWill;
+  };
+  // Attestation recorded at the signing ceremony, printed after the will
+  attestation?: {
+    heading: string;
+    statement: string;
+  };
+}
+
+export interface InvoicePDFData {
+  invoiceNumber: string;
+  issueDate: string;
+  dueDate: string;
+  currency: string;
+  firm: {
+    name: string;
+    email: string;
+    phone?: string | null;
+    address?: string;
+    licenseNumber?: string;
+    vatNumber?: string;
+  };
+  client: {
+    name: string;
+    email?: string | null;
+  };
+  matter: {
+    matterNumber: string;
+    title: string;
+  };
+  lineItems: Array<{
+    entryDate: string;
+    description: string;
+    activityType: string;
+    hours: number;
+    rate: number;
+    amount: number;
+  }>;
+  subtotal: number;
+  vatRate: number;
+  vatAmount: number;
+  total: number;
+  notes?: string | null;
+}
+
+export interface SubmissionCoverPDFData {
+  preparedAt: string;
+  firm: {
+    name: string;
+    licenseNumber?: string | null;
+  };
+  matter: {
+    matterNumber: string;
+    title: string;
+  };
+  testator: {
+    name: string;
+    nationality?: string;
+    passportNumber?: string;
+    emiratesId?: string;
+  };
+  will: {
+    willType: string;
+    version: number;
+    language: string;
+  };
+  index: Array<{
+    section: string;
+    fileName: string;
+    startPage?: number;
+    pageCount?: number;
+  }>;
+  witnesses: Array<{
+    fullName: string;
+    idNumber: string;
+    nationality?: string;
+    address?: string;
+  }>;
+  fees: {
+    currency: string;
+    registrationFee: number;
+    processingFee: number;
+    additionalFees: number;
+    totalFees: number;
+    paymentReference?: string | null;
+    feesPaid: boolean;
+  };
+}
+
+export interface LetterOfWishesPDFData {
+  title: string;
+  language: 'en' | 'ar';
+  preparedAt: string;
+  testatorName: string;
+  firmName?: string;
+  willReference?: string;
+  sections: Array<{
+    heading: string;
+    body: string;
+  }>;
 }
 
 const DEFAULT_PDF_OPTIONS: PDFOptions = {
@@ -60,6 +164,15 @@ const DEFAULT_PDF_OPTIONS: PDFOptions = {
 export async function generateWillPDF(
   willData: WillPDFData,
   options: PDFOptions = {}
+): Promise<Buffer> {
+  // Generate HTML content for the will
+  return await renderHTMLToPDF(generateWillHTML(willData), options);
+}
+
+// Render an HTML document to PDF with Puppeteer
+async function renderHTMLToPDF(
+  htmlContent: string,
+  options: PDFOptions = {}
 ): Promise<Buffer> {
   const mergedOptions = { ...DEFAULT_PDF_OPTIONS, ...options };
   
@@ -73,9 +186,6 @@ export async function generateWillPDF(
 
     const page = await browser.newPage();
 
-    // Generate HTML content for the will
-    const htmlContent = generateWillHTML(willData);
-
     // Set content and wait for any fonts/styles to load
     await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
 
@@ -102,11 +212,13 @@ export async function generateWillPDF(
 }
 
 function generateWillHTML(willData: WillPDFData): string {
-  const { title, content, metadata } = willData;
+  const { title, content, metadata, bilingual, attestation } = willData;
+  // Bilingual documents keep a left-to-right page; each block sets its own direction
+  const rtl = metadata.language === 'ar' && !bilingual;
   
   return `
 <!DOCTYPE html>
-<html lang="${metadata.language === 'ar' ? 'ar' : 'en'}" ${metadata.language === 'ar' ? 'dir="rtl"' : ''}>
+<html lang="${metadata.language === 'ar' ? 'ar' : 'en'}" ${rtl ? 'dir="rtl"' : ''}>
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -203,6 +315,18 @@ function generateWillHTML(willData: WillPDFData): string {
       width: 45%;
     }
 
+    .attestation-section {
+      margin-top: 40px;
+      padding-top: 20px;
+      border-top: 1px solid #000;
+      page-break-inside: avoid;
+    }
+
+    .attestation-title {
+      font-weight: bold;
+      margin-bottom: 10px;
+    }
+
     .compliance-footer {
       margin-top: 60px;
       padding-top: 20px;
@@ -248,8 +372,53 @@ function generateWillHTML(willData: WillPDFData): string {
       }
     }
 
+    /* Bilingual layouts */
+    .bilingual-table {
+      width: 100%;
+      border-collapse: collapse;
+      table-layout: fixed;
+      margin-bottom: 40px;
+    }
+
+    .bilingual-table td {
+      width: 50%;
+      vertical-align: top;
+      padding: 8px 12px;
+    }
+
+    .bilingual-table td + td {
+      border-left: 1px solid #ccc;
+    }
+
+    .bilingual-pair {
+      margin-bottom: 24px;
+    }
+
+    .bilingual-pair .clause-block + .clause-block {
+      margin-top: 10px;
+      padding-top: 10px;
+      border-top: 1px dashed #ccc;
+    }
+
+    .clause-block {
+      white-space: pre-line;
+      text-align: justify;
+    }
+
+    .clause-block[dir="rtl"] {
+      font-family: 'Amiri', 'Times New Roman', serif;
+      text-align: right;
+      unicode-bidi: isolate;
+    }
+
+    .clause-review {
+      font-size: 9pt;
+      color: #b45309;
+      font-style: italic;
+    }
+
     /* Arabic language specific styles */
-    ${metadata.language === 'ar' ? `
+    ${rtl ? `
       body {
         font-family: 'Amiri', 'Times New Roman', serif;
         direction: rtl;
@@ -273,13 +442,21 @@ function generateWillHTML(willData: WillPDFData): string {
     <div class="document-meta">
       <div>Document ID: ${metadata.documentId || 'N/A'}</div>
       <div>Generated: ${metadata.generatedAt ? new Date(metadata.generatedAt).toLocaleDateString() : new Date().toLocaleDateString()}</div>
-      <div>Language: ${metadata.language === 'ar' ? 'Arabic' : 'English'}</div>
+      <div>Language: ${bilingual ? 'English / Arabic' : metadata.language === 'ar' ? 'Arabic' : 'English'}</div>
       <div>Type: ${metadata.willType?.replace('_', ' ').toUpperCase() || 'STANDARD'} WILL</div>
       <div class="compliance-status">${metadata.difcCompliant ? 'DIFC COMPLIANT' : 'REQUIRES REVIEW'}</div>
     </div>
   </div>
 
-  <div class="will-content">${content.replace(/\n/g, '<br>')}</div>
+  ${bilingual
+    ? generateBilingualHTML(bilingual.will, bilingual.layout)
+    : `<div class="will-content">${content.replace(/\n/g, '<br>')}</div>`}
+
+  ${attestation ? `
+  <div class="attestation-section">
+    <div class="attestation-title">${escapeHTML(attestation.heading)}</div>
+    <div>${escapeHTML(attestation.statement).replace(/\n/g, '<br>')}</div>
+  </div>` : ''}
 
   <div class="compliance-footer">
     <div class="compliance-title">DIFC Compliance Information</div>
@@ -306,6 +483,353 @@ function generateWillHTML(willData: WillPDFData): string {
   `.trim();
 }
 
+// Clause-by-clause Arabic/English body, side by side or one after the other
+function generateBilingualHTML(will: BilingualWill, layout: BilingualLayout): string {
+  if (layout === 'alternating') {
+    return will.clauses.map(clause => `
+  <div class="bilingual-pair">
+    ${generateClauseBlockHTML(clause.primary)}
+    ${generateClauseBlockHTML(clause.secondary, clause.needsReview)}
+  </div>`).join('');
+  }
+
+  // English always sits in the left column and Arabic in the right
+  return `
+  <table class="bilingual-table">
+    ${will.clauses.map(clause => {
+      const [left, right] = clause.primary.language === 'en'
+        ? [generateClauseBlockHTML(clause.primary), generateClauseBlockHTML(clause.secondary, clause.needsReview)]
+        : [generateClauseBlockHTML(clause.secondary, clause.needsReview), generateClauseBlockHTML(clause.primary)];
+      return `<tr><td>${left}</td><td>${right}</td></tr>`;
+    }).join('')}
+  </table>`;
+}
+
+function generateClauseBlockHTML(side: BilingualClauseSide, needsReview = false): string {
+  const heading = side.heading
+    ? `<div class="clause-number">${side.label ? `${escapeHTML(side.label)} ` : ''}${escapeHTML(side.heading)}</div>`
+    : '';
+
+  return `<div class="clause-block" lang="${side.language}" dir="${side.language === 'ar' ? 'rtl' : 'ltr'}">${heading}${escapeHTML(side.text)}${
+    needsReview ? '<div class="clause-review">Translation pending review</div>' : ''
+  }</div>`;
+}
+
+// Generate a tax invoice PDF for billed time entries
+export async function generateInvoicePDF(
+  invoiceData: InvoicePDFData,
+  options: PDFOptions = {}
+): Promise<Buffer> {
+  return await renderHTMLToPDF(generateInvoiceHTML(invoiceData), {
+    margin: { top: '0.75in', right: '0.75in', bottom: '0.75in', left: '0.75in' },
+    headerTemplate: '<div></div>',
+    footerTemplate: `
+      <div style="font-size: 9px; margin: 0 auto; color: #666; text-align: center; width: 100%;">
+        <span>${escapeHTML(invoiceData.invoiceNumber)} | Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
+      </div>
+    `,
+    ...options,
+  });
+}
+
+function generateInvoiceHTML(invoiceData: InvoicePDFData): string {
+  const { firm, client, matter, lineItems, currency } = invoiceData;
+  const money = (amount: number) => `${currency} ${amount.toLocaleString('en-AE', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Tax Invoice ${escapeHTML(invoiceData.invoiceNumber)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: Arial, sans-serif; font-size: 10pt; color: #111; line-height: 1.5; }
+    .header { display: flex; justify-content: space-between; border-bottom: 2px solid #111; padding-bottom: 16px; margin-bottom: 24px; }
+    .firm-name { font-size: 16pt; font-weight: bold; }
+    .invoice-title { font-size: 18pt; font-weight: bold; text-align: right; text-transform: uppercase; }
+    .muted { color: #666; }
+    .parties { display: flex; justify-content: space-between; margin-bottom: 24px; }
+    .label { font-size: 8pt; text-transform: uppercase; color: #666; letter-spacing: 0.5px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+    th { text-align: left; font-size: 8pt; text-transform: uppercase; color: #666; border-bottom: 1px solid #999; padding: 6px 4px; }
+    td { border-bottom: 1px solid #e5e5e5; padding: 6px 4px; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals { width: 45%; margin-left: auto; }
+    .totals td { border: none; padding: 4px; }
+    .grand-total td { border-top: 2px solid #111; font-weight: bold; font-size: 12pt; }
+    .notes { margin-top: 24px; padding: 12px; background: #f5f5f5; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <div class="firm-name">${escapeHTML(firm.name)}</div>
+      ${firm.address ? `<div class="muted">${escapeHTML(firm.address)}</div>` : ''}
+      <div class="muted">${escapeHTML(firm.email)}${firm.phone ? ` | ${escapeHTML(firm.phone)}` : ''}</div>
+      ${firm.licenseNumber ? `<div class="muted">Licence No. ${escapeHTML(firm.licenseNumber)}</div>` : ''}
+      ${firm.vatNumber ? `<div class="muted">TRN ${escapeHTML(firm.vatNumber)}</div>` : ''}
+    </div>
+    <div>
+      <div class="invoice-title">Tax Invoice</div>
+      <div class="num"><strong>${escapeHTML(invoiceData.invoiceNumber)}</strong></div>
+      <div class="num muted">Issued ${escapeHTML(invoiceData.issueDate)}</div>
+      <div class="num muted">Due ${escapeHTML(invoiceData.dueDate)}</div>
+    </div>
+  </div>
+
+  <div class="parties">
+    <div>
+      <div class="label">Bill To</div>
+      <div><strong>${escapeHTML(client.name)}</strong></div>
+      ${client.email ? `<div class="muted">${escapeHTML(client.email)}</div>` : ''}
+    </div>
+    <div style="text-align: right;">
+      <div class="label">Matter</div>
+      <div><strong>${escapeHTML(matter.matterNumber)}</strong></div>
+      <div class="muted">${escapeHTML(matter.title)}</div>
+    </div>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Date</th>
+        <th>Description</th>
+        <th class="num">Hours</th>
+        <th class="num">Rate</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${lineItems.map(item => `
+      <tr>
+        <td class="num">${escapeHTML(item.entryDate)}</td>
+        <td>${escapeHTML(item.description)}<div class="muted">${escapeHTML(item.activityType)}</div></td>
+        <td class="num">${item.hours.toFixed(2)}</td>
+        <td class="num">${money(item.rate)}</td>
+        <td class="num">${money(item.amount)}</td>
+      </tr>`).join('')}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>Subtotal</td><td class="num">${money(invoiceData.subtotal)}</td></tr>
+    <tr><td>VAT (${(invoiceData.vatRate * 100).toFixed(0)}%)</td><td class="num">${money(invoiceData.vatAmount)}</td></tr>
+    <tr class="grand-total"><td>Total Due</td><td class="num">${money(invoiceData.total)}</td></tr>
+  </table>
+
+  ${invoiceData.notes ? `<div class="notes">${escapeHTML(invoiceData.notes)}</div>` : ''}
+</body>
+</html>
+  `.trim();
+}
+
+// Generate the cover sheet, index, witness details and fee form for a DIFC submission package
+export async function generateSubmissionCoverPDF(
+  coverData: SubmissionCoverPDFData,
+  options: PDFOptions = {}
+): Promise<Buffer> {
+  return await renderHTMLToPDF(generateSubmissionCoverHTML(coverData), {
+    margin: { top: '0.75in', right: '0.75in', bottom: '0.75in', left: '0.75in' },
+    headerTemplate: '<div></div>',
+    footerTemplate: `
+      <div style="font-size: 9px; margin: 0 auto; color: #666; text-align: center; width: 100%;">
+        <span>${escapeHTML(coverData.matter.matterNumber)} | DIFC Submission Package | CONFIDENTIAL</span>
+      </div>
+    `,
+    ...options,
+  });
+}
+
+function generateSubmissionCoverHTML(coverData: SubmissionCoverPDFData): string {
+  const { firm, matter, testator, will, index, witnesses, fees } = coverData;
+  const money = (amount: number) => `${fees.currency} ${amount.toLocaleString('en-AE', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+  const pages = (entry: SubmissionCoverPDFData['index'][number]) => {
+    if (!entry.startPage || !entry.pageCount) return 'ZIP only';
+    return entry.pageCount === 1
+      ? `${entry.startPage}`
+      : `${entry.startPage}–${entry.startPage + entry.pageCount - 1}`;
+  };
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>DIFC Submission Package ${escapeHTML(matter.matterNumber)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: Arial, sans-serif; font-size: 10pt; color: #111; line-height: 1.5; }
+    section { page-break-after: always; }
+    section:last-child { page-break-after: auto; }
+    h1 { font-size: 18pt; text-transform: uppercase; margin-bottom: 4px; }
+    h2 { font-size: 13pt; border-bottom: 2px solid #111; padding-bottom: 6px; margin-bottom: 16px; }
+    .muted { color: #666; }
+    .label { font-size: 8pt; text-transform: uppercase; color: #666; letter-spacing: 0.5px; }
+    .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 12px 24px; margin: 24px 0; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+    th { text-align: left; font-size: 8pt; text-transform: uppercase; color: #666; border-bottom: 1px solid #999; padding: 6px 4px; }
+    td { border-bottom: 1px solid #e5e5e5; padding: 6px 4px; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .total td { border-top: 2px solid #111; font-weight: bold; }
+    .signature { margin-top: 48px; border-top: 1px solid #111; width: 45%; padding-top: 4px; }
+  </style>
+</head>
+<body>
+  <section>
+    <h1>DIFC Wills Registration</h1>
+    <div class="muted">Submission package prepared ${escapeHTML(coverData.preparedAt)}</div>
+    <div class="grid">
+      <div><div class="label">Submitting Firm</div><div><strong>${escapeHTML(firm.name)}</strong></div>
+        ${firm.licenseNumber ? `<div class="muted">Licence No. ${escapeHTML(firm.licenseNumber)}</div>` : ''}</div>
+      <div><div class="label">Matter</div><div><strong>${escapeHTML(matter.matterNumber)}</strong></div>
+        <div class="muted">${escapeHTML(matter.title)}</div></div>
+      <div><div class="label">Testator</div><div><strong>${escapeHTML(testator.name)}</strong></div>
+        ${testator.nationality ? `<div class="muted">${escapeHTML(testator.nationality)}</div>` : ''}</div>
+      <div><div class="label">Identification</div>
+        ${testator.passportNumber ? `<div>Passport ${escapeHTML(testator.passportNumber)}</div>` : ''}
+        ${testator.emiratesId ? `<div>Emirates ID ${escapeHTML(testator.emiratesId)}</div>` : ''}</div>
+      <div><div class="label">Will</div><div>${escapeHTML(will.willType.replace(/_/g, ' '))} will, version ${will.version}</div>
+        <div class="muted">Language: ${escapeHTML(will.language.toUpperCase())}</div></div>
+    </div>
+
+    <h2>Index</h2>
+    <table>
+      <thead><tr><th>#</th><th>Section</th><th>File</th><th class="num">Pages</th></tr></thead>
+      <tbody>
+        ${index.map((entry, position) => `
+        <tr>
+          <td>${position + 1}</td>
+          <td>${escapeHTML(entry.section)}</td>
+          <td class="muted">${escapeHTML(entry.fileName)}</td>
+          <td class="num">${pages(entry)}</td>
+        </tr>`).join('')}
+      </tbody>
+    </table>
+  </section>
+
+  <section>
+    <h2>Witness Details</h2>
+    <table>
+      <thead><tr><th>#</th><th>Full Name</th><th>ID / Passport No.</th><th>Nationality</th><th>Address</th></tr></thead>
+      <tbody>
+        ${witnesses.map((witness, position) => `
+        <tr>
+          <td>${position + 1}</td>
+          <td>${escapeHTML(witness.fullName)}</td>
+          <td>${escapeHTML(witness.idNumber)}</td>
+          <td>${escapeHTML(witness.nationality || '')}</td>
+          <td>${escapeHTML(witness.address || '')}</td>
+        </tr>`).join('')}
+      </tbody>
+    </table>
+    <p class="muted">Witnesses confirm they are over 21, are not beneficiaries under the will and are not married to a beneficiary.</p>
+  </section>
+
+  <section>
+    <h2>Registration Fee Form</h2>
+    <table>
+      <tr><td>Registration fee</td><td class="num">${money(fees.registrationFee)}</td></tr>
+      <tr><td>Processing fee</td><td class="num">${money(fees.processingFee)}</td></tr>
+      <tr><td>Additional fees</td><td class="num">${money(fees.additionalFees)}</td></tr>
+      <tr class="total"><td>Total payable</td><td class="num">${money(fees.totalFees)}</td></tr>
+    </table>
+    <div class="grid">
+      <div><div class="label">Payment Reference</div><div>${escapeHTML(fees.paymentReference || 'Pending')}</div></div>
+      <div><div class="label">Payment Status</div><div>${fees.feesPaid ? 'Paid' : 'Unpaid'}</div></div>
+    </div>
+    <div class="signature">Authorised signatory, ${escapeHTML(firm.name)}</div>
+  </section>
+</body>
+</html>
+  `.trim();
+}
+
+// Generate a letter of wishes; it sits alongside the will and is expressly not binding
+export async function generateLetterOfWishesPDF(
+  letterData: LetterOfWishesPDFData,
+  options: PDFOptions = {}
+): Promise<Buffer> {
+  return await renderHTMLToPDF(generateLetterOfWishesHTML(letterData), {
+    headerTemplate: '<div></div>',
+    footerTemplate: `
+      <div style="font-size: 9px; margin: 0 auto; color: #666; text-align: center; width: 100%;">
+        <span>Page <span class="pageNumber"></span> of <span class="totalPages"></span> | Letter of Wishes | CONFIDENTIAL</span>
+      </div>
+    `,
+    ...options,
+  });
+}
+
+function generateLetterOfWishesHTML(letterData: LetterOfWishesPDFData): string {
+  const rtl = letterData.language === 'ar';
+  const labels = rtl
+    ? {
+        from: 'من',
+        prepared: 'تاريخ الإعداد',
+        will: 'الوصية',
+        notice: 'هذا الخطاب تعبير عن رغباتي لمساعدة منفذي وصيتي والأوصياء، وهو غير ملزم قانوناً ولا يشكل جزءاً من وصيتي ولا يعدّلها. وفي حال أي تعارض تسري أحكام الوصية.',
+        signature: 'التوقيع',
+      }
+    : {
+        from: 'From',
+        prepared: 'Prepared',
+        will: 'Will',
+        notice: 'This letter sets out my wishes to guide my executors and guardians. It is not legally binding, does not form part of my will and does not amend it. If anything here conflicts with my will, my will prevails.',
+        signature: 'Signature',
+      };
+
+  return `
+<!DOCTYPE html>
+<html lang="${rtl ? 'ar' : 'en'}" ${rtl ? 'dir="rtl"' : ''}>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHTML(letterData.title)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: ${rtl ? "'Amiri', 'Times New Roman'" : "'Times New Roman'"}, serif; font-size: 12pt; color: #111; line-height: 1.6; }
+    h1 { font-size: 18pt; text-align: center; margin-bottom: 8px; }
+    h2 { font-size: 13pt; margin: 24px 0 8px; }
+    .muted { color: #666; font-size: 10pt; }
+    .meta { text-align: center; margin-bottom: 24px; }
+    .notice { border: 1px solid #999; background: #f7f7f7; padding: 12px; font-size: 10pt; margin-bottom: 16px; }
+    .body { white-space: pre-wrap; }
+    .signature { margin-top: 64px; border-top: 1px solid #111; width: 45%; padding-top: 4px; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHTML(letterData.title)}</h1>
+  <div class="meta muted">
+    <div>${labels.from}: ${escapeHTML(letterData.testatorName)}</div>
+    ${letterData.willReference ? `<div>${labels.will}: ${escapeHTML(letterData.willReference)}</div>` : ''}
+    <div>${labels.prepared}: ${escapeHTML(letterData.preparedAt)}${letterData.firmName ? ` | ${escapeHTML(letterData.firmName)}` : ''}</div>
+  </div>
+  <div class="notice">${labels.notice}</div>
+  ${letterData.sections.map(section => `
+  <h2>${escapeHTML(section.heading)}</h2>
+  <div class="body">${escapeHTML(section.body)}</div>`).join('')}
+  <div class="signature">${labels.signature}: ${escapeHTML(letterData.testatorName)}</div>
+</body>
+</html>
+  `.trim();
+}
+
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 // Alternative PDF generation using jsPDF for lighter weight
 export async function generateSimplePDF(
   willData: WillPDFData
@@ -4,7 +4,7 @@
  */
 
 import { db } from "@/db/drizzle";
-import { lawFirmMembers, lawFirms, user } from "@/db/schema";
+import { lawFirmMembers, lawFirms, matters, user, wills } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
 
 // Define role hierarchy
@@ -258,6 +258,31 @@ export async function hasAllPermissions(
   return permissions.every(permission => userPermissions.includes(permission));
 }
 
+// Check a permission on a specific will, scoped to the firm handling it; clients only reach their own wills
+export async function hasWillPermission(
+  userId: string,
+  permission: Permission,
+  willId: string
+): Promise<boolean> {
+  const [will] = await db
+    .select({ testatorId: wills.testatorId, lawFirmId: matters.lawFirmId })
+    .from(wills)
+    .innerJoin(matters, eq(wills.matterId, matters.id))
+    .where(eq(wills.id, willId))
+    .limit(1);
+
+  if (!will) return false;
+
+  if (!await hasPermission(userId, permission, { userId, willId, firmId: will.lawFirmId })) {
+    return false;
+  }
+
+  if (will.testatorId === userId) return true;
+
+  // Everyone else needs a staff role in the will's firm, or to be a super admin
+  return await hasMinimumRole(userId, ROLES.SUPPORT, will.lawFirmId);
+}
+
 // Role hierarchy check - check if user role is at least the required level
 const ROLE_HIERARCHY = {
   [ROLES.CLIENT]: 0,
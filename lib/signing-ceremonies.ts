@@ -0,0 +1,650 @@
+/**
+ * Signing Ceremonies for Mirath Legal
+ * Records who witnessed a will and when and where it was executed, checks that no witness is a beneficiary
+ * or a beneficiary's spouse, and renders the final will with the witness details and attestation filled in
+ */
+
+import { db } from "@/db/drizzle";
+import { appointments, matterDocuments, matters, matterTimeline, signingCeremonies, user, wills } from "@/db/schema";
+import { and, desc, eq, inArray, lte, ne, sql } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { getTransitionRole } from "./matter-workflow";
+import { documentStorage } from "./document-storage";
+import { assembleFirmWill } from "./clause-library";
+import { formatExecutionDate, type ClauseLanguage, type ExecutionDetails } from "./will-clauses";
+import { getWillTemplate, toWillContentData, type Beneficiary, type Trust } from "./will-engine";
+import { generateWillPDF } from "./pdf-generator";
+import { formatFirmDate } from "./appointments";
+import type { TransitionRole } from "./matter-status";
+
+export const CEREMONY_STATUSES = ['scheduled', 'executed', 'cancelled'] as const;
+
+export type CeremonyStatus = typeof CEREMONY_STATUSES[number];
+export type SigningCeremony = typeof signingCeremonies.$inferSelect;
+export type CeremonyWitness = SigningCeremony['witnesses'][number];
+type WillRecord = typeof wills.$inferSelect;
+type MatterRecord = typeof matters.$inferSelect;
+type MatterDocument = typeof matterDocuments.$inferSelect;
+
+type CeremonyResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+const LAWYERS: TransitionRole[] = ['firm_admin', 'senior_lawyer', 'lawyer'];
+
+// DIFC wills are signed in front of two witnesses aged 21 or over
+const REQUIRED_WITNESSES = 2;
+const MIN_WITNESS_AGE = 21;
+
+// Appointment statuses that can still host the ceremony
+const BOOKABLE_APPOINTMENT_STATUSES = ['pending', 'confirmed'];
+
+// Validation schemas for signing ceremony requests
+const witnessSchema = z.object({
+  id: z.string().optional(),
+  fullName: z.string().trim().min(1).max(200),
+  idType: z.enum(['emirates_id', 'passport']),
+  idNumber: z.string().trim().min(1).max(100),
+  nationality: z.string().trim().min(1).max(100),
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  address: z.string().trim().min(1).max(500),
+  maritalStatus: z.enum(['single', 'married', 'divorced', 'widowed']),
+  spouseName: z.string().trim().max(200).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().max(50).optional(),
+}).refine(witness => witness.maritalStatus !== 'married' || !!witness.spouseName, {
+  message: "Name a married witness's spouse so they can be checked against the beneficiaries",
+  path: ['spouseName'],
+});
+
+export const createCeremonySchema = z.object({
+  appointmentId: z.string().uuid().optional(),
+  executionPlace: z.string().trim().min(1).max(300).optional(),
+  witnesses: z.array(witnessSchema).max(REQUIRED_WITNESSES).default([]),
+  notes: z.string().max(5000).optional(),
+});
+
+export const updateCeremonySchema = z.object({
+  appointmentId: z.string().uuid().nullable().optional(),
+  executionPlace: z.string().trim().min(1).max(300).optional(),
+  witnesses: z.array(witnessSchema).max(REQUIRED_WITNESSES).optional(),
+  notes: z.string().max(5000).optional(),
+  status: z.literal('cancelled').optional(),
+});
+
+export const recordExecutionSchema = z.object({
+  executedAt: z.coerce.date().optional(), // Defaults to now
+  executionPlace: z.string().trim().min(1).max(300).optional(),
+  testatorIdentityVerified: z.literal(true, {
+    errorMap: () => ({ message: "Confirm the testator's identity was checked against their Emirates ID or passport" }),
+  }),
+  testatorCapacityConfirmed: z.literal(true, {
+    errorMap: () => ({ message: 'Confirm the testator understood the will and signed it freely' }),
+  }),
+  allPresentThroughout: z.literal(true, {
+    errorMap: () => ({ message: 'Confirm the testator and both witnesses were present at the same time throughout' }),
+  }),
+  clauseKeys: z.array(z.string()).optional(), // Optional clauses the will was generated with
+  notes: z.string().max(5000).optional(),
+  clientVisible: z.boolean().default(false),
+  clientDownloadable: z.boolean().default(false),
+});
+
+export type WitnessInput = z.infer<typeof witnessSchema>;
+export type CreateCeremonyInput = z.infer<typeof createCeremonySchema>;
+export type UpdateCeremonyInput = z.infer<typeof updateCeremonySchema>;
+export type RecordExecutionInput = z.infer<typeof recordExecutionSchema>;
+
+// Ceremonies held, or planned, for a will, newest first
+export async function getWillCeremonies(willId: string): Promise<SigningCeremony[]> {
+  return await db
+    .select()
+    .from(signingCeremonies)
+    .where(eq(signingCeremonies.willId, willId))
+    .orderBy(desc(signingCeremonies.createdAt));
+}
+
+// Get a signing ceremony, scoped to its will
+export async function getWillCeremony(willId: string, ceremonyId: string): Promise<SigningCeremony | null> {
+  const [ceremony] = await db
+    .select()
+    .from(signingCeremonies)
+    .where(and(eq(signingCeremonies.id, ceremonyId), eq(signingCeremonies.willId, willId)))
+    .limit(1);
+
+  return ceremony || null;
+}
+
+// The executed ceremony for a will, if it has been signed
+export async function getExecutedCeremony(willId: string): Promise<SigningCeremony | null> {
+  const [ceremony] = await db
+    .select()
+    .from(signingCeremonies)
+    .where(and(eq(signingCeremonies.willId, willId), eq(signingCeremonies.status, 'executed')))
+    .orderBy(desc(signingCeremonies.executedAt))
+    .limit(1);
+
+  return ceremony || null;
+}
+
+// Plan a signing ceremony for a final will
+export async function createSigningCeremony(
+  will: WillRecord,
+  matter: MatterRecord,
+  userId: string,
+  input: CreateCeremonyInput
+): Promise<CeremonyResult<SigningCeremony>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can arrange a signing ceremony', status: 403 };
+  }
+
+  if (will.status !== 'final') {
+    return { success: false, error: 'Only a final will can be signed', status: 409 };
+  }
+
+  const [existing] = await db
+    .select({ id: signingCeremonies.id, status: signingCeremonies.status })
+    .from(signingCeremonies)
+    .where(and(eq(signingCeremonies.willId, will.id), inArray(signingCeremonies.status, ['scheduled', 'executed'])))
+    .limit(1);
+
+  if (existing) {
+    return {
+      success: false,
+      error: existing.status === 'executed'
+        ? 'This will has already been signed'
+        : 'This will already has a signing ceremony arranged',
+      status: 409,
+    };
+  }
+
+  if (input.appointmentId) {
+    const appointmentCheck = await checkAppointment(input.appointmentId, matter);
+    if (!appointmentCheck.success) return appointmentCheck;
+  }
+
+  const witnesses = await checkWitnesses(input.witnesses, will);
+  if (!witnesses.success) return witnesses;
+
+  const [ceremony] = await db.insert(signingCeremonies).values({
+    willId: will.id,
+    matterId: matter.id,
+    appointmentId: input.appointmentId,
+    executionPlace: input.executionPlace,
+    witnesses: witnesses.data,
+    notes: input.notes,
+    createdBy: userId,
+  }).returning();
+
+  // Two lawyers arranging a ceremony at once: the later one gives way to the earlier one
+  const [earlier] = await db
+    .select({ id: signingCeremonies.id })
+    .from(signingCeremonies)
+    .where(and(
+      eq(signingCeremonies.willId, will.id),
+      inArray(signingCeremonies.status, ['scheduled', 'executed']),
+      ne(signingCeremonies.id, ceremony.id),
+      lte(signingCeremonies.createdAt, ceremony.createdAt)
+    ))
+    .limit(1);
+
+  if (earlier) {
+    await db.delete(signingCeremonies).where(eq(signingCeremonies.id, ceremony.id));
+    return { success: false, error: 'This will already has a signing ceremony arranged', status: 409 };
+  }
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'signing_ceremony',
+    title: 'Signing ceremony arranged',
+    description: input.executionPlace ? `To be held at ${input.executionPlace}` : undefined,
+    metadata: { ceremonyId: ceremony.id, willId: will.id, appointmentId: input.appointmentId },
+    clientVisible: true,
+  });
+
+  return { success: true, data: ceremony };
+}
+
+// Change the witnesses, place or appointment of a ceremony that has not been held, or cancel it
+export async function updateSigningCeremony(
+  ceremony: SigningCeremony,
+  will: WillRecord,
+  matter: MatterRecord,
+  userId: string,
+  input: UpdateCeremonyInput
+): Promise<CeremonyResult<SigningCeremony>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can change a signing ceremony', status: 403 };
+  }
+
+  if (ceremony.status !== 'scheduled') {
+    return { success: false, error: `A ${ceremony.status} ceremony cannot be changed`, status: 409 };
+  }
+
+  if (input.appointmentId && input.appointmentId !== ceremony.appointmentId) {
+    const appointmentCheck = await checkAppointment(input.appointmentId, matter);
+    if (!appointmentCheck.success) return appointmentCheck;
+  }
+
+  let witnesses: CeremonyWitness[] | undefined;
+  if (input.witnesses) {
+    const checked = await checkWitnesses(input.witnesses, will);
+    if (!checked.success) return checked;
+    witnesses = checked.data;
+  }
+
+  const [updated] = await db
+    .update(signingCeremonies)
+    .set({
+      appointmentId: input.appointmentId,
+      executionPlace: input.executionPlace,
+      witnesses,
+      notes: input.notes,
+      status: input.status,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(signingCeremonies.id, ceremony.id), eq(signingCeremonies.status, 'scheduled')))
+    .returning();
+
+  if (!updated) {
+    return { success: false, error: 'The ceremony was changed by someone else; reload and try again', status: 409 };
+  }
+
+  if (input.status === 'cancelled') {
+    await db.insert(matterTimeline).values({
+      matterId: matter.id,
+      userId,
+      eventType: 'signing_ceremony',
+      title: 'Signing ceremony cancelled',
+      metadata: { ceremonyId: ceremony.id, willId: will.id },
+      clientVisible: true,
+    });
+  }
+
+  return { success: true, data: updated };
+}
+
+// Record that the will was signed before the two witnesses, render the final will and attestation,
+// and file it as the matter's final will
+export async function recordExecution(
+  ceremony: SigningCeremony,
+  will: WillRecord,
+  matter: MatterRecord,
+  userId: string,
+  input: RecordExecutionInput
+): Promise<CeremonyResult<{ ceremony: SigningCeremony; document: MatterDocument }>> {
+  const role = await getTransitionRole(userId, matter.lawFirmId);
+  if (!role || (role !== 'super_admin' && !LAWYERS.includes(role))) {
+    return { success: false, error: 'Only lawyers can record the signing of a will', status: 403 };
+  }
+
+  if (ceremony.status !== 'scheduled') {
+    return { success: false, error: `A ${ceremony.status} ceremony cannot be recorded`, status: 409 };
+  }
+
+  if (will.status !== 'final') {
+    return { success: false, error: 'Only a final will can be signed', status: 409 };
+  }
+
+  const executedAt = input.executedAt || new Date();
+  if (executedAt.getTime() > Date.now() + 5 * 60_000) {
+    return { success: false, error: 'The signing time cannot be in the future', status: 400 };
+  }
+
+  const executionPlace = input.executionPlace || ceremony.executionPlace;
+  if (!executionPlace) {
+    return { success: false, error: 'Record where the will was signed', status: 400 };
+  }
+
+  if (ceremony.witnesses.length !== REQUIRED_WITNESSES) {
+    return { success: false, error: `The will must be signed before exactly ${REQUIRED_WITNESSES} witnesses`, status: 422 };
+  }
+
+  // The will or a witness's age may have moved on since the witnesses were added
+  const executionDate = formatFirmDate(executedAt);
+  const rechecked = await checkWitnesses(ceremony.witnesses, will, executionDate);
+  if (!rechecked.success) return rechecked;
+  const witnesses = rechecked.data;
+
+  const [[testator], [lawyer]] = await Promise.all([
+    db.select({ name: user.name }).from(user).where(eq(user.id, will.testatorId)).limit(1),
+    db.select({ name: user.name }).from(user).where(eq(user.id, userId)).limit(1),
+  ]);
+  const testatorName = testator?.name || 'Testator';
+  const language: ClauseLanguage = will.language === 'ar' ? 'ar' : 'en';
+
+  const execution: ExecutionDetails = {
+    date: executionDate,
+    place: executionPlace,
+    witnesses: witnesses.map(witness => ({
+      fullName: witness.fullName,
+      idType: witness.idType,
+      idNumber: witness.idNumber,
+      nationality: witness.nationality,
+      address: witness.address,
+    })),
+  };
+
+  const assembled = await assembleFirmWill(toWillContentData(will), getWillTemplate(will.willType), {
+    firmId: matter.lawFirmId,
+    language,
+    clauseKeys: input.clauseKeys,
+    testatorName,
+    execution,
+  });
+
+  const attestation = {
+    statement: buildAttestationStatement(testatorName, execution, lawyer?.name || 'the supervising lawyer', language),
+    testatorName,
+    willVersion: will.version || 1,
+    witnessIds: witnesses.map(witness => witness.id),
+    testatorIdentityVerified: input.testatorIdentityVerified,
+    testatorCapacityConfirmed: input.testatorCapacityConfirmed,
+    allPresentThroughout: input.allPresentThroughout,
+    conductedBy: userId,
+    recordedAt: new Date().toISOString(),
+  };
+
+  const pdfBuffer = await generateWillPDF({
+    title: language === 'ar' ? 'الوصية الأخيرة' : 'Last Will and Testament',
+    content: assembled.content,
+    metadata: {
+      testatorName,
+      willType: will.willType,
+      generatedAt: executedAt.toISOString(),
+      language,
+      difcCompliant: will.difcCompliant || false,
+      documentId: will.id,
+    },
+    attestation: {
+      heading: language === 'ar' ? 'محضر الإشهاد' : 'ATTESTATION',
+      statement: attestation.statement,
+    },
+  });
+
+  const [previous] = await db
+    .select()
+    .from(matterDocuments)
+    .where(and(
+      eq(matterDocuments.matterId, matter.id),
+      eq(matterDocuments.documentType, 'final_will'),
+      eq(matterDocuments.isLatestVersion, true)
+    ))
+    .limit(1);
+
+  const version = (previous?.version || 0) + 1;
+  const fileName = `Final_Will_${matter.matterNumber.replace(/[^a-zA-Z0-9-]/g, '_')}_v${version}.pdf`;
+
+  const storageResult = await documentStorage.uploadDocument(pdfBuffer, {
+    filename: fileName,
+    contentType: 'application/pdf',
+    documentType: 'will_pdf',
+    uploadedBy: userId,
+    willId: will.id,
+    tags: { ceremonyId: ceremony.id, category: 'final_will', executionDate },
+  });
+
+  if (!storageResult.success || !storageResult.url) {
+    return { success: false, error: storageResult.error || 'Failed to store the final will', status: 500 };
+  }
+
+  const clientVisible = input.clientVisible;
+  const clientDownloadable = clientVisible && input.clientDownloadable;
+  const now = new Date();
+
+  // Recording the ceremony as executed is what settles two lawyers recording it at once
+  const [executed] = await db
+    .update(signingCeremonies)
+    .set({
+      status: 'executed',
+      executionPlace,
+      executedAt,
+      witnesses,
+      attestation,
+      notes: input.notes ?? ceremony.notes,
+      updatedAt: now,
+    })
+    .where(and(eq(signingCeremonies.id, ceremony.id), eq(signingCeremonies.status, 'scheduled')))
+    .returning({ id: signingCeremonies.id });
+
+  if (!executed) {
+    return { success: false, error: 'The ceremony was changed by someone else; reload and try again', status: 409 };
+  }
+
+  const [document] = await db.insert(matterDocuments).values({
+    matterId: matter.id,
+    willId: will.id,
+    documentType: 'final_will',
+    fileName,
+    fileUrl: storageResult.url,
+    fileSize: pdfBuffer.length,
+    mimeType: 'application/pdf',
+    version,
+    parentDocumentId: previous?.id,
+    generatedBy: 'lawyer',
+    status: 'final',
+    clientVisible,
+    clientDownloadable,
+    accessLevel: clientVisible ? 'client' : 'internal',
+  }).returning();
+
+  const [recorded] = await db
+    .update(signingCeremonies)
+    .set({ documentId: document.id })
+    .where(eq(signingCeremonies.id, ceremony.id))
+    .returning();
+
+  if (previous) {
+    await db
+      .update(matterDocuments)
+      .set({ isLatestVersion: false, updatedAt: now })
+      .where(eq(matterDocuments.id, previous.id));
+  }
+
+  // The ceremony was the appointment, so it has now taken place
+  if (ceremony.appointmentId) {
+    await db
+      .update(appointments)
+      .set({ status: 'completed', icsSequence: sql`${appointments.icsSequence} + 1`, updatedAt: now })
+      .where(and(
+        eq(appointments.id, ceremony.appointmentId),
+        inArray(appointments.status, BOOKABLE_APPOINTMENT_STATUSES)
+      ));
+  }
+
+  await db.insert(matterTimeline).values({
+    matterId: matter.id,
+    userId,
+    eventType: 'signing_ceremony',
+    title: 'Will signed and witnessed',
+    description: `Signed at ${executionPlace} before ${witnesses.map(witness => witness.fullName).join(' and ')}`,
+    metadata: { ceremonyId: ceremony.id, willId: will.id, documentId: document.id, executedAt: executedAt.toISOString() },
+    clientVisible: true,
+  });
+
+  return { success: true, data: { ceremony: recorded, document } };
+}
+
+// Why a witness may not witness this will; empty when they may
+export function checkWitnessEligibility(
+  witness: WitnessInput,
+  will: Pick<WillRecord, 'personalInfo' | 'beneficiaries' | 'trusts'>,
+  testatorName: string,
+  onDate: string
+): string[] {
+  const reasons: string[] = [];
+  const name = normaliseName(witness.fullName);
+  const spouse = witness.spouseName ? normaliseName(witness.spouseName) : '';
+  const idNumber = normaliseId(witness.idNumber);
+
+  const testatorIds = [will.personalInfo?.emiratesId, will.personalInfo?.passportNumber]
+    .filter((id): id is string => !!id)
+    .map(normaliseId);
+  if (name === normaliseName(testatorName) || testatorIds.includes(idNumber)) {
+    reasons.push(`${witness.fullName} is the testator`);
+  }
+
+  // Everyone who takes under the will, directly or through a trust
+  const beneficiaries = [
+    ...((will.beneficiaries || []) as Beneficiary[]).map(beneficiary => ({
+      fullName: beneficiary.fullName,
+      ids: beneficiaryIds(beneficiary.contactInfo),
+      label: 'a beneficiary under the will',
+    })),
+    ...((will.trusts || []) as Trust[]).flatMap(trust => trust.beneficiaries.map(beneficiary => ({
+      fullName: beneficiary.fullName,
+      ids: [] as string[],
+      label: `a beneficiary of the ${trust.name}`,
+    }))),
+  ];
+
+  for (const beneficiary of beneficiaries) {
+    const beneficiaryName = normaliseName(beneficiary.fullName);
+    if (!beneficiaryName) continue;
+
+    if (beneficiaryName === name || beneficiary.ids.includes(idNumber)) {
+      reasons.push(`${witness.fullName} is ${beneficiary.label}`);
+    }
+    if (spouse && beneficiaryName === spouse) {
+      reasons.push(`${witness.fullName}'s spouse, ${witness.spouseName}, is ${beneficiary.label}`);
+    }
+  }
+
+  if (ageOn(witness.dateOfBirth, onDate) < MIN_WITNESS_AGE) {
+    reasons.push(`${witness.fullName} must be at least ${MIN_WITNESS_AGE} years old`);
+  }
+
+  return [...new Set(reasons)];
+}
+
+// Check every witness against the will, keeping each one's id so saved records stay stable
+async function checkWitnesses(
+  witnesses: WitnessInput[],
+  will: WillRecord,
+  onDate: string = formatFirmDate(new Date())
+): Promise<CeremonyResult<CeremonyWitness[]>> {
+  const ids = witnesses.map(witness => normaliseId(witness.idNumber));
+  if (new Set(ids).size !== ids.length) {
+    return { success: false, error: 'The two witnesses must be different people', status: 422 };
+  }
+
+  const [testator] = await db.select({ name: user.name }).from(user).where(eq(user.id, will.testatorId)).limit(1);
+  const checkedAt = new Date().toISOString();
+
+  const checked = witnesses.map((witness): CeremonyWitness => {
+    const reasons = checkWitnessEligibility(witness, will, testator?.name || '', onDate);
+    return {
+      ...witness,
+      id: witness.id || randomUUID(),
+      eligibility: { eligible: reasons.length === 0, reasons, checkedAt },
+    };
+  });
+
+  const ineligible = checked.flatMap(witness => witness.eligibility.reasons);
+  if (ineligible.length > 0) {
+    return { success: false, error: `Ineligible witness: ${ineligible.join('; ')}`, status: 422 };
+  }
+
+  return { success: true, data: checked };
+}
+
+// The ceremony's appointment must be an open booking on the same matter, or one not yet tied to a matter
+async function checkAppointment(appointmentId: string, matter: MatterRecord): Promise<CeremonyResult<null>> {
+  const [appointment] = await db
+    .select()
+    .from(appointments)
+    .where(and(eq(appointments.id, appointmentId), eq(appointments.lawFirmId, matter.lawFirmId)))
+    .limit(1);
+
+  if (!appointment) {
+    return { success: false, error: 'Appointment not found', status: 404 };
+  }
+
+  if (appointment.matterId && appointment.matterId !== matter.id) {
+    return { success: false, error: 'The appointment belongs to another matter', status: 422 };
+  }
+
+  if (!BOOKABLE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+    return { success: false, error: `A ${appointment.status} appointment cannot host the ceremony`, status: 409 };
+  }
+
+  const [taken] = await db
+    .select({ id: signingCeremonies.id })
+    .from(signingCeremonies)
+    .where(and(eq(signingCeremonies.appointmentId, appointmentId), ne(signingCeremonies.status, 'cancelled')))
+    .limit(1);
+
+  if (taken) {
+    return { success: false, error: 'Another signing ceremony is already using this appointment', status: 409 };
+  }
+
+  return { success: true, data: null };
+}
+
+// Attestation wording for the record and the final will, in the will's language
+function buildAttestationStatement(
+  testatorName: string,
+  execution: ExecutionDetails,
+  lawyerName: string,
+  language: ClauseLanguage
+): string {
+  const signedOn = formatExecutionDate(execution, language);
+
+  if (language === 'ar') {
+    const witnesses = execution.witnesses
+      .map((witness, index) => `الشاهد ${index === 0 ? 'الأول' : 'الثاني'}: ${witness.fullName}، ${witness.idNumber}، ${witness.nationality}`)
+      .join('\n');
+
+    return `وقّع الموصي المذكور أعلاه ${testatorName} على هذه الوصية بوصفها وصيته الأخيرة ${signedOn}، بحضورنا مجتمعين في الوقت ذاته، وقد وقّعنا بصفتنا شاهدين بناءً على طلب الموصي وفي حضوره وفي حضور كل منا للآخر.
+
+${witnesses}
+
+أكد كل شاهد أنه لا يقل عمره عن ${MIN_WITNESS_AGE} عاماً، وأنه ليس مستفيداً بموجب هذه الوصية وليس زوجاً لأحد المستفيدين. وقد تم التحقق من هوية الموصي، وأُجريت مراسم التوقيع بإشراف ${lawyerName}.`;
+  }
+
+  const witnesses = execution.witnesses
+    .map((witness, index) => `Witness ${index + 1}: ${witness.fullName}, ${witness.idNumber}, ${witness.nationality}`)
+    .join('\n');
+
+  return `SIGNED by the above-named ${testatorName.toUpperCase()} as the testator's last Will on ${signedOn}, in our presence, both present at the same time, who at the testator's request and in the testator's presence and in the presence of each other have signed our names as witnesses.
+
+${witnesses}
+
+Each witness confirmed that they are at least ${MIN_WITNESS_AGE} years old, are not a beneficiary under this Will and are not the spouse of a beneficiary. The testator's identity was verified and the signing was supervised by ${lawyerName}.`;
+}
+
+// Identity numbers a beneficiary's contact details may carry
+function beneficiaryIds(contactInfo: unknown): string[] {
+  if (!contactInfo || typeof contactInfo !== 'object') return [];
+  const info = contactInfo as Record<string, unknown>;
+
+  return [info.emiratesId, info.passportNumber, info.idNumber]
+    .filter((id): id is string => typeof id === 'string' && id.trim().length > 0)
+    .map(normaliseId);
+}
+
+// Compare names ignoring case, accents, punctuation and spacing
+function normaliseName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function normaliseId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9]/g, '').toUpperCase();
+}
+
+// Whole years between a YYYY-MM-DD birth date and another date
+function ageOn(dateOfBirth: string, onDate: string): number {
+  const [birthYear, birthMonth, birthDay] = dateOfBirth.split('-').map(Number);
+  const [year, month, day] = onDate.split('-').map(Number);
+  const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+  return year - birthYear - (hadBirthday ? 0 : 1);
+}
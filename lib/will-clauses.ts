@@ -0,0 +1,870 @@
+/**
+ * Will Clause Catalogue for Mirath Legal
+ * Built-in clause wording with {{variable}} placeholders, and the assembler that builds a will from selected clauses
+ */
+
+import type {
+  Asset,
+  Beneficiary,
+  BusinessJurisdiction,
+  CreateWillData,
+  DigitalAssetCategory,
+  DigitalAssetDisposition,
+  Executor,
+  Guardian,
+  Trust,
+  UpdateWillData,
+} from "./will-engine";
+
+export type ClauseLanguage = 'en' | 'ar';
+
+export const CLAUSE_LANGUAGES: ClauseLanguage[] = ['en', 'ar'];
+
+type WillContentData = CreateWillData | UpdateWillData;
+
+// Structured records a clause was drafted from
+export interface ClauseSources {
+  assetIds: string[];
+  beneficiaryIds: string[];
+  executorIds: string[];
+  guardianIds: string[];
+  trusteeIds: string[];
+}
+
+export interface ClauseDefinition {
+  key: string;
+  title: string;
+  heading: Record<ClauseLanguage, string> | null; // Unnumbered blocks such as the preamble have no heading
+  required: boolean; // Required clauses are always included, whatever the selection
+  appliesTo: (will: WillContentData) => boolean;
+  sources?: (will: WillContentData) => Partial<ClauseSources>;
+  body: Record<ClauseLanguage, string>;
+}
+
+// Wording resolved for one clause, from a firm override or the built-in text
+export interface ClauseText {
+  body: string;
+  source: 'default' | 'firm';
+  versionId?: string;
+  version?: number;
+}
+
+export interface AssembledClause {
+  clauseKey: string;
+  number: number | null;
+  heading: string | null;
+  text: string;
+  variables: string[]; // Variables the wording referenced
+  sources: ClauseSources;
+  language: ClauseLanguage;
+  source: 'default' | 'firm';
+  versionId?: string;
+  version?: number;
+}
+
+export interface AssembledWill {
+  content: string;
+  language: ClauseLanguage;
+  clauses: AssembledClause[];
+}
+
+// When and where the will was signed, and by whom it was witnessed
+export interface ExecutionDetails {
+  date: string; // YYYY-MM-DD in the firm's timezone
+  place: string;
+  witnesses: Array<{
+    fullName: string;
+    idType: 'emirates_id' | 'passport';
+    idNumber: string;
+    nationality: string;
+    address: string;
+  }>;
+}
+
+export interface AssembleOptions {
+  language?: ClauseLanguage;
+  clauseKeys?: string[]; // Optional clauses to include; all applicable clauses when omitted
+  testatorName?: string;
+  overrides?: Record<string, ClauseText>; // Firm wording keyed by clause key
+  execution?: ExecutionDetails; // Fills the execution block; blank lines are printed until the will is signed
+}
+
+// Variables a clause body may reference
+export const CLAUSE_VARIABLES: Record<string, string> = {
+  testatorName: 'Full name of the testator',
+  emiratesId: 'Emirates ID number',
+  nationality: 'Nationality of the testator',
+  visaStatus: 'UAE visa type',
+  address: 'Residential address',
+  maritalStatement: 'Sentence stating marital status and spouse',
+  assetList: 'Lettered list of specific bequests',
+  beneficiaryList: 'Lettered list of beneficiaries and their shares',
+  executorAppointment: 'Appointment of primary and alternate executors',
+  guardianAppointment: 'Appointment of primary and alternate guardians',
+  trustProvisions: 'Lettered list of testamentary trusts with their trustees, beneficiaries, vesting ages and distribution terms',
+  businessSuccession: 'Lettered list of business shareholdings with their successors, interim managers and buy-sell terms',
+  digitalAssetList: 'Lettered list of digital assets with their platform, identifier and what should happen to each',
+  specialInstructions: 'Special instructions given by the testator',
+  executionDate: 'Day, month and year the will was signed and where, or blanks to complete by hand',
+  witnessBlock: 'Names, identity documents and signature lines of the two witnesses, or blank lines',
+  templateName: 'Name of the will template',
+  languageName: 'Language the will is written in',
+  preparedDate: 'Date the document was prepared',
+};
+
+const hasAssets = (will: WillContentData) => (will.assets?.length || 0) > 0;
+const businessAssets = (will: WillContentData) =>
+  will.assets?.filter(asset => asset.type === 'business' && asset.business) || [];
+const hasDigitalAssets = (will: WillContentData) =>
+  will.willType === 'digital_assets' || !!will.assets?.some(asset => asset.type === 'digital');
+
+// Every clause in document order
+export const CLAUSE_DEFINITIONS: ClauseDefinition[] = [
+  {
+    key: 'preamble',
+    title: 'Preamble',
+    heading: null,
+    required: true,
+    appliesTo: () => true,
+    body: {
+      en: `LAST WILL AND TESTAMENT
+
+IN THE NAME OF ALLAH, THE MOST GRACIOUS, THE MOST MERCIFUL
+
+I, {{testatorName}}, holder of Emirates ID No. {{emiratesId}}, of {{nationality}} nationality, {{visaStatus}} visa holder, residing at {{address}}, being of sound mind and disposing memory, do hereby make, publish and declare this to be my Last Will and Testament, hereby revoking all former wills and codicils made by me.
+
+PRELIMINARY DECLARATIONS`,
+      ar: `الوصية الأخيرة
+
+بسم الله الرحمن الرحيم
+
+أنا، {{testatorName}}، حامل الهوية الإماراتية رقم {{emiratesId}}، {{nationality}} الجنسية، حامل تأشيرة {{visaStatus}}، والمقيم في {{address}}، وأنا بكامل قواي العقلية وأهليتي للتصرف، أحرر وأعلن أن هذه وصيتي الأخيرة، وألغي بموجبها جميع الوصايا والملاحق السابقة الصادرة عني.
+
+إقرارات تمهيدية`,
+    },
+  },
+  {
+    key: 'identification',
+    title: 'Identification',
+    heading: { en: 'IDENTIFICATION', ar: 'التعريف' },
+    required: false,
+    appliesTo: () => true,
+    body: {
+      en: '{{maritalStatement}}',
+      ar: '{{maritalStatement}}',
+    },
+  },
+  {
+    key: 'jurisdiction',
+    title: 'DIFC Jurisdiction',
+    heading: { en: 'DIFC JURISDICTION', ar: 'اختصاص مركز دبي المالي العالمي' },
+    required: true,
+    appliesTo: () => true,
+    body: {
+      en: 'This Will is made pursuant to the DIFC Wills and Probate Registry Law and shall be governed by the laws of the Dubai International Financial Centre (DIFC). I hereby submit to the jurisdiction of the DIFC Courts for all matters relating to this Will.',
+      ar: 'حُررت هذه الوصية وفقاً لقانون سجل الوصايا والتركات في مركز دبي المالي العالمي، وتخضع لقوانين مركز دبي المالي العالمي. وأقبل بموجب هذا اختصاص محاكم مركز دبي المالي العالمي في جميع المسائل المتعلقة بهذه الوصية.',
+    },
+  },
+  {
+    key: 'revocation',
+    title: 'Revocation',
+    heading: { en: 'REVOCATION', ar: 'الإلغاء' },
+    required: true,
+    appliesTo: () => true,
+    body: {
+      en: 'I hereby revoke all prior wills, codicils, and testamentary dispositions made by me.',
+      ar: 'ألغي بموجب هذا جميع الوصايا والملاحق والتصرفات الوصائية السابقة الصادرة عني.',
+    },
+  },
+  {
+    key: 'specific_bequests',
+    title: 'Specific Bequests',
+    heading: { en: 'SPECIFIC BEQUESTS', ar: 'الوصايا المحددة' },
+    required: false,
+    appliesTo: hasAssets,
+    sources: will => ({ assetIds: will.assets?.map(asset => asset.id) }),
+    body: {
+      en: '{{assetList}}',
+      ar: '{{assetList}}',
+    },
+  },
+  {
+    key: 'beneficiaries',
+    title: 'Beneficiary Provisions',
+    heading: { en: 'BENEFICIARY PROVISIONS', ar: 'أحكام المستفيدين' },
+    required: false,
+    appliesTo: will => (will.beneficiaries?.length || 0) > 0,
+    sources: will => ({ beneficiaryIds: will.beneficiaries?.map(beneficiary => beneficiary.id) }),
+    body: {
+      en: '{{beneficiaryList}}',
+      ar: '{{beneficiaryList}}',
+    },
+  },
+  {
+    key: 'executor_appointment',
+    title: 'Appointment of Executors',
+    heading: { en: 'APPOINTMENT OF EXECUTOR(S)', ar: 'تعيين منفذي الوصية' },
+    required: false,
+    appliesTo: will => (will.executors?.length || 0) > 0,
+    sources: will => ({ executorIds: will.executors?.map(executor => executor.id) }),
+    body: {
+      en: '{{executorAppointment}}',
+      ar: '{{executorAppointment}}',
+    },
+  },
+  {
+    key: 'executor_powers',
+    title: 'Executor Powers',
+    heading: { en: 'POWERS OF EXECUTOR(S)', ar: 'صلاحيات منفذي الوصية' },
+    required: false,
+    appliesTo: will => (will.executors?.length || 0) > 0,
+    body: {
+      en: `I grant to my Executor(s) full power and authority to:
+a) Sell, transfer, or otherwise dispose of any of my assets
+b) Pay all debts, taxes, and expenses of my estate
+c) Distribute assets according to the terms of this Will
+d) Take all actions necessary for the proper administration of my estate`,
+      ar: `أمنح منفذ (منفذي) وصيتي كامل الصلاحية والسلطة من أجل:
+أ) بيع أي من أصولي أو نقلها أو التصرف فيها بأي وجه آخر
+ب) سداد جميع ديون تركتي وضرائبها ومصاريفها
+ج) توزيع الأصول وفقاً لأحكام هذه الوصية
+د) اتخاذ جميع الإجراءات اللازمة لحسن إدارة تركتي`,
+    },
+  },
+  {
+    key: 'guardianship',
+    title: 'Guardianship',
+    heading: { en: 'APPOINTMENT OF GUARDIAN(S)', ar: 'تعيين الأوصياء' },
+    required: false,
+    appliesTo: will => (will.guardians?.length || 0) > 0,
+    sources: will => ({ guardianIds: will.guardians?.map(guardian => guardian.id) }),
+    body: {
+      en: '{{guardianAppointment}}',
+      ar: '{{guardianAppointment}}',
+    },
+  },
+  {
+    key: 'testamentary_trusts',
+    title: 'Testamentary Trusts',
+    heading: { en: 'TESTAMENTARY TRUSTS', ar: 'الأمانات الوصائية' },
+    required: false,
+    appliesTo: will => (will.trusts?.length || 0) > 0,
+    sources: will => ({
+      assetIds: will.trusts?.flatMap(trust => trust.assetIds),
+      beneficiaryIds: will.trusts?.flatMap(trust => trust.beneficiaries.flatMap(beneficiary => beneficiary.beneficiaryId ? [beneficiary.beneficiaryId] : [])),
+      trusteeIds: will.trusts?.flatMap(trust => trust.trustees.map(trustee => trustee.id)),
+    }),
+    body: {
+      en: `I give the property described below to my Trustees to hold on the following trusts:
+{{trustProvisions}}
+In addition to the powers conferred on them by law, my Trustees shall have all the powers given to my Executor(s) by this Will, may invest trust property as if they were absolutely entitled to it, and shall not be liable for any loss to the trust fund unless caused by their own fraud or wilful default. Where a beneficiary dies before their share vests, that share shall pass to the other beneficiaries of the same trust in proportion to their shares.`,
+      ar: `أوصي بالأموال المبينة أدناه إلى الأمناء لديّ ليحتفظوا بها على سبيل الأمانة وفقاً لما يلي:
+{{trustProvisions}}
+وبالإضافة إلى الصلاحيات المقررة لهم قانوناً، يتمتع الأمناء بجميع الصلاحيات الممنوحة لمنفذ (منفذي) وصيتي بموجب هذه الوصية، ولهم استثمار أموال الأمانة كما لو كانوا مالكين لها ملكية مطلقة، ولا يُسألون عن أي خسارة تلحق بأموال الأمانة إلا إذا نتجت عن غشهم أو تقصيرهم المتعمد. وإذا توفي أحد المستفيدين قبل أن تؤول إليه حصته، انتقلت تلك الحصة إلى باقي المستفيدين من الأمانة ذاتها بنسبة حصصهم.`,
+    },
+  },
+  {
+    key: 'business_succession',
+    title: 'Business Succession',
+    heading: { en: 'BUSINESS INTERESTS AND SUCCESSION', ar: 'الحصص في الشركات وانتقال ملكيتها' },
+    required: false,
+    appliesTo: will => businessAssets(will).length > 0,
+    sources: will => ({
+      assetIds: businessAssets(will).map(asset => asset.id),
+      beneficiaryIds: businessAssets(will).flatMap(asset =>
+        asset.business?.successors.flatMap(successor => successor.beneficiaryId ? [successor.beneficiaryId] : []) || []
+      ),
+    }),
+    body: {
+      en: `I make the following provisions for my business interests:
+{{businessSuccession}}
+My Executor(s) may exercise all rights attached to these shares, including voting, signing shareholder resolutions and dealing with the relevant licensing authority, and shall transfer each shareholding subject to the constitutional documents of the company and any pre-emption rights of its other shareholders. My Executor(s) shall not be liable for any fall in the value of a business while it is carried on in accordance with this Will.`,
+      ar: `أوصي بما يلي بشأن حصصي في الشركات:
+{{businessSuccession}}
+ولمنفذ (منفذي) وصيتي ممارسة جميع الحقوق المرتبطة بهذه الأسهم، بما في ذلك التصويت وتوقيع قرارات الشركاء والتعامل مع جهة الترخيص المختصة، وعليهم نقل كل حصة وفقاً لعقد تأسيس الشركة ونظامها الأساسي وأي حقوق أولوية مقررة لباقي الشركاء. ولا يُسأل منفذ (منفذو) وصيتي عن أي انخفاض في قيمة أي شركة ما دامت تُدار وفقاً لأحكام هذه الوصية.`,
+    },
+  },
+  {
+    key: 'digital_access',
+    title: 'Digital Access',
+    heading: { en: 'DIGITAL ASSETS AND ACCESS', ar: 'الأصول الرقمية وصلاحيات الوصول' },
+    required: false,
+    appliesTo: hasDigitalAssets,
+    sources: will => ({ assetIds: will.assets?.filter(asset => asset.type === 'digital').map(asset => asset.id) }),
+    body: {
+      en: `I authorise my Executor(s) to access, manage, transfer and close my digital accounts and assets, including:
+{{digitalAssetList}}
+My Executor(s) may obtain the content of my electronic communications and records to the extent permitted by law and the terms of the relevant service providers. Passwords, private keys and other access details are not set out in this Will; they are recorded in a sealed letter of wishes which does not form part of this Will and is to be released to my Executor(s) only on production of my death certificate.`,
+      ar: `أفوض منفذ (منفذي) وصيتي بالوصول إلى حساباتي وأصولي الرقمية وإدارتها ونقلها وإغلاقها، بما في ذلك:
+{{digitalAssetList}}
+ويجوز لمنفذ (منفذي) وصيتي الحصول على محتوى مراسلاتي وسجلاتي الإلكترونية في الحدود التي يسمح بها القانون وشروط مقدمي الخدمات المعنيين. ولا تتضمن هذه الوصية كلمات المرور أو المفاتيح الخاصة أو غيرها من بيانات الوصول، وإنما تُدوَّن في خطاب رغبات مختوم لا يشكل جزءاً من هذه الوصية، ولا يُسلَّم إلى منفذ (منفذي) وصيتي إلا بعد تقديم شهادة وفاتي.`,
+    },
+  },
+  {
+    key: 'special_instructions',
+    title: 'Special Instructions',
+    heading: { en: 'SPECIAL INSTRUCTIONS', ar: 'تعليمات خاصة' },
+    required: false,
+    appliesTo: will => !!will.specialInstructions,
+    body: {
+      en: '{{specialInstructions}}',
+      ar: '{{specialInstructions}}',
+    },
+  },
+  {
+    key: 'residuary',
+    title: 'Residuary Clause',
+    heading: { en: 'RESIDUARY CLAUSE', ar: 'باقي التركة' },
+    required: true,
+    appliesTo: () => true,
+    body: {
+      en: 'All the rest, residue and remainder of my estate, real and personal, of whatsoever nature and wheresoever situated, I give, devise and bequeath to my beneficiaries as set forth above in the proportions specified.',
+      ar: 'أوصي بكل ما تبقى من تركتي، من عقارات ومنقولات، أياً كانت طبيعتها وأينما وجدت، للمستفيدين المذكورين أعلاه وبالنسب المحددة.',
+    },
+  },
+  {
+    key: 'survivorship',
+    title: 'Survivorship',
+    heading: { en: 'SURVIVORSHIP', ar: 'شرط البقاء على قيد الحياة' },
+    required: false,
+    appliesTo: () => true,
+    body: {
+      en: 'If any beneficiary dies before me, or within thirty (30) days after my death, their share shall be distributed to the remaining beneficiaries in proportion to their respective shares.',
+      ar: 'إذا توفي أي مستفيد قبلي أو خلال ثلاثين (30) يوماً من تاريخ وفاتي، توزع حصته على المستفيدين الباقين بنسبة حصصهم.',
+    },
+  },
+  {
+    key: 'miscellaneous',
+    title: 'Miscellaneous Provisions',
+    heading: { en: 'MISCELLANEOUS PROVISIONS', ar: 'أحكام عامة' },
+    required: false,
+    appliesTo: () => true,
+    body: {
+      en: `a) This Will shall be construed according to the laws of the DIFC.
+b) If any provision of this Will is deemed invalid, the remaining provisions shall remain in full force and effect.`,
+      ar: `أ) تفسر هذه الوصية وفقاً لقوانين مركز دبي المالي العالمي.
+ب) إذا اعتُبر أي حكم من أحكام هذه الوصية باطلاً، تظل بقية الأحكام سارية ونافذة بالكامل.`,
+    },
+  },
+  {
+    key: 'execution',
+    title: 'Execution',
+    heading: { en: 'EXECUTION', ar: 'التوقيع' },
+    required: true,
+    appliesTo: () => true,
+    body: {
+      en: `IN WITNESS WHEREOF, I have hereunto set my hand and seal on {{executionDate}}.
+
+
+_________________________________
+{{testatorName}}
+Testator
+
+
+WITNESSED BY:
+
+{{witnessBlock}}`,
+      ar: `وإثباتاً لما تقدم، وقعت على هذه الوصية {{executionDate}}.
+
+
+_________________________________
+{{testatorName}}
+الموصي
+
+
+بحضور الشهود:
+
+{{witnessBlock}}`,
+    },
+  },
+  {
+    key: 'compliance_certificate',
+    title: 'DIFC Compliance Certificate',
+    heading: null,
+    required: true,
+    appliesTo: () => true,
+    body: {
+      en: `DIFC COMPLIANCE CERTIFICATE
+
+This Will has been prepared in accordance with:
+- DIFC Law No. 5 of 2012 (DIFC Wills and Probate Registry Law)
+- DIFC Courts Law
+- DIFC regulatory requirements for expatriate wills
+
+For registration with the DIFC Wills and Probate Registry, this document must be:
+1. Signed by the testator in the presence of two witnesses
+2. Witnessed by two competent adults
+3. Submitted to DIFC with required fees and documentation
+4. Accompanied by supporting identification documents
+
+Document prepared on: {{preparedDate}}
+Template: {{templateName}}
+Language: {{languageName}}`,
+      ar: `شهادة الامتثال لمتطلبات مركز دبي المالي العالمي
+
+أُعدت هذه الوصية وفقاً لما يلي:
+- قانون مركز دبي المالي العالمي رقم 5 لسنة 2012 (قانون سجل الوصايا والتركات)
+- قانون محاكم مركز دبي المالي العالمي
+- المتطلبات التنظيمية لمركز دبي المالي العالمي الخاصة بوصايا المقيمين غير المسلمين
+
+لتسجيل هذه الوثيقة لدى سجل الوصايا والتركات في مركز دبي المالي العالمي، يجب:
+1. أن يوقعها الموصي بحضور شاهدين
+2. أن يشهد عليها شاهدان بالغان مؤهلان
+3. أن تقدم إلى المركز مع الرسوم والمستندات المطلوبة
+4. أن ترفق بها مستندات إثبات الهوية
+
+تاريخ إعداد الوثيقة: {{preparedDate}}
+النموذج: {{templateName}}
+اللغة: {{languageName}}`,
+    },
+  },
+];
+
+const ARABIC_LETTERS = ['أ', 'ب', 'ج', 'د', 'هـ', 'و', 'ز', 'ح', 'ط', 'ي'];
+
+const VISA_STATUS_AR: Record<string, string> = {
+  residence: 'إقامة',
+  investor: 'مستثمر',
+  golden: 'ذهبية',
+  employment: 'عمل',
+  other: 'أخرى',
+};
+
+const MARITAL_STATUS_AR: Record<string, string> = {
+  single: 'أعزب',
+  married: 'متزوج',
+  divorced: 'مطلق',
+  widowed: 'أرمل',
+};
+
+// Look up a clause definition by key
+export function getClauseDefinition(clauseKey: string): ClauseDefinition | undefined {
+  return CLAUSE_DEFINITIONS.find(definition => definition.key === clauseKey);
+}
+
+// Variable names referenced by a clause body
+export function extractClauseVariables(body: string): string[] {
+  return [...new Set([...body.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(match => match[1]))];
+}
+
+// Variables referenced by a body that the assembler cannot fill
+export function findUnknownVariables(body: string): string[] {
+  return extractClauseVariables(body).filter(name => !(name in CLAUSE_VARIABLES));
+}
+
+// Substitute {{variables}}; unknown names are left visible so a reviewer notices them
+export function renderClause(body: string, variables: Record<string, string>): string {
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    name in variables ? variables[name] : placeholder
+  );
+}
+
+// Values for every clause variable, phrased in the will's language
+export function buildClauseVariables(
+  willData: WillContentData,
+  template: { name: string },
+  language: ClauseLanguage,
+  testatorName?: string,
+  execution?: ExecutionDetails
+): Record<string, string> {
+  const { personalInfo, assets = [], beneficiaries = [], executors = [], guardians = [] } = willData;
+  const ar = language === 'ar';
+
+  return {
+    testatorName: testatorName || (ar ? '[الاسم الكامل كما في الهوية الإماراتية]' : '[Full Name as per Emirates ID]'),
+    emiratesId: personalInfo?.emiratesId || '[EMIRATES_ID]',
+    nationality: personalInfo?.nationality || (ar ? '[الجنسية]' : '[NATIONALITY]'),
+    visaStatus: ar
+      ? VISA_STATUS_AR[personalInfo?.visaStatus || 'residence'] || personalInfo?.visaStatus || 'إقامة'
+      : personalInfo?.visaStatus || 'residence',
+    address: formatAddress(personalInfo?.address, language),
+    maritalStatement: formatMaritalStatement(personalInfo?.maritalStatus, language),
+    assetList: formatAssetList(assets, language),
+    beneficiaryList: formatBeneficiaryList(beneficiaries, language),
+    executorAppointment: formatExecutorAppointment(executors, language),
+    guardianAppointment: formatGuardianAppointment(guardians, language),
+    trustProvisions: formatTrustProvisions(willData.trusts || [], assets, language),
+    businessSuccession: formatBusinessSuccession(assets, language),
+    digitalAssetList: formatDigitalAssetList(assets, language) ||
+      (ar ? 'جميع حساباتي وأصولي الرقمية' : 'all of my digital accounts and assets'),
+    specialInstructions: willData.specialInstructions || '',
+    executionDate: formatExecutionDate(execution, language),
+    witnessBlock: formatWitnessBlock(execution, language),
+    templateName: template.name,
+    languageName: ar ? 'العربية' : 'English',
+    preparedDate: new Date().toLocaleDateString(ar ? 'ar-AE' : 'en-GB'),
+  };
+}
+
+// Clauses that go into this will, in document order
+export function selectClauses(willData: WillContentData, clauseKeys?: string[]): ClauseDefinition[] {
+  return CLAUSE_DEFINITIONS.filter(definition =>
+    definition.appliesTo(willData) &&
+    (definition.required || !clauseKeys || clauseKeys.includes(definition.key))
+  );
+}
+
+// Build the will text from the selected clauses, numbering headed clauses in order
+export function assembleWillClauses(
+  willData: WillContentData,
+  template: { name: string },
+  options: AssembleOptions = {}
+): AssembledWill {
+  const language = options.language || willData.language || 'en';
+  const variables = buildClauseVariables(willData, template, language, options.testatorName, options.execution);
+  let number = 0;
+
+  const clauses = selectClauses(willData, options.clauseKeys).map((definition): AssembledClause => {
+    const wording = options.overrides?.[definition.key] || { body: definition.body[language], source: 'default' as const };
+    const heading = definition.heading?.[language] || null;
+
+    return {
+      clauseKey: definition.key,
+      number: heading ? ++number : null,
+      heading,
+      text: renderClause(wording.body, variables),
+      variables: extractClauseVariables(wording.body),
+      sources: toClauseSources(definition.sources?.(willData)),
+      language,
+      source: wording.source,
+      versionId: wording.versionId,
+      version: wording.version,
+    };
+  });
+
+  const content = clauses
+    .map(clause => clause.number
+      ? `${clause.number}. ${clause.heading}\n${indent(clause.text)}`
+      : clause.text)
+    .join('\n\n');
+
+  return { content, language, clauses };
+}
+
+// Fill in empty id lists
+export function toClauseSources(sources: Partial<ClauseSources> = {}): ClauseSources {
+  return {
+    assetIds: sources.assetIds || [],
+    beneficiaryIds: sources.beneficiaryIds || [],
+    executorIds: sources.executorIds || [],
+    guardianIds: sources.guardianIds || [],
+    trusteeIds: sources.trusteeIds || [],
+  };
+}
+
+function indent(text: string): string {
+  return text.split('\n').map(line => (line ? `   ${line}` : line)).join('\n');
+}
+
+// a) first\nb) second, with Arabic letters for Arabic wills
+function formatList(items: string[], language: ClauseLanguage): string {
+  return items
+    .map((item, index) => {
+      const marker = language === 'ar'
+        ? ARABIC_LETTERS[index] || String(index + 1)
+        : String.fromCharCode(97 + (index % 26));
+      return `${marker}) ${item}`;
+    })
+    .join('\n');
+}
+
+function formatAddress(address: Record<string, unknown> | undefined, language: ClauseLanguage): string {
+  const placeholder = language === 'ar' ? '[العنوان]' : '[ADDRESS TO BE PROVIDED]';
+  if (!address) return placeholder;
+
+  const parts = [address.street, address.city, address.emirate, address.country || 'UAE'].filter(Boolean);
+  return parts.join(', ') || placeholder;
+}
+
+function formatMaritalStatement(maritalStatus: string | undefined, language: ClauseLanguage): string {
+  const status = maritalStatus || 'single';
+
+  if (language === 'ar') {
+    return status === 'married'
+      ? `أنا ${MARITAL_STATUS_AR[status]} وزوجي/زوجتي هو/هي [اسم الزوج].`
+      : `أنا ${MARITAL_STATUS_AR[status] || status} وليس لي زوج.`;
+  }
+
+  return `I am ${status} and ${status === 'married' ? 'my spouse is [SPOUSE_NAME]' : 'have no spouse'}.`;
+}
+
+function formatAssetList(assets: Asset[], language: ClauseLanguage): string {
+  return formatList(assets.map(asset => {
+    const value = `${asset.currency} ${asset.estimatedValue?.toLocaleString() || 'VALUE_TBD'}`;
+    return language === 'ar'
+      ? `أوصي بـ ${asset.description} الكائن في ${asset.jurisdiction}، والبالغة قيمته التقريبية ${value}، ليوزع وفقاً لأحكام هذه الوصية.`
+      : `I give, devise and bequeath my ${asset.description} located in ${asset.jurisdiction}, valued at approximately ${value}, to be distributed as set forth in this Will.`;
+  }), language);
+}
+
+function formatBeneficiaryList(beneficiaries: Beneficiary[], language: ClauseLanguage): string {
+  return formatList(beneficiaries.map(beneficiary => {
+    const percentage = beneficiary.inheritancePercentage || 0;
+    const conditions = beneficiary.conditions?.length ? beneficiary.conditions.join(', ') : '';
+
+    if (language === 'ar') {
+      return `أوصي بنسبة ${percentage}% من باقي تركتي لـ ${beneficiary.fullName}، ${beneficiary.relationship}` +
+        (beneficiary.isContingent ? ' (مستفيد احتياطي)' : '') +
+        (conditions ? `، وفقاً للشروط التالية: ${conditions}` : '') + '.';
+    }
+
+    return `I give ${percentage}% of my residuary estate to ${beneficiary.fullName}, my ${beneficiary.relationship}` +
+      (beneficiary.isContingent ? ' (contingent beneficiary)' : '') +
+      (conditions ? `, subject to the following conditions: ${conditions}` : '') + '.';
+  }), language);
+}
+
+function formatExecutorAppointment(executors: Executor[], language: ClauseLanguage): string {
+  const primary = executors.filter(executor => executor.isPrimary).map(executor => executor.fullName);
+  const alternate = executors.filter(executor => !executor.isPrimary).map(executor => executor.fullName);
+  const sentences: string[] = [];
+
+  if (language === 'ar') {
+    if (primary.length > 0) {
+      sentences.push(`أعين ${primary.join(' و')} ${primary.length > 1 ? 'منفذين مشتركين' : 'منفذاً'} لوصيتي هذه.`);
+    }
+    if (alternate.length > 0) {
+      sentences.push(`${primary.length > 0 ? 'وفي حال تعذر على المنفذ (المنفذين) المذكورين أعلاه القيام بالمهمة أو رفضهم لها' : 'وفي حال عدم وجود منفذ أصلي'}، أعين ${alternate.join(' و')} ${alternate.length > 1 ? 'منفذين احتياطيين مشتركين' : 'منفذاً احتياطياً'}.`);
+    }
+    return sentences.join('\n');
+  }
+
+  if (primary.length > 0) {
+    sentences.push(`I hereby nominate and appoint ${primary.join(' and ')} as ${primary.length > 1 ? 'joint Executors' : 'Executor'} of this my Will.`);
+  }
+  if (alternate.length > 0) {
+    sentences.push(`In the event that ${primary.length > 0 ? 'the above-named Executor(s) cannot or will not serve' : 'no primary executor is available'}, I nominate and appoint ${alternate.join(' and ')} as ${alternate.length > 1 ? 'joint alternate Executors' : 'alternate Executor'}.`);
+  }
+  return sentences.join('\n');
+}
+
+function formatGuardianAppointment(guardians: Guardian[], language: ClauseLanguage): string {
+  const primary = guardians.filter(guardian => guardian.isPrimary).map(guardian => guardian.fullName);
+  const alternate = guardians.filter(guardian => !guardian.isPrimary).map(guardian => guardian.fullName);
+  const sentences: string[] = [];
+
+  if (language === 'ar') {
+    if (primary.length > 0) {
+      sentences.push(`في حال وجود أبناء قاصرين لي عند وفاتي، أعين ${primary.join(' و')} ${primary.length > 1 ? 'أوصياء مشتركين' : 'وصياً'} على أبنائي القاصرين.`);
+    }
+    if (alternate.length > 0) {
+      sentences.push(`وفي حال تعذر على الوصي (الأوصياء) المذكورين أعلاه القيام بالمهمة أو رفضهم لها، أعين ${alternate.join(' و')} ${alternate.length > 1 ? 'أوصياء احتياطيين مشتركين' : 'وصياً احتياطياً'}.`);
+    }
+    return sentences.join('\n');
+  }
+
+  if (primary.length > 0) {
+    sentences.push(`In the event I have minor children at the time of my death, I nominate and appoint ${primary.join(' and ')} as ${primary.length > 1 ? 'joint Guardians' : 'Guardian'} of my minor children.`);
+  }
+  if (alternate.length > 0) {
+    sentences.push(`If the above-named Guardian(s) cannot or will not serve, I nominate ${alternate.join(' and ')} as ${alternate.length > 1 ? 'alternate joint Guardians' : 'alternate Guardian'}.`);
+  }
+  return sentences.join('\n');
+}
+
+const DISTRIBUTION_STANDARDS: Record<Exclude<Trust['distributionStandard'], 'custom'>, Record<ClauseLanguage, string>> = {
+  hems: {
+    en: 'apply so much of the income and capital of each beneficiary\'s share as they think fit for that beneficiary\'s health, education, maintenance and support',
+    ar: 'صرف ما يرونه مناسباً من دخل ورأس مال حصة كل مستفيد على صحته وتعليمه ونفقته وإعالته',
+  },
+  discretionary: {
+    en: 'apply the income and capital of the trust fund for the benefit of any one or more of the beneficiaries, in such shares and at such times as they in their absolute discretion decide',
+    ar: 'صرف دخل ورأس مال أموال الأمانة لمصلحة مستفيد أو أكثر، بالحصص وفي الأوقات التي يقررونها وفق تقديرهم المطلق',
+  },
+  fixed_income: {
+    en: 'pay the net income of each beneficiary\'s share to or for that beneficiary at least once a year, and distribute capital only when the share vests',
+    ar: 'دفع صافي دخل حصة كل مستفيد إليه أو لمصلحته مرة واحدة في السنة على الأقل، وعدم توزيع رأس المال إلا عند أيلولة الحصة',
+  },
+};
+
+function formatTrustProvisions(trusts: Trust[], assets: Asset[], language: ClauseLanguage): string {
+  const ar = language === 'ar';
+
+  return formatList(trusts.map(trust => {
+    const trustees = trust.trustees.filter(trustee => trustee.isPrimary).map(trustee => trustee.fullName);
+    const alternates = trust.trustees.filter(trustee => !trustee.isPrimary).map(trustee => trustee.fullName);
+    const appointed = trustees.length > 0 ? trustees : alternates;
+    const property = trust.assetIds
+      .map(id => assets.find(asset => asset.id === id)?.description)
+      .filter((description): description is string => !!description);
+    const shares = trust.beneficiaries.map(beneficiary => {
+      const age = beneficiary.vestingAge !== undefined && beneficiary.vestingAge !== trust.vestingAge
+        ? (ar ? `، وتؤول إليه عند بلوغه ${beneficiary.vestingAge} سنة` : `, vesting at age ${beneficiary.vestingAge}`)
+        : '';
+      return ar
+        ? `${beneficiary.fullName} (${beneficiary.relationship}) بنسبة ${beneficiary.sharePercentage}%${age}`
+        : `${beneficiary.fullName} (${beneficiary.relationship}) as to ${beneficiary.sharePercentage}%${age}`;
+    });
+    const terms = (trust.distributionTerms || '').trim().replace(/\.$/, '');
+    const standard = trust.distributionStandard === 'custom'
+      ? (ar ? `إدارتها وفقاً للشروط التالية: ${terms}` : `hold it on the following terms: ${terms}`)
+      : DISTRIBUTION_STANDARDS[trust.distributionStandard][language];
+
+    if (ar) {
+      return `${trust.name}: ` +
+        `أوصي ${property.length > 0 ? `بـ ${property.join(' و')}` : 'بالأموال الموصى بها لهذه الأمانة'} ` +
+        `إلى ${appointed.join(' و')} ${appointed.length > 1 ? 'بصفتهم أمناء' : 'بصفته أميناً'}، ` +
+        `ليحتفظوا بها لمصلحة ${shares.join('، و')}.` +
+        (trust.purpose ? ` والغرض من هذه الأمانة: ${trust.purpose}.` : '') +
+        ` وتؤول حصة كل مستفيد إليه ملكية مطلقة عند بلوغه ${trust.vestingAge} سنة، وإلى ذلك الحين يتولى الأمناء ${standard}.` +
+        (trustees.length > 0 && alternates.length > 0 ? ` وإذا تعذر على أي أمين القيام بمهامه، أعين ${alternates.join(' و')} ${alternates.length > 1 ? 'أمناء احتياطيين' : 'أميناً احتياطياً'}.` : '');
+    }
+
+    return `The ${trust.name}: ` +
+      `I give ${property.length > 0 ? `my ${property.join(' and my ')}` : 'the property given to this trust by this Will'} ` +
+      `to ${appointed.join(' and ')} as ${appointed.length > 1 ? 'Trustees' : 'Trustee'} ` +
+      `to hold on trust for ${shares.join('; ')}.` +
+      (trust.purpose ? ` The purpose of this trust is ${trust.purpose}.` : '') +
+      ` Each beneficiary's share shall vest absolutely on their attaining the age of ${trust.vestingAge} years, and until then my Trustees shall ${standard}.` +
+      (trustees.length > 0 && alternates.length > 0 ? ` If any Trustee cannot or will not serve, I appoint ${alternates.join(' and ')} as alternate ${alternates.length > 1 ? 'Trustees' : 'Trustee'}.` : '');
+  }), language);
+}
+
+const DIGITAL_CATEGORIES: Record<DigitalAssetCategory, Record<ClauseLanguage, string>> = {
+  exchange_account: { en: 'exchange account', ar: 'حساب منصة تداول' },
+  self_custody_wallet: { en: 'self-custody wallet', ar: 'محفظة ذاتية الحفظ' },
+  domain_name: { en: 'domain name', ar: 'اسم نطاق' },
+  social_account: { en: 'social media account', ar: 'حساب تواصل اجتماعي' },
+  email_account: { en: 'email account', ar: 'حساب بريد إلكتروني' },
+  cloud_storage: { en: 'cloud storage account', ar: 'حساب تخزين سحابي' },
+  other: { en: 'digital asset', ar: 'أصل رقمي' },
+};
+
+const DIGITAL_DISPOSITIONS: Record<DigitalAssetDisposition, Record<ClauseLanguage, string>> = {
+  transfer: { en: 'to be transferred in accordance with this Will', ar: 'يُنقل وفقاً لأحكام هذه الوصية' },
+  sell: { en: 'to be sold or converted, with the proceeds forming part of my estate', ar: 'يُباع أو يُحوَّل وتدخل حصيلته في تركتي' },
+  memorialise: { en: 'to be memorialised where the service allows', ar: 'يُحوَّل إلى حساب تذكاري متى أتاحت الخدمة ذلك' },
+  close: { en: 'to be closed and its content deleted', ar: 'يُغلق ويُحذف محتواه' },
+};
+
+// One lettered line per digital asset: what it is, where it is held and what should happen to it
+function formatDigitalAssetList(assets: Asset[], language: ClauseLanguage): string {
+  return formatList(assets.filter(asset => asset.type === 'digital').map(asset => {
+    const digital = asset.digital;
+    if (!digital) return asset.description;
+
+    const category = DIGITAL_CATEGORIES[digital.category]?.[language] || digital.category;
+    const location = [digital.platform, digital.network, digital.identifier].filter(Boolean).join(', ');
+    const disposition = DIGITAL_DISPOSITIONS[digital.disposition]?.[language] || '';
+
+    return language === 'ar'
+      ? `${asset.description} (${category}: ${location})، ${disposition}`
+      : `${asset.description} (${category}: ${location}), ${disposition}`;
+  }), language);
+}
+
+const BUSINESS_JURISDICTIONS: Record<BusinessJurisdiction, Record<ClauseLanguage, string>> = {
+  mainland: { en: 'UAE mainland', ar: 'البر الرئيسي لدولة الإمارات' },
+  free_zone: { en: 'free zone', ar: 'منطقة حرة' },
+  difc: { en: 'DIFC', ar: 'مركز دبي المالي العالمي' },
+};
+
+// One lettered paragraph per business shareholding, with its successors and continuity arrangements
+function formatBusinessSuccession(assets: Asset[], language: ClauseLanguage): string {
+  const ar = language === 'ar';
+
+  return formatList(assets.flatMap(asset => {
+    const business = asset.type === 'business' ? asset.business : undefined;
+    if (!business) return [];
+
+    const jurisdiction = BUSINESS_JURISDICTIONS[business.jurisdiction]?.[language] || business.jurisdiction;
+    const successors = business.successors.map(successor => ar
+      ? `${successor.fullName} (${successor.relationship}) بنسبة ${successor.sharePercentage}%`
+      : `${successor.fullName} (${successor.relationship}) as to ${successor.sharePercentage}%`);
+    const coShareholders = business.coShareholders.map(coShareholder =>
+      `${coShareholder.fullName} (${coShareholder.shareholdingPercentage}%)`
+    );
+    const agreement = business.buySellAgreement;
+    const keyPerson = (business.keyPersonProvisions || '').trim().replace(/\.$/, '');
+
+    if (ar) {
+      return [
+        `أوصي بحصتي البالغة ${business.shareholdingPercentage}% من ${business.shareClass ? `أسهم ${business.shareClass}` : 'الأسهم العادية'} في ${business.entityName} ` +
+        `(${business.entityType}، ${jurisdiction}، رخصة تجارية رقم ${business.tradeLicenceNumber}${business.licensingAuthority ? ` صادرة عن ${business.licensingAuthority}` : ''})` +
+        (successors.length > 0 ? ` إلى ${successors.join('، و')} من تلك الحصة.` : '، وتؤول هذه الحصة وفقاً لسائر أحكام هذه الوصية.') +
+        (coShareholders.length > 0 ? ` ويشاركني في ملكية الشركة ${coShareholders.join('، و')}.` : '') +
+        (business.interimManager ? ` وإلى حين نقل الأسهم، أفوض ${business.interimManager} بإدارة الشركة وممارسة حقوق التصويت المرتبطة بأسهمي بالتنسيق مع منفذ (منفذي) وصيتي.` : '') +
+        (agreement ? ` ويلتزم منفذ (منفذو) وصيتي بتنفيذ اتفاقية البيع والشراء المبرمة مع ${agreement.counterparties}، والتي تُباع أسهمي بموجبها بسعر يحدد وفقاً لـ ${agreement.valuationMethod}${agreement.insuranceFunded ? ' ويُموَّل من التأمين على حياتي' : ''}، وتؤول حصيلة البيع على النحو الذي كانت ستؤول إليه هذه الحصة.` : '') +
+        (keyPerson ? ` كما أوصي بما يلي: ${keyPerson}.` : ''),
+      ];
+    }
+
+    return [
+      `I give my ${business.shareholdingPercentage}% shareholding of ${business.shareClass || 'ordinary'} shares in ${business.entityName} ` +
+      `(a ${jurisdiction} ${business.entityType}, trade licence no. ${business.tradeLicenceNumber}${business.licensingAuthority ? ` issued by ${business.licensingAuthority}` : ''})` +
+      (successors.length > 0 ? ` to ${successors.join(' and ')} of that shareholding.` : ' to pass under the other provisions of this Will.') +
+      (coShareholders.length > 0 ? ` My co-shareholders are ${coShareholders.join(' and ')}.` : '') +
+      (business.interimManager ? ` Until the shares are transferred, I authorise ${business.interimManager} to manage the business and, with my Executor(s), to exercise the voting rights attached to my shares.` : '') +
+      (agreement ? ` My Executor(s) shall give effect to my buy-sell agreement with ${agreement.counterparties}, under which my shares are to be sold at a price fixed by ${agreement.valuationMethod}${agreement.insuranceFunded ? ' and funded by insurance on my life' : ''}, and the sale proceeds shall pass as the shares would have passed.` : '') +
+      (keyPerson ? ` I further direct as follows: ${keyPerson}.` : ''),
+    ];
+  }), language);
+}
+
+const WITNESS_ID_TYPES: Record<ExecutionDetails['witnesses'][number]['idType'], Record<ClauseLanguage, string>> = {
+  emirates_id: { en: 'Emirates ID', ar: 'الهوية الإماراتية' },
+  passport: { en: 'Passport', ar: 'جواز السفر' },
+};
+
+// "this 19th day of October, 2026 at ...", or blanks for a will that has not been signed yet
+export function formatExecutionDate(execution: ExecutionDetails | undefined, language: ClauseLanguage): string {
+  if (!execution) {
+    return language === 'ar'
+      ? 'في اليوم _____ من شهر _____________ لعام 20__'
+      : 'this _____ day of _____________, 20__';
+  }
+
+  const date = new Date(`${execution.date}T00:00:00Z`);
+  const day = date.getUTCDate();
+  const year = date.getUTCFullYear();
+
+  if (language === 'ar') {
+    const month = date.toLocaleDateString('ar-AE', { month: 'long', timeZone: 'UTC' });
+    return `في اليوم ${day} من شهر ${month} لعام ${year} في ${execution.place}`;
+  }
+
+  const month = date.toLocaleDateString('en-GB', { month: 'long', timeZone: 'UTC' });
+  return `this ${ordinalDay(day)} day of ${month}, ${year} at ${execution.place}`;
+}
+
+// Each witness's name and identity above a signature line, or the blank name and signature lines
+function formatWitnessBlock(execution: ExecutionDetails | undefined, language: ClauseLanguage): string {
+  const ar = language === 'ar';
+
+  if (!execution) {
+    return ar
+      ? `_________________________________     _________________________________
+اسم الشاهد الأول                       توقيع الشاهد الأول
+
+_________________________________     _________________________________
+اسم الشاهد الثاني                      توقيع الشاهد الثاني`
+      : `_________________________________     _________________________________
+Witness 1 Name                        Witness 1 Signature
+
+_________________________________     _________________________________
+Witness 2 Name                        Witness 2 Signature`;
+  }
+
+  return execution.witnesses
+    .map((witness, index) => {
+      const idType = WITNESS_ID_TYPES[witness.idType][language];
+      return ar
+        ? `الشاهد ${index === 0 ? 'الأول' : 'الثاني'}: ${witness.fullName}
+${idType}: ${witness.idNumber}، الجنسية: ${witness.nationality}
+العنوان: ${witness.address}
+التوقيع: _________________________________`
+        : `Witness ${index + 1}: ${witness.fullName}
+${idType}: ${witness.idNumber}, Nationality: ${witness.nationality}
+Address: ${witness.address}
+Signature: _________________________________`;
+    })
+    .join('\n\n');
+}
+
+function ordinalDay(day: number): string {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st'
+    : day % 10 === 2 && day !== 12 ? 'nd'
+    : day % 10 === 3 && day !== 13 ? 'rd'
+    : 'th';
+  return `${day}${suffix}`;
+}
@@ -0,0 +1,189 @@
+/**
+ * Will Version Diff for Mirath Legal
+ * Compares two will versions section by section so changes between drafts can be shown to clients
+ */
+
+// Types for will diffs
+export type ItemChangeType = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ItemChange {
+  id: string;
+  label: string;
+  change: ItemChangeType;
+  fields: FieldChange[];
+}
+
+export type WillListSection = 'assets' | 'beneficiaries' | 'executors' | 'guardians';
+
+export interface WillDiff {
+  from: { id: string; version: number | null };
+  to: { id: string; version: number | null };
+  general: FieldChange[];
+  personalInfo: FieldChange[];
+  assets: ItemChange[];
+  beneficiaries: ItemChange[];
+  executors: ItemChange[];
+  guardians: ItemChange[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    hasChanges: boolean;
+  };
+}
+
+// Minimal shape needed to compare two versions
+export interface DiffableWill {
+  id: string;
+  version: number | null;
+  willType: string;
+  language: string | null;
+  status: string | null;
+  specialInstructions: string | null;
+  personalInfo: unknown;
+  assets: Array<{ id: string } & Record<string, unknown>> | null;
+  beneficiaries: Array<{ id: string } & Record<string, unknown>> | null;
+  executors: Array<{ id: string } & Record<string, unknown>> | null;
+  guardians: Array<{ id: string } & Record<string, unknown>> | null;
+}
+
+// Top-level fields compared outside the list sections
+const GENERAL_FIELDS = ['willType', 'language', 'status', 'specialInstructions'] as const;
+
+// Field used to label each item in a section
+const ITEM_LABEL_FIELDS: Record<WillListSection, string> = {
+  assets: 'name',
+  beneficiaries: 'fullName',
+  executors: 'fullName',
+  guardians: 'fullName',
+};
+
+// Compare two will versions and return section-level changes
+export function diffWills(from: DiffableWill, to: DiffableWill): WillDiff {
+  const general = GENERAL_FIELDS
+    .filter(field => !isEqual(from[field] ?? null, to[field] ?? null))
+    .map(field => ({ field, before: from[field] ?? null, after: to[field] ?? null }));
+
+  const personalInfo = diffObjects(from.personalInfo, to.personalInfo);
+
+  const sections = {
+    assets: diffItems(from.assets || [], to.assets || [], ITEM_LABEL_FIELDS.assets),
+    beneficiaries: diffItems(from.beneficiaries || [], to.beneficiaries || [], ITEM_LABEL_FIELDS.beneficiaries),
+    executors: diffItems(from.executors || [], to.executors || [], ITEM_LABEL_FIELDS.executors),
+    guardians: diffItems(from.guardians || [], to.guardians || [], ITEM_LABEL_FIELDS.guardians),
+  };
+
+  const itemChanges = Object.values(sections).flat();
+  const summary = {
+    added: itemChanges.filter(item => item.change === 'added').length,
+    removed: itemChanges.filter(item => item.change === 'removed').length,
+    changed: itemChanges.filter(item => item.change === 'changed').length
+      + (general.length > 0 ? 1 : 0)
+      + (personalInfo.length > 0 ? 1 : 0),
+    hasChanges: false,
+  };
+  summary.hasChanges = summary.added + summary.removed + summary.changed > 0;
+
+  return {
+    from: { id: from.id, version: from.version },
+    to: { id: to.id, version: to.version },
+    general,
+    personalInfo,
+    ...sections,
+    summary,
+  };
+}
+
+// Match list items by id and report additions, removals and field changes
+function diffItems(
+  before: Array<{ id: string } & Record<string, unknown>>,
+  after: Array<{ id: string } & Record<string, unknown>>,
+  labelField: string
+): ItemChange[] {
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterById = new Map(after.map(item => [item.id, item]));
+  const changes: ItemChange[] = [];
+
+  for (const item of before) {
+    const updated = afterById.get(item.id);
+
+    if (!updated) {
+      changes.push({
+        id: item.id,
+        label: labelFor(item, labelField),
+        change: 'removed',
+        fields: diffObjects(item, undefined),
+      });
+      continue;
+    }
+
+    const fields = diffObjects(item, updated);
+    if (fields.length > 0) {
+      changes.push({
+        id: item.id,
+        label: labelFor(updated, labelField),
+        change: 'changed',
+        fields,
+      });
+    }
+  }
+
+  for (const item of after) {
+    if (!beforeById.has(item.id)) {
+      changes.push({
+        id: item.id,
+        label: labelFor(item, labelField),
+        change: 'added',
+        fields: diffObjects(undefined, item),
+      });
+    }
+  }
+
+  return changes;
+}
+
+// Flatten nested objects to dot paths and return the fields that differ
+function diffObjects(before: unknown, after: unknown): FieldChange[] {
+  const beforeFields = flatten(before);
+  const afterFields = flatten(after);
+  const keys = Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])).sort();
+
+  return keys
+    .filter(key => !isEqual(beforeFields[key], afterFields[key]))
+    .map(key => ({
+      field: key,
+      before: beforeFields[key] ?? null,
+      after: afterFields[key] ?? null,
+    }));
+}
+
+function flatten(value: unknown, prefix: string = ''): Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    return prefix ? { [prefix]: value } : {};
+  }
+
+  return Object.entries(value).reduce<Record<string, unknown>>((fields, [key, nested]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return { ...fields, ...(isPlainObject(nested) ? flatten(nested, path) : { [path]: nested }) };
+  }, {});
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === undefined || b === undefined) return a === b || (a ?? null) === (b ?? null);
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function labelFor(item: Record<string, unknown>, labelField: string): string {
+  const label = item[labelField];
+  return typeof label === 'string' && label ? label : item.id as string;
+}
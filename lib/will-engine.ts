@@ -5,8 +5,12 @@
 
 import { db } from "@/db/drizzle";
 import { wills } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import { and, eq, inArray, sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
+import { evaluateComplianceRules, type ComplianceIssue, type ComplianceRule } from "./compliance-engine";
+import { assembleWillClauses } from "./will-clauses";
+
+const MAX_VERSION_ATTEMPTS = 5;
 
 // Types for will creation
 export interface PersonalInfo {
@@ -39,6 +43,64 @@ export interface Asset {
   currency: string;
   jurisdiction: string;
   details: Record<string, unknown>;
+  business?: BusinessInterest; // Structured details of a company holding, set when type is 'business'
+  digital?: DigitalAssetDetails; // Inventory details, set when type is 'digital'; access instructions are sealed separately
+}
+
+export type DigitalAssetCategory =
+  | 'exchange_account'
+  | 'self_custody_wallet'
+  | 'domain_name'
+  | 'social_account'
+  | 'email_account'
+  | 'cloud_storage'
+  | 'other';
+
+export type DigitalAssetDisposition = 'transfer' | 'sell' | 'memorialise' | 'close';
+
+export interface DigitalAssetDetails {
+  category: DigitalAssetCategory;
+  platform: string; // Exchange, wallet, registrar or service the asset is held with
+  identifier?: string; // Username, public address or domain name; never a password, key or recovery phrase
+  network?: string; // Blockchain network of a wallet
+  disposition: DigitalAssetDisposition; // What the executor should do with the asset
+}
+
+export type BusinessJurisdiction = 'mainland' | 'free_zone' | 'difc';
+
+export interface CoShareholder {
+  id: string;
+  fullName: string;
+  shareholdingPercentage: number; // Share of the company's issued shares
+}
+
+export interface BusinessSuccessor {
+  id: string;
+  beneficiaryId?: string; // Set when the successor is also a beneficiary of the will
+  fullName: string;
+  relationship: string;
+  sharePercentage: number; // Share of the testator's holding passed to this successor
+}
+
+export interface BuySellAgreement {
+  counterparties: string; // Who is bound to buy the shares
+  valuationMethod: string;
+  insuranceFunded: boolean;
+}
+
+export interface BusinessInterest {
+  entityName: string;
+  entityType: string; // e.g. LLC, FZE, FZCO, private company
+  jurisdiction: BusinessJurisdiction;
+  licensingAuthority?: string; // e.g. Department of Economy and Tourism, DMCC, DIFC Registrar of Companies
+  tradeLicenceNumber: string;
+  shareholdingPercentage: number; // Testator's share of the company's issued shares
+  shareClass: string;
+  coShareholders: CoShareholder[];
+  successors: BusinessSuccessor[];
+  interimManager?: string; // Runs the business until the shares are transferred
+  buySellAgreement?: BuySellAgreement;
+  keyPersonProvisions?: string;
 }
 
 export interface Beneficiary {
@@ -73,6 +135,38 @@ export interface Executor {
   powers?: string[];
 }
 
+export interface Trustee {
+  id: string;
+  fullName: string;
+  relationship: string;
+  contactInfo: Record<string, unknown>;
+  isPrimary: boolean;
+  isProfessional?: boolean; // Trust company or licensed professional trustee
+}
+
+export interface TrustBeneficiary {
+  id: string;
+  beneficiaryId?: string; // Set when the person is also a beneficiary of the will
+  fullName: string;
+  relationship: string;
+  sharePercentage: number; // Share of the trust fund
+  vestingAge?: number; // Overrides the trust's vesting age for this beneficiary
+}
+
+export type DistributionStandard = 'hems' | 'discretionary' | 'fixed_income' | 'custom';
+
+export interface Trust {
+  id: string;
+  name: string;
+  purpose?: string;
+  trustees: Trustee[];
+  beneficiaries: TrustBeneficiary[];
+  assetIds: string[]; // Asset.id of each asset settled on the trust
+  vestingAge: number; // Age at which a beneficiary's share passes to them outright
+  distributionStandard: DistributionStandard;
+  distributionTerms?: string; // Wording of a custom distribution standard
+}
+
 export interface CreateWillData {
   matterId: string;
   testatorId: string;
@@ -83,6 +177,7 @@ export interface CreateWillData {
   beneficiaries?: Beneficiary[];
   guardians?: Guardian[];
   executors?: Executor[];
+  trusts?: Trust[];
   specialInstructions?: string;
 }
 
@@ -94,6 +189,7 @@ export interface UpdateWillData {
   beneficiaries?: Beneficiary[];
   guardians?: Guardian[];
   executors?: Executor[];
+  trusts?: Trust[];
   specialInstructions?: string;
   status?: 'draft' | 'under_review' | 'client_review' | 'final' | 'registered';
 }
@@ -143,6 +239,7 @@ export async function createWill(data: CreateWillData) {
       beneficiaries: data.beneficiaries || [],
       guardians: data.guardians || [],
       executors: data.executors || [],
+      trusts: data.trusts || [],
       specialInstructions: data.specialInstructions,
       status: 'draft',
       difcCompliant: false, // Will be set to true after validation
@@ -164,6 +261,17 @@ export async function getWillById(willId: string) {
   return will;
 }
 
+// Get a will, scoped to the matter it belongs to
+export async function getMatterWill(matterId: string, willId: string) {
+  const [will] = await db
+    .select()
+    .from(wills)
+    .where(and(eq(wills.id, willId), eq(wills.matterId, matterId)))
+    .limit(1);
+
+  return will || null;
+}
+
 // Get will by matter ID
 export async function getWillByMatterId(matterId: string) {
   const [will] = await db
@@ -227,6 +335,53 @@ export function validateWillCompleteness(will: Record<string, unknown>, template
     }
   }
 
+  const trusts = (will.trusts as Trust[] | undefined) || [];
+
+  if (template.requiredSections.includes('trustees') &&
+      !trusts.some(trust => trust.trustees.length > 0)) {
+    errors.push('At least one trust with a trustee is required');
+  }
+
+  const trustValidation = validateTrusts(
+    trusts,
+    (will.assets as Asset[] | undefined) || [],
+    (will.beneficiaries as Beneficiary[] | undefined) || []
+  );
+  errors.push(...trustValidation.errors);
+  warnings.push(...trustValidation.warnings);
+
+  const businessAssets = ((will.assets as Asset[] | undefined) || []).filter(asset => asset.type === 'business');
+
+  if (template.requiredSections.includes('business_assets') && !businessAssets.some(asset => asset.business)) {
+    errors.push('At least one business interest with its entity details is required');
+  }
+  if (template.requiredSections.includes('business_continuity') &&
+      businessAssets.some(asset => asset.business && !asset.business.interimManager?.trim())) {
+    warnings.push('No interim manager is appointed to run every business until its shares are transferred');
+  }
+
+  const digitalAssets = ((will.assets as Asset[] | undefined) || []).filter(asset => asset.type === 'digital');
+
+  if (template.requiredSections.includes('digital_assets') && digitalAssets.length === 0) {
+    errors.push('At least one digital asset is required');
+  }
+
+  const digitalValidation = validateDigitalAssets(digitalAssets);
+  errors.push(...digitalValidation.errors);
+  warnings.push(...digitalValidation.warnings);
+
+  if (typeof will.specialInstructions === 'string' && containsAccessSecret(will.specialInstructions)) {
+    errors.push('Special instructions appear to contain a password, private key or recovery phrase; seal it in the digital access letter instead');
+  }
+
+  const businessValidation = validateBusinessInterests(
+    businessAssets,
+    (will.beneficiaries as Beneficiary[] | undefined) || [],
+    trusts
+  );
+  errors.push(...businessValidation.errors);
+  warnings.push(...businessValidation.warnings);
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -238,6 +393,11 @@ export function validateWillCompleteness(will: Record<string, unknown>, template
 // Calculate will completeness percentage
 function calculateCompleteness(will: Record<string, unknown>, template: typeof DIFC_WILL_TEMPLATES.SIMPLE): number {
   const totalSections = template.requiredSections.length + template.optionalSections.length;
+  const trusts = (will.trusts as Trust[] | undefined) || [];
+  const digitalAssets = ((will.assets as Asset[] | undefined) || []).filter(asset => asset.type === 'digital');
+  const digitalAssetIds = new Set(digitalAssets.map(asset => asset.id));
+  const businesses = ((will.assets as Asset[] | undefined) || [])
+    .flatMap(asset => asset.type === 'business' && asset.business ? [asset.business] : []);
   let completedSections = 0;
 
   // Check required sections
@@ -255,6 +415,21 @@ function calculateCompleteness(will: Record<string, unknown>, template: typeof D
       case 'executors':
         if (will.executors && will.executors.length > 0) completedSections++;
         break;
+      case 'trustees':
+        if (trusts.some(trust => trust.trustees.length > 0)) completedSections++;
+        break;
+      case 'business_assets':
+        if (businesses.length > 0) completedSections++;
+        break;
+      case 'digital_assets':
+        if (digitalAssets.length > 0) completedSections++;
+        break;
+      case 'digital_access':
+        if (digitalAssets.length > 0 && digitalAssets.every(asset => asset.digital)) completedSections++;
+        break;
+      case 'business_continuity':
+        if (businesses.length > 0 && businesses.every(business => business.interimManager?.trim())) completedSections++;
+        break;
     }
   });
 
@@ -267,12 +442,191 @@ function calculateCompleteness(will: Record<string, unknown>, template: typeof D
       case 'special_instructions':
         if (will.specialInstructions) completedSections++;
         break;
+      case 'crypto_trustees':
+        if (trusts.some(trust => trust.trustees.length > 0 && trust.assetIds.some(id => digitalAssetIds.has(id)))) {
+          completedSections++;
+        }
+        break;
+      case 'buy_sell_agreements':
+        if (businesses.some(business => business.buySellAgreement)) completedSections++;
+        break;
+      case 'key_person_provisions':
+        if (businesses.some(business => business.keyPersonProvisions?.trim())) completedSections++;
+        break;
     }
   });
 
   return Math.round((completedSections / totalSections) * 100);
 }
 
+// Check trust structures against the will's assets and beneficiaries
+export function validateTrusts(trusts: Trust[], assets: Asset[], beneficiaries: Beneficiary[]) {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const assetIds = new Set(assets.map(asset => asset.id));
+  const beneficiaryIds = new Set(beneficiaries.map(beneficiary => beneficiary.id));
+  const settledAssets = new Map<string, string>();
+
+  trusts.forEach(trust => {
+    const name = trust.name || 'Unnamed trust';
+
+    if (!trust.name?.trim()) errors.push('Every trust needs a name');
+    if (trust.trustees.length === 0) errors.push(`${name} needs at least one trustee`);
+    if (trust.trustees.length > 0 && !trust.trustees.some(trustee => trustee.isPrimary)) {
+      warnings.push(`${name} has only alternate trustees`);
+    }
+    if (trust.trustees.length === 1 && !trust.trustees[0].isProfessional) {
+      warnings.push(`${name} has a single individual trustee; consider an alternate or professional trustee`);
+    }
+
+    if (trust.beneficiaries.length === 0) {
+      errors.push(`${name} needs at least one beneficiary`);
+    } else {
+      const totalShare = trust.beneficiaries.reduce((sum, beneficiary) => sum + (beneficiary.sharePercentage || 0), 0);
+      if (Math.abs(totalShare - 100) > 0.01) {
+        errors.push(`${name} beneficiary shares total ${totalShare}% instead of 100%`);
+      }
+    }
+
+    trust.beneficiaries
+      .filter(beneficiary => beneficiary.beneficiaryId && !beneficiaryIds.has(beneficiary.beneficiaryId))
+      .forEach(beneficiary => errors.push(`${name} refers to ${beneficiary.fullName}, who is not a beneficiary of the will`));
+
+    const ages = [trust.vestingAge, ...trust.beneficiaries.map(beneficiary => beneficiary.vestingAge)]
+      .filter((age): age is number => age !== undefined);
+    if (ages.some(age => !Number.isInteger(age) || age < 18 || age > 40)) {
+      errors.push(`${name} vesting ages must be whole years between 18 and 40`);
+    }
+
+    if (trust.distributionStandard === 'custom' && !trust.distributionTerms?.trim()) {
+      errors.push(`${name} uses a custom distribution standard but its terms are missing`);
+    }
+
+    if (trust.assetIds.length === 0) {
+      warnings.push(`${name} holds no specific assets and will be funded only by the gifts that name it`);
+    }
+
+    trust.assetIds.forEach(assetId => {
+      if (!assetIds.has(assetId)) {
+        errors.push(`${name} holds an asset that is not in the will`);
+      } else if (settledAssets.has(assetId)) {
+        errors.push(`${name} and ${settledAssets.get(assetId)} both hold the same asset`);
+      } else {
+        settledAssets.set(assetId, name);
+      }
+    });
+  });
+
+  return { errors, warnings };
+}
+
+// Passwords, private keys and recovery phrases, which belong in the sealed access letter rather than the will
+const ACCESS_SECRET_PATTERNS = [
+  /\b(?:password|passcode|passphrase|pin|seed phrase|recovery phrase|private key)\s*[:=]/i,
+  /\b(?:0x)?[0-9a-f]{64}\b/i, // Raw private key
+  /\b[5KL][1-9A-HJ-NP-Za-km-z]{50,51}\b/, // Bitcoin WIF private key
+  /\bxprv[1-9A-HJ-NP-Za-km-z]{100,}\b/, // Extended private key
+];
+
+// Twelve to twenty-four lowercase words, checked only in short single-value fields such as identifiers
+const RECOVERY_PHRASE_PATTERN = /^\s*(?:[a-z]{3,8}\s+){11,23}[a-z]{3,8}\s*$/;
+
+// Check whether free text holds something that would give access to an account or wallet
+export function containsAccessSecret(text: string): boolean {
+  return ACCESS_SECRET_PATTERNS.some(pattern => pattern.test(text));
+}
+
+// Check the digital asset inventory, keeping access secrets out of the will
+export function validateDigitalAssets(assets: Asset[]) {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  assets.filter(asset => asset.type === 'digital').forEach(asset => {
+    const name = asset.name || asset.description || 'Unnamed digital asset';
+    const digital = asset.digital;
+
+    if (containsAccessSecret(`${asset.name} ${asset.description}`)) {
+      errors.push(`${name} appears to contain a password, private key or recovery phrase; seal it in the digital access letter instead`);
+    }
+
+    if (!digital) {
+      warnings.push(`${name} has no platform or account details`);
+      return;
+    }
+
+    if (!digital.platform?.trim()) errors.push(`${name} needs the platform or service it is held with`);
+    if (digital.identifier && (containsAccessSecret(digital.identifier) || RECOVERY_PHRASE_PATTERN.test(digital.identifier))) {
+      errors.push(`${name} identifier looks like a secret; use a username, public address or domain and seal access details separately`);
+    }
+    if (digital.category === 'self_custody_wallet' && !digital.network?.trim()) {
+      warnings.push(`${name} is a self-custody wallet with no blockchain network recorded`);
+    }
+    if (digital.category === 'self_custody_wallet' && digital.disposition === 'memorialise') {
+      errors.push(`${name} is a wallet and cannot be memorialised`);
+    }
+  });
+
+  return { errors, warnings };
+}
+
+// Check business interests: entity details, shareholdings and who succeeds to them
+export function validateBusinessInterests(assets: Asset[], beneficiaries: Beneficiary[], trusts: Trust[] = []) {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const beneficiaryIds = new Set(beneficiaries.map(beneficiary => beneficiary.id));
+  const trustAssetIds = new Set(trusts.flatMap(trust => trust.assetIds));
+
+  assets.filter(asset => asset.type === 'business').forEach(asset => {
+    const business = asset.business;
+    if (!business) {
+      warnings.push(`${asset.name || asset.description} has no entity, licence or shareholding details`);
+      return;
+    }
+
+    const name = business.entityName || asset.name || 'Unnamed business';
+
+    if (!business.entityName?.trim()) errors.push(`${name} needs the registered name of the entity`);
+    if (!business.tradeLicenceNumber?.trim()) errors.push(`${name} needs a trade licence number`);
+    if (!business.shareClass?.trim()) warnings.push(`${name} has no share class; ordinary shares will be assumed`);
+
+    if (!(business.shareholdingPercentage > 0 && business.shareholdingPercentage <= 100)) {
+      errors.push(`${name} shareholding must be more than 0% and no more than 100%`);
+    }
+
+    const companyTotal = business.shareholdingPercentage +
+      business.coShareholders.reduce((sum, coShareholder) => sum + (coShareholder.shareholdingPercentage || 0), 0);
+    if (companyTotal > 100.01) {
+      errors.push(`${name} shareholdings of the testator and co-shareholders total ${companyTotal}%, more than 100% of the company`);
+    }
+
+    const bequeathed = business.successors.reduce((sum, successor) => sum + (successor.sharePercentage || 0), 0);
+    if (bequeathed > 100.01) {
+      errors.push(`${name} shareholding bequeathed exceeds 100% (${bequeathed}% of the testator's shares)`);
+    } else if (business.successors.length === 0) {
+      if (!trustAssetIds.has(asset.id)) warnings.push(`${name} has no named successor and will pass with the residuary estate`);
+    } else if (bequeathed < 99.99) {
+      warnings.push(`${name} successors receive ${bequeathed}% of the shares; the remaining ${100 - bequeathed}% will pass with the residuary estate`);
+    }
+
+    if (business.successors.length > 0 && trustAssetIds.has(asset.id)) {
+      errors.push(`${name} is held on trust and also left to named successors`);
+    }
+
+    business.successors
+      .filter(successor => successor.beneficiaryId && !beneficiaryIds.has(successor.beneficiaryId))
+      .forEach(successor => errors.push(`${name} names ${successor.fullName} as successor, who is not a beneficiary of the will`));
+
+    if (business.coShareholders.length > 0 && !business.buySellAgreement) {
+      warnings.push(`${name} has co-shareholders but no buy-sell agreement; check the articles for pre-emption rights`);
+    }
+    if (business.buySellAgreement && !business.buySellAgreement.valuationMethod?.trim()) {
+      errors.push(`${name} buy-sell agreement needs a valuation method`);
+    }
+  });
+
+  return { errors, warnings };
+}
+
 // Add asset to will
 export async function addAssetToWill(willId: string, asset: Asset) {
   const will = await getWillById(willId);
@@ -337,263 +691,196 @@ export function getWillTemplate(willType: string) {
   }
 }
 
+// Will contents of a stored will in the shape the generators take
+export function toWillContentData(will: typeof wills.$inferSelect): UpdateWillData {
+  return {
+    willType: will.willType as UpdateWillData['willType'],
+    language: will.language === 'ar' ? 'ar' : 'en',
+    personalInfo: will.personalInfo,
+    assets: will.assets || [],
+    beneficiaries: will.beneficiaries || [],
+    guardians: will.guardians || [],
+    executors: will.executors || [],
+    trusts: will.trusts || [],
+    specialInstructions: will.specialInstructions || undefined,
+  };
+}
+
 // Create new will version
 export async function createWillVersion(willId: string, changes: UpdateWillData) {
-  return await db.transaction(async (tx) => {
-    const originalWill = await getWillById(willId);
-    if (!originalWill) throw new Error('Original will not found');
-
-    // Create new version
-    const [newVersion] = await tx.insert(wills).values({
-      matterId: originalWill.matterId,
-      testatorId: originalWill.testatorId,
-      willType: changes.willType || originalWill.willType,
-      language: changes.language || originalWill.language,
-      personalInfo: { ...originalWill.personalInfo, ...changes.personalInfo },
-      assets: changes.assets || originalWill.assets,
-      beneficiaries: changes.beneficiaries || originalWill.beneficiaries,
-      guardians: changes.guardians || originalWill.guardians,
-      executors: changes.executors || originalWill.executors,
-      specialInstructions: changes.specialInstructions || originalWill.specialInstructions,
-      status: 'draft',
-      version: originalWill.version + 1,
-      parentWillId: willId,
-    }).returning();
-
-    return newVersion;
-  });
+  const originalWill = await getWillById(willId);
+  if (!originalWill) throw new Error('Original will not found');
+
+  // Numbered after the newest version in the lineage so branches never reuse a version number
+  return await insertNextWillVersion(originalWill.rootWillId || originalWill.id, () => ({
+    matterId: originalWill.matterId,
+    testatorId: originalWill.testatorId,
+    willType: changes.willType || originalWill.willType,
+    language: changes.language || originalWill.language,
+    personalInfo: { ...originalWill.personalInfo, ...changes.personalInfo },
+    assets: changes.assets || originalWill.assets,
+    beneficiaries: changes.beneficiaries || originalWill.beneficiaries,
+    guardians: changes.guardians || originalWill.guardians,
+    executors: changes.executors || originalWill.executors,
+    trusts: changes.trusts || originalWill.trusts,
+    specialInstructions: changes.specialInstructions || originalWill.specialInstructions,
+    status: 'draft',
+    parentWillId: willId,
+  }));
 }
 
 // Get will versions history
 export async function getWillVersions(willId: string) {
-  return await db
-    .select()
-    .from(wills)
-    .where(eq(wills.parentWillId, willId))
-    .orderBy(wills.version);
+  return await getWillLineage(willId);
 }
 
-// Generate DIFC-compliant will content based on template
-export function generateDIFCContent(
-  willData: CreateWillData | UpdateWillData,
-  template: typeof DIFC_WILL_TEMPLATES.SIMPLE
-): string {
-  const { personalInfo, assets, beneficiaries, executors, guardians, specialInstructions } = willData;
-
-  let content = `LAST WILL AND TESTAMENT
-
-IN THE NAME OF ALLAH, THE MOST GRACIOUS, THE MOST MERCIFUL
-
-I, ${personalInfo?.emiratesId ? '[Full Name as per Emirates ID]' : 'NAME TO BE FILLED'}, holder of Emirates ID No. ${personalInfo?.emiratesId || '[EMIRATES_ID]'}, of ${personalInfo?.nationality || '[NATIONALITY]'} nationality, ${personalInfo?.visaStatus || 'residence'} visa holder, residing at ${formatPersonalAddress(personalInfo?.address)}, being of sound mind and disposing memory, do hereby make, publish and declare this to be my Last Will and Testament, hereby revoking all former wills and codicils made by me.
-
-PRELIMINARY DECLARATIONS
-
-1. IDENTIFICATION
-   I am ${personalInfo?.maritalStatus || 'single'} and ${personalInfo?.maritalStatus === 'married' ? 'my spouse is [SPOUSE_NAME]' : 'have no spouse'}.
-
-2. DIFC JURISDICTION
-   This Will is made pursuant to the DIFC Wills and Probate Registry Law and shall be governed by the laws of the Dubai International Financial Centre (DIFC). I hereby submit to the jurisdiction of the DIFC Courts for all matters relating to this Will.
-
-3. REVOCATION
-   I hereby revoke all prior wills, codicils, and testamentary dispositions made by me.
-
-`;
-
-  // Add asset provisions
-  if (assets && assets.length > 0) {
-    content += `DISPOSITION OF ASSETS
-
-4. SPECIFIC BEQUESTS
-`;
-    assets.forEach((asset, index) => {
-      content += `   ${index + 4}.${index + 1} I give, devise and bequeath my ${asset.description} located in ${asset.jurisdiction}, valued at approximately ${asset.currency} ${asset.estimatedValue?.toLocaleString() || 'VALUE_TBD'}, to be distributed as set forth in this Will.\n`;
-    });
+// Get every version in a will's lineage, from the original draft to the newest, ordered by version
+export async function getWillLineage(willId: string) {
+  const will = await getWillById(willId);
+  if (!will) return [];
+
+  // Walk up to the original will
+  let root = will;
+  const visited = new Set<string>([root.id]);
+  while (root.parentWillId && !visited.has(root.parentWillId)) {
+    const parent = await getWillById(root.parentWillId);
+    if (!parent) break;
+    visited.add(parent.id);
+    root = parent;
   }
 
-  // Add beneficiary provisions
-  if (beneficiaries && beneficiaries.length > 0) {
-    content += `\n5. BENEFICIARY PROVISIONS
-`;
-    beneficiaries.forEach((beneficiary, index) => {
-      const percentage = beneficiary.inheritancePercentage || 0;
-      content += `   5.${index + 1} I give ${percentage}% of my residuary estate to ${beneficiary.fullName}, my ${beneficiary.relationship}`;
-      
-      if (beneficiary.isContingent) {
-        content += ` (contingent beneficiary)`;
-      }
-      
-      if (beneficiary.conditions && beneficiary.conditions.length > 0) {
-        content += `, subject to the following conditions: ${beneficiary.conditions.join(', ')}`;
-      }
-      
-      content += `.\n`;
-    });
+  // Walk down through every descendant, one generation at a time
+  const lineage = [root];
+  const seen = new Set<string>([root.id]);
+  let generation = [root.id];
+
+  while (generation.length > 0) {
+    const children = await db
+      .select()
+      .from(wills)
+      .where(inArray(wills.parentWillId, generation));
+
+    const unseen = children.filter(child => !seen.has(child.id));
+    unseen.forEach(child => seen.add(child.id));
+    lineage.push(...unseen);
+    generation = unseen.map(child => child.id);
   }
 
-  // Add executor provisions
-  if (executors && executors.length > 0) {
-    content += `\n6. APPOINTMENT OF EXECUTOR(S)
-`;
-    const primaryExecutors = executors.filter(exec => exec.isPrimary);
-    const alternateExecutors = executors.filter(exec => !exec.isPrimary);
-
-    if (primaryExecutors.length > 0) {
-      content += `   I hereby nominate and appoint ${primaryExecutors.map(exec => exec.fullName).join(' and ')} as ${primaryExecutors.length > 1 ? 'joint Executors' : 'Executor'} of this my Will.\n`;
-    }
-
-    if (alternateExecutors.length > 0) {
-      content += `   In the event that ${primaryExecutors.length > 0 ? 'the above-named Executor(s) cannot or will not serve' : 'no primary executor is available'}, I nominate and appoint ${alternateExecutors.map(exec => exec.fullName).join(' and ')} as ${alternateExecutors.length > 1 ? 'joint alternate Executors' : 'alternate Executor'}.\n`;
-    }
-
-    content += `\n   I grant to my Executor(s) full power and authority to:\n`;
-    content += `   a) Sell, transfer, or otherwise dispose of any of my assets\n`;
-    content += `   b) Pay all debts, taxes, and expenses of my estate\n`;
-    content += `   c) Distribute assets according to the terms of this Will\n`;
-    content += `   d) Take all actions necessary for the proper administration of my estate\n`;
-  }
+  return lineage.sort((a, b) =>
+    (a.version || 1) - (b.version || 1) || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
 
-  // Add guardian provisions if applicable
-  if (guardians && guardians.length > 0) {
-    content += `\n7. APPOINTMENT OF GUARDIAN(S)
-`;
-    const primaryGuardians = guardians.filter(guard => guard.isPrimary);
-    const alternateGuardians = guardians.filter(guard => !guard.isPrimary);
+// Get the newest version in a will's lineage
+export async function getLatestWillVersion(willId: string) {
+  const lineage = await getWillLineage(willId);
+  return lineage[lineage.length - 1];
+}
 
-    if (primaryGuardians.length > 0) {
-      content += `   In the event I have minor children at the time of my death, I nominate and appoint ${primaryGuardians.map(guard => guard.fullName).join(' and ')} as ${primaryGuardians.length > 1 ? 'joint Guardians' : 'Guardian'} of my minor children.\n`;
-    }
+// Restore an earlier version by copying its content into a new version on top of the lineage
+export async function restoreWillVersion(versionId: string) {
+  const source = await getWillById(versionId);
+  if (!source) throw new Error('Will version not found');
+
+  return await insertNextWillVersion(source.rootWillId || source.id, latest => ({
+    matterId: source.matterId,
+    testatorId: source.testatorId,
+    willType: source.willType,
+    language: source.language,
+    personalInfo: source.personalInfo,
+    assets: source.assets,
+    beneficiaries: source.beneficiaries,
+    guardians: source.guardians,
+    executors: source.executors,
+    trusts: source.trusts,
+    specialInstructions: source.specialInstructions,
+    status: 'draft',
+    parentWillId: latest.id,
+  }));
+}
 
-    if (alternateGuardians.length > 0) {
-      content += `   If the above-named Guardian(s) cannot or will not serve, I nominate ${alternateGuardians.map(guard => guard.fullName).join(' and ')} as ${alternateGuardians.length > 1 ? 'alternate joint Guardians' : 'alternate Guardian'}.\n`;
+// Insert the next version of a lineage, numbering again when another version takes the number first
+async function insertNextWillVersion(
+  rootWillId: string,
+  values: (latest: { id: string }) => Omit<typeof wills.$inferInsert, 'version' | 'rootWillId'>
+) {
+  for (let attempt = 1; attempt <= MAX_VERSION_ATTEMPTS; attempt++) {
+    const [latest] = await db
+      .select({ id: wills.id, version: wills.version })
+      .from(wills)
+      .where(sql`coalesce(${wills.rootWillId}, ${wills.id}) = ${rootWillId}`)
+      .orderBy(sql`${wills.version} desc nulls last`)
+      .limit(1);
+
+    if (!latest) throw new Error('Will version not found');
+
+    const version = (latest.version || 1) + 1;
+
+    try {
+      const [created] = await db.insert(wills).values({
+        ...values(latest),
+        version,
+        rootWillId,
+      }).returning();
+
+      return created;
+    } catch (error) {
+      const code = (error as { code?: string })?.code;
+      if (code !== '23505' || attempt === MAX_VERSION_ATTEMPTS) {
+        throw error;
+      }
     }
   }
 
-  // Add special instructions
-  if (specialInstructions) {
-    content += `\n8. SPECIAL INSTRUCTIONS
-   ${specialInstructions}\n`;
-  }
+  throw new Error('Could not number the new will version');
+}
+
+// Generate DIFC-compliant will content from the built-in clause library
+export function generateDIFCContent(
+  willData: CreateWillData | UpdateWillData,
+  template: typeof DIFC_WILL_TEMPLATES.SIMPLE
+): string {
+  return assembleWillClauses(willData, template).content;
+}
 
-  // Add residuary clause
-  content += `\n9. RESIDUARY CLAUSE
-   All the rest, residue and remainder of my estate, real and personal, of whatsoever nature and wheresoever situated, I give, devise and bequeath to my beneficiaries as set forth above in the proportions specified.
-
-10. MISCELLANEOUS PROVISIONS
-   a) If any beneficiary dies before me, their share shall be distributed to the remaining beneficiaries in proportion to their respective shares.
-   b) This Will shall be construed according to the laws of the DIFC.
-   c) If any provision of this Will is deemed invalid, the remaining provisions shall remain in full force and effect.
-
-11. EXECUTION
-   IN WITNESS WHEREOF, I have hereunto set my hand and seal on this _____ day of _____________, 20__.
-
-   
-   _________________________________
-   [TESTATOR NAME]
-   Testator
-
-   
-   WITNESSED BY:
-   
-   _________________________________     _________________________________
-   Witness 1 Name                        Witness 1 Signature
-   
-   _________________________________     _________________________________
-   Witness 2 Name                        Witness 2 Signature
-
-DIFC COMPLIANCE CERTIFICATE
-
-This Will has been prepared in accordance with:
-- DIFC Law No. 5 of 2012 (DIFC Wills and Probate Registry Law)
-- DIFC Courts Law
-- DIFC regulatory requirements for expatriate wills
-
-For registration with the DIFC Wills and Probate Registry, this document must be:
-1. Signed by the testator in the presence of two witnesses
-2. Witnessed by two competent adults
-3. Submitted to DIFC with required fees and documentation
-4. Accompanied by supporting identification documents
-
-Document prepared on: ${new Date().toLocaleDateString()}
-Template: ${template.name}
-Language: ${(willData as any).language === 'ar' ? 'Arabic' : 'English'}`;
-
-  return content;
-}
-
-// Helper function to format personal address
-function formatPersonalAddress(address: any): string {
-  if (!address) return '[ADDRESS TO BE PROVIDED]';
-  
-  const parts = [
-    address.street,
-    address.city,
-    address.emirate,
-    address.country || 'UAE'
-  ].filter(Boolean);
-  
-  return parts.join(', ') || '[ADDRESS TO BE PROVIDED]';
-}
-
-// Validate DIFC compliance requirements
-export function validateDIFCCompliance(will: Record<string, any>): {
+// Validate will contents against the given DIFC compliance rules, normally the active rules from getActiveComplianceRules.
+// Stored wills should use runComplianceCheck, which also records the result on the will.
+export function validateDIFCCompliance(will: Record<string, any>, rules: ComplianceRule[]): {
   isCompliant: boolean;
   requirements: Array<{
     requirement: string;
     met: boolean;
     description: string;
   }>;
+  issues: ComplianceIssue[];
   score: number;
 } {
-  const requirements = [
-    {
-      requirement: 'Testator Identification',
-      met: !!(will.personalInfo?.emiratesId && will.personalInfo?.nationality),
-      description: 'Emirates ID and nationality must be specified'
-    },
-    {
-      requirement: 'DIFC Jurisdiction Clause',
-      met: true, // Automatically included in template
-      description: 'Must specify DIFC jurisdiction and governing law'
-    },
+  const evaluation = evaluateComplianceRules(
     {
-      requirement: 'Revocation Clause',
-      met: true, // Automatically included in template
-      description: 'Must revoke all previous wills and codicils'
+      personalInfo: will.personalInfo || {},
+      assets: will.assets || [],
+      beneficiaries: will.beneficiaries || [],
+      executors: will.executors || [],
+      guardians: will.guardians || [],
+      willType: will.willType,
+      specialInstructions: will.specialInstructions,
     },
-    {
-      requirement: 'Asset Identification',
-      met: !!(will.assets && will.assets.length > 0),
-      description: 'At least one asset must be identified'
-    },
-    {
-      requirement: 'Beneficiary Designation',
-      met: !!(will.beneficiaries && will.beneficiaries.length > 0),
-      description: 'At least one beneficiary must be named'
-    },
-    {
-      requirement: 'Executor Appointment',
-      met: !!(will.executors && will.executors.length > 0),
-      description: 'At least one executor must be appointed'
-    },
-    {
-      requirement: 'Witness Provisions',
-      met: true, // Included in template
-      description: 'Must include proper witness signature sections'
-    },
-    {
-      requirement: 'UAE Residency Status',
-      met: !!(will.personalInfo?.visaStatus),
-      description: 'UAE visa/residency status must be specified'
-    }
-  ];
+    rules
+  );
 
-  const metRequirements = requirements.filter(req => req.met).length;
-  const score = Math.round((metRequirements / requirements.length) * 100);
-  const isCompliant = score >= 85; // 85% compliance threshold
+  const requirements = rules
+    .map((rule, index) => ({ rule, result: evaluation.results[index] }))
+    .filter(({ result }) => result.applicable)
+    .map(({ rule, result }) => ({
+      requirement: rule.title,
+      met: result.passed,
+      description: rule.description,
+    }));
 
   return {
-    isCompliant,
+    isCompliant: evaluation.difcCompliant,
     requirements,
-    score
+    issues: evaluation.issues,
+    score: evaluation.score
   };
-}
\ No newline at end of file
+}
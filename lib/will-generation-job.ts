@@ -0,0 +1,500 @@
+/**
+ * Will Generation Job for Mirath Legal
+ * Runs AI will generation, legal analysis, compliance check and summary as resumable sub-steps of an ai_jobs entry
+ */
+
+import { db } from "@/db/drizzle";
+import { willDocuments } from "@/db/schema";
+import {
+  generateDIFCWill,
+  generateLegalAnalysis,
+  generateComplianceChecklist,
+  generateWillSummary,
+  type WillGenerationContext,
+  type AIGenerationOptions,
+} from "./ai-will-generator";
+import {
+  updateWill,
+  validateWillCompleteness,
+  getWillTemplate,
+  validateDIFCCompliance,
+  type CreateWillData,
+  type PersonalInfo,
+  type Asset,
+  type Beneficiary,
+  type Guardian,
+  type Executor,
+  type Trust,
+  type BusinessInterest,
+  type DigitalAssetDetails,
+} from "./will-engine";
+import { getMatterFirmId, recordAudit } from "./audit";
+import { assembleFirmWill } from "./clause-library";
+import { getActiveComplianceRules, runComplianceCheck } from "./compliance-engine";
+import { documentStorage } from "./document-storage";
+import { saveFuneralWishes } from "./letters-of-wishes";
+import { traceAssembledClauses, traceGeneratedWill, verifyWillTraceability } from "./will-verifier";
+import type { AiJobHandler } from "./ai-jobs";
+
+export const WILL_GENERATION_STEPS = ['generation', 'analysis', 'compliance', 'summary'] as const;
+
+// Wizard data accepted by POST /api/wills/generate
+export interface WillGenerationRequest {
+  willData: {
+    testatorName: string;
+    emiratesId: string;
+    nationality: string;
+    residenceAddress: string;
+    dateOfBirth: string;
+    maritalStatus: 'single' | 'married' | 'divorced' | 'widowed';
+    spouseName?: string;
+    assets: Array<{
+      id: string;
+      type: 'real_estate' | 'bank_account' | 'investment' | 'personal_property' | 'business' | 'digital';
+      description: string;
+      value: number;
+      location: string;
+      specificInstructions?: string;
+      business?: {
+        entityName: string;
+        entityType: string;
+        jurisdiction: 'mainland' | 'free_zone' | 'difc';
+        licensingAuthority?: string;
+        tradeLicenceNumber: string;
+        shareholding: number;
+        shareClass: string;
+        coShareholders: Array<{ id: string; name: string; shareholding: number }>;
+        successors: Array<{
+          id: string;
+          beneficiaryId?: string; // Will beneficiary this successor refers to, if any
+          name: string;
+          relationship: string;
+          share: number;
+        }>;
+        interimManager?: string;
+        buySellAgreement?: { counterparties: string; valuationMethod: string; insuranceFunded: boolean };
+        keyPersonProvisions?: string;
+      };
+      digital?: DigitalAssetDetails;
+    }>;
+    beneficiaries: Array<{
+      id: string;
+      name: string;
+      relationship: string;
+      percentage: number;
+      contingent: boolean;
+      specificAssets?: string[];
+      conditions?: string;
+    }>;
+    guardians: Array<{
+      id: string;
+      name: string;
+      relationship: string;
+      address: string;
+      phone: string;
+      alternateGuardian?: boolean;
+    }>;
+    executors: Array<{
+      id: string;
+      name: string;
+      relationship: string;
+      address: string;
+      phone: string;
+      alternateExecutor?: boolean;
+    }>;
+    trusts?: Array<{
+      id: string;
+      name: string;
+      purpose?: string;
+      trustees: Array<{
+        id: string;
+        name: string;
+        relationship: string;
+        address: string;
+        phone: string;
+        alternateTrustee?: boolean;
+        professional?: boolean;
+      }>;
+      beneficiaries: Array<{
+        id: string;
+        beneficiaryId?: string; // Will beneficiary this trust beneficiary refers to, if any
+        name: string;
+        relationship: string;
+        share: number;
+        vestingAge?: number;
+      }>;
+      assetIds: string[];
+      vestingAge: number;
+      distributionStandard: 'hems' | 'discretionary' | 'fixed_income' | 'custom';
+      distributionTerms?: string;
+    }>;
+    specialInstructions?: string;
+    funeralArrangements?: string;
+    willType: 'simple' | 'complex' | 'business_succession' | 'digital_assets';
+    language: 'en' | 'ar';
+  };
+  matterId?: string;
+  generateOptions?: {
+    includeLegalAnalysis?: boolean;
+    includeComplianceCheck?: boolean;
+    includeSummary?: boolean;
+    formalityLevel?: 'standard' | 'formal' | 'very_formal';
+    clauseKeys?: string[]; // Optional library clauses to include; required clauses are always added
+  };
+}
+
+type WizardWillData = WillGenerationRequest['willData'];
+type GenerateOptions = NonNullable<WillGenerationRequest['generateOptions']>;
+
+// Transform wizard data to the will engine format
+export function buildCreateWillData(
+  willData: WizardWillData,
+  testatorId: string,
+  matterId?: string
+): CreateWillData {
+  return {
+    matterId: matterId || '', // Use empty string if no matterId
+    testatorId,
+    willType: willData.willType,
+    language: willData.language,
+    ...mapWizardWillData(willData),
+    specialInstructions: willData.specialInstructions,
+  };
+}
+
+// Map wizard people and assets to will engine records
+function mapWizardWillData(willData: WizardWillData) {
+  const personalInfo: PersonalInfo = {
+    emiratesId: willData.emiratesId,
+    passportNumber: '', // Not captured in UI yet
+    nationality: willData.nationality,
+    visaStatus: 'residence', // Default, should be captured in UI
+    maritalStatus: willData.maritalStatus,
+    address: {
+      street: willData.residenceAddress,
+      city: '', // Should be parsed from address
+      emirate: '', // Should be captured separately
+      poBox: '',
+      country: 'UAE',
+    },
+    emergencyContact: {
+      name: willData.spouseName || '',
+      relationship: 'spouse',
+      phone: '',
+      email: '',
+    },
+  };
+
+  const assets: Asset[] = willData.assets.map(asset => ({
+    id: asset.id,
+    type: asset.type === 'real_estate' ? 'property' :
+          asset.type === 'personal_property' ? 'property' : asset.type,
+    name: asset.description,
+    description: asset.description,
+    estimatedValue: asset.value,
+    currency: 'AED',
+    jurisdiction: asset.location,
+    details: {
+      specificInstructions: asset.specificInstructions,
+    },
+    business: mapWizardBusiness(asset.business),
+    digital: asset.digital,
+  }));
+
+  const beneficiaries: Beneficiary[] = willData.beneficiaries.map(ben => ({
+    id: ben.id,
+    type: 'individual',
+    fullName: ben.name,
+    relationship: ben.relationship,
+    inheritancePercentage: ben.percentage,
+    specificAssets: ben.specificAssets,
+    conditions: ben.conditions ? [ben.conditions] : [],
+    isContingent: ben.contingent,
+  }));
+
+  const executors: Executor[] = willData.executors.map(exec => ({
+    id: exec.id,
+    fullName: exec.name,
+    relationship: exec.relationship,
+    contactInfo: {
+      address: exec.address,
+      phone: exec.phone,
+    },
+    isPrimary: !exec.alternateExecutor,
+    powers: ['full_authority'],
+  }));
+
+  const guardians: Guardian[] = willData.guardians.map(guard => ({
+    id: guard.id,
+    fullName: guard.name,
+    relationship: guard.relationship,
+    contactInfo: {
+      address: guard.address,
+      phone: guard.phone,
+    },
+    isPrimary: !guard.alternateGuardian,
+  }));
+
+  return { personalInfo, assets, beneficiaries, guardians, executors, trusts: mapWizardTrusts(willData.trusts) };
+}
+
+// Map wizard trusts, with their trustees and trust beneficiaries, to will engine records
+export function mapWizardTrusts(trusts: WizardWillData['trusts'] = []): Trust[] {
+  return trusts.map(trust => ({
+    id: trust.id,
+    name: trust.name,
+    purpose: trust.purpose,
+    trustees: trust.trustees.map(trustee => ({
+      id: trustee.id,
+      fullName: trustee.name,
+      relationship: trustee.relationship,
+      contactInfo: {
+        address: trustee.address,
+        phone: trustee.phone,
+      },
+      isPrimary: !trustee.alternateTrustee,
+      isProfessional: trustee.professional || false,
+    })),
+    beneficiaries: trust.beneficiaries.map(beneficiary => ({
+      id: beneficiary.id,
+      beneficiaryId: beneficiary.beneficiaryId,
+      fullName: beneficiary.name,
+      relationship: beneficiary.relationship,
+      sharePercentage: beneficiary.share,
+      vestingAge: beneficiary.vestingAge,
+    })),
+    assetIds: trust.assetIds,
+    vestingAge: trust.vestingAge,
+    distributionStandard: trust.distributionStandard,
+    distributionTerms: trust.distributionTerms,
+  }));
+}
+
+// Map a wizard business interest, with its co-shareholders and successors, to the will engine record
+export function mapWizardBusiness(
+  business: WizardWillData['assets'][number]['business']
+): BusinessInterest | undefined {
+  if (!business) return undefined;
+
+  return {
+    entityName: business.entityName,
+    entityType: business.entityType,
+    jurisdiction: business.jurisdiction,
+    licensingAuthority: business.licensingAuthority,
+    tradeLicenceNumber: business.tradeLicenceNumber,
+    shareholdingPercentage: business.shareholding,
+    shareClass: business.shareClass,
+    coShareholders: business.coShareholders.map(coShareholder => ({
+      id: coShareholder.id,
+      fullName: coShareholder.name,
+      shareholdingPercentage: coShareholder.shareholding,
+    })),
+    successors: business.successors.map(successor => ({
+      id: successor.id,
+      beneficiaryId: successor.beneficiaryId,
+      fullName: successor.name,
+      relationship: successor.relationship,
+      sharePercentage: successor.share,
+    })),
+    interimManager: business.interimManager,
+    buySellAgreement: business.buySellAgreement,
+    keyPersonProvisions: business.keyPersonProvisions,
+  };
+}
+
+// Worker handler for 'will_generation' jobs
+export const runWillGenerationJob: AiJobHandler = async (job, context) => {
+  const { willData, matterId } = job.inputData as { willData: WizardWillData; matterId?: string };
+  const generateOptions = (job.parameters as GenerateOptions | null) || {};
+  const willId = job.willId || undefined;
+  const firmId = await getMatterFirmId(matterId);
+
+  const createWillData = buildCreateWillData(willData, job.userId || '', matterId);
+  const { personalInfo, assets, beneficiaries, executors, guardians, trusts } = mapWizardWillData(willData);
+  const willContents = {
+    personalInfo,
+    assets,
+    beneficiaries,
+    executors,
+    guardians,
+    trusts,
+    specialInstructions: willData.specialInstructions,
+  };
+
+  const generationContext: WillGenerationContext = {
+    ...willContents,
+    executors: executors.map(executor => ({ ...executor })),
+    guardians: guardians.map(guardian => ({ ...guardian })),
+    willType: willData.willType,
+  };
+
+  const aiOptions: AIGenerationOptions = {
+    language: willData.language,
+    includeTechnicalTerms: true,
+    formalityLevel: generateOptions.formalityLevel || 'formal',
+    includeExplanations: false,
+  };
+
+  // DIFC template content and compliance are deterministic, so they are rebuilt on every attempt
+  const template = getWillTemplate(willData.willType);
+  const assembledWill = await assembleFirmWill(createWillData, template, {
+    firmId,
+    language: willData.language,
+    clauseKeys: generateOptions.clauseKeys,
+    testatorName: willData.testatorName,
+  });
+  const difcContent = assembledWill.content;
+  const difcValidation = validateDIFCCompliance(willContents, await getActiveComplianceRules());
+
+  // AI-enhanced will; once retries are exhausted fall back to template-only content
+  let usedTemplateFallback = false;
+  const generatedWill = await context.step(
+    'generation',
+    () => generateDIFCWill(generationContext, aiOptions, firmId),
+    {
+      fallback: () => {
+        usedTemplateFallback = true;
+        return {
+          title: `Last Will and Testament of ${willData.testatorName}`,
+          preamble: difcContent,
+          revocation: '',
+          beneficiaryProvisions: [],
+          executorProvisions: '',
+          executorIds: [],
+          residuaryClause: '',
+          witnessClause: '',
+          signature: '',
+          difcCompliance: {
+            registrationRequirement: 'DIFC registration required',
+            governingLaw: 'DIFC Law',
+            jurisdiction: 'DIFC Courts',
+          },
+        };
+      },
+    }
+  );
+
+  // Which record each clause was drafted from, checked against the wizard data
+  const traceability = verifyWillTraceability(
+    { testatorName: willData.testatorName, assets, beneficiaries, executors, guardians, trusts },
+    [
+      ...traceAssembledClauses(assembledWill.clauses),
+      ...(usedTemplateFallback ? [] : traceGeneratedWill(generatedWill)),
+    ]
+  );
+
+  // Combine template content with AI enhancements
+  const finalWillContent = {
+    ...generatedWill,
+    templateContent: difcContent,
+    clauses: assembledWill.clauses.map(clause => ({
+      clauseKey: clause.clauseKey,
+      number: clause.number,
+      source: clause.source,
+      versionId: clause.versionId,
+      version: clause.version,
+      sources: clause.sources,
+    })),
+    difcCompliance: difcValidation,
+  };
+
+  // Optional extras are dropped rather than failing the job once retries are exhausted
+  const legalAnalysis = generateOptions.includeLegalAnalysis
+    ? await context.step('analysis', () => generateLegalAnalysis(difcContent, assets, firmId), { fallback: () => null })
+    : await context.skipStep('analysis');
+
+  const complianceCheck = generateOptions.includeComplianceCheck
+    ? await context.step('compliance', () => generateComplianceChecklist(difcContent, firmId), { fallback: () => null })
+    : await context.skipStep('compliance');
+
+  const willSummary = generateOptions.includeSummary
+    ? await context.step('summary', () => generateWillSummary(difcContent, firmId), { fallback: () => null })
+    : await context.skipStep('summary');
+
+  const validation = validateWillCompleteness(willContents, template);
+
+  // Store generated document
+  let documentId: string | undefined;
+  let letterOfWishesId: string | undefined;
+  if (willId && matterId) {
+    const title = `${willData.willType.charAt(0).toUpperCase() + willData.willType.slice(1)} Will - ${willData.testatorName}`;
+    const content = Buffer.from(JSON.stringify({
+      title,
+      content: finalWillContent,
+      legalAnalysis,
+      complianceCheck,
+      willSummary,
+      validation,
+      difcValidation,
+      traceability,
+      jobId: job.id,
+    }));
+
+    const storageResult = await documentStorage.uploadDocument(content, {
+      filename: `generated-will-${job.id}.json`,
+      contentType: 'application/json',
+      documentType: 'generated_will',
+      uploadedBy: job.userId || 'system',
+      willId,
+      tags: { jobId: job.id },
+    });
+
+    if (!storageResult.success || !storageResult.url) {
+      throw new Error(storageResult.error || 'Failed to store generated will');
+    }
+
+    const [document] = await db.insert(willDocuments).values({
+      willId,
+      documentType: 'generated_will',
+      fileUrl: storageResult.url,
+      fileName: `generated-will-${job.id}.json`,
+      fileSize: content.length,
+      mimeType: 'application/json',
+      generatedBy: 'ai',
+    }).returning({ id: willDocuments.id });
+
+    documentId = document.id;
+
+    // Update will status, then record the active rules' verdict and issues on the stored will
+    await updateWill(willId, { status: 'under_review' });
+    const { will: updatedWill } = await runComplianceCheck(willId);
+
+    // Funeral wishes are not binding, so they go in the letter of wishes rather than the will
+    if (willData.funeralArrangements && updatedWill) {
+      const letter = await saveFuneralWishes(updatedWill, job.userId, willData.funeralArrangements);
+      letterOfWishesId = letter?.id;
+    }
+  }
+
+  await recordAudit({
+    userId: job.userId,
+    action: 'generate',
+    resource: 'will',
+    resourceId: willId || job.id,
+    firmId,
+    details: { jobId: job.id, documentId, templateOnly: !matterId },
+    sensitive: true,
+  });
+
+  return {
+    willId: willId || null,
+    documentId: documentId || null,
+    letterOfWishesId: letterOfWishesId || null,
+    finalWillContent,
+    legalAnalysis,
+    complianceCheck,
+    willSummary,
+    validation,
+    difcValidation,
+    traceability,
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      language: willData.language,
+      willType: willData.willType,
+      difcCompliant: difcValidation.isCompliant,
+      completeness: validation?.completeness || 0,
+      complianceScore: difcValidation.score,
+      templateOnly: !matterId,
+    },
+  };
+};
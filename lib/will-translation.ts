@@ -0,0 +1,269 @@
+/**
+ * Bilingual Will Assembly for Mirath Legal
+ * Pairs each clause with its Arabic or English counterpart, from the clause library where possible
+ * and from cached AI translations where the clause carries free text
+ */
+
+import { db } from "@/db/drizzle";
+import { clauseTranslations } from "@/db/schema";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { assembleFirmWill } from "./clause-library";
+import { translateWillClause } from "./ai-will-generator";
+import { localizeDigits, transliterateName, type NumeralStyle } from "./arabic-text";
+import type { AssembledClause, ClauseLanguage } from "./will-clauses";
+import type { CreateWillData, UpdateWillData } from "./will-engine";
+
+type WillContentData = CreateWillData | UpdateWillData;
+
+export type BilingualLayout = 'columns' | 'alternating';
+
+export interface BilingualClauseSide {
+  language: ClauseLanguage;
+  label: string | null; // Clause number as printed, e.g. "3." or "٣."
+  heading: string | null;
+  text: string;
+}
+
+export interface BilingualClause {
+  clauseKey: string;
+  primary: BilingualClauseSide;
+  secondary: BilingualClauseSide;
+  secondarySource: 'library' | 'translation';
+  cached: boolean;
+  needsReview: boolean; // Translation failed and the library wording still holds untranslated free text
+}
+
+export interface BilingualWill {
+  primaryLanguage: ClauseLanguage;
+  secondaryLanguage: ClauseLanguage;
+  numerals: NumeralStyle;
+  clauses: BilingualClause[];
+}
+
+// Validation schema for bilingual rendering requests
+export const bilingualWillRequestSchema = z.object({
+  layout: z.enum(['columns', 'alternating']).default('columns'),
+  primaryLanguage: z.enum(['en', 'ar']).optional(),
+  numerals: z.enum(['western', 'arabic_indic']).default('western'),
+  clauseKeys: z.array(z.string()).optional(),
+  nameOverrides: z.record(z.string().min(1)).optional(), // Preferred spelling of a name in the other script
+  format: z.enum(['pdf', 'json']).default('pdf'),
+});
+
+export type BilingualWillRequest = z.infer<typeof bilingualWillRequestSchema>;
+
+// Variables holding text typed by the user, which the library cannot supply in the other language
+const FREE_TEXT_VARIABLES = ['assetList', 'beneficiaryList', 'digitalAssetList', 'trustProvisions', 'businessSuccession', 'specialInstructions', 'nationality'];
+
+// Build the will in both languages, clause by clause
+export async function assembleBilingualWill(
+  willData: WillContentData,
+  template: { name: string },
+  options: {
+    firmId?: string | null;
+    primaryLanguage?: ClauseLanguage;
+    clauseKeys?: string[];
+    testatorName?: string;
+    nameOverrides?: Record<string, string>;
+    numerals?: NumeralStyle;
+  } = {}
+): Promise<BilingualWill> {
+  const primaryLanguage = options.primaryLanguage || willData.language || 'en';
+  const secondaryLanguage: ClauseLanguage = primaryLanguage === 'en' ? 'ar' : 'en';
+  const numerals = options.numerals || 'western';
+
+  // Every name in the will, spelt for the other script
+  const glossary = buildNameGlossary(willData, options.testatorName, secondaryLanguage, options.nameOverrides);
+
+  const primary = await assembleFirmWill(willData, template, {
+    firmId: options.firmId,
+    language: primaryLanguage,
+    clauseKeys: options.clauseKeys,
+    testatorName: options.testatorName,
+  });
+
+  const secondary = await assembleFirmWill(localizeNames(willData, glossary), template, {
+    firmId: options.firmId,
+    language: secondaryLanguage,
+    clauseKeys: options.clauseKeys,
+    testatorName: options.testatorName ? glossary[options.testatorName] : undefined,
+  });
+
+  const clauses: BilingualClause[] = [];
+
+  for (const clause of primary.clauses) {
+    const counterpart = secondary.clauses.find(candidate => candidate.clauseKey === clause.clauseKey);
+    let text = counterpart?.text || '';
+    let secondarySource: BilingualClause['secondarySource'] = 'library';
+    let cached = false;
+    let needsReview = false;
+
+    if (!counterpart || needsTranslation(clause, counterpart)) {
+      try {
+        const translation = await getClauseTranslation({
+          firmId: options.firmId,
+          clauseKey: clause.clauseKey,
+          text: clause.text,
+          sourceLanguage: primaryLanguage,
+          targetLanguage: secondaryLanguage,
+          glossary,
+        });
+        text = translation.translatedText;
+        secondarySource = 'translation';
+        cached = translation.cached;
+      } catch (error) {
+        console.error(`Bilingual will: translation of ${clause.clauseKey} failed:`, error);
+        needsReview = true;
+      }
+    }
+
+    clauses.push({
+      clauseKey: clause.clauseKey,
+      primary: toSide(clause.number, clause.heading, clause.text, primaryLanguage, numerals),
+      secondary: toSide(clause.number, counterpart?.heading || null, text, secondaryLanguage, numerals),
+      secondarySource,
+      cached,
+      needsReview,
+    });
+  }
+
+  return { primaryLanguage, secondaryLanguage, numerals, clauses };
+}
+
+// Cached translation of a rendered clause, asking the firm's model only on a cache miss
+export async function getClauseTranslation(request: {
+  firmId?: string | null;
+  clauseKey: string;
+  text: string;
+  sourceLanguage: ClauseLanguage;
+  targetLanguage: ClauseLanguage;
+  glossary?: Record<string, string>;
+}): Promise<{ translatedText: string; cached: boolean }> {
+  const firmId = request.firmId || null;
+  const glossary = request.glossary || {};
+
+  // The glossary changes how names are written, so it is part of the cache key
+  const sourceHash = createHash('sha256')
+    .update(JSON.stringify([request.sourceLanguage, request.text, glossary]))
+    .digest('hex');
+
+  const [hit] = await db
+    .select()
+    .from(clauseTranslations)
+    .where(and(
+      eq(clauseTranslations.clauseKey, request.clauseKey),
+      eq(clauseTranslations.sourceHash, sourceHash),
+      eq(clauseTranslations.targetLanguage, request.targetLanguage),
+      firmId ? eq(clauseTranslations.lawFirmId, firmId) : isNull(clauseTranslations.lawFirmId)
+    ))
+    .limit(1);
+
+  if (hit) {
+    await db
+      .update(clauseTranslations)
+      .set({ hitCount: sql`${clauseTranslations.hitCount} + 1`, lastUsedAt: new Date() })
+      .where(eq(clauseTranslations.id, hit.id));
+
+    return { translatedText: hit.translatedText, cached: true };
+  }
+
+  const translation = await translateWillClause(
+    request.text,
+    request.sourceLanguage,
+    request.targetLanguage,
+    glossary,
+    firmId
+  );
+
+  await db.insert(clauseTranslations).values({
+    lawFirmId: firmId,
+    clauseKey: request.clauseKey,
+    sourceLanguage: request.sourceLanguage,
+    targetLanguage: request.targetLanguage,
+    sourceHash,
+    sourceText: request.text,
+    translatedText: translation.translatedText,
+    provider: translation.provider,
+    modelId: translation.modelId,
+  });
+
+  return { translatedText: translation.translatedText, cached: false };
+}
+
+// Library wording can stand in for a translation only when it is the same wording and holds no free text
+function needsTranslation(clause: AssembledClause, counterpart: AssembledClause): boolean {
+  if (clause.source !== counterpart.source) return true;
+  return clause.variables.some(name => FREE_TEXT_VARIABLES.includes(name));
+}
+
+// Map of every name in the will to its spelling in the target script
+function buildNameGlossary(
+  willData: WillContentData,
+  testatorName: string | undefined,
+  target: ClauseLanguage,
+  overrides: Record<string, string> = {}
+): Record<string, string> {
+  const names = [
+    testatorName,
+    ...(willData.beneficiaries || []).map(beneficiary => beneficiary.fullName),
+    ...(willData.executors || []).map(executor => executor.fullName),
+    ...(willData.guardians || []).map(guardian => guardian.fullName),
+    ...(willData.trusts || []).flatMap(trust => [
+      ...trust.trustees.map(trustee => trustee.fullName),
+      ...trust.beneficiaries.map(beneficiary => beneficiary.fullName),
+    ]),
+    ...(willData.assets || []).flatMap(asset => asset.business ? [
+      asset.business.interimManager,
+      ...asset.business.coShareholders.map(coShareholder => coShareholder.fullName),
+      ...asset.business.successors.map(successor => successor.fullName),
+    ] : []),
+  ].filter((name): name is string => !!name);
+
+  return Object.fromEntries(
+    [...new Set(names)].map(name => [name, overrides[name] || transliterateName(name, target)])
+  );
+}
+
+// Copy of the will with people's names replaced by their glossary spelling
+function localizeNames(willData: WillContentData, glossary: Record<string, string>): WillContentData {
+  const rename = <T extends { fullName: string }>(people?: T[]) =>
+    people?.map(person => ({ ...person, fullName: glossary[person.fullName] || person.fullName }));
+
+  return {
+    ...willData,
+    beneficiaries: rename(willData.beneficiaries),
+    executors: rename(willData.executors),
+    guardians: rename(willData.guardians),
+    trusts: willData.trusts?.map(trust => ({
+      ...trust,
+      trustees: rename(trust.trustees) || [],
+      beneficiaries: rename(trust.beneficiaries) || [],
+    })),
+    assets: willData.assets?.map(asset => asset.business ? {
+      ...asset,
+      business: {
+        ...asset.business,
+        interimManager: asset.business.interimManager && (glossary[asset.business.interimManager] || asset.business.interimManager),
+        coShareholders: rename(asset.business.coShareholders) || [],
+        successors: rename(asset.business.successors) || [],
+      },
+    } : asset),
+  };
+}
+
+function toSide(
+  number: number | null,
+  heading: string | null,
+  text: string,
+  language: ClauseLanguage,
+  numerals: NumeralStyle
+): BilingualClauseSide {
+  return {
+    language,
+    label: number ? localizeDigits(`${number}.`, language, numerals) : null,
+    heading,
+    text: localizeDigits(text, language, numerals),
+  };
+}
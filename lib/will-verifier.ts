@@ -0,0 +1,296 @@
+/**
+ * Will Traceability Verifier for Mirath Legal
+ * Maps each generated clause back to the assets, beneficiaries and people it came from,
+ * and flags gaps, invented names and percentages that disagree with the structured data
+ */
+
+import { toClauseSources, type AssembledClause, type ClauseSources } from "./will-clauses";
+import type { GeneratedWill } from "./ai-will-generator";
+import type { Asset, Beneficiary, Executor, Guardian, Trust } from "./will-engine";
+
+export type ClauseOrigin = 'template' | 'ai';
+
+export interface TracedClause {
+  clauseKey: string;
+  title: string;
+  origin: ClauseOrigin;
+  text: string;
+  sources: ClauseSources;
+  percentage?: number; // Share the model stated for a beneficiary provision
+}
+
+export type TraceabilityIssueType =
+  | 'uncovered_asset'
+  | 'uncovered_beneficiary'
+  | 'unknown_source'
+  | 'unknown_person'
+  | 'percentage_mismatch';
+
+export interface TraceabilityIssue {
+  type: TraceabilityIssueType;
+  severity: 'error' | 'warning';
+  origin: ClauseOrigin;
+  clauseKey?: string;
+  entityId?: string;
+  message: string;
+}
+
+export interface TraceabilityReport {
+  status: 'pass' | 'warnings' | 'fail';
+  checkedAt: string;
+  clauses: Array<{
+    clauseKey: string;
+    title: string;
+    origin: ClauseOrigin;
+    sources: Array<{ type: 'asset' | 'beneficiary' | 'executor' | 'guardian' | 'trustee'; id: string; label: string | null }>;
+  }>;
+  coverage: Record<ClauseOrigin, {
+    assets: { covered: number; total: number };
+    beneficiaries: { covered: number; total: number };
+  } | null>;
+  issues: TraceabilityIssue[];
+}
+
+export interface TraceableWillData {
+  testatorName?: string;
+  assets: Asset[];
+  beneficiaries: Beneficiary[];
+  executors: Executor[];
+  guardians: Guardian[];
+  trusts?: Trust[];
+}
+
+// Capitalised words that appear in will wording but are not people
+const NON_NAME_WORDS = new Set([
+  'allah', 'most', 'gracious', 'merciful', 'last', 'will', 'wills', 'testament', 'testator', 'testatrix',
+  'executor', 'executors', 'guardian', 'guardians', 'beneficiary', 'beneficiaries', 'witness', 'witnesses',
+  'dubai', 'international', 'financial', 'centre', 'center', 'courts', 'court', 'law', 'laws', 'registry',
+  'probate', 'united', 'arab', 'emirates', 'uae', 'abu', 'dhabi', 'sharjah', 'full', 'name', 'signature',
+  'residuary', 'clause', 'specific', 'bequests', 'provisions', 'miscellaneous', 'appointment', 'power',
+  'powers', 'special', 'instructions', 'declaration', 'declarations', 'preliminary', 'jurisdiction',
+  'revocation', 'compliance', 'certificate', 'document', 'registration', 'service', 'services', 'digital',
+  'assets', 'estate', 'schedule', 'article', 'section', 'part', 'in', 'the', 'of', 'and', 'this', 'my',
+  'business', 'company', 'shares', 'ordinary', 'preference', 'trade', 'licence', 'free', 'zone', 'mainland',
+]);
+
+// Clauses whose percentages are shares of a trust fund or a shareholding, not of the estate
+const PART_SHARE_CLAUSES = new Set(['testamentary_trusts', 'business_succession', 'ai_trusts', 'ai_business']);
+
+const NAME_PATTERN = /\b[A-Z][a-z]+(?:[-'][A-Z]?[a-z]+)*(?:[ \t]+[A-Z][a-z]+(?:[-'][A-Z]?[a-z]+)*){1,3}\b/g;
+const PERCENTAGE_PATTERN = /(\d+(?:\.\d+)?)\s*(?:%|per\s?cent\b|percent\b)/gi;
+
+// Template clauses carry their sources from the assembler
+export function traceAssembledClauses(clauses: AssembledClause[]): TracedClause[] {
+  return clauses.map(clause => ({
+    clauseKey: clause.clauseKey,
+    title: clause.heading || clause.clauseKey,
+    origin: 'template',
+    text: clause.text,
+    sources: clause.sources,
+  }));
+}
+
+// AI clauses carry the ids the model reported for each provision
+export function traceGeneratedWill(generatedWill: GeneratedWill): TracedClause[] {
+  const clause = (clauseKey: string, title: string, text: string | undefined, sources: Partial<ClauseSources> = {}) =>
+    text ? [{ clauseKey, title, origin: 'ai' as const, text, sources: toClauseSources(sources) }] : [];
+
+  return [
+    ...clause('ai_preamble', 'Preamble', generatedWill.preamble),
+    ...clause('ai_revocation', 'Revocation', generatedWill.revocation),
+    ...generatedWill.beneficiaryProvisions.map((provision, index): TracedClause => ({
+      clauseKey: `ai_beneficiary_${index + 1}`,
+      title: `Provision for ${provision.beneficiaryName}`,
+      origin: 'ai',
+      text: provision.provision,
+      sources: toClauseSources({
+        beneficiaryIds: provision.beneficiaryId ? [provision.beneficiaryId] : [],
+        assetIds: provision.assetIds,
+      }),
+      percentage: provision.percentage,
+    })),
+    ...clause('ai_executors', 'Executors', generatedWill.executorProvisions, { executorIds: generatedWill.executorIds }),
+    ...clause('ai_guardians', 'Guardians', generatedWill.guardianProvisions, { guardianIds: generatedWill.guardianIds }),
+    ...clause('ai_trusts', 'Testamentary trusts', generatedWill.trustProvisions, { trusteeIds: generatedWill.trusteeIds }),
+    ...clause('ai_business', 'Business succession', generatedWill.businessProvisions, { assetIds: generatedWill.businessAssetIds }),
+    ...clause('ai_residuary', 'Residuary clause', generatedWill.residuaryClause),
+    ...clause('ai_witness', 'Witness clause', generatedWill.witnessClause),
+    ...clause('ai_signature', 'Signature', generatedWill.signature),
+  ];
+}
+
+// Check the clauses against the structured will data
+export function verifyWillTraceability(data: TraceableWillData, clauses: TracedClause[]): TraceabilityReport {
+  const issues: TraceabilityIssue[] = [];
+  const trusts = data.trusts || [];
+  const businesses = data.assets.flatMap(asset => asset.business ? [asset.business] : []);
+  const labels = {
+    asset: new Map(data.assets.map(asset => [asset.id, asset.name || asset.description])),
+    beneficiary: new Map(data.beneficiaries.map(beneficiary => [beneficiary.id, beneficiary.fullName])),
+    executor: new Map(data.executors.map(executor => [executor.id, executor.fullName])),
+    guardian: new Map(data.guardians.map(guardian => [guardian.id, guardian.fullName])),
+    trustee: new Map(trusts.flatMap(trust => trust.trustees.map(trustee => [trustee.id, trustee.fullName] as const))),
+  };
+  const knownNames = [
+    data.testatorName,
+    ...data.beneficiaries.map(beneficiary => beneficiary.fullName),
+    ...data.executors.map(executor => executor.fullName),
+    ...data.guardians.map(guardian => guardian.fullName),
+    ...trusts.flatMap(trust => [
+      ...trust.trustees.map(trustee => trustee.fullName),
+      ...trust.beneficiaries.map(beneficiary => beneficiary.fullName),
+    ]),
+    ...data.assets.map(asset => asset.digital?.platform),
+    ...businesses.flatMap(business => [
+      business.entityName,
+      business.licensingAuthority,
+      business.interimManager,
+      ...business.coShareholders.map(coShareholder => coShareholder.fullName),
+      ...business.successors.map(successor => successor.fullName),
+    ]),
+  ].filter((name): name is string => !!name).map(normalizeName);
+
+  const reportClauses = clauses.map(clause => {
+    const sources = [
+      ...clause.sources.assetIds.map(id => ({ type: 'asset' as const, id })),
+      ...clause.sources.beneficiaryIds.map(id => ({ type: 'beneficiary' as const, id })),
+      ...clause.sources.executorIds.map(id => ({ type: 'executor' as const, id })),
+      ...clause.sources.guardianIds.map(id => ({ type: 'guardian' as const, id })),
+      ...clause.sources.trusteeIds.map(id => ({ type: 'trustee' as const, id })),
+    ].map(source => ({ ...source, label: labels[source.type].get(source.id) ?? null }));
+
+    // Ids the model cited that are not in the will
+    sources.filter(source => source.label === null).forEach(source => issues.push({
+      type: 'unknown_source',
+      severity: 'error',
+      origin: clause.origin,
+      clauseKey: clause.clauseKey,
+      entityId: source.id,
+      message: `"${clause.title}" cites ${source.type} ${source.id}, which is not in the will data`,
+    }));
+
+    checkNames(clause, knownNames, issues);
+    checkPercentages(clause, data.beneficiaries, issues);
+
+    return { clauseKey: clause.clauseKey, title: clause.title, origin: clause.origin, sources };
+  });
+
+  const coverage = {
+    template: checkCoverage('template', data, clauses, issues),
+    ai: checkCoverage('ai', data, clauses, issues),
+  };
+
+  // A share stated both in the provision and in its text is reported once
+  const uniqueIssues = issues.filter((issue, index) => issues.findIndex(other =>
+    other.type === issue.type && other.clauseKey === issue.clauseKey && other.entityId === issue.entityId &&
+    (issue.entityId !== undefined || other.message === issue.message)
+  ) === index);
+
+  return {
+    status: uniqueIssues.some(issue => issue.severity === 'error') ? 'fail' : uniqueIssues.length > 0 ? 'warnings' : 'pass',
+    checkedAt: new Date().toISOString(),
+    clauses: reportClauses,
+    coverage,
+    issues: uniqueIssues,
+  };
+}
+
+// Every asset and beneficiary should be drafted from by some clause of each document
+function checkCoverage(
+  origin: ClauseOrigin,
+  data: TraceableWillData,
+  clauses: TracedClause[],
+  issues: TraceabilityIssue[]
+) {
+  const documentClauses = clauses.filter(clause => clause.origin === origin);
+  if (documentClauses.length === 0) return null;
+
+  const documentName = origin === 'ai' ? 'AI-drafted' : 'template';
+  const coveredAssets = new Set(documentClauses.flatMap(clause => clause.sources.assetIds));
+  const coveredBeneficiaries = new Set(documentClauses.flatMap(clause => clause.sources.beneficiaryIds));
+
+  data.assets.filter(asset => !coveredAssets.has(asset.id)).forEach(asset => issues.push({
+    type: 'uncovered_asset',
+    severity: 'error',
+    origin,
+    entityId: asset.id,
+    message: `Asset "${asset.name || asset.description}" is not covered by any ${documentName} clause`,
+  }));
+
+  data.beneficiaries.filter(beneficiary => !coveredBeneficiaries.has(beneficiary.id)).forEach(beneficiary => issues.push({
+    type: 'uncovered_beneficiary',
+    severity: 'error',
+    origin,
+    entityId: beneficiary.id,
+    message: `Beneficiary ${beneficiary.fullName} is not covered by any ${documentName} clause`,
+  }));
+
+  return {
+    assets: { covered: data.assets.filter(asset => coveredAssets.has(asset.id)).length, total: data.assets.length },
+    beneficiaries: {
+      covered: data.beneficiaries.filter(beneficiary => coveredBeneficiaries.has(beneficiary.id)).length,
+      total: data.beneficiaries.length,
+    },
+  };
+}
+
+// Name-like phrases in the text that match nobody in the will
+function checkNames(clause: TracedClause, knownNames: string[], issues: TraceabilityIssue[]) {
+  const candidates = new Set(clause.text.match(NAME_PATTERN) || []);
+
+  for (const candidate of candidates) {
+    const words = candidate.split(/\s+/);
+    if (words.some(word => NON_NAME_WORDS.has(word.toLowerCase()))) continue;
+
+    const normalized = normalizeName(candidate);
+    const known = knownNames.some(name => name.includes(normalized) || normalized.includes(name));
+
+    if (!known) {
+      issues.push({
+        type: 'unknown_person',
+        severity: 'warning',
+        origin: clause.origin,
+        clauseKey: clause.clauseKey,
+        message: `"${clause.title}" names "${candidate}", who is not in the will data`,
+      });
+    }
+  }
+}
+
+// Percentages next to a single beneficiary must equal their inheritance percentage
+function checkPercentages(clause: TracedClause, beneficiaries: Beneficiary[], issues: TraceabilityIssue[]) {
+  const mismatch = (beneficiary: Beneficiary, stated: number) => issues.push({
+    type: 'percentage_mismatch',
+    severity: 'error',
+    origin: clause.origin,
+    clauseKey: clause.clauseKey,
+    entityId: beneficiary.id,
+    message: `"${clause.title}" gives ${beneficiary.fullName} ${stated}% but the will data says ${beneficiary.inheritancePercentage}%`,
+  });
+
+  // The share the model reported for its provision
+  if (clause.percentage !== undefined && clause.sources.beneficiaryIds.length === 1) {
+    const beneficiary = beneficiaries.find(candidate => candidate.id === clause.sources.beneficiaryIds[0]);
+    if (beneficiary?.inheritancePercentage !== undefined && beneficiary.inheritancePercentage !== clause.percentage) {
+      mismatch(beneficiary, clause.percentage);
+    }
+  }
+
+  // Shares written in the text, checked sentence by sentence
+  if (PART_SHARE_CLAUSES.has(clause.clauseKey)) return;
+  for (const sentence of clause.text.split(/\n|(?<=\.)\s+/)) {
+    const named = beneficiaries.filter(beneficiary =>
+      beneficiary.fullName && sentence.toLowerCase().includes(beneficiary.fullName.toLowerCase())
+    );
+    if (named.length !== 1 || named[0].inheritancePercentage === undefined) continue;
+
+    const stated = [...sentence.matchAll(PERCENTAGE_PATTERN)].map(match => Number(match[1]));
+    if (stated.length > 0 && !stated.includes(named[0].inheritancePercentage)) {
+      mismatch(named[0], stated[0]);
+    }
+  }
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z\s]/g, '').replace(/\s+/g, ' ').trim();
+}
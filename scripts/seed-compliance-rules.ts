@@ -0,0 +1,59 @@
+/**
+ * DIFC Compliance Rules Seeding Script
+ * Loads the default rule set into difc_compliance_rules (existing rule codes are left untouched)
+ */
+
+import { db } from '../db/drizzle';
+import { difcComplianceRules } from '../db/schema';
+import { DEFAULT_DIFC_COMPLIANCE_RULES } from '../lib/compliance-engine';
+import { eq } from 'drizzle-orm';
+
+async function seedComplianceRules() {
+  console.log('🌱 Seeding DIFC compliance rules...');
+
+  const effectiveDate = new Date().toISOString().split('T')[0];
+  let created = 0;
+
+  try {
+    for (const rule of DEFAULT_DIFC_COMPLIANCE_RULES) {
+      const existingRule = await db.select()
+        .from(difcComplianceRules)
+        .where(eq(difcComplianceRules.ruleCode, rule.ruleCode))
+        .limit(1);
+
+      if (existingRule.length > 0) {
+        console.log(`Skipping existing rule: ${rule.ruleCode}`);
+        continue;
+      }
+
+      console.log(`Creating rule: ${rule.ruleCode} - ${rule.title}`);
+      await db.insert(difcComplianceRules).values({
+        ruleType: rule.ruleType,
+        ruleCode: rule.ruleCode,
+        title: rule.title,
+        description: rule.description,
+        validationLogic: rule.validationLogic,
+        effectiveDate,
+        isActive: true,
+      });
+      created++;
+    }
+
+    console.log(`✅ Compliance rules seeded (${created} created)`);
+  } catch (error) {
+    console.error('❌ Error seeding compliance rules:', error);
+    throw error;
+  }
+}
+
+// Execute if run directly
+if (require.main === module) {
+  seedComplianceRules()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { seedComplianceRules };
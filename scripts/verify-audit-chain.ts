@@ -0,0 +1,98 @@
+/**
+ * Audit Chain Verification Script
+ * Walks each firm's audit hash chain and reports the first broken link; with --bundle, checks an exported bundle's signature
+ *
+ * Usage:
+ *   npx tsx scripts/verify-audit-chain.ts               # every chain
+ *   npx tsx scripts/verify-audit-chain.ts <firmId>      # one firm
+ *   npx tsx scripts/verify-audit-chain.ts --bundle <file.json> [--key <public.pem>]
+ *
+ * Bundles are checked against --key, else AUDIT_SIGNING_PUBLIC_KEY, else the key derived from AUDIT_SIGNING_PRIVATE_KEY
+ */
+
+import { readFileSync } from 'fs';
+import {
+  getAuditChainFirmIds,
+  getAuditSigningPublicKey,
+  verifyAuditBundleSignature,
+  verifyAuditChain,
+} from '../lib/audit-chain';
+
+async function verifyChains(firmId?: string): Promise<boolean> {
+  const firmIds = firmId ? [firmId] : await getAuditChainFirmIds();
+  let allValid = true;
+
+  if (firmIds.length === 0) {
+    console.log('No chained audit entries found');
+    return true;
+  }
+
+  for (const id of firmIds) {
+    const label = id ? `firm ${id}` : 'platform chain';
+    const result = await verifyAuditChain(id);
+
+    if (result.valid) {
+      console.log(`✅ ${label}: ${result.checkedEntries} entries verified (head #${result.headSequence ?? 0})`);
+    } else {
+      allValid = false;
+      const link = result.firstBrokenLink!;
+      console.log(`❌ ${label}: chain broken at entry #${link.sequence} (${link.entryId})`);
+      console.log(`   reason: ${link.reason}, expected ${link.expected}, found ${link.actual}`);
+      console.log(`   ${result.checkedEntries} entries verified before the break`);
+    }
+
+    if (result.unchainedEntries > 0) {
+      console.log(`   ${result.unchainedEntries} entries predate the hash chain and were not verified`);
+    }
+  }
+
+  return allValid;
+}
+
+function verifyBundle(path: string, keyPath?: string): boolean {
+  const trustedKey = keyPath ? readFileSync(keyPath, 'utf8') : getAuditSigningPublicKey();
+  if (!trustedKey) {
+    throw new Error('No trusted public key: pass --key <public.pem> or set AUDIT_SIGNING_PUBLIC_KEY');
+  }
+
+  const bundle = JSON.parse(readFileSync(path, 'utf8'));
+  const result = verifyAuditBundleSignature(bundle, trustedKey);
+
+  if (result.valid) {
+    console.log(`✅ Bundle signature valid (key ${result.expectedFingerprint}, generated ${bundle.generatedAt})`);
+  } else if (result.reason === 'different_key') {
+    console.log(`❌ Bundle was signed with a different key (${bundle.signature.keyFingerprint}, expected ${result.expectedFingerprint})`);
+  } else if (result.reason === 'unsigned') {
+    console.log('❌ Bundle is not signed');
+  } else {
+    console.log('❌ Bundle signature invalid: the bundle was modified after it was signed');
+  }
+
+  return result.valid;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--bundle') {
+    if (!args[1] || (args[2] === '--key' && !args[3])) {
+      throw new Error('Usage: verify-audit-chain.ts --bundle <file.json> [--key <public.pem>]');
+    }
+    return verifyBundle(args[1], args[2] === '--key' ? args[3] : undefined);
+  }
+
+  console.log('🔍 Verifying audit hash chains...');
+  return await verifyChains(args[0]);
+}
+
+// Execute if run directly
+if (require.main === module) {
+  main()
+    .then((valid) => process.exit(valid ? 0 : 1))
+    .catch((error) => {
+      console.error(error);
+      process.exit(2);
+    });
+}
+
+export { verifyChains, verifyBundle };